@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { Switch, Route, useLocation } from "wouter";
-import { queryClient } from "./lib/queryClient";
+import { queryClient, subscribeToServerEvents } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
@@ -18,8 +18,18 @@ import Register from "@/pages/register";
 import ForgotPassword from "@/pages/forgot-password";
 import ResetPassword from "@/pages/reset-password";
 import ForceChangePassword from "@/pages/force-change-password";
+import ForceTotpEnrollment from "@/pages/force-totp-enrollment";
 import DecisionLog from "@/pages/decision-log";
 import Setup from "@/pages/setup";
+import Templates from "@/pages/templates";
+import SwotTemplate from "@/pages/templates/swot";
+import PestleTemplate from "@/pages/templates/pestle";
+import PortersFiveForcesTemplate from "@/pages/templates/porters-five-forces";
+import OgsmTemplate from "@/pages/templates/ogsm";
+import StrategyOnAPage from "@/pages/templates/strategy-on-a-page";
+import FirstPrinciplesTemplate from "@/pages/templates/first-principles";
+import EisenhowerMatrixTemplate from "@/pages/templates/eisenhower-matrix";
+import SmartGoalsTemplate from "@/pages/templates/smart-goals";
 
 function Router() {
   const { isAuthenticated, isLoading, user } = useAuth();
@@ -39,6 +49,11 @@ function Router() {
       });
   }, []);
 
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    return subscribeToServerEvents();
+  }, [isAuthenticated]);
+
   useEffect(() => {
     if (setupChecked && needsSetup && !isLoading) {
       setLocation("/setup");
@@ -67,6 +82,10 @@ function Router() {
     return <ForceChangePassword />;
   }
 
+  if (user?.totpEnrollmentRequired) {
+    return <ForceTotpEnrollment />;
+  }
+
   return (
     <>
       <Switch>
@@ -79,6 +98,15 @@ function Router() {
         <Route path="/graph">{() => { window.location.replace('/reports?tab=graph'); return null; }}</Route>
         <Route path="/decision-log" component={DecisionLog} />
         <Route path="/reports" component={Reports} />
+        <Route path="/templates" component={Templates} />
+        <Route path="/templates/swot" component={SwotTemplate} />
+        <Route path="/templates/pestle" component={PestleTemplate} />
+        <Route path="/templates/porters-five-forces" component={PortersFiveForcesTemplate} />
+        <Route path="/templates/ogsm" component={OgsmTemplate} />
+        <Route path="/templates/strategy-on-a-page" component={StrategyOnAPage} />
+        <Route path="/templates/first-principles" component={FirstPrinciplesTemplate} />
+        <Route path="/templates/eisenhower-matrix" component={EisenhowerMatrixTemplate} />
+        <Route path="/templates/smart-goals" component={SmartGoalsTemplate} />
         <Route path="/settings" component={Settings} />
         <Route component={NotFound} />
       </Switch>
@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { Check, Copy, Download, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+
+type TotpSetup = { secret: string; otpauthUrl: string; qrCode: string };
+
+export async function postAuth<T = any>(url: string, body?: unknown): Promise<T> {
+  const csrfToken = document.cookie.match(/csrf_token=([^;]+)/)?.[1];
+  const response = await fetch(url, {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(csrfToken ? { 'x-csrf-token': csrfToken } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Request failed');
+  }
+  return data;
+}
+
+export function RecoveryCodesList({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const [copied, setCopied] = useState(false);
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const downloadCodes = () => {
+    const blob = new Blob([`ERP Team recovery codes\n\n${codes.join("\n")}\n`], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4" data-testid="recovery-codes">
+      <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-900/20">
+        <p className="text-sm text-amber-800 dark:text-amber-200">
+          Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone,
+          and they won't be shown again.
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-2 font-mono text-sm p-3 rounded-lg bg-gray-50 dark:bg-gray-900">
+        {codes.map(code => (
+          <span key={code} data-testid="text-recovery-code">{code}</span>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={copyCodes} data-testid="button-copy-recovery-codes">
+          {copied ? <Check className="mr-2 h-4 w-4 text-green-600" /> : <Copy className="mr-2 h-4 w-4" />}
+          Copy
+        </Button>
+        <Button variant="outline" size="sm" onClick={downloadCodes} data-testid="button-download-recovery-codes">
+          <Download className="mr-2 h-4 w-4" />
+          Download
+        </Button>
+        <Button size="sm" onClick={onDone} data-testid="button-recovery-codes-saved">
+          I've saved these codes
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface AuthenticatorEnrollmentProps {
+  onComplete: () => void;
+  onCancel?: () => void;
+}
+
+// Scan the QR code, confirm one code from the app, then show the recovery codes once
+export function AuthenticatorEnrollment({ onComplete, onCancel }: AuthenticatorEnrollmentProps) {
+  const [setup, setSetup] = useState<TotpSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    postAuth<TotpSetup>("/api/auth/2fa/totp/setup")
+      .then(setSetup)
+      .catch((error: any) => {
+        toast({ title: "Error", description: error.message || "Failed to start authenticator setup", variant: "destructive" });
+        onCancel?.();
+      });
+  }, []);
+
+  const verify = async () => {
+    setIsVerifying(true);
+    try {
+      const data = await postAuth<{ recoveryCodes: string[] }>("/api/auth/2fa/totp/verify-setup", { code });
+      setRecoveryCodes(data.recoveryCodes);
+      toast({ title: "Authenticator app enabled", description: "You'll be asked for a code from the app when you sign in." });
+    } catch (error: any) {
+      toast({ title: "Verification failed", description: error.message || "Please check the code and try again", variant: "destructive" });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return <RecoveryCodesList codes={recoveryCodes} onDone={onComplete} />;
+  }
+
+  if (!setup) {
+    return (
+      <div className="flex items-center space-x-2 text-gray-500">
+        <RefreshCw className="h-4 w-4 animate-spin" />
+        <span>Preparing setup...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4" data-testid="authenticator-enrollment">
+      <p className="text-sm">
+        Scan this QR code with an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password,
+        then enter the 6-digit code it shows.
+      </p>
+      <div className="flex flex-col sm:flex-row items-center gap-4">
+        <img src={setup.qrCode} alt="Authenticator QR code" className="w-40 h-40 border rounded bg-white" data-testid="img-totp-qr" />
+        <div className="text-xs text-gray-500 space-y-1 break-all">
+          <p>Can't scan it? Enter this key in the app:</p>
+          <p className="font-mono text-sm text-gray-900 dark:text-gray-100" data-testid="text-totp-secret">
+            {setup.secret.match(/.{1,4}/g)?.join(" ")}
+          </p>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="totp-setup-code">Code from the app</Label>
+        <Input
+          id="totp-setup-code"
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder="123456"
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+          maxLength={6}
+          className="text-center text-xl tracking-widest"
+          data-testid="input-totp-setup-code"
+        />
+      </div>
+      <div className="flex space-x-2">
+        <Button onClick={verify} disabled={isVerifying || code.length !== 6} data-testid="button-verify-totp-setup">
+          {isVerifying ? (
+            <>
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+              Verifying...
+            </>
+          ) : (
+            'Verify & Enable'
+          )}
+        </Button>
+        {onCancel && (
+          <Button variant="outline" onClick={onCancel} data-testid="button-cancel-totp-setup">
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -70,13 +70,13 @@ export function DependencyTags({
   strategyId,
   compact = false,
 }: DependencyTagsProps) {
-  const { currentRole } = useRole();
+  const { hasCapability } = useRole();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isAddOpen, setIsAddOpen] = useState(false);
   const [selectedTargetType, setSelectedTargetType] = useState<"project" | "action" | null>(null);
 
-  const canEdit = currentRole === "administrator" || currentRole === "co_lead";
+  const canEdit = hasCapability('manage_dependencies', strategyId);
 
   const { data: dependencies = [] } = useQuery<Dependency[]>({
     queryKey: ["/api/dependencies", { sourceType, sourceId }],
@@ -39,7 +39,7 @@ const secondaryNavigation = [
 
 export function Sidebar() {
   const [location] = useLocation();
-  const { currentRole, currentUser } = useRole();
+  const { currentRole, currentUser, hasCapability } = useRole();
   const { user, logout } = useAuth();
 
   const isActiveRoute = (href: string) => {
@@ -198,7 +198,7 @@ export function Sidebar() {
         </div>
 
         {/* Secondary Navigation */}
-        {secondaryNavigation.slice(1).map((item) => {
+        {secondaryNavigation.slice(1).filter(item => item.href !== '/reports' || hasCapability('view_reports')).map((item) => {
           const isActive = isActiveRoute(item.href);
           const Icon = item.icon;
           
@@ -0,0 +1,101 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { History } from "lucide-react";
+import type { ChangeHistoryEntry, FieldChange, User } from "@shared/schema";
+
+type HistoryEntity = "strategies" | "projects" | "actions" | "barriers" | "decisions";
+
+interface ChangeHistoryProps {
+  entity: HistoryEntity;
+  entityId: string;
+}
+
+type ChangeHistoryRecord = Omit<ChangeHistoryEntry, "changes"> & { changes: FieldChange[] };
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/;
+
+const fieldLabel = (field: string) =>
+  field
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/^./, (c) => c.toUpperCase());
+
+export function ChangeHistory({ entity, entityId }: ChangeHistoryProps) {
+  const { data: history = [], isLoading } = useQuery<ChangeHistoryRecord[]>({
+    queryKey: [`/api/${entity}`, entityId, "history"],
+    enabled: !!entityId,
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const userName = (id: string) => {
+    const user = users.find((u) => u.id === id);
+    return user ? `${user.firstName || ""} ${user.lastName || ""}`.trim() || user.email || "Unknown" : null;
+  };
+
+  const formatValue = (value: unknown): string => {
+    if (value === null || value === undefined) return "—";
+    if (typeof value === "string") {
+      if (ISO_DATE.test(value)) return format(new Date(value), "MMM d, yyyy");
+      if (value === "true") return "Yes";
+      if (value === "false") return "No";
+      // User references (owners, leaders) are stored as ids or JSON arrays of ids
+      const name = userName(value);
+      if (name) return name;
+      if (value.startsWith("[")) {
+        try {
+          const ids = JSON.parse(value);
+          if (Array.isArray(ids)) {
+            return ids.length === 0 ? "None" : ids.map((id) => userName(String(id)) || String(id)).join(", ");
+          }
+        } catch {
+          // Not JSON; fall through to the raw text
+        }
+      }
+      return value.length > 80 ? `${value.slice(0, 80)}…` : value;
+    }
+    return String(value);
+  };
+
+  if (isLoading) {
+    return <div className="text-sm text-gray-500 dark:text-gray-400">Loading history...</div>;
+  }
+
+  if (history.length === 0) {
+    return (
+      <div className="text-sm text-gray-500 dark:text-gray-400" data-testid="text-no-history">
+        No changes recorded yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 max-h-72 overflow-y-auto" data-testid={`change-history-${entityId}`}>
+      {history.map((entry) => (
+        <div key={entry.id} className="flex items-start gap-3">
+          <div className="w-7 h-7 rounded-full bg-gray-100 dark:bg-gray-800 flex items-center justify-center flex-shrink-0">
+            <History className="w-3.5 h-3.5 text-gray-500" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              <span className="font-medium text-gray-700 dark:text-gray-300">{userName(entry.changedBy) || "Unknown user"}</span>
+              {entry.createdAt && ` · ${format(new Date(entry.createdAt), "MMM d, yyyy h:mm a")}`}
+            </div>
+            <ul className="mt-1 space-y-0.5">
+              {entry.changes.map((change) => (
+                <li key={change.field} className="text-sm text-gray-800 dark:text-gray-200">
+                  <span className="font-medium">{fieldLabel(change.field)}</span>
+                  {": "}
+                  <span className="text-gray-500 dark:text-gray-400 line-through">{formatValue(change.from)}</span>
+                  {" → "}
+                  <span>{formatValue(change.to)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
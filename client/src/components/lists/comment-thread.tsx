@@ -0,0 +1,365 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { MessageSquare, Pencil, Reply, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { MENTION_PATTERN, type Comment, type User } from "@shared/schema";
+
+type CommentEntity = "projects" | "actions" | "barriers" | "decisions";
+
+interface CommentThreadProps {
+  entity: CommentEntity;
+  entityId: string;
+}
+
+type CommentRecord = Omit<Comment, "mentions"> & { mentions: string[] };
+
+const userLabel = (user: User) =>
+  `${user.firstName || ""} ${user.lastName || ""}`.trim() || user.email || "Unknown";
+
+// Typing "@" followed by a name opens the picker; the query is whatever follows the "@" up to the caret
+const MENTION_QUERY = /(?:^|\s)@([^\s@[\]()]*)$/;
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  users: User[];
+  placeholder?: string;
+  testId: string;
+}
+
+function MentionTextarea({ value, onChange, users, placeholder, testId }: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = MENTION_QUERY.exec(text.slice(0, caret));
+    setMentionQuery(match ? match[1].toLowerCase() : null);
+  };
+
+  const matches = mentionQuery === null
+    ? []
+    : users
+        .filter((u) => u.role !== "sme")
+        .filter((u) => userLabel(u).toLowerCase().includes(mentionQuery) || (u.email || "").toLowerCase().includes(mentionQuery))
+        .slice(0, 6);
+
+  const insertMention = (user: User) => {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? value.length;
+    const before = value.slice(0, caret).replace(/@[^\s@[\]()]*$/, "");
+    const token = `@[${userLabel(user).replace(/[[\]()]/g, "")}](${user.id}) `;
+    onChange(before + token + value.slice(caret));
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      const position = before.length + token.length;
+      textarea?.setSelectionRange(position, position);
+    });
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        placeholder={placeholder}
+        rows={2}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Escape" && mentionQuery !== null) {
+            e.stopPropagation();
+            setMentionQuery(null);
+          }
+        }}
+        onBlur={() => setTimeout(() => setMentionQuery(null), 150)}
+        data-testid={testId}
+      />
+      {matches.length > 0 && (
+        <div className="absolute z-50 mt-1 w-64 rounded-md border bg-white dark:bg-gray-900 shadow-md">
+          {matches.map((user) => (
+            <button
+              key={user.id}
+              type="button"
+              className="block w-full text-left px-3 py-1.5 text-sm hover:bg-gray-100 dark:hover:bg-gray-800"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => insertMention(user)}
+              data-testid={`mention-option-${user.id}`}
+            >
+              <span className="font-medium">{userLabel(user)}</span>
+              {user.email && <span className="ml-2 text-xs text-gray-500">{user.email}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CommentBody({ body }: { body: string }) {
+  const parts: (string | { name: string; id: string })[] = [];
+  let lastIndex = 0;
+  for (const match of Array.from(body.matchAll(MENTION_PATTERN))) {
+    parts.push(body.slice(lastIndex, match.index));
+    parts.push({ name: match[1], id: match[2] });
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  parts.push(body.slice(lastIndex));
+
+  return (
+    <p className="text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap break-words">
+      {parts.map((part, i) =>
+        typeof part === "string" ? (
+          part
+        ) : (
+          <span key={i} className="font-medium text-blue-600 dark:text-blue-400">@{part.name}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+export function CommentThread({ entity, entityId }: CommentThreadProps) {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState("");
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyDraft, setReplyDraft] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState("");
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const threadKey = [`/api/${entity}`, entityId, "comments"];
+
+  const { data: comments = [], isLoading } = useQuery<CommentRecord[]>({
+    queryKey: threadKey,
+    enabled: !!entityId,
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: threadKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/comments/counts"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (data: { body: string; parentId?: string }) =>
+      apiRequest("POST", `/api/${entity}/${entityId}/comments`, data),
+    onSuccess: (_, variables) => {
+      if (variables.parentId) {
+        setReplyTo(null);
+        setReplyDraft("");
+      } else {
+        setDraft("");
+      }
+      refresh();
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, body }: { id: string; body: string }) => apiRequest("PATCH", `/api/comments/${id}`, { body }),
+    onSuccess: () => {
+      setEditingId(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/comments/${id}`),
+    onSuccess: () => {
+      setDeletingId(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const authorName = (id: string) => {
+    const author = users.find((u) => u.id === id);
+    return author ? userLabel(author) : "Unknown user";
+  };
+
+  const topLevel = comments.filter((c) => !c.parentId);
+  const repliesTo = (id: string) => comments.filter((c) => c.parentId === id);
+
+  const renderComment = (comment: CommentRecord, isReply: boolean) => {
+    const isAuthor = comment.authorId === currentUser?.id && !comment.deletedAt;
+    return (
+      <div key={comment.id} className={isReply ? "ml-9 mt-2" : ""} data-testid={`comment-${comment.id}`}>
+        <div className="flex items-start gap-3">
+          <div className="w-6 h-6 rounded-full bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 flex items-center justify-center flex-shrink-0 text-xs font-medium">
+            {authorName(comment.authorId).charAt(0).toUpperCase()}
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              <span className="font-medium text-gray-700 dark:text-gray-300">{authorName(comment.authorId)}</span>
+              {comment.createdAt && ` · ${formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}`}
+              {comment.editedAt && !comment.deletedAt && " · edited"}
+            </div>
+            {comment.deletedAt ? (
+              <p className="text-sm italic text-gray-500 dark:text-gray-400" data-testid={`text-deleted-comment-${comment.id}`}>
+                This comment was deleted.
+              </p>
+            ) : editingId === comment.id ? (
+              <div className="mt-1 space-y-2">
+                <MentionTextarea value={editDraft} onChange={setEditDraft} users={users} testId={`input-edit-comment-${comment.id}`} />
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    size="sm"
+                    disabled={!editDraft.trim() || updateMutation.isPending}
+                    onClick={() => updateMutation.mutate({ id: comment.id, body: editDraft.trim() })}
+                    data-testid={`button-save-comment-${comment.id}`}
+                  >
+                    Save
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <CommentBody body={comment.body} />
+            )}
+            {editingId !== comment.id && (
+              <div className="flex gap-3 mt-1 text-xs text-gray-500">
+                {!isReply && (
+                  <button
+                    type="button"
+                    className="flex items-center gap-1 hover:text-gray-800 dark:hover:text-gray-200"
+                    onClick={() => {
+                      setReplyTo(comment.id);
+                      setReplyDraft("");
+                    }}
+                    data-testid={`button-reply-comment-${comment.id}`}
+                  >
+                    <Reply className="w-3 h-3" /> Reply
+                  </button>
+                )}
+                {isAuthor && (
+                  <>
+                    <button
+                      type="button"
+                      className="flex items-center gap-1 hover:text-gray-800 dark:hover:text-gray-200"
+                      onClick={() => {
+                        setEditingId(comment.id);
+                        setEditDraft(comment.body);
+                      }}
+                      data-testid={`button-edit-comment-${comment.id}`}
+                    >
+                      <Pencil className="w-3 h-3" /> Edit
+                    </button>
+                    {deletingId === comment.id ? (
+                      <span className="flex items-center gap-2">
+                        <span className="text-red-600">{isReply ? "Delete this reply?" : "Delete this comment?"}</span>
+                        <button
+                          type="button"
+                          className="font-medium text-red-600 hover:underline"
+                          onClick={() => deleteMutation.mutate(comment.id)}
+                          data-testid={`button-confirm-delete-comment-${comment.id}`}
+                        >
+                          Delete
+                        </button>
+                        <button type="button" className="hover:underline" onClick={() => setDeletingId(null)}>
+                          Keep
+                        </button>
+                      </span>
+                    ) : (
+                      <button
+                        type="button"
+                        className="flex items-center gap-1 hover:text-red-600"
+                        onClick={() => setDeletingId(comment.id)}
+                        data-testid={`button-delete-comment-${comment.id}`}
+                      >
+                        <Trash2 className="w-3 h-3" /> Delete
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+        {!isReply && repliesTo(comment.id).map((reply) => renderComment(reply, true))}
+        {!isReply && replyTo === comment.id && (
+          <div className="ml-9 mt-2 space-y-2">
+            <MentionTextarea
+              value={replyDraft}
+              onChange={setReplyDraft}
+              users={users}
+              placeholder="Write a reply... use @ to mention someone"
+              testId={`input-reply-comment-${comment.id}`}
+            />
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                size="sm"
+                disabled={!replyDraft.trim() || createMutation.isPending}
+                onClick={() => createMutation.mutate({ body: replyDraft.trim(), parentId: comment.id })}
+                data-testid={`button-submit-reply-${comment.id}`}
+              >
+                Reply
+              </Button>
+              <Button type="button" size="sm" variant="ghost" onClick={() => setReplyTo(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4" data-testid={`comment-thread-${entityId}`}>
+      {isLoading ? (
+        <div className="text-sm text-gray-500 dark:text-gray-400">Loading comments...</div>
+      ) : topLevel.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400" data-testid="text-no-comments">
+          <MessageSquare className="w-4 h-4" />
+          No comments yet. Start the discussion below.
+        </div>
+      ) : (
+        <div className="space-y-4 max-h-96 overflow-y-auto">
+          {topLevel.map((comment) => renderComment(comment, false))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <MentionTextarea
+          value={draft}
+          onChange={setDraft}
+          users={users}
+          placeholder="Add a comment... use @ to mention someone"
+          testId="input-new-comment"
+        />
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            size="sm"
+            disabled={!draft.trim() || createMutation.isPending}
+            onClick={() => createMutation.mutate({ body: draft.trim() })}
+            data-testid="button-add-comment"
+          >
+            {createMutation.isPending ? "Posting..." : "Comment"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useRole } from "@/hooks/use-role";
+import { format } from "date-fns";
+import { Plus, Trash2 } from "lucide-react";
+import type { Measurement } from "@shared/schema";
+
+const chartConfig = {
+  value: {
+    label: "Value",
+    color: "#007AFF",
+  },
+} satisfies ChartConfig;
+
+interface MeasurementChartProps {
+  measurements: Measurement[];
+  targetValue?: number | null;
+  unit?: string | null;
+  height?: number;
+}
+
+/**
+ * Line chart of recorded readings with the target drawn as a dashed reference line.
+ * When no explicit target is given, the target recorded on the latest reading is used.
+ */
+export function MeasurementChart({ measurements, targetValue, unit, height = 200 }: MeasurementChartProps) {
+  const data = measurements.map((m) => ({
+    date: format(new Date(m.measuredAt), "MMM d"),
+    value: m.value,
+  }));
+  const target = targetValue ?? measurements[measurements.length - 1]?.targetValue ?? null;
+
+  if (data.length === 0) {
+    return (
+      <div className="text-sm text-gray-500 dark:text-gray-400 py-6 text-center">
+        No measurements recorded yet.
+      </div>
+    );
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="w-full aspect-auto" style={{ height }}>
+      <LineChart data={data} margin={{ top: 12, right: 16, left: 0, bottom: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="date" tickLine={false} axisLine={false} />
+        <YAxis
+          tickLine={false}
+          axisLine={false}
+          width={48}
+          domain={target !== null ? [(min: number) => Math.min(min, target), (max: number) => Math.max(max, target)] : ["auto", "auto"]}
+        />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        {target !== null && (
+          <ReferenceLine
+            y={target}
+            stroke="#34C759"
+            strokeDasharray="6 4"
+            label={{ value: `Target ${target}${unit ? ` ${unit}` : ""}`, position: "insideTopRight", fontSize: 11, fill: "#34C759" }}
+          />
+        )}
+        <Line type="monotone" dataKey="value" stroke="var(--color-value)" strokeWidth={2} dot={{ r: 3 }} />
+      </LineChart>
+    </ChartContainer>
+  );
+}
+
+interface MeasurementHistoryProps {
+  entityType: "action" | "project";
+  entityId: string;
+  targetValue?: string | null;
+  unit?: string | null;
+}
+
+export function MeasurementHistory({ entityType, entityId, targetValue, unit }: MeasurementHistoryProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { currentRole, currentUser, hasCapability } = useRole();
+  const canRecord = hasCapability('record_measurements');
+  const [newValue, setNewValue] = useState("");
+  const [newDate, setNewDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [newNote, setNewNote] = useState("");
+  // Projects have no numeric target column, so each KPI reading can carry its own target
+  const [newTarget, setNewTarget] = useState("");
+
+  const basePath = entityType === "action" ? "/api/actions" : "/api/projects";
+  const queryKey = [basePath, entityId, "measurements"];
+
+  const { data: measurements = [] } = useQuery<Measurement[]>({
+    queryKey,
+    enabled: !!entityId,
+  });
+
+  const parsedTarget = targetValue ? parseFloat(targetValue) : NaN;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/measurements"] });
+    if (entityType === "action") {
+      queryClient.invalidateQueries({ queryKey: ["/api/actions"] });
+    }
+  };
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `${basePath}/${entityId}/measurements`, {
+        value: parseFloat(newValue),
+        measuredAt: new Date(`${newDate}T12:00:00`),
+        note: newNote.trim() || null,
+        ...(entityType === "project" && newTarget.trim() !== "" && { targetValue: parseFloat(newTarget) }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setNewValue("");
+      setNewNote("");
+      toast({
+        title: "Success",
+        description: "Measurement recorded",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to record measurement",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/measurements/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete measurement",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSubmit = newValue.trim() !== "" && !isNaN(parseFloat(newValue)) && !!newDate && !recordMutation.isPending;
+
+  // This section sits inside other forms (e.g. the edit-action modal), so Enter must not submit the parent form
+  const handleEnter = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      if (canSubmit) recordMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="space-y-3" data-testid={`measurement-history-${entityType}`}>
+      <MeasurementChart
+        measurements={measurements}
+        targetValue={isNaN(parsedTarget) ? null : parsedTarget}
+        unit={unit}
+      />
+
+      {measurements.length > 0 && (
+        <div className="space-y-1 max-h-40 overflow-y-auto">
+          {[...measurements].reverse().map((m) => (
+            <div
+              key={m.id}
+              className="flex items-center justify-between px-2 py-1 border rounded text-sm bg-background dark:bg-gray-800"
+              data-testid={`measurement-${m.id}`}
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                <span className="text-muted-foreground w-24 flex-shrink-0">
+                  {format(new Date(m.measuredAt), "MMM d, yyyy")}
+                </span>
+                <span className="font-medium">
+                  {m.value}{m.unit ? ` ${m.unit}` : ""}
+                </span>
+                {m.note && <span className="text-muted-foreground truncate">{m.note}</span>}
+              </div>
+              {(currentRole === "administrator" || m.recordedBy === currentUser?.id) && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(m.id)}
+                  data-testid={`button-delete-measurement-${m.id}`}
+                >
+                  <Trash2 className="h-4 w-4 text-red-600 dark:text-red-400" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canRecord && (
+        <div className={entityType === "project"
+          ? "grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_2fr_auto] gap-2"
+          : "grid grid-cols-1 md:grid-cols-[1fr_1fr_2fr_auto] gap-2"}>
+          <Input
+            type="number"
+            step="any"
+            placeholder={unit ? `Value (${unit})` : "Value"}
+            value={newValue}
+            onChange={(e) => setNewValue(e.target.value)}
+            onKeyDown={handleEnter}
+            data-testid="input-measurement-value"
+          />
+          {entityType === "project" && (
+            <Input
+              type="number"
+              step="any"
+              placeholder="Target"
+              value={newTarget}
+              onChange={(e) => setNewTarget(e.target.value)}
+              onKeyDown={handleEnter}
+              data-testid="input-measurement-target"
+            />
+          )}
+          <Input
+            type="date"
+            value={newDate}
+            onChange={(e) => setNewDate(e.target.value)}
+            data-testid="input-measurement-date"
+          />
+          <Input
+            placeholder="Note (optional)"
+            value={newNote}
+            onChange={(e) => setNewNote(e.target.value)}
+            onKeyDown={handleEnter}
+            data-testid="input-measurement-note"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-10"
+            onClick={() => recordMutation.mutate()}
+            disabled={!canSubmit}
+            data-testid="button-record-measurement"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Record
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
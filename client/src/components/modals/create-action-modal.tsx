@@ -39,6 +39,7 @@ import {
 import { CalendarIcon } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
+import { RecurrenceFields } from "@/components/recurrence/recurrence-fields";
 
 type Phase = {
   id: string;
@@ -111,6 +112,9 @@ export function CreateActionModal({ open, onOpenChange, strategyId, projectId, w
       status: "in_progress",
       dueDate: undefined,
       createdBy: currentUser?.id || "",
+      recurrenceFrequency: null,
+      recurrenceUntil: null,
+      recurrenceCount: null,
     },
   });
 
@@ -177,6 +181,15 @@ export function CreateActionModal({ open, onOpenChange, strategyId, projectId, w
       return;
     }
 
+    if (data.recurrenceFrequency && !data.dueDate) {
+      toast({
+        title: "Error",
+        description: "A recurring action needs a due date",
+        variant: "destructive",
+      });
+      return;
+    }
+
     // Filter out empty optional fields
     const cleanData = {
       ...data,
@@ -399,6 +412,8 @@ export function CreateActionModal({ open, onOpenChange, strategyId, projectId, w
                     )}
                   />
                 </div>
+
+                <RecurrenceFields form={form} />
               </div>
             </div>
 
@@ -2,7 +2,7 @@ import { useEffect, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertActionSchema, type InsertAction, type ActionDocument, type ActionChecklistItem } from "@shared/schema";
+import { insertActionSchema, type InsertAction, type ActionDocument, type ActionChecklistItem, type RecurrenceFrequency } from "@shared/schema";
 
 type Action = {
   id: string;
@@ -20,6 +20,9 @@ type Action = {
   createdAt: string | Date | null;
   workstreamId?: string | null;
   phaseId?: string | null;
+  recurrenceFrequency?: RecurrenceFrequency | null;
+  recurrenceUntil?: string | Date | null;
+  recurrenceCount?: number | null;
 };
 
 type Phase = {
@@ -63,7 +66,12 @@ import {
 import { CalendarIcon, Plus, Trash2, ExternalLink } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
+import { RecurrenceFields } from "@/components/recurrence/recurrence-fields";
 import { Checkbox } from "@/components/ui/checkbox";
+import { MeasurementHistory } from "@/components/measurements/measurement-history";
+import { ChangeHistory } from "@/components/lists/change-history";
+import { CommentThread } from "@/components/lists/comment-thread";
+import { FollowButton } from "@/components/notifications/follow-button";
 
 interface EditActionModalProps {
   open: boolean;
@@ -146,6 +154,9 @@ export function EditActionModal({ open, onOpenChange, action }: EditActionModalP
         status: action.status,
         dueDate: action.dueDate ? new Date(action.dueDate) : undefined,
         createdBy: action.createdBy,
+        recurrenceFrequency: action.recurrenceFrequency || null,
+        recurrenceUntil: action.recurrenceUntil ? new Date(action.recurrenceUntil) : null,
+        recurrenceCount: action.recurrenceCount ?? null,
       });
       setSelectedPhaseId(action.phaseId || null);
     }
@@ -297,6 +308,15 @@ export function EditActionModal({ open, onOpenChange, action }: EditActionModalP
       return;
     }
 
+    if (data.recurrenceFrequency && !data.dueDate) {
+      toast({
+        title: "Error",
+        description: "A recurring action needs a due date",
+        variant: "destructive",
+      });
+      return;
+    }
+
     const cleanData: any = {
       ...data,
       projectId: data.projectId === "none" ? undefined : data.projectId || undefined,
@@ -343,8 +363,9 @@ export function EditActionModal({ open, onOpenChange, action }: EditActionModalP
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-        <DialogHeader>
+        <DialogHeader className="flex-row items-center justify-between space-y-0 pr-8">
           <DialogTitle>{isWorkstreamTask ? "Edit Task" : "Edit Action"}</DialogTitle>
+          <FollowButton entityType="action" entityId={action.id} />
         </DialogHeader>
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -477,6 +498,19 @@ export function EditActionModal({ open, onOpenChange, action }: EditActionModalP
                 )}
               </div>
 
+              {/* Measurements */}
+              {action && (
+                <div className="space-y-4">
+                  <h3 className="text-lg font-medium">Measurements</h3>
+                  <MeasurementHistory
+                    entityType="action"
+                    entityId={action.id}
+                    targetValue={action.targetValue}
+                    unit={action.measurementUnit}
+                  />
+                </div>
+              )}
+
               {/* Documents */}
               <div className="space-y-4">
                 <h3 className="text-lg font-medium">Documents</h3>
@@ -668,7 +702,25 @@ export function EditActionModal({ open, onOpenChange, action }: EditActionModalP
                     )}
                   />
                 </div>
+
+                <RecurrenceFields form={form} />
               </div>
+
+              {/* Comments */}
+              {action && (
+                <div className="space-y-4">
+                  <h3 className="text-lg font-medium">Comments</h3>
+                  <CommentThread entity="actions" entityId={action.id} />
+                </div>
+              )}
+
+              {/* History */}
+              {action && (
+                <div className="space-y-4">
+                  <h3 className="text-lg font-medium">History</h3>
+                  <ChangeHistory entity="actions" entityId={action.id} />
+                </div>
+              )}
             </div>
 
             <div className="flex justify-end space-x-2">
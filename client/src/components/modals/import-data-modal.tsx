@@ -0,0 +1,354 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useRole } from "@/hooks/use-role";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Upload, ArrowLeft, CheckCircle2, AlertCircle, Loader2 } from "lucide-react";
+import { importFields, type ImportEntityType, type ImportPreview, type Strategy } from "@shared/schema";
+
+interface ImportDataModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Step = "upload" | "map" | "preview";
+
+const NOT_MAPPED = "__none__";
+
+const entityLabels: Record<ImportEntityType, string> = {
+  strategies: "Strategic Priorities",
+  projects: "Projects",
+  actions: "Actions",
+};
+
+const simplify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Pre-select the column whose header matches a field's key or label, e.g. "Due Date" -> dueDate
+function guessMapping(entityType: ImportEntityType, headers: string[]): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  for (const field of importFields[entityType]) {
+    const candidates = [simplify(field.key), simplify(field.label), simplify(field.label.replace(/\(.*\)/, ""))];
+    const index = headers.findIndex((h) => candidates.includes(simplify(h)));
+    mapping[field.key] = index >= 0 ? String(index) : NOT_MAPPED;
+  }
+  return mapping;
+}
+
+// apiRequest errors read "<status>: <body>"; surface the server's message when the body is JSON
+function errorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
+export function ImportDataModal({ open, onOpenChange }: ImportDataModalProps) {
+  const { canCreateStrategies } = useRole();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [step, setStep] = useState<Step>("upload");
+  const [entityType, setEntityType] = useState<ImportEntityType>("projects");
+  const [defaultStrategyId, setDefaultStrategyId] = useState<string>(NOT_MAPPED);
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+
+  const { data: strategies = [] } = useQuery<Strategy[]>({
+    queryKey: ["/api/strategies"],
+  });
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setHeaders([]);
+    setRows([]);
+    setMapping({});
+    setPreview(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const buildRecords = () =>
+    rows.map((row) => {
+      const record: Record<string, string> = {};
+      for (const [key, column] of Object.entries(mapping)) {
+        if (column !== NOT_MAPPED) record[key] = row[parseInt(column, 10)] ?? "";
+      }
+      return record;
+    });
+
+  const parseMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const buffer = new Uint8Array(await file.arrayBuffer());
+      let binary = "";
+      for (let i = 0; i < buffer.length; i += 0x8000) {
+        binary += String.fromCharCode(...Array.from(buffer.subarray(i, i + 0x8000)));
+      }
+      const response = await apiRequest("POST", "/api/import/parse", { fileName: file.name, fileData: btoa(binary) });
+      return response.json() as Promise<{ headers: string[]; rows: string[][] }>;
+    },
+    onSuccess: (data) => {
+      setHeaders(data.headers);
+      setRows(data.rows);
+      setMapping(guessMapping(entityType, data.headers));
+      setStep("map");
+    },
+    onError: (error: Error) => {
+      setFileName("");
+      toast({ title: "Could not read file", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const response = await apiRequest("POST", `/api/import/${entityType}`, {
+        records: buildRecords(),
+        defaultStrategyId: defaultStrategyId === NOT_MAPPED ? null : defaultStrategyId,
+        dryRun,
+      });
+      return response.json() as Promise<{ preview: ImportPreview; result?: { strategies: number; projects: number; actions: number } }>;
+    },
+    onSuccess: (data, dryRun) => {
+      setPreview(data.preview);
+      if (dryRun) {
+        setStep("preview");
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/strategies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/actions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      toast({
+        title: "Import complete",
+        description: `Imported ${data.preview.validCount} ${entityLabels[entityType].toLowerCase()}.`,
+      });
+      handleOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setFileName(file.name);
+    parseMutation.mutate(file);
+  };
+
+  const missingRequired = importFields[entityType].filter(
+    (f) => f.required && (mapping[f.key] ?? NOT_MAPPED) === NOT_MAPPED,
+  );
+  const needsStrategy =
+    entityType !== "strategies" && (mapping.strategy ?? NOT_MAPPED) === NOT_MAPPED && defaultStrategyId === NOT_MAPPED;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Import {entityLabels[entityType]}
+            {step === "map" && " · Map Columns"}
+            {step === "preview" && " · Review"}
+          </DialogTitle>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>What are you importing?</Label>
+              <Select value={entityType} onValueChange={(v) => setEntityType(v as ImportEntityType)}>
+                <SelectTrigger data-testid="select-import-entity-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {canCreateStrategies() && <SelectItem value="strategies">Strategic Priorities</SelectItem>}
+                  <SelectItem value="projects">Projects</SelectItem>
+                  <SelectItem value="actions">Actions</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {entityType !== "strategies" && (
+              <div className="space-y-2">
+                <Label>Default strategy</Label>
+                <Select value={defaultStrategyId} onValueChange={setDefaultStrategyId}>
+                  <SelectTrigger data-testid="select-import-default-strategy">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_MAPPED}>None (use the strategy column)</SelectItem>
+                    {strategies.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>{s.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Used for rows whose strategy cell is empty.
+                </p>
+              </div>
+            )}
+
+            <div className="p-6 border-2 border-dashed rounded-lg text-center space-y-3">
+              <Upload className="w-8 h-8 mx-auto text-gray-400" />
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Upload a .csv or .xlsx file. The first row must contain column headings.
+                People are matched by email address; separate several with commas or semicolons.
+              </p>
+              <Input
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={handleFile}
+                disabled={parseMutation.isPending}
+                className="max-w-xs mx-auto"
+                data-testid="input-import-file"
+              />
+              {parseMutation.isPending && (
+                <p className="text-sm text-gray-500 flex items-center justify-center gap-2">
+                  <Loader2 className="w-4 h-4 animate-spin" /> Reading {fileName}...
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {fileName} · {rows.length} row{rows.length === 1 ? "" : "s"}. Choose which column fills each field.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {importFields[entityType].map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <Label className="text-xs">
+                    {field.label}{field.required && " *"}
+                  </Label>
+                  <Select
+                    value={mapping[field.key] ?? NOT_MAPPED}
+                    onValueChange={(v) => setMapping((m) => ({ ...m, [field.key]: v }))}
+                  >
+                    <SelectTrigger data-testid={`select-import-column-${field.key}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            {(missingRequired.length > 0 || needsStrategy) && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                {missingRequired.length > 0 && `Map the required fields: ${missingRequired.map((f) => f.label).join(", ")}. `}
+                {needsStrategy && "Map a strategy column or choose a default strategy."}
+              </p>
+            )}
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={reset} data-testid="button-import-back">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+              <Button
+                onClick={() => importMutation.mutate(true)}
+                disabled={missingRequired.length > 0 || needsStrategy || importMutation.isPending}
+                data-testid="button-import-validate"
+              >
+                {importMutation.isPending ? "Validating..." : "Validate"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && preview && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className="text-green-700 border-green-300" data-testid="badge-import-valid">
+                <CheckCircle2 className="w-3 h-3 mr-1" />
+                {preview.validCount} ready
+              </Badge>
+              {preview.errorCount > 0 && (
+                <Badge variant="outline" className="text-red-700 border-red-300" data-testid="badge-import-errors">
+                  <AlertCircle className="w-3 h-3 mr-1" />
+                  {preview.errorCount} with errors
+                </Badge>
+              )}
+            </div>
+            <ScrollArea className="h-[360px] border rounded-lg">
+              <div className="divide-y dark:divide-gray-700">
+                {preview.rows.map((row) => (
+                  <div key={row.row} className="p-3 text-sm" data-testid={`import-row-${row.row}`}>
+                    <div className="flex items-center gap-2">
+                      {row.errors.length === 0
+                        ? <CheckCircle2 className="w-4 h-4 text-green-600 flex-shrink-0" />
+                        : <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />}
+                      <span className="text-gray-500 w-14 flex-shrink-0">Row {row.row}</span>
+                      <span className="font-medium truncate">{row.title || "(no title)"}</span>
+                      {(row.strategy || row.project) && (
+                        <span className="text-gray-500 dark:text-gray-400 truncate">
+                          {[row.strategy, row.project].filter(Boolean).join(" › ")}
+                        </span>
+                      )}
+                    </div>
+                    {row.errors.length > 0 && (
+                      <ul className="mt-1 ml-[5.5rem] list-disc text-red-600 dark:text-red-400">
+                        {row.errors.map((error, i) => <li key={i}>{error}</li>)}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+            {preview.errorCount > 0 && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Nothing is imported until every row is valid. Fix the file and upload it again, or adjust the column mapping.
+              </p>
+            )}
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep("map")} data-testid="button-import-back-to-mapping">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Mapping
+              </Button>
+              <Button
+                onClick={() => importMutation.mutate(false)}
+                disabled={preview.errorCount > 0 || importMutation.isPending}
+                data-testid="button-import-commit"
+              >
+                {importMutation.isPending ? "Importing..." : `Import ${preview.validCount} ${entityLabels[entityType]}`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -51,6 +51,8 @@ import {
 import { CalendarIcon, Plus, Edit, Trash2, AlertTriangle, ShieldAlert } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
+import { ChangeHistory } from "@/components/lists/change-history";
+import { CommentThread } from "@/components/lists/comment-thread";
 
 interface ManageBarriersModalProps {
   isOpen: boolean;
@@ -69,8 +71,7 @@ type User = {
 type ViewMode = "list" | "add" | "edit";
 
 export function ManageBarriersModal({ isOpen, onClose, projectId }: ManageBarriersModalProps) {
-  const { currentUser, currentRole, canEditProjects } = useRole();
-  const isViewOnly = currentRole === 'view';
+  const { currentUser, canEditProjects, hasCapability } = useRole();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [viewMode, setViewMode] = useState<ViewMode>("list");
@@ -94,6 +95,12 @@ export function ManageBarriersModal({ isOpen, onClose, projectId }: ManageBarrie
     queryKey: ["/api/users"],
   });
 
+  const { data: project } = useQuery<{ strategyId: string }>({
+    queryKey: ["/api/projects", projectId],
+    enabled: isOpen,
+  });
+  const isViewOnly = !hasCapability('manage_barriers', project?.strategyId);
+
   const form = useForm<InsertBarrier>({
     resolver: zodResolver(insertBarrierSchema),
     defaultValues: {
@@ -643,6 +650,20 @@ export function ManageBarriersModal({ isOpen, onClose, projectId }: ManageBarrie
                   )}
                 </div>
 
+                {viewMode === "edit" && editingBarrier && (
+                  <div className="space-y-3">
+                    <h3 className="text-lg font-medium">Comments</h3>
+                    <CommentThread entity="barriers" entityId={editingBarrier.id} />
+                  </div>
+                )}
+
+                {viewMode === "edit" && editingBarrier && (
+                  <div className="space-y-3">
+                    <h3 className="text-lg font-medium">History</h3>
+                    <ChangeHistory entity="barriers" entityId={editingBarrier.id} />
+                  </div>
+                )}
+
                 <div className="flex justify-end gap-3 pt-4 border-t">
                   <Button
                     type="button"
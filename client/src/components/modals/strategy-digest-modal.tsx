@@ -0,0 +1,290 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useReactToPrint } from "react-to-print";
+import { format } from "date-fns";
+import { Download, Mail, Newspaper } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useRole } from "@/hooks/use-role";
+import type { StrategyDigest, StrategyDigestContent } from "@shared/schema";
+
+interface StrategyDigestModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  strategy: { id: string; title: string } | null;
+}
+
+type StoredDigest = Omit<StrategyDigest, "content">;
+
+const PREVIEW = "preview";
+
+const RAG_COLORS: Record<string, string> = {
+  GREEN: "bg-green-500",
+  AMBER: "bg-amber-500",
+  RED: "bg-red-500",
+  COMPLETE: "bg-blue-500",
+  NONE: "bg-gray-400",
+};
+
+const day = (iso: string | Date) => format(new Date(iso), "d MMM yyyy");
+
+function Delta({ value }: { value: number | null }) {
+  if (value === null || value === 0) return null;
+  return (
+    <span className={`ml-1 text-xs font-medium ${value > 0 ? "text-green-600" : "text-red-600"}`}>
+      {value > 0 ? "+" : ""}{value}
+    </span>
+  );
+}
+
+function RagBadge({ rag }: { rag: string | null }) {
+  if (!rag) return <span className="text-xs text-muted-foreground">new</span>;
+  return <Badge className={`${RAG_COLORS[rag] ?? RAG_COLORS.NONE} text-white text-[10px] px-1.5`}>{rag}</Badge>;
+}
+
+function DigestSection({ title, count, empty, children }: { title: string; count: number; empty: string; children: React.ReactNode }) {
+  return (
+    <section className="space-y-2 print:break-inside-avoid">
+      <h3 className="text-sm font-semibold border-b pb-1">
+        {title} <span className="text-muted-foreground font-normal">({count})</span>
+      </h3>
+      {count === 0 ? <p className="text-sm text-muted-foreground">{empty}</p> : <ul className="space-y-1 text-sm">{children}</ul>}
+    </section>
+  );
+}
+
+function DigestBody({ digest }: { digest: StrategyDigestContent }) {
+  const inProject = (projectTitle: string | null) =>
+    projectTitle && <span className="text-muted-foreground"> · {projectTitle}</span>;
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: digest.strategy.colorCode }} />
+            {digest.strategy.title}
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Week of {day(digest.periodStart)} – {day(digest.periodEnd)}
+          </p>
+        </div>
+        <div className="text-right">
+          <div className="text-3xl font-bold" data-testid="digest-progress">
+            {digest.progress.current}%
+            <Delta value={digest.progress.delta} />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {digest.previousDigestAt ? `vs. digest of ${day(digest.previousDigestAt)}` : "No earlier digest to compare with"}
+          </p>
+        </div>
+      </div>
+
+      <DigestSection title="Project progress" count={digest.projects.length} empty="No active projects.">
+        {digest.projects.map(project => (
+          <li key={project.id} className="flex justify-between">
+            <span>{project.title}</span>
+            <span className="tabular-nums">{project.progress}%<Delta value={project.delta} /></span>
+          </li>
+        ))}
+      </DigestSection>
+
+      <DigestSection title="Actions completed" count={digest.actionsCompleted.length} empty="No actions were completed.">
+        {digest.actionsCompleted.map(action => (
+          <li key={action.id}>{action.title}{inProject(action.projectTitle)}</li>
+        ))}
+      </DigestSection>
+
+      <DigestSection title="Newly overdue" count={digest.newlyOverdue.length} empty="Nothing became overdue.">
+        {digest.newlyOverdue.map(action => (
+          <li key={action.id}>
+            {action.title}{inProject(action.projectTitle)}
+            <span className="text-red-600"> · due {day(action.dueDate)}</span>
+          </li>
+        ))}
+      </DigestSection>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5 print:grid-cols-2">
+        <DigestSection title="Barriers raised" count={digest.barriersRaised.length} empty="No barriers were raised.">
+          {digest.barriersRaised.map(barrier => (
+            <li key={barrier.id}>
+              {barrier.title} <Badge variant="outline" className="text-[10px] px-1.5">{barrier.severity}</Badge>
+              {inProject(barrier.projectTitle)}
+            </li>
+          ))}
+        </DigestSection>
+        <DigestSection title="Barriers resolved" count={digest.barriersResolved.length} empty="No barriers were resolved.">
+          {digest.barriersResolved.map(barrier => (
+            <li key={barrier.id}>{barrier.title}{inProject(barrier.projectTitle)}</li>
+          ))}
+        </DigestSection>
+      </div>
+
+      <DigestSection title="Decisions made" count={digest.decisionsMade.length} empty="No decisions were made.">
+        {digest.decisionsMade.map(decision => (
+          <li key={decision.id}>
+            <span className="font-medium">{decision.title}</span>
+            {decision.outcome && <span className="text-muted-foreground">: {decision.outcome}</span>}
+          </li>
+        ))}
+      </DigestSection>
+
+      <DigestSection
+        title="Workstream RAG changes"
+        count={digest.ragChanges.length}
+        empty={digest.previousDigestAt ? "No workstream changed status." : "Changes are shown from the second digest on."}
+      >
+        {digest.ragChanges.map(change => (
+          <li key={`${change.workstreamId}-${change.phaseId}`} className="flex items-center gap-2">
+            <span>{change.workstreamName} / {change.phaseName}</span>
+            <RagBadge rag={change.from} />
+            <span className="text-muted-foreground">→</span>
+            <RagBadge rag={change.to} />
+          </li>
+        ))}
+      </DigestSection>
+
+      <DigestSection title="Upcoming gates" count={digest.upcomingGates.length} empty="No gates in the next two weeks.">
+        {digest.upcomingGates.map(gate => (
+          <li key={gate.id} className="flex items-center gap-2">
+            <RagBadge rag={gate.rag} />
+            <span>{gate.title}</span>
+            <span className="text-muted-foreground">
+              {gate.phaseName && `${gate.phaseName} · `}{day(gate.plannedEnd)}
+            </span>
+          </li>
+        ))}
+      </DigestSection>
+    </div>
+  );
+}
+
+export function StrategyDigestModal({ open, onOpenChange, strategy }: StrategyDigestModalProps) {
+  const { toast } = useToast();
+  const { hasCapability } = useRole();
+  const [selected, setSelected] = useState(PREVIEW);
+  const printRef = useRef<HTMLDivElement>(null);
+
+  const { data: digests = [] } = useQuery<StoredDigest[]>({
+    queryKey: ["/api/strategies", strategy?.id, "digests"],
+    enabled: open && !!strategy,
+  });
+
+  const { data: preview, isLoading: previewLoading } = useQuery<StrategyDigestContent>({
+    queryKey: ["/api/strategies", strategy?.id, "digest-preview"],
+    enabled: open && !!strategy && selected === PREVIEW,
+  });
+
+  const { data: stored, isLoading: storedLoading } = useQuery<StoredDigest & { content: StrategyDigestContent }>({
+    queryKey: ["/api/strategies", strategy?.id, "digests", selected],
+    enabled: open && !!strategy && selected !== PREVIEW,
+  });
+
+  const digest = selected === PREVIEW ? preview : stored?.content;
+  const isLoading = selected === PREVIEW ? previewLoading : storedLoading;
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/strategies/${strategy!.id}/digests`);
+      return response.json() as Promise<StoredDigest>;
+    },
+    onSuccess: (sent) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/strategies", strategy?.id, "digests"] });
+      setSelected(sent.id);
+      toast({
+        title: "Digest sent",
+        description: sent.recipientCount === 0
+          ? "No one assigned to this strategy has an email address."
+          : `Emailed to ${sent.recipientCount} ${sent.recipientCount === 1 ? "person" : "people"}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to send digest", variant: "destructive" });
+    },
+  });
+
+  const handlePrint = useReactToPrint({
+    contentRef: printRef,
+    documentTitle: digest ? `Weekly digest - ${digest.strategy.title} - ${format(new Date(digest.periodEnd), "yyyy-MM-dd")}` : "Weekly digest",
+  });
+
+  if (!strategy) return null;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) setSelected(PREVIEW);
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Newspaper className="w-5 h-5 text-blue-500" />
+            <span>Weekly Digest</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Select value={selected} onValueChange={setSelected}>
+            <SelectTrigger className="w-72" data-testid="select-digest">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={PREVIEW}>Last 7 days (preview)</SelectItem>
+              {digests.map(d => (
+                <SelectItem key={d.id} value={d.id}>
+                  Week to {day(d.periodEnd)}{d.trigger === "manual" ? " (sent manually)" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => handlePrint()} disabled={!digest} data-testid="button-digest-pdf">
+              <Download className="w-4 h-4 mr-1" />
+              Download PDF
+            </Button>
+            {hasCapability('send_digests', strategy?.id) && (
+              <Button size="sm" onClick={() => sendMutation.mutate()} disabled={sendMutation.isPending} data-testid="button-digest-email">
+                <Mail className="w-4 h-4 mr-1" />
+                {sendMutation.isPending ? "Sending..." : "Email to team"}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {stored && selected !== PREVIEW && (
+          <p className="text-xs text-muted-foreground">
+            {stored.emailedAt
+              ? `Emailed ${format(new Date(stored.emailedAt), "d MMM yyyy, HH:mm")} to ${stored.recipientCount} ${stored.recipientCount === 1 ? "person" : "people"} assigned to this strategy.`
+              : "Not emailed."}
+          </p>
+        )}
+
+        <div ref={printRef} className="print:p-8">
+          {isLoading || !digest ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">Loading digest...</p>
+          ) : (
+            <DigestBody digest={digest} />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -17,6 +17,9 @@ import {
   ExternalLink
 } from "lucide-react";
 import { format } from "date-fns";
+import { ChangeHistory } from "@/components/lists/change-history";
+import { CommentThread } from "@/components/lists/comment-thread";
+import { FollowButton } from "@/components/notifications/follow-button";
 
 interface ViewProjectModalProps {
   isOpen: boolean;
@@ -88,11 +91,12 @@ export function ViewProjectModal({ isOpen, onClose, project }: ViewProjectModalP
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
-        <DialogHeader>
+        <DialogHeader className="flex-row items-center justify-between space-y-0 pr-8">
           <DialogTitle className="flex items-center space-x-2">
             <Eye className="w-5 h-5 text-blue-500" />
             <span>View Project Details</span>
           </DialogTitle>
+          <FollowButton entityType="project" entityId={project.id} />
         </DialogHeader>
 
         <div className="space-y-6">
@@ -242,6 +246,22 @@ export function ViewProjectModal({ isOpen, onClose, project }: ViewProjectModalP
               </div>
             )}
           </div>
+
+          <Separator />
+
+          {/* Comments */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold border-b pb-2">Comments</h3>
+            <CommentThread entity="projects" entityId={project.id} />
+          </div>
+
+          <Separator />
+
+          {/* History */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold border-b pb-2">History</h3>
+            <ChangeHistory entity="projects" entityId={project.id} />
+          </div>
         </div>
 
         <div className="flex justify-end pt-4 border-t">
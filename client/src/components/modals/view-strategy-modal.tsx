@@ -1,4 +1,6 @@
-import { type Strategy } from "@shared/schema";
+import { type Strategy, type FrameworkDocument } from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import {
   Dialog,
   DialogContent,
@@ -8,8 +10,21 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Eye } from "lucide-react";
+import { Eye, FileText } from "lucide-react";
 import { format } from "date-fns";
+import { ChangeHistory } from "@/components/lists/change-history";
+import { FollowButton } from "@/components/notifications/follow-button";
+
+const FRAMEWORK_PAGES: Record<string, { label: string; path: string }> = {
+  swot: { label: "SWOT Analysis", path: "/templates/swot" },
+  pestle: { label: "PESTLE Analysis", path: "/templates/pestle" },
+  porters_five_forces: { label: "Porter's Five Forces", path: "/templates/porters-five-forces" },
+  ogsm: { label: "OGSM", path: "/templates/ogsm" },
+  strategy_on_a_page: { label: "Strategy on a Page", path: "/templates/strategy-on-a-page" },
+  first_principles: { label: "First Principles", path: "/templates/first-principles" },
+  eisenhower_matrix: { label: "Eisenhower Matrix", path: "/templates/eisenhower-matrix" },
+  smart_goals: { label: "SMART Goals", path: "/templates/smart-goals" },
+};
 
 interface ViewStrategyModalProps {
   open: boolean;
@@ -18,6 +33,16 @@ interface ViewStrategyModalProps {
 }
 
 export function ViewStrategyModal({ open, onOpenChange, strategy }: ViewStrategyModalProps) {
+  const { data: frameworkDocuments = [] } = useQuery<FrameworkDocument[]>({
+    queryKey: ["/api/framework-documents", `?strategyId=${strategy?.id}`],
+    queryFn: async () => {
+      const res = await fetch(`/api/framework-documents?strategyId=${strategy!.id}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to load framework documents");
+      return res.json();
+    },
+    enabled: open && !!strategy,
+  });
+
   if (!strategy) return null;
 
   const InfoField = ({ label, value }: { label: string; value: string }) => (
@@ -30,11 +55,12 @@ export function ViewStrategyModal({ open, onOpenChange, strategy }: ViewStrategy
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
-        <DialogHeader>
+        <DialogHeader className="flex-row items-center justify-between space-y-0 pr-8">
           <DialogTitle className="flex items-center space-x-2">
             <Eye className="w-5 h-5 text-blue-500" />
             <span>View Strategy</span>
           </DialogTitle>
+          {strategy && <FollowButton entityType="strategy" entityId={strategy.id} />}
         </DialogHeader>
 
         <div className="space-y-6">
@@ -150,6 +176,50 @@ export function ViewStrategyModal({ open, onOpenChange, strategy }: ViewStrategy
               );
             })()}
           </div>
+
+          <Separator />
+
+          {/* Framework Documents */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold border-b pb-2">Framework Documents</h3>
+            {frameworkDocuments.length === 0 ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                No saved SWOT, PESTLE or other framework documents are linked to this strategy.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {frameworkDocuments.map((doc) => {
+                  const page = FRAMEWORK_PAGES[doc.frameworkType];
+                  return (
+                    <Link
+                      key={doc.id}
+                      href={`${page?.path || "/templates"}?documentId=${doc.id}`}
+                      className="flex items-center justify-between p-3 rounded-lg bg-gray-50 dark:bg-gray-800 hover:bg-gray-100 dark:hover:bg-gray-700"
+                      data-testid={`link-framework-document-${doc.id}`}
+                    >
+                      <div className="flex items-center space-x-2">
+                        <FileText className="w-4 h-4 text-gray-500" />
+                        <span className="font-medium text-gray-900 dark:text-white">{doc.title}</span>
+                        <Badge variant="outline" className="text-xs">{page?.label || doc.frameworkType}</Badge>
+                      </div>
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        v{doc.version}
+                        {doc.updatedAt && ` · ${format(new Date(doc.updatedAt), "PP")}`}
+                      </span>
+                    </Link>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <Separator />
+
+          {/* History */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold border-b pb-2">History</h3>
+            <ChangeHistory entity="strategies" entityId={strategy.id} />
+          </div>
         </div>
 
         <div className="flex justify-end pt-4 border-t">
@@ -0,0 +1,58 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { BellPlus, BellOff } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { type EntityFollow, type FollowableEntityType } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+
+interface FollowButtonProps {
+  entityType: FollowableEntityType;
+  entityId: string;
+}
+
+// Following sends the record's notifications (and those of everything under it) without being assigned
+export function FollowButton({ entityType, entityId }: FollowButtonProps) {
+  const { toast } = useToast();
+
+  const { data: follows = [] } = useQuery<EntityFollow[]>({
+    queryKey: ["/api/follows"],
+  });
+
+  const isFollowing = follows.some(f => f.entityType === entityType && f.entityId === entityId);
+
+  const toggleMutation = useMutation({
+    mutationFn: async () => {
+      if (isFollowing) {
+        await apiRequest("DELETE", `/api/follows/${entityType}/${entityId}`);
+      } else {
+        await apiRequest("POST", "/api/follows", { entityType, entityId });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/follows"] });
+      toast({
+        title: isFollowing ? "Unfollowed" : "Following",
+        description: isFollowing
+          ? `You will no longer be notified about this ${entityType} unless you are assigned to it.`
+          : `You will be notified about this ${entityType}${entityType === "action" ? "" : " and everything under it"}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || `Failed to update follow`, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Button
+      type="button"
+      size="sm"
+      variant={isFollowing ? "secondary" : "outline"}
+      onClick={() => toggleMutation.mutate()}
+      disabled={toggleMutation.isPending}
+      data-testid={`button-follow-${entityType}-${entityId}`}
+    >
+      {isFollowing ? <BellOff className="w-4 h-4 mr-1" /> : <BellPlus className="w-4 h-4 mr-1" />}
+      {isFollowing ? "Unfollow" : "Follow"}
+    </Button>
+  );
+}
@@ -1,41 +1,111 @@
 import { useState, useRef, useEffect } from "react";
-import { Bell } from "lucide-react";
+import { Bell, RotateCcw, Clock, ChevronLeft, ChevronRight, Layers, Check } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { type Notification } from "@shared/schema";
+import { type Notification, type NotificationGroup, type NotificationInboxStatus } from "@shared/schema";
 import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
 import {
   Tooltip,
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { formatDistanceToNow } from "date-fns";
+import { addDays, addHours, format, formatDistanceToNow, nextMonday, setHours, startOfDay } from "date-fns";
 
 interface NotificationBellProps {
   isCollapsed?: boolean;
 }
 
+interface NotificationInbox {
+  items?: Notification[];
+  groups?: NotificationGroup[];
+  total: number;
+  hasMore: boolean;
+  unreadCount: number;
+  unreadByCategory: Record<string, number>;
+  categories: string[];
+  nextSnoozeEndsAt: string | null;
+}
+
+// Which notifications a bulk change applies to: the listed ones, or everything about one record
+type NotificationTarget = { ids: string[] } | { relatedEntityType: string; relatedEntityId: string };
+
+const PAGE_SIZE = 20;
+
+const STATUS_TABS: { value: NotificationInboxStatus; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "unread", label: "Unread" },
+  { value: "snoozed", label: "Snoozed" },
+];
+
+const morning = (day: Date) => setHours(startOfDay(day), 9);
+
+const SNOOZE_OPTIONS: { label: string; until: () => Date }[] = [
+  { label: "3 hours", until: () => addHours(new Date(), 3) },
+  { label: "Tomorrow", until: () => morning(addDays(new Date(), 1)) },
+  { label: "Next week", until: () => morning(nextMonday(new Date())) },
+];
+
+const targetOf = (group: NotificationGroup): NotificationTarget =>
+  group.relatedEntityType && group.relatedEntityId
+    ? { relatedEntityType: group.relatedEntityType, relatedEntityId: group.relatedEntityId }
+    : { ids: group.notifications.map(n => n.id) };
+
 export function NotificationBell({ isCollapsed = false }: NotificationBellProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [status, setStatus] = useState<NotificationInboxStatus>("all");
+  const [category, setCategory] = useState("");
+  const [grouped, setGrouped] = useState(false);
+  const [offset, setOffset] = useState(0);
+  const [snoozeOpenFor, setSnoozeOpenFor] = useState<string | null>(null);
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
 
-  // Fetch notifications with polling (every 30 seconds)
-  const { data: notifications = [], isLoading } = useQuery<Notification[]>({
-    queryKey: ["/api/notifications"],
-    refetchInterval: 30000, // Poll every 30 seconds
+  // New notifications arrive over the event stream, which invalidates this query
+  const { data: inbox, isLoading } = useQuery<NotificationInbox>({
+    queryKey: ["/api/notifications", { status, category, grouped, offset }],
+    queryFn: async () => {
+      const params = new URLSearchParams({ status, limit: String(PAGE_SIZE), offset: String(offset) });
+      if (category) params.set("category", category);
+      if (grouped) params.set("groupBy", "entity");
+      const response = await fetch(`/api/notifications?${params}`, { credentials: 'include' });
+      if (!response.ok) throw new Error("Failed to fetch notifications");
+      return response.json();
+    },
   });
 
-  // Count unread notifications
-  const unreadCount = notifications.filter(n => n.isRead === "false").length;
+  const unreadCount = inbox?.unreadCount ?? 0;
+  const notifications = inbox?.items ?? [];
+  const groups = inbox?.groups ?? [];
+  const total = inbox?.total ?? 0;
+  const shownCount = grouped ? groups.length : notifications.length;
+
+  // A snoozed notification comes back without any server event, so refetch when the next snooze ends
+  useEffect(() => {
+    if (!inbox?.nextSnoozeEndsAt) return;
+    const delay = new Date(inbox.nextSnoozeEndsAt).getTime() - Date.now();
+    // setTimeout cannot wait longer than ~24.8 days; the query is refetched well before then anyway
+    if (delay > 2 ** 31 - 1) return;
+    const timer = setTimeout(() => queryClient.invalidateQueries({ queryKey: ["/api/notifications"] }), Math.max(delay, 0) + 1000);
+    return () => clearTimeout(timer);
+  }, [inbox?.nextSnoozeEndsAt]);
+
+  // Deleting, reading or snoozing the last item on a later page leaves it empty
+  useEffect(() => {
+    if (inbox && offset > 0 && shownCount === 0) setOffset(Math.max(offset - PAGE_SIZE, 0));
+  }, [inbox, offset, shownCount]);
+
+  const invalidateNotifications = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+  };
 
   // Mark notification as read mutation
   const markAsReadMutation = useMutation({
     mutationFn: async (id: string) => {
       return await apiRequest("PATCH", `/api/notifications/${id}/read`);
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
-    },
+    onSuccess: invalidateNotifications,
   });
 
   // Mark notification as unread mutation
@@ -43,9 +113,7 @@ export function NotificationBell({ isCollapsed = false }: NotificationBellProps)
     mutationFn: async (id: string) => {
       return await apiRequest("PATCH", `/api/notifications/${id}/unread`);
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
-    },
+    onSuccess: invalidateNotifications,
   });
 
   // Mark all notifications as read mutation
@@ -53,8 +121,30 @@ export function NotificationBell({ isCollapsed = false }: NotificationBellProps)
     mutationFn: async () => {
       return await apiRequest("PATCH", "/api/notifications/read-all");
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    onSuccess: invalidateNotifications,
+  });
+
+  // Mark every notification about one record as read
+  const markGroupAsReadMutation = useMutation({
+    mutationFn: async (target: NotificationTarget) => {
+      return await apiRequest("PATCH", "/api/notifications/mark-read", target);
+    },
+    onSuccess: invalidateNotifications,
+  });
+
+  const snoozeMutation = useMutation({
+    mutationFn: async ({ target, until }: { target: NotificationTarget; until: Date | null }) => {
+      return await apiRequest("PATCH", "/api/notifications/snooze", { ...target, until });
+    },
+    onSuccess: (_, { until }) => {
+      setSnoozeOpenFor(null);
+      invalidateNotifications();
+      if (until) {
+        toast({ title: "Snoozed", description: `Back in your inbox ${format(until, "EEE d MMM, HH:mm")}.` });
+      }
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to snooze notification", variant: "destructive" });
     },
   });
 
@@ -63,8 +153,26 @@ export function NotificationBell({ isCollapsed = false }: NotificationBellProps)
     mutationFn: async (id: string) => {
       return await apiRequest("DELETE", `/api/notifications/${id}`);
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    onSuccess: invalidateNotifications,
+  });
+
+  // Reactivate a parked project straight from its wake-up review notification
+  const reactivateProjectMutation = useMutation({
+    mutationFn: async (notification: Notification) => {
+      await apiRequest("POST", `/api/projects/${notification.relatedEntityId}/unarchive`);
+      return notification;
+    },
+    onSuccess: (notification) => {
+      if (notification.isRead === "false") {
+        markAsReadMutation.mutate(notification.id);
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/archived-projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/actions"] });
+      toast({ title: "Project Reactivated", description: "The project has been restored and is now active." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to reactivate project", variant: "destructive" });
     },
   });
 
@@ -85,6 +193,13 @@ export function NotificationBell({ isCollapsed = false }: NotificationBellProps)
     };
   }, [isOpen]);
 
+  // Any change of view starts again from the first page
+  const changeView = (update: () => void) => {
+    update();
+    setOffset(0);
+    setSnoozeOpenFor(null);
+  };
+
   const handleNotificationClick = (notification: Notification) => {
     // Toggle read/unread status
     if (notification.isRead === "false") {
@@ -94,6 +209,15 @@ export function NotificationBell({ isCollapsed = false }: NotificationBellProps)
     }
   };
 
+  const toggleGroup = (key: string) => {
+    setExpandedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
   const getNotificationTypeColor = (type: string) => {
     if (type.includes("completed") || type.includes("achieved")) {
       return "bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300";
@@ -113,6 +237,202 @@ export function NotificationBell({ isCollapsed = false }: NotificationBellProps)
     return "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300";
   };
 
+  // Snooze choices open inline: a popover would render outside the panel and close it
+  const renderSnoozeControls = (key: string, target: NotificationTarget, snoozedUntil?: Date | string | null) => {
+    if (status === "snoozed") {
+      return (
+        <div className="flex items-center gap-2 mt-2" onClick={(e) => e.stopPropagation()}>
+          {snoozedUntil && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              Until {format(new Date(snoozedUntil), "EEE d MMM, HH:mm")}
+            </span>
+          )}
+          <button
+            onClick={() => snoozeMutation.mutate({ target, until: null })}
+            className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+            data-testid={`unsnooze-${key}`}
+          >
+            Unsnooze
+          </button>
+        </div>
+      );
+    }
+    if (snoozeOpenFor !== key) return null;
+    return (
+      <div className="flex flex-wrap items-center gap-1 mt-2" onClick={(e) => e.stopPropagation()} data-testid={`snooze-options-${key}`}>
+        {SNOOZE_OPTIONS.map(option => (
+          <button
+            key={option.label}
+            onClick={() => snoozeMutation.mutate({ target, until: option.until() })}
+            disabled={snoozeMutation.isPending}
+            className="text-xs px-2 py-0.5 rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800"
+            data-testid={`snooze-${option.label.toLowerCase().replace(/\s+/g, "-")}-${key}`}
+          >
+            {option.label}
+          </button>
+        ))}
+        <input
+          type="date"
+          min={format(addDays(new Date(), 1), "yyyy-MM-dd")}
+          onChange={(e) => {
+            if (e.target.value) snoozeMutation.mutate({ target, until: morning(new Date(`${e.target.value}T00:00`)) });
+          }}
+          className="text-xs px-1 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-transparent"
+          data-testid={`snooze-date-${key}`}
+        />
+      </div>
+    );
+  };
+
+  const renderSnoozeButton = (key: string) => status !== "snoozed" && (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        setSnoozeOpenFor(snoozeOpenFor === key ? null : key);
+      }}
+      className="text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 p-1 flex-shrink-0"
+      title="Snooze"
+      data-testid={`snooze-notification-${key}`}
+    >
+      <Clock className="w-4 h-4" />
+    </button>
+  );
+
+  const renderNotification = (notification: Notification, nested = false) => (
+    <div
+      key={notification.id}
+      className={`${nested ? "pl-8 pr-4" : "px-4"} py-3 hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer transition-colors ${
+        notification.isRead === "false" ? "bg-blue-50 dark:bg-blue-900/20" : ""
+      }`}
+      onClick={() => handleNotificationClick(notification)}
+      data-testid={`notification-${notification.id}`}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+            {notification.isRead === "false" && (
+              <div className="w-2 h-2 bg-blue-500 rounded-full flex-shrink-0" />
+            )}
+            <h4 className="text-sm font-medium text-gray-900 dark:text-white truncate">
+              {notification.title}
+            </h4>
+          </div>
+          <p className="text-xs text-gray-600 dark:text-gray-400 line-clamp-2">
+            {notification.message}
+          </p>
+          {notification.type === "project_wake_up_review" && notification.relatedEntityId && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="mt-2 h-7 text-xs"
+              onClick={(e) => {
+                e.stopPropagation();
+                reactivateProjectMutation.mutate(notification);
+              }}
+              disabled={reactivateProjectMutation.isPending}
+              data-testid={`button-reactivate-project-${notification.id}`}
+            >
+              <RotateCcw className="w-3 h-3 mr-1" />
+              Reactivate project
+            </Button>
+          )}
+          <div className="flex items-center gap-2 mt-2">
+            <span className={`text-xs px-2 py-0.5 rounded ${getNotificationTypeColor(notification.type)}`}>
+              {notification.type.replace(/_/g, " ")}
+            </span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {formatDistanceToNow(new Date(notification.createdAt || ""), { addSuffix: true })}
+            </span>
+          </div>
+          {!nested && renderSnoozeControls(notification.id, { ids: [notification.id] }, notification.snoozedUntil)}
+        </div>
+        {!nested && renderSnoozeButton(notification.id)}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            deleteNotificationMutation.mutate(notification.id);
+          }}
+          className="text-gray-400 hover:text-red-600 dark:hover:text-red-400 p-1 flex-shrink-0"
+          data-testid={`delete-notification-${notification.id}`}
+        >
+          <svg
+            className="w-4 h-4"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderGroup = (group: NotificationGroup) => {
+    if (group.count === 1) return renderNotification(group.notifications[0]);
+    const [latest] = group.notifications;
+    const isExpanded = expandedGroups.has(group.key);
+    const target = targetOf(group);
+    return (
+      <div key={group.key} data-testid={`notification-group-${group.key}`}>
+        <div
+          className={`px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer transition-colors ${
+            group.unreadCount > 0 ? "bg-blue-50 dark:bg-blue-900/20" : ""
+          }`}
+          onClick={() => toggleGroup(group.key)}
+        >
+          <div className="flex items-start justify-between gap-2">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 mb-1">
+                {group.unreadCount > 0 && (
+                  <div className="w-2 h-2 bg-blue-500 rounded-full flex-shrink-0" />
+                )}
+                <h4 className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                  {latest?.title}
+                </h4>
+              </div>
+              <p className="text-xs text-gray-600 dark:text-gray-400">
+                {group.count} notifications about this {group.relatedEntityType ?? "item"}
+                {group.unreadCount > 0 && ` · ${group.unreadCount} unread`}
+                {latest?.createdAt && ` · ${formatDistanceToNow(new Date(latest.createdAt), { addSuffix: true })}`}
+              </p>
+              {renderSnoozeControls(group.key, target)}
+            </div>
+            {group.unreadCount > 0 && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  markGroupAsReadMutation.mutate(target);
+                }}
+                className="text-gray-400 hover:text-green-600 dark:hover:text-green-400 p-1 flex-shrink-0"
+                title="Mark all as read"
+                data-testid={`mark-group-read-${group.key}`}
+              >
+                <Check className="w-4 h-4" />
+              </button>
+            )}
+            {renderSnoozeButton(group.key)}
+          </div>
+        </div>
+        {isExpanded && (
+          <div className="divide-y divide-gray-100 dark:divide-gray-800">
+            {group.notifications.map(notification => renderNotification(notification, true))}
+            {group.count > group.notifications.length && (
+              <div className="pl-8 pr-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+                and {group.count - group.notifications.length} older
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const buttonContent = (
     <button
       onClick={() => setIsOpen(!isOpen)}
@@ -157,7 +477,7 @@ export function NotificationBell({ isCollapsed = false }: NotificationBellProps)
       {/* Dropdown Panel */}
       {isOpen && (
         <div
-          className="absolute left-full ml-2 top-0 w-96 bg-white dark:bg-gray-900 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700 z-[9999]"
+          className="absolute left-full ml-2 top-0 w-[26rem] bg-white dark:bg-gray-900 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700 z-[9999]"
           data-testid="notification-dropdown"
         >
           {/* Header */}
@@ -165,15 +485,60 @@ export function NotificationBell({ isCollapsed = false }: NotificationBellProps)
             <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
               Notifications
             </h3>
-            {unreadCount > 0 && (
+            <div className="flex items-center gap-3">
               <button
-                onClick={() => markAllAsReadMutation.mutate()}
-                className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
-                data-testid="mark-all-read-button"
+                onClick={() => changeView(() => setGrouped(!grouped))}
+                className={`flex items-center text-xs hover:underline ${grouped ? "text-blue-600 dark:text-blue-400" : "text-gray-500 dark:text-gray-400"}`}
+                data-testid="toggle-group-notifications"
               >
-                Mark all as read
+                <Layers className="w-3 h-3 mr-1" />
+                Group by item
               </button>
-            )}
+              {unreadCount > 0 && (
+                <button
+                  onClick={() => markAllAsReadMutation.mutate()}
+                  className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                  data-testid="mark-all-read-button"
+                >
+                  Mark all as read
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Filters */}
+          <div className="px-4 py-2 border-b border-gray-200 dark:border-gray-700 space-y-2">
+            <div className="flex gap-1">
+              {STATUS_TABS.map(tab => (
+                <button
+                  key={tab.value}
+                  onClick={() => changeView(() => setStatus(tab.value))}
+                  className={`text-xs px-2 py-1 rounded ${status === tab.value ? "bg-primary text-white" : "text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"}`}
+                  data-testid={`notification-status-${tab.value}`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-1 overflow-x-auto pb-1">
+              {["", ...(inbox?.categories ?? [])].map(name => {
+                const count = name ? inbox?.unreadByCategory[name] ?? 0 : unreadCount;
+                return (
+                  <button
+                    key={name || "all"}
+                    onClick={() => changeView(() => setCategory(name))}
+                    className={`text-xs px-2 py-0.5 rounded-full border whitespace-nowrap ${
+                      category === name
+                        ? "border-primary text-primary"
+                        : "border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+                    }`}
+                    data-testid={`notification-category-${name || "all"}`}
+                  >
+                    {name || "Everything"}{count > 0 && ` (${count})`}
+                  </button>
+                );
+              })}
+            </div>
           </div>
 
           {/* Notifications List */}
@@ -182,78 +547,45 @@ export function NotificationBell({ isCollapsed = false }: NotificationBellProps)
               <div className="px-4 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
                 Loading notifications...
               </div>
-            ) : notifications.length === 0 ? (
+            ) : shownCount === 0 ? (
               <div className="px-4 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
-                No notifications
+                {status === "snoozed" ? "No snoozed notifications" : "No notifications"}
               </div>
             ) : (
               <div className="divide-y divide-gray-200 dark:divide-gray-700">
-                {notifications.slice(0, 20).map((notification) => (
-                  <div
-                    key={notification.id}
-                    className={`px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer transition-colors ${
-                      notification.isRead === "false" ? "bg-blue-50 dark:bg-blue-900/20" : ""
-                    }`}
-                    onClick={() => handleNotificationClick(notification)}
-                    data-testid={`notification-${notification.id}`}
-                  >
-                    <div className="flex items-start justify-between gap-2">
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center gap-2 mb-1">
-                          {notification.isRead === "false" && (
-                            <div className="w-2 h-2 bg-blue-500 rounded-full flex-shrink-0" />
-                          )}
-                          <h4 className="text-sm font-medium text-gray-900 dark:text-white truncate">
-                            {notification.title}
-                          </h4>
-                        </div>
-                        <p className="text-xs text-gray-600 dark:text-gray-400 line-clamp-2">
-                          {notification.message}
-                        </p>
-                        <div className="flex items-center gap-2 mt-2">
-                          <span className={`text-xs px-2 py-0.5 rounded ${getNotificationTypeColor(notification.type)}`}>
-                            {notification.type.replace(/_/g, " ")}
-                          </span>
-                          <span className="text-xs text-gray-500 dark:text-gray-400">
-                            {formatDistanceToNow(new Date(notification.createdAt || ""), { addSuffix: true })}
-                          </span>
-                        </div>
-                      </div>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          deleteNotificationMutation.mutate(notification.id);
-                        }}
-                        className="text-gray-400 hover:text-red-600 dark:hover:text-red-400 p-1 flex-shrink-0"
-                        data-testid={`delete-notification-${notification.id}`}
-                      >
-                        <svg
-                          className="w-4 h-4"
-                          fill="none"
-                          stroke="currentColor"
-                          viewBox="0 0 24 24"
-                        >
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M6 18L18 6M6 6l12 12"
-                          />
-                        </svg>
-                      </button>
-                    </div>
-                  </div>
-                ))}
+                {grouped ? groups.map(renderGroup) : notifications.map(notification => renderNotification(notification))}
               </div>
             )}
           </div>
 
           {/* Footer */}
-          {notifications.length > 0 && (
-            <div className="px-4 py-3 border-t border-gray-200 dark:border-gray-700 text-center">
+          {total > 0 && (
+            <div className="px-4 py-2 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between">
               <span className="text-xs text-gray-500 dark:text-gray-400">
-                Showing {Math.min(notifications.length, 20)} of {notifications.length} notifications
+                {offset + 1}–{offset + shownCount} of {total} {grouped ? "items" : "notifications"}
               </span>
+              <div className="flex items-center gap-1">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 w-7 p-0"
+                  onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+                  disabled={offset === 0}
+                  data-testid="notifications-previous-page"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 w-7 p-0"
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                  disabled={!inbox?.hasMore}
+                  data-testid="notifications-next-page"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
             </div>
           )}
         </div>
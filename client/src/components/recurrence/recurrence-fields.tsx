@@ -0,0 +1,128 @@
+import type { UseFormReturn } from "react-hook-form";
+import { addMonths, format } from "date-fns";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { InsertAction } from "@shared/schema";
+
+const frequencyLabels: Record<string, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+};
+
+interface RecurrenceFieldsProps {
+  form: UseFormReturn<InsertAction>;
+}
+
+/**
+ * Repeat rule for an action. The series ends on a date, after a number of occurrences, or never;
+ * the end mode is derived from which of the two limits is set.
+ */
+export function RecurrenceFields({ form }: RecurrenceFieldsProps) {
+  const frequency = form.watch("recurrenceFrequency");
+  const until = form.watch("recurrenceUntil");
+  const count = form.watch("recurrenceCount");
+  const endMode = until ? "date" : count ? "count" : "never";
+
+  const setEndMode = (mode: string) => {
+    const dueDate = form.getValues("dueDate");
+    form.setValue("recurrenceUntil", mode === "date" ? addMonths(dueDate ? new Date(dueDate) : new Date(), 6) : null);
+    form.setValue("recurrenceCount", mode === "count" ? 4 : null);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <FormField
+        control={form.control}
+        name="recurrenceFrequency"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Repeat</FormLabel>
+            <Select
+              onValueChange={(value) => {
+                field.onChange(value === "none" ? null : value);
+                if (value === "none") setEndMode("never");
+              }}
+              value={field.value || "none"}
+            >
+              <FormControl>
+                <SelectTrigger data-testid="select-action-recurrence">
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value="none">Does not repeat</SelectItem>
+                {Object.entries(frequencyLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {frequency && (
+              <FormDescription>
+                The next occurrence is created when this one is achieved or falls due, with the same assignees and checklist.
+              </FormDescription>
+            )}
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {frequency && (
+        <div className="space-y-2">
+          <FormLabel>Ends</FormLabel>
+          <div className="flex gap-2">
+            <Select onValueChange={setEndMode} value={endMode}>
+              <SelectTrigger className="w-36" data-testid="select-action-recurrence-end">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="date">On date</SelectItem>
+                <SelectItem value="count">After</SelectItem>
+              </SelectContent>
+            </Select>
+            {endMode === "date" && (
+              <Input
+                type="date"
+                value={until ? format(new Date(until), "yyyy-MM-dd") : ""}
+                onChange={(e) => form.setValue("recurrenceUntil", e.target.value ? new Date(`${e.target.value}T23:59:59`) : null)}
+                data-testid="input-action-recurrence-until"
+              />
+            )}
+            {endMode === "count" && (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={2}
+                  className="w-24"
+                  value={count ?? ""}
+                  onChange={(e) => form.setValue("recurrenceCount", e.target.value ? parseInt(e.target.value, 10) : null)}
+                  data-testid="input-action-recurrence-count"
+                />
+                <span className="text-sm text-muted-foreground">occurrences</span>
+              </div>
+            )}
+          </div>
+          {form.formState.errors.recurrenceCount && (
+            <p className="text-sm font-medium text-destructive">{form.formState.errors.recurrenceCount.message}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
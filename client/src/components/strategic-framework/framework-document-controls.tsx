@@ -0,0 +1,307 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useRole } from "@/hooks/use-role";
+import { format } from "date-fns";
+import { Save, FolderOpen, History, Trash2 } from "lucide-react";
+import { frameworkTypes, type FrameworkDocument, type FrameworkDocumentVersion, type Strategy } from "@shared/schema";
+
+type FrameworkType = typeof frameworkTypes[number];
+
+interface FrameworkDocumentControlsProps {
+  frameworkType: FrameworkType;
+  defaultTitle: string;
+  content: unknown;
+  onLoad: (content: any) => void;
+}
+
+export function FrameworkDocumentControls({ frameworkType, defaultTitle, content, onLoad }: FrameworkDocumentControlsProps) {
+  const { toast } = useToast();
+  const { hasCapability } = useRole();
+  const canSave = hasCapability('edit_framework_documents');
+
+  const [documentId, setDocumentId] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get("documentId")
+  );
+  const [title, setTitle] = useState(defaultTitle);
+  const [strategyId, setStrategyId] = useState<string>("none");
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [openDialogOpen, setOpenDialogOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+
+  const { data: strategies = [] } = useQuery<Strategy[]>({
+    queryKey: ["/api/strategies"],
+  });
+
+  const { data: savedDocuments = [] } = useQuery<FrameworkDocument[]>({
+    queryKey: ["/api/framework-documents", `?frameworkType=${frameworkType}`],
+    queryFn: async () => {
+      const res = await fetch(`/api/framework-documents?frameworkType=${frameworkType}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to load saved documents");
+      return res.json();
+    },
+  });
+
+  const { data: currentDocument } = useQuery<FrameworkDocument>({
+    queryKey: ["/api/framework-documents", documentId],
+    enabled: !!documentId,
+  });
+
+  const { data: versions = [] } = useQuery<FrameworkDocumentVersion[]>({
+    queryKey: ["/api/framework-documents", documentId, "versions"],
+    enabled: !!documentId && historyOpen,
+  });
+
+  // Load the document's content into the template whenever a different document is opened
+  useEffect(() => {
+    if (!currentDocument) return;
+    setTitle(currentDocument.title);
+    setStrategyId(currentDocument.strategyId || "none");
+    try {
+      onLoad(JSON.parse(currentDocument.content));
+    } catch {
+      toast({ title: "Could not read saved document", variant: "destructive" });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentDocument?.id, currentDocument?.version]);
+
+  const invalidateDocuments = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/framework-documents"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        frameworkType,
+        title: title.trim() || defaultTitle,
+        content: JSON.stringify(content),
+        strategyId: strategyId === "none" ? null : strategyId,
+      };
+      const res = documentId
+        ? await apiRequest("PATCH", `/api/framework-documents/${documentId}`, payload)
+        : await apiRequest("POST", "/api/framework-documents", payload);
+      return res.json() as Promise<FrameworkDocument>;
+    },
+    onSuccess: (document) => {
+      setDocumentId(document.id);
+      const url = new URL(window.location.href);
+      url.searchParams.set("documentId", document.id);
+      window.history.replaceState(null, "", url.toString());
+      invalidateDocuments();
+      setSaveOpen(false);
+      toast({ title: "Saved", description: `"${document.title}" saved as version ${document.version}.` });
+    },
+    onError: () => {
+      toast({ title: "Save failed", description: "Could not save this document.", variant: "destructive" });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const res = await apiRequest("POST", `/api/framework-documents/${documentId}/versions/${version}/restore`);
+      return res.json() as Promise<FrameworkDocument>;
+    },
+    onSuccess: (document) => {
+      invalidateDocuments();
+      setHistoryOpen(false);
+      toast({ title: "Version restored", description: `Now at version ${document.version}.` });
+    },
+    onError: () => {
+      toast({ title: "Restore failed", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/framework-documents/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      if (id === documentId) {
+        setDocumentId(null);
+        setTitle(defaultTitle);
+      }
+      invalidateDocuments();
+      toast({ title: "Document deleted" });
+    },
+    onError: () => {
+      toast({ title: "Delete failed", variant: "destructive" });
+    },
+  });
+
+  const openDocument = (id: string) => {
+    setDocumentId(id);
+    const url = new URL(window.location.href);
+    url.searchParams.set("documentId", id);
+    window.history.replaceState(null, "", url.toString());
+    setOpenDialogOpen(false);
+  };
+
+  return (
+    <>
+      {currentDocument && (
+        <Badge variant="outline" className="self-center" data-testid="badge-framework-document-version">
+          v{currentDocument.version}
+        </Badge>
+      )}
+      <Button variant="outline" onClick={() => setOpenDialogOpen(true)} data-testid="button-framework-open">
+        <FolderOpen className="w-4 h-4 mr-2" />
+        Open
+      </Button>
+      {documentId && (
+        <Button variant="outline" onClick={() => setHistoryOpen(true)} data-testid="button-framework-history">
+          <History className="w-4 h-4 mr-2" />
+          History
+        </Button>
+      )}
+      {canSave && (
+        <Button variant="outline" onClick={() => setSaveOpen(true)} data-testid="button-framework-save">
+          <Save className="w-4 h-4 mr-2" />
+          Save
+        </Button>
+      )}
+
+      <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>{documentId ? "Save New Version" : "Save Draft"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="framework-document-title">Title</Label>
+              <Input
+                id="framework-document-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                data-testid="input-framework-document-title"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Linked Strategy</Label>
+              <Select value={strategyId} onValueChange={setStrategyId}>
+                <SelectTrigger data-testid="select-framework-document-strategy">
+                  <SelectValue placeholder="No linked strategy" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No linked strategy</SelectItem>
+                  {strategies.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>{s.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setSaveOpen(false)}>Cancel</Button>
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending}
+                data-testid="button-framework-save-confirm"
+              >
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={openDialogOpen} onOpenChange={setOpenDialogOpen}>
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle>Saved Documents</DialogTitle>
+          </DialogHeader>
+          {savedDocuments.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 py-6 text-center">No saved documents yet.</p>
+          ) : (
+            <ScrollArea className="max-h-[400px]">
+              <div className="space-y-2">
+                {savedDocuments.map((doc) => (
+                  <div
+                    key={doc.id}
+                    className="flex items-center justify-between p-3 rounded-md border dark:border-gray-700"
+                    data-testid={`framework-document-${doc.id}`}
+                  >
+                    <button className="text-left flex-1" onClick={() => openDocument(doc.id)}>
+                      <div className="font-medium text-gray-900 dark:text-white">{doc.title}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        v{doc.version}
+                        {doc.strategyId && ` · ${strategies.find(s => s.id === doc.strategyId)?.title || "Linked strategy"}`}
+                        {doc.updatedAt && ` · ${format(new Date(doc.updatedAt), "MMM d, yyyy h:mm a")}`}
+                      </div>
+                    </button>
+                    {canSave && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteMutation.mutate(doc.id)}
+                        data-testid={`button-delete-framework-document-${doc.id}`}
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={historyOpen} onOpenChange={setHistoryOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Version History</DialogTitle>
+          </DialogHeader>
+          {versions.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 py-6 text-center">No earlier versions.</p>
+          ) : (
+            <ScrollArea className="max-h-[400px]">
+              <div className="space-y-2">
+                {versions.map((v) => (
+                  <div key={v.id} className="flex items-center justify-between p-3 rounded-md border dark:border-gray-700">
+                    <div>
+                      <div className="font-medium text-gray-900 dark:text-white">Version {v.version}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {v.title}
+                        {v.createdAt && ` · ${format(new Date(v.createdAt), "MMM d, yyyy h:mm a")}`}
+                      </div>
+                    </div>
+                    {canSave && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => restoreMutation.mutate(v.version)}
+                        disabled={restoreMutation.isPending}
+                        data-testid={`button-restore-version-${v.version}`}
+                      >
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
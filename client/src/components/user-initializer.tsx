@@ -5,7 +5,7 @@ import type { User } from '@shared/schema';
 
 // Component to initialize user data from authenticated session
 export function UserInitializer({ children }: { children: React.ReactNode }) {
-  const { setCurrentUser, currentUser, loadAssignedStrategyIds } = useRole();
+  const { setCurrentUser, currentUser, loadAssignedStrategyIds, loadPermissions } = useRole();
   
   const { data: authUser } = useQuery<User>({
     queryKey: ["/api/auth/user"],
@@ -18,8 +18,9 @@ export function UserInitializer({ children }: { children: React.ReactNode }) {
       setCurrentUser(authUser);
       // Load assigned strategy IDs for the user
       loadAssignedStrategyIds();
+      loadPermissions();
     }
-  }, [authUser, setCurrentUser, currentUser, loadAssignedStrategyIds]);
+  }, [authUser, setCurrentUser, currentUser, loadAssignedStrategyIds, loadPermissions]);
 
   return <>{children}</>;
 }
\ No newline at end of file
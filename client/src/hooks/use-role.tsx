@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import type { User } from '@shared/schema';
+import type { PermissionCapability, User } from '@shared/schema';
 
 type Role = 'administrator' | 'co_lead' | 'view' | 'sme';
 
@@ -7,10 +7,15 @@ interface RoleStore {
   currentRole: Role;
   currentUser: User | null;
   assignedStrategyIds: string[];
+  // From /api/permissions/me: the user's capabilities, and per-strategy ones where an assignment role overrides them
+  capabilities: PermissionCapability[];
+  strategyCapabilities: Record<string, PermissionCapability[]>;
   setCurrentUser: (user: User) => void;
   setAssignedStrategyIds: (strategyIds: string[]) => void;
   loadAssignedStrategyIds: () => Promise<void>;
+  loadPermissions: () => Promise<void>;
   // Permission helpers
+  hasCapability: (capability: PermissionCapability, strategyId?: string | null) => boolean;
   canEditStrategies: () => boolean;
   canEditProjects: () => boolean;
   canCreateStrategies: () => boolean;
@@ -18,7 +23,7 @@ interface RoleStore {
   canWriteReports: () => boolean;
   canManageUsers: () => boolean;
   canEditProject: (project: any) => boolean;
-  canEditAllStrategies: () => boolean;
+  canEditAllStrategies: (strategyId?: string | null) => boolean;
   isStrategyAssigned: (strategyId: string) => boolean;
   isSuperAdmin: () => boolean;
 }
@@ -27,6 +32,8 @@ export const useRole = create<RoleStore>((set, get) => ({
   currentRole: 'administrator',
   currentUser: null,
   assignedStrategyIds: [],
+  capabilities: [],
+  strategyCapabilities: {},
   
   setCurrentUser: (user) => set({ 
     currentUser: user, 
@@ -57,16 +64,36 @@ export const useRole = create<RoleStore>((set, get) => ({
     }
   },
 
+  loadPermissions: async () => {
+    try {
+      const response = await fetch('/api/permissions/me');
+      if (response.ok) {
+        const { capabilities, strategyCapabilities } = await response.json();
+        set({ capabilities, strategyCapabilities });
+      }
+    } catch (error) {
+      console.error('Failed to load permissions', error);
+    }
+  },
+
   // Permission methods
+  hasCapability: (capability, strategyId) => {
+    const { currentUser, capabilities, strategyCapabilities } = get();
+    // Administrators hold every capability, even before permissions have loaded
+    if (currentUser?.role === 'administrator') {
+      return true;
+    }
+    const effective = (strategyId && strategyCapabilities[strategyId]) || capabilities;
+    return effective.includes(capability);
+  },
+
   canEditStrategies: () => {
     const { currentUser } = get();
     return currentUser?.role === 'administrator';
   },
   
   canEditProjects: () => {
-    const { currentUser } = get();
-    // Administrators and Co-Leads can edit projects, View users cannot
-    return currentUser?.role === 'administrator' || currentUser?.role === 'co_lead';
+    return get().hasCapability('edit_project');
   },
   
   canCreateStrategies: () => {
@@ -75,9 +102,7 @@ export const useRole = create<RoleStore>((set, get) => ({
   },
   
   canCreateProjects: () => {
-    const { currentUser } = get();
-    // Administrators and Co-Leads can create projects
-    return currentUser?.role === 'administrator' || currentUser?.role === 'co_lead';
+    return get().hasCapability('create_project');
   },
   
   canWriteReports: () => {
@@ -95,8 +120,8 @@ export const useRole = create<RoleStore>((set, get) => ({
     if (currentUser?.role === 'administrator') {
       return true;
     }
-    if (currentUser?.role === 'co_lead') {
-      // Co-Leads can edit projects if they're assigned to them
+    if (currentUser && get().hasCapability('edit_project', project.strategyId)) {
+      // Everyone else needs the capability and to be one of the project's leaders
       try {
         const accountableLeaders = JSON.parse(project.accountableLeaders || '[]');
         return accountableLeaders.includes(currentUser.id);
@@ -107,10 +132,10 @@ export const useRole = create<RoleStore>((set, get) => ({
     return false;
   },
 
-  canEditAllStrategies: () => {
-    const { currentUser } = get();
-    // Administrators and Co-Leads can edit projects and actions
-    return currentUser?.role === 'administrator' || currentUser?.role === 'co_lead';
+  canEditAllStrategies: (strategyId) => {
+    const { hasCapability } = get();
+    // Editing projects and actions; given a strategy, a role set on the user's assignment to it applies
+    return hasCapability('edit_project', strategyId) || hasCapability('edit_action', strategyId);
   },
 
   isStrategyAssigned: (strategyId) => {
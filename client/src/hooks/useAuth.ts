@@ -2,7 +2,7 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useCallback } from "react";
 import type { User } from "@shared/schema";
 
-type UserWithOrgName = User & { organizationName?: string | null };
+type UserWithOrgName = User & { organizationName?: string | null; totpEnrollmentRequired?: boolean };
 
 export function useAuth() {
   const queryClient = useQueryClient();
@@ -40,19 +40,19 @@ export function useAuth() {
 
     // Check if 2FA is required
     if (data.requires2FA) {
-      return { requires2FA: true, userId: data.userId };
+      return { requires2FA: true, userId: data.userId, method: data.method, challenge: data.challenge };
     }
 
     queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
     return data;
   }, [queryClient]);
 
-  const verify2FA = useCallback(async (userId: string, code: string) => {
+  const verify2FA = useCallback(async (userId: string, code: string, challenge?: string) => {
     const res = await fetch('/api/auth/verify-2fa', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       credentials: 'include',
-      body: JSON.stringify({ userId, code }),
+      body: JSON.stringify({ userId, code, challenge }),
     });
 
     const data = await res.json();
@@ -5,6 +5,9 @@ function getCsrfToken(): string | null {
   return match ? match[1] : null;
 }
 
+// Identifies this tab to the event stream so it is not told about its own changes
+const clientId = crypto.randomUUID();
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
@@ -21,6 +24,7 @@ export async function apiRequest(
   const headers: HeadersInit = {
     ...(data ? { "Content-Type": "application/json" } : {}),
     ...(csrfToken ? { "x-csrf-token": csrfToken } : {}),
+    "x-client-id": clientId,
   };
 
   const res = await fetch(url, {
@@ -66,3 +70,51 @@ export const queryClient = new QueryClient({
     },
   },
 });
+
+// Progress, status and counts roll up through the planning hierarchy, so a change to any of these
+// resources also refreshes the strategy, project and action views
+const ROLLUP_RESOURCES = new Set([
+  "strategies", "projects", "actions", "barriers", "dependencies", "decisions", "phases",
+  "workstreams", "workstream-tasks", "gate-criteria", "action-checklist-items",
+  "action-people-assignments", "resource-assignments", "measurements", "scenarios", "admin/recycle-bin",
+]);
+const ROLLUP_QUERY_PREFIXES = [
+  "/api/strategies", "/api/projects", "/api/actions", "/api/my-todos", "/api/my-projects", "/api/activities",
+];
+
+function invalidateResource(resource: string) {
+  const prefixes = [`/api/${resource}`, ...(ROLLUP_RESOURCES.has(resource) ? ROLLUP_QUERY_PREFIXES : [])];
+  queryClient.invalidateQueries({
+    predicate: (query) => {
+      const key = query.queryKey[0];
+      return typeof key === "string" && prefixes.some(prefix => key.startsWith(prefix));
+    },
+  });
+}
+
+/**
+ * Listen to the organization's event stream and refetch whatever other people (or this user's other
+ * tabs) change. Returns a function that closes the stream.
+ */
+export function subscribeToServerEvents(): () => void {
+  const source = new EventSource(`/api/events?clientId=${clientId}`, { withCredentials: true });
+  let disconnected = false;
+
+  source.addEventListener("change", (event) => {
+    const { resource } = JSON.parse((event as MessageEvent).data) as { resource: string };
+    invalidateResource(resource);
+  });
+  source.addEventListener("notification", () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+  });
+  // Changes made while the stream was down were missed, so everything on screen is refetched
+  source.addEventListener("ready", () => {
+    if (disconnected) queryClient.invalidateQueries();
+    disconnected = false;
+  });
+  source.addEventListener("error", () => {
+    disconnected = true;
+  });
+
+  return () => source.close();
+}
@@ -947,7 +947,7 @@ export default function Actions() {
                                                     <AlertDialogHeader>
                                                       <AlertDialogTitle>Delete Action</AlertDialogTitle>
                                                       <AlertDialogDescription>
-                                                        Are you sure you want to delete "{action.title}"? This action cannot be undone.
+                                                        Are you sure you want to delete "{action.title}"? It will be moved to the recycle bin.
                                                       </AlertDialogDescription>
                                                     </AlertDialogHeader>
                                                     <AlertDialogFooter>
@@ -9,6 +9,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
+import { ChangeHistory } from "@/components/lists/change-history";
+import { CommentThread } from "@/components/lists/comment-thread";
 import {
   Card,
   CardContent,
@@ -170,7 +172,7 @@ const emptyForm = {
 };
 
 export default function DecisionLog() {
-  const { canEditProjects, canManageUsers } = useRole();
+  const { hasCapability, canManageUsers } = useRole();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -347,7 +349,7 @@ export default function DecisionLog() {
     (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
   );
 
-  const canEdit = canEditProjects();
+  const canEdit = hasCapability('decide_decision');
   const canDelete = canManageUsers();
 
   if (isLoading) {
@@ -958,6 +960,20 @@ export default function DecisionLog() {
                 </div>
               </div>
 
+              {editingDecision && (
+                <div className="border-t pt-4">
+                  <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Comments</h4>
+                  <CommentThread entity="decisions" entityId={editingDecision.id} />
+                </div>
+              )}
+
+              {editingDecision && (
+                <div className="border-t pt-4">
+                  <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">History</h4>
+                  <ChangeHistory entity="decisions" entityId={editingDecision.id} />
+                </div>
+              )}
+
               <div className="flex justify-end gap-3 pt-4 border-t">
                 <Button variant="outline" onClick={closeDialog}>
                   Cancel
@@ -0,0 +1,44 @@
+import { ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AuthenticatorEnrollment } from "@/components/auth/authenticator-enrollment";
+import { useAuth } from "@/hooks/useAuth";
+import strategyPlanLogo from "@assets/Strategy_Plan_Logo_2.0_1764811966337.png";
+
+// Shown instead of the app to administrators whose organization requires an authenticator app
+export default function ForceTotpEnrollment() {
+  const { logout } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-black flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center mb-6">
+            <img src={strategyPlanLogo} alt="ERP Team Logo" className="w-24 h-24 object-contain" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+            ERP Team
+          </h1>
+        </div>
+
+        <Card className="border-gray-200 dark:border-gray-800 shadow-sm" data-testid="card-force-totp-enrollment">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-2 w-12 h-12 bg-amber-100 dark:bg-amber-900/30 rounded-full flex items-center justify-center">
+              <ShieldCheck className="w-6 h-6 text-amber-600 dark:text-amber-400" />
+            </div>
+            <CardTitle className="text-xl">Set Up an Authenticator App</CardTitle>
+            <CardDescription>
+              Your organization requires administrators to sign in with an authenticator app.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <AuthenticatorEnrollment onComplete={() => { window.location.href = '/'; }} />
+            <Button variant="ghost" className="w-full text-sm" onClick={logout} data-testid="button-enrollment-logout">
+              Sign out
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
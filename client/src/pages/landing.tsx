@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Loader2, ArrowLeft, Mail, UserPlus } from "lucide-react";
+import { Loader2, ArrowLeft, Mail, UserPlus, Smartphone, KeyRound } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import strategyPlanLogo from "@assets/Strategy_Plan_Logo_2.0_1764811966337.png";
@@ -15,9 +15,14 @@ export default function Landing() {
   const [isLoading, setIsLoading] = useState(false);
   const [requires2FA, setRequires2FA] = useState(false);
   const [pendingUserId, setPendingUserId] = useState<string | null>(null);
+  const [pendingChallenge, setPendingChallenge] = useState<string | undefined>();
+  const [usesAuthenticator, setUsesAuthenticator] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [verificationCode, setVerificationCode] = useState("");
   const [isResending, setIsResending] = useState(false);
   const [needsSetup, setNeedsSetup] = useState(false);
+  const [ssoAvailable, setSsoAvailable] = useState(false);
+  const [isStartingSso, setIsStartingSso] = useState(false);
   const { login, verify2FA, resend2FA } = useAuth();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
@@ -33,6 +38,21 @@ export default function Landing() {
       .catch(() => {});
   }, []);
 
+  useEffect(() => {
+    fetch("/api/auth/sso/status")
+      .then(res => res.json())
+      .then(data => setSsoAvailable(!!data.available))
+      .catch(() => {});
+
+    // The SSO callback redirects here with the reason when sign-in fails
+    const params = new URLSearchParams(window.location.search);
+    const ssoError = params.get("sso_error");
+    if (ssoError) {
+      toast({ title: "Single sign-on failed", description: ssoError, variant: "destructive" });
+      window.history.replaceState(null, "", window.location.pathname);
+    }
+  }, []);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -42,10 +62,14 @@ export default function Landing() {
       if (result.requires2FA) {
         setRequires2FA(true);
         setPendingUserId(result.userId);
-        toast({
-          title: "Verification required",
-          description: "A verification code has been sent to your email.",
-        });
+        setPendingChallenge(result.challenge);
+        setUsesAuthenticator(result.method === 'totp');
+        if (result.method !== 'totp') {
+          toast({
+            title: "Verification required",
+            description: "A verification code has been sent to your email.",
+          });
+        }
       } else {
         window.location.href = '/';
       }
@@ -60,6 +84,35 @@ export default function Landing() {
     }
   };
 
+  const handleSso = async () => {
+    if (!email) {
+      toast({ title: "Email required", description: "Enter your work email to sign in with SSO." });
+      return;
+    }
+
+    setIsStartingSso(true);
+    try {
+      const response = await fetch("/api/auth/sso/discover", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Single sign-on is not available");
+      }
+      window.location.href = data.url;
+    } catch (error: any) {
+      toast({
+        title: "Single sign-on unavailable",
+        description: error.message || "Please sign in with your password.",
+        variant: "destructive",
+      });
+      setIsStartingSso(false);
+    }
+  };
+
   const handleVerify2FA = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!pendingUserId) return;
@@ -67,7 +120,15 @@ export default function Landing() {
     setIsLoading(true);
 
     try {
-      await verify2FA(pendingUserId, verificationCode);
+      const result = await verify2FA(pendingUserId, verificationCode, pendingChallenge);
+      if (typeof result.recoveryCodesRemaining === 'number') {
+        // Give the toast time to show before the page reloads
+        toast({
+          title: "Recovery code used",
+          description: `You have ${result.recoveryCodesRemaining} recovery codes left. You can generate new ones in Settings.`,
+        });
+        await new Promise(resolve => setTimeout(resolve, 1500));
+      }
       window.location.href = '/';
     } catch (error: any) {
       toast({
@@ -105,6 +166,9 @@ export default function Landing() {
   const handleBackToLogin = () => {
     setRequires2FA(false);
     setPendingUserId(null);
+    setPendingChallenge(undefined);
+    setUsesAuthenticator(false);
+    setUseRecoveryCode(false);
     setVerificationCode("");
     setPassword("");
   };
@@ -199,6 +263,24 @@ export default function Landing() {
                   )}
                 </Button>
 
+                {ssoAvailable && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full py-6 text-base rounded-xl"
+                    onClick={handleSso}
+                    disabled={isStartingSso}
+                    data-testid="button-sso"
+                  >
+                    {isStartingSso ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <KeyRound className="mr-2 h-4 w-4" />
+                    )}
+                    Sign in with SSO
+                  </Button>
+                )}
+
                 <div className="text-center mt-4">
                   <Link href="/forgot-password" className="text-sm text-primary hover:underline" data-testid="link-forgot-password">
                     Forgot your password?
@@ -211,37 +293,63 @@ export default function Landing() {
           <Card className="border-gray-200 dark:border-gray-800 shadow-sm">
             <CardHeader className="text-center">
               <div className="mx-auto w-12 h-12 bg-blue-100 dark:bg-blue-900 rounded-full flex items-center justify-center mb-4">
-                <Mail className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+                {usesAuthenticator ? (
+                  <Smartphone className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+                ) : (
+                  <Mail className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+                )}
               </div>
-              <CardTitle className="text-xl">Check your email</CardTitle>
+              <CardTitle className="text-xl">{usesAuthenticator ? "Enter your authenticator code" : "Check your email"}</CardTitle>
               <CardDescription>
-                We sent a verification code to {email}
+                {usesAuthenticator
+                  ? "Open your authenticator app to get your sign-in code"
+                  : `We sent a verification code to ${email}`}
               </CardDescription>
             </CardHeader>
             <CardContent>
               <form onSubmit={handleVerify2FA} className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="verificationCode">Verification Code</Label>
-                  <Input
-                    id="verificationCode"
-                    type="text"
-                    placeholder="123456"
-                    value={verificationCode}
-                    onChange={(e) => setVerificationCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
-                    required
-                    maxLength={6}
-                    className="text-center text-2xl tracking-widest"
-                    data-testid="input-verification-code"
-                  />
+                  <Label htmlFor="verificationCode">{useRecoveryCode ? "Recovery Code" : "Verification Code"}</Label>
+                  {useRecoveryCode ? (
+                    <Input
+                      id="verificationCode"
+                      type="text"
+                      placeholder="abcde-fghjk"
+                      value={verificationCode}
+                      onChange={(e) => setVerificationCode(e.target.value.slice(0, 20))}
+                      required
+                      autoComplete="off"
+                      className="text-center text-xl font-mono"
+                      data-testid="input-recovery-code"
+                    />
+                  ) : (
+                    <Input
+                      id="verificationCode"
+                      type="text"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      placeholder="123456"
+                      value={verificationCode}
+                      onChange={(e) => setVerificationCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                      required
+                      maxLength={6}
+                      className="text-center text-2xl tracking-widest"
+                      data-testid="input-verification-code"
+                    />
+                  )}
                   <p className="text-xs text-gray-500 dark:text-gray-400 text-center">
-                    Enter the 6-digit code from your email
+                    {useRecoveryCode
+                      ? "Enter one of the recovery codes you saved when setting up the app"
+                      : usesAuthenticator
+                        ? "Enter the 6-digit code from your authenticator app"
+                        : "Enter the 6-digit code from your email"}
                   </p>
                 </div>
 
                 <Button 
                   type="submit" 
                   className="w-full py-6 text-base rounded-xl"
-                  disabled={isLoading || verificationCode.length !== 6}
+                  disabled={isLoading || (useRecoveryCode ? verificationCode.trim().length < 10 : verificationCode.length !== 6)}
                   data-testid="button-verify"
                 >
                   {isLoading ? (
@@ -255,23 +363,38 @@ export default function Landing() {
                 </Button>
 
                 <div className="flex flex-col gap-3 mt-4">
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    onClick={handleResendCode}
-                    disabled={isResending}
-                    className="text-sm"
-                    data-testid="button-resend-code"
-                  >
-                    {isResending ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Sending...
-                      </>
-                    ) : (
-                      "Didn't receive the code? Resend"
-                    )}
-                  </Button>
+                  {usesAuthenticator ? (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      onClick={() => {
+                        setUseRecoveryCode(!useRecoveryCode);
+                        setVerificationCode("");
+                      }}
+                      className="text-sm"
+                      data-testid="button-toggle-recovery-code"
+                    >
+                      {useRecoveryCode ? "Use your authenticator app instead" : "Lost your phone? Use a recovery code"}
+                    </Button>
+                  ) : (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      onClick={handleResendCode}
+                      disabled={isResending}
+                      className="text-sm"
+                      data-testid="button-resend-code"
+                    >
+                      {isResending ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Sending...
+                        </>
+                      ) : (
+                        "Didn't receive the code? Resend"
+                      )}
+                    </Button>
+                  )}
 
                   <Button
                     type="button"
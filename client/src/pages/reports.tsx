@@ -3,6 +3,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { useRole } from "@/hooks/use-role";
 import { Input } from "@/components/ui/input";
 import {
   DropdownMenu,
@@ -60,6 +61,7 @@ import {
   Bell,
   User as UserIcon,
   LayoutGrid,
+  FlaskConical,
 } from "lucide-react";
 import {
   Select,
@@ -76,6 +78,8 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { format, differenceInDays, isPast, isBefore } from "date-fns";
+import { MeasurementChart, MeasurementHistory } from "@/components/measurements/measurement-history";
+import type { Measurement } from "@shared/schema";
 
 type Strategy = {
   id: string;
@@ -100,6 +104,7 @@ type Project = {
   completionDate?: string;
   isArchived?: string;
   accountableLeaders: string; // JSON array of user IDs
+  kpi?: string | null;
 };
 
 type Action = {
@@ -111,6 +116,9 @@ type Action = {
   targetDate: string;
   achievedDate?: string;
   isArchived?: string;
+  targetValue?: string | null;
+  currentValue?: string | null;
+  measurementUnit?: string | null;
 };
 
 type User = {
@@ -235,6 +243,7 @@ function ErpRagLegend() {
 export default function Reports() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { hasCapability } = useRole();
   const isAdmin = user?.role === 'administrator';
   
   const [activeTab, setActiveTab] = useState(() => {
@@ -709,6 +718,20 @@ export default function Reports() {
     );
   }
 
+  if (!hasCapability('view_reports')) {
+    return (
+      <div className="min-h-screen flex" style={{ backgroundColor: '#F5F5F7' }}>
+        <Sidebar />
+        <main className="flex-1 p-8">
+          <div className="max-w-6xl mx-auto text-center py-16" data-testid="text-reports-unavailable">
+            <h1 className="text-2xl font-semibold mb-2" style={{ color: '#1D1D1F' }}>Reports</h1>
+            <p className="text-sm" style={{ color: '#86868B' }}>Your role does not include access to reports.</p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex" style={{ backgroundColor: '#F5F5F7' }}>
       <Sidebar />
@@ -971,6 +994,9 @@ export default function Reports() {
                 { value: 'timeline', icon: Calendar, label: 'Timeline Risk' },
                 { value: 'ownership', icon: Users, label: 'Ownership' },
                 { value: 'graph', icon: GitBranch, label: 'Graph' },
+                { value: 'metrics', icon: TrendingUp, label: 'Metric Trends' },
+                { value: 'variance', icon: Clock, label: 'Baseline Variance' },
+                { value: 'scenarios', icon: FlaskConical, label: 'Scenarios' },
                 { value: 'archived', icon: Archive, label: 'Archived Projects' },
                 { value: 'erp-matrix', icon: LayoutGrid, label: 'ERP Matrix' },
               ].map((tab) => {
@@ -1077,6 +1103,34 @@ export default function Reports() {
               />
             </TabsContent>
 
+            {/* Metric Trends Report */}
+            <TabsContent value="metrics" className="space-y-4">
+              <MetricTrendsReport
+                strategies={strategies}
+                projects={projects}
+                actions={actions}
+              />
+            </TabsContent>
+
+            {/* Baseline Variance Report */}
+            <TabsContent value="variance" className="space-y-4">
+              <BaselineVarianceReport
+                strategies={strategies}
+                isAdmin={isAdmin}
+                safeDate={safeDate}
+              />
+            </TabsContent>
+
+            {/* Scenario Sandbox */}
+            <TabsContent value="scenarios" className="space-y-4">
+              <ScenarioSandboxReport
+                strategies={strategies}
+                isAdmin={isAdmin}
+                canEdit={isAdmin || user?.role === 'co_lead'}
+                safeDate={safeDate}
+              />
+            </TabsContent>
+
             {/* Archived Projects Report */}
             <TabsContent value="archived" className="space-y-4">
               <ArchivedProjectsReport
@@ -3309,6 +3363,1051 @@ function GraphReport({ strategies, projects, actions, dependencies }: {
 }
 
 // Archived Projects Report Component
+function MetricTrendsReport({ strategies, projects, actions }: { strategies: Strategy[]; projects: Project[]; actions: Action[] }) {
+  const [selectedStrategyId, setSelectedStrategyId] = useState<string>("");
+  const strategyId = selectedStrategyId || strategies[0]?.id || "";
+
+  const { data: measurements = [] } = useQuery<Measurement[]>({
+    queryKey: ["/api/measurements"],
+  });
+
+  const measurementsByEntity = useMemo(() => {
+    const grouped = new Map<string, Measurement[]>();
+    measurements.forEach(m => {
+      const key = `${m.entityType}:${m.entityId}`;
+      grouped.set(key, [...(grouped.get(key) || []), m]);
+    });
+    return grouped;
+  }, [measurements]);
+
+  const kpiProjects = projects.filter(p =>
+    p.strategyId === strategyId && (p.kpi?.trim() || measurementsByEntity.has(`project:${p.id}`))
+  );
+  const targetActions = actions.filter(a =>
+    a.strategyId === strategyId && (a.targetValue?.trim() || measurementsByEntity.has(`action:${a.id}`))
+  );
+
+  return (
+    <Card data-testid="card-metric-trends">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <TrendingUp className="w-5 h-5 mr-2" />
+              Metric Trends
+            </CardTitle>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Recorded readings for project KPIs and action targets over time.
+            </p>
+          </div>
+          <Select value={strategyId} onValueChange={setSelectedStrategyId}>
+            <SelectTrigger className="w-64" data-testid="select-metrics-strategy">
+              <SelectValue placeholder="Select a strategy" />
+            </SelectTrigger>
+            <SelectContent>
+              {strategies.map(s => (
+                <SelectItem key={s.id} value={s.id}>{s.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {kpiProjects.length === 0 && targetActions.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            No project KPIs or action targets defined for this strategy.
+          </div>
+        ) : (
+          <>
+            {kpiProjects.length > 0 && (
+              <div className="space-y-3">
+                <h3 className="font-semibold text-gray-900 dark:text-white">Project KPIs</h3>
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                  {kpiProjects.map(project => (
+                    <div key={project.id} className="p-4 border rounded-lg dark:border-gray-700" data-testid={`metric-project-${project.id}`}>
+                      <div className="font-medium text-gray-900 dark:text-white">{project.title}</div>
+                      {project.kpi && (
+                        <div className="text-sm text-gray-500 dark:text-gray-400 mb-2">{project.kpi}</div>
+                      )}
+                      <MeasurementHistory entityType="project" entityId={project.id} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {targetActions.length > 0 && (
+              <div className="space-y-3">
+                <h3 className="font-semibold text-gray-900 dark:text-white">Action Targets</h3>
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                  {targetActions.map(action => {
+                    const target = action.targetValue ? parseFloat(action.targetValue) : NaN;
+                    return (
+                      <div key={action.id} className="p-4 border rounded-lg dark:border-gray-700" data-testid={`metric-action-${action.id}`}>
+                        <div className="flex items-center justify-between mb-2">
+                          <div className="font-medium text-gray-900 dark:text-white">{action.title}</div>
+                          {action.targetValue && (
+                            <Badge variant="outline">
+                              {action.currentValue || "—"} / {action.targetValue}{action.measurementUnit ? ` ${action.measurementUnit}` : ""}
+                            </Badge>
+                          )}
+                        </div>
+                        <MeasurementChart
+                          measurements={measurementsByEntity.get(`action:${action.id}`) || []}
+                          targetValue={isNaN(target) ? null : target}
+                          unit={action.measurementUnit}
+                          height={180}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+type BaselineSummary = {
+  id: string;
+  name: string;
+  description: string | null;
+  strategyId: string;
+  createdAt: string;
+  createdBy: string;
+};
+
+type ProjectVariance = {
+  projectId: string;
+  title: string;
+  change: 'added' | 'removed' | 'unchanged';
+  baselineStartDate: string | null;
+  currentStartDate: string | null;
+  startSlipDays: number | null;
+  baselineDueDate: string | null;
+  currentDueDate: string | null;
+  slipDays: number | null;
+  actionsAdded: { id: string; title: string }[];
+  actionsRemoved: { id: string; title: string }[];
+  actionsSlipped: { id: string; title: string; baselineDate: string | null; currentDate: string | null; slipDays: number }[];
+};
+
+type BaselineVariance = {
+  baseline: BaselineSummary;
+  projects: ProjectVariance[];
+  summary: {
+    projectsAdded: number;
+    projectsRemoved: number;
+    projectsSlipped: number;
+    maxSlipDays: number;
+    actionsAdded: number;
+    actionsRemoved: number;
+  };
+};
+
+function BaselineVarianceReport({ strategies, isAdmin, safeDate }: { strategies: Strategy[]; isAdmin: boolean; safeDate: (d: any) => Date | null }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedStrategyId, setSelectedStrategyId] = useState<string>("");
+  const [selectedBaselineId, setSelectedBaselineId] = useState<string>("");
+  const [expandedProjects, setExpandedProjects] = useState<Set<string>>(new Set());
+  const [captureOpen, setCaptureOpen] = useState(false);
+  const [baselineName, setBaselineName] = useState("");
+  const [baselineDescription, setBaselineDescription] = useState("");
+
+  const strategyId = selectedStrategyId || strategies[0]?.id || "";
+
+  const { data: baselines = [] } = useQuery<BaselineSummary[]>({
+    queryKey: ["/api/strategies", strategyId, "baselines"],
+    enabled: !!strategyId,
+  });
+
+  const baselineId = baselines.some(b => b.id === selectedBaselineId) ? selectedBaselineId : baselines[0]?.id || "";
+
+  const { data: variance, isLoading: varianceLoading } = useQuery<BaselineVariance>({
+    queryKey: ["/api/baselines", baselineId, "variance"],
+    enabled: !!baselineId,
+  });
+
+  const captureMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/strategies/${strategyId}/baselines`, {
+        name: baselineName.trim(),
+        description: baselineDescription.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: (baseline: BaselineSummary) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/strategies", strategyId, "baselines"] });
+      setSelectedBaselineId(baseline.id);
+      setCaptureOpen(false);
+      setBaselineName("");
+      setBaselineDescription("");
+      toast({
+        title: "Baseline Captured",
+        description: `"${baseline.name}" saved for this strategy.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to capture baseline",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/baselines/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/strategies", strategyId, "baselines"] });
+      setSelectedBaselineId("");
+      toast({
+        title: "Baseline Deleted",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete baseline",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleProject = (projectId: string) => {
+    setExpandedProjects(prev => {
+      const next = new Set(prev);
+      if (next.has(projectId)) next.delete(projectId);
+      else next.add(projectId);
+      return next;
+    });
+  };
+
+  const formatDate = (value: string | null) => {
+    const date = safeDate(value);
+    return date ? format(date, 'MMM d, yyyy') : '—';
+  };
+
+  const renderSlip = (days: number | null) => {
+    if (days === null) return <span className="text-gray-400">—</span>;
+    if (days === 0) return <span className="text-gray-500">On plan</span>;
+    return (
+      <span className={days > 0 ? "text-red-600 dark:text-red-400 font-medium" : "text-green-600 dark:text-green-400 font-medium"}>
+        {days > 0 ? `+${days}` : days} days
+      </span>
+    );
+  };
+
+  return (
+    <>
+      <Card data-testid="card-baseline-variance">
+        <CardHeader>
+          <div className="flex items-center justify-between flex-wrap gap-3">
+            <div>
+              <CardTitle className="flex items-center">
+                <Calendar className="w-5 h-5 mr-2" />
+                Baseline Variance
+              </CardTitle>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                Compare the current plan with a captured baseline: schedule slip and scope added or removed per project.
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={strategyId} onValueChange={(value) => { setSelectedStrategyId(value); setSelectedBaselineId(""); }}>
+                <SelectTrigger className="w-56" data-testid="select-variance-strategy">
+                  <SelectValue placeholder="Select a strategy" />
+                </SelectTrigger>
+                <SelectContent>
+                  {strategies.map(s => (
+                    <SelectItem key={s.id} value={s.id}>{s.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={baselineId} onValueChange={setSelectedBaselineId} disabled={baselines.length === 0}>
+                <SelectTrigger className="w-56" data-testid="select-variance-baseline">
+                  <SelectValue placeholder="No baselines yet" />
+                </SelectTrigger>
+                <SelectContent>
+                  {baselines.map(b => (
+                    <SelectItem key={b.id} value={b.id}>
+                      {b.name} ({format(new Date(b.createdAt), 'MMM d, yyyy')})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {isAdmin && (
+                <>
+                  <Button
+                    variant="outline"
+                    onClick={() => setCaptureOpen(true)}
+                    disabled={!strategyId}
+                    data-testid="button-capture-baseline"
+                  >
+                    Capture Baseline
+                  </Button>
+                  {baselineId && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(baselineId)}
+                      disabled={deleteMutation.isPending}
+                      data-testid="button-delete-baseline"
+                    >
+                      <XCircle className="w-4 h-4 text-red-500" />
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!baselineId ? (
+            <div className="text-center py-8 text-gray-500">
+              {isAdmin
+                ? "No baselines captured for this strategy yet. Capture one to start tracking variance."
+                : "No baselines captured for this strategy yet."}
+            </div>
+          ) : varianceLoading || !variance ? (
+            <div className="text-center py-8 text-gray-500">Calculating variance...</div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+                  <div className="text-xs text-gray-500">Projects Slipped</div>
+                  <div className="text-2xl font-bold" data-testid="text-variance-projects-slipped">{variance.summary.projectsSlipped}</div>
+                </div>
+                <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+                  <div className="text-xs text-gray-500">Largest Slip</div>
+                  <div className="text-2xl font-bold">{variance.summary.maxSlipDays} days</div>
+                </div>
+                <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+                  <div className="text-xs text-gray-500">Projects Added / Removed</div>
+                  <div className="text-2xl font-bold">+{variance.summary.projectsAdded} / -{variance.summary.projectsRemoved}</div>
+                </div>
+                <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+                  <div className="text-xs text-gray-500">Actions Added / Removed</div>
+                  <div className="text-2xl font-bold">+{variance.summary.actionsAdded} / -{variance.summary.actionsRemoved}</div>
+                </div>
+              </div>
+
+              <div className="border rounded-lg dark:border-gray-700 overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-800 text-left text-gray-600 dark:text-gray-400">
+                    <tr>
+                      <th className="p-3 font-medium">Project</th>
+                      <th className="p-3 font-medium">Baseline Due</th>
+                      <th className="p-3 font-medium">Current Due</th>
+                      <th className="p-3 font-medium">Slip</th>
+                      <th className="p-3 font-medium">Start Slip</th>
+                      <th className="p-3 font-medium">Scope</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {variance.projects.map(p => {
+                      const isExpanded = expandedProjects.has(p.projectId);
+                      const hasDetails = p.actionsAdded.length > 0 || p.actionsRemoved.length > 0 || p.actionsSlipped.length > 0;
+                      return (
+                        <Fragment key={p.projectId}>
+                          <tr
+                            className={`border-t dark:border-gray-700 ${hasDetails ? 'cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800/50' : ''}`}
+                            onClick={() => hasDetails && toggleProject(p.projectId)}
+                            data-testid={`row-variance-${p.projectId}`}
+                          >
+                            <td className="p-3">
+                              <div className="flex items-center gap-2">
+                                {hasDetails ? (
+                                  isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />
+                                ) : <span className="w-4" />}
+                                <span className="font-medium">{p.title}</span>
+                                {p.change === 'added' && <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">Added</Badge>}
+                                {p.change === 'removed' && <Badge className="bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300">Removed</Badge>}
+                              </div>
+                            </td>
+                            <td className="p-3">{formatDate(p.baselineDueDate)}</td>
+                            <td className="p-3">{formatDate(p.currentDueDate)}</td>
+                            <td className="p-3">{renderSlip(p.slipDays)}</td>
+                            <td className="p-3">{renderSlip(p.startSlipDays)}</td>
+                            <td className="p-3">
+                              {p.actionsAdded.length === 0 && p.actionsRemoved.length === 0 ? (
+                                <span className="text-gray-500">No change</span>
+                              ) : (
+                                <span>
+                                  <span className="text-blue-600 dark:text-blue-400">+{p.actionsAdded.length}</span>
+                                  {" / "}
+                                  <span className="text-red-600 dark:text-red-400">-{p.actionsRemoved.length}</span>
+                                  {" actions"}
+                                </span>
+                              )}
+                            </td>
+                          </tr>
+                          {isExpanded && (
+                            <tr className="bg-gray-50/50 dark:bg-gray-800/30">
+                              <td colSpan={6} className="px-10 py-3 space-y-2">
+                                {p.actionsSlipped.map(a => (
+                                  <div key={a.id} className="flex items-center gap-3">
+                                    <Clock className="w-4 h-4 text-amber-500" />
+                                    <span className="flex-1">{a.title}</span>
+                                    <span className="text-gray-500">{formatDate(a.baselineDate)} → {formatDate(a.currentDate)}</span>
+                                    {renderSlip(a.slipDays)}
+                                  </div>
+                                ))}
+                                {p.actionsAdded.map(a => (
+                                  <div key={a.id} className="flex items-center gap-3">
+                                    <ArrowUpRight className="w-4 h-4 text-blue-500" />
+                                    <span className="flex-1">{a.title}</span>
+                                    <span className="text-blue-600 dark:text-blue-400">Added since baseline</span>
+                                  </div>
+                                ))}
+                                {p.actionsRemoved.map(a => (
+                                  <div key={a.id} className="flex items-center gap-3">
+                                    <ArrowDownRight className="w-4 h-4 text-red-500" />
+                                    <span className="flex-1 line-through text-gray-500">{a.title}</span>
+                                    <span className="text-red-600 dark:text-red-400">Removed since baseline</span>
+                                  </div>
+                                ))}
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={captureOpen} onOpenChange={setCaptureOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Capture Baseline</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Saves the current start, due and planned dates of every project and action in this strategy.
+            </p>
+            <div className="space-y-2">
+              <label htmlFor="baseline-name" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Name
+              </label>
+              <Input
+                id="baseline-name"
+                value={baselineName}
+                onChange={(e) => setBaselineName(e.target.value)}
+                placeholder="e.g. FY26 approved plan"
+                data-testid="input-baseline-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="baseline-description" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Description (Optional)
+              </label>
+              <Input
+                id="baseline-description"
+                value={baselineDescription}
+                onChange={(e) => setBaselineDescription(e.target.value)}
+                data-testid="input-baseline-description"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setCaptureOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => captureMutation.mutate()}
+                disabled={!baselineName.trim() || captureMutation.isPending}
+                data-testid="button-confirm-capture-baseline"
+              >
+                {captureMutation.isPending ? "Capturing..." : "Capture"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+type ScenarioSummary = {
+  id: string;
+  strategyId: string;
+  name: string;
+  description: string | null;
+  status: 'draft' | 'promoted';
+  createdAt: string;
+  createdBy: string;
+  promotedAt: string | null;
+};
+
+type ScenarioActionComparison = {
+  id: string;
+  title: string;
+  dropped: boolean;
+  changed: boolean;
+  liveEnd: string | null;
+  scenarioEnd: string | null;
+  shiftDays: number | null;
+  liveDurationDays: number | null;
+  scenarioDurationDays: number;
+  liveCritical: boolean;
+  scenarioCritical: boolean;
+};
+
+type ScenarioProjectComparison = {
+  projectId: string;
+  title: string;
+  dropped: boolean;
+  changed: boolean;
+  liveStartDate: string | null;
+  scenarioStartDate: string | null;
+  startShiftDays: number | null;
+  liveDueDate: string | null;
+  scenarioDueDate: string | null;
+  dueShiftDays: number | null;
+  actions: ScenarioActionComparison[];
+};
+
+type ScenarioConflict = { entityType: 'project' | 'action'; id: string; title: string; field: string };
+
+type ScenarioComparison = {
+  scenario: ScenarioSummary;
+  live: { projectDurationDays: number; criticalTaskIds: string[] };
+  sandbox: { projectDurationDays: number; criticalTaskIds: string[] };
+  projects: ScenarioProjectComparison[];
+  conflicts: ScenarioConflict[];
+  summary: {
+    projectsChanged: number;
+    projectsDropped: number;
+    actionsChanged: number;
+    actionsDropped: number;
+    durationDeltaDays: number;
+  };
+};
+
+function ScenarioSandboxReport({ strategies, isAdmin, canEdit, safeDate }: { strategies: Strategy[]; isAdmin: boolean; canEdit: boolean; safeDate: (d: any) => Date | null }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedStrategyId, setSelectedStrategyId] = useState<string>("");
+  const [selectedScenarioId, setSelectedScenarioId] = useState<string>("");
+  const [expandedProjects, setExpandedProjects] = useState<Set<string>>(new Set());
+  const [shiftInputs, setShiftInputs] = useState<Record<string, string>>({});
+  const [createOpen, setCreateOpen] = useState(false);
+  const [scenarioName, setScenarioName] = useState("");
+  const [scenarioDescription, setScenarioDescription] = useState("");
+  const [promoteOpen, setPromoteOpen] = useState(false);
+
+  const strategyId = selectedStrategyId || strategies[0]?.id || "";
+
+  const { data: scenarios = [] } = useQuery<ScenarioSummary[]>({
+    queryKey: ["/api/strategies", strategyId, "scenarios"],
+    enabled: !!strategyId,
+  });
+
+  const scenarioId = scenarios.some(s => s.id === selectedScenarioId) ? selectedScenarioId : scenarios[0]?.id || "";
+
+  const { data: comparison, isLoading: comparisonLoading } = useQuery<ScenarioComparison>({
+    queryKey: ["/api/scenarios", scenarioId, "comparison"],
+    enabled: !!scenarioId,
+  });
+
+  const isDraft = comparison?.scenario.status === 'draft';
+  const editable = canEdit && isDraft;
+
+  const invalidateComparison = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/scenarios", scenarioId, "comparison"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/strategies/${strategyId}/scenarios`, {
+        name: scenarioName.trim(),
+        description: scenarioDescription.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: (scenario: ScenarioSummary) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/strategies", strategyId, "scenarios"] });
+      setSelectedScenarioId(scenario.id);
+      setCreateOpen(false);
+      setScenarioName("");
+      setScenarioDescription("");
+      toast({
+        title: "Scenario Created",
+        description: `"${scenario.name}" is a sandbox copy of the current plan.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create scenario",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/scenarios/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/strategies", strategyId, "scenarios"] });
+      setSelectedScenarioId("");
+      toast({
+        title: "Scenario Deleted",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete scenario",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const projectMutation = useMutation({
+    mutationFn: async ({ projectId, updates }: { projectId: string; updates: { shiftDays?: number; dropped?: boolean } }) => {
+      const response = await apiRequest("PATCH", `/api/scenarios/${scenarioId}/projects/${projectId}`, updates);
+      return response.json();
+    },
+    onSuccess: (_data, { projectId }) => {
+      setShiftInputs(prev => ({ ...prev, [projectId]: "" }));
+      invalidateComparison();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update the scenario",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ actionId, updates }: { actionId: string; updates: { durationDays?: number; dropped?: boolean } }) => {
+      const response = await apiRequest("PATCH", `/api/scenarios/${scenarioId}/actions/${actionId}`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateComparison();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update the scenario",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const promoteMutation = useMutation({
+    mutationFn: async (force: boolean) => {
+      const response = await apiRequest("POST", `/api/scenarios/${scenarioId}/promote`, { force });
+      return response.json();
+    },
+    onSuccess: (result: { projectsUpdated: number; actionsUpdated: number; projectsDropped: number; actionsDropped: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/strategies", strategyId, "scenarios"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/scenarios"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/actions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/strategies"] });
+      setPromoteOpen(false);
+      toast({
+        title: "Scenario Promoted",
+        description: `${result.projectsUpdated} projects and ${result.actionsUpdated} actions updated; ${result.projectsDropped} projects and ${result.actionsDropped} actions moved to the recycle bin.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to promote scenario",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleProject = (projectId: string) => {
+    setExpandedProjects(prev => {
+      const next = new Set(prev);
+      if (next.has(projectId)) next.delete(projectId);
+      else next.add(projectId);
+      return next;
+    });
+  };
+
+  const formatDate = (value: string | null) => {
+    const date = safeDate(value);
+    return date ? format(date, 'MMM d, yyyy') : '—';
+  };
+
+  const renderShift = (days: number | null) => {
+    if (days === null) return <span className="text-gray-400">—</span>;
+    if (days === 0) return <span className="text-gray-500">No change</span>;
+    return (
+      <span className={days > 0 ? "text-red-600 dark:text-red-400 font-medium" : "text-green-600 dark:text-green-400 font-medium"}>
+        {days > 0 ? `+${days}` : days} days
+      </span>
+    );
+  };
+
+  const applyShift = (projectId: string) => {
+    const days = parseInt(shiftInputs[projectId] || "", 10);
+    if (!isNaN(days) && days !== 0) {
+      projectMutation.mutate({ projectId, updates: { shiftDays: days } });
+    }
+  };
+
+  return (
+    <>
+      <Card data-testid="card-scenarios">
+        <CardHeader>
+          <div className="flex items-center justify-between flex-wrap gap-3">
+            <div>
+              <CardTitle className="flex items-center">
+                <FlaskConical className="w-5 h-5 mr-2" />
+                Scenarios
+              </CardTitle>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                Try a re-plan in a sandbox copy of the strategy: shift dates, drop projects and see the effect on the critical path before applying it.
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={strategyId} onValueChange={(value) => { setSelectedStrategyId(value); setSelectedScenarioId(""); }}>
+                <SelectTrigger className="w-56" data-testid="select-scenario-strategy">
+                  <SelectValue placeholder="Select a strategy" />
+                </SelectTrigger>
+                <SelectContent>
+                  {strategies.map(s => (
+                    <SelectItem key={s.id} value={s.id}>{s.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={scenarioId} onValueChange={setSelectedScenarioId} disabled={scenarios.length === 0}>
+                <SelectTrigger className="w-56" data-testid="select-scenario">
+                  <SelectValue placeholder="No scenarios yet" />
+                </SelectTrigger>
+                <SelectContent>
+                  {scenarios.map(s => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.name}{s.status === 'promoted' ? ' (promoted)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {canEdit && (
+                <>
+                  <Button
+                    variant="outline"
+                    onClick={() => setCreateOpen(true)}
+                    disabled={!strategyId}
+                    data-testid="button-create-scenario"
+                  >
+                    New Scenario
+                  </Button>
+                  {scenarioId && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(scenarioId)}
+                      disabled={deleteMutation.isPending}
+                      data-testid="button-delete-scenario"
+                    >
+                      <XCircle className="w-4 h-4 text-red-500" />
+                    </Button>
+                  )}
+                </>
+              )}
+              {isAdmin && isDraft && (
+                <Button
+                  onClick={() => setPromoteOpen(true)}
+                  disabled={!comparison || promoteMutation.isPending}
+                  data-testid="button-promote-scenario"
+                >
+                  Promote
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!scenarioId ? (
+            <div className="text-center py-8 text-gray-500">
+              {canEdit
+                ? "No scenarios for this strategy yet. Create one to start a what-if plan."
+                : "No scenarios for this strategy yet."}
+            </div>
+          ) : comparisonLoading || !comparison ? (
+            <div className="text-center py-8 text-gray-500">Comparing scenario...</div>
+          ) : (
+            <div className="space-y-4">
+              {comparison.scenario.status === 'promoted' && (
+                <div className="flex items-center gap-2 p-3 rounded-lg bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-300 text-sm">
+                  <CheckCircle className="w-4 h-4" />
+                  Promoted to the live plan
+                  {comparison.scenario.promotedAt && ` on ${format(new Date(comparison.scenario.promotedAt), 'MMM d, yyyy')}`}.
+                  The sandbox is now read-only.
+                </div>
+              )}
+              {isDraft && comparison.conflicts.length > 0 && (
+                <div className="flex items-center gap-2 p-3 rounded-lg bg-amber-50 text-amber-800 dark:bg-amber-900/20 dark:text-amber-300 text-sm" data-testid="text-scenario-conflicts">
+                  <AlertTriangle className="w-4 h-4" />
+                  {comparison.conflicts.length} edited {comparison.conflicts.length === 1 ? 'item has' : 'items have'} also changed in the live plan since this scenario was created.
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+                  <div className="text-xs text-gray-500">Critical Path (Live → Sandbox)</div>
+                  <div className="text-2xl font-bold" data-testid="text-scenario-duration">
+                    {comparison.live.projectDurationDays} → {comparison.sandbox.projectDurationDays} days
+                  </div>
+                  <div className="text-xs mt-1">{renderShift(comparison.summary.durationDeltaDays)}</div>
+                </div>
+                <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+                  <div className="text-xs text-gray-500">Critical Tasks (Live → Sandbox)</div>
+                  <div className="text-2xl font-bold">
+                    {comparison.live.criticalTaskIds.length} → {comparison.sandbox.criticalTaskIds.length}
+                  </div>
+                </div>
+                <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+                  <div className="text-xs text-gray-500">Projects Changed / Dropped</div>
+                  <div className="text-2xl font-bold">{comparison.summary.projectsChanged} / {comparison.summary.projectsDropped}</div>
+                </div>
+                <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+                  <div className="text-xs text-gray-500">Actions Changed / Dropped</div>
+                  <div className="text-2xl font-bold">{comparison.summary.actionsChanged} / {comparison.summary.actionsDropped}</div>
+                </div>
+              </div>
+
+              <div className="border rounded-lg dark:border-gray-700 overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-800 text-left text-gray-600 dark:text-gray-400">
+                    <tr>
+                      <th className="p-3 font-medium">Project</th>
+                      <th className="p-3 font-medium">Live Due</th>
+                      <th className="p-3 font-medium">Sandbox Due</th>
+                      <th className="p-3 font-medium">Shift</th>
+                      {editable && <th className="p-3 font-medium">Sandbox Edits</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparison.projects.map(p => {
+                      const isExpanded = expandedProjects.has(p.projectId);
+                      return (
+                        <Fragment key={p.projectId}>
+                          <tr
+                            className={`border-t dark:border-gray-700 ${p.actions.length > 0 ? 'cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800/50' : ''}`}
+                            onClick={() => p.actions.length > 0 && toggleProject(p.projectId)}
+                            data-testid={`row-scenario-${p.projectId}`}
+                          >
+                            <td className="p-3">
+                              <div className="flex items-center gap-2">
+                                {p.actions.length > 0 ? (
+                                  isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />
+                                ) : <span className="w-4" />}
+                                <span className={`font-medium ${p.dropped ? 'line-through text-gray-500' : ''}`}>{p.title}</span>
+                                {p.dropped && <Badge className="bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300">Dropped</Badge>}
+                                {!p.dropped && p.changed && <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">Changed</Badge>}
+                              </div>
+                            </td>
+                            <td className="p-3">{formatDate(p.liveDueDate)}</td>
+                            <td className="p-3">{formatDate(p.scenarioDueDate)}</td>
+                            <td className="p-3">{renderShift(p.dueShiftDays)}</td>
+                            {editable && (
+                              <td className="p-3" onClick={(e) => e.stopPropagation()}>
+                                <div className="flex items-center gap-2">
+                                  {!p.dropped && (
+                                    <>
+                                      <Input
+                                        type="number"
+                                        placeholder="± days"
+                                        className="w-24 h-8"
+                                        value={shiftInputs[p.projectId] ?? ""}
+                                        onChange={(e) => setShiftInputs(prev => ({ ...prev, [p.projectId]: e.target.value }))}
+                                        onKeyDown={(e) => e.key === 'Enter' && applyShift(p.projectId)}
+                                        data-testid={`input-scenario-shift-${p.projectId}`}
+                                      />
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => applyShift(p.projectId)}
+                                        disabled={projectMutation.isPending}
+                                        data-testid={`button-scenario-shift-${p.projectId}`}
+                                      >
+                                        Shift
+                                      </Button>
+                                    </>
+                                  )}
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => projectMutation.mutate({ projectId: p.projectId, updates: { dropped: !p.dropped } })}
+                                    disabled={projectMutation.isPending}
+                                    data-testid={`button-scenario-drop-${p.projectId}`}
+                                  >
+                                    {p.dropped ? <RotateCcw className="w-4 h-4" /> : <XCircle className="w-4 h-4 text-red-500" />}
+                                  </Button>
+                                </div>
+                              </td>
+                            )}
+                          </tr>
+                          {isExpanded && (
+                            <tr className="bg-gray-50/50 dark:bg-gray-800/30">
+                              <td colSpan={editable ? 5 : 4} className="px-10 py-3 space-y-2">
+                                {p.actions.map(a => (
+                                  <div key={a.id} className="flex items-center gap-3" data-testid={`row-scenario-action-${a.id}`}>
+                                    <span className={`flex-1 ${a.dropped ? 'line-through text-gray-500' : ''}`}>{a.title}</span>
+                                    {(a.liveCritical || a.scenarioCritical) && (
+                                      <Badge className="bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300">
+                                        {a.liveCritical && a.scenarioCritical ? 'Critical' : a.scenarioCritical ? 'Becomes critical' : 'Leaves critical path'}
+                                      </Badge>
+                                    )}
+                                    <span className="text-gray-500">{formatDate(a.liveEnd)} → {formatDate(a.scenarioEnd)}</span>
+                                    {renderShift(a.shiftDays)}
+                                    {editable && !p.dropped ? (
+                                      <>
+                                        <Input
+                                          type="number"
+                                          min={1}
+                                          className="w-20 h-8"
+                                          defaultValue={a.scenarioDurationDays}
+                                          onBlur={(e) => {
+                                            const days = parseInt(e.target.value, 10);
+                                            if (!isNaN(days) && days >= 1 && days !== a.scenarioDurationDays) {
+                                              actionMutation.mutate({ actionId: a.id, updates: { durationDays: days } });
+                                            }
+                                          }}
+                                          title="Duration (days)"
+                                          data-testid={`input-scenario-duration-${a.id}`}
+                                        />
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          onClick={() => actionMutation.mutate({ actionId: a.id, updates: { dropped: !a.dropped } })}
+                                          disabled={actionMutation.isPending}
+                                          data-testid={`button-scenario-drop-action-${a.id}`}
+                                        >
+                                          {a.dropped ? <RotateCcw className="w-4 h-4" /> : <XCircle className="w-4 h-4 text-red-500" />}
+                                        </Button>
+                                      </>
+                                    ) : (
+                                      <span className="text-gray-500 w-20 text-right">{a.scenarioDurationDays}d</span>
+                                    )}
+                                  </div>
+                                ))}
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Scenario</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Copies the strategy's projects, actions, workstreams and task dependencies into a sandbox. Nothing in the live plan changes until the scenario is promoted.
+            </p>
+            <div className="space-y-2">
+              <label htmlFor="scenario-name" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Name
+              </label>
+              <Input
+                id="scenario-name"
+                value={scenarioName}
+                onChange={(e) => setScenarioName(e.target.value)}
+                placeholder="e.g. Delay go-live by one quarter"
+                data-testid="input-scenario-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="scenario-description" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Description (Optional)
+              </label>
+              <Input
+                id="scenario-description"
+                value={scenarioDescription}
+                onChange={(e) => setScenarioDescription(e.target.value)}
+                data-testid="input-scenario-description"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setCreateOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={!scenarioName.trim() || createMutation.isPending}
+                data-testid="button-confirm-create-scenario"
+              >
+                {createMutation.isPending ? "Creating..." : "Create"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={promoteOpen} onOpenChange={setPromoteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Promote Scenario</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Applies the sandbox changes to the live strategy. Dropped projects and actions are moved to the recycle bin.
+            </p>
+            {comparison && comparison.conflicts.length > 0 && (
+              <div className="space-y-1 text-sm">
+                <div className="font-medium text-amber-700 dark:text-amber-400">
+                  These live changes will be overwritten:
+                </div>
+                <ul className="list-disc pl-5 text-gray-700 dark:text-gray-300">
+                  {comparison.conflicts.map(c => (
+                    <li key={`${c.entityType}-${c.id}-${c.field}`}>
+                      {c.title}: {c.field === 'removed' ? `${c.entityType} no longer in the live plan` : c.field.replace(/([A-Z])/g, ' $1').toLowerCase()}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setPromoteOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => promoteMutation.mutate((comparison?.conflicts.length ?? 0) > 0)}
+                disabled={promoteMutation.isPending}
+                data-testid="button-confirm-promote-scenario"
+              >
+                {promoteMutation.isPending ? "Promoting..." : "Promote"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
 function ArchivedProjectsReport({ strategies, users, safeDate }: { strategies: Strategy[]; users: User[]; safeDate: (d: any) => Date | null }) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -3390,6 +4489,18 @@ function ArchivedProjectsReport({ strategies, users, safeDate }: { strategies: S
     return date && isPast(date);
   };
 
+  // Parked projects still waiting for their wake-up date, soonest first
+  const upcomingWakeUps = archivedProjects
+    .filter((project: any) => project.wakeUpDate && !isWakeUpDatePast(project.wakeUpDate))
+    .sort((a: any, b: any) => safeDate(a.wakeUpDate)!.getTime() - safeDate(b.wakeUpDate)!.getTime());
+
+  const formatWakeUpCountdown = (wakeUpDate: string) => {
+    const days = differenceInDays(safeDate(wakeUpDate)!, new Date());
+    if (days <= 0) return 'today';
+    if (days === 1) return 'tomorrow';
+    return `in ${days} days`;
+  };
+
   if (isLoading) {
     return (
       <Card data-testid="card-archived-projects">
@@ -3429,6 +4540,38 @@ function ArchivedProjectsReport({ strategies, users, safeDate }: { strategies: S
             </div>
           ) : (
             <div className="space-y-3">
+              {upcomingWakeUps.length > 0 && (
+                <div
+                  className="border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4"
+                  data-testid="upcoming-wake-ups"
+                >
+                  <h3 className="flex items-center text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">
+                    <Calendar className="w-4 h-4 mr-2" />
+                    Upcoming Wake-ups
+                  </h3>
+                  <div className="space-y-1">
+                    {upcomingWakeUps.map((project: any) => (
+                      <div
+                        key={project.id}
+                        className="flex items-center justify-between gap-4 text-sm"
+                        data-testid={`upcoming-wake-up-${project.id}`}
+                      >
+                        <div className="flex items-center gap-2 min-w-0">
+                          <div
+                            className="w-2 h-2 rounded-full flex-shrink-0"
+                            style={{ backgroundColor: getStrategyColor(project.strategyId) }}
+                          />
+                          <span className="truncate text-gray-700 dark:text-gray-300">{project.title}</span>
+                        </div>
+                        <span className="flex-shrink-0 text-xs text-gray-500 dark:text-gray-400">
+                          {format(safeDate(project.wakeUpDate)!, 'MMM d, yyyy')} ({formatWakeUpCountdown(project.wakeUpDate)})
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {archivedProjects.map((project: any) => {
                 const wakeUpPast = isWakeUpDatePast(project.wakeUpDate);
                 
@@ -26,6 +26,7 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -62,23 +63,33 @@ import {
   CalendarDays,
   Star,
   LayoutGrid,
+  RotateCcw,
+  Webhook,
+  AlertTriangle,
+  MessageSquare,
+  Smartphone,
+  KeyRound,
+  ShieldCheck,
 } from "lucide-react";
-import type { TemplateType, Organization, ExecutiveGoal, TeamTag, PtoEntry, Holiday } from "@shared/schema";
+import { notificationChannels, type TemplateType, type Organization, type ExecutiveGoal, type TeamTag, type PtoEntry, type Holiday, type RecycleBinItem, type NotificationChannel, type ReminderOffsets, type ProjectWakeUpAction, type WebhookSubscription, type WebhookDelivery, type WebhookEvent, escalationRuleEntityTypes, escalationRuleFields, escalationRecipients, decisionEscalationLevels, barrierSeverities, type EscalationRule, type EscalationRuleExecution, type EscalationRuleEntityType, type EscalationCondition, type EscalationConditionOperator, type EscalationAction, type EscalationRecipient, chatProviders, type ChatChannel, type ChatProvider, type TwoFactorMethod, type TwoFactorPolicy, type OidcConfiguration, type OidcRoleMapping, type OidcTeamTagMapping, type SsoRole, type ApiToken, type ApiTokenScope, type UserStrategyAssignment, type StrategyRole, cloneableRoles, type CloneableRole, type CustomRole, type PermissionCapability } from "@shared/schema";
 import { Pencil, X, Hash } from "lucide-react";
+import { AuthenticatorEnrollment, RecoveryCodesList, postAuth } from "@/components/auth/authenticator-enrollment";
 
 interface UserStrategyRowProps {
   user: any;
   strategies: any[];
   currentUserId: string;
   teamTags: TeamTag[];
+  customRoles: CustomRoleView[];
   onRoleChange: (userId: string, newRole: string) => void;
   onStrategyToggle: (userId: string, strategyId: string, isAssigned: boolean) => void;
+  onStrategyRoleChange: (userId: string, strategyId: string, role: StrategyRole | null) => void;
   onDelete: (userId: string, userName: string) => void;
   onCapacityUpdate: (userId: string, fte: string, salary: number | null, serviceDeliveryHours: string) => void;
   onTeamTagsUpdate: (userId: string, tagIds: string[], primaryTagId?: string) => void;
 }
 
-function UserStrategyRow({ user, strategies, currentUserId, teamTags, onRoleChange, onStrategyToggle, onDelete, onCapacityUpdate, onTeamTagsUpdate }: UserStrategyRowProps) {
+function UserStrategyRow({ user, strategies, currentUserId, teamTags, customRoles, onRoleChange, onStrategyToggle, onStrategyRoleChange, onDelete, onCapacityUpdate, onTeamTagsUpdate }: UserStrategyRowProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isCapacityOpen, setIsCapacityOpen] = useState(false);
@@ -112,7 +123,9 @@ function UserStrategyRow({ user, strategies, currentUserId, teamTags, onRoleChan
     }
   }, [userTeamTagAssignments]);
   
-  const { data: userAssignments } = useQuery({
+  const customRole = customRoles.find(role => role.id === user.customRoleId);
+
+  const { data: userAssignments } = useQuery<UserStrategyAssignment[]>({
     queryKey: [`/api/users/${user.id}/strategy-assignments`],
     enabled: user.role !== 'administrator',
   });
@@ -120,10 +133,15 @@ function UserStrategyRow({ user, strategies, currentUserId, teamTags, onRoleChan
   const assignedStrategyIds = React.useMemo(() => {
     if (user.role === 'administrator') return [];
     // Deduplicate strategy IDs to prevent counting duplicates
-    const strategyIds = (userAssignments as any[] || []).map((a: any) => a.strategyId);
+    const strategyIds = (userAssignments || []).map(a => a.strategyId);
     return Array.from(new Set(strategyIds));
   }, [userAssignments, user.role]);
 
+  // Per-strategy overrides of the user's global role
+  const strategyRoleById = React.useMemo(() => {
+    return new Map((userAssignments || []).filter(a => a.role).map(a => [a.strategyId, a.role as StrategyRole]));
+  }, [userAssignments]);
+
   const assignedCount = user.role === 'administrator' 
     ? strategies?.length || 0 
     : assignedStrategyIds.length;
@@ -170,10 +188,10 @@ function UserStrategyRow({ user, strategies, currentUserId, teamTags, onRoleChan
                   ? 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200'
                   : 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
           }>
-            {user.role === 'administrator' ? 'Administrator' : user.role === 'co_lead' ? 'Co-Lead' : user.role === 'sme' ? 'SME' : 'View'}
+            {customRole ? customRole.name : user.role === 'administrator' ? 'Administrator' : user.role === 'co_lead' ? 'Co-Lead' : user.role === 'sme' ? 'SME' : 'View'}
           </Badge>
           <Select 
-            value={user.role} 
+            value={customRole ? `custom:${customRole.id}` : user.role} 
             onValueChange={(value) => onRoleChange(user.id, value)}
           >
             <SelectTrigger className="w-32" data-testid={`select-admin-user-role-${user.id}`}>
@@ -184,6 +202,9 @@ function UserStrategyRow({ user, strategies, currentUserId, teamTags, onRoleChan
               <SelectItem value="co_lead">Co-Lead</SelectItem>
               <SelectItem value="view">View</SelectItem>
               <SelectItem value="sme">SME (No Login)</SelectItem>
+              {customRoles.map(role => (
+                <SelectItem key={role.id} value={`custom:${role.id}`}>{role.name}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
           
@@ -398,7 +419,7 @@ function UserStrategyRow({ user, strategies, currentUserId, teamTags, onRoleChan
                   <div>
                     <h4 className="font-medium text-sm mb-2">Select Strategies</h4>
                     <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
-                      Choose which strategies this user can access
+                      Choose which strategies this user can access, and optionally a different role on each
                     </p>
                   </div>
                   <div className="space-y-2 max-h-64 overflow-y-auto">
@@ -425,6 +446,21 @@ function UserStrategyRow({ user, strategies, currentUserId, teamTags, onRoleChan
                             />
                             <span>{strategy.title}</span>
                           </label>
+                          {isAssigned && (
+                            <Select
+                              value={strategyRoleById.get(strategy.id) ?? 'default'}
+                              onValueChange={(value) => onStrategyRoleChange(user.id, strategy.id, value === 'default' ? null : value as StrategyRole)}
+                            >
+                              <SelectTrigger className="h-7 w-28 text-xs" data-testid={`select-strategy-role-${strategy.id}-${user.id}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="default">Default ({user.role === 'co_lead' ? 'Co-Lead' : 'View'})</SelectItem>
+                                <SelectItem value="co_lead">Co-Lead</SelectItem>
+                                <SelectItem value="view">View</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          )}
                         </div>
                       );
                     })}
@@ -443,8 +479,14 @@ function UserStrategyRow({ user, strategies, currentUserId, teamTags, onRoleChan
                     variant="secondary"
                     className="text-xs"
                     style={{ borderLeft: `3px solid ${strategy.colorCode}` }}
+                    data-testid={`badge-assigned-strategy-${strategy.id}-${user.id}`}
                   >
                     {strategy.title}
+                    {strategyRoleById.has(strategy.id) && (
+                      <span className="ml-1 text-gray-500 dark:text-gray-400">
+                        · {strategyRoleById.get(strategy.id) === 'co_lead' ? 'Co-Lead' : 'View'}
+                      </span>
+                    )}
                   </Badge>
                 ))}
             </div>
@@ -465,12 +507,21 @@ function TwoFactorSettings() {
   const [isSending, setIsSending] = useState(false);
   const [isVerifying, setIsVerifying] = useState(false);
   const [maskedEmail, setMaskedEmail] = useState<string | null>(null);
+  const [method, setMethod] = useState<TwoFactorMethod | null>(null);
+  const [recoveryCodesRemaining, setRecoveryCodesRemaining] = useState<number | null>(null);
+  const [totpRequired, setTotpRequired] = useState(false);
+  const [isTotpSetupMode, setIsTotpSetupMode] = useState(false);
+  const [isRegenerateMode, setIsRegenerateMode] = useState(false);
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   React.useEffect(() => {
     fetch2FAStatus();
   }, []);
 
+  const usesAuthenticator = isEnabled && method === 'totp';
+
   const fetch2FAStatus = async () => {
     setIsLoading(true);
     try {
@@ -483,6 +534,9 @@ function TwoFactorSettings() {
         const data = await response.json();
         setIsEnabled(data.enabled);
         setMaskedEmail(data.email);
+        setMethod(data.method);
+        setRecoveryCodesRemaining(data.recoveryCodesRemaining);
+        setTotpRequired(data.totpRequired);
       }
     } catch (error) {
       console.error("Failed to fetch 2FA status", error);
@@ -596,6 +650,36 @@ function TwoFactorSettings() {
     }
   };
 
+  const regenerateRecoveryCodes = async () => {
+    setIsVerifying(true);
+    try {
+      const data = await postAuth<{ recoveryCodes: string[] }>("/api/auth/2fa/recovery-codes", { password });
+      setNewRecoveryCodes(data.recoveryCodes);
+      setPassword("");
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to generate recovery codes",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const finishTotpSetup = () => {
+    setIsTotpSetupMode(false);
+    fetch2FAStatus();
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+  };
+
+  const finishRegenerate = () => {
+    setIsRegenerateMode(false);
+    setNewRecoveryCodes(null);
+    setPassword("");
+    fetch2FAStatus();
+  };
+
   const cancelSetup = () => {
     setIsSetupMode(false);
     setVerificationCode("");
@@ -634,17 +718,67 @@ function TwoFactorSettings() {
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        {!isSetupMode && !isDisableMode ? (
+        {isTotpSetupMode ? (
+          <div className="p-4 border rounded-lg bg-blue-50 dark:bg-blue-900/20">
+            <AuthenticatorEnrollment onComplete={finishTotpSetup} onCancel={() => setIsTotpSetupMode(false)} />
+          </div>
+        ) : isRegenerateMode ? (
+          <div className="p-4 border rounded-lg bg-blue-50 dark:bg-blue-900/20">
+            {newRecoveryCodes ? (
+              <RecoveryCodesList codes={newRecoveryCodes} onDone={finishRegenerate} />
+            ) : (
+              <>
+                <p className="text-sm mb-4">
+                  New recovery codes replace all of your current ones. Enter your password to continue.
+                </p>
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="2fa-recovery-password">Password</Label>
+                    <Input
+                      id="2fa-recovery-password"
+                      type="password"
+                      placeholder="Enter your password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      data-testid="input-recovery-codes-password"
+                    />
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button
+                      onClick={regenerateRecoveryCodes}
+                      disabled={isVerifying || !password}
+                      data-testid="button-confirm-recovery-codes"
+                    >
+                      {isVerifying ? (
+                        <>
+                          <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                          Generating...
+                        </>
+                      ) : (
+                        'Generate New Codes'
+                      )}
+                    </Button>
+                    <Button variant="outline" onClick={finishRegenerate} data-testid="button-cancel-recovery-codes">
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        ) : !isSetupMode && !isDisableMode ? (
           <>
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium">
-                  {isEnabled ? 'Enabled' : 'Not enabled'}
+                  {!isEnabled ? 'Not enabled' : usesAuthenticator ? 'Enabled with an authenticator app' : 'Enabled with email codes'}
                 </p>
                 <p className="text-sm text-gray-500">
-                  {isEnabled 
-                    ? `Verification codes are sent to ${maskedEmail || 'your email'}` 
-                    : 'Add an extra layer of security to your account'
+                  {!isEnabled
+                    ? 'Add an extra layer of security to your account'
+                    : usesAuthenticator
+                      ? `${recoveryCodesRemaining ?? 0} unused recovery code${recoveryCodesRemaining === 1 ? '' : 's'} left`
+                      : `Verification codes are sent to ${maskedEmail || 'your email'}`
                   }
                 </p>
               </div>
@@ -653,34 +787,58 @@ function TwoFactorSettings() {
               </Badge>
             </div>
 
-            {isEnabled ? (
-              <Button 
-                variant="outline" 
-                onClick={() => setIsDisableMode(true)}
-                className="text-red-600 border-red-300 hover:bg-red-50 dark:text-red-400 dark:border-red-700 dark:hover:bg-red-950"
-                data-testid="button-disable-2fa"
-              >
-                Disable Two-Factor Authentication
-              </Button>
-            ) : (
-              <Button 
-                onClick={startSetup}
-                disabled={isSending}
-                data-testid="button-enable-2fa"
-              >
-                {isSending ? (
-                  <>
-                    <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
-                    Sending code...
-                  </>
-                ) : (
-                  <>
-                    <Shield className="mr-2 h-4 w-4" />
-                    Enable Two-Factor Authentication
-                  </>
-                )}
-              </Button>
+            {totpRequired && !usesAuthenticator && (
+              <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-900/20">
+                <p className="text-sm text-amber-800 dark:text-amber-200">
+                  Your organization requires administrators to use an authenticator app.
+                </p>
+              </div>
             )}
+
+            <div className="flex flex-wrap gap-2">
+              {!usesAuthenticator && (
+                <Button onClick={() => setIsTotpSetupMode(true)} data-testid="button-setup-totp">
+                  <Smartphone className="mr-2 h-4 w-4" />
+                  {isEnabled ? 'Switch to Authenticator App' : 'Set Up Authenticator App'}
+                </Button>
+              )}
+              {usesAuthenticator && (
+                <Button variant="outline" onClick={() => setIsRegenerateMode(true)} data-testid="button-regenerate-recovery-codes">
+                  <KeyRound className="mr-2 h-4 w-4" />
+                  New Recovery Codes
+                </Button>
+              )}
+              {!isEnabled && !totpRequired && (
+                <Button 
+                  variant="outline"
+                  onClick={startSetup}
+                  disabled={isSending}
+                  data-testid="button-enable-2fa"
+                >
+                  {isSending ? (
+                    <>
+                      <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                      Sending code...
+                    </>
+                  ) : (
+                    <>
+                      <Shield className="mr-2 h-4 w-4" />
+                      Use Email Codes
+                    </>
+                  )}
+                </Button>
+              )}
+              {isEnabled && !totpRequired && (
+                <Button 
+                  variant="outline" 
+                  onClick={() => setIsDisableMode(true)}
+                  className="text-red-600 border-red-300 hover:bg-red-50 dark:text-red-400 dark:border-red-700 dark:hover:bg-red-950"
+                  data-testid="button-disable-2fa"
+                >
+                  Disable Two-Factor Authentication
+                </Button>
+              )}
+            </div>
           </>
         ) : isSetupMode ? (
           <>
@@ -769,7 +927,8 @@ function TwoFactorSettings() {
 
         <div className="pt-4 border-t dark:border-gray-700">
           <p className="text-xs text-gray-500">
-            When enabled, you'll be asked to enter a verification code sent to your email each time you sign in.
+            When enabled, you'll be asked for a code from your authenticator app, or one sent to your email, each time you sign in.
+            Authenticator apps keep working when email is delayed or unavailable.
           </p>
         </div>
       </CardContent>
@@ -1093,164 +1252,3211 @@ function HolidaysSettings() {
     }
   };
 
-  const startEdit = (holiday: Holiday) => {
-    setEditingHoliday(holiday);
-    setHolidayDate(new Date(holiday.date).toISOString().split('T')[0]);
-    setHolidayName(holiday.name);
-    setHolidayDescription(holiday.description || "");
-    setIsAddingHoliday(true);
-  };
+  const startEdit = (holiday: Holiday) => {
+    setEditingHoliday(holiday);
+    setHolidayDate(new Date(holiday.date).toISOString().split('T')[0]);
+    setHolidayName(holiday.name);
+    setHolidayDescription(holiday.description || "");
+    setIsAddingHoliday(true);
+  };
+
+  const formatDate = (date: Date | string) => {
+    return new Date(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+  };
+
+  return (
+    <Card data-testid="card-holidays">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center">
+            <Star className="mr-2 h-5 w-5 text-yellow-500" />
+            Holidays
+          </div>
+          {!isAddingHoliday && (
+            <Button size="sm" onClick={() => setIsAddingHoliday(true)} data-testid="button-add-holiday">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Holiday
+            </Button>
+          )}
+        </CardTitle>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Organization-wide holidays appear on all team members' calendars with a gold star.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isAddingHoliday && (
+          <form onSubmit={handleSubmit} className="p-4 border rounded-lg bg-gray-50 dark:bg-gray-800 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="holiday-date">Date</Label>
+                <Input
+                  id="holiday-date"
+                  type="date"
+                  value={holidayDate}
+                  onChange={(e) => setHolidayDate(e.target.value)}
+                  data-testid="input-holiday-date"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="holiday-name">Holiday Name</Label>
+                <Input
+                  id="holiday-name"
+                  value={holidayName}
+                  onChange={(e) => setHolidayName(e.target.value)}
+                  placeholder="e.g., New Year's Day, Independence Day"
+                  data-testid="input-holiday-name"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="holiday-description">Description (optional)</Label>
+              <Input
+                id="holiday-description"
+                value={holidayDescription}
+                onChange={(e) => setHolidayDescription(e.target.value)}
+                placeholder="e.g., Office closed"
+                data-testid="input-holiday-description"
+              />
+            </div>
+            <div className="flex space-x-2">
+              <Button
+                type="submit"
+                disabled={createHolidayMutation.isPending || updateHolidayMutation.isPending}
+                data-testid="button-save-holiday"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {editingHoliday ? 'Update' : 'Save'}
+              </Button>
+              <Button type="button" variant="outline" onClick={resetForm} data-testid="button-cancel-holiday">
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="text-center text-gray-500 py-4">Loading...</div>
+        ) : holidays.length === 0 ? (
+          <div className="text-center text-gray-500 py-8">
+            <Star className="h-12 w-12 mx-auto mb-2 opacity-50 text-yellow-400" />
+            <p>No holidays scheduled</p>
+            <p className="text-sm">Click "Add Holiday" to add organization-wide holidays</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {holidays.map((holiday) => (
+              <div
+                key={holiday.id}
+                className="flex items-center justify-between p-3 border rounded-lg bg-white dark:bg-gray-700"
+                data-testid={`holiday-entry-${holiday.id}`}
+              >
+                <div className="flex items-center space-x-3">
+                  <Star className="h-5 w-5 text-yellow-500" />
+                  <div>
+                    <p className="font-medium">{holiday.name}</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      {formatDate(holiday.date)}
+                    </p>
+                    {holiday.description && (
+                      <p className="text-sm text-gray-400 dark:text-gray-500">{holiday.description}</p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex space-x-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => startEdit(holiday)}
+                    data-testid={`button-edit-holiday-${holiday.id}`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                        data-testid={`button-delete-holiday-${holiday.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete Holiday</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Are you sure you want to delete "{holiday.name}"?
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => deleteHolidayMutation.mutate(holiday.id)}
+                          className="bg-red-600 hover:bg-red-700"
+                        >
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RecycleBinSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [retentionInput, setRetentionInput] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<{ items: RecycleBinItem[]; retentionDays: number }>({
+    queryKey: ['/api/admin/recycle-bin'],
+  });
+  const { data: users = [] } = useQuery<any[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const items = data?.items ?? [];
+  const retentionDays = data?.retentionDays ?? 30;
+
+  const invalidateAll = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/recycle-bin'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/strategies'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/actions'] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (item: RecycleBinItem) => {
+      await apiRequest("POST", `/api/admin/recycle-bin/${item.type}/${item.id}/restore`);
+    },
+    onSuccess: () => {
+      toast({ title: "Restored", description: "The item and anything deleted with it have been restored." });
+      invalidateAll();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to restore item", variant: "destructive" });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (item: RecycleBinItem) => {
+      await apiRequest("DELETE", `/api/admin/recycle-bin/${item.type}/${item.id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Deleted", description: "The item has been permanently deleted." });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/recycle-bin'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete item", variant: "destructive" });
+    },
+  });
+
+  const retentionMutation = useMutation({
+    mutationFn: async (days: number) => {
+      const response = await apiRequest("PATCH", "/api/admin/recycle-bin/settings", { retentionDays: days });
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Retention period updated" });
+      setRetentionInput(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/recycle-bin'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update retention period", variant: "destructive" });
+    },
+  });
+
+  const userName = (id: string | null) => {
+    const user = users.find((u: any) => u.id === id);
+    if (!user) return "Unknown user";
+    return user.firstName && user.lastName ? `${user.firstName} ${user.lastName}` : user.email;
+  };
+
+  const typeLabel = { strategy: "Priority", project: "Project", action: "Action" } as const;
+
+  const describeChildren = (item: RecycleBinItem) => {
+    const parts = [];
+    if (item.childProjects > 0) parts.push(`${item.childProjects} project${item.childProjects === 1 ? "" : "s"}`);
+    if (item.childActions > 0) parts.push(`${item.childActions} action${item.childActions === 1 ? "" : "s"}`);
+    return parts.length > 0 ? `Includes ${parts.join(" and ")}` : null;
+  };
+
+  const daysLeft = (item: RecycleBinItem) => {
+    const purgeAt = new Date(item.deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000;
+    return Math.max(0, Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)));
+  };
+
+  const parsedRetention = retentionInput === null ? retentionDays : parseInt(retentionInput, 10);
+  const retentionValid = Number.isInteger(parsedRetention) && parsedRetention >= 1 && parsedRetention <= 365;
+
+  return (
+    <Card data-testid="card-recycle-bin">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Trash2 className="mr-2 h-5 w-5" />
+          Recycle Bin
+        </CardTitle>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Deleted priorities, projects and actions are kept here until the retention period ends, then permanently removed.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end gap-2 p-4 border rounded-lg">
+          <div className="space-y-2">
+            <Label htmlFor="recycle-bin-retention">Retention period (days)</Label>
+            <Input
+              id="recycle-bin-retention"
+              type="number"
+              min={1}
+              max={365}
+              className="w-32"
+              value={retentionInput ?? String(retentionDays)}
+              onChange={(e) => setRetentionInput(e.target.value)}
+              data-testid="input-recycle-bin-retention"
+            />
+          </div>
+          <Button
+            onClick={() => retentionMutation.mutate(parsedRetention)}
+            disabled={retentionInput === null || !retentionValid || retentionMutation.isPending}
+            data-testid="button-save-recycle-bin-retention"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            Save
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center text-gray-500 py-4">Loading...</div>
+        ) : items.length === 0 ? (
+          <div className="text-center text-gray-500 py-8">
+            <Trash2 className="h-12 w-12 mx-auto mb-2 opacity-50" />
+            <p>The recycle bin is empty</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {items.map((item) => (
+              <div
+                key={`${item.type}-${item.id}`}
+                className="flex items-center justify-between p-3 border rounded-lg bg-white dark:bg-gray-700"
+                data-testid={`recycle-bin-item-${item.id}`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{typeLabel[item.type]}</Badge>
+                    <p className="font-medium truncate">{item.title}</p>
+                  </div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                    Deleted by {userName(item.deletedBy)} on {new Date(item.deletedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                    {` · purged in ${daysLeft(item)} day${daysLeft(item) === 1 ? "" : "s"}`}
+                  </p>
+                  {describeChildren(item) && (
+                    <p className="text-xs text-gray-400 dark:text-gray-500">{describeChildren(item)}</p>
+                  )}
+                </div>
+                <div className="flex space-x-1 flex-shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restoreMutation.mutate(item)}
+                    disabled={restoreMutation.isPending}
+                    data-testid={`button-restore-${item.id}`}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Restore
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                        data-testid={`button-purge-${item.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete Permanently</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Are you sure you want to permanently delete "{item.title}"? This action cannot be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => purgeMutation.mutate(item)}
+                          className="bg-red-600 hover:bg-red-700"
+                        >
+                          Delete Permanently
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+type WebhookSubscriptionView = Omit<WebhookSubscription, "secret" | "events"> & { events: WebhookEvent[] };
+
+function WebhookSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<{ id?: string; name: string; url: string; events: WebhookEvent[] } | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<{ name: string; secret: string } | null>(null);
+  const [secretCopied, setSecretCopied] = useState(false);
+  const [deliveryFilter, setDeliveryFilter] = useState<string>("all");
+
+  const { data, isLoading } = useQuery<{ subscriptions: WebhookSubscriptionView[]; events: WebhookEvent[] }>({
+    queryKey: ['/api/admin/webhooks'],
+  });
+  const deliveriesUrl = deliveryFilter === "all"
+    ? '/api/admin/webhook-deliveries'
+    : `/api/admin/webhook-deliveries?subscriptionId=${deliveryFilter}`;
+  const { data: deliveries = [] } = useQuery<WebhookDelivery[]>({
+    queryKey: [deliveriesUrl],
+  });
+
+  const subscriptions = data?.subscriptions ?? [];
+  const availableEvents = data?.events ?? [];
+
+  const invalidateDeliveries = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/admin/webhook-deliveries') });
+  };
+
+  const showSecret = (subscription: { name: string; secret: string }) => {
+    setRevealedSecret({ name: subscription.name, secret: subscription.secret });
+    setSecretCopied(false);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: NonNullable<typeof editing>) => {
+      const body = { name: values.name.trim(), url: values.url.trim(), events: values.events };
+      const response = values.id
+        ? await apiRequest("PATCH", `/api/admin/webhooks/${values.id}`, body)
+        : await apiRequest("POST", "/api/admin/webhooks", body);
+      return await response.json();
+    },
+    onSuccess: (subscription) => {
+      toast({ title: "Success", description: editing?.id ? "Webhook updated" : "Webhook created" });
+      if (subscription.secret) showSecret(subscription);
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/webhooks'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save webhook", variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      await apiRequest("PATCH", `/api/admin/webhooks/${id}`, { isActive: isActive ? 'true' : 'false' });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/webhooks'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update webhook", variant: "destructive" });
+    },
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/admin/webhooks/${id}/rotate-secret`);
+      return await response.json();
+    },
+    onSuccess: (subscription) => {
+      showSecret(subscription);
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to rotate secret", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/webhooks/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Deleted", description: "The webhook and its delivery log have been deleted." });
+      setDeliveryFilter("all");
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/webhooks'] });
+      invalidateDeliveries();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete webhook", variant: "destructive" });
+    },
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/admin/webhook-deliveries/${id}/replay`);
+      return await response.json() as WebhookDelivery;
+    },
+    onSuccess: (delivery) => {
+      toast({
+        title: "Delivery replayed",
+        description: delivery.status === 'succeeded' ? "The receiver accepted the event." : "The receiver did not accept the event; it will be retried.",
+      });
+      invalidateDeliveries();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to replay delivery", variant: "destructive" });
+    },
+  });
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    if (!editing) return;
+    setEditing({
+      ...editing,
+      events: checked ? [...editing.events, event] : editing.events.filter(e => e !== event),
+    });
+  };
+
+  const copySecret = async () => {
+    if (!revealedSecret) return;
+    await navigator.clipboard.writeText(revealedSecret.secret);
+    setSecretCopied(true);
+  };
+
+  const subscriptionName = (id: string) => subscriptions.find(s => s.id === id)?.name ?? "Deleted webhook";
+
+  const statusBadge = (status: string) => {
+    const className = status === 'succeeded'
+      ? "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300"
+      : status === 'failed'
+        ? "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300"
+        : "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300";
+    return <Badge variant="outline" className={className}>{status}</Badge>;
+  };
+
+  const editingValid = !!editing && editing.name.trim().length > 0 && /^https?:\/\//.test(editing.url.trim()) && editing.events.length > 0;
+
+  return (
+    <>
+      <Card data-testid="card-webhooks">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center">
+              <Webhook className="mr-2 h-5 w-5" />
+              Webhooks
+            </span>
+            {!editing && (
+              <Button size="sm" onClick={() => setEditing({ name: "", url: "", events: [] })} data-testid="button-add-webhook">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Webhook
+              </Button>
+            )}
+          </CardTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Send signed JSON events to other systems when priorities, projects, actions, barriers, decisions and gates change.
+            Each request carries an X-LeaderOS-Signature header: an HMAC-SHA256 of "timestamp.body" using the webhook's secret.
+            Failed deliveries are retried with increasing delays for about half an hour.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {revealedSecret && (
+            <div className="p-4 border rounded-lg bg-yellow-50 dark:bg-yellow-900/20 space-y-2" data-testid="webhook-secret">
+              <p className="text-sm font-medium">Signing secret for {revealedSecret.name}</p>
+              <p className="text-xs text-gray-600 dark:text-gray-400">Copy it now. It will not be shown again.</p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 text-xs p-2 rounded bg-white dark:bg-gray-800 break-all">{revealedSecret.secret}</code>
+                <Button variant="outline" size="sm" onClick={copySecret} data-testid="button-copy-webhook-secret">
+                  {secretCopied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setRevealedSecret(null)} data-testid="button-dismiss-webhook-secret">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {editing && (
+            <div className="p-4 border rounded-lg space-y-4" data-testid="form-webhook">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="webhook-name">Name</Label>
+                  <Input
+                    id="webhook-name"
+                    value={editing.name}
+                    onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                    placeholder="Data warehouse"
+                    data-testid="input-webhook-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="webhook-url">Endpoint URL</Label>
+                  <Input
+                    id="webhook-url"
+                    value={editing.url}
+                    onChange={(e) => setEditing({ ...editing, url: e.target.value })}
+                    placeholder="https://example.com/hooks/leaderos"
+                    data-testid="input-webhook-url"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Events</Label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                  {availableEvents.map((event) => (
+                    <div key={event} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`webhook-event-${event}`}
+                        checked={editing.events.includes(event)}
+                        onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                        data-testid={`checkbox-webhook-event-${event}`}
+                      />
+                      <Label htmlFor={`webhook-event-${event}`} className="text-sm font-mono">{event}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setEditing(null)} data-testid="button-cancel-webhook">
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => editing && saveMutation.mutate(editing)}
+                  disabled={!editingValid || saveMutation.isPending}
+                  data-testid="button-save-webhook"
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  Save
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="text-center text-gray-500 py-4">Loading...</div>
+          ) : subscriptions.length === 0 ? (
+            <div className="text-center text-gray-500 py-8">
+              <Webhook className="h-12 w-12 mx-auto mb-2 opacity-50" />
+              <p>No webhooks yet</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {subscriptions.map((subscription) => (
+                <div
+                  key={subscription.id}
+                  className="flex items-center justify-between p-3 border rounded-lg bg-white dark:bg-gray-700"
+                  data-testid={`webhook-${subscription.id}`}
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{subscription.name}</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{subscription.url}</p>
+                    <p className="text-xs text-gray-400 dark:text-gray-500">
+                      {subscription.events.length} event{subscription.events.length === 1 ? "" : "s"}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    <Switch
+                      checked={subscription.isActive === 'true'}
+                      onCheckedChange={(checked) => toggleMutation.mutate({ id: subscription.id, isActive: checked })}
+                      data-testid={`switch-webhook-active-${subscription.id}`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditing({ id: subscription.id, name: subscription.name, url: subscription.url, events: subscription.events })}
+                      data-testid={`button-edit-webhook-${subscription.id}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => rotateMutation.mutate(subscription.id)}
+                      disabled={rotateMutation.isPending}
+                      title="Rotate signing secret"
+                      data-testid={`button-rotate-webhook-secret-${subscription.id}`}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          data-testid={`button-delete-webhook-${subscription.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Webhook</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to delete "{subscription.name}"? Its delivery log will be deleted too.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteMutation.mutate(subscription.id)}
+                            className="bg-red-600 hover:bg-red-700"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-webhook-deliveries">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center">
+              <FileText className="mr-2 h-5 w-5" />
+              Delivery Log
+            </span>
+            <Select value={deliveryFilter} onValueChange={setDeliveryFilter}>
+              <SelectTrigger className="w-56" data-testid="select-webhook-delivery-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All webhooks</SelectItem>
+                {subscriptions.map((subscription) => (
+                  <SelectItem key={subscription.id} value={subscription.id}>{subscription.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {deliveries.length === 0 ? (
+            <div className="text-center text-gray-500 py-8">
+              <p>No deliveries yet</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {deliveries.map((delivery) => (
+                <div
+                  key={delivery.id}
+                  className="flex items-start justify-between p-3 border rounded-lg bg-white dark:bg-gray-700"
+                  data-testid={`webhook-delivery-${delivery.id}`}
+                >
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      {statusBadge(delivery.status)}
+                      <span className="font-mono text-sm">{delivery.event}</span>
+                      {delivery.replayOf && <Badge variant="outline">replay</Badge>}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {subscriptionName(delivery.subscriptionId)}
+                      {delivery.createdAt && ` · ${new Date(delivery.createdAt).toLocaleString()}`}
+                      {` · ${delivery.attempts} attempt${delivery.attempts === 1 ? "" : "s"}`}
+                      {delivery.responseStatus !== null && ` · HTTP ${delivery.responseStatus}`}
+                      {delivery.status === 'pending' && delivery.nextAttemptAt && ` · next attempt ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`}
+                    </p>
+                    {delivery.error && (
+                      <p className="text-xs text-red-600 dark:text-red-400 break-all">{delivery.error}</p>
+                    )}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex-shrink-0"
+                    onClick={() => replayMutation.mutate(delivery.id)}
+                    disabled={replayMutation.isPending}
+                    data-testid={`button-replay-delivery-${delivery.id}`}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Replay
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
+
+type EscalationRuleView = Omit<EscalationRule, "conditions" | "actions"> & { conditions: EscalationCondition[]; actions: EscalationAction[] };
+type EscalationRuleDraft = { id?: string; name: string; entityType: EscalationRuleEntityType; conditions: EscalationCondition[]; actions: EscalationAction[] };
+type EscalationPreviewMatch = { entityId: string; title: string; facts: Record<string, string | number | null>; alreadyActed: boolean; recipientCount: number };
+
+const escalationEntityLabels: Record<EscalationRuleEntityType, string> = {
+  barrier: "Barriers",
+  decision: "Decisions",
+  project: "Projects",
+  action: "Actions",
+};
+
+const escalationOperatorLabels: Record<EscalationConditionOperator, string> = {
+  eq: "is",
+  neq: "is not",
+  gte: "is at least",
+  lte: "is at most",
+};
+
+const escalationRecipientLabels: Record<EscalationRecipient, string> = {
+  owners: "Owners",
+  accountable_leaders: "Project accountable leaders",
+  administrators: "Administrators",
+};
+
+const defaultEscalationCondition = (entityType: EscalationRuleEntityType): EscalationCondition => {
+  const field = escalationRuleFields[entityType][0];
+  return field.kind === "enum"
+    ? { field: field.key, operator: "eq", value: field.options[0] }
+    : { field: field.key, operator: "gte", value: 0 };
+};
+
+const describeEscalationCondition = (entityType: EscalationRuleEntityType, condition: EscalationCondition) => {
+  const field = escalationRuleFields[entityType].find(f => f.key === condition.field);
+  return `${field?.label ?? condition.field} ${escalationOperatorLabels[condition.operator]} ${condition.value}`;
+};
+
+const describeEscalationAction = (action: EscalationAction) => {
+  switch (action.type) {
+    case "notify": return `Notify ${action.recipients.map(r => escalationRecipientLabels[r].toLowerCase()).join(", ")}`;
+    case "set_escalation_level": return `Escalate to ${action.level.replace(/_/g, " ")}`;
+    case "set_severity": return `Set severity to ${action.severity}`;
+  }
+};
+
+function EscalationRuleSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<EscalationRuleDraft | null>(null);
+  const [preview, setPreview] = useState<EscalationPreviewMatch[] | null>(null);
+
+  const { data: rules = [], isLoading } = useQuery<EscalationRuleView[]>({
+    queryKey: ['/api/admin/escalation-rules'],
+  });
+  const { data: executions = [] } = useQuery<EscalationRuleExecution[]>({
+    queryKey: ['/api/admin/escalation-rule-executions'],
+  });
+
+  const invalidateRules = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/escalation-rules'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/escalation-rule-executions'] });
+  };
+
+  const editDraft = (next: EscalationRuleDraft | null) => {
+    setDraft(next);
+    setPreview(null);
+  };
+
+  const draftBody = (values: EscalationRuleDraft) => ({
+    name: values.name.trim(),
+    entityType: values.entityType,
+    conditions: values.conditions,
+    actions: values.actions,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: EscalationRuleDraft) => {
+      const response = values.id
+        ? await apiRequest("PATCH", `/api/admin/escalation-rules/${values.id}`, draftBody(values))
+        : await apiRequest("POST", "/api/admin/escalation-rules", draftBody(values));
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: draft?.id ? "Escalation rule updated" : "Escalation rule created" });
+      editDraft(null);
+      invalidateRules();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save escalation rule", variant: "destructive" });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (values: EscalationRuleDraft) => {
+      const response = await apiRequest("POST", "/api/admin/escalation-rules/preview", { ...draftBody(values), name: values.name.trim() || "Preview", ruleId: values.id });
+      return await response.json() as { matches: EscalationPreviewMatch[] };
+    },
+    onSuccess: (result) => setPreview(result.matches),
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to preview escalation rule", variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      await apiRequest("PATCH", `/api/admin/escalation-rules/${id}`, { isActive: isActive ? 'true' : 'false' });
+    },
+    onSuccess: invalidateRules,
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update escalation rule", variant: "destructive" });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/admin/escalation-rules/${id}/run`);
+      return await response.json() as { actedOn: number };
+    },
+    onSuccess: (result) => {
+      toast({ title: "Rule run", description: `Acted on ${result.actedOn} item${result.actedOn === 1 ? "" : "s"}.` });
+      invalidateRules();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to run escalation rule", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/escalation-rules/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Deleted", description: "The escalation rule and its log have been deleted." });
+      invalidateRules();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete escalation rule", variant: "destructive" });
+    },
+  });
+
+  const updateCondition = (index: number, condition: EscalationCondition) => {
+    if (!draft) return;
+    editDraft({ ...draft, conditions: draft.conditions.map((c, i) => i === index ? condition : c) });
+  };
+
+  const updateAction = (index: number, action: EscalationAction) => {
+    if (!draft) return;
+    editDraft({ ...draft, actions: draft.actions.map((a, i) => i === index ? action : a) });
+  };
+
+  const changeEntityType = (entityType: EscalationRuleEntityType) => {
+    if (!draft) return;
+    editDraft({
+      ...draft,
+      entityType,
+      conditions: [defaultEscalationCondition(entityType)],
+      actions: draft.actions.filter(a => a.type === "notify"),
+    });
+  };
+
+  const availableActionTypes = (entityType: EscalationRuleEntityType): EscalationAction["type"][] => [
+    "notify",
+    ...(entityType === "decision" ? ["set_escalation_level" as const] : []),
+    ...(entityType === "barrier" ? ["set_severity" as const] : []),
+  ];
+
+  const newAction = (type: EscalationAction["type"]): EscalationAction => {
+    switch (type) {
+      case "notify": return { type, recipients: ["owners"] };
+      case "set_escalation_level": return { type, level: "steering_committee" };
+      case "set_severity": return { type, severity: "high" };
+    }
+  };
+
+  const draftValid = !!draft && draft.name.trim().length > 0 && draft.conditions.length > 0 && draft.actions.length > 0
+    && draft.actions.every(a => a.type !== "notify" || a.recipients.length > 0);
+
+  const ruleName = (id: string) => rules.find(r => r.id === id)?.name ?? "Deleted rule";
+
+  return (
+    <>
+      <Card data-testid="card-escalation-rules">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center">
+              <AlertTriangle className="mr-2 h-5 w-5" />
+              Escalation Rules
+            </span>
+            {!draft && (
+              <Button
+                size="sm"
+                onClick={() => editDraft({ name: "", entityType: "barrier", conditions: [defaultEscalationCondition("barrier")], actions: [newAction("notify")] })}
+                data-testid="button-add-escalation-rule"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rule
+              </Button>
+            )}
+          </CardTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Rules are checked every hour against live barriers, decisions, projects and actions. When every condition holds,
+            the rule's actions run once for that item and are recorded in the log below. Owners are the barrier owner,
+            the decision's accountable people, or the people assigned to the project or action.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {draft && (
+            <div className="p-4 border rounded-lg space-y-4" data-testid="form-escalation-rule">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="escalation-rule-name">Name</Label>
+                  <Input
+                    id="escalation-rule-name"
+                    value={draft.name}
+                    onChange={(e) => editDraft({ ...draft, name: e.target.value })}
+                    placeholder="Stale high-severity barriers"
+                    data-testid="input-escalation-rule-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Applies to</Label>
+                  <Select value={draft.entityType} onValueChange={(value) => changeEntityType(value as EscalationRuleEntityType)}>
+                    <SelectTrigger data-testid="select-escalation-rule-entity">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {escalationRuleEntityTypes.map((type) => (
+                        <SelectItem key={type} value={type}>{escalationEntityLabels[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>When all of these hold</Label>
+                {draft.conditions.map((condition, index) => {
+                  const fields = escalationRuleFields[draft.entityType];
+                  const field = fields.find(f => f.key === condition.field) ?? fields[0];
+                  const operators = field.kind === "enum" ? (["eq", "neq"] as const) : (["gte", "lte", "eq"] as const);
+                  return (
+                    <div key={index} className="flex flex-wrap items-center gap-2" data-testid={`escalation-condition-${index}`}>
+                      <Select
+                        value={condition.field}
+                        onValueChange={(key) => {
+                          const next = fields.find(f => f.key === key)!;
+                          updateCondition(index, next.kind === "enum"
+                            ? { field: key, operator: "eq", value: next.options[0] }
+                            : { field: key, operator: "gte", value: 0 });
+                        }}
+                      >
+                        <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {fields.map((f) => <SelectItem key={f.key} value={f.key}>{f.label}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                      <Select value={condition.operator} onValueChange={(operator) => updateCondition(index, { ...condition, operator: operator as EscalationConditionOperator })}>
+                        <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {operators.map((op) => <SelectItem key={op} value={op}>{escalationOperatorLabels[op]}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                      {field.kind === "enum" ? (
+                        <Select value={String(condition.value)} onValueChange={(value) => updateCondition(index, { ...condition, value })}>
+                          <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {field.options.map((option) => <SelectItem key={option} value={option}>{option.replace(/_/g, " ")}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Input
+                          type="number"
+                          className="w-28"
+                          value={String(condition.value)}
+                          onChange={(e) => updateCondition(index, { ...condition, value: Number(e.target.value) })}
+                        />
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => editDraft({ ...draft, conditions: draft.conditions.filter((_, i) => i !== index) })}
+                        disabled={draft.conditions.length === 1}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => editDraft({ ...draft, conditions: [...draft.conditions, defaultEscalationCondition(draft.entityType)] })}
+                  disabled={draft.conditions.length >= 10}
+                  data-testid="button-add-escalation-condition"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Condition
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Then</Label>
+                {draft.actions.map((action, index) => (
+                  <div key={index} className="flex flex-wrap items-center gap-2 p-2 border rounded-md" data-testid={`escalation-action-${index}`}>
+                    <Select value={action.type} onValueChange={(type) => updateAction(index, newAction(type as EscalationAction["type"]))}>
+                      <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {availableActionTypes(draft.entityType).map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {type === "notify" ? "Notify" : type === "set_escalation_level" ? "Set escalation level" : "Set severity"}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {action.type === "notify" && (
+                      <>
+                        {escalationRecipients.map((recipient) => (
+                          <div key={recipient} className="flex items-center gap-1">
+                            <Checkbox
+                              id={`escalation-action-${index}-${recipient}`}
+                              checked={action.recipients.includes(recipient)}
+                              onCheckedChange={(checked) => updateAction(index, {
+                                ...action,
+                                recipients: checked === true ? [...action.recipients, recipient] : action.recipients.filter(r => r !== recipient),
+                              })}
+                            />
+                            <Label htmlFor={`escalation-action-${index}-${recipient}`} className="text-sm">{escalationRecipientLabels[recipient]}</Label>
+                          </div>
+                        ))}
+                        <Input
+                          className="flex-1 min-w-48"
+                          value={action.message ?? ""}
+                          onChange={(e) => updateAction(index, { ...action, message: e.target.value })}
+                          placeholder="Optional message"
+                        />
+                      </>
+                    )}
+                    {action.type === "set_escalation_level" && (
+                      <Select value={action.level} onValueChange={(level) => updateAction(index, { ...action, level: level as typeof action.level })}>
+                        <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {decisionEscalationLevels.map((level) => <SelectItem key={level} value={level}>{level.replace(/_/g, " ")}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    {action.type === "set_severity" && (
+                      <Select value={action.severity} onValueChange={(severity) => updateAction(index, { ...action, severity: severity as typeof action.severity })}>
+                        <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {barrierSeverities.map((severity) => <SelectItem key={severity} value={severity}>{severity}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => editDraft({ ...draft, actions: draft.actions.filter((_, i) => i !== index) })}
+                      disabled={draft.actions.length === 1}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => editDraft({ ...draft, actions: [...draft.actions, newAction("notify")] })}
+                  disabled={draft.actions.length >= 5}
+                  data-testid="button-add-escalation-action"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Action
+                </Button>
+              </div>
+
+              {preview && (
+                <div className="p-3 rounded-md bg-gray-50 dark:bg-gray-800 space-y-2" data-testid="escalation-rule-preview">
+                  <p className="text-sm font-medium">
+                    {preview.length === 0
+                      ? "No items match right now."
+                      : `${preview.length} item${preview.length === 1 ? "" : "s"} match right now; ${preview.filter(m => !m.alreadyActed).length} would be acted on.`}
+                  </p>
+                  {preview.slice(0, 20).map((match) => (
+                    <div key={match.entityId} className="flex items-center justify-between text-sm">
+                      <span className="truncate">{match.title}</span>
+                      <span className="flex items-center gap-2 flex-shrink-0 text-xs text-gray-500">
+                        {draft.actions.some(a => a.type === "notify") && `${match.recipientCount} to notify`}
+                        {match.alreadyActed && <Badge variant="outline">already acted on</Badge>}
+                      </span>
+                    </div>
+                  ))}
+                  {preview.length > 20 && <p className="text-xs text-gray-500">and {preview.length - 20} more</p>}
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => editDraft(null)} data-testid="button-cancel-escalation-rule">
+                  Cancel
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => previewMutation.mutate(draft)}
+                  disabled={!draftValid || previewMutation.isPending}
+                  data-testid="button-preview-escalation-rule"
+                >
+                  {previewMutation.isPending ? "Checking..." : "Dry Run"}
+                </Button>
+                <Button
+                  onClick={() => saveMutation.mutate(draft)}
+                  disabled={!draftValid || saveMutation.isPending}
+                  data-testid="button-save-escalation-rule"
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  Save
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="text-center text-gray-500 py-4">Loading...</div>
+          ) : rules.length === 0 ? (
+            <div className="text-center text-gray-500 py-8">
+              <AlertTriangle className="h-12 w-12 mx-auto mb-2 opacity-50" />
+              <p>No escalation rules yet</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className="flex items-center justify-between p-3 border rounded-lg bg-white dark:bg-gray-700"
+                  data-testid={`escalation-rule-${rule.id}`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{escalationEntityLabels[rule.entityType]}</Badge>
+                      <p className="font-medium truncate">{rule.name}</p>
+                    </div>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                      When {rule.conditions.map(c => describeEscalationCondition(rule.entityType, c)).join(" and ")}
+                    </p>
+                    <p className="text-xs text-gray-400 dark:text-gray-500">
+                      {rule.actions.map(describeEscalationAction).join("; ")}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    <Switch
+                      checked={rule.isActive === 'true'}
+                      onCheckedChange={(checked) => toggleMutation.mutate({ id: rule.id, isActive: checked })}
+                      data-testid={`switch-escalation-rule-active-${rule.id}`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => editDraft({ id: rule.id, name: rule.name, entityType: rule.entityType, conditions: rule.conditions, actions: rule.actions })}
+                      data-testid={`button-edit-escalation-rule-${rule.id}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => runMutation.mutate(rule.id)}
+                      disabled={runMutation.isPending}
+                      title="Run now"
+                      data-testid={`button-run-escalation-rule-${rule.id}`}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          data-testid={`button-delete-escalation-rule-${rule.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Escalation Rule</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to delete "{rule.name}"? Its execution log will be deleted too.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteMutation.mutate(rule.id)}
+                            className="bg-red-600 hover:bg-red-700"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-escalation-log">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <FileText className="mr-2 h-5 w-5" />
+            Execution Log
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {executions.length === 0 ? (
+            <div className="text-center text-gray-500 py-8">
+              <p>No rule has acted yet</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {executions.map((execution) => (
+                <div
+                  key={execution.id}
+                  className="p-3 border rounded-lg bg-white dark:bg-gray-700"
+                  data-testid={`escalation-execution-${execution.id}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Badge
+                      variant="outline"
+                      className={execution.status === 'succeeded'
+                        ? "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300"
+                        : "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300"}
+                    >
+                      {execution.status}
+                    </Badge>
+                    <span className="font-medium truncate">{execution.entityTitle}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {ruleName(execution.ruleId)}
+                    {execution.createdAt && ` · ${new Date(execution.createdAt).toLocaleString()}`}
+                    {` · ${execution.summary}`}
+                  </p>
+                  {execution.error && (
+                    <p className="text-xs text-red-600 dark:text-red-400 break-all">{execution.error}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
+
+type ChatChannelView = Omit<ChatChannel, "webhookUrl" | "notificationTypes"> & { webhookUrlHint: string; notificationTypes: string[] };
+type ChatChannelDraft = {
+  id?: string;
+  name: string;
+  provider: ChatProvider;
+  webhookUrl: string;
+  strategyId: string | null;
+  notificationTypes: string[];
+  quietHoursStart: string;
+  quietHoursEnd: string;
+  timezone: string;
+};
+
+const chatProviderLabels: Record<ChatProvider, string> = {
+  slack: "Slack",
+  teams: "Microsoft Teams",
+  google_chat: "Google Chat",
+};
+
+function ChatChannelSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<ChatChannelDraft | null>(null);
+
+  const { data, isLoading } = useQuery<{ channels: ChatChannelView[]; types: { type: string; label: string; group: string }[] }>({
+    queryKey: ['/api/admin/chat-channels'],
+  });
+  const { data: strategies = [] } = useQuery<any[]>({
+    queryKey: ['/api/strategies'],
+  });
+
+  const channels = data?.channels ?? [];
+  const types = data?.types ?? [];
+  const typeGroups = Array.from(new Set(types.map(t => t.group)));
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: ChatChannelDraft) => {
+      const body = {
+        name: values.name.trim(),
+        provider: values.provider,
+        // Left blank while editing keeps the stored URL
+        ...(values.webhookUrl.trim() ? { webhookUrl: values.webhookUrl.trim() } : {}),
+        strategyId: values.strategyId,
+        notificationTypes: values.notificationTypes,
+        quietHoursStart: values.quietHoursStart || null,
+        quietHoursEnd: values.quietHoursEnd || null,
+        timezone: values.timezone.trim() || "UTC",
+      };
+      const response = values.id
+        ? await apiRequest("PATCH", `/api/admin/chat-channels/${values.id}`, body)
+        : await apiRequest("POST", "/api/admin/chat-channels", body);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: draft?.id ? "Chat channel updated" : "Chat channel added" });
+      setDraft(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/chat-channels'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save chat channel", variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      await apiRequest("PATCH", `/api/admin/chat-channels/${id}`, { isActive: isActive ? 'true' : 'false' });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/chat-channels'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update chat channel", variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/admin/chat-channels/${id}/test`);
+    },
+    onSuccess: () => {
+      toast({ title: "Test message sent", description: "Check the channel for the message." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Test failed", description: error.message || "Failed to send test message", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/chat-channels/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Deleted", description: "The chat channel has been removed." });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/chat-channels'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete chat channel", variant: "destructive" });
+    },
+  });
+
+  const toggleType = (type: string, checked: boolean) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      notificationTypes: checked ? [...draft.notificationTypes, type] : draft.notificationTypes.filter(t => t !== type),
+    });
+  };
+
+  const strategyName = (id: string | null) => id ? strategies.find((s: any) => s.id === id)?.title ?? "Unknown strategy" : "All strategies";
+
+  const draftValid = !!draft && draft.name.trim().length > 0
+    && (!!draft.id || /^https?:\/\//.test(draft.webhookUrl.trim()))
+    && !draft.quietHoursStart === !draft.quietHoursEnd;
+
+  return (
+    <Card data-testid="card-chat-channels">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <MessageSquare className="mr-2 h-5 w-5" />
+            Chat Channels
+          </span>
+          {!draft && (
+            <Button
+              size="sm"
+              onClick={() => setDraft({
+                name: "", provider: "slack", webhookUrl: "", strategyId: null, notificationTypes: [],
+                quietHoursStart: "", quietHoursEnd: "", timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+              })}
+              data-testid="button-add-chat-channel"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Channel
+            </Button>
+          )}
+        </CardTitle>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Post notifications to a Slack, Microsoft Teams or Google Chat channel through its incoming-webhook URL.
+          A channel can cover every strategy or just one. Messages raised during quiet hours are posted when they end.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {draft && (
+          <div className="p-4 border rounded-lg space-y-4" data-testid="form-chat-channel">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="chat-channel-name">Name</Label>
+                <Input
+                  id="chat-channel-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="#leadership"
+                  data-testid="input-chat-channel-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Service</Label>
+                <Select value={draft.provider} onValueChange={(value) => setDraft({ ...draft, provider: value as ChatProvider })}>
+                  <SelectTrigger data-testid="select-chat-channel-provider">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {chatProviders.map((provider) => (
+                      <SelectItem key={provider} value={provider}>{chatProviderLabels[provider]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="chat-channel-url">Incoming webhook URL</Label>
+                <Input
+                  id="chat-channel-url"
+                  value={draft.webhookUrl}
+                  onChange={(e) => setDraft({ ...draft, webhookUrl: e.target.value })}
+                  placeholder={draft.id ? "Leave blank to keep the current URL" : "https://hooks.slack.com/services/..."}
+                  data-testid="input-chat-channel-url"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Strategy</Label>
+                <Select value={draft.strategyId ?? "all"} onValueChange={(value) => setDraft({ ...draft, strategyId: value === "all" ? null : value })}>
+                  <SelectTrigger data-testid="select-chat-channel-strategy">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All strategies</SelectItem>
+                    {strategies.map((strategy: any) => (
+                      <SelectItem key={strategy.id} value={strategy.id}>{strategy.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Quiet hours</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="time"
+                    className="w-32"
+                    value={draft.quietHoursStart}
+                    onChange={(e) => setDraft({ ...draft, quietHoursStart: e.target.value })}
+                    data-testid="input-chat-channel-quiet-start"
+                  />
+                  <span className="text-sm text-gray-500">to</span>
+                  <Input
+                    type="time"
+                    className="w-32"
+                    value={draft.quietHoursEnd}
+                    onChange={(e) => setDraft({ ...draft, quietHoursEnd: e.target.value })}
+                    data-testid="input-chat-channel-quiet-end"
+                  />
+                  <Input
+                    className="flex-1"
+                    value={draft.timezone}
+                    onChange={(e) => setDraft({ ...draft, timezone: e.target.value })}
+                    placeholder="Europe/London"
+                    data-testid="input-chat-channel-timezone"
+                  />
+                </div>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Notifications</Label>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Leave every box clear to post all of them.</p>
+              {typeGroups.map((group) => (
+                <div key={group}>
+                  <p className="text-xs font-medium text-gray-600 dark:text-gray-300 mt-2 mb-1">{group}</p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                    {types.filter(t => t.group === group).map(({ type, label }) => (
+                      <div key={type} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`chat-type-${type}`}
+                          checked={draft.notificationTypes.includes(type)}
+                          onCheckedChange={(checked) => toggleType(type, checked === true)}
+                          data-testid={`checkbox-chat-type-${type}`}
+                        />
+                        <Label htmlFor={`chat-type-${type}`} className="text-sm">{label}</Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDraft(null)} data-testid="button-cancel-chat-channel">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate(draft)}
+                disabled={!draftValid || saveMutation.isPending}
+                data-testid="button-save-chat-channel"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center text-gray-500 py-4">Loading...</div>
+        ) : channels.length === 0 ? (
+          <div className="text-center text-gray-500 py-8">
+            <MessageSquare className="h-12 w-12 mx-auto mb-2 opacity-50" />
+            <p>No chat channels yet</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {channels.map((channel) => (
+              <div
+                key={channel.id}
+                className="flex items-center justify-between p-3 border rounded-lg bg-white dark:bg-gray-700"
+                data-testid={`chat-channel-${channel.id}`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{chatProviderLabels[channel.provider]}</Badge>
+                    <p className="font-medium truncate">{channel.name}</p>
+                  </div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                    {strategyName(channel.strategyId)} · {channel.webhookUrlHint}
+                  </p>
+                  <p className="text-xs text-gray-400 dark:text-gray-500">
+                    {channel.notificationTypes.length === 0 ? "All notifications" : `${channel.notificationTypes.length} notification type${channel.notificationTypes.length === 1 ? "" : "s"}`}
+                    {channel.quietHoursStart && channel.quietHoursEnd && ` · quiet ${channel.quietHoursStart}–${channel.quietHoursEnd} ${channel.timezone}`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  <Switch
+                    checked={channel.isActive === 'true'}
+                    onCheckedChange={(checked) => toggleMutation.mutate({ id: channel.id, isActive: checked })}
+                    data-testid={`switch-chat-channel-active-${channel.id}`}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => testMutation.mutate(channel.id)}
+                    disabled={testMutation.isPending}
+                    data-testid={`button-test-chat-channel-${channel.id}`}
+                  >
+                    Send Test
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraft({
+                      id: channel.id, name: channel.name, provider: channel.provider, webhookUrl: "",
+                      strategyId: channel.strategyId, notificationTypes: channel.notificationTypes,
+                      quietHoursStart: channel.quietHoursStart ?? "", quietHoursEnd: channel.quietHoursEnd ?? "", timezone: channel.timezone,
+                    })}
+                    data-testid={`button-edit-chat-channel-${channel.id}`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                        data-testid={`button-delete-chat-channel-${channel.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Remove Chat Channel</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Are you sure you want to remove "{channel.name}"? Messages waiting for its quiet hours to end will not be posted.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => deleteMutation.mutate(channel.id)}
+                          className="bg-red-600 hover:bg-red-700"
+                        >
+                          Remove
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function OrganizationArchiveSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { isSuperAdmin } = useRole();
+  const [isExporting, setIsExporting] = useState(false);
+  const [createNewOrganization, setCreateNewOrganization] = useState(false);
+  const [newOrganizationName, setNewOrganizationName] = useState("");
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const response = await fetch('/api/admin/export', { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to export organization');
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1]
+        ?? `organization-archive-${new Date().toISOString().split('T')[0]}.json`;
+      const url = URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to export organization archive", variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (archive: unknown) => {
+      const response = await apiRequest("POST", "/api/admin/import", {
+        archive,
+        createOrganization: createNewOrganization,
+        ...(createNewOrganization && newOrganizationName.trim() && { organizationName: newOrganizationName.trim() }),
+      });
+      return await response.json() as { counts: Record<string, number>; usersCreated: number; usersMatched: number; rowsSkipped: number };
+    },
+    onSuccess: (result) => {
+      const total = Object.values(result.counts).reduce((sum, n) => sum + n, 0);
+      toast({
+        title: "Archive imported",
+        description: `${total} records imported. ${result.usersCreated} users created, ${result.usersMatched} matched to existing accounts.`
+          + (result.rowsSkipped > 0 ? ` ${result.rowsSkipped} records were skipped because they refer to data outside the archive.` : ""),
+      });
+      queryClient.invalidateQueries();
+    },
+    onError: (error: any) => {
+      const body = String(error.message || "").replace(/^\d+:\s*/, "");
+      let message = body;
+      try {
+        message = JSON.parse(body).message || body;
+      } catch {
+        // Not JSON; show as-is
+      }
+      toast({ title: "Import failed", description: message || "Failed to import archive", variant: "destructive" });
+    },
+  });
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      importMutation.mutate(JSON.parse(await file.text()));
+    } catch {
+      toast({ title: "Import failed", description: "The file is not a valid archive", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="p-4 border rounded-lg">
+      <h4 className="font-medium mb-2">Organization Archive</h4>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+        Download a portable backup of this organization: strategies, projects, actions, checklists, barriers, dependencies,
+        decisions, workstreams, tags, PTO and holidays. Restoring an archive creates new records, so it can move an
+        organization to another deployment or make a copy for training.
+      </p>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" onClick={handleExport} disabled={isExporting} data-testid="button-export-archive">
+          {isExporting ? "Preparing..." : "Download Archive"}
+        </Button>
+        <Label
+          htmlFor="input-import-archive"
+          className={`inline-flex items-center h-10 px-4 rounded-md border text-sm font-medium cursor-pointer hover:bg-accent ${importMutation.isPending ? "opacity-50 pointer-events-none" : ""}`}
+        >
+          {importMutation.isPending ? "Importing..." : "Restore from Archive"}
+        </Label>
+        <input
+          id="input-import-archive"
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleFile}
+          data-testid="input-import-archive"
+        />
+      </div>
+      {isSuperAdmin() ? (
+        <div className="mt-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="archive-new-organization"
+              checked={createNewOrganization}
+              onCheckedChange={(checked) => setCreateNewOrganization(checked === true)}
+              data-testid="checkbox-archive-new-organization"
+            />
+            <Label htmlFor="archive-new-organization" className="text-sm">Restore into a new organization</Label>
+          </div>
+          {createNewOrganization && (
+            <Input
+              value={newOrganizationName}
+              onChange={(e) => setNewOrganizationName(e.target.value)}
+              placeholder="New organization name (defaults to the archived name)"
+              className="max-w-sm"
+              data-testid="input-archive-organization-name"
+            />
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+          Restoring into this organization is only possible while it has no strategies.
+        </p>
+      )}
+    </div>
+  );
+}
+
+const formatOffsets = (offsets: number[]) => offsets.join(", ");
+
+// "30, 14, 3" -> [30, 14, 3]; null when any entry is not a whole number in range
+const parseOffsets = (value: string, min: number): number[] | null => {
+  const parts = value.split(/[\s,]+/).filter(Boolean);
+  const numbers = parts.map(part => Number(part));
+  return numbers.every(n => Number.isInteger(n) && n >= min && n <= 365) && numbers.length <= 10 ? numbers : null;
+};
+
+function ReminderSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dueInput, setDueInput] = useState<string | null>(null);
+  const [overdueInput, setOverdueInput] = useState<string | null>(null);
+
+  const { data } = useQuery<ReminderOffsets>({
+    queryKey: ["/api/admin/reminder-settings"],
+  });
+
+  const dueValue = dueInput ?? formatOffsets(data?.dueOffsets ?? []);
+  const overdueValue = overdueInput ?? formatOffsets(data?.overdueOffsets ?? []);
+  const dueOffsets = parseOffsets(dueValue, 0);
+  const overdueOffsets = parseOffsets(overdueValue, 1);
+  const isDirty = dueInput !== null || overdueInput !== null;
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PATCH", "/api/admin/reminder-settings", { dueOffsets, overdueOffsets });
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Reminder schedule updated" });
+      setDueInput(null);
+      setOverdueInput(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reminder-settings"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update reminder schedule", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card data-testid="card-reminder-settings">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Bell className="mr-2 h-5 w-5" />
+          Due Date Reminders
+        </CardTitle>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+          Owners of actions, gates, projects, barriers, decisions and phases are reminded on these days. If the server
+          was offline when a reminder was due, it is sent as soon as it is back, showing the actual number of days left.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="reminder-due-offsets">Days before the due date</Label>
+            <Input
+              id="reminder-due-offsets"
+              value={dueValue}
+              onChange={(e) => setDueInput(e.target.value)}
+              placeholder="e.g. 30, 14, 3"
+              data-testid="input-reminder-due-offsets"
+            />
+            {!dueOffsets && <p className="text-xs text-red-600">Enter up to 10 whole numbers from 0 to 365</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reminder-overdue-offsets">Days overdue</Label>
+            <Input
+              id="reminder-overdue-offsets"
+              value={overdueValue}
+              onChange={(e) => setOverdueInput(e.target.value)}
+              placeholder="e.g. 1, 7, 14"
+              data-testid="input-reminder-overdue-offsets"
+            />
+            {!overdueOffsets && <p className="text-xs text-red-600">Enter up to 10 whole numbers from 1 to 365</p>}
+          </div>
+        </div>
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={!isDirty || !dueOffsets || !overdueOffsets || saveMutation.isPending}
+          data-testid="button-save-reminder-settings"
+        >
+          <Save className="h-4 w-4 mr-2" />
+          {saveMutation.isPending ? "Saving..." : "Save"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+const projectWakeUpOptions: { value: ProjectWakeUpAction; label: string; description: string }[] = [
+  {
+    value: "notify",
+    label: "Ask an administrator to review it",
+    description: "Administrators get a notification with a one-click option to reactivate the project.",
+  },
+  {
+    value: "unarchive",
+    label: "Reactivate it automatically",
+    description: "The project and its actions are restored as they were when it was archived.",
+  },
+];
+
+function ProjectWakeUpSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<{ wakeUpAction: ProjectWakeUpAction }>({
+    queryKey: ["/api/admin/project-wake-up-settings"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (wakeUpAction: ProjectWakeUpAction) => {
+      const response = await apiRequest("PATCH", "/api/admin/project-wake-up-settings", { wakeUpAction });
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Wake-up setting updated" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/project-wake-up-settings"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update wake-up setting", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card data-testid="card-project-wake-up-settings">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <CalendarDays className="mr-2 h-5 w-5" />
+          Archived Project Wake-ups
+        </CardTitle>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+          What happens when an archived project reaches the wake-up date set when it was archived.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <RadioGroup
+          value={data?.wakeUpAction ?? "notify"}
+          onValueChange={(value) => saveMutation.mutate(value as ProjectWakeUpAction)}
+          disabled={!data || saveMutation.isPending}
+          className="space-y-3"
+        >
+          {projectWakeUpOptions.map((option) => (
+            <div key={option.value} className="flex items-start gap-3">
+              <RadioGroupItem
+                value={option.value}
+                id={`project-wake-up-${option.value}`}
+                className="mt-1"
+                data-testid={`radio-project-wake-up-${option.value}`}
+              />
+              <Label htmlFor={`project-wake-up-${option.value}`} className="font-normal">
+                <span className="block text-sm font-medium">{option.label}</span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400">{option.description}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      </CardContent>
+    </Card>
+  );
+}
+
+type TwoFactorPolicyResponse = TwoFactorPolicy & { adminsWithoutTotp: number };
+
+// Accounts with a password or two-factor are only linked to the identity provider from here, by their owner
+function SsoLinkSettings() {
+  const { toast } = useToast();
+
+  const { data } = useQuery<{ available: boolean; linked: boolean }>({
+    queryKey: ["/api/sso-link"],
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/sso-link");
+      return await response.json() as { url: string };
+    },
+    onSuccess: ({ url }) => {
+      window.location.href = url;
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to start single sign-on", variant: "destructive" });
+    },
+  });
+
+  if (!data?.available) return null;
+
+  return (
+    <Card data-testid="card-sso-link">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <KeyRound className="mr-2 h-5 w-5" />
+          Single Sign-On
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex items-center justify-between gap-4">
+        {data.linked ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400" data-testid="text-sso-linked">
+            Your account is linked to your organization's identity provider.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Link your account to sign in through your organization's identity provider.
+            </p>
+            <Button onClick={() => linkMutation.mutate()} disabled={linkMutation.isPending} data-testid="button-link-sso">
+              Link Account
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function TwoFactorPolicySettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<TwoFactorPolicyResponse>({
+    queryKey: ["/api/admin/two-factor-policy"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (requireAdminTotp: boolean) => {
+      const response = await apiRequest("PATCH", "/api/admin/two-factor-policy", { requireAdminTotp });
+      return await response.json() as TwoFactorPolicyResponse;
+    },
+    onSuccess: (policy) => {
+      toast({
+        title: "Success",
+        description: policy.requireAdminTotp
+          ? "Administrators must now use an authenticator app"
+          : "Authenticator apps are no longer required for administrators",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/two-factor-policy"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update two-factor policy", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card data-testid="card-two-factor-policy">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Smartphone className="mr-2 h-5 w-5" />
+          Two-Factor Policy
+        </CardTitle>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+          Emailed codes stop working when email is delayed or down. Requiring an authenticator app keeps administrator accounts reachable and harder to take over.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="require-admin-totp" className="font-normal">
+            <span className="block text-sm font-medium">Require an authenticator app for administrators</span>
+            <span className="block text-xs text-gray-500 dark:text-gray-400">
+              Administrators without one are asked to set it up before they can continue.
+            </span>
+          </Label>
+          <Switch
+            id="require-admin-totp"
+            checked={data?.requireAdminTotp ?? false}
+            onCheckedChange={(checked) => saveMutation.mutate(checked)}
+            disabled={!data || saveMutation.isPending}
+            data-testid="switch-require-admin-totp"
+          />
+        </div>
+        {data && data.adminsWithoutTotp > 0 && (
+          <p className="text-sm text-amber-600 dark:text-amber-400" data-testid="text-admins-without-totp">
+            {data.adminsWithoutTotp} administrator{data.adminsWithoutTotp === 1 ? " has" : "s have"} not set up an authenticator app yet.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+type SsoConfigurationView = Omit<OidcConfiguration, "clientSecret" | "roleMappings" | "teamTagMappings" | "emailDomains" | "enforceSso" | "isEnabled"> & {
+  hasClientSecret: boolean;
+  roleMappings: OidcRoleMapping[];
+  teamTagMappings: OidcTeamTagMapping[];
+  emailDomains: string[];
+  enforceSso: boolean;
+  isEnabled: boolean;
+};
+
+type SsoSettingsResponse = {
+  configuration: SsoConfigurationView | null;
+  redirectUri: string;
+  loginUrl: string;
+  roles: SsoRole[];
+};
+
+type SsoDraft = {
+  issuerUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+  emailClaim: string;
+  firstNameClaim: string;
+  lastNameClaim: string;
+  groupsClaim: string;
+  roleMappings: OidcRoleMapping[];
+  teamTagMappings: OidcTeamTagMapping[];
+  defaultRole: SsoRole | "none";
+  emailDomains: string;
+  enforceSso: boolean;
+  isEnabled: boolean;
+};
+
+const ssoRoleLabels: Record<SsoRole, string> = {
+  administrator: "Administrator",
+  co_lead: "Co-Lead",
+  view: "View",
+  sme: "SME (no sign-in)",
+};
+
+const toSsoDraft = (configuration: SsoConfigurationView | null | undefined): SsoDraft => ({
+  issuerUrl: configuration?.issuerUrl ?? "",
+  clientId: configuration?.clientId ?? "",
+  clientSecret: "",
+  scopes: configuration?.scopes ?? "openid email profile",
+  emailClaim: configuration?.emailClaim ?? "email",
+  firstNameClaim: configuration?.firstNameClaim ?? "given_name",
+  lastNameClaim: configuration?.lastNameClaim ?? "family_name",
+  groupsClaim: configuration?.groupsClaim ?? "groups",
+  roleMappings: configuration?.roleMappings ?? [],
+  teamTagMappings: configuration?.teamTagMappings ?? [],
+  defaultRole: configuration ? configuration.defaultRole ?? "none" : "co_lead",
+  emailDomains: configuration?.emailDomains.join(", ") ?? "",
+  enforceSso: configuration?.enforceSso ?? false,
+  isEnabled: configuration?.isEnabled ?? false,
+});
+
+function SsoSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<SsoDraft | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const { data, isLoading } = useQuery<SsoSettingsResponse>({
+    queryKey: ["/api/admin/sso"],
+  });
+  const { data: teamTags = [] } = useQuery<TeamTag[]>({
+    queryKey: ["/api/team-tags"],
+  });
+
+  const configuration = data?.configuration;
+  const form = draft ?? toSsoDraft(configuration);
+  const update = (changes: Partial<SsoDraft>) => setDraft({ ...form, ...changes });
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: SsoDraft) => {
+      const response = await apiRequest("PUT", "/api/admin/sso", {
+        issuerUrl: values.issuerUrl.trim(),
+        clientId: values.clientId.trim(),
+        // Left blank keeps the stored secret
+        ...(values.clientSecret.trim() ? { clientSecret: values.clientSecret.trim() } : {}),
+        scopes: values.scopes.trim(),
+        emailClaim: values.emailClaim.trim(),
+        firstNameClaim: values.firstNameClaim.trim(),
+        lastNameClaim: values.lastNameClaim.trim(),
+        groupsClaim: values.groupsClaim.trim(),
+        roleMappings: values.roleMappings.filter(mapping => mapping.group.trim()),
+        teamTagMappings: values.teamTagMappings.filter(mapping => mapping.group.trim() && mapping.teamTagId),
+        defaultRole: values.defaultRole === "none" ? null : values.defaultRole,
+        emailDomains: values.emailDomains.split(/[\s,]+/).map(domain => domain.trim()).filter(Boolean),
+        enforceSso: values.enforceSso,
+        isEnabled: values.isEnabled,
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Single sign-on settings saved" });
+      setDraft(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sso"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save single sign-on settings", variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/sso/test");
+      return await response.json() as { message: string };
+    },
+    onSuccess: (result) => {
+      toast({ title: "Connection works", description: result.message });
+    },
+    onError: (error: any) => {
+      toast({ title: "Test failed", description: error.message || "Could not reach the identity provider", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/admin/sso");
+    },
+    onSuccess: () => {
+      toast({ title: "Removed", description: "Single sign-on has been removed. Users sign in with passwords again." });
+      setDraft(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sso"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to remove single sign-on", variant: "destructive" });
+    },
+  });
+
+  const copyRedirectUri = async () => {
+    if (!data) return;
+    await navigator.clipboard.writeText(data.redirectUri);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const canSave = form.issuerUrl.trim().length > 0 && form.clientId.trim().length > 0
+    && (!!configuration?.hasClientSecret || form.clientSecret.trim().length > 0);
+
+  const claimFields: { key: "emailClaim" | "firstNameClaim" | "lastNameClaim" | "groupsClaim"; label: string }[] = [
+    { key: "emailClaim", label: "Email" },
+    { key: "firstNameClaim", label: "First name" },
+    { key: "lastNameClaim", label: "Last name" },
+    { key: "groupsClaim", label: "Groups" },
+  ];
+
+  if (isLoading || !data) {
+    return (
+      <Card data-testid="card-sso-settings">
+        <CardContent className="py-8 text-center text-sm text-gray-500">Loading single sign-on settings...</CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card data-testid="card-sso-settings">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <KeyRound className="mr-2 h-5 w-5" />
+            Single Sign-On (OpenID Connect)
+          </span>
+          {configuration && (
+            <Badge variant={configuration.isEnabled ? "default" : "secondary"} data-testid="badge-sso-status">
+              {configuration.isEnabled ? "Enabled" : "Disabled"}
+            </Badge>
+          )}
+        </CardTitle>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+          Let people sign in with your organization's identity provider, such as Okta, Microsoft Entra ID or Google Workspace.
+          Accounts are created on first sign-in, and IdP groups decide each person's role and team tags.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label>Redirect URI</Label>
+          <div className="flex gap-2">
+            <Input value={data.redirectUri} readOnly className="font-mono text-sm" data-testid="input-sso-redirect-uri" />
+            <Button variant="outline" size="icon" onClick={copyRedirectUri} data-testid="button-copy-sso-redirect-uri">
+              {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">Register this as the sign-in redirect URI of the app in your identity provider.</p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="sso-issuer">Issuer URL</Label>
+            <Input
+              id="sso-issuer"
+              value={form.issuerUrl}
+              onChange={(e) => update({ issuerUrl: e.target.value })}
+              placeholder="https://login.example.com"
+              data-testid="input-sso-issuer"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sso-client-id">Client ID</Label>
+            <Input
+              id="sso-client-id"
+              value={form.clientId}
+              onChange={(e) => update({ clientId: e.target.value })}
+              data-testid="input-sso-client-id"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sso-client-secret">Client secret</Label>
+            <Input
+              id="sso-client-secret"
+              type="password"
+              value={form.clientSecret}
+              onChange={(e) => update({ clientSecret: e.target.value })}
+              placeholder={configuration?.hasClientSecret ? "Leave blank to keep the current secret" : ""}
+              autoComplete="new-password"
+              data-testid="input-sso-client-secret"
+            />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="sso-scopes">Scopes</Label>
+            <Input
+              id="sso-scopes"
+              value={form.scopes}
+              onChange={(e) => update({ scopes: e.target.value })}
+              data-testid="input-sso-scopes"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Claims</h4>
+          <p className="text-xs text-gray-500 dark:text-gray-400">Names of the ID token or userinfo claims that hold each value.</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {claimFields.map(field => (
+              <div key={field.key} className="space-y-1">
+                <Label htmlFor={`sso-${field.key}`} className="text-xs">{field.label}</Label>
+                <Input
+                  id={`sso-${field.key}`}
+                  value={form[field.key]}
+                  onChange={(e) => update({ [field.key]: e.target.value })}
+                  className="font-mono text-sm"
+                  data-testid={`input-sso-${field.key}`}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium">Group to role mappings</h4>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => update({ roleMappings: [...form.roleMappings, { group: "", role: "co_lead" }] })}
+              data-testid="button-add-sso-role-mapping"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Applied at every sign-in. If several groups match, the most privileged role wins. People whose groups match none keep their current role.
+          </p>
+          {form.roleMappings.map((mapping, index) => (
+            <div key={index} className="flex gap-2" data-testid={`row-sso-role-mapping-${index}`}>
+              <Input
+                value={mapping.group}
+                onChange={(e) => update({ roleMappings: form.roleMappings.map((m, i) => i === index ? { ...m, group: e.target.value } : m) })}
+                placeholder="IdP group name"
+                data-testid={`input-sso-role-group-${index}`}
+              />
+              <Select
+                value={mapping.role}
+                onValueChange={(value) => update({ roleMappings: form.roleMappings.map((m, i) => i === index ? { ...m, role: value as SsoRole } : m) })}
+              >
+                <SelectTrigger className="w-48" data-testid={`select-sso-role-${index}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {data.roles.map(role => (
+                    <SelectItem key={role} value={role}>{ssoRoleLabels[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => update({ roleMappings: form.roleMappings.filter((_, i) => i !== index) })}
+                data-testid={`button-remove-sso-role-mapping-${index}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center gap-3 pt-2">
+            <Label className="text-sm font-normal whitespace-nowrap">New users in no mapped group</Label>
+            <Select value={form.defaultRole} onValueChange={(value) => update({ defaultRole: value as SsoRole | "none" })}>
+              <SelectTrigger className="w-56" data-testid="select-sso-default-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Are turned away</SelectItem>
+                {data.roles.filter(role => role !== "sme").map(role => (
+                  <SelectItem key={role} value={role}>Join as {ssoRoleLabels[role]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium">Group to team tag mappings</h4>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => update({ teamTagMappings: [...form.teamTagMappings, { group: "", teamTagId: "" }] })}
+              disabled={teamTags.length === 0}
+              data-testid="button-add-sso-team-tag-mapping"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Mapped tags are added and removed to match the user's groups at each sign-in. Tags that are not mapped here are left alone.
+          </p>
+          {form.teamTagMappings.map((mapping, index) => (
+            <div key={index} className="flex gap-2" data-testid={`row-sso-team-tag-mapping-${index}`}>
+              <Input
+                value={mapping.group}
+                onChange={(e) => update({ teamTagMappings: form.teamTagMappings.map((m, i) => i === index ? { ...m, group: e.target.value } : m) })}
+                placeholder="IdP group name"
+                data-testid={`input-sso-team-tag-group-${index}`}
+              />
+              <Select
+                value={mapping.teamTagId}
+                onValueChange={(value) => update({ teamTagMappings: form.teamTagMappings.map((m, i) => i === index ? { ...m, teamTagId: value } : m) })}
+              >
+                <SelectTrigger className="w-48" data-testid={`select-sso-team-tag-${index}`}>
+                  <SelectValue placeholder="Team tag" />
+                </SelectTrigger>
+                <SelectContent>
+                  {teamTags.map(tag => (
+                    <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => update({ teamTagMappings: form.teamTagMappings.filter((_, i) => i !== index) })}
+                data-testid={`button-remove-sso-team-tag-mapping-${index}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="sso-email-domains">Email domains</Label>
+          <Input
+            id="sso-email-domains"
+            value={form.emailDomains}
+            onChange={(e) => update({ emailDomains: e.target.value })}
+            placeholder="example.com, example.org"
+            data-testid="input-sso-email-domains"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            "Sign in with SSO" sends people with these addresses to your identity provider, and only these addresses may sign in through it. Members who already have a password link their account under Settings &gt; Security.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="sso-enabled" className="font-normal">
+              <span className="block text-sm font-medium">Enable single sign-on</span>
+              <span className="block text-xs text-gray-500 dark:text-gray-400">The identity provider is checked before this is saved.</span>
+            </Label>
+            <Switch
+              id="sso-enabled"
+              checked={form.isEnabled}
+              onCheckedChange={(checked) => update({ isEnabled: checked, enforceSso: checked && form.enforceSso })}
+              data-testid="switch-sso-enabled"
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="sso-enforced" className="font-normal">
+              <span className="block text-sm font-medium">Require single sign-on</span>
+              <span className="block text-xs text-gray-500 dark:text-gray-400">
+                Members can no longer sign in or register with a password. Administrators still can, so a broken identity provider cannot lock you out.
+              </span>
+            </Label>
+            <Switch
+              id="sso-enforced"
+              checked={form.enforceSso}
+              onCheckedChange={(checked) => update({ enforceSso: checked })}
+              disabled={!form.isEnabled}
+              data-testid="switch-sso-enforced"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={() => saveMutation.mutate(form)} disabled={!canSave || saveMutation.isPending} data-testid="button-save-sso">
+            <Save className="h-4 w-4 mr-2" />
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+          {draft && (
+            <Button variant="outline" onClick={() => setDraft(null)} data-testid="button-reset-sso">
+              Discard changes
+            </Button>
+          )}
+          {configuration && (
+            <>
+              <Button variant="outline" onClick={() => testMutation.mutate()} disabled={testMutation.isPending} data-testid="button-test-sso">
+                <RefreshCw className={`h-4 w-4 mr-2 ${testMutation.isPending ? "animate-spin" : ""}`} />
+                Test connection
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" className="text-red-600" data-testid="button-delete-sso">
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Remove
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Remove single sign-on?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      People who were created through single sign-on have no password. They will need to reset their password to sign in.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => deleteMutation.mutate()} data-testid="button-confirm-delete-sso">Remove</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+type ApiTokenView = Omit<ApiToken, "tokenHash" | "scopes"> & { scopes: ApiTokenScope[] };
+
+type OrganizationApiTokenView = ApiTokenView & {
+  owner: { id: string; email: string | null; firstName: string | null; lastName: string | null } | null;
+};
+
+const apiTokenScopeLabels: Record<ApiTokenScope, { label: string; description: string }> = {
+  "read:strategies": { label: "Read strategies", description: "Strategies, workstreams, phases, decisions and framework documents" },
+  "write:strategies": { label: "Write strategies", description: "Create and change strategies and their workstreams, phases and decisions" },
+  "read:projects": { label: "Read projects", description: "Projects, barriers, dependencies and baselines" },
+  "write:projects": { label: "Write projects", description: "Create and change projects, barriers and dependencies" },
+  "read:actions": { label: "Read actions", description: "Actions, checklists and assignments" },
+  "write:actions": { label: "Write actions", description: "Create, update and complete actions" },
+  "read:users": { label: "Read users", description: "People, team tags, time off and holidays" },
+  "admin:users": { label: "Manage users", description: "Add, change and remove people and team tags" },
+  "admin:organization": { label: "Administer organization", description: "Administrator settings such as webhooks, escalations and exports" },
+};
+
+const apiTokenExpiryOptions = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "No expiry" },
+];
+
+function apiTokenStatus(token: ApiTokenView): { label: string; variant: "default" | "secondary" | "destructive" } {
+  if (token.revokedAt) return { label: "Revoked", variant: "destructive" };
+  if (token.expiresAt && new Date(token.expiresAt).getTime() <= Date.now()) return { label: "Expired", variant: "secondary" };
+  return { label: "Active", variant: "default" };
+}
+
+const formatTokenDate = (value: string | Date | null) => value ? new Date(value).toLocaleDateString() : "Never";
+
+function ApiTokenSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([]);
+  const [expiry, setExpiry] = useState("90");
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const { data, isLoading } = useQuery<{ tokens: ApiTokenView[]; scopes: ApiTokenScope[] }>({
+    queryKey: ["/api/api-tokens"],
+  });
+  const tokens = data?.tokens ?? [];
+
+  const resetForm = () => {
+    setIsCreating(false);
+    setName("");
+    setScopes([]);
+    setExpiry("90");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const expiresAt = expiry === "never" ? null : new Date(Date.now() + Number(expiry) * 24 * 60 * 60 * 1000).toISOString();
+      const response = await apiRequest("POST", "/api/api-tokens", { name: name.trim(), scopes, expiresAt });
+      return await response.json() as ApiTokenView & { token: string };
+    },
+    onSuccess: (created) => {
+      setCreatedToken(created.token);
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/api-tokens"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to create API token", variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/api-tokens/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Revoked", description: "The token no longer works." });
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/api-tokens"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to revoke API token", variant: "destructive" });
+    },
+  });
+
+  const copyToken = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Card data-testid="card-api-tokens">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <KeyRound className="mr-2 h-5 w-5" />
+            API Tokens
+          </span>
+          {!isCreating && !createdToken && (
+            <Button size="sm" onClick={() => setIsCreating(true)} data-testid="button-new-api-token">
+              <Plus className="h-4 w-4 mr-2" />
+              New Token
+            </Button>
+          )}
+        </CardTitle>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+          Tokens let scripts and integrations use the REST API as you. Send one as <code className="text-xs">Authorization: Bearer &lt;token&gt;</code>.
+          A token can only do what its scopes allow, and never more than your own role.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {createdToken && (
+          <div className="p-4 rounded-lg border border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-900/20 space-y-3" data-testid="created-api-token">
+            <p className="text-sm text-amber-800 dark:text-amber-200">
+              Copy this token now. It won't be shown again.
+            </p>
+            <div className="flex gap-2">
+              <Input value={createdToken} readOnly className="font-mono text-sm" data-testid="input-created-api-token" />
+              <Button variant="outline" size="icon" onClick={copyToken} data-testid="button-copy-api-token">
+                {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <Button size="sm" onClick={() => setCreatedToken(null)} data-testid="button-api-token-saved">
+              I've copied the token
+            </Button>
+          </div>
+        )}
+
+        {isCreating && (
+          <div className="p-4 border rounded-lg space-y-4" data-testid="form-api-token">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="api-token-name">Name</Label>
+                <Input
+                  id="api-token-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Weekly report script"
+                  data-testid="input-api-token-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Expires after</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger data-testid="select-api-token-expiry">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {apiTokenExpiryOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {(data?.scopes ?? []).map(scope => (
+                  <label key={scope} className="flex items-start gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) => setScopes(checked ? [...scopes, scope] : scopes.filter(s => s !== scope))}
+                      data-testid={`checkbox-api-token-scope-${scope}`}
+                    />
+                    <span>
+                      <span className="font-medium">{apiTokenScopeLabels[scope].label}</span>
+                      <span className="ml-1 font-mono text-xs text-gray-500">{scope}</span>
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">{apiTokenScopeLabels[scope].description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+                data-testid="button-create-api-token"
+              >
+                {createMutation.isPending ? "Creating..." : "Create Token"}
+              </Button>
+              <Button variant="outline" onClick={resetForm} data-testid="button-cancel-api-token">
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading tokens...</p>
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-gray-500" data-testid="text-no-api-tokens">You have no API tokens.</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {tokens.map(token => {
+              const status = apiTokenStatus(token);
+              return (
+                <div key={token.id} className="p-3 flex items-start justify-between gap-4" data-testid={`row-api-token-${token.id}`}>
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{token.name}</span>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </div>
+                    <p className="font-mono text-xs text-gray-500">{token.tokenPrefix}…</p>
+                    <div className="flex flex-wrap gap-1">
+                      {token.scopes.map(scope => (
+                        <Badge key={scope} variant="outline" className="font-mono text-[10px]">{scope}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Created {formatTokenDate(token.createdAt)} · Expires {formatTokenDate(token.expiresAt)} · Last used {token.lastUsedAt ? new Date(token.lastUsedAt).toLocaleString() : "never"}
+                    </p>
+                  </div>
+                  {!token.revokedAt && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600"
+                      onClick={() => revokeMutation.mutate(token.id)}
+                      disabled={revokeMutation.isPending}
+                      data-testid={`button-revoke-api-token-${token.id}`}
+                    >
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function OrganizationApiTokenSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: tokens = [], isLoading } = useQuery<OrganizationApiTokenView[]>({
+    queryKey: ["/api/admin/api-tokens"],
+  });
+  const activeTokens = tokens.filter(token => apiTokenStatus(token).label === "Active");
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/api-tokens/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Revoked", description: "The token no longer works." });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/api-tokens"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to revoke API token", variant: "destructive" });
+    },
+  });
+
+  const ownerName = (token: OrganizationApiTokenView) => token.owner
+    ? [token.owner.firstName, token.owner.lastName].filter(Boolean).join(" ") || token.owner.email
+    : "Deleted user";
+
+  return (
+    <Card data-testid="card-organization-api-tokens">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <KeyRound className="mr-2 h-5 w-5" />
+          Organization API Tokens
+        </CardTitle>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+          Active tokens created by anyone in your organization. Revoke a token if it may have leaked or its owner no longer needs it.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading tokens...</p>
+        ) : activeTokens.length === 0 ? (
+          <p className="text-sm text-gray-500" data-testid="text-no-organization-api-tokens">No active API tokens.</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {activeTokens.map(token => (
+              <div key={token.id} className="p-3 flex items-start justify-between gap-4" data-testid={`row-organization-api-token-${token.id}`}>
+                <div className="space-y-1 min-w-0">
+                  <p className="text-sm">
+                    <span className="font-medium">{token.name}</span>
+                    <span className="text-gray-500"> · {ownerName(token)}</span>
+                  </p>
+                  <p className="font-mono text-xs text-gray-500">{token.tokenPrefix}… · {token.scopes.join(", ")}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Expires {formatTokenDate(token.expiresAt)} · Last used {token.lastUsedAt ? new Date(token.lastUsedAt).toLocaleString() : "never"}
+                    {token.lastUsedIp ? ` from ${token.lastUsedIp}` : ""}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-red-600"
+                  onClick={() => revokeMutation.mutate(token.id)}
+                  disabled={revokeMutation.isPending}
+                  data-testid={`button-revoke-organization-api-token-${token.id}`}
+                >
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+type CustomRoleView = Omit<CustomRole, "capabilities"> & { capabilities: PermissionCapability[]; memberCount: number };
+
+type RolesResponse = {
+  capabilities: PermissionCapability[];
+  builtInRoles: { role: SsoRole; capabilities: PermissionCapability[] }[];
+  customRoles: CustomRoleView[];
+};
+
+const capabilityLabels: Record<PermissionCapability, string> = {
+  create_project: "Create projects",
+  edit_project: "Edit projects",
+  delete_project: "Delete projects",
+  create_action: "Create actions",
+  edit_action: "Edit actions",
+  delete_action: "Delete actions",
+  manage_barriers: "Manage barriers",
+  manage_dependencies: "Manage dependencies",
+  manage_resources: "Assign resources",
+  record_measurements: "Record measurements",
+  decide_decision: "Decide decisions",
+  edit_framework_documents: "Edit framework documents",
+  manage_workstreams: "Manage workstreams",
+  edit_scenarios: "Edit scenarios",
+  send_digests: "Send digests",
+  import_data: "Import data",
+  view_reports: "View reports",
+};
+
+// SMEs cannot sign in, so their column would always be empty
+const gridBuiltInRoles: SsoRole[] = ["administrator", "co_lead", "view"];
+
+function RolesSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [cloneFrom, setCloneFrom] = useState<CloneableRole | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+
+  const { data, isLoading } = useQuery<RolesResponse>({
+    queryKey: ["/api/admin/roles"],
+  });
+  const customRoles = data?.customRoles ?? [];
+  const builtInCapabilities = (role: SsoRole) => data?.builtInRoles.find(r => r.role === role)?.capabilities ?? [];
+
+  const resetForm = () => {
+    setCloneFrom(null);
+    setName("");
+    setDescription("");
+  };
+
+  const invalidateRoles = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/roles"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/roles", {
+        name: name.trim(),
+        description: description.trim() || null,
+        baseRole: cloneFrom,
+      });
+      return await response.json() as CustomRoleView;
+    },
+    onSuccess: (role) => {
+      toast({ title: "Role created", description: `${role.name} starts with the same permissions as ${ssoRoleLabels[role.baseRole]}.` });
+      resetForm();
+      invalidateRoles();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to create role", variant: "destructive" });
+    },
+  });
+
+  const updateCapabilitiesMutation = useMutation({
+    mutationFn: async ({ id, capabilities }: { id: string; capabilities: PermissionCapability[] }) => {
+      const response = await apiRequest("PATCH", `/api/admin/roles/${id}`, { capabilities });
+      return await response.json();
+    },
+    onSuccess: () => {
+      invalidateRoles();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update role", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/roles/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Role deleted", description: "Its members now have the role it was cloned from." });
+      invalidateRoles();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete role", variant: "destructive" });
+    },
+  });
 
-  const formatDate = (date: Date | string) => {
-    return new Date(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+  const toggleCapability = (role: CustomRoleView, capability: PermissionCapability, checked: boolean) => {
+    const capabilities = checked
+      ? [...role.capabilities, capability]
+      : role.capabilities.filter(c => c !== capability);
+    updateCapabilitiesMutation.mutate({ id: role.id, capabilities });
   };
 
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <p className="text-sm text-gray-500">Loading roles...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
-    <Card data-testid="card-holidays">
+    <Card data-testid="card-roles">
       <CardHeader>
-        <CardTitle className="flex items-center justify-between">
-          <div className="flex items-center">
-            <Star className="mr-2 h-5 w-5 text-yellow-500" />
-            Holidays
-          </div>
-          {!isAddingHoliday && (
-            <Button size="sm" onClick={() => setIsAddingHoliday(true)} data-testid="button-add-holiday">
-              <Plus className="h-4 w-4 mr-2" />
-              Add Holiday
-            </Button>
-          )}
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="mr-2 h-5 w-5" />
+          Roles & Permissions
         </CardTitle>
-        <p className="text-sm text-gray-500 dark:text-gray-400">
-          Organization-wide holidays appear on all team members' calendars with a gold star.
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+          Built-in roles can't be changed. Clone Co-Lead or View to make a role of your own, then tick what it may do.
+          Strategy roles set on a person's assignments still take precedence for that strategy.
         </p>
       </CardHeader>
       <CardContent className="space-y-4">
-        {isAddingHoliday && (
-          <form onSubmit={handleSubmit} className="p-4 border rounded-lg bg-gray-50 dark:bg-gray-800 space-y-4">
+        {cloneFrom && (
+          <div className="p-4 border rounded-lg space-y-4" data-testid="form-custom-role">
+            <p className="text-sm font-medium">New role based on {ssoRoleLabels[cloneFrom]}</p>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="holiday-date">Date</Label>
+                <Label htmlFor="custom-role-name">Name</Label>
                 <Input
-                  id="holiday-date"
-                  type="date"
-                  value={holidayDate}
-                  onChange={(e) => setHolidayDate(e.target.value)}
-                  data-testid="input-holiday-date"
+                  id="custom-role-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Project Coordinator"
+                  data-testid="input-custom-role-name"
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="holiday-name">Holiday Name</Label>
+                <Label htmlFor="custom-role-description">Description</Label>
                 <Input
-                  id="holiday-name"
-                  value={holidayName}
-                  onChange={(e) => setHolidayName(e.target.value)}
-                  placeholder="e.g., New Year's Day, Independence Day"
-                  data-testid="input-holiday-name"
+                  id="custom-role-description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="Optional"
+                  data-testid="input-custom-role-description"
                 />
               </div>
             </div>
-            <div className="space-y-2">
-              <Label htmlFor="holiday-description">Description (optional)</Label>
-              <Input
-                id="holiday-description"
-                value={holidayDescription}
-                onChange={(e) => setHolidayDescription(e.target.value)}
-                placeholder="e.g., Office closed"
-                data-testid="input-holiday-description"
-              />
-            </div>
-            <div className="flex space-x-2">
+            <div className="flex gap-2">
               <Button
-                type="submit"
-                disabled={createHolidayMutation.isPending || updateHolidayMutation.isPending}
-                data-testid="button-save-holiday"
+                size="sm"
+                onClick={() => createMutation.mutate()}
+                disabled={!name.trim() || createMutation.isPending}
+                data-testid="button-create-custom-role"
               >
-                <Save className="h-4 w-4 mr-2" />
-                {editingHoliday ? 'Update' : 'Save'}
+                Create Role
               </Button>
-              <Button type="button" variant="outline" onClick={resetForm} data-testid="button-cancel-holiday">
+              <Button size="sm" variant="outline" onClick={resetForm} data-testid="button-cancel-custom-role">
                 Cancel
               </Button>
             </div>
-          </form>
+          </div>
         )}
 
-        {isLoading ? (
-          <div className="text-center text-gray-500 py-4">Loading...</div>
-        ) : holidays.length === 0 ? (
-          <div className="text-center text-gray-500 py-8">
-            <Star className="h-12 w-12 mx-auto mb-2 opacity-50 text-yellow-400" />
-            <p>No holidays scheduled</p>
-            <p className="text-sm">Click "Add Holiday" to add organization-wide holidays</p>
-          </div>
-        ) : (
-          <div className="space-y-2">
-            {holidays.map((holiday) => (
-              <div
-                key={holiday.id}
-                className="flex items-center justify-between p-3 border rounded-lg bg-white dark:bg-gray-700"
-                data-testid={`holiday-entry-${holiday.id}`}
-              >
-                <div className="flex items-center space-x-3">
-                  <Star className="h-5 w-5 text-yellow-500" />
-                  <div>
-                    <p className="font-medium">{holiday.name}</p>
-                    <p className="text-sm text-gray-500 dark:text-gray-400">
-                      {formatDate(holiday.date)}
-                    </p>
-                    {holiday.description && (
-                      <p className="text-sm text-gray-400 dark:text-gray-500">{holiday.description}</p>
-                    )}
-                  </div>
-                </div>
-                <div className="flex space-x-1">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => startEdit(holiday)}
-                    data-testid={`button-edit-holiday-${holiday.id}`}
-                  >
-                    <Pencil className="h-4 w-4" />
-                  </Button>
-                  <AlertDialog>
-                    <AlertDialogTrigger asChild>
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="w-full text-sm" data-testid="table-permission-grid">
+            <thead>
+              <tr className="border-b bg-gray-50 dark:bg-gray-900">
+                <th className="text-left font-medium p-3">Capability</th>
+                {gridBuiltInRoles.map(role => (
+                  <th key={role} className="text-center font-medium p-3 align-top">
+                    <div>{ssoRoleLabels[role]}</div>
+                    {(cloneableRoles as readonly string[]).includes(role) && (
                       <Button
                         variant="ghost"
                         size="sm"
-                        className="text-red-600 hover:text-red-700"
-                        data-testid={`button-delete-holiday-${holiday.id}`}
+                        className="h-7 text-xs mt-1"
+                        onClick={() => setCloneFrom(role as CloneableRole)}
+                        data-testid={`button-clone-role-${role}`}
                       >
-                        <Trash2 className="h-4 w-4" />
+                        <Copy className="h-3 w-3 mr-1" />
+                        Clone
                       </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent>
-                      <AlertDialogHeader>
-                        <AlertDialogTitle>Delete Holiday</AlertDialogTitle>
-                        <AlertDialogDescription>
-                          Are you sure you want to delete "{holiday.name}"?
-                        </AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter>
-                        <AlertDialogCancel>Cancel</AlertDialogCancel>
-                        <AlertDialogAction
-                          onClick={() => deleteHolidayMutation.mutate(holiday.id)}
-                          className="bg-red-600 hover:bg-red-700"
+                    )}
+                  </th>
+                ))}
+                {customRoles.map(role => (
+                  <th key={role.id} className="text-center font-medium p-3 align-top" data-testid={`header-custom-role-${role.id}`}>
+                    <div title={role.description || undefined}>{role.name}</div>
+                    <div className="text-xs font-normal text-gray-500">
+                      {role.memberCount} {role.memberCount === 1 ? "member" : "members"}
+                    </div>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 text-xs mt-1 text-red-600"
+                          data-testid={`button-delete-custom-role-${role.id}`}
                         >
+                          <Trash2 className="h-3 w-3 mr-1" />
                           Delete
-                        </AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
-                </div>
-              </div>
-            ))}
-          </div>
-        )}
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete {role.name}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            {role.memberCount > 0
+                              ? `${role.memberCount} ${role.memberCount === 1 ? "person has" : "people have"} this role and will go back to ${ssoRoleLabels[role.baseRole]}.`
+                              : "Nobody has this role yet."}
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteMutation.mutate(role.id)}
+                            className="bg-red-600 hover:bg-red-700"
+                            data-testid={`button-confirm-delete-custom-role-${role.id}`}
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {(data?.capabilities ?? []).map(capability => (
+                <tr key={capability} data-testid={`row-capability-${capability}`}>
+                  <td className="p-3">{capabilityLabels[capability]}</td>
+                  {gridBuiltInRoles.map(role => (
+                    <td key={role} className="p-3 text-center">
+                      {builtInCapabilities(role).includes(capability)
+                        ? <Check className="h-4 w-4 text-green-600 inline" />
+                        : <X className="h-4 w-4 text-gray-300 inline" />}
+                    </td>
+                  ))}
+                  {customRoles.map(role => (
+                    <td key={role.id} className="p-3 text-center">
+                      <Checkbox
+                        checked={role.capabilities.includes(capability)}
+                        onCheckedChange={(checked) => toggleCapability(role, capability, checked === true)}
+                        disabled={updateCapabilitiesMutation.isPending}
+                        data-testid={`checkbox-${role.id}-${capability}`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
       </CardContent>
     </Card>
   );
 }
 
+type NotificationPreferencesResponse = {
+  types: { type: string; label: string; group: string }[];
+  preferences: Record<string, NotificationChannel>;
+  emailConfigured: boolean;
+};
+
+const notificationChannelLabels: Record<NotificationChannel, string> = {
+  in_app: "In-app",
+  email: "Email",
+  digest: "Daily digest",
+  off: "Off",
+};
+
+function NotificationPreferencesSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<Record<string, NotificationChannel> | null>(null);
+
+  const { data, isLoading } = useQuery<NotificationPreferencesResponse>({
+    queryKey: ["/api/notification-preferences"],
+  });
+
+  const preferences = draft ?? data?.preferences ?? {};
+  const isDirty = draft !== null;
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest("PUT", "/api/notification-preferences", { preferences }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notification-preferences"] });
+      setDraft(null);
+      toast({ title: "Saved", description: "Notification preferences updated" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save notification preferences", variant: "destructive" });
+    },
+  });
+
+  const setChannel = (type: string, channel: NotificationChannel) => {
+    setDraft({ ...preferences, [type]: channel });
+  };
+
+  const setAll = (channel: NotificationChannel) => {
+    setDraft(Object.fromEntries((data?.types ?? []).map(({ type }) => [type, channel])));
+  };
+
+  if (isLoading || !data) {
+    return <div className="text-sm text-gray-500">Loading notification preferences...</div>;
+  }
+
+  const groups = Array.from(new Set(data.types.map(t => t.group)));
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">
+        Choose how each kind of notification reaches you. Everything except "Off" also appears in the notification bell.
+        "Email" sends each one as it happens; "Daily digest" collects them into a single email every morning.
+      </p>
+      {!data.emailConfigured && (
+        <p className="text-sm text-amber-600 dark:text-amber-400" data-testid="text-email-not-configured">
+          Email delivery is not configured on this server, so email and digest notifications will only appear in-app.
+        </p>
+      )}
+      <div className="overflow-x-auto">
+        <div className="grid grid-cols-[minmax(12rem,1fr)_repeat(4,6rem)] items-center gap-y-1 min-w-[36rem]">
+          <div />
+          {notificationChannels.map((channel) => (
+            <button
+              key={channel}
+              type="button"
+              className="text-xs font-medium text-center text-gray-600 dark:text-gray-300 hover:text-primary"
+              onClick={() => setAll(channel)}
+              title={`Set every notification to ${notificationChannelLabels[channel]}`}
+              data-testid={`button-set-all-${channel}`}
+            >
+              {notificationChannelLabels[channel]}
+            </button>
+          ))}
+          {groups.map((group) => (
+            <React.Fragment key={group}>
+              <div className="col-span-5 pt-3 text-xs font-semibold uppercase tracking-wide text-gray-500">{group}</div>
+              {data.types.filter(t => t.group === group).map(({ type, label }) => (
+                <RadioGroup
+                  key={type}
+                  value={preferences[type]}
+                  onValueChange={(value) => setChannel(type, value as NotificationChannel)}
+                  className="contents"
+                  data-testid={`radio-notification-${type}`}
+                >
+                  <Label className="text-sm font-normal py-1">{label}</Label>
+                  {notificationChannels.map((channel) => (
+                    <div key={channel} className="flex justify-center">
+                      <RadioGroupItem value={channel} aria-label={`${label}: ${notificationChannelLabels[channel]}`} />
+                    </div>
+                  ))}
+                </RadioGroup>
+              ))}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+      <Button
+        onClick={() => saveMutation.mutate()}
+        disabled={!isDirty || saveMutation.isPending}
+        data-testid="button-save-notifications"
+      >
+        <Save className="mr-2 h-4 w-4" />
+        {saveMutation.isPending ? "Saving..." : "Save Notification Settings"}
+      </Button>
+    </div>
+  );
+}
+
 export default function Settings() {
   const { currentRole, currentUser, setCurrentUser, canManageUsers } = useRole();
   const { toast } = useToast();
@@ -1259,13 +4465,6 @@ export default function Settings() {
   const [adminActiveTab, setAdminActiveTab] = useState("user-management");
   const [frameworkOrder, setFrameworkOrder] = useState<any[]>([]);
   const [isDarkMode, setIsDarkMode] = useState(false);
-  const [notifications, setNotifications] = useState({
-    email: true,
-    push: false,
-    strategic: true,
-    tactical: true,
-    deadlines: true,
-  });
   const [newTemplateTypeName, setNewTemplateTypeName] = useState("");
   const [newExecutiveGoalName, setNewExecutiveGoalName] = useState("");
   const [newExecutiveGoalDescription, setNewExecutiveGoalDescription] = useState("");
@@ -1330,6 +4529,11 @@ export default function Settings() {
     enabled: currentUser?.role === 'administrator',
   });
 
+  const { data: rolesData } = useQuery<RolesResponse>({
+    queryKey: ["/api/admin/roles"],
+    enabled: currentUser?.role === 'administrator',
+  });
+
   const currentOrg: Organization | undefined = orgInfo ? orgInfo as Organization : undefined;
 
   const canAddUsers = true;
@@ -2050,14 +5254,18 @@ export default function Settings() {
     }
   };
 
+  // Custom roles are offered in the same list as "custom:<id>"
   const handleUserRoleChange = async (userId: string, newRole: string) => {
     try {
-      await apiRequest("PATCH", `/api/users/${userId}`, { role: newRole });
+      await apiRequest("PATCH", `/api/users/${userId}`, newRole.startsWith("custom:")
+        ? { customRoleId: newRole.slice("custom:".length) }
+        : { role: newRole });
       toast({
         title: "Success", 
         description: "User role updated successfully",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/roles"] });
     } catch (error) {
       toast({
         title: "Error",
@@ -2265,6 +5473,31 @@ export default function Settings() {
     },
   });
 
+  const updateStrategyRoleMutation = useMutation({
+    mutationFn: async ({ userId, strategyId, role }: { userId: string; strategyId: string; role: StrategyRole | null }) => {
+      const response = await apiRequest("PATCH", `/api/users/${userId}/strategy-assignments/${strategyId}`, { role });
+      return await response.json();
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${variables.userId}/strategy-assignments`] });
+      toast({
+        title: "Success",
+        description: "Strategy role updated",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update strategy role",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleStrategyRoleChange = (userId: string, strategyId: string, role: StrategyRole | null) => {
+    updateStrategyRoleMutation.mutate({ userId, strategyId, role });
+  };
+
   const handleStrategyAssignmentToggle = async (userId: string, strategyId: string, isAssigned: boolean) => {
     if (isAssigned) {
       unassignStrategyMutation.mutate({ userId, strategyId });
@@ -2354,6 +5587,7 @@ export default function Settings() {
                   { value: 'pto', icon: CalendarDays, label: 'Time Off' },
                   { value: 'notifications', icon: Bell, label: 'Notifications' },
                   { value: 'appearance', icon: Palette, label: 'Appearance' },
+                  { value: 'api-tokens', icon: KeyRound, label: 'API Tokens' },
                 ].map((tab) => {
                   const Icon = tab.icon;
                   const isActive = activeTab === tab.value;
@@ -2498,6 +5732,8 @@ export default function Settings() {
               </Card>
 
               <TwoFactorSettings />
+
+              <SsoLinkSettings />
             </TabsContent>
 
             {/* PTO / Time Off */}
@@ -2514,98 +5750,8 @@ export default function Settings() {
                     Notification Preferences
                   </CardTitle>
                 </CardHeader>
-                <CardContent className="space-y-6">
-                  <div className="space-y-4">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <Label htmlFor="email-notifications">Email Notifications</Label>
-                        <p className="text-sm text-gray-500">
-                          Receive notifications via email
-                        </p>
-                      </div>
-                      <Switch 
-                        id="email-notifications"
-                        checked={notifications.email}
-                        onCheckedChange={(checked) => 
-                          setNotifications(prev => ({ ...prev, email: checked }))
-                        }
-                        data-testid="switch-email-notifications"
-                      />
-                    </div>
-
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <Label htmlFor="push-notifications">Push Notifications</Label>
-                        <p className="text-sm text-gray-500">
-                          Browser push notifications
-                        </p>
-                      </div>
-                      <Switch 
-                        id="push-notifications"
-                        checked={notifications.push}
-                        onCheckedChange={(checked) => 
-                          setNotifications(prev => ({ ...prev, push: checked }))
-                        }
-                        data-testid="switch-push-notifications"
-                      />
-                    </div>
-
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <Label htmlFor="strategic-notifications">Strategic Updates</Label>
-                        <p className="text-sm text-gray-500">
-                          Strategy creation and milestone updates
-                        </p>
-                      </div>
-                      <Switch 
-                        id="strategic-notifications"
-                        checked={notifications.strategic}
-                        onCheckedChange={(checked) => 
-                          setNotifications(prev => ({ ...prev, strategic: checked }))
-                        }
-                        data-testid="switch-strategic-notifications"
-                      />
-                    </div>
-
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <Label htmlFor="tactical-notifications">Tactical Updates</Label>
-                        <p className="text-sm text-gray-500">
-                          Tactic assignments and progress updates
-                        </p>
-                      </div>
-                      <Switch 
-                        id="tactical-notifications"
-                        checked={notifications.tactical}
-                        onCheckedChange={(checked) => 
-                          setNotifications(prev => ({ ...prev, tactical: checked }))
-                        }
-                        data-testid="switch-tactical-notifications"
-                      />
-                    </div>
-
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <Label htmlFor="deadline-notifications">Deadline Alerts</Label>
-                        <p className="text-sm text-gray-500">
-                          Upcoming deadlines and overdue items
-                        </p>
-                      </div>
-                      <Switch 
-                        id="deadline-notifications"
-                        checked={notifications.deadlines}
-                        onCheckedChange={(checked) => 
-                          setNotifications(prev => ({ ...prev, deadlines: checked }))
-                        }
-                        data-testid="switch-deadline-notifications"
-                      />
-                    </div>
-                  </div>
-
-                  <Button data-testid="button-save-notifications">
-                    <Save className="mr-2 h-4 w-4" />
-                    Save Notification Settings
-                  </Button>
+                <CardContent>
+                  <NotificationPreferencesSettings />
                 </CardContent>
               </Card>
             </TabsContent>
@@ -2672,6 +5818,11 @@ export default function Settings() {
               </Card>
             </TabsContent>
 
+            {/* API Tokens */}
+            <TabsContent value="api-tokens" className="space-y-6">
+              <ApiTokenSettings />
+            </TabsContent>
+
 
             </Tabs>
           )}
@@ -2686,11 +5837,17 @@ export default function Settings() {
                 {[
                   { value: 'organization', icon: Building2, label: 'Organization' },
                   { value: 'user-management', icon: Users, label: 'User Roles' },
+                  { value: 'roles', icon: ShieldCheck, label: 'Roles & Permissions' },
                   { value: 'holidays', icon: Star, label: 'Holidays' },
                   { value: 'framework-management', icon: Target, label: 'Framework Order' },
                   { value: 'workstreams', icon: LayoutGrid, label: 'Workstreams' },
                   { value: 'security', icon: Shield, label: 'Security' },
+                  { value: 'sso', icon: KeyRound, label: 'Single Sign-On' },
                   { value: 'data', icon: SettingsIcon, label: 'Data Management' },
+                  { value: 'escalations', icon: AlertTriangle, label: 'Escalations' },
+                  { value: 'chat-channels', icon: MessageSquare, label: 'Chat Channels' },
+                  { value: 'webhooks', icon: Webhook, label: 'Webhooks' },
+                  { value: 'recycle-bin', icon: Trash2, label: 'Recycle Bin' },
                 ].map((tab) => {
                   const Icon = tab.icon;
                   const isActive = adminActiveTab === tab.value;
@@ -2800,6 +5957,10 @@ export default function Settings() {
                       </div>
                     </CardContent>
                   </Card>
+
+                  <ReminderSettings />
+
+                  <ProjectWakeUpSettings />
                 </TabsContent>
               )}
 
@@ -2828,8 +5989,10 @@ export default function Settings() {
                           strategies={strategies as any[]}
                           currentUserId={currentUser?.id || ''}
                           teamTags={(teamTags as TeamTag[]) || []}
+                          customRoles={rolesData?.customRoles ?? []}
                           onRoleChange={handleUserRoleChange}
                           onStrategyToggle={handleStrategyAssignmentToggle}
+                          onStrategyRoleChange={handleStrategyRoleChange}
                           onDelete={handleDeleteUser}
                           onCapacityUpdate={handleCapacityUpdate}
                           onTeamTagsUpdate={handleUserTeamTagsUpdate}
@@ -3071,6 +6234,38 @@ export default function Settings() {
                     </div>
                   </CardContent>
                 </Card>
+                <TwoFactorPolicySettings />
+                <OrganizationApiTokenSettings />
+              </TabsContent>
+
+              {/* Roles & Permissions */}
+              <TabsContent value="roles" className="space-y-6">
+                <RolesSettings />
+              </TabsContent>
+
+              {/* Single Sign-On */}
+              <TabsContent value="sso" className="space-y-6">
+                <SsoSettings />
+              </TabsContent>
+
+              {/* Escalation Rules */}
+              <TabsContent value="escalations" className="space-y-6">
+                <EscalationRuleSettings />
+              </TabsContent>
+
+              {/* Chat Channels */}
+              <TabsContent value="chat-channels" className="space-y-6">
+                <ChatChannelSettings />
+              </TabsContent>
+
+              {/* Webhooks */}
+              <TabsContent value="webhooks" className="space-y-6">
+                <WebhookSettings />
+              </TabsContent>
+
+              {/* Recycle Bin */}
+              <TabsContent value="recycle-bin" className="space-y-6">
+                <RecycleBinSettings />
               </TabsContent>
 
               {/* Administrator Data Management */}
@@ -3103,7 +6298,7 @@ export default function Settings() {
                                   <AlertDialogHeader>
                                     <AlertDialogTitle>Delete Priority</AlertDialogTitle>
                                     <AlertDialogDescription>
-                                      Are you sure you want to delete "{strategy.title}"? This action cannot be undone and will affect all associated projects.
+                                      Are you sure you want to delete "{strategy.title}"? It will be moved to the recycle bin along with all associated projects and actions.
                                     </AlertDialogDescription>
                                   </AlertDialogHeader>
                                   <AlertDialogFooter>
@@ -3137,6 +6332,8 @@ export default function Settings() {
                         </div>
                       </div>
 
+                      <OrganizationArchiveSettings />
+
                       {isOrgAdministrator() && (
                         <div className="p-4 border rounded-lg">
                           <div className="flex items-center justify-between mb-4">
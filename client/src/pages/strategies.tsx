@@ -4,14 +4,17 @@ import { useRole } from "@/hooks/use-role";
 import { Sidebar } from "@/components/layout/sidebar";
 import type { ExecutiveGoal, TeamTag } from "@shared/schema";
 import { CreateStrategyModal } from "@/components/modals/create-strategy-modal";
+import { ImportDataModal } from "@/components/modals/import-data-modal";
 import { EditStrategyModal } from "@/components/modals/edit-strategy-modal";
 import { ViewStrategyModal } from "@/components/modals/view-strategy-modal";
+import { StrategyDigestModal } from "@/components/modals/strategy-digest-modal";
 import { CreateProjectModal } from "@/components/modals/create-project-modal";
 import { EditProjectModal } from "@/components/modals/edit-project-modal";
 import { ViewProjectModal } from "@/components/modals/view-project-modal";
 import { ManageBarriersModal } from "@/components/modals/manage-barriers-modal";
 import { CreateActionModal } from "@/components/modals/create-action-modal";
 import { EditActionModal } from "@/components/modals/edit-action-modal";
+import { CommentThread } from "@/components/lists/comment-thread";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
@@ -62,7 +65,7 @@ import {
   CommandItem,
   CommandList,
 } from "@/components/ui/command";
-import { Plus, Search, Trash2, MoreVertical, Edit, Eye, CheckCircle, Archive, ChevronDown, ChevronRight, ChevronUp, ChevronLeft, ArrowRight, Target, Calendar, BarChart3, RefreshCw, Circle, FolderOpen, TrendingUp, AlertTriangle, Users, Megaphone, Link2, ExternalLink, X, Clock, ListChecks, StickyNote, Tag, Indent, Outdent, Hash, List, LayoutGrid, GripVertical, Flag } from "lucide-react";
+import { Plus, Search, Trash2, MoreVertical, Edit, Eye, CheckCircle, Archive, ChevronDown, ChevronRight, ChevronUp, ChevronLeft, ArrowRight, Target, Calendar, BarChart3, RefreshCw, Circle, FolderOpen, TrendingUp, AlertTriangle, Users, Megaphone, Link2, ExternalLink, X, Clock, ListChecks, StickyNote, Tag, Indent, Outdent, Hash, List, LayoutGrid, GripVertical, Flag, Upload, MessageSquare, Newspaper } from "lucide-react";
 import { ProgressRing } from "@/components/ui/progress-ring";
 import { PeopleSelector } from "@/components/ui/people-selector";
 import { useLocation, Link } from "wouter";
@@ -81,11 +84,12 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 export default function Strategies() {
-  const { canCreateStrategies, canEditAllStrategies } = useRole();
+  const { canCreateStrategies, canCreateProjects, canEditAllStrategies } = useRole();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [location, setLocation] = useLocation();
   const [isCreateStrategyOpen, setIsCreateStrategyOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [isEditStrategyOpen, setIsEditStrategyOpen] = useState(false);
   const [isViewStrategyOpen, setIsViewStrategyOpen] = useState(false);
   const [isCreateProjectOpen, setIsCreateProjectOpen] = useState(false);
@@ -95,6 +99,7 @@ export default function Strategies() {
   const [strategyFilter, setStrategyFilter] = useState("all");
   const [metricsModalStrategy, setMetricsModalStrategy] = useState<any>(null);
   const [continuumModalStrategy, setContinuumModalStrategy] = useState<any>(null);
+  const [digestStrategy, setDigestStrategy] = useState<any>(null);
   const [resourcesModalProject, setResourcesModalProject] = useState<any>(null);
   const [resourceHoursInputs, setResourceHoursInputs] = useState<Record<string, string>>({});
   const [collapsedStrategies, setCollapsedStrategies] = useState<Set<string>>(new Set());
@@ -147,6 +152,7 @@ export default function Strategies() {
   const [editingChecklistItemId, setEditingChecklistItemId] = useState<string | null>(null);
   const [editingChecklistItemTitle, setEditingChecklistItemTitle] = useState("");
   const [notesModalAction, setNotesModalAction] = useState<any>(null);
+  const [commentsModalTarget, setCommentsModalTarget] = useState<{ entity: "projects" | "actions"; id: string; title: string } | null>(null);
   const [actionNotes, setActionNotes] = useState("");
   const [actionPeopleModalAction, setActionPeopleModalAction] = useState<any>(null);
   
@@ -236,6 +242,13 @@ export default function Strategies() {
     queryKey: ["/api/action-people-assignments"],
   });
 
+  // Fetch comment counts for the comment icons on project and action cards
+  const { data: commentCounts } = useQuery<{ project: Record<string, number>; action: Record<string, number> }>({
+    queryKey: ["/api/comments/counts"],
+  });
+
+  const getCommentCount = (type: "project" | "action", id: string) => commentCounts?.[type]?.[id] ?? 0;
+
   // Fetch strategy-executive-goal mappings for multiple goals per strategy
   const { data: strategyExecutiveGoalMappings = [] } = useQuery<any[]>({
     queryKey: ["/api/strategy-executive-goals"],
@@ -1394,17 +1407,30 @@ export default function Strategies() {
                 <h2 className="text-2xl font-bold" style={{ color: '#1D1D1F' }}>Strategic Priorities</h2>
               </div>
             </div>
-            {canCreateStrategies() && (
-              <Button 
-                onClick={() => setIsCreateStrategyOpen(true)} 
-                className="rounded-full px-5"
-                style={{ backgroundColor: '#007AFF' }}
-                data-testid="button-create-strategy"
-              >
-                <Plus className="mr-2 h-4 w-4" />
-                New Strategic Priority
-              </Button>
-            )}
+            <div className="flex items-center gap-2">
+              {canCreateProjects() && (
+                <Button
+                  variant="outline"
+                  onClick={() => setIsImportOpen(true)}
+                  className="rounded-full px-5"
+                  data-testid="button-import-data"
+                >
+                  <Upload className="mr-2 h-4 w-4" />
+                  Import
+                </Button>
+              )}
+              {canCreateStrategies() && (
+                <Button 
+                  onClick={() => setIsCreateStrategyOpen(true)} 
+                  className="rounded-full px-5"
+                  style={{ backgroundColor: '#007AFF' }}
+                  data-testid="button-create-strategy"
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Strategic Priority
+                </Button>
+              )}
+            </div>
           </div>
         </header>
 
@@ -1601,7 +1627,17 @@ export default function Strategies() {
                               <Eye className="h-4 w-4 mr-2" />
                               View Details
                             </DropdownMenuItem>
-                            {canEditAllStrategies() && (
+                            <DropdownMenuItem
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setDigestStrategy(strategy);
+                              }}
+                              data-testid={`button-digest-strategy-${strategy.id}`}
+                            >
+                              <Newspaper className="h-4 w-4 mr-2" />
+                              Weekly Digest
+                            </DropdownMenuItem>
+                            {canEditAllStrategies(strategy.id) && (
                               <>
                                 <DropdownMenuItem
                                   onClick={(e) => {
@@ -1664,7 +1700,7 @@ export default function Strategies() {
                                     <AlertDialogHeader>
                                       <AlertDialogTitle>Delete Priority</AlertDialogTitle>
                                       <AlertDialogDescription>
-                                        Are you sure you want to delete "{strategy.title}"? This action cannot be undone and will also delete all associated projects.
+                                        Are you sure you want to delete "{strategy.title}"? It will be moved to the recycle bin along with all associated projects and actions.
                                       </AlertDialogDescription>
                                     </AlertDialogHeader>
                                     <AlertDialogFooter>
@@ -1809,7 +1845,7 @@ export default function Strategies() {
                                               </Badge>
                                             )}
                                             {/* Status dropdown - immediately after title */}
-                                            {canEditAllStrategies() ? (
+                                            {canEditAllStrategies(strategy.id) ? (
                                             <DropdownMenu>
                                               <DropdownMenuTrigger asChild>
                                                 <Button
@@ -1905,7 +1941,7 @@ export default function Strategies() {
                                               onClick={(e) => {
                                                 e.stopPropagation();
                                                 setDocumentUrlInput(project.documentFolderUrl || "");
-                                                setDocumentUrlEditing(!project.documentFolderUrl && canEditAllStrategies());
+                                                setDocumentUrlEditing(!project.documentFolderUrl && canEditAllStrategies(strategy.id));
                                                 setDocumentsModalProject(project);
                                               }}
                                               title={project.documentFolderUrl ? "Manage project documents" : "Add documents link"}
@@ -1922,7 +1958,7 @@ export default function Strategies() {
                                               onClick={(e) => {
                                                 e.stopPropagation();
                                                 setCommunicationUrlInput(project.communicationUrl || "");
-                                                setCommunicationUrlEditing(!project.communicationUrl && canEditAllStrategies());
+                                                setCommunicationUrlEditing(!project.communicationUrl && canEditAllStrategies(strategy.id));
                                                 setCommunicationModalProject(project);
                                               }}
                                               title={project.communicationUrl ? "Manage communication plan" : "Add communication link"}
@@ -1931,6 +1967,24 @@ export default function Strategies() {
                                               <Megaphone className={`w-3.5 h-3.5 ${project.communicationUrl ? 'text-blue-500' : 'text-gray-400'}`} />
                                             </Button>
                                             
+                                            {/* Comments */}
+                                            <Button
+                                              variant="ghost"
+                                              size="sm"
+                                              className="h-6 min-w-6 px-1 gap-0.5"
+                                              onClick={(e) => {
+                                                e.stopPropagation();
+                                                setCommentsModalTarget({ entity: "projects", id: project.id, title: project.title });
+                                              }}
+                                              title={getCommentCount("project", project.id) > 0 ? `${getCommentCount("project", project.id)} comments` : "Add comment"}
+                                              data-testid={`button-comments-${project.id}`}
+                                            >
+                                              <MessageSquare className={`w-3.5 h-3.5 ${getCommentCount("project", project.id) > 0 ? 'text-blue-500' : 'text-gray-400'}`} />
+                                              {getCommentCount("project", project.id) > 0 && (
+                                                <span className="text-[10px] text-blue-500">{getCommentCount("project", project.id)}</span>
+                                              )}
+                                            </Button>
+                                            
                                             {/* Three dots menu */}
                                             <DropdownMenu>
                                               <DropdownMenuTrigger asChild>
@@ -1955,7 +2009,7 @@ export default function Strategies() {
                                                   <Eye className="w-4 h-4 mr-2" />
                                                   View Details
                                                 </DropdownMenuItem>
-                                                {canEditAllStrategies() && (
+                                                {canEditAllStrategies(strategy.id) && (
                                                   <>
                                                     <DropdownMenuItem 
                                                       onClick={(e) => {
@@ -1994,7 +2048,7 @@ export default function Strategies() {
                                                         <AlertDialogHeader>
                                                           <AlertDialogTitle>Delete Project</AlertDialogTitle>
                                                           <AlertDialogDescription>
-                                                            Are you sure you want to delete "{project.title}"? This action cannot be undone.
+                                                            Are you sure you want to delete "{project.title}"? It will be moved to the recycle bin along with its actions.
                                                           </AlertDialogDescription>
                                                         </AlertDialogHeader>
                                                         <AlertDialogFooter>
@@ -2071,7 +2125,7 @@ export default function Strategies() {
                                                 </Button>
                                               </div>
                                             )}
-                                            {canEditAllStrategies() && (
+                                            {canEditAllStrategies(strategy.id) && (
                                               <Button
                                                 variant="ghost"
                                                 size="sm"
@@ -2100,12 +2154,12 @@ export default function Strategies() {
                                                 <div
                                                   key={statusCol.value}
                                                   className="flex-1 min-w-[160px] max-w-[220px]"
-                                                  onDragOver={(e) => { if (canEditAllStrategies()) { e.preventDefault(); e.currentTarget.classList.add('ring-2', 'ring-blue-400'); } }}
+                                                  onDragOver={(e) => { if (canEditAllStrategies(strategy.id)) { e.preventDefault(); e.currentTarget.classList.add('ring-2', 'ring-blue-400'); } }}
                                                   onDragLeave={(e) => { e.currentTarget.classList.remove('ring-2', 'ring-blue-400'); }}
                                                   onDrop={(e) => {
                                                     e.preventDefault();
                                                     e.currentTarget.classList.remove('ring-2', 'ring-blue-400');
-                                                    if (draggedActionId && canEditAllStrategies()) {
+                                                    if (draggedActionId && canEditAllStrategies(strategy.id)) {
                                                       const action = wsActions.find((a: any) => a.id === draggedActionId);
                                                       if (action && action.status !== statusCol.value) {
                                                         updateActionStatusMutation.mutate({ action, status: statusCol.value });
@@ -2131,7 +2185,7 @@ export default function Strategies() {
                                                       return (
                                                         <div
                                                           key={action.id}
-                                                          draggable={canEditAllStrategies()}
+                                                          draggable={canEditAllStrategies(strategy.id)}
                                                           onDragStart={(e) => {
                                                             setDraggedActionId(action.id);
                                                             e.dataTransfer.effectAllowed = 'move';
@@ -2139,7 +2193,7 @@ export default function Strategies() {
                                                           onDragEnd={() => setDraggedActionId(null)}
                                                           className={`bg-white dark:bg-gray-700 rounded-lg p-2 shadow-sm border border-gray-200 dark:border-gray-600 cursor-pointer hover:shadow-md transition-shadow ${
                                                             draggedActionId === action.id ? 'opacity-50' : ''
-                                                          } ${canEditAllStrategies() ? 'cursor-grab active:cursor-grabbing' : ''}`}
+                                                          } ${canEditAllStrategies(strategy.id) ? 'cursor-grab active:cursor-grabbing' : ''}`}
                                                           onClick={() => setChecklistModalAction(action)}
                                                         >
                                                           <p className="text-xs font-medium text-gray-800 dark:text-gray-200 mb-1.5 line-clamp-2">{action.title}</p>
@@ -2185,7 +2239,7 @@ export default function Strategies() {
                                                   <span className="text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wide">{phase.name}</span>
                                                   <span className="text-xs text-gray-400">({phaseActions.length})</span>
                                                 </div>
-                                                {canEditAllStrategies() && phaseActions.length === 0 && (
+                                                {canEditAllStrategies(strategy.id) && phaseActions.length === 0 && (
                                                   <Button
                                                     variant="ghost"
                                                     size="sm"
@@ -2215,7 +2269,7 @@ export default function Strategies() {
                                                       data-testid={`ws-action-row-${action.id}`}
                                                     >
                                                       <div className="flex items-center gap-2 flex-1 min-w-0">
-                                                        {canEditAllStrategies() ? (
+                                                        {canEditAllStrategies(strategy.id) ? (
                                                           <DropdownMenu>
                                                             <DropdownMenuTrigger asChild>
                                                               <Button variant="ghost" size="sm" className="h-5 px-1 py-0 flex items-center gap-0.5">
@@ -2278,13 +2332,17 @@ export default function Strategies() {
                                                         <Button variant="ghost" size="sm" className="h-5 w-5 p-0" onClick={(e) => { e.stopPropagation(); setChecklistModalAction(action); }} title="View checklist">
                                                           <ListChecks className={`w-3 h-3 ${actionHasIncompleteChecklist(action.id) ? 'text-yellow-500' : getActionChecklistItems(action.id).length > 0 ? 'text-green-500' : 'text-gray-400'}`} />
                                                         </Button>
-                                                        <Button variant="ghost" size="sm" className="h-5 w-5 p-0" onClick={(e) => { e.stopPropagation(); setActionFolderUrl(action.documentFolderUrl || ""); setActionFolderUrlEditing(!action.documentFolderUrl && canEditAllStrategies()); setFolderUrlModalAction(action); }} title={action.documentFolderUrl ? "View folder link" : "Add folder link"}>
+                                                        <Button variant="ghost" size="sm" className="h-5 w-5 p-0" onClick={(e) => { e.stopPropagation(); setActionFolderUrl(action.documentFolderUrl || ""); setActionFolderUrlEditing(!action.documentFolderUrl && canEditAllStrategies(strategy.id)); setFolderUrlModalAction(action); }} title={action.documentFolderUrl ? "View folder link" : "Add folder link"}>
                                                           <FolderOpen className={`w-3 h-3 ${action.documentFolderUrl ? 'text-blue-500' : 'text-gray-400'}`} />
                                                         </Button>
                                                         <Button variant="ghost" size="sm" className="h-5 w-5 p-0" onClick={(e) => { e.stopPropagation(); setNotesModalAction(action); setActionNotes(action.notes || ""); }} title={action.notes ? "View notes" : "Add notes"}>
                                                           <StickyNote className={`w-3 h-3 ${action.notes ? 'text-blue-500' : 'text-gray-400'}`} />
                                                         </Button>
-                                                        {canEditAllStrategies() && (
+                                                        <Button variant="ghost" size="sm" className="h-5 min-w-5 px-0.5 gap-0.5" onClick={(e) => { e.stopPropagation(); setCommentsModalTarget({ entity: "actions", id: action.id, title: action.title }); }} title={getCommentCount("action", action.id) > 0 ? `${getCommentCount("action", action.id)} comments` : "Add comment"}>
+                                                          <MessageSquare className={`w-3 h-3 ${getCommentCount("action", action.id) > 0 ? 'text-blue-500' : 'text-gray-400'}`} />
+                                                          {getCommentCount("action", action.id) > 0 && <span className="text-[10px] text-blue-500">{getCommentCount("action", action.id)}</span>}
+                                                        </Button>
+                                                        {canEditAllStrategies(strategy.id) && (
                                                           <DropdownMenu>
                                                             <DropdownMenuTrigger asChild>
                                                               <Button variant="ghost" size="sm" className="h-5 w-5 p-0" onClick={(e) => e.stopPropagation()}>
@@ -2315,7 +2373,7 @@ export default function Strategies() {
                                                                   <AlertDialogHeader>
                                                                     <AlertDialogTitle>Delete Task</AlertDialogTitle>
                                                                     <AlertDialogDescription>
-                                                                      Are you sure you want to delete "{action.title}"? This action cannot be undone.
+                                                                      Are you sure you want to delete "{action.title}"? It will be moved to the recycle bin.
                                                                     </AlertDialogDescription>
                                                                   </AlertDialogHeader>
                                                                   <AlertDialogFooter>
@@ -2354,7 +2412,7 @@ export default function Strategies() {
                                                     data-testid={`ws-action-row-${action.id}`}
                                                   >
                                                     <div className="flex items-center gap-2 flex-1 min-w-0">
-                                                      {canEditAllStrategies() ? (
+                                                      {canEditAllStrategies(strategy.id) ? (
                                                         <DropdownMenu>
                                                           <DropdownMenuTrigger asChild>
                                                             <Button variant="ghost" size="sm" className="h-5 px-1 py-0 flex items-center gap-0.5">
@@ -2409,13 +2467,17 @@ export default function Strategies() {
                                                       <Button variant="ghost" size="sm" className="h-5 w-5 p-0" onClick={(e) => { e.stopPropagation(); setChecklistModalAction(action); }} title="View checklist">
                                                         <ListChecks className={`w-3 h-3 ${actionHasIncompleteChecklist(action.id) ? 'text-yellow-500' : getActionChecklistItems(action.id).length > 0 ? 'text-green-500' : 'text-gray-400'}`} />
                                                       </Button>
-                                                      <Button variant="ghost" size="sm" className="h-5 w-5 p-0" onClick={(e) => { e.stopPropagation(); setActionFolderUrl(action.documentFolderUrl || ""); setActionFolderUrlEditing(!action.documentFolderUrl && canEditAllStrategies()); setFolderUrlModalAction(action); }} title={action.documentFolderUrl ? "View folder link" : "Add folder link"}>
+                                                      <Button variant="ghost" size="sm" className="h-5 w-5 p-0" onClick={(e) => { e.stopPropagation(); setActionFolderUrl(action.documentFolderUrl || ""); setActionFolderUrlEditing(!action.documentFolderUrl && canEditAllStrategies(strategy.id)); setFolderUrlModalAction(action); }} title={action.documentFolderUrl ? "View folder link" : "Add folder link"}>
                                                         <FolderOpen className={`w-3 h-3 ${action.documentFolderUrl ? 'text-blue-500' : 'text-gray-400'}`} />
                                                       </Button>
                                                       <Button variant="ghost" size="sm" className="h-5 w-5 p-0" onClick={(e) => { e.stopPropagation(); setNotesModalAction(action); setActionNotes(action.notes || ""); }} title={action.notes ? "View notes" : "Add notes"}>
                                                         <StickyNote className={`w-3 h-3 ${action.notes ? 'text-blue-500' : 'text-gray-400'}`} />
                                                       </Button>
-                                                      {canEditAllStrategies() && (
+                                                      <Button variant="ghost" size="sm" className="h-5 min-w-5 px-0.5 gap-0.5" onClick={(e) => { e.stopPropagation(); setCommentsModalTarget({ entity: "actions", id: action.id, title: action.title }); }} title={getCommentCount("action", action.id) > 0 ? `${getCommentCount("action", action.id)} comments` : "Add comment"}>
+                                                        <MessageSquare className={`w-3 h-3 ${getCommentCount("action", action.id) > 0 ? 'text-blue-500' : 'text-gray-400'}`} />
+                                                        {getCommentCount("action", action.id) > 0 && <span className="text-[10px] text-blue-500">{getCommentCount("action", action.id)}</span>}
+                                                      </Button>
+                                                      {canEditAllStrategies(strategy.id) && (
                                                         <DropdownMenu>
                                                           <DropdownMenuTrigger asChild>
                                                             <Button variant="ghost" size="sm" className="h-5 w-5 p-0" onClick={(e) => e.stopPropagation()}>
@@ -2446,7 +2508,7 @@ export default function Strategies() {
                                                                 <AlertDialogHeader>
                                                                   <AlertDialogTitle>Delete Task</AlertDialogTitle>
                                                                   <AlertDialogDescription>
-                                                                    Are you sure you want to delete "{action.title}"? This action cannot be undone.
+                                                                    Are you sure you want to delete "{action.title}"? It will be moved to the recycle bin.
                                                                   </AlertDialogDescription>
                                                                 </AlertDialogHeader>
                                                                 <AlertDialogFooter>
@@ -2472,7 +2534,7 @@ export default function Strategies() {
                                         {wsActions.length === 0 && (
                                           <p className="text-sm text-gray-400 dark:text-gray-500 italic py-2">No workstream actions yet. Use the Add Task button to get started.</p>
                                         )}
-                                        {canEditAllStrategies() && (
+                                        {canEditAllStrategies(strategy.id) && (
                                           <Button
                                             variant="ghost"
                                             size="sm"
@@ -2545,7 +2607,7 @@ export default function Strategies() {
                                                 onDrop={(e) => {
                                                   e.preventDefault();
                                                   e.currentTarget.classList.remove('ring-2', 'ring-blue-400');
-                                                  if (draggedActionId && canEditAllStrategies()) {
+                                                  if (draggedActionId && canEditAllStrategies(strategy.id)) {
                                                     const action = projectActions.find((a: any) => a.id === draggedActionId);
                                                     if (action && action.status !== statusCol.value) {
                                                       updateActionStatusMutation.mutate({ action, status: statusCol.value });
@@ -2571,7 +2633,7 @@ export default function Strategies() {
                                                     return (
                                                       <div
                                                         key={action.id}
-                                                        draggable={canEditAllStrategies()}
+                                                        draggable={canEditAllStrategies(strategy.id)}
                                                         onDragStart={(e) => {
                                                           setDraggedActionId(action.id);
                                                           e.dataTransfer.effectAllowed = 'move';
@@ -2579,7 +2641,7 @@ export default function Strategies() {
                                                         onDragEnd={() => setDraggedActionId(null)}
                                                         className={`bg-white dark:bg-gray-700 rounded-lg p-2 shadow-sm border border-gray-200 dark:border-gray-600 cursor-pointer hover:shadow-md transition-shadow ${
                                                           draggedActionId === action.id ? 'opacity-50' : ''
-                                                        } ${canEditAllStrategies() ? 'cursor-grab active:cursor-grabbing' : ''}`}
+                                                        } ${canEditAllStrategies(strategy.id) ? 'cursor-grab active:cursor-grabbing' : ''}`}
                                                         onClick={() => setChecklistModalAction(action)}
                                                         data-testid={`kanban-card-${action.id}`}
                                                       >
@@ -2625,7 +2687,7 @@ export default function Strategies() {
                                               {/* Left side: Status dropdown and title */}
                                               <div className="flex items-center gap-2 flex-1 min-w-0">
                                                 {/* Status dropdown */}
-                                                {canEditAllStrategies() ? (
+                                                {canEditAllStrategies(strategy.id) ? (
                                                   <DropdownMenu>
                                                     <DropdownMenuTrigger asChild>
                                                       <Button
@@ -2740,7 +2802,7 @@ export default function Strategies() {
                                                   onClick={(e) => {
                                                     e.stopPropagation();
                                                     setActionFolderUrl(action.documentFolderUrl || "");
-                                                    setActionFolderUrlEditing(!action.documentFolderUrl && canEditAllStrategies());
+                                                    setActionFolderUrlEditing(!action.documentFolderUrl && canEditAllStrategies(strategy.id));
                                                     setFolderUrlModalAction(action);
                                                   }}
                                                   title={action.documentFolderUrl ? "View folder link" : "Add folder link"}
@@ -2765,8 +2827,26 @@ export default function Strategies() {
                                                   <StickyNote className={`w-3 h-3 ${action.notes ? 'text-blue-500' : 'text-gray-400'}`} />
                                                 </Button>
                                                 
-                                                {/* Three dots menu - 6th (last) - only show when editable */}
-                                                {canEditAllStrategies() && (
+                                                {/* Comments - 6th */}
+                                                <Button
+                                                  variant="ghost"
+                                                  size="sm"
+                                                  className="h-5 min-w-5 px-0.5 gap-0.5"
+                                                  onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    setCommentsModalTarget({ entity: "actions", id: action.id, title: action.title });
+                                                  }}
+                                                  title={getCommentCount("action", action.id) > 0 ? `${getCommentCount("action", action.id)} comments` : "Add comment"}
+                                                  data-testid={`action-comments-${action.id}`}
+                                                >
+                                                  <MessageSquare className={`w-3 h-3 ${getCommentCount("action", action.id) > 0 ? 'text-blue-500' : 'text-gray-400'}`} />
+                                                  {getCommentCount("action", action.id) > 0 && (
+                                                    <span className="text-[10px] text-blue-500">{getCommentCount("action", action.id)}</span>
+                                                  )}
+                                                </Button>
+                                                
+                                                {/* Three dots menu - 7th (last) - only show when editable */}
+                                                {canEditAllStrategies(strategy.id) && (
                                                   <DropdownMenu>
                                                     <DropdownMenuTrigger asChild>
                                                       <Button
@@ -2821,7 +2901,7 @@ export default function Strategies() {
                                                           <AlertDialogHeader>
                                                             <AlertDialogTitle>Delete Action</AlertDialogTitle>
                                                             <AlertDialogDescription>
-                                                              Are you sure you want to delete "{action.title}"? This action cannot be undone.
+                                                              Are you sure you want to delete "{action.title}"? It will be moved to the recycle bin.
                                                             </AlertDialogDescription>
                                                           </AlertDialogHeader>
                                                           <AlertDialogFooter>
@@ -2850,7 +2930,7 @@ export default function Strategies() {
                                       )}
                                         
                                         {/* Add Action button inside project */}
-                                        {canEditAllStrategies() && (
+                                        {canEditAllStrategies(strategy.id) && (
                                           <Button
                                             variant="ghost"
                                             size="sm"
@@ -2952,6 +3032,10 @@ export default function Strategies() {
         open={isCreateStrategyOpen}
         onOpenChange={setIsCreateStrategyOpen}
       />
+      <ImportDataModal
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+      />
       <EditStrategyModal
         open={isEditStrategyOpen}
         onOpenChange={setIsEditStrategyOpen}
@@ -2962,6 +3046,11 @@ export default function Strategies() {
         onOpenChange={setIsViewStrategyOpen}
         strategy={selectedStrategy}
       />
+      <StrategyDigestModal
+        open={!!digestStrategy}
+        onOpenChange={(open) => !open && setDigestStrategy(null)}
+        strategy={digestStrategy}
+      />
       <CreateProjectModal
         isOpen={isCreateProjectOpen}
         onClose={() => setIsCreateProjectOpen(false)}
@@ -4756,6 +4845,33 @@ export default function Strategies() {
         </DialogContent>
       </Dialog>
 
+      {/* Comments Modal */}
+      <Dialog
+        open={!!commentsModalTarget}
+        onOpenChange={(open) => {
+          if (!open) setCommentsModalTarget(null);
+        }}
+      >
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <MessageSquare className="h-5 w-5" />
+              {commentsModalTarget?.entity === "projects" ? "Project Comments" : "Action Comments"}
+            </DialogTitle>
+          </DialogHeader>
+          {commentsModalTarget && (
+            <div className="space-y-4">
+              <div className="border-b pb-3">
+                <h3 className="font-semibold text-gray-900 dark:text-white">
+                  {commentsModalTarget.title}
+                </h3>
+              </div>
+              <CommentThread entity={commentsModalTarget.entity} entityId={commentsModalTarget.id} />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Action Dependencies Modal */}
       <Dialog 
         open={!!dependenciesModalAction} 
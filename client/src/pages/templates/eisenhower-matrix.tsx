@@ -8,6 +8,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { useToast } from "@/hooks/use-toast";
 import { ArrowLeft, Download, FileText, Zap, Calendar, Users, Trash2, Plus, X, PlayCircle } from "lucide-react";
 import { Document, Packer, Paragraph, HeadingLevel } from "docx";
+import { FrameworkDocumentControls } from "@/components/strategic-framework/framework-document-controls";
 
 type QuadrantType = "do" | "schedule" | "delegate" | "delete";
 
@@ -269,6 +270,12 @@ export default function EisenhowerMatrixTemplate() {
                   </div>
                 </DialogContent>
               </Dialog>
+              <FrameworkDocumentControls
+                frameworkType="eisenhower_matrix"
+                defaultTitle="Eisenhower Matrix"
+                content={matrix}
+                onLoad={setMatrix}
+              />
               <Button variant="outline" onClick={exportDocx} data-testid="button-eisenhower-export-docx">
                 <Download className="w-4 h-4 mr-2" />
                 Download Word
@@ -14,6 +14,7 @@ import {
   Rocket, Battery, HelpCircle, GraduationCap, Quote
 } from "lucide-react";
 import { Document, Packer, Paragraph, HeadingLevel, TextRun } from "docx";
+import { FrameworkDocumentControls } from "@/components/strategic-framework/framework-document-controls";
 
 type CanvasData = {
   problemStatement: string;
@@ -355,6 +356,12 @@ export default function FirstPrinciplesTemplate() {
                   </div>
                 </DialogContent>
               </Dialog>
+              <FrameworkDocumentControls
+                frameworkType="first_principles"
+                defaultTitle="First Principles Canvas"
+                content={canvasData}
+                onLoad={setCanvasData}
+              />
               <Button variant="outline" onClick={exportDocx} data-testid="button-first-principles-export-docx">
                 <Download className="w-4 h-4 mr-2" />
                 Download Word
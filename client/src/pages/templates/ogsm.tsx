@@ -10,6 +10,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { useToast } from "@/hooks/use-toast";
 import { ArrowLeft, Download, Layers, Plus, Trash2, PlayCircle, Target, TrendingUp, Compass, BarChart3 } from "lucide-react";
 import { Document, Packer, Paragraph, HeadingLevel, Table, TableRow, TableCell, WidthType, BorderStyle, AlignmentType } from "docx";
+import { FrameworkDocumentControls } from "@/components/strategic-framework/framework-document-controls";
 
 type Strategy = {
   id: string;
@@ -70,6 +71,13 @@ export default function OgsmTemplate() {
   const [initiatives, setInitiatives] = useState<Initiative[]>(defaultInitiatives);
   const { toast } = useToast();
 
+  const loadDocument = (content: { objective?: string; goals?: Goal[]; strategies?: Strategy[]; initiatives?: Initiative[] }) => {
+    if (content.objective !== undefined) setObjective(content.objective);
+    if (content.goals) setGoals(content.goals);
+    if (content.strategies) setStrategies(content.strategies);
+    if (content.initiatives) setInitiatives(content.initiatives);
+  };
+
   const addGoal = () => {
     setGoals([...goals, { id: Date.now().toString(), name: "", target: "" }]);
   };
@@ -278,6 +286,12 @@ export default function OgsmTemplate() {
                   </div>
                 </DialogContent>
               </Dialog>
+              <FrameworkDocumentControls
+                frameworkType="ogsm"
+                defaultTitle="OGSM Plan"
+                content={{ objective, goals, strategies, initiatives }}
+                onLoad={loadDocument}
+              />
               <Button onClick={exportDocx} data-testid="button-export-docx">
                 <Download className="w-4 h-4 mr-2" />
                 Export Word
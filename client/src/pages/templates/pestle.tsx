@@ -16,6 +16,7 @@ import {
   Landmark, TrendingUp, Users, Cpu, Scale, Leaf, PlayCircle
 } from "lucide-react";
 import { Document, Packer, Paragraph, HeadingLevel, TextRun } from "docx";
+import { FrameworkDocumentControls } from "@/components/strategic-framework/framework-document-controls";
 
 type TrendDirection = "Rising" | "Declining" | "Stable" | "Volatile" | "Unknown";
 type TimeHorizon = "0-12 months" | "1-3 years" | "3-5 years" | "5+ years";
@@ -569,6 +570,12 @@ export default function PestleTemplate() {
                   </div>
                 </DialogContent>
               </Dialog>
+              <FrameworkDocumentControls
+                frameworkType="pestle"
+                defaultTitle="PESTLE Analysis"
+                content={data}
+                onLoad={setData}
+              />
               <Button variant="outline" onClick={exportDocx} data-testid="button-pestle-export-docx">
                 <Download className="w-4 h-4 mr-2" />
                 Download Word
@@ -16,6 +16,7 @@ import {
   DoorOpen, Factory, Users, Repeat, Swords, AlertTriangle, Target, PlayCircle
 } from "lucide-react";
 import { Document, Packer, Paragraph, HeadingLevel, TextRun } from "docx";
+import { FrameworkDocumentControls } from "@/components/strategic-framework/framework-document-controls";
 
 type ForceType = "newEntrants" | "supplierPower" | "buyerPower" | "substitutes" | "competitiveRivalry";
 
@@ -801,6 +802,12 @@ export default function PortersFiveForcesTemplate() {
                   </div>
                 </DialogContent>
               </Dialog>
+              <FrameworkDocumentControls
+                frameworkType="porters_five_forces"
+                defaultTitle="Porter's Five Forces"
+                content={data}
+                onLoad={setData}
+              />
               <Button variant="outline" onClick={exportDocx} data-testid="button-porter-export-docx">
                 <Download className="w-4 h-4 mr-2" />
                 Download Word
@@ -9,6 +9,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { useToast } from "@/hooks/use-toast";
 import { ArrowLeft, Download, FileText, Target, BarChart2, CheckCircle, Clock, Compass, PlayCircle } from "lucide-react";
 import { Document, Packer, Paragraph, HeadingLevel } from "docx";
+import { FrameworkDocumentControls } from "@/components/strategic-framework/framework-document-controls";
 
 type SmartGoal = {
   specific: string;
@@ -161,6 +162,12 @@ export default function SmartGoalsTemplate() {
                   </div>
                 </DialogContent>
               </Dialog>
+              <FrameworkDocumentControls
+                frameworkType="smart_goals"
+                defaultTitle="SMART Goal"
+                content={goal}
+                onLoad={setGoal}
+              />
               <Button variant="outline" onClick={exportDocx} data-testid="button-smart-export-docx">
                 <Download className="w-4 h-4 mr-2" />
                 Download Word
@@ -11,6 +11,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { useToast } from "@/hooks/use-toast";
 import { ArrowLeft, Download, FileText, Plus, X, Target, Compass, Flag, BarChart3, Rocket, AlertTriangle, PlayCircle } from "lucide-react";
 import { Document, Packer, Paragraph, HeadingLevel, TextRun } from "docx";
+import { FrameworkDocumentControls } from "@/components/strategic-framework/framework-document-controls";
 
 type Objective = {
   id: string;
@@ -387,6 +388,12 @@ export default function StrategyOnAPage() {
                   </div>
                 </DialogContent>
               </Dialog>
+              <FrameworkDocumentControls
+                frameworkType="strategy_on_a_page"
+                defaultTitle="Strategy on a Page"
+                content={data}
+                onLoad={setData}
+              />
               <Button variant="outline" onClick={exportDocx} data-testid="button-soap-export-docx">
                 <Download className="w-4 h-4 mr-2" />
                 Download Word
@@ -7,6 +7,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { useToast } from "@/hooks/use-toast";
 import { ArrowLeft, Download, FileText, CheckCircle2, AlertTriangle, TrendingUp, ShieldAlert, PlayCircle } from "lucide-react";
 import { Document, Packer, Paragraph, HeadingLevel } from "docx";
+import { FrameworkDocumentControls } from "@/components/strategic-framework/framework-document-controls";
 
 const defaultContent = {
   strengths: `• Strong market position and brand recognition
@@ -134,6 +135,12 @@ export default function SwotTemplate() {
                   </div>
                 </DialogContent>
               </Dialog>
+              <FrameworkDocumentControls
+                frameworkType="swot"
+                defaultTitle="SWOT Analysis"
+                content={swotData}
+                onLoad={setSwotData}
+              />
               <Button variant="outline" onClick={exportDocx} data-testid="button-swot-export-docx">
                 <Download className="w-4 h-4 mr-2" />
                 Download Word
@@ -0,0 +1,173 @@
+/**
+ * Minimal OpenID Connect identity provider for trying single sign-on locally
+ *
+ * Every authorization request is approved straight away as the configured user, so do not
+ * expose this anywhere but your own machine.
+ *
+ * Usage: npx tsx scripts/mock-oidc-idp.ts
+ *
+ * Then, in Settings > Administrator > Single Sign-On:
+ *   Issuer URL:     http://localhost:9400
+ *   Client ID:      erp-team
+ *   Client secret:  mock-secret
+ *
+ * Environment (all optional):
+ *   MOCK_IDP_PORT            Port to listen on (default 9400)
+ *   MOCK_IDP_CLIENT_ID       Expected client ID (default erp-team)
+ *   MOCK_IDP_CLIENT_SECRET   Expected client secret (default mock-secret)
+ *   MOCK_IDP_EMAIL           Email of the signed-in user (default sso.user@example.com)
+ *   MOCK_IDP_GIVEN_NAME      First name (default Sso)
+ *   MOCK_IDP_FAMILY_NAME     Last name (default User)
+ *   MOCK_IDP_GROUPS          Comma-separated groups (default erp-members)
+ *
+ * Restart with different values to sign in as someone else or to try out group mappings.
+ */
+
+import express from "express";
+import crypto from "crypto";
+
+const port = Number(process.env.MOCK_IDP_PORT || 9400);
+const issuer = `http://localhost:${port}`;
+const clientId = process.env.MOCK_IDP_CLIENT_ID || "erp-team";
+const clientSecret = process.env.MOCK_IDP_CLIENT_SECRET || "mock-secret";
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+const keyId = crypto.randomBytes(8).toString("hex");
+
+interface MockUser {
+  sub: string;
+  email: string;
+  given_name: string;
+  family_name: string;
+  groups: string[];
+}
+
+interface PendingCode {
+  user: MockUser;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string | undefined;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+const accessTokens = new Map<string, MockUser>();
+
+const base64url = (input: Buffer | string) => Buffer.from(input).toString("base64url");
+
+function signIdToken(claims: Record<string, unknown>): string {
+  const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT", kid: keyId }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = crypto.sign("RSA-SHA256", Buffer.from(`${header}.${payload}`), privateKey);
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+function configuredUser(): MockUser {
+  const email = (process.env.MOCK_IDP_EMAIL || "sso.user@example.com").toLowerCase();
+  return {
+    // Stable per email, like a real IdP's subject identifier
+    sub: crypto.createHash("sha256").update(email).digest("hex").slice(0, 24),
+    email,
+    given_name: process.env.MOCK_IDP_GIVEN_NAME || "Sso",
+    family_name: process.env.MOCK_IDP_FAMILY_NAME || "User",
+    groups: (process.env.MOCK_IDP_GROUPS ?? "erp-members").split(",").map(group => group.trim()).filter(Boolean),
+  };
+}
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get("/.well-known/openid-configuration", (_req, res) => {
+  res.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    userinfo_endpoint: `${issuer}/userinfo`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ["code"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["RS256"],
+    scopes_supported: ["openid", "email", "profile", "groups"],
+    token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post"],
+    code_challenge_methods_supported: ["S256"],
+  });
+});
+
+app.get("/jwks", (_req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: "jwk" }), kid: keyId, use: "sig", alg: "RS256" }] });
+});
+
+app.get("/authorize", (req, res) => {
+  const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method } = req.query as Record<string, string | undefined>;
+  if (client_id !== clientId || !redirect_uri) {
+    return res.status(400).send("Unknown client_id or missing redirect_uri");
+  }
+  if (!code_challenge || code_challenge_method !== "S256") {
+    return res.status(400).send("PKCE with S256 is required");
+  }
+
+  const user = configuredUser();
+  const code = crypto.randomBytes(16).toString("hex");
+  codes.set(code, { user, redirectUri: redirect_uri, codeChallenge: code_challenge, nonce, expiresAt: Date.now() + 60_000 });
+  console.log(`Authorized ${user.email} (groups: ${user.groups.join(", ") || "none"})`);
+
+  const target = new URL(redirect_uri);
+  target.searchParams.set("code", code);
+  if (state) target.searchParams.set("state", state);
+  res.redirect(target.href);
+});
+
+app.post("/token", (req, res) => {
+  let id = req.body.client_id;
+  let secret = req.body.client_secret;
+  const basic = req.headers.authorization?.match(/^Basic (.+)$/);
+  if (basic) {
+    const [user, password] = Buffer.from(basic[1], "base64").toString().split(":");
+    id = decodeURIComponent(user);
+    secret = decodeURIComponent(password ?? "");
+  }
+  if (id !== clientId || secret !== clientSecret) {
+    return res.status(401).json({ error: "invalid_client" });
+  }
+
+  const pending = codes.get(req.body.code);
+  codes.delete(req.body.code);
+  if (!pending || pending.expiresAt < Date.now() || pending.redirectUri !== req.body.redirect_uri) {
+    return res.status(400).json({ error: "invalid_grant" });
+  }
+  const challenge = crypto.createHash("sha256").update(req.body.code_verifier || "").digest("base64url");
+  if (challenge !== pending.codeChallenge) {
+    return res.status(400).json({ error: "invalid_grant", error_description: "PKCE verification failed" });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const accessToken = crypto.randomBytes(24).toString("hex");
+  accessTokens.set(accessToken, pending.user);
+  res.json({
+    access_token: accessToken,
+    token_type: "Bearer",
+    expires_in: 3600,
+    id_token: signIdToken({
+      iss: issuer,
+      aud: clientId,
+      iat: now,
+      exp: now + 300,
+      nonce: pending.nonce,
+      ...pending.user,
+      email_verified: true,
+    }),
+  });
+});
+
+app.get("/userinfo", (req, res) => {
+  const token = req.headers.authorization?.replace(/^Bearer /, "");
+  const user = token ? accessTokens.get(token) : undefined;
+  if (!user) {
+    return res.status(401).json({ error: "invalid_token" });
+  }
+  res.json({ ...user, email_verified: true });
+});
+
+app.listen(port, () => {
+  console.log(`Mock OpenID Connect provider listening on ${issuer} (client ${clientId})`);
+});
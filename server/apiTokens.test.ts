@@ -0,0 +1,149 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createTestOrganization,
+  createTestProject,
+  createTestStrategy,
+  createTestUser,
+  startTestServer,
+  type TestServer,
+} from './test/fixtures';
+import { storage } from './storage';
+import { generateApiToken, grantableApiTokenScopes, requiredApiTokenScope } from './apiTokens';
+import { apiTokenScopes, type ApiTokenScope, type Project, type User } from '@shared/schema';
+
+describe('API token scopes', () => {
+  test('each endpoint group needs its read scope for reads and its write scope for changes', () => {
+    assert.equal(requiredApiTokenScope('GET', '/api/projects/123'), 'read:projects');
+    assert.equal(requiredApiTokenScope('head', '/api/actions'), 'read:actions');
+    assert.equal(requiredApiTokenScope('PATCH', '/api/actions/123'), 'write:actions');
+    assert.equal(requiredApiTokenScope('POST', '/api/strategies'), 'write:strategies');
+    assert.equal(requiredApiTokenScope('POST', '/api/users'), 'admin:users');
+    assert.equal(requiredApiTokenScope('GET', '/api/admin/recycle-bin'), 'admin:organization');
+  });
+
+  test('tokens cannot reach endpoints outside the scoped groups', () => {
+    assert.equal(requiredApiTokenScope('GET', '/api/api-tokens'), null);
+    assert.equal(requiredApiTokenScope('POST', '/api/auth/login'), null);
+    // A shared prefix is not enough; the path must be the group or sit below it
+    assert.equal(requiredApiTokenScope('GET', '/api/projects-export'), null);
+  });
+});
+
+describe('granting API token scopes', () => {
+  let organizationId: string;
+
+  before(async () => {
+    organizationId = (await createTestOrganization()).id;
+  });
+
+  const readScopes = apiTokenScopes.filter(scope => scope.startsWith('read:'));
+
+  test('viewers can only grant read scopes', async () => {
+    const viewer = await createTestUser(organizationId, { role: 'view' });
+    assert.deepEqual(await grantableApiTokenScopes(viewer, apiTokenScopes), readScopes);
+  });
+
+  test('write scopes follow the capabilities a strategy assignment gives', async () => {
+    const admin = await createTestUser(organizationId, { role: 'administrator' });
+    const strategy = await createTestStrategy(admin);
+    const viewer = await createTestUser(organizationId, { role: 'view' });
+    await storage.assignStrategy(viewer.id, strategy.id, admin.id, 'co_lead');
+
+    const granted = await grantableApiTokenScopes(viewer, apiTokenScopes);
+    assert.ok(granted.includes('write:projects'));
+    assert.ok(granted.includes('write:actions'));
+    assert.equal(granted.includes('admin:users'), false);
+  });
+
+  test('only administrators can grant admin scopes', async () => {
+    const colead = await createTestUser(organizationId, { role: 'co_lead' });
+    const admin = await createTestUser(organizationId, { role: 'administrator' });
+    const adminScopes: ApiTokenScope[] = ['admin:users', 'admin:organization'];
+    assert.deepEqual(await grantableApiTokenScopes(colead, adminScopes), []);
+    assert.deepEqual(await grantableApiTokenScopes(admin, adminScopes), adminScopes);
+  });
+});
+
+describe('API token routes and authentication', () => {
+  let server: TestServer;
+  let admin: User;
+  let project: Project;
+
+  before(async () => {
+    server = await startTestServer();
+    admin = await createTestUser((await createTestOrganization()).id, { role: 'administrator' });
+    project = await createTestProject(admin, await createTestStrategy(admin));
+  });
+
+  after(() => server.close());
+
+  const issueToken = async (owner: User, scopes: ApiTokenScope[], expiresAt: Date | null = null) => {
+    const { token, tokenHash, tokenPrefix } = generateApiToken();
+    const created = await storage.createApiToken({
+      userId: owner.id,
+      organizationId: owner.organizationId!,
+      name: 'Test token',
+      tokenPrefix,
+      tokenHash,
+      scopes: JSON.stringify(scopes),
+      expiresAt,
+    });
+    return { token, id: created.id };
+  };
+
+  test('a token can be created without an expiry date, but not with one in the past', async () => {
+    const created = await server.request(admin, 'POST', '/api/api-tokens', { name: 'CI', scopes: ['read:projects'] });
+    assert.equal(created.status, 201);
+    assert.equal(created.body.expiresAt, null);
+    assert.ok(created.body.token.startsWith('erp_pat_'));
+    assert.equal(created.body.tokenHash, undefined);
+
+    const expired = await server.request(admin, 'POST', '/api/api-tokens', { name: 'CI', scopes: ['read:projects'], expiresAt: '2020-01-01' });
+    assert.equal(expired.status, 400);
+  });
+
+  test('users cannot create tokens with scopes their role cannot grant', async () => {
+    const viewer = await createTestUser(admin.organizationId!, { role: 'view' });
+    const response = await server.request(viewer, 'POST', '/api/api-tokens', { name: 'Sync', scopes: ['read:projects', 'write:projects'] });
+    assert.equal(response.status, 403);
+    assert.equal((await storage.getApiTokensByUser(viewer.id)).length, 0);
+  });
+
+  test('a token only reaches what its scopes cover', async () => {
+    const { token } = await issueToken(admin, ['read:projects']);
+    assert.equal((await server.requestWithToken(token, 'GET', `/api/projects/${project.id}`)).status, 200);
+    assert.equal((await server.requestWithToken(token, 'DELETE', `/api/projects/${project.id}`)).status, 403);
+    assert.equal((await server.requestWithToken(token, 'GET', '/api/actions')).status, 403);
+    assert.equal((await server.requestWithToken(token, 'GET', '/api/api-tokens')).status, 403);
+    assert.ok(await storage.getProject(project.id));
+  });
+
+  test('revoked, expired and unknown tokens are refused', async () => {
+    const revoked = await issueToken(admin, ['read:projects']);
+    assert.equal((await server.request(admin, 'DELETE', `/api/api-tokens/${revoked.id}`)).status, 200);
+    assert.equal((await server.requestWithToken(revoked.token, 'GET', `/api/projects/${project.id}`)).status, 401);
+
+    const expired = await issueToken(admin, ['read:projects'], new Date(Date.now() - 1000));
+    assert.equal((await server.requestWithToken(expired.token, 'GET', `/api/projects/${project.id}`)).status, 401);
+
+    assert.equal((await server.requestWithToken(generateApiToken().token, 'GET', `/api/projects/${project.id}`)).status, 401);
+  });
+
+  test("a token loses scopes its owner's role no longer grants", async () => {
+    const owner = await createTestUser(admin.organizationId!, { role: 'administrator' });
+    const { token } = await issueToken(owner, ['admin:organization']);
+    assert.equal((await server.requestWithToken(token, 'GET', '/api/admin/recycle-bin')).status, 200);
+
+    await storage.updateUser(owner.id, { role: 'co_lead' });
+    const refused = await server.requestWithToken(token, 'GET', '/api/admin/recycle-bin');
+    assert.equal(refused.status, 403);
+    assert.match(refused.body.message, /missing the admin:organization scope/);
+  });
+
+  test('tokens belonging to SMEs are refused', async () => {
+    const sme = await createTestUser(admin.organizationId!, { role: 'sme' });
+    const { token } = await issueToken(sme, ['read:projects']);
+    assert.equal((await server.requestWithToken(token, 'GET', `/api/projects/${project.id}`)).status, 401);
+  });
+});
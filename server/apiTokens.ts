@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import { storage } from './storage';
+import { getStrategyIdsWithCapability, hasCapability } from './permissions';
+import { adminApiTokenScopes, type ApiToken, type ApiTokenScope, type PermissionCapability, type User } from '@shared/schema';
+
+// Personal access tokens: "erp_pat_" followed by 32 random bytes. Only the SHA-256 hash is stored.
+
+export const API_TOKEN_PREFIX = 'erp_pat_';
+// Shown in token lists: the prefix plus the first few random characters
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+// Writing last-used on every request would turn each API read into a database write
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Endpoint groups a token can reach, by path prefix. GET and HEAD need the read scope, anything else
+ * the write scope. Paths not listed here (sign-in, token management, notifications...) refuse tokens.
+ */
+const API_TOKEN_RESOURCES: { prefixes: string[]; read: ApiTokenScope; write: ApiTokenScope }[] = [
+  {
+    prefixes: [
+      '/api/strategies', '/api/strategy-executive-goals', '/api/executive-goals', '/api/framework-documents',
+      '/api/scenarios', '/api/decisions', '/api/measurements', '/api/workstreams', '/api/workstream-tasks',
+      '/api/workstream-dependencies', '/api/workstream-calculations', '/api/phases', '/api/gate-criteria',
+    ],
+    read: 'read:strategies',
+    write: 'write:strategies',
+  },
+  {
+    prefixes: [
+      '/api/projects', '/api/archived-projects', '/api/my-projects', '/api/barriers', '/api/dependencies',
+      '/api/baselines', '/api/resource-assignments', '/api/project-team-tags',
+    ],
+    read: 'read:projects',
+    write: 'write:projects',
+  },
+  {
+    prefixes: ['/api/actions', '/api/my-todos', '/api/action-people-assignments', '/api/action-checklist-items'],
+    read: 'read:actions',
+    write: 'write:actions',
+  },
+  {
+    prefixes: ['/api/users', '/api/user-team-tags', '/api/team-tags', '/api/pto', '/api/holidays'],
+    read: 'read:users',
+    write: 'admin:users',
+  },
+  {
+    prefixes: ['/api/admin'],
+    read: 'admin:organization',
+    write: 'admin:organization',
+  },
+];
+
+// The capabilities behind each write scope. A user holding none of them, either globally or on an
+// assigned strategy, has nothing the scope could do for them.
+const WRITE_SCOPE_CAPABILITIES: Partial<Record<ApiTokenScope, PermissionCapability[]>> = {
+  'write:strategies': ['edit_framework_documents', 'manage_workstreams', 'edit_scenarios', 'decide_decision', 'record_measurements'],
+  'write:projects': ['create_project', 'edit_project', 'delete_project', 'manage_barriers', 'manage_dependencies', 'manage_resources'],
+  'write:actions': ['create_action', 'edit_action', 'delete_action'],
+};
+
+export function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function generateApiToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return { token, tokenHash: hashApiToken(token), tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+export function parseApiTokenScopes(token: ApiToken): ApiTokenScope[] {
+  return JSON.parse(token.scopes);
+}
+
+// The scope a request needs, or null if tokens cannot be used for it at all
+export function requiredApiTokenScope(method: string, path: string): ApiTokenScope | null {
+  const resource = API_TOKEN_RESOURCES.find(r => r.prefixes.some(prefix => path === prefix || path.startsWith(`${prefix}/`)));
+  if (!resource) return null;
+  return ['GET', 'HEAD'].includes(method.toUpperCase()) ? resource.read : resource.write;
+}
+
+async function holdsAnyCapability(user: User, capabilities: PermissionCapability[]): Promise<boolean> {
+  for (const capability of capabilities) {
+    if (await hasCapability(user, capability)) return true;
+    if ((await getStrategyIdsWithCapability(user, capability)).length > 0) return true;
+  }
+  return false;
+}
+
+// Scopes a user may put on a new token: read scopes for anyone, write scopes for holders of a matching
+// capability, admin scopes for administrators. Each request is still checked against the owner's permissions.
+export async function grantableApiTokenScopes(user: User, scopes: readonly ApiTokenScope[]): Promise<ApiTokenScope[]> {
+  const grantable: ApiTokenScope[] = [];
+  for (const scope of scopes) {
+    const capabilities = WRITE_SCOPE_CAPABILITIES[scope];
+    if (adminApiTokenScopes.includes(scope) ? user.role === 'administrator' : !capabilities || await holdsAnyCapability(user, capabilities)) {
+      grantable.push(scope);
+    }
+  }
+  return grantable;
+}
+
+export type ApiTokenAuthResult =
+  | { ok: true; token: ApiToken; user: User; scopes: ApiTokenScope[] }
+  | { ok: false; status: 401 | 403; message: string };
+
+/**
+ * Checks a bearer token against the request. The owner's current permissions still apply on top of the
+ * token's scopes, so a token never does more than its owner could.
+ */
+export async function authenticateApiToken(rawToken: string, method: string, path: string, ip: string | null): Promise<ApiTokenAuthResult> {
+  const token = await storage.getApiTokenByHash(hashApiToken(rawToken));
+  if (!token || token.revokedAt) {
+    return { ok: false, status: 401, message: 'Invalid API token' };
+  }
+  if (token.expiresAt && token.expiresAt.getTime() <= Date.now()) {
+    return { ok: false, status: 401, message: 'API token has expired' };
+  }
+
+  const user = await storage.getUser(token.userId);
+  if (!user || user.organizationId !== token.organizationId || user.role === 'sme') {
+    return { ok: false, status: 401, message: 'Invalid API token' };
+  }
+
+  const required = requiredApiTokenScope(method, path);
+  if (!required) {
+    return { ok: false, status: 403, message: 'API tokens cannot be used for this endpoint' };
+  }
+  const scopes = parseApiTokenScopes(token);
+  if (!scopes.includes(required) || !(await grantableApiTokenScopes(user, [required])).length) {
+    return { ok: false, status: 403, message: `API token is missing the ${required} scope` };
+  }
+
+  if (!token.lastUsedAt || Date.now() - token.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await storage.recordApiTokenUse(token.id, ip);
+  }
+  return { ok: true, token, user, scopes };
+}
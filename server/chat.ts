@@ -0,0 +1,217 @@
+import { storage } from './storage';
+import { logger } from './logger';
+import { getBaseUrl } from './email';
+import { postToOutboundUrl } from './outboundUrl';
+import type { NotificationEntityType } from './notifications';
+import { type ChatChannel, type ChatMessage, type ChatProvider } from '@shared/schema';
+
+// A failed post is tried twice more, 5 and then 10 minutes later
+const CHAT_MAX_ATTEMPTS = 3;
+const CHAT_RETRY_BASE_MS = 5 * 60 * 1000;
+const CHAT_TIMEOUT_MS = 10 * 1000;
+// A post in flight holds its message this long; if the server stops mid-post it is sent afterwards
+const CHAT_SEND_LEASE_MS = 5 * 60 * 1000;
+
+export interface ChatNotification {
+  notificationType: string;
+  label: string;
+  title: string;
+  message: string;
+  url?: string;
+}
+
+export function formatChatPayload(provider: ChatProvider, notification: ChatNotification): unknown {
+  const { title, message, label, url } = notification;
+  switch (provider) {
+    case 'slack':
+      // Block Kit; `text` is the fallback shown in push notifications
+      return {
+        text: `${title}: ${message}`,
+        blocks: [
+          { type: 'header', text: { type: 'plain_text', text: title.slice(0, 150) } },
+          { type: 'section', text: { type: 'mrkdwn', text: message } },
+          {
+            type: 'context',
+            elements: [{ type: 'mrkdwn', text: url ? `${label} · <${url}|Open in LeaderOS>` : label }],
+          },
+        ],
+      };
+    case 'teams':
+      return {
+        type: 'message',
+        attachments: [{
+          contentType: 'application/vnd.microsoft.card.adaptive',
+          contentUrl: null,
+          content: {
+            $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+            type: 'AdaptiveCard',
+            version: '1.4',
+            body: [
+              { type: 'TextBlock', text: title, weight: 'Bolder', size: 'Medium', wrap: true },
+              { type: 'TextBlock', text: message, wrap: true },
+              { type: 'TextBlock', text: label, isSubtle: true, spacing: 'Small', wrap: true },
+            ],
+            actions: url ? [{ type: 'Action.OpenUrl', title: 'Open in LeaderOS', url }] : [],
+          },
+        }],
+      };
+    case 'google_chat':
+      return {
+        text: `${title}: ${message}`,
+        cardsV2: [{
+          cardId: notification.notificationType,
+          card: {
+            header: { title, subtitle: label },
+            sections: [{
+              widgets: [
+                { textParagraph: { text: message } },
+                ...(url ? [{ buttonList: { buttons: [{ text: 'Open in LeaderOS', onClick: { openLink: { url } } }] } }] : []),
+              ],
+            }],
+          },
+        }],
+      };
+  }
+}
+
+function localMinutes(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).formatToParts(date);
+  const value = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  return value('hour') * 60 + value('minute');
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// When the channel's quiet hours end, if `now` falls inside them. Quiet hours may run past midnight.
+export function quietHoursEndAt(channel: Pick<ChatChannel, 'quietHoursStart' | 'quietHoursEnd' | 'timezone'>, now: Date): Date | null {
+  if (!channel.quietHoursStart || !channel.quietHoursEnd) return null;
+  const start = toMinutes(channel.quietHoursStart);
+  const end = toMinutes(channel.quietHoursEnd);
+  const current = localMinutes(now, channel.timezone);
+  const isQuiet = start <= end ? current >= start && current < end : current >= start || current < end;
+  if (!isQuiet) return null;
+  return new Date(now.getTime() + ((end - current + 1440) % 1440) * 60 * 1000);
+}
+
+// Only the scheme and host are shown back to admins; the rest of an incoming-webhook URL is its credential
+export function maskChatWebhookUrl(url: string): string {
+  try {
+    return `${new URL(url).origin}/…${url.slice(-4)}`;
+  } catch {
+    return '…';
+  }
+}
+
+// Only the status comes back: the response body is whatever the URL's host chose to return
+export async function postToChatWebhook(url: string, payload: string): Promise<{ ok: boolean; status: number | null; error: string | null }> {
+  try {
+    const response = await postToOutboundUrl(url, {
+      headers: { 'Content-Type': 'application/json' },
+      body: payload,
+      timeoutMs: CHAT_TIMEOUT_MS,
+    });
+    if (response.ok) return { ok: true, status: response.status, error: null };
+    if (response.status >= 300 && response.status < 400) {
+      return { ok: false, status: response.status, error: `HTTP ${response.status} redirect; redirects are not followed` };
+    }
+    return { ok: false, status: response.status, error: `HTTP ${response.status}` };
+  } catch (err) {
+    return { ok: false, status: null, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+async function sendChatMessage(message: ChatMessage, channel: ChatChannel): Promise<void> {
+  const attempts = message.attempts + 1;
+  const result = await postToChatWebhook(channel.webhookUrl, message.payload);
+  const givingUp = !result.ok && attempts >= CHAT_MAX_ATTEMPTS;
+  if (givingUp) {
+    logger.warn(`Chat message to channel "${channel.name}" failed after ${attempts} attempts: ${result.error}`);
+  }
+  await storage.updateChatMessage(message.id, {
+    status: result.ok ? 'sent' : givingUp ? 'failed' : 'pending',
+    attempts,
+    sentAt: result.ok ? new Date() : null,
+    sendAfter: result.ok || givingUp ? null : new Date(Date.now() + CHAT_RETRY_BASE_MS * attempts),
+    error: result.error,
+  });
+}
+
+function parseNotificationTypes(value: string): string[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Post a notification event to every active chat channel that covers the entity's strategy (or the
+ * whole organization) and accepts its type. Channels in quiet hours hold the message until they end.
+ * Never throws: chat delivery must not break the change that raised the notification.
+ */
+export async function postChatNotification(
+  notification: Omit<ChatNotification, 'url'>,
+  entityType: NotificationEntityType,
+  entityId: string,
+): Promise<void> {
+  try {
+    const entityScope = await storage.getEntityScope(entityType, entityId);
+    if (!entityScope) return;
+
+    const channels = (await storage.getChatChannels(entityScope.organizationId)).filter(channel => {
+      if (channel.isActive !== 'true') return false;
+      if (channel.strategyId && channel.strategyId !== entityScope.strategyId) return false;
+      const types = parseNotificationTypes(channel.notificationTypes);
+      return types.length === 0 || types.includes(notification.notificationType);
+    });
+    if (channels.length === 0) return;
+
+    const url = `${getBaseUrl()}${entityType === 'decision' ? '/decision-log' : '/strategies'}`;
+    const now = new Date();
+    for (const channel of channels) {
+      const heldUntil = quietHoursEndAt(channel, now);
+      const message = await storage.createChatMessage({
+        channelId: channel.id,
+        organizationId: channel.organizationId,
+        notificationType: notification.notificationType,
+        payload: JSON.stringify(formatChatPayload(channel.provider, { ...notification, url })),
+        status: 'pending',
+        sendAfter: heldUntil ?? new Date(now.getTime() + CHAT_SEND_LEASE_MS),
+      });
+      if (!heldUntil) {
+        sendChatMessage(message, channel).catch(err => logger.error('Chat message failed', err));
+      }
+    }
+  } catch (error) {
+    logger.error(`Failed to post ${notification.notificationType} to chat channels`, error);
+  }
+}
+
+// Posted straight away, ignoring quiet hours, so admins can check the URL and the formatting
+export async function sendTestChatMessage(channel: ChatChannel) {
+  const payload = formatChatPayload(channel.provider, {
+    notificationType: 'test',
+    label: 'Test message',
+    title: 'LeaderOS test message',
+    message: `Notifications for "${channel.name}" will appear here.`,
+    url: getBaseUrl(),
+  });
+  return postToChatWebhook(channel.webhookUrl, JSON.stringify(payload));
+}
+
+// Held and retried messages whose time has come
+export async function sendDueChatMessages(): Promise<void> {
+  const due = await storage.claimDueChatMessages(new Date(), new Date(Date.now() + CHAT_SEND_LEASE_MS), 50);
+  for (const message of due) {
+    const channel = await storage.getChatChannel(message.channelId);
+    if (!channel || channel.isActive !== 'true') {
+      await storage.updateChatMessage(message.id, { status: 'failed', sendAfter: null, error: 'Channel was removed or disabled' });
+      continue;
+    }
+    await sendChatMessage(message, channel);
+  }
+}
@@ -0,0 +1,94 @@
+export type CriticalPathTask = { id: string; durationDays: number | null };
+export type CriticalPathDependency = { predecessorTaskId: string; successorTaskId: string };
+
+export type CriticalPathEntry = {
+  earlyStart: number;
+  earlyEnd: number;
+  lateStart: number;
+  lateEnd: number;
+  totalFloat: number;
+  isCritical: boolean;
+};
+
+export type CriticalPathResult = {
+  criticalPath: Record<string, CriticalPathEntry>;
+  projectDurationDays: number;
+};
+
+/**
+ * Forward/backward pass over the task network, in days from the program start.
+ * Dependencies pointing at tasks outside the given list are ignored, so the same
+ * calculation works for the live plan and for a scenario with dropped work.
+ */
+export function calculateCriticalPath(tasks: CriticalPathTask[], dependencies: CriticalPathDependency[]): CriticalPathResult {
+  const taskMap = new Map(tasks.map(t => [t.id, t]));
+  const successors = new Map<string, string[]>();
+  const predecessors = new Map<string, string[]>();
+  for (const dep of dependencies) {
+    if (!taskMap.has(dep.predecessorTaskId) || !taskMap.has(dep.successorTaskId)) continue;
+    if (!successors.has(dep.predecessorTaskId)) successors.set(dep.predecessorTaskId, []);
+    successors.get(dep.predecessorTaskId)!.push(dep.successorTaskId);
+    if (!predecessors.has(dep.successorTaskId)) predecessors.set(dep.successorTaskId, []);
+    predecessors.get(dep.successorTaskId)!.push(dep.predecessorTaskId);
+  }
+
+  const earlyStart: Record<string, number> = {};
+  const earlyEnd: Record<string, number> = {};
+  const lateStart: Record<string, number> = {};
+  const lateEnd: Record<string, number> = {};
+
+  const topoOrder: string[] = [];
+  const inDegree: Record<string, number> = {};
+  for (const t of tasks) {
+    inDegree[t.id] = (predecessors.get(t.id) || []).length;
+  }
+  const queue: string[] = tasks.filter(t => inDegree[t.id] === 0).map(t => t.id);
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    topoOrder.push(current);
+    for (const succ of (successors.get(current) || [])) {
+      inDegree[succ]--;
+      if (inDegree[succ] === 0) queue.push(succ);
+    }
+  }
+
+  for (const taskId of topoOrder) {
+    const t = taskMap.get(taskId)!;
+    const preds = predecessors.get(taskId) || [];
+    if (preds.length === 0) {
+      earlyStart[taskId] = 0;
+    } else {
+      earlyStart[taskId] = Math.max(...preds.map(p => earlyEnd[p] || 0));
+    }
+    earlyEnd[taskId] = earlyStart[taskId] + (t.durationDays || 1);
+  }
+
+  const projectEnd = Math.max(...tasks.map(t => earlyEnd[t.id] || 0), 0);
+
+  for (let i = topoOrder.length - 1; i >= 0; i--) {
+    const taskId = topoOrder[i];
+    const t = taskMap.get(taskId)!;
+    const succs = successors.get(taskId) || [];
+    if (succs.length === 0) {
+      lateEnd[taskId] = projectEnd;
+    } else {
+      lateEnd[taskId] = Math.min(...succs.map(s => lateStart[s] ?? projectEnd));
+    }
+    lateStart[taskId] = lateEnd[taskId] - (t.durationDays || 1);
+  }
+
+  const criticalPath: Record<string, CriticalPathEntry> = {};
+  for (const taskId of topoOrder) {
+    const float = (lateStart[taskId] ?? 0) - (earlyStart[taskId] ?? 0);
+    criticalPath[taskId] = {
+      earlyStart: earlyStart[taskId] ?? 0,
+      earlyEnd: earlyEnd[taskId] ?? 0,
+      lateStart: lateStart[taskId] ?? 0,
+      lateEnd: lateEnd[taskId] ?? 0,
+      totalFloat: float,
+      isCritical: float === 0,
+    };
+  }
+
+  return { criticalPath, projectDurationDays: projectEnd };
+}
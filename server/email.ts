@@ -1,5 +1,7 @@
 import { Resend } from 'resend';
+import nodemailer, { type Transporter } from 'nodemailer';
 import { logger } from './logger';
+import type { StrategyDigestContent } from '@shared/schema';
 
 let connectionSettings: any;
 
@@ -41,14 +43,72 @@ async function getCredentials() {
   };
 }
 
-async function getResendClient() {
+type OutgoingEmail = { from: string; to: string; subject: string; html: string };
+
+// Both transports are driven through the same send() shape as the Resend SDK
+type MailClient = {
+  emails: {
+    send(email: OutgoingEmail): Promise<{ data: { id: string } | null; error: unknown }>;
+  };
+};
+
+let smtpTransport: Transporter | null = null;
+
+// SMTP is used whenever SMTP_HOST is set, e.g. a local mail catcher such as Mailpit on port 1025
+function getSmtpClient(): { client: MailClient; fromEmail: string } {
+  if (!smtpTransport) {
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+    smtpTransport = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+    });
+  }
+  const transport = smtpTransport;
+  return {
+    client: {
+      emails: {
+        async send(email) {
+          try {
+            const info = await transport.sendMail(email);
+            return { data: { id: info.messageId }, error: null };
+          } catch (error) {
+            return { data: null, error };
+          }
+        },
+      },
+    },
+    fromEmail: process.env.SMTP_FROM_EMAIL || process.env.RESEND_FROM_EMAIL || 'noreply@example.com',
+  };
+}
+
+async function getMailClient(): Promise<{ client: MailClient; fromEmail: string }> {
+  if (process.env.SMTP_HOST) {
+    return getSmtpClient();
+  }
   const { apiKey, fromEmail } = await getCredentials();
+  const resend = new Resend(apiKey);
   return {
-    client: new Resend(apiKey),
+    client: {
+      emails: {
+        send: (email) => resend.emails.send(email),
+      },
+    },
     fromEmail
   };
 }
 
+export function getBaseUrl(): string {
+  return process.env.APP_URL
+    ? process.env.APP_URL.replace(/\/$/, '')
+    : process.env.REPLIT_DEV_DOMAIN
+    ? `https://${process.env.REPLIT_DEV_DOMAIN}`
+    : process.env.REPLIT_DOMAINS
+    ? `https://${process.env.REPLIT_DOMAINS.split(',')[0]}`
+    : 'http://localhost:5000';
+}
+
 export async function sendPasswordResetEmail(
   toEmail: string, 
   resetToken: string, 
@@ -56,8 +116,8 @@ export async function sendPasswordResetEmail(
 ): Promise<boolean> {
   try {
     logger.info(`Attempting to send password reset email to ${toEmail}`);
-    const { client, fromEmail } = await getResendClient();
-    logger.info(`Got Resend client, fromEmail: ${fromEmail}`);
+    const { client, fromEmail } = await getMailClient();
+    logger.info(`Got mail client, fromEmail: ${fromEmail}`);
     
     // Use APP_URL if set (for stable production domain), otherwise fall back to Replit domains
     const baseUrl = process.env.APP_URL 
@@ -147,7 +207,7 @@ export async function sendTwoFactorCode(
 ): Promise<boolean> {
   try {
     logger.info(`Attempting to send 2FA code to ${toEmail}`);
-    const { client, fromEmail } = await getResendClient();
+    const { client, fromEmail } = await getMailClient();
     
     const greeting = firstName ? `Hi ${firstName},` : 'Hi,';
 
@@ -223,7 +283,7 @@ export async function sendWelcomeEmail(
 ): Promise<boolean> {
   try {
     logger.info(`Attempting to send welcome email to ${toEmail}`);
-    const { client, fromEmail } = await getResendClient();
+    const { client, fromEmail } = await getMailClient();
     
     const baseUrl = process.env.APP_URL 
       ? process.env.APP_URL.replace(/\/$/, '')
@@ -304,3 +364,186 @@ export async function sendWelcomeEmail(
   }
 }
 
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const NOTIFICATION_EMAIL_FOOTER = 'You can change which notifications reach your inbox under Settings &rarr; Notifications.';
+
+function notificationEmailLayout(heading: string, body: string, footer: string = NOTIFICATION_EMAIL_FOOTER, linkPath: string = '/'): string {
+  return `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #3B82F6 0%, #1D4ED8 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+            <h1 style="color: white; margin: 0; font-size: 24px;">${heading}</h1>
+          </div>
+          
+          <div style="background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 10px 10px;">
+            ${body}
+            
+            <div style="text-align: center; margin: 30px 0 10px;">
+              <a href="${getBaseUrl()}${linkPath}" 
+                 style="background: #3B82F6; color: white; padding: 12px 26px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 15px; display: inline-block;">
+                Open ERP Team
+              </a>
+            </div>
+            
+            <p style="font-size: 12px; color: #999; text-align: center;">
+              ${footer}
+            </p>
+          </div>
+          
+          <p style="font-size: 12px; color: #999; text-align: center; margin-top: 20px;">
+            &copy; ${new Date().getFullYear()} ERP Team powered by Gaus LLC. All rights reserved.
+          </p>
+        </body>
+        </html>
+      `;
+}
+
+export async function sendNotificationEmail(
+  toEmail: string,
+  notification: { title: string; message: string },
+  firstName?: string | null
+): Promise<boolean> {
+  try {
+    const { client, fromEmail } = await getMailClient();
+    const greeting = firstName ? `Hi ${escapeHtml(firstName)},` : 'Hi,';
+
+    const { data, error } = await client.emails.send({
+      from: fromEmail || 'ERP Team <noreply@resend.dev>',
+      to: toEmail,
+      subject: notification.title,
+      html: notificationEmailLayout(escapeHtml(notification.title), `
+            <p style="font-size: 16px; margin-bottom: 20px;">${greeting}</p>
+            <p style="font-size: 16px; margin-bottom: 20px;">${escapeHtml(notification.message)}</p>
+      `),
+    });
+
+    if (error) {
+      logger.error('Failed to send notification email', error);
+      return false;
+    }
+
+    logger.info(`Notification email sent to ${toEmail}`, { messageId: data?.id });
+    return true;
+  } catch (error) {
+    logger.error('Error sending notification email', error);
+    return false;
+  }
+}
+
+export async function sendNotificationDigestEmail(
+  toEmail: string,
+  items: { title: string; message: string; createdAt: Date | null }[],
+  firstName?: string | null
+): Promise<boolean> {
+  try {
+    const { client, fromEmail } = await getMailClient();
+    const greeting = firstName ? `Hi ${escapeHtml(firstName)},` : 'Hi,';
+    const rows = items.map(item => `
+              <tr>
+                <td style="padding: 10px 0; border-bottom: 1px solid #e5e7eb;">
+                  <div style="font-weight: 600;">${escapeHtml(item.title)}</div>
+                  <div style="font-size: 14px; color: #555;">${escapeHtml(item.message)}</div>
+                  ${item.createdAt ? `<div style="font-size: 12px; color: #999;">${item.createdAt.toUTCString()}</div>` : ''}
+                </td>
+              </tr>`).join('');
+
+    const { data, error } = await client.emails.send({
+      from: fromEmail || 'ERP Team <noreply@resend.dev>',
+      to: toEmail,
+      subject: `Your ERP Team daily digest (${items.length} update${items.length === 1 ? '' : 's'})`,
+      html: notificationEmailLayout('Your Daily Digest', `
+            <p style="font-size: 16px; margin-bottom: 20px;">${greeting}</p>
+            <p style="font-size: 16px; margin-bottom: 10px;">Here is what happened since your last digest:</p>
+            <table style="width: 100%; border-collapse: collapse;">${rows}
+            </table>
+      `),
+    });
+
+    if (error) {
+      logger.error('Failed to send digest email', error);
+      return false;
+    }
+
+    logger.info(`Digest email sent to ${toEmail}`, { messageId: data?.id, items: items.length });
+    return true;
+  } catch (error) {
+    logger.error('Error sending digest email', error);
+    return false;
+  }
+}
+
+const digestDate = (iso: string) => new Date(iso).toUTCString().slice(0, 16);
+
+function digestSection(title: string, items: string[], empty: string): string {
+  return `
+            <h2 style="font-size: 16px; margin: 24px 0 8px; color: #1D4ED8;">${title}</h2>
+            ${items.length > 0
+              ? `<ul style="padding-left: 20px; margin: 0;">${items.map(item => `<li style="margin-bottom: 4px;">${item}</li>`).join('')}</ul>`
+              : `<p style="font-size: 14px; color: #999; margin: 0;">${empty}</p>`}`;
+}
+
+const signed = (delta: number) => `${delta > 0 ? '+' : ''}${delta}`;
+
+export async function sendStrategyDigestEmail(
+  toEmail: string,
+  digest: StrategyDigestContent,
+  firstName?: string | null
+): Promise<boolean> {
+  try {
+    const { client, fromEmail } = await getMailClient();
+    const greeting = firstName ? `Hi ${escapeHtml(firstName)},` : 'Hi,';
+    const { progress } = digest;
+    const progressLine = progress.delta === null
+      ? `Progress is <strong>${progress.current}%</strong>. This is the first digest, so there is no earlier week to compare with.`
+      : `Progress is <strong>${progress.current}%</strong> (${signed(progress.delta)} points since the previous digest).`;
+    const inProject = (projectTitle: string | null) => projectTitle ? ` <span style="color: #999;">(${escapeHtml(projectTitle)})</span>` : '';
+
+    const body = `
+            <p style="font-size: 16px; margin-bottom: 10px;">${greeting}</p>
+            <p style="font-size: 16px; margin-bottom: 10px;">Here is the week of ${digestDate(digest.periodStart)} to ${digestDate(digest.periodEnd)} for <strong>${escapeHtml(digest.strategy.title)}</strong>.</p>
+            <p style="font-size: 15px;">${progressLine}</p>
+            ${digestSection('Project progress', digest.projects.map(p =>
+              `${escapeHtml(p.title)}: ${p.progress}%${p.delta !== null && p.delta !== 0 ? ` (${signed(p.delta)})` : ''}`), 'No active projects.')}
+            ${digestSection('Actions completed', digest.actionsCompleted.map(a => `${escapeHtml(a.title)}${inProject(a.projectTitle)}`), 'No actions were completed.')}
+            ${digestSection('Newly overdue', digest.newlyOverdue.map(a => `${escapeHtml(a.title)}${inProject(a.projectTitle)}, due ${digestDate(a.dueDate)}`), 'Nothing became overdue.')}
+            ${digestSection('Barriers raised', digest.barriersRaised.map(b => `${escapeHtml(b.title)} (${escapeHtml(b.severity)})${inProject(b.projectTitle)}`), 'No barriers were raised.')}
+            ${digestSection('Barriers resolved', digest.barriersResolved.map(b => `${escapeHtml(b.title)}${inProject(b.projectTitle)}`), 'No barriers were resolved.')}
+            ${digestSection('Decisions made', digest.decisionsMade.map(d => `${escapeHtml(d.title)}${d.outcome ? `: ${escapeHtml(d.outcome)}` : ''}`), 'No decisions were made.')}
+            ${digestSection('Workstream RAG changes', digest.ragChanges.map(c =>
+              `${escapeHtml(c.workstreamName)} / ${escapeHtml(c.phaseName)}: ${c.from ?? 'new'} &rarr; ${c.to}`), 'No workstream changed status.')}
+            ${digestSection('Upcoming gates', digest.upcomingGates.map(g =>
+              `${escapeHtml(g.title)}${g.phaseName ? ` (${escapeHtml(g.phaseName)})` : ''}, ${digestDate(g.plannedEnd)}: ${g.rag}`), 'No gates in the next two weeks.')}
+    `;
+
+    const { data, error } = await client.emails.send({
+      from: fromEmail || 'ERP Team <noreply@resend.dev>',
+      to: toEmail,
+      subject: `Weekly status: ${digest.strategy.title}`,
+      html: notificationEmailLayout(
+        'Weekly Status Digest',
+        body,
+        'You receive this digest because you are assigned to this strategy.',
+        '/strategies',
+      ),
+    });
+
+    if (error) {
+      logger.error('Failed to send strategy digest email', error);
+      return false;
+    }
+
+    logger.info(`Strategy digest email sent to ${toEmail}`, { messageId: data?.id, strategyId: digest.strategy.id });
+    return true;
+  } catch (error) {
+    logger.error('Error sending strategy digest email', error);
+    return false;
+  }
+}
@@ -0,0 +1,170 @@
+import { z } from 'zod';
+import { storage } from './storage';
+import { logger } from './logger';
+import { notifyEscalation } from './notifications';
+import { publishEntityChange } from './realtime';
+import {
+  escalationConditionSchema, escalationActionSchema,
+  type EscalationAction, type EscalationCandidate, type EscalationCondition, type EscalationRecipient,
+  type EscalationRule, type EscalationRuleEntityType,
+} from '@shared/schema';
+
+export type EscalationRuleDefinition = {
+  name: string;
+  entityType: EscalationRuleEntityType;
+  conditions: EscalationCondition[];
+  actions: EscalationAction[];
+};
+
+export type EscalationPreviewMatch = {
+  entityId: string;
+  title: string;
+  facts: EscalationCandidate['facts'];
+  alreadyActed: boolean;
+  recipientCount: number;
+};
+
+function parseJsonList<T>(value: string, schema: z.ZodType<T>): T[] {
+  try {
+    const parsed = z.array(schema).safeParse(JSON.parse(value));
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+export function parseEscalationRule(rule: EscalationRule): EscalationRuleDefinition {
+  return {
+    name: rule.name,
+    entityType: rule.entityType,
+    conditions: parseJsonList(rule.conditions, escalationConditionSchema),
+    actions: parseJsonList(rule.actions, escalationActionSchema),
+  };
+}
+
+// Every condition must hold. An item without a value for the field (e.g. no due date) never matches it.
+export function matchesEscalationConditions(facts: EscalationCandidate['facts'], conditions: EscalationCondition[]): boolean {
+  return conditions.every(({ field, operator, value }) => {
+    const fact = facts[field];
+    if (fact === null || fact === undefined) return false;
+    switch (operator) {
+      case 'eq': return String(fact) === String(value);
+      case 'neq': return String(fact) !== String(value);
+      case 'gte': return typeof fact === 'number' && fact >= Number(value);
+      case 'lte': return typeof fact === 'number' && fact <= Number(value);
+    }
+  });
+}
+
+async function getAdministratorIds(organizationId: string): Promise<string[]> {
+  const orgUsers = await storage.getUsersByOrganization(organizationId);
+  return orgUsers.filter(u => u.role === 'administrator').map(u => u.id);
+}
+
+function resolveRecipients(candidate: EscalationCandidate, recipients: EscalationRecipient[], administratorIds: string[]): string[] {
+  const ids = new Set<string>();
+  for (const recipient of recipients) {
+    const group = recipient === 'owners' ? candidate.ownerIds
+      : recipient === 'accountable_leaders' ? candidate.accountableLeaderIds
+      : administratorIds;
+    group.forEach(id => ids.add(id));
+  }
+  return Array.from(ids);
+}
+
+async function findMatches(organizationId: string, rule: EscalationRuleDefinition, asOf: Date): Promise<EscalationCandidate[]> {
+  const candidates = await storage.getEscalationCandidates(organizationId, rule.entityType, asOf);
+  return candidates.filter(candidate => matchesEscalationConditions(candidate.facts, rule.conditions));
+}
+
+/**
+ * Dry run: which items the rule matches right now and how many people each would notify, without
+ * notifying anyone or changing anything. Items the saved rule has already acted on are flagged.
+ */
+export async function previewEscalationRule(organizationId: string, rule: EscalationRuleDefinition, ruleId?: string): Promise<EscalationPreviewMatch[]> {
+  const matches = await findMatches(organizationId, rule, new Date());
+  const alreadyActed = new Set(ruleId ? await storage.getEscalatedEntityIds(ruleId) : []);
+  const recipients = rule.actions.flatMap(action => action.type === 'notify' ? action.recipients : []);
+  const administratorIds = recipients.includes('administrators') ? await getAdministratorIds(organizationId) : [];
+  return matches.map(candidate => ({
+    entityId: candidate.entityId,
+    title: candidate.title,
+    facts: candidate.facts,
+    alreadyActed: alreadyActed.has(candidate.entityId),
+    recipientCount: resolveRecipients(candidate, recipients, administratorIds).length,
+  }));
+}
+
+async function applyAction(rule: EscalationRule, definition: EscalationRuleDefinition, candidate: EscalationCandidate, action: EscalationAction, administratorIds: string[]): Promise<string> {
+  switch (action.type) {
+    case 'notify': {
+      const userIds = resolveRecipients(candidate, action.recipients, administratorIds);
+      if (userIds.length === 0) return 'No one to notify';
+      await notifyEscalation(userIds, definition.name, definition.entityType, candidate.entityId, candidate.title, action.message || undefined);
+      return `Notified ${userIds.length} ${userIds.length === 1 ? 'person' : 'people'}`;
+    }
+    case 'set_escalation_level': {
+      const decision = await storage.getDecision(candidate.entityId);
+      if (!decision) return 'Decision no longer exists';
+      if (decision.escalationLevel === action.level) return `Escalation level already ${action.level}`;
+      const updated = await storage.updateDecision(decision.id, { escalationLevel: action.level, updatedAt: new Date() });
+      if (updated) await storage.recordChangeHistory('decision', decision, updated, rule.createdBy);
+      publishEntityChange(rule.organizationId, { resource: 'decisions' });
+      return `Escalation level set to ${action.level}`;
+    }
+    case 'set_severity': {
+      const barrier = await storage.getBarrier(candidate.entityId);
+      if (!barrier) return 'Barrier no longer exists';
+      if (barrier.severity === action.severity) return `Severity already ${action.severity}`;
+      const updated = await storage.updateBarrier(barrier.id, { severity: action.severity, updatedAt: new Date() });
+      if (updated) await storage.recordChangeHistory('barrier', barrier, updated, rule.createdBy);
+      publishEntityChange(rule.organizationId, { resource: 'barriers' });
+      return `Severity set to ${action.severity}`;
+    }
+  }
+}
+
+// Act on every item the rule matches that it has not acted on before; returns how many items it acted on
+export async function executeEscalationRule(rule: EscalationRule, asOf: Date = new Date()): Promise<number> {
+  const definition = parseEscalationRule(rule);
+  if (definition.conditions.length === 0 || definition.actions.length === 0) return 0;
+
+  const alreadyActed = new Set(await storage.getEscalatedEntityIds(rule.id));
+  const matches = (await findMatches(rule.organizationId, definition, asOf)).filter(m => !alreadyActed.has(m.entityId));
+  if (matches.length === 0) return 0;
+
+  const administratorIds = await getAdministratorIds(rule.organizationId);
+  for (const candidate of matches) {
+    const outcomes: string[] = [];
+    try {
+      for (const action of definition.actions) {
+        outcomes.push(await applyAction(rule, definition, candidate, action, administratorIds));
+      }
+      await storage.createEscalationRuleExecution({
+        ruleId: rule.id, organizationId: rule.organizationId, entityType: definition.entityType,
+        entityId: candidate.entityId, entityTitle: candidate.title, status: 'succeeded', summary: outcomes.join('; '),
+      });
+    } catch (error) {
+      logger.error(`Escalation rule "${rule.name}" failed on ${definition.entityType} ${candidate.entityId}`, error);
+      await storage.createEscalationRuleExecution({
+        ruleId: rule.id, organizationId: rule.organizationId, entityType: definition.entityType,
+        entityId: candidate.entityId, entityTitle: candidate.title, status: 'failed',
+        summary: outcomes.length > 0 ? outcomes.join('; ') : 'Nothing done',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return matches.length;
+}
+
+export async function runEscalationRules(): Promise<void> {
+  const rules = await storage.getActiveEscalationRules();
+  for (const rule of rules) {
+    try {
+      const count = await executeEscalationRule(rule);
+      if (count > 0) logger.info(`Escalation rule "${rule.name}" acted on ${count} item(s)`);
+    } catch (error) {
+      logger.error(`Error running escalation rule "${rule.name}"`, error);
+    }
+  }
+}
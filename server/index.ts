@@ -2,8 +2,9 @@ import express, { type Request, Response, NextFunction } from "express";
 import cookieParser from "cookie-parser";
 import { rateLimit } from "express-rate-limit";
 import { registerRoutes } from "./routes";
-import { startDueDateScheduler } from "./scheduler";
+import { startDueDateScheduler, startRecycleBinPurgeScheduler, startRecurringActionScheduler, startNotificationDigestScheduler, startProjectWakeUpScheduler, startWebhookRetryScheduler, startEscalationRuleScheduler, startChatMessageScheduler, startStrategyDigestScheduler } from "./scheduler";
 import { validateCsrf } from "./jwtAuth";
+import { broadcastChanges } from "./realtime";
 import { logger } from "./logger";
 import { runMigrations } from './migrate';
 import fs from "fs";
@@ -80,6 +81,9 @@ app.use('/api/ai', aiLimiter);
 // CSRF validation for all API routes (applied before routes are registered)
 app.use('/api', validateCsrf);
 
+// Push successful writes to the organization's other open tabs
+app.use('/api', broadcastChanges);
+
 // Simple log function for production (doesn't need vite)
 function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
@@ -138,9 +142,15 @@ app.use((req, res, next) => {
   next();
 });
 
+// Spreadsheet uploads and organization archives arrive as JSON, so the import endpoints need a larger body limit
+app.use("/api/import", express.json({ limit: "10mb" }));
+app.use("/api/admin/import", express.json({ limit: "50mb" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
+// Responses from these carry secrets (TOTP seeds, session and API tokens), so their bodies are never logged
+const UNLOGGED_RESPONSE_PREFIXES = ["/api/auth", "/api/api-tokens"];
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -156,7 +166,7 @@ app.use((req, res, next) => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
+      if (capturedJsonResponse && !UNLOGGED_RESPONSE_PREFIXES.some(prefix => path === prefix || path.startsWith(`${prefix}/`))) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
 
@@ -228,6 +238,30 @@ function serveStatic(app: express.Express) {
   // Check every hour for actions that are due soon or overdue
   startDueDateScheduler(60);
 
+  // Permanently remove recycle bin items older than each organization's retention period
+  startRecycleBinPurgeScheduler(60 * 24);
+
+  // Create the next occurrence of recurring actions once the current one is achieved or falls due
+  startRecurringActionScheduler(60);
+
+  // Email each user's daily digest of the notifications they chose to receive that way
+  startNotificationDigestScheduler(60);
+
+  // Restore archived projects on their wake-up date, or ask an administrator to review them
+  startProjectWakeUpScheduler(60);
+
+  // Retry failed webhook deliveries once their backoff has elapsed
+  startWebhookRetryScheduler(1);
+
+  // Apply admin-defined escalation rules to stale risks, overdue work and pending decisions
+  startEscalationRuleScheduler(60);
+
+  // Post chat messages held back by quiet hours or a failed attempt
+  startChatMessageScheduler(1);
+
+  // Email each active strategy's weekly status digest after the week ends on Monday
+  startStrategyDigestScheduler(60);
+
   // ALWAYS serve the app on the port specified in the environment variable PORT
   // Other ports are firewalled. Default to 5000 if not specified.
   // this serves both the API and the client.
@@ -4,9 +4,15 @@ import type { Express, RequestHandler, Response } from 'express';
 import { rateLimit } from 'express-rate-limit';
 import { storage } from './storage';
 import { logger } from './logger';
-import { getOrganization, getOrganizationByToken, updateOrganizationToken, updateOrganizationName, getAllOrganizations, getUserByEmail, updateUserPassword, clearMustChangePassword, createPasswordResetToken, getPasswordResetToken, markPasswordResetTokenUsed, createTwoFactorCode, getTwoFactorCode, incrementTwoFactorAttempts, markTwoFactorCodeUsed, deleteTwoFactorCodes } from './pgStorage';
+import { getOrganization, getOrganizationByToken, updateOrganizationToken, updateOrganizationName, getAllOrganizations, getUserByEmail, updateUserPassword, clearMustChangePassword, createPasswordResetToken, getPasswordResetToken, markPasswordResetTokenUsed, createTwoFactorCode, getTwoFactorCode, incrementTwoFactorAttempts, markTwoFactorCodeUsed, deleteTwoFactorCodes, getTotpCredential, savePendingTotpSecret, confirmTotpCredential, recordTotpStep, deleteTotpCredential, replaceRecoveryCodes, consumeRecoveryCode, countUnusedRecoveryCodes, deleteRecoveryCodes } from './pgStorage';
 import { sendPasswordResetEmail, sendTwoFactorCode } from './email';
+import { generateTotpSecret, verifyTotpCode, buildOtpauthUrl, generateRecoveryCodes, normalizeRecoveryCode } from './totp';
+import { buildSsoAuthorizationUrl, completeSsoLogin, findSsoConfigurationForEmail, isSsoEnforced, SsoLoginError } from './oidc';
+import { getBaseUrl } from './email';
+import { API_TOKEN_PREFIX, authenticateApiToken } from './apiTokens';
+import type { User } from '@shared/schema';
 import crypto from 'crypto';
+import QRCode from 'qrcode';
 
 const authLimiter = rateLimit({
   windowMs: 15 * 60 * 1000,
@@ -68,6 +74,50 @@ function hashCode(code: string): string {
   return crypto.createHash('sha256').update(code).digest('hex');
 }
 
+// Administrators in an organization whose policy requires an authenticator app
+async function isAdminTotpRequired(user: User): Promise<boolean> {
+  if (user.role !== 'administrator' || !user.organizationId) return false;
+  const organization = await getOrganization(user.organizationId);
+  return organization?.requireAdminTotp === 'true';
+}
+
+function hasAuthenticatorApp(user: User): boolean {
+  return user.twoFactorEnabled === 'true' && user.twoFactorMethod === 'totp';
+}
+
+async function isTotpEnrollmentPending(user: User): Promise<boolean> {
+  return !hasAuthenticatorApp(user) && await isAdminTotpRequired(user);
+}
+
+// All an administrator's session can reach until they set up the authenticator app their organization requires
+const TOTP_ENROLLMENT_PATHS = [
+  '/api/auth/user',
+  '/api/auth/force-change-password',
+  '/api/auth/2fa/status',
+  '/api/auth/2fa/totp/setup',
+  '/api/auth/2fa/totp/verify-setup',
+];
+const TOTP_ENROLLMENT_REQUIRED_MESSAGE = 'Your organization requires administrators to set up an authenticator app first';
+
+// Checks a six-digit authenticator code, or else a one-time recovery code
+async function verifyAuthenticatorCode(userId: string, code: string): Promise<'totp' | 'recovery' | null> {
+  const credential = await getTotpCredential(userId);
+  if (!credential?.confirmedAt) return null;
+
+  const digits = code.replace(/\s/g, '');
+  if (/^\d{6}$/.test(digits)) {
+    const step = verifyTotpCode(credential.secret, digits, credential.lastUsedStep);
+    return step !== null && await recordTotpStep(userId, step) ? 'totp' : null;
+  }
+  return await consumeRecoveryCode(userId, hashCode(normalizeRecoveryCode(code))) ? 'recovery' : null;
+}
+
+async function issueRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await replaceRecoveryCodes(userId, codes.map(code => hashCode(normalizeRecoveryCode(code))));
+  return codes;
+}
+
 function validatePasswordComplexity(password: string): { valid: boolean; error?: string } {
   if (password.length < 8) {
     return { valid: false, error: 'Password must be at least 8 characters long' };
@@ -156,6 +206,10 @@ export async function setupAuth(app: Express) {
         return res.status(403).json({ error: 'Invalid or expired registration link. Please contact your administrator for a new link.' });
       }
 
+      if (await isSsoEnforced(org.id)) {
+        return res.status(403).json({ error: 'Your organization uses single sign-on. Use "Sign in with SSO" instead.' });
+      }
+
       if (!email || !password) {
         return res.status(400).json({ error: 'Email and password are required' });
       }
@@ -344,7 +398,30 @@ export async function setupAuth(app: Express) {
         return res.status(403).json({ error: 'SME users cannot log in. Please contact administrator.' });
       }
 
+      // Administrators keep password sign-in so a misconfigured IdP cannot lock the organization out
+      if (user.role !== 'administrator' && user.isSuperAdmin !== 'true' && await isSsoEnforced(user.organizationId)) {
+        logger.warn(`[SECURITY] Blocked password login under enforced SSO: user ${user.id} (${email})`);
+        return res.status(403).json({ error: 'Your organization uses single sign-on. Use "Sign in with SSO" instead.', ssoRequired: true });
+      }
+
       // Check if 2FA is enabled for this user
+      if (hasAuthenticatorApp(user)) {
+        // The code comes from the app; the challenge ties the second step to this password check
+        const challenge = crypto.randomBytes(32).toString('hex');
+        const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
+        await createTwoFactorCode(user.id, hashCode(challenge), 'login', expiresAt, user.organizationId);
+
+        logger.info(`[SECURITY] Authenticator code requested for login: user ${user.id} (${user.email})`);
+
+        return res.json({
+          requires2FA: true,
+          method: 'totp',
+          userId: user.id,
+          challenge,
+          message: 'Enter the code from your authenticator app'
+        });
+      }
+
       if (user.twoFactorEnabled === 'true') {
         // Generate and send 2FA code
         const code = generate6DigitCode();
@@ -364,6 +441,7 @@ export async function setupAuth(app: Express) {
         
         return res.json({
           requires2FA: true,
+          method: 'email',
           userId: user.id,
           message: 'Verification code sent to your email'
         });
@@ -408,9 +486,9 @@ export async function setupAuth(app: Express) {
   // 2FA: Verify login code
   app.post('/api/auth/verify-2fa', twoFactorLimiter, async (req, res) => {
     try {
-      const { userId, code } = req.body;
+      const { userId, code, challenge } = req.body;
 
-      if (!userId || !code) {
+      if (!userId || !code || typeof code !== 'string') {
         return res.status(400).json({ error: 'User ID and verification code are required' });
       }
 
@@ -444,14 +522,27 @@ export async function setupAuth(app: Express) {
         return res.status(401).json({ error: 'Too many failed attempts. Please login again.' });
       }
 
-      // Verify the code
-      const codeHash = hashCode(code);
-      if (codeHash !== twoFactorCode.codeHash) {
+      // Verify the code: for authenticator apps the stored hash is the login challenge, not the code
+      let verifiedWith: 'email' | 'totp' | 'recovery' | null = null;
+      if (hasAuthenticatorApp(user)) {
+        if (typeof challenge === 'string' && hashCode(challenge) === twoFactorCode.codeHash) {
+          verifiedWith = await verifyAuthenticatorCode(user.id, code);
+        }
+      } else if (hashCode(code) === twoFactorCode.codeHash) {
+        verifiedWith = 'email';
+      }
+      if (!verifiedWith) {
         await incrementTwoFactorAttempts(twoFactorCode.id);
         logger.warn(`[SECURITY] 2FA verification failed: invalid code for user ${userId}`);
         return res.status(401).json({ error: 'Invalid verification code' });
       }
 
+      let recoveryCodesRemaining: number | undefined;
+      if (verifiedWith === 'recovery') {
+        recoveryCodesRemaining = await countUnusedRecoveryCodes(user.id);
+        logger.warn(`[SECURITY] Recovery code used for login: user ${user.id} (${recoveryCodesRemaining} left)`);
+      }
+
       // Mark code as used
       await markTwoFactorCodeUsed(twoFactorCode.id);
 
@@ -472,6 +563,7 @@ export async function setupAuth(app: Express) {
       
       res.json({
         success: true,
+        recoveryCodesRemaining,
         mustChangePassword: user.mustChangePassword === 'true',
         user: {
           id: user.id,
@@ -505,6 +597,10 @@ export async function setupAuth(app: Express) {
         return res.status(400).json({ error: 'Invalid request' });
       }
 
+      if (hasAuthenticatorApp(user)) {
+        return res.status(400).json({ error: 'Use the code from your authenticator app' });
+      }
+
       // Generate new code
       const code = generate6DigitCode();
       const codeHash = hashCode(code);
@@ -540,6 +636,10 @@ export async function setupAuth(app: Express) {
         return res.status(400).json({ error: 'Two-factor authentication is already enabled' });
       }
 
+      if (await isAdminTotpRequired(user)) {
+        return res.status(400).json({ error: 'Your organization requires administrators to use an authenticator app' });
+      }
+
       // Generate and send verification code
       const code = generate6DigitCode();
       const codeHash = hashCode(code);
@@ -641,6 +741,10 @@ export async function setupAuth(app: Express) {
         return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
       }
 
+      if (await isAdminTotpRequired(user)) {
+        return res.status(403).json({ error: 'Your organization requires administrators to use an authenticator app' });
+      }
+
       // Verify password
       if (!user.passwordHash) {
         return res.status(400).json({ error: 'Cannot verify identity. Please contact administrator.' });
@@ -653,10 +757,12 @@ export async function setupAuth(app: Express) {
       }
 
       // Disable 2FA for the user
-      await storage.updateUser(user.id, { twoFactorEnabled: 'false' });
+      await storage.updateUser(user.id, { twoFactorEnabled: 'false', twoFactorMethod: 'email' });
       
-      // Clean up any existing 2FA codes
+      // Clean up any existing 2FA codes, authenticator secret and recovery codes
       await deleteTwoFactorCodes(user.id);
+      await deleteTotpCredential(user.id);
+      await deleteRecoveryCodes(user.id);
       
       logger.info(`[SECURITY] 2FA disabled for user ${user.id} (${user.email})`);
       
@@ -675,9 +781,13 @@ export async function setupAuth(app: Express) {
         return res.status(404).json({ error: 'User not found' });
       }
 
+      const usesApp = hasAuthenticatorApp(user);
       res.json({ 
         enabled: user.twoFactorEnabled === 'true',
-        email: user.email ? user.email.replace(/(.{2}).*(@.*)/, '$1***$2') : null // Mask email for display
+        method: user.twoFactorEnabled === 'true' ? user.twoFactorMethod : null,
+        email: user.email ? user.email.replace(/(.{2}).*(@.*)/, '$1***$2') : null, // Mask email for display
+        recoveryCodesRemaining: usesApp ? await countUnusedRecoveryCodes(user.id) : null,
+        totpRequired: await isAdminTotpRequired(user),
       });
     } catch (error) {
       logger.error('[SECURITY] 2FA status error', error);
@@ -685,6 +795,109 @@ export async function setupAuth(app: Express) {
     }
   });
 
+  // 2FA Settings: Start authenticator app enrollment. Also used to switch from emailed codes.
+  app.post('/api/auth/2fa/totp/setup', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.userId);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      if (hasAuthenticatorApp(user)) {
+        return res.status(400).json({ error: 'An authenticator app is already set up' });
+      }
+
+      const secret = generateTotpSecret();
+      await savePendingTotpSecret(user.id, secret);
+
+      const otpauthUrl = buildOtpauthUrl(secret, user.email || user.id);
+      const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 200 });
+
+      logger.info(`[SECURITY] Authenticator app enrollment started: user ${user.id} (${user.email})`);
+
+      res.json({ secret, otpauthUrl, qrCode });
+    } catch (error) {
+      logger.error('[SECURITY] Authenticator setup error', error);
+      res.status(500).json({ error: 'Failed to start authenticator setup. Please try again.' });
+    }
+  });
+
+  // 2FA Settings: Confirm the first code from the app, switch to it and issue recovery codes
+  app.post('/api/auth/2fa/totp/verify-setup', isAuthenticated, twoFactorLimiter, async (req: any, res) => {
+    try {
+      const { code } = req.body;
+
+      if (!code || typeof code !== 'string') {
+        return res.status(400).json({ error: 'Verification code is required' });
+      }
+
+      const user = await storage.getUser(req.user.userId);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      if (hasAuthenticatorApp(user)) {
+        return res.status(400).json({ error: 'An authenticator app is already set up' });
+      }
+
+      const credential = await getTotpCredential(user.id);
+      if (!credential || credential.confirmedAt) {
+        return res.status(400).json({ error: 'No authenticator setup in progress. Please start again.' });
+      }
+
+      const step = verifyTotpCode(credential.secret, code.replace(/\s/g, ''), null);
+      if (step === null) {
+        return res.status(401).json({ error: 'Invalid verification code' });
+      }
+
+      await confirmTotpCredential(user.id, step);
+      await storage.updateUser(user.id, { twoFactorEnabled: 'true', twoFactorMethod: 'totp' });
+      await deleteTwoFactorCodes(user.id);
+      const recoveryCodes = await issueRecoveryCodes(user.id);
+
+      logger.info(`[SECURITY] Authenticator app enabled for user ${user.id} (${user.email})`);
+
+      res.json({ success: true, recoveryCodes, message: 'Authenticator app enabled successfully' });
+    } catch (error) {
+      logger.error('[SECURITY] Authenticator verify setup error', error);
+      res.status(500).json({ error: 'Failed to enable authenticator app. Please try again.' });
+    }
+  });
+
+  // 2FA Settings: Replace all recovery codes; the old ones stop working
+  app.post('/api/auth/2fa/recovery-codes', isAuthenticated, async (req: any, res) => {
+    try {
+      const { password } = req.body;
+
+      if (!password) {
+        return res.status(400).json({ error: 'Password is required to generate new recovery codes' });
+      }
+
+      const user = await storage.getUser(req.user.userId);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      if (!hasAuthenticatorApp(user)) {
+        return res.status(400).json({ error: 'Recovery codes are only used with an authenticator app' });
+      }
+
+      if (!user.passwordHash || !(await bcrypt.compare(password, user.passwordHash))) {
+        logger.warn(`[SECURITY] Failed recovery code regeneration: invalid password for user ${user.id}`);
+        return res.status(401).json({ error: 'Invalid password' });
+      }
+
+      const recoveryCodes = await issueRecoveryCodes(user.id);
+
+      logger.info(`[SECURITY] Recovery codes regenerated for user ${user.id} (${user.email})`);
+
+      res.json({ success: true, recoveryCodes });
+    } catch (error) {
+      logger.error('[SECURITY] Recovery code regeneration error', error);
+      res.status(500).json({ error: 'Failed to generate recovery codes. Please try again.' });
+    }
+  });
+
   // Password Reset: Request a reset link
   app.post('/api/auth/request-password-reset', passwordResetLimiter, async (req, res) => {
     try {
@@ -802,7 +1015,8 @@ export async function setupAuth(app: Express) {
       
       res.json({
         ...user,
-        organizationName
+        organizationName,
+        totpEnrollmentRequired: await isTotpEnrollmentPending(user),
       });
     } catch (error) {
       logger.error('Error fetching authenticated user', error);
@@ -859,22 +1073,126 @@ export async function setupAuth(app: Express) {
     }
   });
 
+  // SSO: whether the sign-in page should offer "Sign in with SSO"
+  app.get('/api/auth/sso/status', async (req, res) => {
+    try {
+      const configurations = await storage.getEnabledOidcConfigurations();
+      res.json({ available: configurations.length > 0 });
+    } catch (error) {
+      logger.error('Failed to check SSO status', error);
+      res.json({ available: false });
+    }
+  });
+
+  // SSO: find the identity provider for an email address
+  app.post('/api/auth/sso/discover', authLimiter, async (req, res) => {
+    try {
+      const { email } = req.body;
+      if (!email || typeof email !== 'string') {
+        return res.status(400).json({ error: 'Email is required' });
+      }
+
+      const configuration = await findSsoConfigurationForEmail(email);
+      if (!configuration) {
+        return res.status(404).json({ error: 'Single sign-on is not set up for this email address.' });
+      }
+
+      const params = new URLSearchParams({ login_hint: email.trim().toLowerCase() });
+      res.json({ url: `/api/auth/sso/${configuration.organizationId}/login?${params.toString()}` });
+    } catch (error) {
+      logger.error('[SECURITY] SSO discovery failed', error);
+      res.status(500).json({ error: 'Failed to look up single sign-on. Please try again.' });
+    }
+  });
+
+  // SSO: send the browser to the organization's identity provider
+  app.get('/api/auth/sso/:organizationId/login', authLimiter, async (req, res) => {
+    try {
+      const configuration = await storage.getOidcConfiguration(req.params.organizationId);
+      if (!configuration || configuration.isEnabled !== 'true') {
+        return res.redirect(`/?sso_error=${encodeURIComponent('Single sign-on is not enabled for this organization.')}`);
+      }
+
+      const loginHint = typeof req.query.login_hint === 'string' ? req.query.login_hint : undefined;
+      const authorizationUrl = await buildSsoAuthorizationUrl(configuration, loginHint);
+      res.redirect(authorizationUrl.href);
+    } catch (error) {
+      logger.error('[SECURITY] Failed to start SSO sign-in', error);
+      res.redirect(`/?sso_error=${encodeURIComponent('Could not reach your identity provider. Please try again later.')}`);
+    }
+  });
+
+  // SSO: the identity provider redirects back here. Its own MFA replaces the app's two-factor step, which is
+  // why accounts that have a password or two-factor are only linked by their owner (see /api/sso-link).
+  app.get('/api/auth/sso/callback', authLimiter, async (req, res) => {
+    try {
+      const session = req.cookies?.[COOKIE_NAME] ? verifyToken(req.cookies[COOKIE_NAME]) : null;
+      const user = await completeSsoLogin(new URL(req.originalUrl, getBaseUrl()), session?.userId ?? null);
+
+      const token = generateToken({ userId: user.id, email: user.email! });
+      const csrfToken = generateCsrfToken();
+      setAuthCookie(res, token);
+      setCsrfCookie(res, csrfToken);
+
+      logger.info(`[SECURITY] Successful SSO login: user ${user.id} (${user.email})`);
+      res.redirect('/');
+    } catch (error) {
+      const message = error instanceof SsoLoginError
+        ? error.message
+        : 'Single sign-on failed. Please try again or contact your administrator.';
+      if (!(error instanceof SsoLoginError)) {
+        logger.error('[SECURITY] SSO callback failed', error);
+      }
+      res.redirect(`/?sso_error=${encodeURIComponent(message)}`);
+    }
+  });
+
   app.post('/api/auth/logout', (req, res) => {
     clearAuthCookie(res);
     res.json({ success: true });
   });
 }
 
+function getBearerToken(req: any): string | undefined {
+  const authHeader = req.headers.authorization;
+  return authHeader && authHeader.startsWith('Bearer ') ? authHeader.substring(7) : undefined;
+}
+
+function isApiTokenRequest(req: any): boolean {
+  return !!getBearerToken(req)?.startsWith(API_TOKEN_PREFIX);
+}
+
 export const isAuthenticated: RequestHandler = async (req: any, res, next) => {
+  // Personal access tokens carry their own scopes, so they win over any session cookie sent alongside
+  if (isApiTokenRequest(req)) {
+    try {
+      const path = (req.originalUrl || req.path).split('?')[0];
+      const result = await authenticateApiToken(getBearerToken(req)!, req.method, path, req.ip || null);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      if (await isTotpEnrollmentPending(result.user)) {
+        return res.status(403).json({ message: TOTP_ENROLLMENT_REQUIRED_MESSAGE, totpEnrollmentRequired: true });
+      }
+      req.user = {
+        userId: result.user.id,
+        email: result.user.email,
+        claims: { sub: result.user.id },
+        apiToken: { id: result.token.id, scopes: result.scopes },
+      };
+      return next();
+    } catch (error) {
+      logger.error('[SECURITY] API token authentication failed', error);
+      return res.status(500).json({ message: 'Authentication failed' });
+    }
+  }
+
   // First try to get token from HTTP-only cookie (preferred)
   let token = req.cookies?.[COOKIE_NAME];
   
   // Fallback to Authorization header for backward compatibility during migration
   if (!token) {
-    const authHeader = req.headers.authorization;
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      token = authHeader.substring(7);
-    }
+    token = getBearerToken(req);
   }
   
   if (!token) {
@@ -887,6 +1205,19 @@ export const isAuthenticated: RequestHandler = async (req: any, res, next) => {
     return res.status(401).json({ message: 'Unauthorized' });
   }
 
+  const path = (req.originalUrl || req.path).split('?')[0];
+  if (!TOTP_ENROLLMENT_PATHS.includes(path)) {
+    try {
+      const user = await storage.getUser(payload.userId);
+      if (user && await isTotpEnrollmentPending(user)) {
+        return res.status(403).json({ message: TOTP_ENROLLMENT_REQUIRED_MESSAGE, totpEnrollmentRequired: true });
+      }
+    } catch (error) {
+      logger.error('[SECURITY] Two-factor policy check failed', error);
+      return res.status(500).json({ message: 'Authentication failed' });
+    }
+  }
+
   req.user = {
     userId: payload.userId,
     email: payload.email,
@@ -910,6 +1241,11 @@ export const validateCsrf: RequestHandler = (req: any, res, next) => {
   if (fullPath.startsWith('/api/auth/') || fullPath === '/api/setup') {
     return next();
   }
+
+  // A browser never attaches an API token on its own, so token requests cannot be forged cross-site
+  if (isApiTokenRequest(req)) {
+    return next();
+  }
   
   const csrfCookie = req.cookies?.[CSRF_COOKIE_NAME];
   const csrfHeader = req.headers[CSRF_HEADER_NAME];
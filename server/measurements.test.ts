@@ -0,0 +1,98 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createTestAction,
+  createTestOrganization,
+  createTestProject,
+  createTestStrategy,
+  createTestUser,
+  startTestServer,
+  type TestServer,
+} from './test/fixtures';
+import { storage } from './storage';
+import type { Action, Project, Strategy, User } from '@shared/schema';
+
+describe('measurement routes', () => {
+  let server: TestServer;
+  let admin: User;
+  let strategy: Strategy;
+  let project: Project;
+  let action: Action;
+
+  before(async () => {
+    server = await startTestServer();
+    const organization = await createTestOrganization();
+    admin = await createTestUser(organization.id, { role: 'administrator' });
+    strategy = await createTestStrategy(admin);
+    project = await createTestProject(admin, strategy);
+    action = await createTestAction(admin, project);
+  });
+
+  after(() => server.close());
+
+  const reading = (value: number) => ({ value, measuredAt: '2026-10-01' });
+
+  test('readings need an assignment to the strategy', async () => {
+    const outsider = await createTestUser(admin.organizationId!, { role: 'co_lead' });
+
+    for (const path of [`/api/actions/${action.id}/measurements`, `/api/projects/${project.id}/measurements`]) {
+      const refused = await server.request(outsider, 'GET', path);
+      assert.equal(refused.status, 403, path);
+    }
+
+    await storage.assignStrategy(outsider.id, strategy.id, admin.id);
+    for (const path of [`/api/actions/${action.id}/measurements`, `/api/projects/${project.id}/measurements`]) {
+      const allowed = await server.request(outsider, 'GET', path);
+      assert.equal(allowed.status, 200, path);
+    }
+  });
+
+  test('users from another organization cannot read readings', async () => {
+    const otherOrganization = await createTestOrganization();
+    const stranger = await createTestUser(otherOrganization.id, { role: 'administrator' });
+    const response = await server.request(stranger, 'GET', `/api/actions/${action.id}/measurements`);
+    assert.equal(response.status, 403);
+  });
+
+  test('the role on a strategy assignment overrides the built-in role', async () => {
+    const viewer = await createTestUser(admin.organizationId!, { role: 'view' });
+    await storage.assignStrategy(viewer.id, strategy.id, admin.id);
+    const refused = await server.request(viewer, 'POST', `/api/actions/${action.id}/measurements`, reading(10));
+    assert.equal(refused.status, 403);
+
+    const promoted = await createTestUser(admin.organizationId!, { role: 'view' });
+    await storage.assignStrategy(promoted.id, strategy.id, admin.id, 'co_lead');
+    const allowed = await server.request(promoted, 'POST', `/api/actions/${action.id}/measurements`, reading(10));
+    assert.equal(allowed.status, 201);
+
+    const demoted = await createTestUser(admin.organizationId!, { role: 'co_lead' });
+    await storage.assignStrategy(demoted.id, strategy.id, admin.id, 'view');
+    const demotedResponse = await server.request(demoted, 'POST', `/api/projects/${project.id}/measurements`, reading(10));
+    assert.equal(demotedResponse.status, 403);
+  });
+
+  test("deleting an action's readings moves its current value back, then clears it", async () => {
+    const target = await createTestAction(admin, project);
+    const first = await server.request(admin, 'POST', `/api/actions/${target.id}/measurements`, { value: 20, measuredAt: '2026-09-01' });
+    const second = await server.request(admin, 'POST', `/api/actions/${target.id}/measurements`, { value: 35, measuredAt: '2026-09-15' });
+    assert.equal((await storage.getAction(target.id))?.currentValue, '35');
+
+    assert.equal((await server.request(admin, 'DELETE', `/api/measurements/${second.body.id}`)).status, 204);
+    assert.equal((await storage.getAction(target.id))?.currentValue, '20');
+
+    assert.equal((await server.request(admin, 'DELETE', `/api/measurements/${first.body.id}`)).status, 204);
+    assert.equal((await storage.getAction(target.id))?.currentValue, null);
+  });
+
+  test('only administrators or the recorder can delete a reading', async () => {
+    const recorder = await createTestUser(admin.organizationId!, { role: 'co_lead' });
+    await storage.assignStrategy(recorder.id, strategy.id, admin.id);
+    const colleague = await createTestUser(admin.organizationId!, { role: 'co_lead' });
+    await storage.assignStrategy(colleague.id, strategy.id, admin.id);
+
+    const created = await server.request(recorder, 'POST', `/api/actions/${action.id}/measurements`, reading(5));
+    assert.equal(created.status, 201);
+    assert.equal((await server.request(colleague, 'DELETE', `/api/measurements/${created.body.id}`)).status, 403);
+    assert.equal((await server.request(recorder, 'DELETE', `/api/measurements/${created.body.id}`)).status, 204);
+  });
+});
@@ -72,6 +72,56 @@ function runAlterTableMigrations(sqlite: InstanceType<typeof Database>) {
 
   safeAddColumn(sqlite, "holidays", "description", "text");
 
+  safeAddColumn(sqlite, "strategies", "deleted_at", "integer");
+  safeAddColumn(sqlite, "strategies", "deleted_by", "text");
+  safeAddColumn(sqlite, "projects", "deleted_at", "integer");
+  safeAddColumn(sqlite, "projects", "deleted_by", "text");
+  safeAddColumn(sqlite, "actions", "deleted_at", "integer");
+  safeAddColumn(sqlite, "actions", "deleted_by", "text");
+  safeAddColumn(sqlite, "organizations", "recycle_bin_retention_days", "integer NOT NULL DEFAULT 30");
+
+  safeAddColumn(sqlite, "actions", "recurrence_frequency", "text");
+  safeAddColumn(sqlite, "actions", "recurrence_until", "integer");
+  safeAddColumn(sqlite, "actions", "recurrence_count", "integer");
+  safeAddColumn(sqlite, "actions", "recurrence_series_id", "text");
+  safeAddColumn(sqlite, "actions", "recurrence_index", "integer");
+
+  safeAddColumn(sqlite, "notifications", "email_digest", "text NOT NULL DEFAULT 'false'");
+  safeAddColumn(sqlite, "notifications", "digest_sent_at", "integer");
+  safeAddColumn(sqlite, "notifications", "snoozed_until", "integer");
+
+  safeAddColumn(sqlite, "organizations", "reminder_due_offsets", "text NOT NULL DEFAULT '[14,7,1]'");
+  safeAddColumn(sqlite, "organizations", "reminder_overdue_offsets", "text NOT NULL DEFAULT '[1,7]'");
+
+  safeAddColumn(sqlite, "organizations", "project_wake_up_action", "text NOT NULL DEFAULT 'notify'");
+
+  safeAddColumn(sqlite, "organizations", "require_admin_totp", "text NOT NULL DEFAULT 'false'");
+  safeAddColumn(sqlite, "users", "two_factor_method", "text NOT NULL DEFAULT 'email'");
+  safeAddColumn(sqlite, "oidc_login_states", "link_user_id", "text");
+
+  safeAddColumn(sqlite, "user_strategy_assignments", "role", "text");
+  safeAddColumn(sqlite, "users", "custom_role_id", "text");
+  safeAddColumn(sqlite, "comments", "deleted_at", "integer");
+
+  // Receivers' response bodies are no longer logged: they could be anything the webhook URL's host returned
+  const deliveryColumns = sqlite.pragma(`table_info(webhook_deliveries)`) as { name: string }[];
+  if (deliveryColumns.some(c => c.name === "response_body")) {
+    sqlite.exec(`ALTER TABLE "webhook_deliveries" DROP COLUMN "response_body"`);
+  }
+
+  // Date indexes for the reminder scheduler; created here because some of the columns are added above
+  const reminderIndexes = [
+    `CREATE INDEX IF NOT EXISTS "IDX_actions_due_date" ON "actions" ("due_date")`,
+    `CREATE INDEX IF NOT EXISTS "IDX_actions_milestone" ON "actions" ("is_milestone", "planned_end")`,
+    `CREATE INDEX IF NOT EXISTS "IDX_projects_due_date" ON "projects" ("due_date")`,
+    `CREATE INDEX IF NOT EXISTS "IDX_barriers_target_resolution_date" ON "barriers" ("target_resolution_date")`,
+    `CREATE INDEX IF NOT EXISTS "IDX_decisions_due_date" ON "decisions" ("due_date")`,
+    `CREATE INDEX IF NOT EXISTS "IDX_phases_planned_end" ON "phases" ("planned_end")`,
+  ];
+  for (const stmt of reminderIndexes) {
+    sqlite.exec(stmt);
+  }
+
   const orphanedTables = ["billing_history", "payment_failures", "processed_stripe_events", "sent_email_notifications"];
   for (const table of orphanedTables) {
     try {
@@ -89,6 +139,11 @@ function getCreateTableStatements(): string[] {
       "id" text PRIMARY KEY,
       "name" text NOT NULL,
       "registration_token" text NOT NULL UNIQUE,
+      "recycle_bin_retention_days" integer NOT NULL DEFAULT 30,
+      "reminder_due_offsets" text NOT NULL DEFAULT '[14,7,1]',
+      "reminder_overdue_offsets" text NOT NULL DEFAULT '[1,7]',
+      "project_wake_up_action" text NOT NULL DEFAULT 'notify',
+      "require_admin_totp" text NOT NULL DEFAULT 'false',
       "created_at" integer,
       "updated_at" integer
     )`,
@@ -108,6 +163,7 @@ function getCreateTableStatements(): string[] {
       "last_name" text,
       "profile_image_url" text,
       "role" text NOT NULL DEFAULT 'co_lead',
+      "custom_role_id" text,
       "timezone" text DEFAULT 'America/Chicago',
       "organization_id" text,
       "is_super_admin" text NOT NULL DEFAULT 'false',
@@ -115,6 +171,7 @@ function getCreateTableStatements(): string[] {
       "salary" integer,
       "service_delivery_hours" text DEFAULT '0',
       "two_factor_enabled" text NOT NULL DEFAULT 'false',
+      "two_factor_method" text NOT NULL DEFAULT 'email',
       "must_change_password" text NOT NULL DEFAULT 'false',
       "created_at" integer,
       "updated_at" integer
@@ -141,10 +198,28 @@ function getCreateTableStatements(): string[] {
       "created_at" integer
     )`,
 
+    `CREATE TABLE IF NOT EXISTS "totp_credentials" (
+      "user_id" text PRIMARY KEY,
+      "secret" text NOT NULL,
+      "confirmed_at" integer,
+      "last_used_step" integer,
+      "created_at" integer
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "two_factor_recovery_codes" (
+      "id" text PRIMARY KEY,
+      "user_id" text NOT NULL,
+      "code_hash" text NOT NULL,
+      "used_at" integer,
+      "created_at" integer
+    )`,
+    `CREATE INDEX IF NOT EXISTS "IDX_two_factor_recovery_codes_user" ON "two_factor_recovery_codes" ("user_id")`,
+
     `CREATE TABLE IF NOT EXISTS "user_strategy_assignments" (
       "id" text PRIMARY KEY,
       "user_id" text NOT NULL,
       "strategy_id" text NOT NULL,
+      "role" text,
       "assigned_by" text NOT NULL,
       "assigned_at" integer,
       UNIQUE("user_id", "strategy_id")
@@ -199,7 +274,9 @@ function getCreateTableStatements(): string[] {
       "organization_id" text,
       "executive_goal_id" text,
       "created_by" text NOT NULL,
-      "created_at" integer
+      "created_at" integer,
+      "deleted_at" integer,
+      "deleted_by" text
     )`,
 
     `CREATE TABLE IF NOT EXISTS "projects" (
@@ -228,7 +305,9 @@ function getCreateTableStatements(): string[] {
       "workstream_id" text,
       "organization_id" text,
       "created_by" text NOT NULL,
-      "created_at" integer
+      "created_at" integer,
+      "deleted_at" integer,
+      "deleted_by" text
     )`,
 
     `CREATE TABLE IF NOT EXISTS "project_snapshots" (
@@ -305,7 +384,14 @@ function getCreateTableStatements(): string[] {
       "early_end" integer,
       "late_start" integer,
       "late_end" integer,
-      "total_float" integer
+      "total_float" integer,
+      "deleted_at" integer,
+      "deleted_by" text,
+      "recurrence_frequency" text,
+      "recurrence_until" integer,
+      "recurrence_count" integer,
+      "recurrence_series_id" text,
+      "recurrence_index" integer
     )`,
 
     `CREATE TABLE IF NOT EXISTS "action_documents" (
@@ -336,8 +422,19 @@ function getCreateTableStatements(): string[] {
       "related_entity_type" text,
       "is_read" text NOT NULL DEFAULT 'false',
       "organization_id" text,
+      "email_digest" text NOT NULL DEFAULT 'false',
+      "digest_sent_at" integer,
+      "snoozed_until" integer,
       "created_at" integer
     )`,
+    `CREATE TABLE IF NOT EXISTS "notification_preferences" (
+      "id" text PRIMARY KEY,
+      "user_id" text NOT NULL,
+      "notification_type" text NOT NULL,
+      "channel" text NOT NULL,
+      "updated_at" integer,
+      UNIQUE("user_id", "notification_type")
+    )`,
 
     `CREATE TABLE IF NOT EXISTS "dependencies" (
       "id" text PRIMARY KEY,
@@ -493,5 +590,298 @@ function getCreateTableStatements(): string[] {
       "created_at" integer,
       "updated_at" integer
     )`,
+
+    `CREATE TABLE IF NOT EXISTS "framework_documents" (
+      "id" text PRIMARY KEY,
+      "organization_id" text NOT NULL,
+      "framework_type" text NOT NULL,
+      "title" text NOT NULL,
+      "content" text NOT NULL DEFAULT '{}',
+      "version" integer NOT NULL DEFAULT 1,
+      "strategy_id" text,
+      "project_id" text,
+      "created_by" text NOT NULL,
+      "updated_by" text,
+      "created_at" integer,
+      "updated_at" integer
+    )`,
+    `CREATE INDEX IF NOT EXISTS "IDX_framework_documents_org" ON "framework_documents" ("organization_id")`,
+    `CREATE INDEX IF NOT EXISTS "IDX_framework_documents_strategy" ON "framework_documents" ("strategy_id")`,
+
+    `CREATE TABLE IF NOT EXISTS "framework_document_versions" (
+      "id" text PRIMARY KEY,
+      "document_id" text NOT NULL,
+      "version" integer NOT NULL,
+      "title" text NOT NULL,
+      "content" text NOT NULL,
+      "created_by" text NOT NULL,
+      "created_at" integer,
+      UNIQUE("document_id", "version")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "measurements" (
+      "id" text PRIMARY KEY,
+      "entity_type" text NOT NULL,
+      "entity_id" text NOT NULL,
+      "strategy_id" text NOT NULL,
+      "value" real NOT NULL,
+      "target_value" real,
+      "unit" text,
+      "note" text,
+      "measured_at" integer NOT NULL,
+      "organization_id" text NOT NULL,
+      "recorded_by" text NOT NULL,
+      "created_at" integer
+    )`,
+    `CREATE INDEX IF NOT EXISTS "IDX_measurements_entity" ON "measurements" ("entity_type", "entity_id")`,
+
+    `CREATE TABLE IF NOT EXISTS "schedule_baselines" (
+      "id" text PRIMARY KEY,
+      "strategy_id" text NOT NULL,
+      "name" text NOT NULL,
+      "description" text,
+      "snapshot_data" text NOT NULL,
+      "organization_id" text NOT NULL,
+      "created_by" text NOT NULL,
+      "created_at" integer
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "change_history" (
+      "id" text PRIMARY KEY,
+      "entity_type" text NOT NULL,
+      "entity_id" text NOT NULL,
+      "changes" text NOT NULL,
+      "changed_by" text NOT NULL,
+      "organization_id" text,
+      "created_at" integer
+    )`,
+    `CREATE INDEX IF NOT EXISTS "IDX_change_history_entity" ON "change_history" ("entity_type", "entity_id")`,
+
+    `CREATE TABLE IF NOT EXISTS "strategy_scenarios" (
+      "id" text PRIMARY KEY,
+      "strategy_id" text NOT NULL,
+      "name" text NOT NULL,
+      "description" text,
+      "status" text NOT NULL DEFAULT 'draft',
+      "base_data" text NOT NULL,
+      "plan_data" text NOT NULL,
+      "organization_id" text NOT NULL,
+      "created_by" text NOT NULL,
+      "created_at" integer,
+      "updated_at" integer,
+      "promoted_at" integer,
+      "promoted_by" text
+    )`,
+    `CREATE TABLE IF NOT EXISTS "comments" (
+      "id" text PRIMARY KEY,
+      "entity_type" text NOT NULL,
+      "entity_id" text NOT NULL,
+      "parent_id" text,
+      "body" text NOT NULL,
+      "mentions" text NOT NULL DEFAULT '[]',
+      "author_id" text NOT NULL,
+      "organization_id" text NOT NULL,
+      "created_at" integer,
+      "updated_at" integer,
+      "edited_at" integer,
+      "deleted_at" integer
+    )`,
+    `CREATE INDEX IF NOT EXISTS "IDX_comments_entity" ON "comments" ("entity_type", "entity_id")`,
+    `CREATE TABLE IF NOT EXISTS "reminder_ledger" (
+      "id" text PRIMARY KEY,
+      "entity_type" text NOT NULL,
+      "entity_id" text NOT NULL,
+      "reminder_key" text NOT NULL,
+      "due_date" integer NOT NULL,
+      "status" text NOT NULL,
+      "organization_id" text,
+      "created_at" integer,
+      UNIQUE("entity_type", "entity_id", "reminder_key", "due_date")
+    )`,
+    `CREATE TABLE IF NOT EXISTS "webhook_subscriptions" (
+      "id" text PRIMARY KEY,
+      "organization_id" text NOT NULL,
+      "name" text NOT NULL,
+      "url" text NOT NULL,
+      "secret" text NOT NULL,
+      "events" text NOT NULL DEFAULT '[]',
+      "is_active" text NOT NULL DEFAULT 'true',
+      "created_by" text NOT NULL,
+      "created_at" integer,
+      "updated_at" integer
+    )`,
+    `CREATE TABLE IF NOT EXISTS "webhook_deliveries" (
+      "id" text PRIMARY KEY,
+      "subscription_id" text NOT NULL,
+      "organization_id" text NOT NULL,
+      "event" text NOT NULL,
+      "payload" text NOT NULL,
+      "status" text NOT NULL DEFAULT 'pending',
+      "attempts" integer NOT NULL DEFAULT 0,
+      "next_attempt_at" integer,
+      "last_attempt_at" integer,
+      "response_status" integer,
+      "error" text,
+      "replay_of" text,
+      "created_at" integer
+    )`,
+    `CREATE INDEX IF NOT EXISTS "IDX_webhook_deliveries_subscription" ON "webhook_deliveries" ("subscription_id", "created_at")`,
+    `CREATE INDEX IF NOT EXISTS "IDX_webhook_deliveries_due" ON "webhook_deliveries" ("status", "next_attempt_at")`,
+    `CREATE TABLE IF NOT EXISTS "escalation_rules" (
+      "id" text PRIMARY KEY,
+      "organization_id" text NOT NULL,
+      "name" text NOT NULL,
+      "entity_type" text NOT NULL,
+      "conditions" text NOT NULL DEFAULT '[]',
+      "actions" text NOT NULL DEFAULT '[]',
+      "is_active" text NOT NULL DEFAULT 'true',
+      "created_by" text NOT NULL,
+      "created_at" integer,
+      "updated_at" integer
+    )`,
+    `CREATE TABLE IF NOT EXISTS "escalation_rule_executions" (
+      "id" text PRIMARY KEY,
+      "rule_id" text NOT NULL,
+      "organization_id" text NOT NULL,
+      "entity_type" text NOT NULL,
+      "entity_id" text NOT NULL,
+      "entity_title" text NOT NULL,
+      "status" text NOT NULL,
+      "summary" text NOT NULL,
+      "error" text,
+      "created_at" integer
+    )`,
+    `CREATE INDEX IF NOT EXISTS "IDX_escalation_rule_executions_rule_entity" ON "escalation_rule_executions" ("rule_id", "entity_id")`,
+    `CREATE INDEX IF NOT EXISTS "IDX_escalation_rule_executions_org" ON "escalation_rule_executions" ("organization_id", "created_at")`,
+    `CREATE TABLE IF NOT EXISTS "chat_channels" (
+      "id" text PRIMARY KEY,
+      "organization_id" text NOT NULL,
+      "name" text NOT NULL,
+      "provider" text NOT NULL,
+      "webhook_url" text NOT NULL,
+      "strategy_id" text,
+      "notification_types" text NOT NULL DEFAULT '[]',
+      "quiet_hours_start" text,
+      "quiet_hours_end" text,
+      "timezone" text NOT NULL DEFAULT 'UTC',
+      "is_active" text NOT NULL DEFAULT 'true',
+      "created_by" text NOT NULL,
+      "created_at" integer,
+      "updated_at" integer
+    )`,
+    `CREATE TABLE IF NOT EXISTS "chat_messages" (
+      "id" text PRIMARY KEY,
+      "channel_id" text NOT NULL,
+      "organization_id" text NOT NULL,
+      "notification_type" text NOT NULL,
+      "payload" text NOT NULL,
+      "status" text NOT NULL DEFAULT 'pending',
+      "attempts" integer NOT NULL DEFAULT 0,
+      "send_after" integer,
+      "sent_at" integer,
+      "error" text,
+      "created_at" integer
+    )`,
+    `CREATE INDEX IF NOT EXISTS "IDX_chat_messages_due" ON "chat_messages" ("status", "send_after")`,
+    `CREATE TABLE IF NOT EXISTS "entity_follows" (
+      "id" text PRIMARY KEY,
+      "user_id" text NOT NULL,
+      "organization_id" text NOT NULL,
+      "entity_type" text NOT NULL,
+      "entity_id" text NOT NULL,
+      "created_at" integer,
+      UNIQUE("user_id", "entity_type", "entity_id")
+    )`,
+    `CREATE INDEX IF NOT EXISTS "IDX_entity_follows_entity" ON "entity_follows" ("entity_type", "entity_id")`,
+    `CREATE TABLE IF NOT EXISTS "strategy_digests" (
+      "id" text PRIMARY KEY,
+      "strategy_id" text NOT NULL,
+      "organization_id" text NOT NULL,
+      "period_start" integer NOT NULL,
+      "period_end" integer NOT NULL,
+      "progress" integer NOT NULL DEFAULT 0,
+      "content" text NOT NULL,
+      "trigger" text NOT NULL DEFAULT 'scheduled',
+      "created_by" text,
+      "emailed_at" integer,
+      "recipient_count" integer NOT NULL DEFAULT 0,
+      "created_at" integer,
+      UNIQUE("strategy_id", "period_end")
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "oidc_configurations" (
+      "id" text PRIMARY KEY,
+      "organization_id" text NOT NULL UNIQUE,
+      "issuer_url" text NOT NULL,
+      "client_id" text NOT NULL,
+      "client_secret" text NOT NULL,
+      "scopes" text NOT NULL DEFAULT 'openid email profile',
+      "email_claim" text NOT NULL DEFAULT 'email',
+      "first_name_claim" text NOT NULL DEFAULT 'given_name',
+      "last_name_claim" text NOT NULL DEFAULT 'family_name',
+      "groups_claim" text NOT NULL DEFAULT 'groups',
+      "role_mappings" text NOT NULL DEFAULT '[]',
+      "team_tag_mappings" text NOT NULL DEFAULT '[]',
+      "default_role" text,
+      "email_domains" text NOT NULL DEFAULT '[]',
+      "enforce_sso" text NOT NULL DEFAULT 'false',
+      "is_enabled" text NOT NULL DEFAULT 'false',
+      "created_by" text NOT NULL,
+      "created_at" integer,
+      "updated_at" integer
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "oidc_identities" (
+      "id" text PRIMARY KEY,
+      "user_id" text NOT NULL,
+      "organization_id" text NOT NULL,
+      "issuer" text NOT NULL,
+      "subject" text NOT NULL,
+      "last_login_at" integer,
+      "created_at" integer,
+      UNIQUE("issuer", "subject")
+    )`,
+    `CREATE INDEX IF NOT EXISTS "IDX_oidc_identities_user" ON "oidc_identities" ("user_id")`,
+
+    `CREATE TABLE IF NOT EXISTS "oidc_login_states" (
+      "state" text PRIMARY KEY,
+      "organization_id" text NOT NULL,
+      "code_verifier" text NOT NULL,
+      "nonce" text NOT NULL,
+      "link_user_id" text,
+      "expires_at" integer NOT NULL,
+      "created_at" integer
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS "api_tokens" (
+      "id" text PRIMARY KEY,
+      "user_id" text NOT NULL,
+      "organization_id" text NOT NULL,
+      "name" text NOT NULL,
+      "token_prefix" text NOT NULL,
+      "token_hash" text NOT NULL UNIQUE,
+      "scopes" text NOT NULL,
+      "expires_at" integer,
+      "last_used_at" integer,
+      "last_used_ip" text,
+      "revoked_at" integer,
+      "revoked_by" text,
+      "created_at" integer
+    )`,
+    `CREATE INDEX IF NOT EXISTS "IDX_api_tokens_user" ON "api_tokens" ("user_id")`,
+    `CREATE INDEX IF NOT EXISTS "IDX_api_tokens_organization" ON "api_tokens" ("organization_id")`,
+
+    `CREATE TABLE IF NOT EXISTS "custom_roles" (
+      "id" text PRIMARY KEY,
+      "organization_id" text NOT NULL,
+      "name" text NOT NULL,
+      "description" text,
+      "base_role" text NOT NULL,
+      "capabilities" text NOT NULL,
+      "created_by" text NOT NULL,
+      "created_at" integer,
+      "updated_at" integer
+    )`,
+    `CREATE INDEX IF NOT EXISTS "IDX_custom_roles_organization" ON "custom_roles" ("organization_id")`,
   ];
 }
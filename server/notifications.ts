@@ -1,5 +1,8 @@
-import { type InsertNotification } from "@shared/schema";
+import { type InsertNotification, type NotificationChannel, type DeadlineReminderKind, type FollowableEntityType } from "@shared/schema";
 import { storage } from "./storage";
+import { sendNotificationEmail } from "./email";
+import { publishNotification } from "./realtime";
+import { postChatNotification } from "./chat";
 
 // Notification types
 export const NotificationTypes = {
@@ -10,20 +13,87 @@ export const NotificationTypes = {
   PROJECT_PROGRESS_75: "project_progress_75",
   PROJECT_PROGRESS_100: "project_progress_100",
   STRATEGY_ALL_PROJECTS_COMPLETE: "strategy_all_projects_complete",
-  ACTION_DUE_14_DAYS: "action_due_14_days",
-  ACTION_DUE_7_DAYS: "action_due_7_days",
-  ACTION_DUE_1_DAY: "action_due_1_day",
-  ACTION_OVERDUE_1_DAY: "action_overdue_1_day",
-  ACTION_OVERDUE_7_DAYS: "action_overdue_7_days",
+  // Reminder offsets are configured per organization, so one type covers every "due soon" and "overdue" reminder
+  ACTION_DUE_SOON: "action_due_soon",
+  ACTION_OVERDUE: "action_overdue",
+  GATE_DUE_SOON: "gate_due_soon",
+  GATE_OVERDUE: "gate_overdue",
+  PROJECT_DUE_SOON: "project_due_soon",
+  PROJECT_OVERDUE: "project_overdue",
+  BARRIER_RESOLUTION_DUE: "barrier_resolution_due",
+  BARRIER_RESOLUTION_OVERDUE: "barrier_resolution_overdue",
+  DECISION_DUE_SOON: "decision_due_soon",
+  DECISION_OVERDUE: "decision_overdue",
+  PHASE_ENDING_SOON: "phase_ending_soon",
+  PHASE_OVERDUE: "phase_overdue",
   USER_ASSIGNED_TO_PROJECT: "user_assigned_to_project",
   STRATEGY_STATUS_CHANGED: "strategy_status_changed",
   PROJECT_STATUS_CHANGED: "project_status_changed",
   READINESS_RATING_CHANGED: "readiness_rating_changed",
   RISK_EXPOSURE_CHANGED: "risk_exposure_changed",
   CHANGE_CHAMPION_ASSIGNED: "change_champion_assigned",
+  COMMENT_MENTION: "comment_mention",
+  PROJECT_WAKE_UP_REVIEW: "project_wake_up_review",
+  PROJECT_WOKEN_UP: "project_woken_up",
+  ESCALATION_RULE_TRIGGERED: "escalation_rule_triggered",
 } as const;
 
 export type NotificationType = typeof NotificationTypes[keyof typeof NotificationTypes];
+export type NotificationEntityType = "strategy" | "project" | "action" | "barrier" | "decision" | "phase";
+
+// Labels and groups for the per-user channel preference matrix in settings
+export const NotificationTypeLabels: Record<NotificationType, { label: string; group: string }> = {
+  [NotificationTypes.ACTION_COMPLETED]: { label: "Action completed", group: "Progress" },
+  [NotificationTypes.ACTION_ACHIEVED]: { label: "Action achieved", group: "Progress" },
+  [NotificationTypes.PROJECT_PROGRESS_25]: { label: "Project reached 25%", group: "Progress" },
+  [NotificationTypes.PROJECT_PROGRESS_50]: { label: "Project reached 50%", group: "Progress" },
+  [NotificationTypes.PROJECT_PROGRESS_75]: { label: "Project reached 75%", group: "Progress" },
+  [NotificationTypes.PROJECT_PROGRESS_100]: { label: "Project complete", group: "Progress" },
+  [NotificationTypes.STRATEGY_ALL_PROJECTS_COMPLETE]: { label: "All strategy projects complete", group: "Progress" },
+  [NotificationTypes.ACTION_DUE_SOON]: { label: "Action due soon", group: "Deadlines" },
+  [NotificationTypes.ACTION_OVERDUE]: { label: "Action overdue", group: "Deadlines" },
+  [NotificationTypes.GATE_DUE_SOON]: { label: "Gate milestone due soon", group: "Deadlines" },
+  [NotificationTypes.GATE_OVERDUE]: { label: "Gate milestone overdue", group: "Deadlines" },
+  [NotificationTypes.PROJECT_DUE_SOON]: { label: "Project due soon", group: "Deadlines" },
+  [NotificationTypes.PROJECT_OVERDUE]: { label: "Project overdue", group: "Deadlines" },
+  [NotificationTypes.BARRIER_RESOLUTION_DUE]: { label: "Barrier resolution due soon", group: "Deadlines" },
+  [NotificationTypes.BARRIER_RESOLUTION_OVERDUE]: { label: "Barrier resolution overdue", group: "Deadlines" },
+  [NotificationTypes.DECISION_DUE_SOON]: { label: "Decision due soon", group: "Deadlines" },
+  [NotificationTypes.DECISION_OVERDUE]: { label: "Decision overdue", group: "Deadlines" },
+  [NotificationTypes.PHASE_ENDING_SOON]: { label: "Phase ending soon", group: "Deadlines" },
+  [NotificationTypes.PHASE_OVERDUE]: { label: "Phase past its planned end", group: "Deadlines" },
+  [NotificationTypes.USER_ASSIGNED_TO_PROJECT]: { label: "Assigned to a project", group: "Assignments" },
+  [NotificationTypes.CHANGE_CHAMPION_ASSIGNED]: { label: "Assigned as change champion", group: "Assignments" },
+  [NotificationTypes.STRATEGY_STATUS_CHANGED]: { label: "Strategy status changed", group: "Status changes" },
+  [NotificationTypes.PROJECT_STATUS_CHANGED]: { label: "Project status changed", group: "Status changes" },
+  [NotificationTypes.READINESS_RATING_CHANGED]: { label: "Readiness rating changed", group: "Status changes" },
+  [NotificationTypes.RISK_EXPOSURE_CHANGED]: { label: "Risk exposure changed", group: "Status changes" },
+  [NotificationTypes.COMMENT_MENTION]: { label: "Mentioned in a comment", group: "Discussion" },
+  [NotificationTypes.PROJECT_WAKE_UP_REVIEW]: { label: "Parked project ready for review", group: "Archived projects" },
+  [NotificationTypes.PROJECT_WOKEN_UP]: { label: "Parked project reactivated", group: "Archived projects" },
+  [NotificationTypes.ESCALATION_RULE_TRIGGERED]: { label: "Escalation rule triggered", group: "Escalations" },
+};
+
+// The inbox filters by the same groups the preference matrix uses
+export const NotificationCategories: string[] = Array.from(new Set(Object.values(NotificationTypeLabels).map(({ group }) => group)));
+
+export function getNotificationTypesInCategory(category: string): NotificationType[] {
+  return (Object.keys(NotificationTypeLabels) as NotificationType[]).filter(type => NotificationTypeLabels[type].group === category);
+}
+
+export const DEFAULT_NOTIFICATION_CHANNEL: NotificationChannel = "in_app";
+
+// Addressed to one person ("you were mentioned"), so never posted to shared chat channels
+export const PERSONAL_NOTIFICATION_TYPES: ReadonlySet<NotificationType> = new Set([
+  NotificationTypes.COMMENT_MENTION,
+  NotificationTypes.USER_ASSIGNED_TO_PROJECT,
+  NotificationTypes.CHANGE_CHAMPION_ASSIGNED,
+]);
+
+async function getNotificationChannel(userId: string, type: NotificationType): Promise<NotificationChannel> {
+  const preferences = await storage.getNotificationPreferences(userId);
+  return preferences.find((p) => p.notificationType === type)?.channel ?? DEFAULT_NOTIFICATION_CHANNEL;
+}
 
 // Helper function to create a notification
 export async function createNotification(
@@ -32,8 +102,13 @@ export async function createNotification(
   title: string,
   message: string,
   relatedEntityId?: string,
-  relatedEntityType?: "strategy" | "project" | "action"
+  relatedEntityType?: NotificationEntityType
 ) {
+  const channel = await getNotificationChannel(userId, type);
+  if (channel === "off") {
+    return undefined;
+  }
+
   const notification: InsertNotification = {
     userId,
     type,
@@ -42,9 +117,47 @@ export async function createNotification(
     relatedEntityId: relatedEntityId || null,
     relatedEntityType: relatedEntityType || null,
     isRead: "false",
+    emailDigest: channel === "digest" ? "true" : "false",
   };
 
-  return await storage.createNotification(notification);
+  const created = await storage.createNotification(notification);
+  publishNotification(userId);
+
+  if (channel === "email") {
+    // Delivery failures are logged by the mailer and must not fail the change that triggered them
+    const user = await storage.getUser(userId);
+    if (user?.email) {
+      void sendNotificationEmail(user.email, { title, message }, user.firstName);
+    }
+  }
+
+  return created;
+}
+
+/**
+ * People following the record, or the project or strategy it belongs to. Followers who can no longer
+ * see the strategy (non-administrators who were unassigned) are left out.
+ */
+async function getFollowers(entityType: NotificationEntityType, entityId: string): Promise<string[]> {
+  const scope = await storage.getEntityScope(entityType, entityId);
+  if (!scope) return [];
+
+  const targets: { entityType: FollowableEntityType; entityId: string }[] = [];
+  if (entityType === "action") targets.push({ entityType, entityId });
+  if (scope.projectId) targets.push({ entityType: "project", entityId: scope.projectId });
+  if (scope.strategyId) targets.push({ entityType: "strategy", entityId: scope.strategyId });
+  const followerIds = await storage.getFollowerIds(scope.organizationId, targets);
+  if (followerIds.length === 0 || !scope.strategyId) return followerIds;
+
+  const visible: string[] = [];
+  for (const userId of followerIds) {
+    const user = await storage.getUser(userId);
+    if (!user) continue;
+    if (user.role === "administrator" || (await storage.getUserAssignedStrategyIds(userId)).includes(scope.strategyId)) {
+      visible.push(userId);
+    }
+  }
+  return visible;
 }
 
 // Helper function to notify multiple users
@@ -54,8 +167,13 @@ export async function notifyUsers(
   title: string,
   message: string,
   relatedEntityId?: string,
-  relatedEntityType?: "strategy" | "project" | "action"
+  relatedEntityType?: NotificationEntityType
 ) {
+  // Followers get the record's events too, except those addressed to one person
+  if (relatedEntityId && relatedEntityType && !PERSONAL_NOTIFICATION_TYPES.has(type)) {
+    userIds = Array.from(new Set([...userIds, ...(await getFollowers(relatedEntityType, relatedEntityId))]));
+  }
+
   // Filter out SME users - they cannot log in and should not receive notifications
   const allUsers = await storage.getAllUsers();
   const filteredUserIds = userIds.filter((userId) => {
@@ -66,6 +184,11 @@ export async function notifyUsers(
   const promises = filteredUserIds.map((userId) =>
     createNotification(userId, type, title, message, relatedEntityId, relatedEntityType)
   );
+
+  // One chat post per event, whoever it was addressed to
+  if (relatedEntityId && relatedEntityType && !PERSONAL_NOTIFICATION_TYPES.has(type)) {
+    void postChatNotification({ notificationType: type, label: NotificationTypeLabels[type].label, title, message }, relatedEntityType, relatedEntityId);
+  }
   return await Promise.all(promises);
 }
 
@@ -152,64 +275,130 @@ export async function notifyStrategyAllProjectsComplete(
   );
 }
 
-export async function notifyActionDueSoon(
-  actionId: string,
-  actionTitle: string,
+type DeadlineReminderFormat = {
+  noun: string;
+  entityType: NotificationEntityType;
+  dueSoon: NotificationType;
+  overdue: NotificationType;
+  dueSoonTitle: string;
+  overdueTitle: string;
+  // Phrases completing `<Noun> "<title>" ...`, e.g. "is due tomorrow" / "is 3 days overdue"
+  duePhrase: (when: string) => string;
+  overduePhrase: (days: string) => string;
+};
+
+const DeadlineReminderFormats: Record<DeadlineReminderKind, DeadlineReminderFormat> = {
+  action: {
+    noun: "Action", entityType: "action",
+    dueSoon: NotificationTypes.ACTION_DUE_SOON, overdue: NotificationTypes.ACTION_OVERDUE,
+    dueSoonTitle: "Action Due Soon", overdueTitle: "Action Overdue",
+    duePhrase: (when) => `is due ${when}`, overduePhrase: (days) => `is ${days} overdue`,
+  },
+  gate: {
+    noun: "Gate", entityType: "action",
+    dueSoon: NotificationTypes.GATE_DUE_SOON, overdue: NotificationTypes.GATE_OVERDUE,
+    dueSoonTitle: "Gate Due Soon", overdueTitle: "Gate Overdue",
+    duePhrase: (when) => `is due ${when}`, overduePhrase: (days) => `is ${days} overdue`,
+  },
+  project: {
+    noun: "Project", entityType: "project",
+    dueSoon: NotificationTypes.PROJECT_DUE_SOON, overdue: NotificationTypes.PROJECT_OVERDUE,
+    dueSoonTitle: "Project Due Soon", overdueTitle: "Project Overdue",
+    duePhrase: (when) => `is due ${when}`, overduePhrase: (days) => `is ${days} overdue`,
+  },
+  barrier: {
+    noun: "Barrier", entityType: "barrier",
+    dueSoon: NotificationTypes.BARRIER_RESOLUTION_DUE, overdue: NotificationTypes.BARRIER_RESOLUTION_OVERDUE,
+    dueSoonTitle: "Barrier Resolution Due", overdueTitle: "Barrier Resolution Overdue",
+    duePhrase: (when) => `is due to be resolved ${when}`, overduePhrase: (days) => `is ${days} past its target resolution date`,
+  },
+  decision: {
+    noun: "Decision", entityType: "decision",
+    dueSoon: NotificationTypes.DECISION_DUE_SOON, overdue: NotificationTypes.DECISION_OVERDUE,
+    dueSoonTitle: "Decision Due Soon", overdueTitle: "Decision Overdue",
+    duePhrase: (when) => `is due ${when}`, overduePhrase: (days) => `is ${days} overdue`,
+  },
+  phase: {
+    noun: "Phase", entityType: "phase",
+    dueSoon: NotificationTypes.PHASE_ENDING_SOON, overdue: NotificationTypes.PHASE_OVERDUE,
+    dueSoonTitle: "Phase Ending Soon", overdueTitle: "Phase Overdue",
+    duePhrase: (when) => `ends ${when}`, overduePhrase: (days) => `is ${days} past its planned end`,
+  },
+};
+
+export async function notifyDeadlineDueSoon(
+  kind: DeadlineReminderKind,
+  entityId: string,
+  entityTitle: string,
   daysUntilDue: number,
-  assignedUserIds: string[]
+  userIds: string[]
 ) {
-  let type: NotificationType;
-  let message: string;
-
-  if (daysUntilDue === 14) {
-    type = NotificationTypes.ACTION_DUE_14_DAYS;
-    message = `Action "${actionTitle}" is due in 14 days`;
-  } else if (daysUntilDue === 7) {
-    type = NotificationTypes.ACTION_DUE_7_DAYS;
-    message = `Action "${actionTitle}" is due in 7 days`;
+  const format = DeadlineReminderFormats[kind];
+  let when: string;
+
+  if (daysUntilDue <= 0) {
+    when = "today";
   } else if (daysUntilDue === 1) {
-    type = NotificationTypes.ACTION_DUE_1_DAY;
-    message = `Action "${actionTitle}" is due tomorrow`;
+    when = "tomorrow";
   } else {
-    return;
+    when = `in ${daysUntilDue} days`;
   }
 
   await notifyUsers(
-    assignedUserIds,
-    type,
-    "Action Due Soon",
-    message,
-    actionId,
-    "action"
+    userIds,
+    format.dueSoon,
+    format.dueSoonTitle,
+    `${format.noun} "${entityTitle}" ${format.duePhrase(when)}`,
+    entityId,
+    format.entityType
   );
 }
 
-export async function notifyActionOverdue(
-  actionId: string,
-  actionTitle: string,
+export async function notifyDeadlineOverdue(
+  kind: DeadlineReminderKind,
+  entityId: string,
+  entityTitle: string,
   daysPastDue: number,
-  assignedUserIds: string[]
+  userIds: string[]
 ) {
-  let type: NotificationType;
-  let message: string;
-
-  if (daysPastDue === 1) {
-    type = NotificationTypes.ACTION_OVERDUE_1_DAY;
-    message = `Action "${actionTitle}" is 1 day overdue`;
-  } else if (daysPastDue === 7) {
-    type = NotificationTypes.ACTION_OVERDUE_7_DAYS;
-    message = `Action "${actionTitle}" is 7 days overdue`;
-  } else {
+  const format = DeadlineReminderFormats[kind];
+  const days = daysPastDue === 1 ? "1 day" : `${daysPastDue} days`;
+
+  await notifyUsers(
+    userIds,
+    format.overdue,
+    format.overdueTitle,
+    `${format.noun} "${entityTitle}" ${format.overduePhrase(days)}`,
+    entityId,
+    format.entityType
+  );
+}
+
+export async function notifyProjectWakeUp(
+  projectId: string,
+  projectTitle: string,
+  adminUserIds: string[],
+  reactivated: boolean
+) {
+  if (reactivated) {
+    await notifyUsers(
+      adminUserIds,
+      NotificationTypes.PROJECT_WOKEN_UP,
+      "Parked Project Reactivated",
+      `Archived project "${projectTitle}" reached its wake-up date and has been restored`,
+      projectId,
+      "project"
+    );
     return;
   }
 
   await notifyUsers(
-    assignedUserIds,
-    type,
-    "Action Overdue",
-    message,
-    actionId,
-    "action"
+    adminUserIds,
+    NotificationTypes.PROJECT_WAKE_UP_REVIEW,
+    "Review Parked Project",
+    `Archived project "${projectTitle}" reached its wake-up date. Review it and reactivate it if it should resume.`,
+    projectId,
+    "project"
   );
 }
 
@@ -322,3 +511,38 @@ export async function notifyChangeChampionAssigned(
     "strategy"
   );
 }
+
+export async function notifyCommentMention(
+  mentionedUserIds: string[],
+  authorName: string,
+  entityType: "project" | "action" | "barrier" | "decision",
+  entityId: string,
+  entityTitle: string
+) {
+  await notifyUsers(
+    mentionedUserIds,
+    NotificationTypes.COMMENT_MENTION,
+    "You Were Mentioned",
+    `${authorName} mentioned you in a comment on ${entityType} "${entityTitle}"`,
+    entityId,
+    entityType
+  );
+}
+
+export async function notifyEscalation(
+  userIds: string[],
+  ruleName: string,
+  entityType: "barrier" | "decision" | "project" | "action",
+  entityId: string,
+  entityTitle: string,
+  message?: string
+) {
+  await notifyUsers(
+    userIds,
+    NotificationTypes.ESCALATION_RULE_TRIGGERED,
+    `Escalation: ${ruleName}`,
+    message ? `${message} (${entityTitle})` : `"${entityTitle}" matched the escalation rule "${ruleName}"`,
+    entityId,
+    entityType
+  );
+}
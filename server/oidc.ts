@@ -0,0 +1,343 @@
+import * as client from 'openid-client';
+import { storage } from './storage';
+import { logger } from './logger';
+import { getBaseUrl } from './email';
+import { getUserByEmail } from './pgStorage';
+import type { OidcConfiguration, OidcRoleMapping, OidcTeamTagMapping, SsoRole, User } from '@shared/schema';
+
+// Per-organization OpenID Connect sign-in: authorization code flow with PKCE, then just-in-time provisioning
+
+export const SSO_CALLBACK_PATH = '/api/auth/sso/callback';
+const LOGIN_STATE_TTL_MS = 10 * 60 * 1000;
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+
+// When a user's groups map to several roles, the most privileged one wins
+const ROLE_PRECEDENCE: SsoRole[] = ['administrator', 'co_lead', 'view', 'sme'];
+
+// Shown to the user on the sign-in page, so it must not leak configuration details
+export class SsoLoginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SsoLoginError';
+  }
+}
+
+export function getSsoRedirectUri(): string {
+  return `${getBaseUrl()}${SSO_CALLBACK_PATH}`;
+}
+
+export function parseRoleMappings(configuration: OidcConfiguration): OidcRoleMapping[] {
+  return JSON.parse(configuration.roleMappings || '[]');
+}
+
+export function parseTeamTagMappings(configuration: OidcConfiguration): OidcTeamTagMapping[] {
+  return JSON.parse(configuration.teamTagMappings || '[]');
+}
+
+export function parseEmailDomains(configuration: OidcConfiguration): string[] {
+  return JSON.parse(configuration.emailDomains || '[]');
+}
+
+// Plain http is only accepted for an IdP on this machine, such as a mock IdP during development
+function isLoopbackIssuer(issuerUrl: URL): boolean {
+  return issuerUrl.protocol === 'http:' && ['localhost', '127.0.0.1', '[::1]'].includes(issuerUrl.hostname);
+}
+
+const discoveryCache = new Map<string, { config: client.Configuration; expiresAt: number }>();
+
+/**
+ * Fetches the IdP's discovery document. Cached per configuration version, so saving new settings
+ * is picked up on the next sign-in.
+ */
+export async function discoverOidcProvider(configuration: Pick<OidcConfiguration, 'issuerUrl' | 'clientId' | 'clientSecret' | 'updatedAt'>): Promise<client.Configuration> {
+  const cacheKey = `${configuration.issuerUrl}|${configuration.clientId}|${configuration.updatedAt?.getTime() ?? 0}`;
+  const cached = discoveryCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.config;
+  }
+
+  const issuerUrl = new URL(configuration.issuerUrl);
+  const config = await client.discovery(
+    issuerUrl,
+    configuration.clientId,
+    configuration.clientSecret,
+    undefined,
+    isLoopbackIssuer(issuerUrl) ? { execute: [client.allowInsecureRequests] } : undefined,
+  );
+  discoveryCache.set(cacheKey, { config, expiresAt: Date.now() + DISCOVERY_TTL_MS });
+  return config;
+}
+
+// Returns the IdP URL to send the browser to
+export async function buildSsoAuthorizationUrl(configuration: OidcConfiguration, loginHint?: string, linkUserId?: string): Promise<URL> {
+  const config = await discoverOidcProvider(configuration);
+  const codeVerifier = client.randomPKCECodeVerifier();
+  const state = client.randomState();
+  const nonce = client.randomNonce();
+
+  await storage.createOidcLoginState({
+    state,
+    organizationId: configuration.organizationId,
+    codeVerifier,
+    nonce,
+    linkUserId: linkUserId ?? null,
+    expiresAt: new Date(Date.now() + LOGIN_STATE_TTL_MS),
+  });
+
+  const parameters: Record<string, string> = {
+    redirect_uri: getSsoRedirectUri(),
+    scope: configuration.scopes,
+    code_challenge: await client.calculatePKCECodeChallenge(codeVerifier),
+    code_challenge_method: 'S256',
+    state,
+    nonce,
+  };
+  if (loginHint) {
+    parameters.login_hint = loginHint;
+  }
+  return client.buildAuthorizationUrl(config, parameters);
+}
+
+function claimString(claims: Record<string, unknown>, name: string): string | null {
+  const value = claims[name];
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+// Groups usually arrive as an array, but some IdPs send a single string or a comma-separated list
+function claimGroups(claims: Record<string, unknown>, name: string): string[] {
+  const value = claims[name];
+  if (Array.isArray(value)) {
+    return value.filter((group): group is string => typeof group === 'string');
+  }
+  if (typeof value === 'string') {
+    return value.split(',').map(group => group.trim()).filter(Boolean);
+  }
+  return [];
+}
+
+export function resolveSsoRole(groups: string[], mappings: OidcRoleMapping[]): SsoRole | null {
+  const matched = new Set(mappings.filter(mapping => groups.includes(mapping.group)).map(mapping => mapping.role));
+  return ROLE_PRECEDENCE.find(role => matched.has(role)) ?? null;
+}
+
+interface SsoProfile {
+  issuer: string;
+  subject: string;
+  email: string;
+  emailVerified: boolean;
+  firstName: string | null;
+  lastName: string | null;
+  groups: string[];
+}
+
+// Accounts someone can already sign in to are only linked when their owner asks for it while signed in
+function hasOwnCredentials(user: User): boolean {
+  return !!user.passwordHash || user.twoFactorEnabled === 'true';
+}
+
+/**
+ * Creates the user on first sign-in, or links and updates the existing one. Roles and team tags follow
+ * the group mappings on every sign-in; a user whose groups map to no role keeps the role they have.
+ * With linkUserId, the signed-in user who started the flow is linked instead of a match by email.
+ */
+async function provisionSsoUser(configuration: OidcConfiguration, profile: SsoProfile, linkUserId: string | null): Promise<User> {
+  const organizationId = configuration.organizationId;
+  const mappedRole = resolveSsoRole(profile.groups, parseRoleMappings(configuration));
+
+  if (!profile.emailVerified) {
+    throw new SsoLoginError('Your identity provider has not verified your email address.');
+  }
+  const domains = parseEmailDomains(configuration);
+  if (domains.length > 0 && !domains.includes(profile.email.split('@')[1])) {
+    logger.warn(`[SECURITY] SSO sign-in refused: ${profile.email} is outside the configured domains of org ${organizationId}`);
+    throw new SsoLoginError('Your email address is not allowed to sign in here.');
+  }
+
+  const identity = await storage.getOidcIdentity(profile.issuer, profile.subject);
+  let user = identity ? await storage.getUser(identity.userId) : undefined;
+
+  if (linkUserId) {
+    if (identity && identity.userId !== linkUserId) {
+      throw new SsoLoginError('This identity provider account is already linked to someone else.');
+    }
+    user = await storage.getUser(linkUserId);
+    if (!user) {
+      throw new SsoLoginError('The sign-in link has expired. Please try again.');
+    }
+  } else if (!user) {
+    user = await getUserByEmail(profile.email);
+    if (user && user.organizationId === organizationId && user.isSuperAdmin !== 'true' && hasOwnCredentials(user)) {
+      logger.warn(`[SECURITY] SSO sign-in refused: ${profile.email} has an existing account that is not linked`);
+      throw new SsoLoginError('An account with this email already exists. Sign in with your password, then link single sign-on under Settings > Security.');
+    }
+  }
+
+  if (user && user.organizationId !== organizationId) {
+    logger.warn(`[SECURITY] SSO sign-in refused: ${profile.email} belongs to another organization`);
+    throw new SsoLoginError('This account belongs to a different organization.');
+  }
+
+  // Super admins reach every organization, so no single organization's IdP may sign them in
+  if (user?.isSuperAdmin === 'true') {
+    logger.warn(`[SECURITY] SSO sign-in refused for super admin ${user.id}`);
+    throw new SsoLoginError('This account cannot use single sign-on.');
+  }
+
+  if (!user) {
+    const role = mappedRole ?? configuration.defaultRole;
+    if (!role || role === 'sme') {
+      logger.warn(`[SECURITY] SSO sign-in refused: no role for new user ${profile.email} (groups: ${profile.groups.join(', ') || 'none'})`);
+      throw new SsoLoginError('Your account has not been given access. Please contact your administrator.');
+    }
+    user = await storage.createUser({
+      email: profile.email,
+      firstName: profile.firstName,
+      lastName: profile.lastName,
+      role,
+      organizationId,
+      isSuperAdmin: 'false',
+    });
+    logger.info(`[SECURITY] SSO provisioned user ${user.id} (${user.email}) in org ${organizationId}, role: ${role}`);
+  } else {
+    const updates: Partial<User> = {};
+    if (profile.firstName && profile.firstName !== user.firstName) updates.firstName = profile.firstName;
+    if (profile.lastName && profile.lastName !== user.lastName) updates.lastName = profile.lastName;
+    if (mappedRole && mappedRole !== user.role) {
+      if (user.role === 'administrator' && !(await hasOtherAdministrator(organizationId, user.id))) {
+        logger.warn(`[SECURITY] SSO kept ${user.email} as administrator: they are the organization's only administrator`);
+      } else {
+        updates.role = mappedRole;
+        // Group mappings name built-in roles, so a custom role no longer applies
+        updates.customRoleId = null;
+        logger.info(`[SECURITY] SSO changed role of user ${user.id} (${user.email}) from ${user.role} to ${mappedRole}`);
+      }
+    }
+    if (Object.keys(updates).length > 0) {
+      user = (await storage.updateUser(user.id, updates)) ?? user;
+    }
+  }
+
+  if (user.role === 'sme') {
+    throw new SsoLoginError('SME users cannot log in. Please contact administrator.');
+  }
+
+  if (identity) {
+    await storage.touchOidcIdentity(identity.id);
+  } else {
+    await storage.createOidcIdentity({ userId: user.id, organizationId, issuer: profile.issuer, subject: profile.subject });
+    logger.info(`[SECURITY] SSO identity ${profile.issuer} ${profile.subject} linked to user ${user.id}${linkUserId ? ' at their request' : ''}`);
+  }
+
+  await syncSsoTeamTags(configuration, user.id, profile.groups);
+  return user;
+}
+
+async function hasOtherAdministrator(organizationId: string, userId: string): Promise<boolean> {
+  const members = await storage.getUsersByOrganization(organizationId);
+  return members.some(member => member.id !== userId && member.role === 'administrator');
+}
+
+// Only tags named in the mappings are managed here; tags assigned by hand are left alone
+async function syncSsoTeamTags(configuration: OidcConfiguration, userId: string, groups: string[]): Promise<void> {
+  const mappings = parseTeamTagMappings(configuration);
+  if (mappings.length === 0) return;
+
+  const organizationId = configuration.organizationId;
+  const managed = new Set(mappings.map(mapping => mapping.teamTagId));
+  const desired = new Set(mappings.filter(mapping => groups.includes(mapping.group)).map(mapping => mapping.teamTagId));
+
+  const current = await storage.getUserTeamTags(userId, organizationId);
+  const kept = current.map(tag => tag.teamTagId).filter(tagId => !managed.has(tagId) || desired.has(tagId));
+  const next = Array.from(new Set([...kept, ...Array.from(desired)]));
+
+  const unchanged = next.length === current.length && current.every(tag => next.includes(tag.teamTagId));
+  if (unchanged) return;
+
+  // setUserTeamTags keeps the current primary tag when it is still in the list
+  await storage.setUserTeamTags(userId, next, organizationId);
+}
+
+/**
+ * Handles the IdP redirect: checks state, PKCE and nonce, exchanges the code and provisions the user.
+ * sessionUserId is whoever is signed in to this browser; a link flow must finish in the same session.
+ * Anything the user should see is thrown as an SsoLoginError.
+ */
+export async function completeSsoLogin(callbackUrl: URL, sessionUserId: string | null): Promise<User> {
+  const error = callbackUrl.searchParams.get('error');
+  if (error) {
+    logger.warn(`[SECURITY] SSO sign-in returned an error from the IdP: ${error} ${callbackUrl.searchParams.get('error_description') ?? ''}`);
+    throw new SsoLoginError('Your identity provider did not complete the sign-in.');
+  }
+
+  const state = callbackUrl.searchParams.get('state');
+  const loginState = state ? await storage.consumeOidcLoginState(state) : undefined;
+  if (!loginState) {
+    throw new SsoLoginError('The sign-in link has expired. Please try again.');
+  }
+  if (loginState.linkUserId && loginState.linkUserId !== sessionUserId) {
+    logger.warn(`[SECURITY] SSO link for user ${loginState.linkUserId} finished in a different session`);
+    throw new SsoLoginError('Sign in again, then link single sign-on from Settings > Security.');
+  }
+
+  const configuration = await storage.getOidcConfiguration(loginState.organizationId);
+  if (!configuration || configuration.isEnabled !== 'true') {
+    throw new SsoLoginError('Single sign-on is not enabled for this organization.');
+  }
+
+  const config = await discoverOidcProvider(configuration);
+  const tokens = await client.authorizationCodeGrant(config, callbackUrl, {
+    pkceCodeVerifier: loginState.codeVerifier,
+    expectedState: loginState.state,
+    expectedNonce: loginState.nonce,
+    idTokenExpected: true,
+  });
+
+  const idClaims = tokens.claims();
+  if (!idClaims) {
+    throw new SsoLoginError('Your identity provider did not return an ID token.');
+  }
+  let claims: Record<string, unknown> = { ...idClaims };
+
+  // Many IdPs only put profile and group claims in the userinfo response
+  const needsUserInfo = !claimString(claims, configuration.emailClaim) || !(configuration.groupsClaim in claims);
+  if (needsUserInfo && config.serverMetadata().userinfo_endpoint) {
+    const userInfo = await client.fetchUserInfo(config, tokens.access_token, idClaims.sub);
+    claims = { ...userInfo, ...claims };
+  }
+
+  const email = claimString(claims, configuration.emailClaim)?.toLowerCase();
+  if (!email) {
+    throw new SsoLoginError('Your identity provider did not share an email address.');
+  }
+
+  return provisionSsoUser(configuration, {
+    issuer: idClaims.iss,
+    subject: idClaims.sub,
+    email,
+    // Only an explicit claim counts: the email decides which account is signed in
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+    firstName: claimString(claims, configuration.firstNameClaim),
+    lastName: claimString(claims, configuration.lastNameClaim),
+    groups: claimGroups(claims, configuration.groupsClaim),
+  }, loginState.linkUserId);
+}
+
+// The enabled provider for an email address: by configured domain first, then by the user's organization
+export async function findSsoConfigurationForEmail(email: string): Promise<OidcConfiguration | undefined> {
+  const normalized = email.trim().toLowerCase();
+  const domain = normalized.split('@')[1];
+  const configurations = await storage.getEnabledOidcConfigurations();
+
+  const byDomain = domain && configurations.find(configuration => parseEmailDomains(configuration).includes(domain));
+  if (byDomain) return byDomain;
+
+  const user = await getUserByEmail(normalized);
+  return user?.organizationId ? configurations.find(configuration => configuration.organizationId === user.organizationId) : undefined;
+}
+
+// Whether members of the organization have to sign in through the IdP
+export async function isSsoEnforced(organizationId: string | null): Promise<boolean> {
+  if (!organizationId) return false;
+  const configuration = await storage.getOidcConfiguration(organizationId);
+  return configuration?.isEnabled === 'true' && configuration.enforceSso === 'true';
+}
@@ -0,0 +1,148 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createTestAction,
+  createTestOrganization,
+  createTestProject,
+  createTestStrategy,
+  createTestUser,
+  startTestServer,
+  type TestServer,
+} from './test/fixtures';
+import { storage } from './storage';
+import { getUsersByOrganization } from './pgStorage';
+import type { Action, OrganizationArchive, Project, Strategy, User } from '@shared/schema';
+
+describe('organization archive', () => {
+  let server: TestServer;
+  let admin: User;
+  let superAdmin: User;
+  let member: User;
+  let strategy: Strategy;
+  let project: Project;
+  let action: Action;
+
+  before(async () => {
+    server = await startTestServer();
+    const organization = await createTestOrganization();
+    admin = await createTestUser(organization.id, { role: 'administrator' });
+    superAdmin = await createTestUser((await createTestOrganization()).id, { role: 'administrator', isSuperAdmin: 'true' });
+    member = await createTestUser(organization.id, { role: 'co_lead' });
+    strategy = await createTestStrategy(admin);
+    project = await createTestProject(admin, strategy);
+    action = await createTestAction(admin, project);
+    const follower = await createTestProject(admin, strategy);
+    await storage.assignStrategy(member.id, strategy.id, admin.id);
+    await storage.createBarrier({
+      projectId: project.id, title: 'Blocked', description: 'Waiting on legal', createdBy: member.id, organizationId: admin.organizationId,
+    });
+    await storage.createDependency({
+      sourceType: 'project', sourceId: follower.id, targetType: 'action', targetId: action.id,
+      createdBy: admin.id, organizationId: admin.organizationId,
+    });
+  });
+
+  after(() => server.close());
+
+  const exportArchive = async (): Promise<OrganizationArchive> => {
+    const response = await server.request(admin, 'GET', '/api/admin/export');
+    assert.equal(response.status, 200);
+    return response.body;
+  };
+
+  const importIntoNewOrganization = (archive: OrganizationArchive) =>
+    server.request(superAdmin, 'POST', '/api/admin/import', { archive, createOrganization: true, organizationName: 'Training copy' });
+
+  test('only administrators can export or import, and only super admins into a new organization', async () => {
+    const archive = await exportArchive();
+    assert.equal((await server.request(member, 'GET', '/api/admin/export')).status, 403);
+    assert.equal((await server.request(member, 'POST', '/api/admin/import', { archive })).status, 403);
+    assert.equal((await server.request(admin, 'POST', '/api/admin/import', { archive, createOrganization: true })).status, 403);
+  });
+
+  test('an archive cannot be loaded into an organization that already has data', async () => {
+    const archive = await exportArchive();
+    const response = await server.request(admin, 'POST', '/api/admin/import', { archive });
+    assert.equal(response.status, 409);
+  });
+
+  test('an import gives every row a new id and rewrites the references between them', async () => {
+    const imported = await importIntoNewOrganization(await exportArchive());
+    assert.equal(imported.status, 201);
+    const { organizationId } = imported.body;
+    assert.notEqual(organizationId, admin.organizationId);
+    assert.equal(imported.body.rowsSkipped, 0);
+    assert.equal(imported.body.usersCreated, 2);
+
+    const [copy] = await storage.getStrategiesByOrganization(organizationId);
+    assert.ok(copy);
+    assert.notEqual(copy.id, strategy.id);
+    assert.equal(copy.title, strategy.title);
+
+    const copiedProjects = await storage.getProjectsByStrategy(copy.id);
+    assert.equal(copiedProjects.length, 2);
+    const copiedProject = copiedProjects.find(p => p.title === project.title)!;
+    assert.notEqual(copiedProject.id, project.id);
+
+    const [copiedAction] = await storage.getActionsByProject(copiedProject.id);
+    assert.equal(copiedAction.title, action.title);
+    assert.equal(copiedAction.strategyId, copy.id);
+    assert.equal(copiedAction.organizationId, organizationId);
+
+    // Users are recreated in the new organization; their emails are taken, so they are left off
+    const copiedUsers = await getUsersByOrganization(organizationId);
+    const copiedMember = copiedUsers.find(u => u.lastName === member.lastName)!;
+    assert.notEqual(copiedMember.id, member.id);
+    assert.equal(copiedMember.email, null);
+    assert.equal(copiedMember.mustChangePassword, 'true');
+
+    const assignments = await storage.getUserStrategyAssignments(copiedMember.id);
+    assert.deepEqual(assignments.map(a => a.strategyId), [copy.id]);
+
+    const [barrier] = await storage.getBarriersByProject(copiedProject.id);
+    assert.equal(barrier.createdBy, copiedMember.id);
+
+    const [dependency] = await storage.getAllDependencies(organizationId);
+    assert.equal(dependency.targetId, copiedAction.id);
+    assert.ok(copiedProjects.some(p => p.id === dependency.sourceId && p.id !== copiedProject.id));
+
+    // The source organization is untouched
+    assert.equal((await storage.getProjectsByStrategy(strategy.id)).length, 2);
+  });
+
+  test("rows that point at another organization's data are skipped along with their dependants", async () => {
+    const stranger = await createTestUser((await createTestOrganization()).id, { role: 'administrator' });
+    const foreignStrategy = await createTestStrategy(stranger);
+
+    const archive = await exportArchive();
+    const tampered = archive.tables.projects.find(row => row.id === project.id)!;
+    tampered.strategyId = foreignStrategy.id;
+
+    const imported = await importIntoNewOrganization(archive);
+    assert.equal(imported.status, 201);
+    // The project, its action and barrier, and the dependency on that action are all left out
+    assert.equal(imported.body.rowsSkipped, 4);
+    assert.equal(imported.body.counts.projects, 1);
+    assert.equal(imported.body.counts.actions, 0);
+    assert.equal(imported.body.counts.barriers, 0);
+    assert.equal(imported.body.counts.dependencies, 0);
+    assert.equal((await storage.getProjectsByStrategy(foreignStrategy.id)).length, 0);
+  });
+
+  test('archived users are matched by email to accounts of the target organization', async () => {
+    const target = await createTestOrganization();
+    const targetAdmin = await createTestUser(target.id, { role: 'administrator' });
+    const archive = await exportArchive();
+    // Pretend the member already has an account in the target organization
+    archive.users.find(u => u.id === member.id)!.email = targetAdmin.email;
+
+    const imported = await server.request(targetAdmin, 'POST', '/api/admin/import', { archive });
+    assert.equal(imported.status, 201);
+    assert.equal(imported.body.organizationId, target.id);
+    assert.equal(imported.body.usersMatched, 1);
+
+    const [copy] = await storage.getStrategiesByOrganization(target.id);
+    const assignments = await storage.getUserStrategyAssignments(targetAdmin.id);
+    assert.deepEqual(assignments.map(a => a.strategyId), [copy.id]);
+  });
+});
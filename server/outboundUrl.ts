@@ -0,0 +1,82 @@
+import { lookup } from 'dns/promises';
+import net from 'net';
+
+// Webhook and chat URLs are entered by organization admins but fetched by the server, so by default they
+// may only reach the public internet. Set ALLOW_PRIVATE_OUTBOUND_URLS=true to post to internal services.
+
+export class OutboundUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutboundUrlError';
+  }
+}
+
+// Loopback, private, link-local (cloud metadata), carrier-grade NAT, multicast and reserved ranges
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+function allowsPrivateUrls(): boolean {
+  return process.env.ALLOW_PRIVATE_OUTBOUND_URLS === 'true';
+}
+
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) reach the IPv4 host
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Throws an OutboundUrlError unless the URL is http(s) and every address its host resolves to is public.
+ * The check runs again before each request, since DNS answers can change after the URL was saved.
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new OutboundUrlError('Enter a valid URL');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new OutboundUrlError('URL must use http or https');
+  }
+  if (allowsPrivateUrls()) return;
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = net.isIP(host) ? [host] : (await lookup(host, { all: true })).map(result => result.address);
+  } catch {
+    throw new OutboundUrlError(`Could not resolve ${host}`);
+  }
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new OutboundUrlError('URL must point to a public address');
+  }
+}
+
+// POSTs to an admin-supplied URL. Redirects are not followed, since they could lead to a private address.
+export async function postToOutboundUrl(url: string, init: { headers: Record<string, string>; body: string; timeoutMs: number }): Promise<Response> {
+  await assertPublicUrl(url);
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: init.headers,
+    body: init.body,
+    redirect: 'manual',
+    signal: AbortSignal.timeout(init.timeoutMs),
+  });
+  // Nothing of the receiver's answer is used beyond the status, so don't hold the connection for it
+  await response.body?.cancel().catch(() => undefined);
+  return response;
+}
@@ -0,0 +1,72 @@
+import { storage } from './storage';
+import {
+  builtInRoleCapabilities,
+  type BuiltInRole,
+  type CustomRole,
+  type PermissionCapability,
+  type User,
+  type UserStrategyAssignment,
+} from '@shared/schema';
+
+/**
+ * Central permission checks. A user's capabilities come from, in order of precedence:
+ *   1. the role set on their assignment to the strategy in question (always a built-in role),
+ *   2. their custom role, if an administrator gave them one,
+ *   3. their built-in role.
+ * Administrators hold every capability everywhere; SMEs hold none.
+ */
+
+export type PermissionSummary = {
+  capabilities: PermissionCapability[];
+  // Strategies where an assignment role overrides the capabilities above
+  strategyCapabilities: Record<string, PermissionCapability[]>;
+};
+
+export function parseCustomRoleCapabilities(role: CustomRole): PermissionCapability[] {
+  return JSON.parse(role.capabilities);
+}
+
+function builtInCapabilities(role: string): readonly PermissionCapability[] {
+  return builtInRoleCapabilities[role as BuiltInRole] ?? [];
+}
+
+async function globalCapabilities(user: User): Promise<readonly PermissionCapability[]> {
+  if (user.role === 'administrator' || user.role === 'sme' || !user.customRoleId) {
+    return builtInCapabilities(user.role);
+  }
+  const customRole = await storage.getCustomRole(user.customRoleId);
+  return customRole ? parseCustomRoleCapabilities(customRole) : builtInCapabilities(user.role);
+}
+
+function assignmentCapabilities(user: User, assignment: UserStrategyAssignment | undefined): readonly PermissionCapability[] | null {
+  if (user.role === 'administrator' || user.role === 'sme' || !assignment?.role) return null;
+  return builtInCapabilities(assignment.role);
+}
+
+// Whether the user may do this, on the given strategy when the action belongs to one
+export async function hasCapability(user: User, capability: PermissionCapability, strategyId?: string | null): Promise<boolean> {
+  if (strategyId) {
+    const overridden = assignmentCapabilities(user, await storage.getStrategyAssignment(user.id, strategyId));
+    if (overridden) return overridden.includes(capability);
+  }
+  return (await globalCapabilities(user)).includes(capability);
+}
+
+// Assigned strategies where the user holds the capability, for bulk operations that span strategies
+export async function getStrategyIdsWithCapability(user: User, capability: PermissionCapability): Promise<string[]> {
+  const assignments = await storage.getUserStrategyAssignments(user.id);
+  const global = await globalCapabilities(user);
+  return assignments
+    .filter(a => (assignmentCapabilities(user, a) ?? global).includes(capability))
+    .map(a => a.strategyId);
+}
+
+// Everything the client needs to decide which controls to show
+export async function getPermissionSummary(user: User): Promise<PermissionSummary> {
+  const strategyCapabilities: Record<string, PermissionCapability[]> = {};
+  for (const assignment of await storage.getUserStrategyAssignments(user.id)) {
+    const overridden = assignmentCapabilities(user, assignment);
+    if (overridden) strategyCapabilities[assignment.strategyId] = [...overridden];
+  }
+  return { capabilities: [...await globalCapabilities(user)], strategyCapabilities };
+}
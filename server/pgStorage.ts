@@ -1,12 +1,13 @@
 import { db } from './db';
-import { eq, desc, and, sql, inArray, or, isNull, isNotNull } from 'drizzle-orm';
+import { eq, desc, and, sql, inArray, or, isNull, isNotNull, gt, gte, lt, lte, between, getTableColumns } from 'drizzle-orm';
+import type { SQLiteColumn, SQLiteTable } from 'drizzle-orm/sqlite-core';
 import { randomUUID } from 'crypto';
 import type { IStorage } from './storage';
 import {
   users, strategies, projects, activities, actions, notifications,
   actionDocuments, actionChecklistItems, userStrategyAssignments,
   barriers, dependencies, templateTypes,
-  organizations, passwordResetTokens, twoFactorCodes, executiveGoals, strategyExecutiveGoals,
+  organizations, passwordResetTokens, twoFactorCodes, totpCredentials, twoFactorRecoveryCodes, executiveGoals, strategyExecutiveGoals,
   teamTags, projectTeamTags, userTeamTags, projectResourceAssignments, actionPeopleAssignments, ptoEntries, holidays,
   projectSnapshots,
   type User, type UpsertUser, type InsertUser,
@@ -24,6 +25,7 @@ import {
   type Organization,
   type PasswordResetToken,
   type TwoFactorCode,
+  type TotpCredential,
   type ExecutiveGoal, type InsertExecutiveGoal,
   type StrategyExecutiveGoal,
   type TeamTag, type InsertTeamTag,
@@ -42,8 +44,141 @@ import {
   type Phase, type InsertPhase,
   type WorkstreamDependency, type InsertWorkstreamDependency,
   type GateCriteria, type InsertGateCriteria,
+  frameworkDocuments, frameworkDocumentVersions,
+  type FrameworkDocument, type InsertFrameworkDocument, type FrameworkDocumentVersion,
+  measurements, scheduleBaselines, changeHistory,
+  type Measurement, type InsertMeasurement,
+  type ScheduleBaseline, type InsertScheduleBaseline,
+  type ChangeHistoryEntry, type FieldChange,
+  type RecycleBinEntityType, type RecycleBinItem,
+  type ImportBatch, type ImportResult,
+  ORGANIZATION_ARCHIVE_FORMAT, ORGANIZATION_ARCHIVE_VERSION,
+  type OrganizationArchive, type ArchiveImportResult,
+  strategyScenarios, type StrategyScenario, type InsertStrategyScenario,
+  type ScenarioPlan, type ScenarioPromotionResult,
+  comments, type Comment, type InsertComment, type CommentEntityType,
+  notificationPreferences, type NotificationPreference, type NotificationChannel,
+  reminderLedger, type ReminderLedgerEntry, type InsertReminderLedgerEntry,
+  type DeadlineReminderKind, type DeadlineReminderTarget,
+  type ProjectWakeUpAction,
+  webhookSubscriptions, webhookDeliveries, type WebhookSubscription, type InsertWebhookSubscription,
+  type WebhookDelivery, type InsertWebhookDelivery,
+  escalationRules, escalationRuleExecutions, type EscalationRule, type InsertEscalationRule,
+  type EscalationRuleExecution, type InsertEscalationRuleExecution, type EscalationRuleEntityType, type EscalationCandidate,
+  chatChannels, chatMessages, type ChatChannel, type InsertChatChannel, type ChatMessage, type InsertChatMessage,
+  type NotificationFilter, type NotificationGroup, type NotificationTarget,
+  entityFollows, type EntityFollow, type InsertEntityFollow, type EntityScope, type FollowableEntityType,
+  strategyDigests, type StrategyDigest, type InsertStrategyDigest, type StatusTransition,
+  oidcConfigurations, oidcIdentities, oidcLoginStates,
+  type OidcConfiguration, type InsertOidcConfiguration, type OidcIdentity, type InsertOidcIdentity, type OidcLoginState, type InsertOidcLoginState,
+  apiTokens, type ApiToken, type InsertApiToken,
+  type StrategyRole,
+  customRoles, type CustomRole, type InsertCustomRole,
 } from '@shared/schema';
 
+// Tables carried in an organization archive, keyed by archive name. Import inserts them in this order.
+const archiveTables = {
+  customRoles, executiveGoals, teamTags, strategies, strategyExecutiveGoals, userStrategyAssignments,
+  workstreams, phases, projects, projectTeamTags, userTeamTags, projectResourceAssignments,
+  actions, actionChecklistItems, actionDocuments, actionPeopleAssignments,
+  barriers, dependencies, decisions, decisionRaciAssignments, workstreamDependencies, gateCriteria,
+  ptoEntries, holidays, measurements, frameworkDocuments, frameworkDocumentVersions, scheduleBaselines,
+  strategyScenarios, comments,
+} as const;
+
+type ArchiveTableName = keyof typeof archiveTables;
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+
+// inArray() over an empty list is not valid SQL in every driver, so match nothing explicitly
+const within = (column: SQLiteColumn, ids: string[]) => ids.length > 0 ? inArray(column, ids) : sql`0`;
+
+// SQLite limits how many values one statement can bind, so a list of ids that grows with the data
+// is queried a chunk at a time
+const ID_CHUNK_SIZE = 500;
+
+async function selectInChunks<T>(ids: string[], select: (chunk: string[]) => Promise<T[]>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let start = 0; start < ids.length; start += ID_CHUNK_SIZE) {
+    rows.push(...await select(ids.slice(start, start + ID_CHUNK_SIZE)));
+  }
+  return rows;
+}
+
+// Which of these ids belong to a user or to any row of a table an archive carries
+async function findExistingIds(ids: string[]): Promise<Set<string>> {
+  const found = new Set<string>();
+  const tables = [users, ...Object.values(archiveTables)] as (SQLiteTable & { id: SQLiteColumn })[];
+  for (const table of tables) {
+    const rows = await selectInChunks(ids, chunk => db.select({ id: table.id }).from(table as SQLiteTable).where(inArray(table.id, chunk)) as Promise<{ id: string }[]>);
+    for (const row of rows) found.add(row.id);
+  }
+  return found;
+}
+
+// Inbox filters: a notification snoozed past `asOf` only shows under the "snoozed" status
+const inboxFilter = (userId: string, filter: NotificationFilter) => and(
+  eq(notifications.userId, userId),
+  filter.status === 'snoozed'
+    ? gt(notifications.snoozedUntil, filter.asOf)
+    : or(isNull(notifications.snoozedUntil), lte(notifications.snoozedUntil, filter.asOf)),
+  filter.status === 'unread' ? eq(notifications.isRead, 'false') : undefined,
+  filter.types ? within(notifications.type, filter.types) : undefined,
+);
+
+const inboxTarget = (userId: string, target: NotificationTarget) => and(
+  eq(notifications.userId, userId),
+  target.ids
+    ? within(notifications.id, target.ids)
+    : and(eq(notifications.relatedEntityType, target.relatedEntityType ?? ''), eq(notifications.relatedEntityId, target.relatedEntityId ?? '')),
+);
+
+// Notifications about the same record share a key; the rest are keyed by their own id
+const notificationGroupKey = sql<string>`coalesce(${notifications.relatedEntityType} || ':' || ${notifications.relatedEntityId}, ${notifications.id})`;
+const NOTIFICATION_GROUP_PREVIEW = 5;
+
+// Filters shared by the deadline reminder queries: only live, unfinished work gets reminders
+const openStrategy = () => and(isNull(strategies.deletedAt), sql`lower(${strategies.status}) <> 'archived'`);
+const openProject = () => and(isNull(projects.deletedAt), eq(projects.isArchived, 'false'));
+const openAction = () => and(
+  isNull(actions.deletedAt),
+  eq(actions.isArchived, 'false'),
+  sql`lower(${actions.status}) not in ('completed', 'achieved')`,
+);
+
+// Barriers and dependencies are not soft-deleted themselves; they are hidden while the project or
+// action they belong to sits in the recycle bin, and come back with it on restore
+const outsideRecycleBin = (column: SQLiteColumn) => sql`${column} not in (
+  select ${projects.id} from ${projects} where ${projects.deletedAt} is not null
+  union all select ${actions.id} from ${actions} where ${actions.deletedAt} is not null
+)`;
+const liveBarrier = () => outsideRecycleBin(barriers.projectId);
+const liveDependency = () => and(outsideRecycleBin(dependencies.sourceId), outsideRecycleBin(dependencies.targetId));
+
+function groupOwners(rows: { key: string | null; userId: string | null }[]): Map<string, string[]> {
+  const owners = new Map<string, Set<string>>();
+  for (const row of rows) {
+    if (!row.key || !row.userId) continue;
+    if (!owners.has(row.key)) owners.set(row.key, new Set());
+    owners.get(row.key)!.add(row.userId);
+  }
+  return new Map(Array.from(owners, ([key, userIds]) => [key, Array.from(userIds)]));
+}
+
+// accountableLeaders holds a JSON array of user ids; very old rows hold a single bare id
+function parseLeaderIds(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [value];
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysSince = (date: Date | null | undefined, asOf: Date) => date ? Math.floor((asOf.getTime() - date.getTime()) / DAY_MS) : null;
+
 export class DatabaseStorage implements IStorage {
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -127,27 +262,32 @@ export class DatabaseStorage implements IStorage {
 
   async deleteUser(id: string): Promise<boolean> {
     await db.delete(userStrategyAssignments).where(eq(userStrategyAssignments.userId, id));
+    await db.delete(entityFollows).where(eq(entityFollows.userId, id));
+    await db.delete(totpCredentials).where(eq(totpCredentials.userId, id));
+    await db.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, id));
+    await db.delete(oidcIdentities).where(eq(oidcIdentities.userId, id));
+    await db.delete(apiTokens).where(eq(apiTokens.userId, id));
     const result = await db.delete(users).where(eq(users.id, id)).returning();
     return result.length > 0;
   }
 
   async getStrategy(id: string): Promise<Strategy | undefined> {
-    const [strategy] = await db.select().from(strategies).where(eq(strategies.id, id));
+    const [strategy] = await db.select().from(strategies).where(and(eq(strategies.id, id), isNull(strategies.deletedAt)));
     return strategy || undefined;
   }
 
   async getAllStrategies(): Promise<Strategy[]> {
-    return db.select().from(strategies).orderBy(strategies.displayOrder);
+    return db.select().from(strategies).where(isNull(strategies.deletedAt)).orderBy(strategies.displayOrder);
   }
 
   async getStrategiesByOrganization(organizationId: string): Promise<Strategy[]> {
     return db.select().from(strategies)
-      .where(eq(strategies.organizationId, organizationId))
+      .where(and(eq(strategies.organizationId, organizationId), isNull(strategies.deletedAt)))
       .orderBy(strategies.displayOrder);
   }
 
   async getStrategiesByCreator(creatorId: string): Promise<Strategy[]> {
-    return db.select().from(strategies).where(eq(strategies.createdBy, creatorId));
+    return db.select().from(strategies).where(and(eq(strategies.createdBy, creatorId), isNull(strategies.deletedAt)));
   }
 
   async createStrategy(insertStrategy: InsertStrategy): Promise<Strategy> {
@@ -178,27 +318,37 @@ export class DatabaseStorage implements IStorage {
 
   async deleteStrategy(id: string): Promise<boolean> {
     await db.delete(userStrategyAssignments).where(eq(userStrategyAssignments.strategyId, id));
+    await this.deleteCommentsFor('project', (await db.select({ id: projects.id }).from(projects).where(eq(projects.strategyId, id))).map(p => p.id));
+    await this.deleteCommentsFor('action', (await db.select({ id: actions.id }).from(actions).where(eq(actions.strategyId, id))).map(a => a.id));
     await db.delete(projects).where(eq(projects.strategyId, id));
     await db.delete(actions).where(eq(actions.strategyId, id));
     await db.delete(activities).where(eq(activities.strategyId, id));
+    await db.delete(measurements).where(eq(measurements.strategyId, id));
+    await db.delete(scheduleBaselines).where(eq(scheduleBaselines.strategyId, id));
+    await db.delete(strategyScenarios).where(eq(strategyScenarios.strategyId, id));
+    // Saved framework documents outlive the strategy; just drop the link
+    await db.update(frameworkDocuments)
+      .set({ strategyId: null, projectId: null })
+      .where(eq(frameworkDocuments.strategyId, id));
     const result = await db.delete(strategies).where(eq(strategies.id, id)).returning();
     return result.length > 0;
   }
 
   async getProject(id: string): Promise<Project | undefined> {
-    const [project] = await db.select().from(projects).where(eq(projects.id, id));
+    const [project] = await db.select().from(projects).where(and(eq(projects.id, id), isNull(projects.deletedAt)));
     return project || undefined;
   }
 
   async getAllProjects(): Promise<Project[]> {
-    return db.select().from(projects).where(isNull(projects.archivedAt));
+    return db.select().from(projects).where(and(isNull(projects.archivedAt), isNull(projects.deletedAt)));
   }
 
   async getProjectsByOrganization(organizationId: string): Promise<Project[]> {
     return db.select().from(projects).where(
       and(
         eq(projects.organizationId, organizationId),
-        isNull(projects.archivedAt)
+        isNull(projects.archivedAt),
+        isNull(projects.deletedAt)
       )
     );
   }
@@ -207,7 +357,8 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(projects).where(
       and(
         eq(projects.strategyId, strategyId),
-        isNull(projects.archivedAt)
+        isNull(projects.archivedAt),
+        isNull(projects.deletedAt)
       )
     );
   }
@@ -252,8 +403,20 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteProject(id: string): Promise<boolean> {
+    const projectActionIds = (await db.select({ id: actions.id }).from(actions).where(eq(actions.projectId, id))).map(a => a.id);
+    if (projectActionIds.length > 0) {
+      await db.delete(measurements).where(and(eq(measurements.entityType, 'action'), inArray(measurements.entityId, projectActionIds)));
+    }
+    await db.delete(measurements).where(and(eq(measurements.entityType, 'project'), eq(measurements.entityId, id)));
+    const projectBarrierIds = (await db.select({ id: barriers.id }).from(barriers).where(eq(barriers.projectId, id))).map(b => b.id);
+    await this.deleteCommentsFor('action', projectActionIds);
+    await this.deleteCommentsFor('barrier', projectBarrierIds);
+    await this.deleteCommentsFor('project', [id]);
     await db.delete(actions).where(eq(actions.projectId, id));
     await db.delete(barriers).where(eq(barriers.projectId, id));
+    await db.update(frameworkDocuments)
+      .set({ projectId: null })
+      .where(eq(frameworkDocuments.projectId, id));
     const result = await db.delete(projects).where(eq(projects.id, id)).returning();
     return result.length > 0;
   }
@@ -288,32 +451,32 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAction(id: string): Promise<Action | undefined> {
-    const [action] = await db.select().from(actions).where(eq(actions.id, id));
+    const [action] = await db.select().from(actions).where(and(eq(actions.id, id), isNull(actions.deletedAt)));
     return action || undefined;
   }
 
   async getAllActions(): Promise<Action[]> {
-    return db.select().from(actions);
+    return db.select().from(actions).where(isNull(actions.deletedAt));
   }
 
   async getActionsByOrganization(organizationId: string): Promise<Action[]> {
-    return db.select().from(actions).where(eq(actions.organizationId, organizationId));
+    return db.select().from(actions).where(and(eq(actions.organizationId, organizationId), isNull(actions.deletedAt)));
   }
 
   async getActionsByStrategy(strategyId: string): Promise<Action[]> {
-    return db.select().from(actions).where(eq(actions.strategyId, strategyId));
+    return db.select().from(actions).where(and(eq(actions.strategyId, strategyId), isNull(actions.deletedAt)));
   }
 
   async getActionsByProject(projectId: string): Promise<Action[]> {
-    return db.select().from(actions).where(eq(actions.projectId, projectId));
+    return db.select().from(actions).where(and(eq(actions.projectId, projectId), isNull(actions.deletedAt)));
   }
 
   async getActionsByWorkstream(workstreamId: string): Promise<Action[]> {
-    return db.select().from(actions).where(eq(actions.workstreamId, workstreamId));
+    return db.select().from(actions).where(and(eq(actions.workstreamId, workstreamId), isNull(actions.deletedAt)));
   }
 
   async getActionsByPhase(phaseId: string): Promise<Action[]> {
-    return db.select().from(actions).where(eq(actions.phaseId, phaseId));
+    return db.select().from(actions).where(and(eq(actions.phaseId, phaseId), isNull(actions.deletedAt)));
   }
 
   async getWorkstreamActionsByStrategy(strategyId: string): Promise<Action[]> {
@@ -322,15 +485,19 @@ export class DatabaseStorage implements IStorage {
         eq(actions.strategyId, strategyId),
         isNotNull(actions.workstreamId),
         isNotNull(actions.projectId),
-        sql`${actions.projectId} != ''`
+        sql`${actions.projectId} != ''`,
+        isNull(actions.deletedAt)
       )
     );
   }
 
   async createAction(insertAction: InsertAction): Promise<Action> {
+    const id = randomUUID();
     const [action] = await db.insert(actions).values({
-      id: randomUUID(),
+      id,
       ...insertAction,
+      // A recurring action starts its own series as occurrence 1
+      ...(insertAction.recurrenceFrequency && { recurrenceSeriesId: id, recurrenceIndex: 1 }),
     }).returning();
 
     await this.createActivity({
@@ -356,6 +523,8 @@ export class DatabaseStorage implements IStorage {
   async deleteAction(id: string): Promise<boolean> {
     await db.delete(actionDocuments).where(eq(actionDocuments.actionId, id));
     await db.delete(actionChecklistItems).where(eq(actionChecklistItems.actionId, id));
+    await db.delete(measurements).where(and(eq(measurements.entityType, 'action'), eq(measurements.entityId, id)));
+    await this.deleteCommentsFor('action', [id]);
     const result = await db.delete(actions).where(eq(actions.id, id)).returning();
     return result.length > 0;
   }
@@ -459,6 +628,8 @@ export class DatabaseStorage implements IStorage {
 
   async deleteDueDateNotificationsForAction(actionId: string): Promise<number> {
     const dueDateNotificationTypes = [
+      'action_due_soon',
+      'action_overdue',
       'action_due_14_days',
       'action_due_7_days',
       'action_due_1_day',
@@ -478,6 +649,239 @@ export class DatabaseStorage implements IStorage {
     return result.length;
   }
 
+  async getNotificationPage(userId: string, filter: NotificationFilter, limit: number, offset: number): Promise<{ items: Notification[]; total: number }> {
+    const where = inboxFilter(userId, filter);
+    const [{ total }] = await db.select({ total: sql<number>`count(*)` }).from(notifications).where(where);
+    const items = await db.select().from(notifications)
+      .where(where)
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(limit)
+      .offset(offset);
+    return { items, total };
+  }
+
+  async getNotificationGroups(userId: string, filter: NotificationFilter, limit: number, offset: number): Promise<{ groups: NotificationGroup[]; total: number }> {
+    const where = inboxFilter(userId, filter);
+    const [{ total }] = await db.select({ total: sql<number>`count(distinct ${notificationGroupKey})` }).from(notifications).where(where);
+    const latestAt = sql`max(${notifications.createdAt})`.mapWith(notifications.createdAt);
+    const page = await db.select({
+      key: notificationGroupKey,
+      count: sql<number>`count(*)`,
+      unreadCount: sql<number>`sum(case when ${notifications.isRead} = 'false' then 1 else 0 end)`,
+      latestAt,
+    }).from(notifications)
+      .where(where)
+      .groupBy(notificationGroupKey)
+      .orderBy(desc(latestAt))
+      .limit(limit)
+      .offset(offset);
+    if (page.length === 0) return { groups: [], total };
+
+    const members = await db.select().from(notifications)
+      .where(and(where, inArray(notificationGroupKey, page.map(g => g.key))))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id));
+    const byKey = new Map<string, Notification[]>();
+    for (const notification of members) {
+      const key = notification.relatedEntityType && notification.relatedEntityId
+        ? `${notification.relatedEntityType}:${notification.relatedEntityId}`
+        : notification.id;
+      const group = byKey.get(key) ?? [];
+      if (group.length < NOTIFICATION_GROUP_PREVIEW) group.push(notification);
+      byKey.set(key, group);
+    }
+
+    const groups = page.map(({ key, count, unreadCount, latestAt }) => {
+      const preview = byKey.get(key) ?? [];
+      return {
+        key,
+        relatedEntityType: preview[0]?.relatedEntityType ?? null,
+        relatedEntityId: preview[0]?.relatedEntityId ?? null,
+        count,
+        unreadCount,
+        latestAt,
+        notifications: preview,
+      };
+    });
+    return { groups, total };
+  }
+
+  async getUnreadNotificationCounts(userId: string, asOf: Date): Promise<Record<string, number>> {
+    const rows = await db.select({ type: notifications.type, count: sql<number>`count(*)` })
+      .from(notifications)
+      .where(inboxFilter(userId, { status: 'unread', asOf }))
+      .groupBy(notifications.type);
+    return Object.fromEntries(rows.map(row => [row.type, row.count]));
+  }
+
+  async getNextSnoozeEnd(userId: string, asOf: Date): Promise<Date | null> {
+    const [row] = await db.select({ next: sql`min(${notifications.snoozedUntil})`.mapWith(notifications.snoozedUntil) })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), gt(notifications.snoozedUntil, asOf)));
+    return row?.next ?? null;
+  }
+
+  async markNotificationsRead(userId: string, target: NotificationTarget): Promise<number> {
+    const result = await db.update(notifications)
+      .set({ isRead: 'true' })
+      .where(inboxTarget(userId, target))
+      .returning({ id: notifications.id });
+    return result.length;
+  }
+
+  // A snoozed notification comes back unread, so it is noticed when the snooze ends
+  async snoozeNotifications(userId: string, target: NotificationTarget, until: Date | null): Promise<number> {
+    const result = await db.update(notifications)
+      .set(until ? { snoozedUntil: until, isRead: 'false' } : { snoozedUntil: null })
+      .where(inboxTarget(userId, target))
+      .returning({ id: notifications.id });
+    return result.length;
+  }
+
+  async getNotificationPreferences(userId: string): Promise<NotificationPreference[]> {
+    return db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+  }
+
+  async setNotificationPreferences(userId: string, preferences: Record<string, NotificationChannel>): Promise<void> {
+    const now = new Date();
+    db.transaction((tx) => {
+      for (const [notificationType, channel] of Object.entries(preferences)) {
+        tx.insert(notificationPreferences)
+          .values({ id: randomUUID(), userId, notificationType, channel, updatedAt: now })
+          .onConflictDoUpdate({
+            target: [notificationPreferences.userId, notificationPreferences.notificationType],
+            set: { channel, updatedAt: now },
+          })
+          .run();
+      }
+    });
+  }
+
+  async getPendingDigestNotifications(): Promise<Notification[]> {
+    return db.select().from(notifications)
+      .where(and(eq(notifications.emailDigest, 'true'), isNull(notifications.digestSentAt)))
+      .orderBy(notifications.createdAt);
+  }
+
+  async getLastDigestSentAt(userId: string): Promise<Date | null> {
+    const [row] = await db.select({ sentAt: sql<number | null>`max(${notifications.digestSentAt})` })
+      .from(notifications)
+      .where(eq(notifications.userId, userId));
+    return row?.sentAt ? new Date(row.sentAt * 1000) : null;
+  }
+
+  async markNotificationsDigested(ids: string[], sentAt: Date): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(notifications).set({ digestSentAt: sentAt }).where(inArray(notifications.id, ids));
+  }
+
+  async getReminderLedgerEntries(entityType: string, entityIds: string[]): Promise<ReminderLedgerEntry[]> {
+    return selectInChunks(entityIds, chunk => db.select().from(reminderLedger)
+      .where(and(eq(reminderLedger.entityType, entityType), inArray(reminderLedger.entityId, chunk))));
+  }
+
+  async claimReminder(entry: InsertReminderLedgerEntry): Promise<boolean> {
+    const inserted = await db.insert(reminderLedger)
+      .values({ id: randomUUID(), ...entry })
+      .onConflictDoNothing()
+      .returning();
+    return inserted.length > 0;
+  }
+
+  async deleteReminderLedgerEntries(entityType: string, entityId: string): Promise<number> {
+    const result = await db.delete(reminderLedger)
+      .where(and(eq(reminderLedger.entityType, entityType), eq(reminderLedger.entityId, entityId)))
+      .returning();
+    return result.length;
+  }
+
+  async getDeadlineReminderTargets(kind: DeadlineReminderKind, dueFrom: Date, dueTo: Date): Promise<DeadlineReminderTarget[]> {
+    const dueWithin = (column: SQLiteColumn) => between(column, dueFrom, dueTo);
+    switch (kind) {
+      case 'action':
+      case 'gate': {
+        // Gate milestones usually only carry a planned end from the schedule, so fall back to it
+        const isGate = kind === 'gate';
+        const rows = await db.select({
+          id: actions.id, title: actions.title, dueDate: actions.dueDate, plannedEnd: actions.plannedEnd,
+          organizationId: actions.organizationId,
+        })
+          .from(actions)
+          .innerJoin(strategies, eq(strategies.id, actions.strategyId))
+          .leftJoin(projects, eq(projects.id, actions.projectId))
+          .where(and(
+            eq(actions.isMilestone, isGate ? 'true' : 'false'),
+            isGate ? or(dueWithin(actions.dueDate), and(isNull(actions.dueDate), dueWithin(actions.plannedEnd))) : dueWithin(actions.dueDate),
+            isGate ? sql`${actions.percentComplete} < 100` : undefined,
+            openAction(),
+            openStrategy(),
+            or(isNull(actions.projectId), openProject()),
+          ));
+        const owners = groupOwners(await selectInChunks(rows.map(r => r.id), chunk => db.select({ key: actionPeopleAssignments.actionId, userId: actionPeopleAssignments.userId })
+          .from(actionPeopleAssignments)
+          .where(inArray(actionPeopleAssignments.actionId, chunk))));
+        return rows.map(r => ({
+          entityId: r.id, title: r.title, dueDate: (r.dueDate ?? r.plannedEnd)!,
+          organizationId: r.organizationId, ownerIds: owners.get(r.id) ?? [],
+        }));
+      }
+      case 'project': {
+        const rows = await db.select({ id: projects.id, title: projects.title, dueDate: projects.dueDate, organizationId: projects.organizationId })
+          .from(projects)
+          .innerJoin(strategies, eq(strategies.id, projects.strategyId))
+          .where(and(dueWithin(projects.dueDate), openProject(), sql`${projects.status} <> 'C'`, openStrategy()));
+        const owners = groupOwners(await selectInChunks(rows.map(r => r.id), chunk => db.select({ key: projectResourceAssignments.projectId, userId: projectResourceAssignments.userId })
+          .from(projectResourceAssignments)
+          .where(inArray(projectResourceAssignments.projectId, chunk))));
+        return rows.map(r => ({ entityId: r.id, title: r.title, dueDate: r.dueDate, organizationId: r.organizationId, ownerIds: owners.get(r.id) ?? [] }));
+      }
+      case 'barrier': {
+        const rows = await db.select({
+          id: barriers.id, title: barriers.title, dueDate: barriers.targetResolutionDate,
+          organizationId: barriers.organizationId, ownerId: barriers.ownerId,
+        })
+          .from(barriers)
+          .innerJoin(projects, eq(projects.id, barriers.projectId))
+          .innerJoin(strategies, eq(strategies.id, projects.strategyId))
+          .where(and(
+            dueWithin(barriers.targetResolutionDate),
+            sql`${barriers.status} not in ('resolved', 'closed')`,
+            openProject(),
+            openStrategy(),
+          ));
+        return rows.map(r => ({
+          entityId: r.id, title: r.title, dueDate: r.dueDate!, organizationId: r.organizationId,
+          ownerIds: r.ownerId ? [r.ownerId] : [],
+        }));
+      }
+      case 'decision': {
+        const rows = await db.select({ id: decisions.id, title: decisions.title, dueDate: decisions.dueDate, organizationId: decisions.organizationId })
+          .from(decisions)
+          .leftJoin(strategies, eq(strategies.id, decisions.strategyId))
+          .where(and(
+            dueWithin(decisions.dueDate),
+            inArray(decisions.status, ['proposed', 'under_review']),
+            or(isNull(decisions.strategyId), openStrategy()),
+          ));
+        const owners = groupOwners(await selectInChunks(rows.map(r => r.id), chunk => db.select({ key: decisionRaciAssignments.decisionId, userId: decisionRaciAssignments.userId })
+          .from(decisionRaciAssignments)
+          .where(and(eq(decisionRaciAssignments.role, 'accountable'), inArray(decisionRaciAssignments.decisionId, chunk)))));
+        return rows.map(r => ({ entityId: r.id, title: r.title, dueDate: r.dueDate!, organizationId: r.organizationId, ownerIds: owners.get(r.id) ?? [] }));
+      }
+      case 'phase': {
+        const rows = await db.select({ id: phases.id, title: phases.name, dueDate: phases.plannedEnd, organizationId: phases.organizationId })
+          .from(phases)
+          .innerJoin(strategies, eq(strategies.id, phases.strategyId))
+          .where(and(dueWithin(phases.plannedEnd), openStrategy()));
+        // A phase has no owner of its own; its reminder goes to whoever still has open work in it
+        const owners = groupOwners(await selectInChunks(rows.map(r => r.id), chunk => db.select({ key: actions.phaseId, userId: actionPeopleAssignments.userId })
+          .from(actionPeopleAssignments)
+          .innerJoin(actions, eq(actions.id, actionPeopleAssignments.actionId))
+          .where(and(inArray(actions.phaseId, chunk), openAction()))));
+        return rows.map(r => ({ entityId: r.id, title: r.title, dueDate: r.dueDate!, organizationId: r.organizationId, ownerIds: owners.get(r.id) ?? [] }));
+      }
+    }
+  }
+
   async getActionDocuments(actionId: string): Promise<ActionDocument[]> {
     return db.select().from(actionDocuments).where(eq(actionDocuments.actionId, actionId));
   }
@@ -542,16 +946,37 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(userStrategyAssignments).where(eq(userStrategyAssignments.strategyId, strategyId));
   }
 
-  async assignStrategy(userId: string, strategyId: string, assignedBy: string): Promise<UserStrategyAssignment> {
+  async getStrategyAssignment(userId: string, strategyId: string): Promise<UserStrategyAssignment | undefined> {
+    const [assignment] = await db.select().from(userStrategyAssignments)
+      .where(and(
+        eq(userStrategyAssignments.userId, userId),
+        eq(userStrategyAssignments.strategyId, strategyId)
+      ));
+    return assignment || undefined;
+  }
+
+  async assignStrategy(userId: string, strategyId: string, assignedBy: string, role: StrategyRole | null = null): Promise<UserStrategyAssignment> {
     const [assignment] = await db.insert(userStrategyAssignments).values({
       id: randomUUID(),
       userId,
       strategyId,
+      role,
       assignedBy,
     }).returning();
     return assignment;
   }
 
+  async updateStrategyAssignmentRole(userId: string, strategyId: string, role: StrategyRole | null): Promise<UserStrategyAssignment | undefined> {
+    const [assignment] = await db.update(userStrategyAssignments)
+      .set({ role })
+      .where(and(
+        eq(userStrategyAssignments.userId, userId),
+        eq(userStrategyAssignments.strategyId, strategyId)
+      ))
+      .returning();
+    return assignment || undefined;
+  }
+
   async unassignStrategy(userId: string, strategyId: string): Promise<boolean> {
     const result = await db.delete(userStrategyAssignments)
       .where(and(
@@ -574,18 +999,18 @@ export class DatabaseStorage implements IStorage {
 
   async getAllBarriers(organizationId?: string): Promise<Barrier[]> {
     if (organizationId) {
-      return db.select().from(barriers).where(eq(barriers.organizationId, organizationId));
+      return db.select().from(barriers).where(and(eq(barriers.organizationId, organizationId), liveBarrier()));
     }
-    return db.select().from(barriers);
+    return db.select().from(barriers).where(liveBarrier());
   }
 
   async getBarriersByProject(projectId: string, organizationId?: string): Promise<Barrier[]> {
     if (organizationId) {
       return db.select().from(barriers).where(
-        and(eq(barriers.projectId, projectId), eq(barriers.organizationId, organizationId))
+        and(eq(barriers.projectId, projectId), eq(barriers.organizationId, organizationId), liveBarrier())
       );
     }
-    return db.select().from(barriers).where(eq(barriers.projectId, projectId));
+    return db.select().from(barriers).where(and(eq(barriers.projectId, projectId), liveBarrier()));
   }
 
   async createBarrier(insertBarrier: InsertBarrier & { createdBy: string; organizationId?: string | null }): Promise<Barrier> {
@@ -614,15 +1039,16 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteBarrier(id: string): Promise<boolean> {
+    await this.deleteCommentsFor('barrier', [id]);
     const result = await db.delete(barriers).where(eq(barriers.id, id)).returning();
     return result.length > 0;
   }
 
   async getAllDependencies(organizationId?: string): Promise<Dependency[]> {
     if (organizationId) {
-      return db.select().from(dependencies).where(eq(dependencies.organizationId, organizationId));
+      return db.select().from(dependencies).where(and(eq(dependencies.organizationId, organizationId), liveDependency()));
     }
-    return db.select().from(dependencies);
+    return db.select().from(dependencies).where(liveDependency());
   }
 
   async getDependenciesBySource(sourceType: string, sourceId: string, organizationId?: string): Promise<Dependency[]> {
@@ -631,11 +1057,12 @@ export class DatabaseStorage implements IStorage {
         .where(and(
           eq(dependencies.sourceType, sourceType), 
           eq(dependencies.sourceId, sourceId),
-          eq(dependencies.organizationId, organizationId)
+          eq(dependencies.organizationId, organizationId),
+          liveDependency()
         ));
     }
     return db.select().from(dependencies)
-      .where(and(eq(dependencies.sourceType, sourceType), eq(dependencies.sourceId, sourceId)));
+      .where(and(eq(dependencies.sourceType, sourceType), eq(dependencies.sourceId, sourceId), liveDependency()));
   }
 
   async getDependenciesByTarget(targetType: string, targetId: string, organizationId?: string): Promise<Dependency[]> {
@@ -644,11 +1071,12 @@ export class DatabaseStorage implements IStorage {
         .where(and(
           eq(dependencies.targetType, targetType), 
           eq(dependencies.targetId, targetId),
-          eq(dependencies.organizationId, organizationId)
+          eq(dependencies.organizationId, organizationId),
+          liveDependency()
         ));
     }
     return db.select().from(dependencies)
-      .where(and(eq(dependencies.targetType, targetType), eq(dependencies.targetId, targetId)));
+      .where(and(eq(dependencies.targetType, targetType), eq(dependencies.targetId, targetId), liveDependency()));
   }
 
   async createDependency(insertDependency: InsertDependency & { createdBy: string; organizationId?: string | null }): Promise<Dependency> {
@@ -856,7 +1284,7 @@ export class DatabaseStorage implements IStorage {
     }
     
     const projectIds = assignments.map(a => a.projectId);
-    return db.select().from(projects).where(inArray(projects.id, projectIds));
+    return db.select().from(projects).where(and(inArray(projects.id, projectIds), isNull(projects.deletedAt)));
   }
 
   // User Team Tag methods (for tagging users to teams)
@@ -1113,11 +1541,22 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(projects)
       .where(and(
         eq(projects.organizationId, organizationId),
-        eq(projects.isArchived, 'true')
+        eq(projects.isArchived, 'true'),
+        isNull(projects.deletedAt)
       ))
       .orderBy(desc(projects.archivedAt));
   }
 
+  // Archived projects across all organizations whose wake-up date has arrived
+  async getProjectsDueForWakeUp(asOf: Date): Promise<Project[]> {
+    return db.select().from(projects)
+      .where(and(
+        eq(projects.isArchived, 'true'),
+        isNull(projects.deletedAt),
+        lte(projects.wakeUpDate, asOf)
+      ));
+  }
+
   async archiveProject(projectId: string, archivedBy: string, reason?: string, wakeUpDate?: Date): Promise<Project | undefined> {
     // Get the project first
     const project = await this.getProject(projectId);
@@ -1183,8 +1622,21 @@ export class DatabaseStorage implements IStorage {
       organizationId: project.organizationId,
     });
 
-    // Unarchive all actions under this project
+    // Restore each action's archive flag from the snapshot taken when the project was archived, so actions
+    // that were already archived before then stay archived. Actions missing from the snapshot are restored.
+    const [archiveSnapshot] = (await this.getProjectSnapshots(projectId)).filter(s => s.snapshotType === 'archive');
+    const archivedBefore = new Set<string>();
+    if (archiveSnapshot) {
+      try {
+        const snapshotActions: Action[] = JSON.parse(archiveSnapshot.snapshotData).actions ?? [];
+        for (const action of snapshotActions) {
+          if (action.isArchived === 'true') archivedBefore.add(action.id);
+        }
+      } catch {}
+    }
+
     for (const action of projectActions) {
+      if (archivedBefore.has(action.id)) continue;
       await db.update(actions)
         .set({ isArchived: 'false' })
         .where(eq(actions.id, action.id));
@@ -1299,6 +1751,7 @@ export class DatabaseStorage implements IStorage {
 
   async deleteDecision(id: string): Promise<boolean> {
     await db.delete(decisionRaciAssignments).where(eq(decisionRaciAssignments.decisionId, id));
+    await this.deleteCommentsFor('decision', [id]);
     const result = await db.delete(decisions).where(eq(decisions.id, id)).returning();
     return result.length > 0;
   }
@@ -1460,6 +1913,11 @@ export class DatabaseStorage implements IStorage {
       .where(eq(gateCriteria.gateTaskId, gateTaskId));
   }
 
+  async getGateCriterion(id: string): Promise<GateCriteria | undefined> {
+    const [criterion] = await db.select().from(gateCriteria).where(eq(gateCriteria.id, id));
+    return criterion || undefined;
+  }
+
   async createGateCriteria(criteria: InsertGateCriteria): Promise<GateCriteria> {
     const [created] = await db.insert(gateCriteria).values({
       id: randomUUID(),
@@ -1480,156 +1938,1630 @@ export class DatabaseStorage implements IStorage {
     const result = await db.delete(gateCriteria).where(eq(gateCriteria.id, id)).returning();
     return result.length > 0;
   }
-}
 
-export async function getAllOrganizations(): Promise<Organization[]> {
-  return db.select().from(organizations).orderBy(organizations.createdAt);
-}
+  // Framework Document methods
+  async getFrameworkDocumentsByOrganization(organizationId: string): Promise<FrameworkDocument[]> {
+    return db.select().from(frameworkDocuments)
+      .where(eq(frameworkDocuments.organizationId, organizationId))
+      .orderBy(desc(frameworkDocuments.updatedAt));
+  }
 
-export async function getOrganization(id: string): Promise<Organization | undefined> {
-  const [org] = await db.select().from(organizations).where(eq(organizations.id, id));
-  return org || undefined;
-}
+  async getFrameworkDocument(id: string): Promise<FrameworkDocument | undefined> {
+    const [document] = await db.select().from(frameworkDocuments).where(eq(frameworkDocuments.id, id));
+    return document || undefined;
+  }
 
-export async function getOrganizationByToken(token: string): Promise<Organization | undefined> {
-  const [org] = await db.select().from(organizations).where(eq(organizations.registrationToken, token));
-  return org || undefined;
-}
+  async createFrameworkDocument(document: InsertFrameworkDocument & { organizationId: string; createdBy: string }): Promise<FrameworkDocument> {
+    const [created] = await db.insert(frameworkDocuments).values({
+      id: randomUUID(),
+      ...document,
+      version: 1,
+      updatedBy: document.createdBy,
+    }).returning();
+    return created;
+  }
 
-export async function createOrganization(name: string): Promise<Organization> {
-  const token = randomUUID().replace(/-/g, '') + randomUUID().replace(/-/g, '').substring(0, 8);
-  const [org] = await db.insert(organizations).values({
-    id: randomUUID(),
-    name,
-    registrationToken: token,
-  }).returning();
-  return org;
-}
+  async updateFrameworkDocument(id: string, updates: Partial<InsertFrameworkDocument>, updatedBy: string): Promise<FrameworkDocument | undefined> {
+    const existing = await this.getFrameworkDocument(id);
+    if (!existing) return undefined;
 
-export async function updateOrganizationToken(id: string): Promise<Organization | undefined> {
-  const newToken = randomUUID().replace(/-/g, '') + randomUUID().replace(/-/g, '').substring(0, 8);
-  const [org] = await db.update(organizations)
-    .set({ registrationToken: newToken })
-    .where(eq(organizations.id, id))
-    .returning();
-  return org || undefined;
-}
+    // Only content/title edits produce a new version; re-linking a document keeps its version
+    const isContentChange = (updates.content !== undefined && updates.content !== existing.content) ||
+      (updates.title !== undefined && updates.title !== existing.title);
 
-export async function updateOrganizationName(id: string, name: string): Promise<Organization | undefined> {
-  const [org] = await db.update(organizations)
-    .set({ name, updatedAt: new Date() })
-    .where(eq(organizations.id, id))
-    .returning();
-  return org || undefined;
-}
+    if (isContentChange) {
+      await db.insert(frameworkDocumentVersions).values({
+        id: randomUUID(),
+        documentId: id,
+        version: existing.version,
+        title: existing.title,
+        content: existing.content,
+        createdBy: existing.updatedBy || existing.createdBy,
+      }).onConflictDoNothing();
+    }
 
-export async function deleteOrganization(id: string): Promise<boolean> {
-  const result = await db.delete(organizations).where(eq(organizations.id, id)).returning();
-  return result.length > 0;
-}
+    const [document] = await db.update(frameworkDocuments)
+      .set({
+        ...updates,
+        version: isContentChange ? existing.version + 1 : existing.version,
+        updatedBy,
+        updatedAt: new Date(),
+      })
+      .where(eq(frameworkDocuments.id, id))
+      .returning();
+    return document || undefined;
+  }
 
-export async function ensureDefaultOrganization(): Promise<void> {
-  const orgs = await getAllOrganizations();
-  if (orgs.length === 0) {
-    await createOrganization('Default Organization');
-    console.log('[DB] Created default organization');
+  async deleteFrameworkDocument(id: string): Promise<boolean> {
+    await db.delete(frameworkDocumentVersions).where(eq(frameworkDocumentVersions.documentId, id));
+    const result = await db.delete(frameworkDocuments).where(eq(frameworkDocuments.id, id)).returning();
+    return result.length > 0;
   }
-}
 
-export async function getUserByEmail(email: string): Promise<User | undefined> {
-  const [user] = await db.select().from(users).where(eq(users.email, email.toLowerCase()));
-  return user || undefined;
-}
+  async getFrameworkDocumentVersions(documentId: string): Promise<FrameworkDocumentVersion[]> {
+    return db.select().from(frameworkDocumentVersions)
+      .where(eq(frameworkDocumentVersions.documentId, documentId))
+      .orderBy(desc(frameworkDocumentVersions.version));
+  }
 
-export async function getUsersByOrganization(organizationId: string): Promise<User[]> {
-  return db.select().from(users).where(eq(users.organizationId, organizationId));
-}
+  // Measurement methods
+  async getMeasurementsByEntity(entityType: string, entityId: string): Promise<Measurement[]> {
+    return db.select().from(measurements)
+      .where(and(eq(measurements.entityType, entityType), eq(measurements.entityId, entityId)))
+      .orderBy(measurements.measuredAt);
+  }
 
-export async function updateUserPassword(userId: string, passwordHash: string): Promise<void> {
-  await db.update(users).set({ passwordHash }).where(eq(users.id, userId));
-}
+  async getMeasurementsByOrganization(organizationId: string): Promise<Measurement[]> {
+    return db.select().from(measurements)
+      .where(eq(measurements.organizationId, organizationId))
+      .orderBy(measurements.measuredAt);
+  }
 
-export async function clearMustChangePassword(userId: string): Promise<void> {
-  await db.update(users).set({ mustChangePassword: 'false' }).where(eq(users.id, userId));
-}
+  async getMeasurement(id: string): Promise<Measurement | undefined> {
+    const [measurement] = await db.select().from(measurements).where(eq(measurements.id, id));
+    return measurement || undefined;
+  }
 
-// Password Reset Token Functions
-export async function createPasswordResetToken(
-  userId: string, 
-  tokenHash: string, 
-  expiresAt: Date
-): Promise<PasswordResetToken> {
-  // Invalidate any existing tokens for this user
-  await db.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, userId));
-  
-  const [token] = await db.insert(passwordResetTokens).values({
-    userId,
-    tokenHash,
-    expiresAt,
-  }).returning();
-  
-  return token;
-}
+  async createMeasurement(measurement: InsertMeasurement & { entityType: string; entityId: string; strategyId: string; organizationId: string; recordedBy: string }): Promise<Measurement> {
+    const [created] = await db.insert(measurements).values({
+      id: randomUUID(),
+      ...measurement,
+    }).returning();
+    return created;
+  }
 
-export async function getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
-  const [token] = await db.select()
-    .from(passwordResetTokens)
-    .where(eq(passwordResetTokens.tokenHash, tokenHash));
-  return token || undefined;
-}
+  async deleteMeasurement(id: string): Promise<boolean> {
+    const result = await db.delete(measurements).where(eq(measurements.id, id)).returning();
+    return result.length > 0;
+  }
 
-export async function markPasswordResetTokenUsed(tokenId: string): Promise<void> {
-  await db.update(passwordResetTokens)
-    .set({ usedAt: new Date() })
-    .where(eq(passwordResetTokens.id, tokenId));
-}
+  // Schedule Baseline methods
+  async getScheduleBaselinesByStrategy(strategyId: string): Promise<ScheduleBaseline[]> {
+    return db.select().from(scheduleBaselines)
+      .where(eq(scheduleBaselines.strategyId, strategyId))
+      .orderBy(desc(scheduleBaselines.createdAt));
+  }
 
-export async function cleanupExpiredTokens(): Promise<void> {
-  await db.delete(passwordResetTokens)
-    .where(sql`${passwordResetTokens.expiresAt} < (strftime('%s','now') * 1000) OR ${passwordResetTokens.usedAt} IS NOT NULL`);
-}
+  async getScheduleBaseline(id: string): Promise<ScheduleBaseline | undefined> {
+    const [baseline] = await db.select().from(scheduleBaselines).where(eq(scheduleBaselines.id, id));
+    return baseline || undefined;
+  }
 
-// Two-Factor Authentication Code Functions
-export async function createTwoFactorCode(
-  userId: string,
-  codeHash: string,
-  type: 'login' | 'setup',
-  expiresAt: Date,
-  organizationId: string | null
-): Promise<TwoFactorCode> {
-  // Invalidate any existing codes of the same type for this user
-  await db.delete(twoFactorCodes).where(
-    and(
-      eq(twoFactorCodes.userId, userId),
-      eq(twoFactorCodes.type, type)
-    )
-  );
-  
-  const [code] = await db.insert(twoFactorCodes).values({
-    userId,
-    codeHash,
-    type,
-    expiresAt,
-    organizationId,
-  }).returning();
-  
-  return code;
-}
+  async createScheduleBaseline(strategyId: string, baseline: InsertScheduleBaseline & { organizationId: string; createdBy: string }): Promise<ScheduleBaseline> {
+    const strategyProjects = await this.getProjectsByStrategy(strategyId);
+    const strategyActions = (await this.getActionsByStrategy(strategyId)).filter(a => a.isArchived !== 'true');
+
+    // Only the fields needed for schedule and scope comparison are captured
+    const snapshotData = {
+      projects: strategyProjects.map(p => ({
+        id: p.id,
+        title: p.title,
+        startDate: p.startDate,
+        dueDate: p.dueDate,
+      })),
+      actions: strategyActions.map(a => ({
+        id: a.id,
+        projectId: a.projectId,
+        title: a.title,
+        dueDate: a.dueDate,
+        plannedStart: a.plannedStart,
+        plannedEnd: a.plannedEnd,
+      })),
+    };
 
-export async function getTwoFactorCode(userId: string, type: 'login' | 'setup'): Promise<TwoFactorCode | undefined> {
-  const [code] = await db.select()
-    .from(twoFactorCodes)
-    .where(
-      and(
-        eq(twoFactorCodes.userId, userId),
-        eq(twoFactorCodes.type, type)
-      )
-    );
-  return code || undefined;
-}
+    const [created] = await db.insert(scheduleBaselines).values({
+      id: randomUUID(),
+      ...baseline,
+      strategyId,
+      snapshotData: JSON.stringify(snapshotData),
+    }).returning();
+    return created;
+  }
 
-export async function incrementTwoFactorAttempts(codeId: string): Promise<number> {
-  const [updated] = await db.update(twoFactorCodes)
+  async deleteScheduleBaseline(id: string): Promise<boolean> {
+    const result = await db.delete(scheduleBaselines).where(eq(scheduleBaselines.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Change History methods
+  async recordChangeHistory(entityType: string, before: Record<string, any>, after: Record<string, any>, changedBy: string): Promise<ChangeHistoryEntry | undefined> {
+    // Bookkeeping columns change on every write and would drown out the real edits
+    const ignoredFields = new Set(['id', 'createdAt', 'createdBy', 'updatedAt', 'organizationId']);
+    const normalize = (value: unknown) => {
+      if (value instanceof Date) return value.toISOString();
+      if (value === undefined || value === '') return null;
+      return value;
+    };
+
+    const changes: FieldChange[] = [];
+    for (const field of Object.keys(after)) {
+      if (ignoredFields.has(field)) continue;
+      const from = normalize(before[field]);
+      const to = normalize(after[field]);
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes.push({ field, from, to });
+      }
+    }
+    if (changes.length === 0) return undefined;
+
+    const [entry] = await db.insert(changeHistory).values({
+      id: randomUUID(),
+      entityType,
+      entityId: after.id ?? before.id,
+      changes: JSON.stringify(changes),
+      changedBy,
+      organizationId: after.organizationId ?? before.organizationId ?? null,
+    }).returning();
+    return entry;
+  }
+
+  async getChangeHistory(entityType: string, entityId: string): Promise<ChangeHistoryEntry[]> {
+    return db.select().from(changeHistory)
+      .where(and(eq(changeHistory.entityType, entityType), eq(changeHistory.entityId, entityId)))
+      .orderBy(desc(changeHistory.createdAt));
+  }
+
+  // Recycle Bin methods
+  // Children are stamped with the same deletedAt as their parent, so a restore brings back exactly
+  // what was removed in that delete and leaves items that were deleted separately in the bin.
+  async softDeleteStrategy(id: string, deletedBy: string): Promise<boolean> {
+    const deletedAt = new Date();
+    const result = await db.update(strategies)
+      .set({ deletedAt, deletedBy })
+      .where(and(eq(strategies.id, id), isNull(strategies.deletedAt)))
+      .returning();
+    if (result.length === 0) return false;
+    await db.update(projects)
+      .set({ deletedAt, deletedBy })
+      .where(and(eq(projects.strategyId, id), isNull(projects.deletedAt)));
+    await db.update(actions)
+      .set({ deletedAt, deletedBy })
+      .where(and(eq(actions.strategyId, id), isNull(actions.deletedAt)));
+    return true;
+  }
+
+  async softDeleteProject(id: string, deletedBy: string): Promise<boolean> {
+    const deletedAt = new Date();
+    const result = await db.update(projects)
+      .set({ deletedAt, deletedBy })
+      .where(and(eq(projects.id, id), isNull(projects.deletedAt)))
+      .returning();
+    if (result.length === 0) return false;
+    await db.update(actions)
+      .set({ deletedAt, deletedBy })
+      .where(and(eq(actions.projectId, id), isNull(actions.deletedAt)));
+    return true;
+  }
+
+  async softDeleteAction(id: string, deletedBy: string): Promise<boolean> {
+    const result = await db.update(actions)
+      .set({ deletedAt: new Date(), deletedBy })
+      .where(and(eq(actions.id, id), isNull(actions.deletedAt)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getRecycleBin(organizationId: string): Promise<RecycleBinItem[]> {
+    const deletedStrategies = await db.select().from(strategies)
+      .where(and(eq(strategies.organizationId, organizationId), isNotNull(strategies.deletedAt)));
+    const deletedProjects = await db.select().from(projects)
+      .where(and(eq(projects.organizationId, organizationId), isNotNull(projects.deletedAt)));
+    const deletedActions = await db.select().from(actions)
+      .where(and(eq(actions.organizationId, organizationId), isNotNull(actions.deletedAt)));
+
+    const sameDelete = (a: Date | null, b: Date | null | undefined) => !!a && !!b && a.getTime() === b.getTime();
+    const strategyById = new Map(deletedStrategies.map(s => [s.id, s]));
+    const projectById = new Map(deletedProjects.map(p => [p.id, p]));
+
+    const items: RecycleBinItem[] = [];
+    for (const s of deletedStrategies) {
+      items.push({
+        type: 'strategy', id: s.id, title: s.title, strategyId: null, projectId: null,
+        organizationId: s.organizationId, deletedAt: s.deletedAt!, deletedBy: s.deletedBy,
+        childProjects: deletedProjects.filter(p => p.strategyId === s.id && sameDelete(p.deletedAt, s.deletedAt)).length,
+        childActions: deletedActions.filter(a => a.strategyId === s.id && sameDelete(a.deletedAt, s.deletedAt)).length,
+      });
+    }
+    for (const p of deletedProjects) {
+      if (sameDelete(p.deletedAt, strategyById.get(p.strategyId)?.deletedAt)) continue;
+      items.push({
+        type: 'project', id: p.id, title: p.title, strategyId: p.strategyId, projectId: null,
+        organizationId: p.organizationId, deletedAt: p.deletedAt!, deletedBy: p.deletedBy,
+        childProjects: 0,
+        childActions: deletedActions.filter(a => a.projectId === p.id && sameDelete(a.deletedAt, p.deletedAt)).length,
+      });
+    }
+    for (const a of deletedActions) {
+      if (sameDelete(a.deletedAt, strategyById.get(a.strategyId)?.deletedAt)) continue;
+      if (a.projectId && sameDelete(a.deletedAt, projectById.get(a.projectId)?.deletedAt)) continue;
+      items.push({
+        type: 'action', id: a.id, title: a.title, strategyId: a.strategyId, projectId: a.projectId,
+        organizationId: a.organizationId, deletedAt: a.deletedAt!, deletedBy: a.deletedBy,
+        childProjects: 0, childActions: 0,
+      });
+    }
+    return items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  async getRecycleBinItem(type: RecycleBinEntityType, id: string): Promise<RecycleBinItem | undefined> {
+    const base = { childProjects: 0, childActions: 0 };
+    if (type === 'strategy') {
+      const [s] = await db.select().from(strategies).where(and(eq(strategies.id, id), isNotNull(strategies.deletedAt)));
+      return s ? { ...base, type, id: s.id, title: s.title, strategyId: null, projectId: null, organizationId: s.organizationId, deletedAt: s.deletedAt!, deletedBy: s.deletedBy } : undefined;
+    }
+    if (type === 'project') {
+      const [p] = await db.select().from(projects).where(and(eq(projects.id, id), isNotNull(projects.deletedAt)));
+      return p ? { ...base, type, id: p.id, title: p.title, strategyId: p.strategyId, projectId: null, organizationId: p.organizationId, deletedAt: p.deletedAt!, deletedBy: p.deletedBy } : undefined;
+    }
+    const [a] = await db.select().from(actions).where(and(eq(actions.id, id), isNotNull(actions.deletedAt)));
+    return a ? { ...base, type, id: a.id, title: a.title, strategyId: a.strategyId, projectId: a.projectId, organizationId: a.organizationId, deletedAt: a.deletedAt!, deletedBy: a.deletedBy } : undefined;
+  }
+
+  async restoreFromRecycleBin(type: RecycleBinEntityType, id: string): Promise<boolean> {
+    const item = await this.getRecycleBinItem(type, id);
+    if (!item) return false;
+    const restored = { deletedAt: null, deletedBy: null };
+    if (type === 'strategy') {
+      await db.update(strategies).set(restored).where(eq(strategies.id, id));
+      await db.update(projects).set(restored).where(and(eq(projects.strategyId, id), eq(projects.deletedAt, item.deletedAt)));
+      await db.update(actions).set(restored).where(and(eq(actions.strategyId, id), eq(actions.deletedAt, item.deletedAt)));
+    } else if (type === 'project') {
+      await db.update(projects).set(restored).where(eq(projects.id, id));
+      await db.update(actions).set(restored).where(and(eq(actions.projectId, id), eq(actions.deletedAt, item.deletedAt)));
+    } else {
+      await db.update(actions).set(restored).where(eq(actions.id, id));
+    }
+    return true;
+  }
+
+  async purgeFromRecycleBin(type: RecycleBinEntityType, id: string): Promise<boolean> {
+    const item = await this.getRecycleBinItem(type, id);
+    if (!item) return false;
+    if (type === 'strategy') return this.deleteStrategy(id);
+    if (type === 'project') return this.deleteProject(id);
+    return this.deleteAction(id);
+  }
+
+  async purgeExpiredRecycleBin(organizationId: string, deletedBefore: Date): Promise<number> {
+    const expired = (await this.getRecycleBin(organizationId)).filter(item => item.deletedAt < deletedBefore);
+    let purged = 0;
+    for (const item of expired) {
+      if (await this.purgeFromRecycleBin(item.type, item.id)) purged++;
+    }
+    return purged;
+  }
+
+  // Recurring action methods
+  async getLatestRecurringActions(): Promise<Action[]> {
+    // An occurrence is the latest in its series when no later one exists, including ones
+    // that were deleted: deleting an occurrence must not make its predecessor spawn it again
+    return db.select().from(actions).where(and(
+      isNotNull(actions.recurrenceFrequency),
+      isNotNull(actions.recurrenceSeriesId),
+      isNull(actions.deletedAt),
+      eq(actions.isArchived, 'false'),
+      sql`NOT EXISTS (SELECT 1 FROM "actions" AS "later" WHERE "later"."recurrence_series_id" = ${actions.recurrenceSeriesId} AND "later"."recurrence_index" > ${actions.recurrenceIndex})`
+    ));
+  }
+
+  async createNextOccurrence(source: Action, dueDate: Date, recurrenceIndex: number): Promise<Action | undefined> {
+    const sourceChecklist = await this.getActionChecklistItems(source.id);
+    const sourceAssignees = await this.getActionPeopleAssignments(source.id);
+    // Planned dates move by the same amount as the due date
+    const offsetMs = source.dueDate ? dueDate.getTime() - source.dueDate.getTime() : 0;
+    const shift = (date: Date | null) => date ? new Date(date.getTime() + offsetMs) : null;
+    const id = randomUUID();
+
+    // The existence check and the inserts share one transaction, so the scheduler and a
+    // completion in the UI can't both create the same occurrence
+    const created = db.transaction((tx) => {
+      const [existing] = tx.select({ id: actions.id }).from(actions)
+        .where(and(eq(actions.recurrenceSeriesId, source.recurrenceSeriesId!), gte(actions.recurrenceIndex, recurrenceIndex)))
+        .all();
+      if (existing) return false;
+
+      tx.insert(actions).values({
+        id,
+        title: source.title,
+        description: source.description,
+        strategyId: source.strategyId,
+        projectId: source.projectId,
+        targetValue: source.targetValue,
+        measurementUnit: source.measurementUnit,
+        status: 'not_started',
+        dueDate,
+        documentFolderUrl: source.documentFolderUrl,
+        notes: source.notes,
+        organizationId: source.organizationId,
+        createdBy: source.createdBy,
+        phaseId: source.phaseId,
+        workstreamId: source.workstreamId,
+        plannedStart: shift(source.plannedStart),
+        plannedEnd: shift(source.plannedEnd),
+        durationDays: source.durationDays,
+        sortOrder: source.sortOrder,
+        recurrenceFrequency: source.recurrenceFrequency,
+        recurrenceUntil: source.recurrenceUntil,
+        recurrenceCount: source.recurrenceCount,
+        recurrenceSeriesId: source.recurrenceSeriesId,
+        recurrenceIndex,
+      }).run();
+      for (const item of sourceChecklist) {
+        tx.insert(actionChecklistItems).values({
+          id: randomUUID(),
+          actionId: id,
+          title: item.title,
+          isCompleted: 'false',
+          orderIndex: item.orderIndex,
+          indentLevel: item.indentLevel,
+        }).run();
+      }
+      for (const assignment of sourceAssignees) {
+        tx.insert(actionPeopleAssignments).values({
+          id: randomUUID(),
+          actionId: id,
+          userId: assignment.userId,
+          organizationId: assignment.organizationId,
+          assignedBy: assignment.assignedBy,
+        }).run();
+      }
+      tx.insert(activities).values({
+        id: randomUUID(),
+        type: 'action_created',
+        description: `Created recurring action "${source.title}" (occurrence ${recurrenceIndex})`,
+        userId: source.createdBy,
+        strategyId: source.strategyId,
+        projectId: source.projectId,
+        organizationId: source.organizationId,
+      }).run();
+      return true;
+    });
+
+    return created ? this.getAction(id) : undefined;
+  }
+
+  // Bulk import: better-sqlite3 transactions are synchronous, so every write here uses .run()
+  async importRecords(batch: ImportBatch): Promise<ImportResult> {
+    const { organizationId, createdBy } = batch;
+    db.transaction((tx) => {
+      for (const strategy of batch.strategies) {
+        const id = randomUUID();
+        tx.insert(strategies).values({ ...strategy, id, progress: 0 }).run();
+        tx.insert(activities).values({
+          id: randomUUID(),
+          type: 'strategy_created',
+          description: `Imported strategy "${strategy.title}"`,
+          userId: createdBy,
+          strategyId: id,
+          organizationId,
+        }).run();
+      }
+
+      for (const { project, leaderIds } of batch.projects) {
+        const id = randomUUID();
+        tx.insert(projects).values({ ...project, id, progress: 0 }).run();
+        tx.insert(activities).values({
+          id: randomUUID(),
+          type: 'project_created',
+          description: `Imported project "${project.title}"`,
+          userId: createdBy,
+          strategyId: project.strategyId,
+          projectId: id,
+          organizationId,
+        }).run();
+        if (organizationId) {
+          for (const leaderId of leaderIds) {
+            tx.insert(projectResourceAssignments).values({
+              id: randomUUID(),
+              projectId: id,
+              userId: leaderId,
+              hoursPerWeek: '0',
+              organizationId,
+              assignedBy: createdBy,
+            }).onConflictDoNothing().run();
+          }
+        }
+      }
+
+      for (const { action, assigneeIds } of batch.actions) {
+        const id = randomUUID();
+        tx.insert(actions).values({ ...action, id }).run();
+        tx.insert(activities).values({
+          id: randomUUID(),
+          type: 'action_created',
+          description: `Imported action "${action.title}"`,
+          userId: createdBy,
+          strategyId: action.strategyId,
+          projectId: action.projectId,
+          organizationId,
+        }).run();
+        if (organizationId) {
+          for (const assigneeId of assigneeIds) {
+            tx.insert(actionPeopleAssignments).values({
+              id: randomUUID(),
+              actionId: id,
+              userId: assigneeId,
+              organizationId,
+              assignedBy: createdBy,
+            }).onConflictDoNothing().run();
+          }
+        }
+      }
+    });
+
+    return {
+      strategies: batch.strategies.length,
+      projects: batch.projects.length,
+      actions: batch.actions.length,
+    };
+  }
+
+  // Organization archive methods
+  async exportOrganizationArchive(organizationId: string): Promise<OrganizationArchive> {
+    const org = await getOrganization(organizationId);
+    const byOrg = <T extends SQLiteTable & { organizationId: SQLiteColumn }>(table: T) =>
+      db.select().from(table as SQLiteTable).where(eq(table.organizationId, organizationId)) as Promise<Record<string, unknown>[]>;
+
+    const orgStrategies = await byOrg(strategies);
+    const strategyIds = orgStrategies.map(s => s.id as string);
+    const orgProjects = await db.select().from(projects).where(within(projects.strategyId, strategyIds));
+    const projectIds = orgProjects.map(p => p.id);
+    const orgActions = await db.select().from(actions).where(within(actions.strategyId, strategyIds));
+    const actionIds = orgActions.map(a => a.id);
+    const orgDecisions = await byOrg(decisions);
+    const orgDocuments = await byOrg(frameworkDocuments);
+
+    const tables: Record<ArchiveTableName, Record<string, unknown>[]> = {
+      customRoles: await byOrg(customRoles),
+      executiveGoals: await byOrg(executiveGoals),
+      teamTags: await byOrg(teamTags),
+      strategies: orgStrategies,
+      strategyExecutiveGoals: await byOrg(strategyExecutiveGoals),
+      userStrategyAssignments: await db.select().from(userStrategyAssignments).where(within(userStrategyAssignments.strategyId, strategyIds)),
+      workstreams: await byOrg(workstreams),
+      phases: await byOrg(phases),
+      projects: orgProjects,
+      projectTeamTags: await byOrg(projectTeamTags),
+      userTeamTags: await byOrg(userTeamTags),
+      projectResourceAssignments: await byOrg(projectResourceAssignments),
+      actions: orgActions,
+      actionChecklistItems: await db.select().from(actionChecklistItems).where(within(actionChecklistItems.actionId, actionIds)),
+      actionDocuments: await db.select().from(actionDocuments).where(within(actionDocuments.actionId, actionIds)),
+      actionPeopleAssignments: await byOrg(actionPeopleAssignments),
+      barriers: await db.select().from(barriers).where(within(barriers.projectId, projectIds)),
+      dependencies: await byOrg(dependencies),
+      decisions: orgDecisions,
+      decisionRaciAssignments: await db.select().from(decisionRaciAssignments)
+        .where(within(decisionRaciAssignments.decisionId, orgDecisions.map(d => d.id as string))),
+      workstreamDependencies: await db.select().from(workstreamDependencies).where(within(workstreamDependencies.predecessorTaskId, actionIds)),
+      gateCriteria: await db.select().from(gateCriteria).where(within(gateCriteria.gateTaskId, actionIds)),
+      ptoEntries: await byOrg(ptoEntries),
+      holidays: await byOrg(holidays),
+      measurements: await byOrg(measurements),
+      frameworkDocuments: orgDocuments,
+      frameworkDocumentVersions: await db.select().from(frameworkDocumentVersions)
+        .where(within(frameworkDocumentVersions.documentId, orgDocuments.map(d => d.id as string))),
+      scheduleBaselines: await byOrg(scheduleBaselines),
+      strategyScenarios: await byOrg(strategyScenarios),
+      comments: await byOrg(comments),
+    };
+
+    const orgUsers = await getUsersByOrganization(organizationId);
+    return {
+      format: ORGANIZATION_ARCHIVE_FORMAT,
+      version: ORGANIZATION_ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      organization: { name: org?.name ?? 'Organization' },
+      users: orgUsers.map(u => ({
+        id: u.id,
+        email: u.email,
+        firstName: u.firstName,
+        lastName: u.lastName,
+        role: u.role,
+        customRoleId: u.customRoleId,
+        timezone: u.timezone,
+        fte: u.fte,
+        salary: u.salary,
+        serviceDeliveryHours: u.serviceDeliveryHours,
+      })),
+      tables,
+    };
+  }
+
+  /**
+   * Load an archive into an organization. Every archived row gets a fresh id and every reference to an
+   * archived id (plain columns and ids embedded in JSON text alike) is rewritten. Archived users are
+   * matched to existing accounts of the same organization by email; the rest are created without a
+   * password and must use password reset to sign in. A row that refers to anything in this instance the
+   * archive does not carry (another organization's strategy or user, say) is skipped, along with the rows
+   * that depend on it. All rows are written in a single transaction.
+   */
+  async importOrganizationArchive(archive: OrganizationArchive, organizationId: string): Promise<ArchiveImportResult> {
+    const idMap = new Map<string, string>();
+    const newUsers: (typeof users.$inferInsert)[] = [];
+    let usersMatched = 0;
+
+    for (const archived of archive.users ?? []) {
+      const email = archived.email?.toLowerCase() ?? null;
+      const existing = email ? await getUserByEmail(email) : undefined;
+      if (existing && existing.organizationId === organizationId) {
+        idMap.set(archived.id, existing.id);
+        usersMatched++;
+        continue;
+      }
+      const id = randomUUID();
+      idMap.set(archived.id, id);
+      newUsers.push({
+        id,
+        // Emails are unique across the instance, so one already used in another organization is left off
+        email: existing ? null : email,
+        firstName: archived.firstName,
+        lastName: archived.lastName,
+        role: archived.role,
+        customRoleId: archived.customRoleId ?? null,
+        timezone: archived.timezone,
+        fte: archived.fte,
+        salary: archived.salary,
+        serviceDeliveryHours: archived.serviceDeliveryHours,
+        organizationId,
+        mustChangePassword: 'true',
+      });
+    }
+
+    const tableNames = Object.keys(archiveTables) as ArchiveTableName[];
+    for (const name of tableNames) {
+      for (const row of archive.tables?.[name] ?? []) {
+        if (typeof row.id === 'string') idMap.set(row.id, randomUUID());
+      }
+    }
+
+    // A whole value that could be an id (user ids are not always UUIDs), plus every UUID inside it
+    const referencesOf = (value: unknown): string[] => {
+      if (typeof value !== 'string') return [];
+      const embedded = value.match(UUID_PATTERN) ?? [];
+      return /^[\w-]{8,64}$/.test(value) ? [value, ...embedded] : embedded;
+    };
+    const unknownReferences = new Set<string>();
+    for (const name of tableNames) {
+      for (const row of archive.tables?.[name] ?? []) {
+        for (const [key, value] of Object.entries(row)) {
+          if (key === 'id' || key === 'organizationId') continue;
+          for (const reference of referencesOf(value)) {
+            if (!idMap.has(reference)) unknownReferences.add(reference);
+          }
+        }
+      }
+    }
+    // Ids that exist nowhere were already dangling in the source organization and are harmless to keep
+    const foreignIds = await findExistingIds(Array.from(unknownReferences));
+
+    const remap = (value: unknown) => {
+      if (typeof value !== 'string') return value;
+      return idMap.get(value) ?? value.replace(UUID_PATTERN, id => idMap.get(id) ?? id);
+    };
+
+    const counts: Record<string, number> = {};
+    const skippedIds = new Set<string>();
+    let rowsSkipped = 0;
+    db.transaction((tx) => {
+      // Tables are in dependency order, so a skipped parent is seen before the rows that refer to it
+      for (const name of tableNames) {
+        const table: SQLiteTable = archiveTables[name];
+        const columns = Object.entries(getTableColumns(table));
+        let inserted = 0;
+        for (const row of archive.tables?.[name] ?? []) {
+          const references = columns
+            .filter(([key]) => key !== 'id' && key !== 'organizationId' && key in row)
+            .flatMap(([key]) => referencesOf(row[key]));
+          if (references.some(reference => foreignIds.has(reference) || skippedIds.has(reference))) {
+            if (typeof row.id === 'string') skippedIds.add(row.id);
+            rowsSkipped++;
+            continue;
+          }
+          const values: Record<string, unknown> = {};
+          for (const [key, column] of columns) {
+            if (!(key in row)) continue;
+            const value = row[key];
+            if (key === 'organizationId') values[key] = organizationId;
+            else if (column.dataType === 'date') values[key] = value == null ? null : new Date(value as string);
+            else values[key] = remap(value);
+          }
+          tx.insert(table).values(values).run();
+          inserted++;
+        }
+        counts[name] = inserted;
+      }
+      for (const user of newUsers) {
+        const customRoleId = user.customRoleId && idMap.has(user.customRoleId) && !skippedIds.has(user.customRoleId)
+          ? idMap.get(user.customRoleId)!
+          : null;
+        tx.insert(users).values({ ...user, customRoleId }).run();
+      }
+    });
+
+    return { organizationId, counts, usersCreated: newUsers.length, usersMatched, rowsSkipped };
+  }
+
+  // Scenario sandbox methods
+  async getScenarioPlan(strategyId: string): Promise<ScenarioPlan> {
+    const iso = (date: Date | null) => date ? date.toISOString() : null;
+    const strategyProjects = (await this.getProjectsByStrategy(strategyId)).filter(p => p.isArchived !== 'true');
+    const strategyActions = (await this.getActionsByStrategy(strategyId)).filter(a => a.isArchived !== 'true');
+    const strategyWorkstreams = await this.getWorkstreamsByStrategy(strategyId);
+    const taskDependencies = await this.getWorkstreamDependenciesByStrategy(strategyId);
+
+    return {
+      projects: strategyProjects.map(p => ({
+        id: p.id,
+        title: p.title,
+        status: p.status,
+        startDate: iso(p.startDate),
+        dueDate: iso(p.dueDate),
+        dropped: false,
+      })),
+      actions: strategyActions.map(a => ({
+        id: a.id,
+        projectId: a.projectId,
+        title: a.title,
+        status: a.status,
+        workstreamId: a.workstreamId,
+        phaseId: a.phaseId,
+        dueDate: iso(a.dueDate),
+        plannedStart: iso(a.plannedStart),
+        plannedEnd: iso(a.plannedEnd),
+        durationDays: a.durationDays,
+        dropped: false,
+      })),
+      workstreams: strategyWorkstreams.map(w => ({ id: w.id, name: w.name })),
+      dependencies: taskDependencies.map(d => ({
+        id: d.id,
+        predecessorTaskId: d.predecessorTaskId,
+        successorTaskId: d.successorTaskId,
+        type: d.type,
+        lagDays: d.lagDays,
+      })),
+    };
+  }
+
+  async getStrategyScenariosByStrategy(strategyId: string): Promise<StrategyScenario[]> {
+    return db.select().from(strategyScenarios)
+      .where(eq(strategyScenarios.strategyId, strategyId))
+      .orderBy(desc(strategyScenarios.createdAt));
+  }
+
+  async getStrategyScenario(id: string): Promise<StrategyScenario | undefined> {
+    const [scenario] = await db.select().from(strategyScenarios).where(eq(strategyScenarios.id, id));
+    return scenario || undefined;
+  }
+
+  async createStrategyScenario(strategyId: string, scenario: InsertStrategyScenario & { organizationId: string; createdBy: string }): Promise<StrategyScenario> {
+    const plan = JSON.stringify(await this.getScenarioPlan(strategyId));
+    const [created] = await db.insert(strategyScenarios).values({
+      id: randomUUID(),
+      ...scenario,
+      strategyId,
+      baseData: plan,
+      planData: plan,
+    }).returning();
+    return created;
+  }
+
+  async updateStrategyScenario(id: string, updates: Partial<Pick<StrategyScenario, 'name' | 'description' | 'planData'>>): Promise<StrategyScenario | undefined> {
+    const [scenario] = await db.update(strategyScenarios)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(strategyScenarios.id, id))
+      .returning();
+    return scenario || undefined;
+  }
+
+  async deleteStrategyScenario(id: string): Promise<boolean> {
+    const result = await db.delete(strategyScenarios).where(eq(strategyScenarios.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async promoteStrategyScenario(id: string, promotedBy: string): Promise<ScenarioPromotionResult> {
+    const result: ScenarioPromotionResult = { projectsUpdated: 0, actionsUpdated: 0, projectsDropped: 0, actionsDropped: 0 };
+    const scenario = await this.getStrategyScenario(id);
+    if (!scenario) return result;
+
+    const base = JSON.parse(scenario.baseData) as ScenarioPlan;
+    const plan = JSON.parse(scenario.planData) as ScenarioPlan;
+    const baseProjects = new Map(base.projects.map(p => [p.id, p]));
+    const baseActions = new Map(base.actions.map(a => [a.id, a]));
+    const toDate = (value: string | null) => value ? new Date(value) : null;
+    // Dropped work goes to the recycle bin as one delete event, so it can be restored together
+    const deletedAt = new Date();
+
+    db.transaction((tx) => {
+      const droppedProjectIds = new Set<string>();
+      for (const project of plan.projects) {
+        const was = baseProjects.get(project.id);
+        if (!was) continue;
+        const live = and(eq(projects.id, project.id), isNull(projects.deletedAt));
+        if (project.dropped && !was.dropped) {
+          result.projectsDropped += tx.update(projects).set({ deletedAt, deletedBy: promotedBy }).where(live).run().changes;
+          tx.update(actions)
+            .set({ deletedAt, deletedBy: promotedBy })
+            .where(and(eq(actions.projectId, project.id), isNull(actions.deletedAt)))
+            .run();
+          droppedProjectIds.add(project.id);
+          continue;
+        }
+        const updates: Partial<Project> = {};
+        if (project.startDate && project.startDate !== was.startDate) updates.startDate = new Date(project.startDate);
+        if (project.dueDate && project.dueDate !== was.dueDate) updates.dueDate = new Date(project.dueDate);
+        if (Object.keys(updates).length > 0) {
+          result.projectsUpdated += tx.update(projects).set(updates).where(live).run().changes;
+        }
+      }
+
+      for (const action of plan.actions) {
+        const was = baseActions.get(action.id);
+        if (!was || (action.projectId && droppedProjectIds.has(action.projectId))) continue;
+        const live = and(eq(actions.id, action.id), isNull(actions.deletedAt));
+        if (action.dropped && !was.dropped) {
+          result.actionsDropped += tx.update(actions).set({ deletedAt, deletedBy: promotedBy }).where(live).run().changes;
+          continue;
+        }
+        const updates: Partial<Action> = {};
+        if (action.dueDate !== was.dueDate) updates.dueDate = toDate(action.dueDate);
+        if (action.plannedStart !== was.plannedStart) updates.plannedStart = toDate(action.plannedStart);
+        if (action.plannedEnd !== was.plannedEnd) updates.plannedEnd = toDate(action.plannedEnd);
+        if (action.durationDays !== was.durationDays) updates.durationDays = action.durationDays;
+        if (Object.keys(updates).length > 0) {
+          result.actionsUpdated += tx.update(actions).set(updates).where(live).run().changes;
+        }
+      }
+
+      tx.update(strategyScenarios)
+        .set({ status: 'promoted', promotedAt: new Date(), promotedBy, updatedAt: new Date() })
+        .where(eq(strategyScenarios.id, id))
+        .run();
+    });
+
+    return result;
+  }
+
+  // Comment methods
+  async getComments(entityType: CommentEntityType, entityId: string): Promise<Comment[]> {
+    return db.select().from(comments)
+      .where(and(eq(comments.entityType, entityType), eq(comments.entityId, entityId)))
+      .orderBy(comments.createdAt);
+  }
+
+  async getComment(id: string): Promise<Comment | undefined> {
+    const [comment] = await db.select().from(comments).where(eq(comments.id, id));
+    return comment || undefined;
+  }
+
+  async createComment(comment: InsertComment & { entityType: CommentEntityType; entityId: string; authorId: string; organizationId: string; mentions: string[] }): Promise<Comment> {
+    const [created] = await db.insert(comments).values({
+      id: randomUUID(),
+      entityType: comment.entityType,
+      entityId: comment.entityId,
+      parentId: comment.parentId ?? null,
+      body: comment.body,
+      mentions: JSON.stringify(comment.mentions),
+      authorId: comment.authorId,
+      organizationId: comment.organizationId,
+    }).returning();
+    return created;
+  }
+
+  async updateComment(id: string, body: string, mentions: string[]): Promise<Comment | undefined> {
+    const now = new Date();
+    const [comment] = await db.update(comments)
+      .set({ body, mentions: JSON.stringify(mentions), editedAt: now, updatedAt: now })
+      .where(eq(comments.id, id))
+      .returning();
+    return comment || undefined;
+  }
+
+  async deleteComment(id: string): Promise<boolean> {
+    return db.transaction((tx) => {
+      const [comment] = tx.select().from(comments).where(eq(comments.id, id)).all();
+      if (!comment) return false;
+      // Replies belong to their own authors, so a comment that has any is blanked rather than removed
+      const [reply] = tx.select({ id: comments.id }).from(comments).where(eq(comments.parentId, id)).limit(1).all();
+      if (reply) {
+        tx.update(comments).set({ body: '', mentions: '[]', deletedAt: new Date() }).where(eq(comments.id, id)).run();
+        return true;
+      }
+      tx.delete(comments).where(eq(comments.id, id)).run();
+      // Removing the last reply under a placeholder leaves nothing worth keeping
+      if (comment.parentId) {
+        const [sibling] = tx.select({ id: comments.id }).from(comments).where(eq(comments.parentId, comment.parentId)).limit(1).all();
+        if (!sibling) {
+          tx.delete(comments).where(and(eq(comments.id, comment.parentId), isNotNull(comments.deletedAt))).run();
+        }
+      }
+      return true;
+    });
+  }
+
+  async getCommentCounts(organizationId: string, entityType: CommentEntityType): Promise<Record<string, number>> {
+    const rows = await db.select({ entityId: comments.entityId, count: sql<number>`count(*)` })
+      .from(comments)
+      .where(and(eq(comments.organizationId, organizationId), eq(comments.entityType, entityType), isNull(comments.deletedAt)))
+      .groupBy(comments.entityId);
+    return Object.fromEntries(rows.map(row => [row.entityId, Number(row.count)]));
+  }
+
+  private async deleteCommentsFor(entityType: CommentEntityType, entityIds: string[]): Promise<void> {
+    if (entityIds.length === 0) return;
+    await db.delete(comments).where(and(eq(comments.entityType, entityType), inArray(comments.entityId, entityIds)));
+  }
+
+  async getWebhookSubscriptions(organizationId: string): Promise<WebhookSubscription[]> {
+    return db.select().from(webhookSubscriptions)
+      .where(eq(webhookSubscriptions.organizationId, organizationId))
+      .orderBy(webhookSubscriptions.createdAt);
+  }
+
+  async getWebhookSubscription(id: string): Promise<WebhookSubscription | undefined> {
+    const [subscription] = await db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+    return subscription || undefined;
+  }
+
+  async createWebhookSubscription(subscription: InsertWebhookSubscription & { organizationId: string; secret: string; createdBy: string }): Promise<WebhookSubscription> {
+    const [created] = await db.insert(webhookSubscriptions).values({
+      id: randomUUID(),
+      ...subscription,
+      events: JSON.stringify(subscription.events),
+    }).returning();
+    return created;
+  }
+
+  async updateWebhookSubscription(id: string, updates: Partial<InsertWebhookSubscription> & { secret?: string }): Promise<WebhookSubscription | undefined> {
+    const { events, ...rest } = updates;
+    const [updated] = await db.update(webhookSubscriptions)
+      .set({ ...rest, ...(events ? { events: JSON.stringify(events) } : {}), updatedAt: new Date() })
+      .where(eq(webhookSubscriptions.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteWebhookSubscription(id: string): Promise<boolean> {
+    await db.delete(webhookDeliveries).where(eq(webhookDeliveries.subscriptionId, id));
+    const result = await db.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getWebhookDeliveries(organizationId: string, subscriptionId?: string, limit: number = 50): Promise<WebhookDelivery[]> {
+    return db.select().from(webhookDeliveries)
+      .where(and(
+        eq(webhookDeliveries.organizationId, organizationId),
+        subscriptionId ? eq(webhookDeliveries.subscriptionId, subscriptionId) : undefined
+      ))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery || undefined;
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [created] = await db.insert(webhookDeliveries).values({ id: randomUUID(), ...delivery }).returning();
+    return created;
+  }
+
+  async updateWebhookDelivery(id: string, updates: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const [updated] = await db.update(webhookDeliveries).set(updates).where(eq(webhookDeliveries.id, id)).returning();
+    return updated || undefined;
+  }
+
+  // Pending deliveries whose next attempt is due. Pushing nextAttemptAt to the lease time in the same transaction
+  // keeps an overlapping tick from sending them twice; the attempt then records the real next time, if any.
+  async claimDueWebhookDeliveries(asOf: Date, leaseUntil: Date, limit: number): Promise<WebhookDelivery[]> {
+    return db.transaction((tx) => {
+      const due = tx.select().from(webhookDeliveries)
+        .where(and(eq(webhookDeliveries.status, 'pending'), lte(webhookDeliveries.nextAttemptAt, asOf)))
+        .orderBy(webhookDeliveries.nextAttemptAt)
+        .limit(limit)
+        .all();
+      if (due.length > 0) {
+        tx.update(webhookDeliveries)
+          .set({ nextAttemptAt: leaseUntil })
+          .where(inArray(webhookDeliveries.id, due.map(d => d.id)))
+          .run();
+      }
+      return due;
+    });
+  }
+
+  async getEscalationRules(organizationId: string): Promise<EscalationRule[]> {
+    return db.select().from(escalationRules)
+      .where(eq(escalationRules.organizationId, organizationId))
+      .orderBy(escalationRules.createdAt);
+  }
+
+  async getActiveEscalationRules(): Promise<EscalationRule[]> {
+    return db.select().from(escalationRules).where(eq(escalationRules.isActive, 'true'));
+  }
+
+  async getEscalationRule(id: string): Promise<EscalationRule | undefined> {
+    const [rule] = await db.select().from(escalationRules).where(eq(escalationRules.id, id));
+    return rule || undefined;
+  }
+
+  async createEscalationRule(rule: InsertEscalationRule & { organizationId: string; createdBy: string }): Promise<EscalationRule> {
+    const [created] = await db.insert(escalationRules).values({
+      id: randomUUID(),
+      ...rule,
+      conditions: JSON.stringify(rule.conditions),
+      actions: JSON.stringify(rule.actions),
+    }).returning();
+    return created;
+  }
+
+  async updateEscalationRule(id: string, updates: Partial<InsertEscalationRule>): Promise<EscalationRule | undefined> {
+    const { conditions, actions: ruleActions, ...rest } = updates;
+    const [updated] = await db.update(escalationRules)
+      .set({
+        ...rest,
+        ...(conditions ? { conditions: JSON.stringify(conditions) } : {}),
+        ...(ruleActions ? { actions: JSON.stringify(ruleActions) } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(escalationRules.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteEscalationRule(id: string): Promise<boolean> {
+    await db.delete(escalationRuleExecutions).where(eq(escalationRuleExecutions.ruleId, id));
+    const result = await db.delete(escalationRules).where(eq(escalationRules.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getEscalationRuleExecutions(organizationId: string, ruleId?: string, limit: number = 50): Promise<EscalationRuleExecution[]> {
+    return db.select().from(escalationRuleExecutions)
+      .where(and(
+        eq(escalationRuleExecutions.organizationId, organizationId),
+        ruleId ? eq(escalationRuleExecutions.ruleId, ruleId) : undefined
+      ))
+      .orderBy(desc(escalationRuleExecutions.createdAt))
+      .limit(limit);
+  }
+
+  async createEscalationRuleExecution(execution: InsertEscalationRuleExecution): Promise<EscalationRuleExecution> {
+    const [created] = await db.insert(escalationRuleExecutions).values({ id: randomUUID(), ...execution }).returning();
+    return created;
+  }
+
+  // Items a rule has already acted on; failed runs are left out so they are tried again
+  async getEscalatedEntityIds(ruleId: string): Promise<string[]> {
+    const rows = await db.selectDistinct({ entityId: escalationRuleExecutions.entityId })
+      .from(escalationRuleExecutions)
+      .where(and(eq(escalationRuleExecutions.ruleId, ruleId), eq(escalationRuleExecutions.status, 'succeeded')));
+    return rows.map(r => r.entityId);
+  }
+
+  // When each item's status last changed, from the field-level change history
+  private async getLastStatusChanges(entityType: string, entityIds: string[]): Promise<Map<string, Date>> {
+    const rows = await db.select({ entityId: changeHistory.entityId, changedAt: sql<number>`max(${changeHistory.createdAt})` })
+      .from(changeHistory)
+      .where(and(
+        eq(changeHistory.entityType, entityType),
+        within(changeHistory.entityId, entityIds),
+        sql`${changeHistory.changes} like '%"field":"status"%'`,
+      ))
+      .groupBy(changeHistory.entityId);
+    return new Map(rows.map(r => [r.entityId, new Date(Number(r.changedAt) * 1000)]));
+  }
+
+  async getEscalationCandidates(organizationId: string, entityType: EscalationRuleEntityType, asOf: Date): Promise<EscalationCandidate[]> {
+    switch (entityType) {
+      case 'barrier': {
+        const rows = await db.select({ barrier: barriers, accountableLeaders: projects.accountableLeaders })
+          .from(barriers)
+          .innerJoin(projects, eq(projects.id, barriers.projectId))
+          .innerJoin(strategies, eq(strategies.id, projects.strategyId))
+          .where(and(eq(barriers.organizationId, organizationId), openProject(), openStrategy()));
+        const statusChanges = await this.getLastStatusChanges('barrier', rows.map(r => r.barrier.id));
+        return rows.map(({ barrier, accountableLeaders }) => {
+          const identified = barrier.identifiedDate ?? barrier.createdAt;
+          return {
+            entityId: barrier.id, title: barrier.title, organizationId,
+            facts: {
+              severity: barrier.severity,
+              status: barrier.status,
+              daysOpen: daysSince(identified, asOf),
+              daysPastTargetResolution: daysSince(barrier.targetResolutionDate, asOf),
+              daysSinceStatusChange: daysSince(statusChanges.get(barrier.id) ?? identified, asOf),
+            },
+            ownerIds: barrier.ownerId ? [barrier.ownerId] : [],
+            accountableLeaderIds: parseLeaderIds(accountableLeaders),
+          };
+        });
+      }
+      case 'decision': {
+        const rows = await db.select({ decision: decisions })
+          .from(decisions)
+          .leftJoin(strategies, eq(strategies.id, decisions.strategyId))
+          .where(and(eq(decisions.organizationId, organizationId), or(isNull(decisions.strategyId), openStrategy())));
+        const owners = groupOwners(await db.select({ key: decisionRaciAssignments.decisionId, userId: decisionRaciAssignments.userId })
+          .from(decisionRaciAssignments)
+          .where(and(eq(decisionRaciAssignments.role, 'accountable'), within(decisionRaciAssignments.decisionId, rows.map(r => r.decision.id)))));
+        return rows.map(({ decision }) => ({
+          entityId: decision.id, title: decision.title, organizationId,
+          facts: {
+            status: decision.status,
+            escalationLevel: decision.escalationLevel,
+            category: decision.category,
+            daysOpen: daysSince(decision.createdAt, asOf),
+            daysPastDue: daysSince(decision.dueDate, asOf),
+          },
+          ownerIds: owners.get(decision.id) ?? [],
+          accountableLeaderIds: [],
+        }));
+      }
+      case 'project': {
+        const rows = await db.select({ project: projects })
+          .from(projects)
+          .innerJoin(strategies, eq(strategies.id, projects.strategyId))
+          .where(and(eq(projects.organizationId, organizationId), openProject(), openStrategy()));
+        const projectIds = rows.map(r => r.project.id);
+        const statusChanges = await this.getLastStatusChanges('project', projectIds);
+        const owners = groupOwners(await db.select({ key: projectResourceAssignments.projectId, userId: projectResourceAssignments.userId })
+          .from(projectResourceAssignments)
+          .where(within(projectResourceAssignments.projectId, projectIds)));
+        return rows.map(({ project }) => ({
+          entityId: project.id, title: project.title, organizationId,
+          facts: {
+            status: project.status,
+            progress: project.progress,
+            daysSinceStatusChange: daysSince(statusChanges.get(project.id) ?? project.createdAt, asOf),
+            daysPastDue: daysSince(project.dueDate, asOf),
+          },
+          ownerIds: owners.get(project.id) ?? [],
+          accountableLeaderIds: parseLeaderIds(project.accountableLeaders),
+        }));
+      }
+      case 'action': {
+        const rows = await db.select({ action: actions, accountableLeaders: projects.accountableLeaders })
+          .from(actions)
+          .innerJoin(strategies, eq(strategies.id, actions.strategyId))
+          .leftJoin(projects, eq(projects.id, actions.projectId))
+          .where(and(
+            eq(actions.organizationId, organizationId),
+            isNull(actions.deletedAt),
+            eq(actions.isArchived, 'false'),
+            openStrategy(),
+            or(isNull(actions.projectId), openProject()),
+          ));
+        const actionIds = rows.map(r => r.action.id);
+        const statusChanges = await this.getLastStatusChanges('action', actionIds);
+        const owners = groupOwners(await db.select({ key: actionPeopleAssignments.actionId, userId: actionPeopleAssignments.userId })
+          .from(actionPeopleAssignments)
+          .where(within(actionPeopleAssignments.actionId, actionIds)));
+        return rows.map(({ action, accountableLeaders }) => ({
+          entityId: action.id, title: action.title, organizationId,
+          facts: {
+            status: action.status,
+            daysSinceStatusChange: daysSince(statusChanges.get(action.id) ?? action.createdAt, asOf),
+            daysPastDue: daysSince(action.dueDate, asOf),
+          },
+          ownerIds: owners.get(action.id) ?? [],
+          accountableLeaderIds: parseLeaderIds(accountableLeaders),
+        }));
+      }
+    }
+  }
+
+  async getChatChannels(organizationId: string): Promise<ChatChannel[]> {
+    return db.select().from(chatChannels)
+      .where(eq(chatChannels.organizationId, organizationId))
+      .orderBy(chatChannels.createdAt);
+  }
+
+  async getChatChannel(id: string): Promise<ChatChannel | undefined> {
+    const [channel] = await db.select().from(chatChannels).where(eq(chatChannels.id, id));
+    return channel || undefined;
+  }
+
+  async createChatChannel(channel: InsertChatChannel & { organizationId: string; createdBy: string }): Promise<ChatChannel> {
+    const [created] = await db.insert(chatChannels).values({
+      id: randomUUID(),
+      ...channel,
+      strategyId: channel.strategyId || null,
+      notificationTypes: JSON.stringify(channel.notificationTypes),
+    }).returning();
+    return created;
+  }
+
+  async updateChatChannel(id: string, updates: Partial<InsertChatChannel>): Promise<ChatChannel | undefined> {
+    const { notificationTypes, strategyId, ...rest } = updates;
+    const [updated] = await db.update(chatChannels)
+      .set({
+        ...rest,
+        ...(notificationTypes ? { notificationTypes: JSON.stringify(notificationTypes) } : {}),
+        ...(strategyId !== undefined ? { strategyId: strategyId || null } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(chatChannels.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteChatChannel(id: string): Promise<boolean> {
+    await db.delete(chatMessages).where(eq(chatMessages.channelId, id));
+    const result = await db.delete(chatChannels).where(eq(chatChannels.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async createChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
+    const [created] = await db.insert(chatMessages).values({ id: randomUUID(), ...message }).returning();
+    return created;
+  }
+
+  async updateChatMessage(id: string, updates: Partial<ChatMessage>): Promise<ChatMessage | undefined> {
+    const [updated] = await db.update(chatMessages).set(updates).where(eq(chatMessages.id, id)).returning();
+    return updated || undefined;
+  }
+
+  // Same lease as claimDueWebhookDeliveries: overlapping ticks cannot post a held message twice
+  async claimDueChatMessages(asOf: Date, leaseUntil: Date, limit: number): Promise<ChatMessage[]> {
+    return db.transaction((tx) => {
+      const due = tx.select().from(chatMessages)
+        .where(and(eq(chatMessages.status, 'pending'), lte(chatMessages.sendAfter, asOf)))
+        .orderBy(chatMessages.sendAfter)
+        .limit(limit)
+        .all();
+      if (due.length > 0) {
+        tx.update(chatMessages)
+          .set({ sendAfter: leaseUntil })
+          .where(inArray(chatMessages.id, due.map(m => m.id)))
+          .run();
+      }
+      return due;
+    });
+  }
+
+  async getEntityScope(entityType: string, entityId: string): Promise<EntityScope | undefined> {
+    const scope = (organizationId: string | null | undefined, strategyId: string | null | undefined, projectId?: string | null) =>
+      organizationId ? { organizationId, strategyId: strategyId ?? null, projectId: projectId ?? null } : undefined;
+
+    switch (entityType) {
+      case 'strategy': {
+        const strategy = await this.getStrategy(entityId);
+        return scope(strategy?.organizationId, strategy?.id);
+      }
+      case 'project': {
+        const project = await this.getProject(entityId);
+        return scope(project?.organizationId, project?.strategyId, project?.id);
+      }
+      case 'action': {
+        const action = await this.getAction(entityId);
+        return scope(action?.organizationId, action?.strategyId, action?.projectId);
+      }
+      case 'barrier': {
+        const barrier = await this.getBarrier(entityId);
+        const project = barrier ? await this.getProject(barrier.projectId) : undefined;
+        return scope(barrier?.organizationId ?? project?.organizationId, project?.strategyId, project?.id);
+      }
+      case 'decision': {
+        const decision = await this.getDecision(entityId);
+        return scope(decision?.organizationId, decision?.strategyId);
+      }
+      case 'phase': {
+        const phase = await this.getPhase(entityId);
+        return scope(phase?.organizationId, phase?.strategyId);
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  async getEntityFollows(userId: string): Promise<EntityFollow[]> {
+    return db.select().from(entityFollows)
+      .where(eq(entityFollows.userId, userId))
+      .orderBy(desc(entityFollows.createdAt));
+  }
+
+  async followEntity(follow: InsertEntityFollow): Promise<EntityFollow> {
+    const [created] = await db.insert(entityFollows).values(follow).onConflictDoNothing().returning();
+    if (created) return created;
+    const [existing] = await db.select().from(entityFollows).where(and(
+      eq(entityFollows.userId, follow.userId),
+      eq(entityFollows.entityType, follow.entityType),
+      eq(entityFollows.entityId, follow.entityId),
+    ));
+    return existing;
+  }
+
+  async unfollowEntity(userId: string, entityType: FollowableEntityType, entityId: string): Promise<boolean> {
+    const result = await db.delete(entityFollows)
+      .where(and(eq(entityFollows.userId, userId), eq(entityFollows.entityType, entityType), eq(entityFollows.entityId, entityId)))
+      .returning({ id: entityFollows.id });
+    return result.length > 0;
+  }
+
+  async getFollowerIds(organizationId: string, targets: { entityType: FollowableEntityType; entityId: string }[]): Promise<string[]> {
+    if (targets.length === 0) return [];
+    const rows = await db.selectDistinct({ userId: entityFollows.userId }).from(entityFollows)
+      .where(and(
+        eq(entityFollows.organizationId, organizationId),
+        or(...targets.map(t => and(eq(entityFollows.entityType, t.entityType), eq(entityFollows.entityId, t.entityId)))),
+      ));
+    return rows.map(row => row.userId);
+  }
+
+  async getStrategyDigests(strategyId: string, limit: number = 52): Promise<StrategyDigest[]> {
+    return db.select().from(strategyDigests)
+      .where(eq(strategyDigests.strategyId, strategyId))
+      .orderBy(desc(strategyDigests.periodEnd))
+      .limit(limit);
+  }
+
+  async getStrategyDigest(id: string): Promise<StrategyDigest | undefined> {
+    const [digest] = await db.select().from(strategyDigests).where(eq(strategyDigests.id, id));
+    return digest || undefined;
+  }
+
+  async getLatestStrategyDigest(strategyId: string, before: Date): Promise<StrategyDigest | undefined> {
+    const [digest] = await db.select().from(strategyDigests)
+      .where(and(eq(strategyDigests.strategyId, strategyId), lte(strategyDigests.periodEnd, before)))
+      .orderBy(desc(strategyDigests.periodEnd))
+      .limit(1);
+    return digest || undefined;
+  }
+
+  // Undefined when the strategy already has a digest for this period
+  async createStrategyDigest(digest: InsertStrategyDigest): Promise<StrategyDigest | undefined> {
+    const [created] = await db.insert(strategyDigests).values(digest).onConflictDoNothing().returning();
+    return created || undefined;
+  }
+
+  async updateStrategyDigest(id: string, updates: Partial<InsertStrategyDigest>): Promise<StrategyDigest | undefined> {
+    const [digest] = await db.update(strategyDigests).set(updates).where(eq(strategyDigests.id, id)).returning();
+    return digest || undefined;
+  }
+
+  async getStatusTransitions(entityType: string, entityIds: string[], from: Date, to: Date): Promise<StatusTransition[]> {
+    const rows = await db.select().from(changeHistory)
+      .where(and(
+        eq(changeHistory.entityType, entityType),
+        within(changeHistory.entityId, entityIds),
+        gte(changeHistory.createdAt, from),
+        lt(changeHistory.createdAt, to),
+        sql`${changeHistory.changes} like '%"field":"status"%'`,
+      ))
+      .orderBy(changeHistory.createdAt);
+    return rows.flatMap(row => {
+      const change = (JSON.parse(row.changes) as FieldChange[]).find(c => c.field === 'status');
+      return change && row.createdAt ? [{ entityId: row.entityId, to: String(change.to ?? ''), changedAt: row.createdAt }] : [];
+    });
+  }
+
+  async getOidcConfiguration(organizationId: string): Promise<OidcConfiguration | undefined> {
+    const [configuration] = await db.select().from(oidcConfigurations)
+      .where(eq(oidcConfigurations.organizationId, organizationId));
+    return configuration || undefined;
+  }
+
+  async getEnabledOidcConfigurations(): Promise<OidcConfiguration[]> {
+    return db.select().from(oidcConfigurations).where(eq(oidcConfigurations.isEnabled, 'true'));
+  }
+
+  async upsertOidcConfiguration(configuration: InsertOidcConfiguration): Promise<OidcConfiguration> {
+    const { organizationId, createdBy, ...values } = configuration;
+    const [saved] = await db.insert(oidcConfigurations)
+      .values({ id: randomUUID(), ...configuration })
+      .onConflictDoUpdate({
+        target: oidcConfigurations.organizationId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteOidcConfiguration(organizationId: string): Promise<boolean> {
+    const result = await db.delete(oidcConfigurations)
+      .where(eq(oidcConfigurations.organizationId, organizationId))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getOidcIdentity(issuer: string, subject: string): Promise<OidcIdentity | undefined> {
+    const [identity] = await db.select().from(oidcIdentities)
+      .where(and(eq(oidcIdentities.issuer, issuer), eq(oidcIdentities.subject, subject)));
+    return identity || undefined;
+  }
+
+  async getOidcIdentitiesByUser(userId: string): Promise<OidcIdentity[]> {
+    return await db.select().from(oidcIdentities).where(eq(oidcIdentities.userId, userId));
+  }
+
+  async createOidcIdentity(identity: InsertOidcIdentity): Promise<OidcIdentity> {
+    const [created] = await db.insert(oidcIdentities)
+      .values({ id: randomUUID(), lastLoginAt: new Date(), ...identity })
+      .returning();
+    return created;
+  }
+
+  async touchOidcIdentity(id: string): Promise<void> {
+    await db.update(oidcIdentities).set({ lastLoginAt: new Date() }).where(eq(oidcIdentities.id, id));
+  }
+
+  async createOidcLoginState(loginState: InsertOidcLoginState): Promise<OidcLoginState> {
+    // Abandoned sign-ins never reach the callback, so clear them out as new ones start
+    await db.delete(oidcLoginStates).where(lt(oidcLoginStates.expiresAt, new Date()));
+    const [created] = await db.insert(oidcLoginStates).values(loginState).returning();
+    return created;
+  }
+
+  async consumeOidcLoginState(state: string): Promise<OidcLoginState | undefined> {
+    const [loginState] = await db.delete(oidcLoginStates)
+      .where(and(eq(oidcLoginStates.state, state), gt(oidcLoginStates.expiresAt, new Date())))
+      .returning();
+    return loginState || undefined;
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const [created] = await db.insert(apiTokens).values({ id: randomUUID(), ...token }).returning();
+    return created;
+  }
+
+  async getApiToken(id: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.id, id));
+    return token || undefined;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async getApiTokensByUser(userId: string): Promise<ApiToken[]> {
+    return db.select().from(apiTokens).where(eq(apiTokens.userId, userId)).orderBy(desc(apiTokens.createdAt));
+  }
+
+  async getApiTokensByOrganization(organizationId: string): Promise<ApiToken[]> {
+    return db.select().from(apiTokens).where(eq(apiTokens.organizationId, organizationId)).orderBy(desc(apiTokens.createdAt));
+  }
+
+  async revokeApiToken(id: string, revokedBy: string): Promise<ApiToken | undefined> {
+    const [token] = await db.update(apiTokens)
+      .set({ revokedAt: new Date(), revokedBy })
+      .where(and(eq(apiTokens.id, id), isNull(apiTokens.revokedAt)))
+      .returning();
+    return token || undefined;
+  }
+
+  async recordApiTokenUse(id: string, ip: string | null): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: new Date(), lastUsedIp: ip }).where(eq(apiTokens.id, id));
+  }
+
+  async getCustomRolesByOrganization(organizationId: string): Promise<CustomRole[]> {
+    return db.select().from(customRoles).where(eq(customRoles.organizationId, organizationId)).orderBy(customRoles.name);
+  }
+
+  async getCustomRole(id: string): Promise<CustomRole | undefined> {
+    const [role] = await db.select().from(customRoles).where(eq(customRoles.id, id));
+    return role || undefined;
+  }
+
+  async createCustomRole(role: InsertCustomRole): Promise<CustomRole> {
+    const [created] = await db.insert(customRoles).values({ id: randomUUID(), ...role }).returning();
+    return created;
+  }
+
+  async updateCustomRole(id: string, updates: Partial<Pick<CustomRole, 'name' | 'description' | 'capabilities'>>): Promise<CustomRole | undefined> {
+    const [role] = await db.update(customRoles)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(customRoles.id, id))
+      .returning();
+    return role || undefined;
+  }
+
+  async deleteCustomRole(id: string): Promise<boolean> {
+    // Members already hold the base role in users.role, so clearing the link is all it takes
+    return db.transaction((tx) => {
+      tx.update(users).set({ customRoleId: null }).where(eq(users.customRoleId, id)).run();
+      return tx.delete(customRoles).where(eq(customRoles.id, id)).returning().all().length > 0;
+    });
+  }
+}
+
+export async function getAllOrganizations(): Promise<Organization[]> {
+  return db.select().from(organizations).orderBy(organizations.createdAt);
+}
+
+export async function getOrganization(id: string): Promise<Organization | undefined> {
+  const [org] = await db.select().from(organizations).where(eq(organizations.id, id));
+  return org || undefined;
+}
+
+export async function getOrganizationByToken(token: string): Promise<Organization | undefined> {
+  const [org] = await db.select().from(organizations).where(eq(organizations.registrationToken, token));
+  return org || undefined;
+}
+
+export async function createOrganization(name: string): Promise<Organization> {
+  const token = randomUUID().replace(/-/g, '') + randomUUID().replace(/-/g, '').substring(0, 8);
+  const [org] = await db.insert(organizations).values({
+    id: randomUUID(),
+    name,
+    registrationToken: token,
+  }).returning();
+  return org;
+}
+
+export async function updateOrganizationToken(id: string): Promise<Organization | undefined> {
+  const newToken = randomUUID().replace(/-/g, '') + randomUUID().replace(/-/g, '').substring(0, 8);
+  const [org] = await db.update(organizations)
+    .set({ registrationToken: newToken })
+    .where(eq(organizations.id, id))
+    .returning();
+  return org || undefined;
+}
+
+export async function updateOrganizationName(id: string, name: string): Promise<Organization | undefined> {
+  const [org] = await db.update(organizations)
+    .set({ name, updatedAt: new Date() })
+    .where(eq(organizations.id, id))
+    .returning();
+  return org || undefined;
+}
+
+export async function updateOrganizationRecycleBinRetention(id: string, retentionDays: number): Promise<Organization | undefined> {
+  const [org] = await db.update(organizations)
+    .set({ recycleBinRetentionDays: retentionDays, updatedAt: new Date() })
+    .where(eq(organizations.id, id))
+    .returning();
+  return org || undefined;
+}
+
+export async function updateOrganizationReminderOffsets(id: string, dueOffsets: number[], overdueOffsets: number[]): Promise<Organization | undefined> {
+  const [org] = await db.update(organizations)
+    .set({
+      reminderDueOffsets: JSON.stringify(dueOffsets),
+      reminderOverdueOffsets: JSON.stringify(overdueOffsets),
+      updatedAt: new Date(),
+    })
+    .where(eq(organizations.id, id))
+    .returning();
+  return org || undefined;
+}
+
+export async function updateOrganizationProjectWakeUpAction(id: string, action: ProjectWakeUpAction): Promise<Organization | undefined> {
+  const [org] = await db.update(organizations)
+    .set({ projectWakeUpAction: action, updatedAt: new Date() })
+    .where(eq(organizations.id, id))
+    .returning();
+  return org || undefined;
+}
+
+export async function deleteOrganization(id: string): Promise<boolean> {
+  const result = await db.delete(organizations).where(eq(organizations.id, id)).returning();
+  return result.length > 0;
+}
+
+export async function ensureDefaultOrganization(): Promise<void> {
+  const orgs = await getAllOrganizations();
+  if (orgs.length === 0) {
+    await createOrganization('Default Organization');
+    console.log('[DB] Created default organization');
+  }
+}
+
+export async function getUserByEmail(email: string): Promise<User | undefined> {
+  const [user] = await db.select().from(users).where(eq(users.email, email.toLowerCase()));
+  return user || undefined;
+}
+
+export async function getUsersByOrganization(organizationId: string): Promise<User[]> {
+  return db.select().from(users).where(eq(users.organizationId, organizationId));
+}
+
+export async function updateUserPassword(userId: string, passwordHash: string): Promise<void> {
+  await db.update(users).set({ passwordHash }).where(eq(users.id, userId));
+}
+
+export async function clearMustChangePassword(userId: string): Promise<void> {
+  await db.update(users).set({ mustChangePassword: 'false' }).where(eq(users.id, userId));
+}
+
+// Password Reset Token Functions
+export async function createPasswordResetToken(
+  userId: string, 
+  tokenHash: string, 
+  expiresAt: Date
+): Promise<PasswordResetToken> {
+  // Invalidate any existing tokens for this user
+  await db.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, userId));
+  
+  const [token] = await db.insert(passwordResetTokens).values({
+    userId,
+    tokenHash,
+    expiresAt,
+  }).returning();
+  
+  return token;
+}
+
+export async function getPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+  const [token] = await db.select()
+    .from(passwordResetTokens)
+    .where(eq(passwordResetTokens.tokenHash, tokenHash));
+  return token || undefined;
+}
+
+export async function markPasswordResetTokenUsed(tokenId: string): Promise<void> {
+  await db.update(passwordResetTokens)
+    .set({ usedAt: new Date() })
+    .where(eq(passwordResetTokens.id, tokenId));
+}
+
+export async function cleanupExpiredTokens(): Promise<void> {
+  await db.delete(passwordResetTokens)
+    .where(sql`${passwordResetTokens.expiresAt} < (strftime('%s','now') * 1000) OR ${passwordResetTokens.usedAt} IS NOT NULL`);
+}
+
+// Two-Factor Authentication Code Functions
+export async function createTwoFactorCode(
+  userId: string,
+  codeHash: string,
+  type: 'login' | 'setup',
+  expiresAt: Date,
+  organizationId: string | null
+): Promise<TwoFactorCode> {
+  // Invalidate any existing codes of the same type for this user
+  await db.delete(twoFactorCodes).where(
+    and(
+      eq(twoFactorCodes.userId, userId),
+      eq(twoFactorCodes.type, type)
+    )
+  );
+  
+  const [code] = await db.insert(twoFactorCodes).values({
+    userId,
+    codeHash,
+    type,
+    expiresAt,
+    organizationId,
+  }).returning();
+  
+  return code;
+}
+
+export async function getTwoFactorCode(userId: string, type: 'login' | 'setup'): Promise<TwoFactorCode | undefined> {
+  const [code] = await db.select()
+    .from(twoFactorCodes)
+    .where(
+      and(
+        eq(twoFactorCodes.userId, userId),
+        eq(twoFactorCodes.type, type)
+      )
+    );
+  return code || undefined;
+}
+
+export async function incrementTwoFactorAttempts(codeId: string): Promise<number> {
+  const [updated] = await db.update(twoFactorCodes)
     .set({ attempts: sql`${twoFactorCodes.attempts} + 1` })
     .where(eq(twoFactorCodes.id, codeId))
     .returning();
@@ -1651,3 +3583,83 @@ export async function cleanupExpiredTwoFactorCodes(): Promise<void> {
     .where(sql`${twoFactorCodes.expiresAt} < (strftime('%s','now') * 1000) OR ${twoFactorCodes.usedAt} IS NOT NULL`);
 }
 
+export async function updateOrganizationRequireAdminTotp(id: string, requireAdminTotp: boolean): Promise<Organization | undefined> {
+  const [org] = await db.update(organizations)
+    .set({ requireAdminTotp: requireAdminTotp ? 'true' : 'false', updatedAt: new Date() })
+    .where(eq(organizations.id, id))
+    .returning();
+  return org || undefined;
+}
+
+// Authenticator App (TOTP) Functions
+export async function getTotpCredential(userId: string): Promise<TotpCredential | undefined> {
+  const [credential] = await db.select().from(totpCredentials).where(eq(totpCredentials.userId, userId));
+  return credential || undefined;
+}
+
+// Starting enrolment again replaces any unconfirmed secret
+export async function savePendingTotpSecret(userId: string, secret: string): Promise<void> {
+  await db.insert(totpCredentials)
+    .values({ userId, secret })
+    .onConflictDoUpdate({
+      target: totpCredentials.userId,
+      set: { secret, confirmedAt: null, lastUsedStep: null, createdAt: new Date() },
+    });
+}
+
+export async function confirmTotpCredential(userId: string, step: number): Promise<void> {
+  await db.update(totpCredentials)
+    .set({ confirmedAt: new Date(), lastUsedStep: step })
+    .where(eq(totpCredentials.userId, userId));
+}
+
+// Only moves forward, so two requests racing with the same code cannot both succeed
+export async function recordTotpStep(userId: string, step: number): Promise<boolean> {
+  const updated = await db.update(totpCredentials)
+    .set({ lastUsedStep: step })
+    .where(and(
+      eq(totpCredentials.userId, userId),
+      or(isNull(totpCredentials.lastUsedStep), lt(totpCredentials.lastUsedStep, step)),
+    ))
+    .returning();
+  return updated.length > 0;
+}
+
+export async function deleteTotpCredential(userId: string): Promise<void> {
+  await db.delete(totpCredentials).where(eq(totpCredentials.userId, userId));
+}
+
+// Recovery Code Functions
+export async function replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+  db.transaction((tx) => {
+    tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId)).run();
+    if (codeHashes.length > 0) {
+      tx.insert(twoFactorRecoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash }))).run();
+    }
+  });
+}
+
+// Marks the matching unused code as used; false if there is none
+export async function consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+  const updated = await db.update(twoFactorRecoveryCodes)
+    .set({ usedAt: new Date() })
+    .where(and(
+      eq(twoFactorRecoveryCodes.userId, userId),
+      eq(twoFactorRecoveryCodes.codeHash, codeHash),
+      isNull(twoFactorRecoveryCodes.usedAt),
+    ))
+    .returning();
+  return updated.length > 0;
+}
+
+export async function countUnusedRecoveryCodes(userId: string): Promise<number> {
+  const [row] = await db.select({ count: sql<number>`count(*)` })
+    .from(twoFactorRecoveryCodes)
+    .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+  return Number(row?.count ?? 0);
+}
+
+export async function deleteRecoveryCodes(userId: string): Promise<void> {
+  await db.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+}
+
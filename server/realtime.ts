@@ -0,0 +1,98 @@
+import type { RequestHandler, Response } from 'express';
+import { storage } from './storage';
+import { logger } from './logger';
+
+// Proxies drop idle connections after about a minute; a comment line keeps the stream open
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// Changes under these paths only concern the user who made them, so they go to that user's other tabs
+const USER_SCOPED_RESOURCES = new Set(['auth', 'notifications', 'notification-preferences', 'follows', 'ai']);
+
+interface RealtimeClient {
+  userId: string;
+  clientId: string | null;
+  res: Response;
+}
+
+export interface EntityChangeEvent {
+  resource: string;
+  method?: string;
+}
+
+// Connections are held in memory, so events reach the tabs connected to this server process only
+const clientsByOrganization = new Map<string, Set<RealtimeClient>>();
+
+function send(client: RealtimeClient, event: string, data: unknown) {
+  client.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Hold `res` open as a Server-Sent Events stream for the user until the browser disconnects.
+ * `clientId` identifies the tab so it is not sent the changes it made itself.
+ */
+export function openEventStream(res: Response, organizationId: string, userId: string, clientId: string | null) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.write('retry: 5000\n\n');
+
+  const client: RealtimeClient = { userId, clientId, res };
+  let clients = clientsByOrganization.get(organizationId);
+  if (!clients) {
+    clients = new Set();
+    clientsByOrganization.set(organizationId, clients);
+  }
+  clients.add(client);
+  send(client, 'ready', {});
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    clients.delete(client);
+    if (clients.size === 0) clientsByOrganization.delete(organizationId);
+  });
+}
+
+export function publishEntityChange(
+  organizationId: string | null | undefined,
+  change: EntityChangeEvent,
+  origin?: { userId?: string; clientId?: string | null },
+) {
+  if (!organizationId) return;
+  clientsByOrganization.get(organizationId)?.forEach(client => {
+    if (origin?.clientId && client.clientId === origin.clientId) return;
+    if (USER_SCOPED_RESOURCES.has(change.resource) && client.userId !== origin?.userId) return;
+    send(client, 'change', change);
+  });
+}
+
+export function publishNotification(userId: string) {
+  clientsByOrganization.forEach(clients => clients.forEach(client => {
+    if (client.userId === userId) send(client, 'notification', {});
+  }));
+}
+
+/**
+ * After a write under /api succeeds, tell the organization's other open tabs which resource changed
+ * so they refetch it. The resource is the first path segment (or `admin/<name>` for admin routes).
+ */
+export const broadcastChanges: RequestHandler = (req: any, res, next) => {
+  if (!['POST', 'PUT', 'PATCH', 'DELETE'].includes(req.method)) return next();
+
+  res.on('finish', () => {
+    const userId = req.user?.claims?.sub;
+    if (!userId || res.statusCode >= 400) return;
+    const segments = (req.originalUrl as string).split('?')[0].split('/').filter(Boolean).slice(1);
+    const resource = segments[0] === 'admin' && segments[1] ? `admin/${segments[1]}` : segments[0];
+    if (!resource) return;
+
+    const clientId = typeof req.headers['x-client-id'] === 'string' ? req.headers['x-client-id'] : null;
+    storage.getUser(userId)
+      .then(user => publishEntityChange(user?.organizationId, { resource, method: req.method }, { userId, clientId }))
+      .catch(error => logger.error('Failed to broadcast change', error));
+  });
+  next();
+};
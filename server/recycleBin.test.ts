@@ -0,0 +1,137 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createTestAction,
+  createTestOrganization,
+  createTestProject,
+  createTestStrategy,
+  createTestUser,
+  startTestServer,
+  type TestServer,
+} from './test/fixtures';
+import { storage } from './storage';
+import type { User } from '@shared/schema';
+
+describe('recycle bin', () => {
+  let server: TestServer;
+  let admin: User;
+
+  before(async () => {
+    server = await startTestServer();
+    admin = await createTestUser((await createTestOrganization()).id, { role: 'administrator' });
+  });
+
+  after(() => server.close());
+
+  test('deleting a strategy hides it with its projects and actions until it is restored', async () => {
+    const strategy = await createTestStrategy(admin);
+    const project = await createTestProject(admin, strategy);
+    const action = await createTestAction(admin, project);
+
+    assert.equal(await storage.softDeleteStrategy(strategy.id, admin.id), true);
+    assert.equal(await storage.getStrategy(strategy.id), undefined);
+    assert.equal(await storage.getProject(project.id), undefined);
+    assert.equal(await storage.getAction(action.id), undefined);
+
+    const bin = await storage.getRecycleBin(admin.organizationId!);
+    const item = bin.find(entry => entry.id === strategy.id);
+    assert.equal(item?.childProjects, 1);
+    assert.equal(item?.childActions, 1);
+    // Children deleted along with their strategy are listed under it, not on their own
+    assert.equal(bin.some(entry => entry.id === project.id), false);
+
+    assert.equal(await storage.restoreFromRecycleBin('strategy', strategy.id), true);
+    assert.ok(await storage.getStrategy(strategy.id));
+    assert.ok(await storage.getProject(project.id));
+    assert.ok(await storage.getAction(action.id));
+  });
+
+  test('restoring a strategy leaves children that were deleted separately in the bin', async () => {
+    const strategy = await createTestStrategy(admin);
+    const project = await createTestProject(admin, strategy);
+    await storage.softDeleteProject(project.id, admin.id);
+    // Soft deletes are stamped to the millisecond; keep the two apart
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await storage.softDeleteStrategy(strategy.id, admin.id);
+
+    await storage.restoreFromRecycleBin('strategy', strategy.id);
+    assert.ok(await storage.getStrategy(strategy.id));
+    assert.equal(await storage.getProject(project.id), undefined);
+  });
+
+  test("a deleted project's barriers and dependencies are hidden until it is restored", async () => {
+    const strategy = await createTestStrategy(admin);
+    const project = await createTestProject(admin, strategy);
+    const other = await createTestProject(admin, strategy);
+    const barrier = await storage.createBarrier({
+      projectId: project.id, title: 'Blocked', description: 'Waiting on legal', createdBy: admin.id, organizationId: admin.organizationId,
+    });
+    const dependency = await storage.createDependency({
+      sourceType: 'project', sourceId: other.id, targetType: 'project', targetId: project.id,
+      createdBy: admin.id, organizationId: admin.organizationId,
+    });
+
+    await storage.softDeleteProject(project.id, admin.id);
+    assert.equal((await storage.getAllBarriers(admin.organizationId!)).some(b => b.id === barrier.id), false);
+    assert.equal((await storage.getAllDependencies(admin.organizationId!)).some(d => d.id === dependency.id), false);
+    assert.equal((await storage.getDependenciesBySource('project', other.id, admin.organizationId!)).length, 0);
+
+    await storage.restoreFromRecycleBin('project', project.id);
+    assert.equal((await storage.getAllBarriers(admin.organizationId!)).some(b => b.id === barrier.id), true);
+    assert.equal((await storage.getAllDependencies(admin.organizationId!)).some(d => d.id === dependency.id), true);
+  });
+
+  test('deleting a project needs the delete_project capability on its strategy', async () => {
+    const strategy = await createTestStrategy(admin);
+    const project = await createTestProject(admin, strategy);
+    const viewer = await createTestUser(admin.organizationId!, { role: 'view' });
+    await storage.assignStrategy(viewer.id, strategy.id, admin.id);
+
+    assert.equal((await server.request(viewer, 'DELETE', `/api/projects/${project.id}`)).status, 403);
+    assert.ok(await storage.getProject(project.id));
+
+    assert.equal((await server.request(admin, 'DELETE', `/api/projects/${project.id}`)).status, 204);
+    assert.equal((await server.request(admin, 'GET', `/api/projects/${project.id}`)).status, 404);
+  });
+
+  test('only administrators of the owning organization can see, restore or purge items', async () => {
+    const strategy = await createTestStrategy(admin);
+    await storage.softDeleteStrategy(strategy.id, admin.id);
+    const colead = await createTestUser(admin.organizationId!, { role: 'co_lead' });
+    const otherAdmin = await createTestUser((await createTestOrganization()).id, { role: 'administrator' });
+
+    assert.equal((await server.request(colead, 'GET', '/api/admin/recycle-bin')).status, 403);
+    assert.equal((await server.request(colead, 'POST', `/api/admin/recycle-bin/strategy/${strategy.id}/restore`)).status, 403);
+    assert.equal((await server.request(otherAdmin, 'POST', `/api/admin/recycle-bin/strategy/${strategy.id}/restore`)).status, 403);
+    assert.equal((await server.request(otherAdmin, 'DELETE', `/api/admin/recycle-bin/strategy/${strategy.id}`)).status, 403);
+
+    const otherBin = await server.request(otherAdmin, 'GET', '/api/admin/recycle-bin');
+    assert.equal(otherBin.body.items.some((item: { id: string }) => item.id === strategy.id), false);
+
+    assert.equal((await server.request(admin, 'POST', `/api/admin/recycle-bin/strategy/${strategy.id}/restore`)).status, 200);
+    assert.ok(await storage.getStrategy(strategy.id));
+  });
+
+  test('a child cannot be restored while its parent is still in the bin', async () => {
+    const strategy = await createTestStrategy(admin);
+    const project = await createTestProject(admin, strategy);
+    const action = await createTestAction(admin, project);
+    await storage.softDeleteAction(action.id, admin.id);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await storage.softDeleteProject(project.id, admin.id);
+
+    const response = await server.request(admin, 'POST', `/api/admin/recycle-bin/action/${action.id}/restore`);
+    assert.equal(response.status, 409);
+    assert.equal(await storage.getAction(action.id), undefined);
+  });
+
+  test('purging removes the item for good', async () => {
+    const strategy = await createTestStrategy(admin);
+    const project = await createTestProject(admin, strategy);
+    await storage.softDeleteProject(project.id, admin.id);
+
+    assert.equal((await server.request(admin, 'DELETE', `/api/admin/recycle-bin/project/${project.id}`)).status, 204);
+    assert.equal(await storage.getRecycleBinItem('project', project.id), undefined);
+    assert.equal(await storage.restoreFromRecycleBin('project', project.id), false);
+  });
+});
@@ -0,0 +1,112 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createTestAction,
+  createTestOrganization,
+  createTestProject,
+  createTestStrategy,
+  createTestUser,
+} from './test/fixtures';
+import { storage } from './storage';
+import { checkDueDateNotifications, openedReminderWindows, reminderWindows } from './scheduler';
+import type { Action, Project, User } from '@shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysFrom = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+describe('reminder windows', () => {
+  const dueDate = new Date('2026-06-15T12:00:00Z');
+  const windows = reminderWindows(dueDate, [14, 7, 1], [1, 7]);
+  const keysOpenedAt = (now: Date) => openedReminderWindows(windows, dueDate, now).opened.map(w => w.key);
+
+  test('windows are ordered by when they open', () => {
+    assert.deepEqual(windows.map(w => w.key), ['due_14', 'due_7', 'due_1', 'overdue_1', 'overdue_7']);
+    assert.deepEqual(reminderWindows(dueDate, [7, 7], []).map(w => w.key), ['due_7']);
+  });
+
+  test('the latest opened window can be sent until the next one opens', () => {
+    assert.deepEqual(keysOpenedAt(daysFrom(dueDate, -15)), []);
+    assert.deepEqual(keysOpenedAt(daysFrom(dueDate, -5)), ['due_14', 'due_7']);
+    // A due date moved closer opens several windows at once; only the last one is sent
+    const { opened, sendable } = openedReminderWindows(windows, dueDate, daysFrom(dueDate, 3));
+    assert.equal(opened[opened.length - 1].key, 'overdue_1');
+    assert.equal(sendable, true);
+  });
+
+  test('the last overdue window can be caught up for a week, then lapses', () => {
+    assert.equal(openedReminderWindows(windows, dueDate, daysFrom(dueDate, 10)).sendable, true);
+    assert.equal(openedReminderWindows(windows, dueDate, daysFrom(dueDate, 15)).sendable, false);
+  });
+
+  test('a last due window lapses once the due date passes', () => {
+    const dueOnly = reminderWindows(dueDate, [7], []);
+    assert.equal(openedReminderWindows(dueOnly, dueDate, daysFrom(dueDate, -1)).sendable, true);
+    assert.equal(openedReminderWindows(dueOnly, dueDate, daysFrom(dueDate, 1)).sendable, false);
+
+    // One that opens on the due date itself still gets a day
+    const onTheDay = reminderWindows(dueDate, [0], []);
+    assert.equal(openedReminderWindows(onTheDay, dueDate, new Date(dueDate.getTime() + DAY_MS / 2)).sendable, true);
+  });
+});
+
+describe('due date reminder ledger', () => {
+  let owner: User;
+  let project: Project;
+
+  before(async () => {
+    owner = await createTestUser((await createTestOrganization()).id, { role: 'administrator' });
+    project = await createTestProject(owner, await createTestStrategy(owner));
+  });
+
+  const actionDue = async (dueDate: Date): Promise<Action> => {
+    const action = await createTestAction(owner, project);
+    await storage.updateAction(action.id, { dueDate });
+    await storage.createActionPeopleAssignment({ actionId: action.id, userId: owner.id, assignedBy: owner.id, organizationId: owner.organizationId });
+    return (await storage.getAction(action.id))!;
+  };
+
+  const reminderNotifications = async (action: Action) =>
+    (await storage.getNotificationsByUser(owner.id)).filter(n => n.relatedEntityId === action.id);
+
+  const ledgerFor = async (action: Action) =>
+    Object.fromEntries((await storage.getReminderLedgerEntries('action', [action.id])).map(e => [e.reminderKey, e.status]));
+
+  test('a reminder can only be claimed once per due date', async () => {
+    const entry = { entityType: 'action', entityId: 'claimed-action', reminderKey: 'due_7', dueDate: new Date('2026-06-15'), status: 'sent' as const };
+    assert.equal(await storage.claimReminder(entry), true);
+    assert.equal(await storage.claimReminder({ ...entry, status: 'skipped' }), false);
+    // A new due date starts over
+    assert.equal(await storage.claimReminder({ ...entry, dueDate: new Date('2026-07-15') }), true);
+  });
+
+  test('a tick after an outage sends the current window once and records the missed ones as skipped', async () => {
+    const action = await actionDue(daysFrom(new Date(), -10));
+
+    await checkDueDateNotifications();
+    assert.deepEqual(await ledgerFor(action), {
+      due_14: 'skipped', due_7: 'skipped', due_1: 'skipped', overdue_1: 'skipped', overdue_7: 'sent',
+    });
+    const [notification] = await reminderNotifications(action);
+    assert.match(notification.message, /10 days/);
+
+    await checkDueDateNotifications();
+    assert.equal((await reminderNotifications(action)).length, 1);
+  });
+
+  test('long-settled due dates are left alone', async () => {
+    const action = await actionDue(daysFrom(new Date(), -400));
+    await checkDueDateNotifications();
+    assert.deepEqual(await ledgerFor(action), {});
+    assert.equal((await reminderNotifications(action)).length, 0);
+  });
+
+  test('moving the due date starts a new set of reminders', async () => {
+    const action = await actionDue(daysFrom(new Date(), 5.5));
+    await checkDueDateNotifications();
+    assert.equal((await ledgerFor(action)).due_7, 'sent');
+
+    await storage.updateAction(action.id, { dueDate: daysFrom(new Date(), 6.5) });
+    await checkDueDateNotifications();
+    assert.equal((await reminderNotifications(action)).length, 2);
+  });
+});
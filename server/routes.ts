@@ -1,13 +1,26 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertStrategySchema, insertProjectSchema, insertActionSchema, insertActionDocumentSchema, insertActionChecklistItemSchema, insertBarrierSchema, insertDependencySchema, insertTemplateTypeSchema, insertExecutiveGoalSchema, insertTeamTagSchema, insertUserStrategyAssignmentSchema, insertProjectResourceAssignmentSchema, insertActionPeopleAssignmentSchema, insertPtoEntrySchema, insertHolidaySchema, insertDecisionSchema, insertDecisionRaciSchema, insertWorkstreamSchema, insertPhaseSchema, insertWorkstreamDependencySchema, insertGateCriteriaSchema } from "@shared/schema";
+import { insertStrategySchema, insertProjectSchema, insertActionSchema, insertActionDocumentSchema, insertActionChecklistItemSchema, insertBarrierSchema, insertDependencySchema, insertTemplateTypeSchema, insertExecutiveGoalSchema, insertTeamTagSchema, insertUserStrategyAssignmentSchema, insertProjectResourceAssignmentSchema, insertActionPeopleAssignmentSchema, insertPtoEntrySchema, insertHolidaySchema, insertDecisionSchema, insertDecisionRaciSchema, insertWorkstreamSchema, insertPhaseSchema, insertWorkstreamDependencySchema, insertGateCriteriaSchema, insertFrameworkDocumentSchema, insertMeasurementSchema, insertScheduleBaselineSchema, insertStrategyScenarioSchema, updateScenarioProjectSchema, updateScenarioActionSchema, importEntityTypes, ORGANIZATION_ARCHIVE_FORMAT, ORGANIZATION_ARCHIVE_VERSION, type User, type Strategy, type StrategyScenario, type ScenarioPlan, insertCommentSchema, updateCommentSchema, extractMentionedUserIds, type Comment, type CommentEntityType, updateNotificationPreferencesSchema, type NotificationChannel, reminderOffsetsSchema, parseReminderOffsets, DEFAULT_REMINDER_DUE_OFFSETS, DEFAULT_REMINDER_OVERDUE_OFFSETS, type ReminderOffsets, projectWakeUpActions, webhookEvents, insertWebhookSubscriptionSchema, updateWebhookSubscriptionSchema, type WebhookSubscription, insertEscalationRuleSchema, updateEscalationRuleSchema, type EscalationRule, insertChatChannelSchema, updateChatChannelSchema, type ChatChannel, notificationInboxStatuses, type NotificationInboxStatus, type NotificationFilter, notificationTargetSchema, snoozeNotificationsSchema, insertEntityFollowSchema, followableEntityTypes, type FollowableEntityType, twoFactorPolicySchema, upsertOidcConfigurationSchema, ssoRoles, type OidcConfiguration, apiTokenScopes, createApiTokenSchema, type ApiToken, strategyRoles, permissionCapabilities, builtInRoles, builtInRoleCapabilities, createCustomRoleSchema, updateCustomRoleSchema, type CustomRole, type FrameworkDocument } from "@shared/schema";
 import { setupAuth, isAuthenticated } from "./jwtAuth";
 import { z, ZodSchema, ZodError } from "zod";
 import { logger } from "./logger";
 import OpenAI from "openai";
-import { notifyActionCompleted, notifyActionAchieved, notifyProjectProgress, notifyProjectStatusChanged, notifyStrategyStatusChanged, notifyReadinessRatingChanged, notifyRiskExposureChanged } from "./notifications";
-import { clearActionNotificationTracking } from "./scheduler";
+import { notifyActionCompleted, notifyActionAchieved, notifyProjectProgress, notifyProjectStatusChanged, notifyStrategyStatusChanged, notifyReadinessRatingChanged, notifyRiskExposureChanged, notifyCommentMention, NotificationTypeLabels, NotificationCategories, getNotificationTypesInCategory, DEFAULT_NOTIFICATION_CHANNEL, PERSONAL_NOTIFICATION_TYPES, type NotificationType } from "./notifications";
+import { materializeNextOccurrence } from "./scheduler";
+import { getOrganization, updateOrganizationRecycleBinRetention, updateOrganizationReminderOffsets, updateOrganizationProjectWakeUpAction, updateOrganizationRequireAdminTotp, getUsersByOrganization, createOrganization, deleteOrganization } from "./pgStorage";
+import { parseSpreadsheet, buildImport, MAX_IMPORT_ROWS } from "./spreadsheetImport";
+import { calculateCriticalPath } from "./criticalPath";
+import { calculateWorkstreamStatus } from "./workstreamStatus";
+import { buildStrategyDigest, generateStrategyDigest, parseDigestContent, DIGEST_PERIOD_MS } from "./strategyDigest";
+import { openEventStream } from "./realtime";
+import { executeEscalationRule, parseEscalationRule, previewEscalationRule } from "./escalations";
+import { maskChatWebhookUrl, sendTestChatMessage } from "./chat";
+import { assertPublicUrl, OutboundUrlError } from "./outboundUrl";
+import { buildSsoAuthorizationUrl, discoverOidcProvider, getSsoRedirectUri, parseEmailDomains, parseRoleMappings, parseTeamTagMappings } from "./oidc";
+import { generateApiToken, grantableApiTokenScopes, parseApiTokenScopes } from "./apiTokens";
+import { getPermissionSummary, getStrategyIdsWithCapability, hasCapability, parseCustomRoleCapabilities } from "./permissions";
+import { emitWebhookEvent, emitLifecycleWebhooks, generateWebhookSecret, parseWebhookEvents, replayWebhookDelivery } from "./webhooks";
 
 // Validation middleware factory
 function validateBody<T>(schema: ZodSchema<T>) {
@@ -42,12 +55,19 @@ const updateUserSchema = z.object({
   lastName: z.string().min(1).max(100).optional(),
   email: z.string().email().max(255).optional(),
   role: z.enum(["administrator", "co_lead", "view", "sme"]).optional(),
+  customRoleId: z.string().nullable().optional(),
   fte: z.number().min(0).max(10).optional(),
   salary: z.number().min(0).optional()
 }).strict();
 
 const strategyAssignmentSchema = z.object({
-  strategyId: z.string().min(1, "Strategy ID is required")
+  strategyId: z.string().min(1, "Strategy ID is required"),
+  role: z.enum(strategyRoles).nullable().optional()
+});
+
+// null clears the override so the user's global role applies on the strategy again
+const strategyAssignmentRoleSchema = z.object({
+  role: z.enum(strategyRoles).nullable()
 });
 
 const resourceAssignmentSchema = z.object({
@@ -291,7 +311,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Only administrators can update user roles
-      if (req.body.role && requestingUser.role !== 'administrator') {
+      if ((req.body.role || req.body.customRoleId !== undefined) && requestingUser.role !== 'administrator') {
         return res.status(403).json({ message: "Forbidden: Only administrators can update user roles" });
       }
       
@@ -311,7 +331,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Cannot modify users from other organizations" });
       }
       
-      const user = await storage.updateUser(req.params.id, req.body);
+      // A custom role brings the role it was cloned from along; choosing a built-in role drops the custom one
+      const updates = { ...req.body };
+      if (updates.customRoleId) {
+        const customRole = await storage.getCustomRole(updates.customRoleId);
+        if (!customRole || customRole.organizationId !== targetUser.organizationId) {
+          return res.status(400).json({ message: "Invalid custom role" });
+        }
+        updates.role = customRole.baseRole;
+      } else if (updates.role) {
+        updates.customRoleId = null;
+      }
+      
+      const user = await storage.updateUser(req.params.id, updates);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
@@ -590,7 +622,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Forbidden: Only administrators can assign strategies" });
       }
 
-      const { strategyId } = req.body;
+      const { strategyId, role } = req.body;
 
       // Verify strategy exists
       const strategy = await storage.getStrategy(strategyId);
@@ -604,7 +636,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
 
-      const assignment = await storage.assignStrategy(req.params.userId, strategyId, requestingUserId);
+      const assignment = await storage.assignStrategy(req.params.userId, strategyId, requestingUserId, role ?? null);
       res.status(201).json(assignment);
     } catch (error) {
       logger.error("Failed to assign strategy", error);
@@ -612,6 +644,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.patch("/api/users/:userId/strategy-assignments/:strategyId", isAuthenticated, validateBody(strategyAssignmentRoleSchema), async (req: any, res) => {
+    try {
+      const requestingUserId = req.user.claims.sub;
+      const requestingUser = await storage.getUser(requestingUserId);
+      
+      // Only administrators can change strategy roles
+      if (requestingUser?.role !== 'administrator') {
+        return res.status(403).json({ message: "Forbidden: Only administrators can change strategy roles" });
+      }
+
+      const user = await storage.getUser(req.params.userId);
+      if (!user || (requestingUser.isSuperAdmin !== 'true' && user.organizationId !== requestingUser.organizationId)) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const assignment = await storage.updateStrategyAssignmentRole(req.params.userId, req.params.strategyId, req.body.role);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+
+      res.json(assignment);
+    } catch (error) {
+      logger.error("Failed to update strategy role", error);
+      res.status(500).json({ message: "Failed to update strategy role" });
+    }
+  });
+
   app.delete("/api/users/:userId/strategy-assignments/:strategyId", isAuthenticated, async (req: any, res) => {
     try {
       const requestingUserId = req.user.claims.sub;
@@ -847,6 +906,7 @@ Respond ONLY with a valid JSON object in this exact format:
         organizationId: user.organizationId,
         createdBy: userId,
       });
+      await emitLifecycleWebhooks('strategy', undefined, strategy);
       res.status(201).json(strategy);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -896,6 +956,9 @@ Respond ONLY with a valid JSON object in this exact format:
       
       // Send notifications for significant changes
       if (oldStrategy) {
+        await storage.recordChangeHistory('strategy', oldStrategy, strategy, userId);
+        await emitLifecycleWebhooks('strategy', oldStrategy, strategy);
+
         // Get all administrators to notify
         const allUsers = await storage.getAllUsers();
         const executiveUserIds = allUsers
@@ -997,11 +1060,12 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(403).json({ message: "Forbidden: You do not have access to this strategy" });
       }
       
-      const deleted = await storage.deleteStrategy(req.params.id);
+      // Moves the strategy and its projects/actions to the recycle bin; purge happens later
+      const deleted = await storage.softDeleteStrategy(req.params.id, userId);
       if (!deleted) {
         return res.status(404).json({ message: "Strategy not found" });
       }
-      res.json({ message: "Strategy deleted successfully" });
+      res.json({ message: "Strategy moved to recycle bin" });
     } catch (error) {
       logger.error("Failed to delete strategy", error);
       res.status(500).json({ message: "Failed to delete strategy" });
@@ -1034,6 +1098,10 @@ Respond ONLY with a valid JSON object in this exact format:
         status: 'Completed',
         completionDate: new Date(),
       });
+      if (updatedStrategy) {
+        await storage.recordChangeHistory('strategy', strategy, updatedStrategy, userId);
+        await emitLifecycleWebhooks('strategy', strategy, updatedStrategy);
+      }
 
       // Remove all dependencies involving this strategy's projects and actions
       const strategyProjects = await storage.getProjectsByStrategy(req.params.id);
@@ -1075,10 +1143,14 @@ Respond ONLY with a valid JSON object in this exact format:
       }
 
       // Update strategy status to Archived
-      await storage.updateStrategy(req.params.id, {
+      const archivedStrategy = await storage.updateStrategy(req.params.id, {
         ...strategy,
         status: 'Archived',
       });
+      if (archivedStrategy) {
+        await storage.recordChangeHistory('strategy', strategy, archivedStrategy, userId);
+        await emitLifecycleWebhooks('strategy', strategy, archivedStrategy);
+      }
 
       // Cascade archive to all projects (use organization-scoped query for defense-in-depth)
       const projects = user.organizationId 
@@ -1213,9 +1285,8 @@ Respond ONLY with a valid JSON object in this exact format:
         }
       }
       
-      // View role cannot create projects
-      if (user.role === 'view') {
-        return res.status(403).json({ message: "Forbidden: View users cannot create projects" });
+      if (!(await hasCapability(user, 'create_project', validatedData.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot create projects" });
       }
       
       // Validate date range
@@ -1235,6 +1306,7 @@ Respond ONLY with a valid JSON object in this exact format:
         ...validatedData,
         organizationId: projectOrgId,
       });
+      await emitLifecycleWebhooks('project', undefined, project);
 
       // Recalculate parent strategy progress when a project is created
       await storage.recalculateStrategyProgress(project.strategyId);
@@ -1281,11 +1353,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(404).json({ message: "User not found" });
       }
       
-      // View role cannot update projects
-      if (user.role === 'view') {
-        return res.status(403).json({ message: "Forbidden: View users cannot update projects" });
-      }
-      
       // Get the old project to compare changes
       const oldProject = await storage.getProject(req.params.id);
       if (!oldProject) {
@@ -1304,6 +1371,10 @@ Respond ONLY with a valid JSON object in this exact format:
           return res.status(403).json({ message: "Forbidden: You do not have access to this strategy" });
         }
       }
+
+      if (!(await hasCapability(user, 'edit_project', oldProject.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot update projects" });
+      }
       
       // Process the update data - convert date strings to Date objects
       const updateData = { ...req.body };
@@ -1334,6 +1405,9 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(404).json({ message: "Project not found" });
       }
 
+      await storage.recordChangeHistory('project', oldProject, project, userId);
+      await emitLifecycleWebhooks('project', oldProject, project);
+
       // Send notifications for progress milestones and status changes
       if (oldProject) {
         const assignedUserIds = JSON.parse(project.accountableLeaders);
@@ -1412,11 +1486,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(404).json({ message: "User not found" });
       }
       
-      // View role cannot delete projects
-      if (user.role === 'view') {
-        return res.status(403).json({ message: "Forbidden: View users cannot delete projects" });
-      }
-      
       // Get project details before deleting to know which strategy to recalculate
       const project = await storage.getProject(req.params.id);
       if (!project) {
@@ -1435,8 +1504,12 @@ Respond ONLY with a valid JSON object in this exact format:
           return res.status(403).json({ message: "Forbidden: You do not have access to this strategy" });
         }
       }
+
+      if (!(await hasCapability(user, 'delete_project', project.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot delete projects" });
+      }
       
-      const deleted = await storage.deleteProject(req.params.id);
+      const deleted = await storage.softDeleteProject(req.params.id, userId);
       if (!deleted) {
         return res.status(404).json({ message: "Project not found" });
       }
@@ -1491,11 +1564,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(404).json({ message: "User not found" });
       }
 
-      // View role cannot archive projects
-      if (user.role === 'view') {
-        return res.status(403).json({ message: "Forbidden: View users cannot archive projects" });
-      }
-
       const project = await storage.getProject(req.params.id);
       if (!project) {
         return res.status(404).json({ message: "Project not found" });
@@ -1514,6 +1582,10 @@ Respond ONLY with a valid JSON object in this exact format:
         }
       }
 
+      if (!(await hasCapability(user, 'edit_project', project.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot archive projects" });
+      }
+
       const { reason, wakeUpDate } = req.body;
       const archivedProject = await storage.archiveProject(
         req.params.id,
@@ -1526,6 +1598,9 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(500).json({ message: "Failed to archive project" });
       }
 
+      // A new archive starts a new wake-up, even if the date matches an earlier one
+      await storage.deleteReminderLedgerEntries('project_wake_up', archivedProject.id);
+
       // Recalculate strategy progress
       await storage.recalculateStrategyProgress(archivedProject.strategyId);
 
@@ -1545,11 +1620,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(404).json({ message: "User not found" });
       }
 
-      // View role cannot unarchive projects
-      if (user.role === 'view') {
-        return res.status(403).json({ message: "Forbidden: View users cannot restore projects" });
-      }
-
       const project = await storage.getProject(req.params.id);
       if (!project) {
         return res.status(404).json({ message: "Project not found" });
@@ -1568,6 +1638,14 @@ Respond ONLY with a valid JSON object in this exact format:
         }
       }
 
+      if (!(await hasCapability(user, 'edit_project', project.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot restore projects" });
+      }
+
+      if (project.isArchived !== 'true') {
+        return res.status(400).json({ message: "Project is not archived" });
+      }
+
       const restoredProject = await storage.unarchiveProject(req.params.id, userId);
 
       if (!restoredProject) {
@@ -1593,11 +1671,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(404).json({ message: "User not found" });
       }
 
-      // View role cannot copy projects
-      if (user.role === 'view') {
-        return res.status(403).json({ message: "Forbidden: View users cannot copy projects" });
-      }
-
       const project = await storage.getProject(req.params.id);
       if (!project) {
         return res.status(404).json({ message: "Project not found" });
@@ -1616,6 +1689,10 @@ Respond ONLY with a valid JSON object in this exact format:
         }
       }
 
+      if (!(await hasCapability(user, 'create_project', project.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot copy projects" });
+      }
+
       const { newTitle, asTemplate } = req.body;
       if (!newTitle) {
         return res.status(400).json({ message: "New title is required" });
@@ -1745,11 +1822,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(404).json({ message: "User not found" });
       }
       
-      // View role cannot create barriers
-      if (user.role === 'view') {
-        return res.status(403).json({ message: "Forbidden: View users cannot create barriers" });
-      }
-      
       const validatedData = insertBarrierSchema.parse(req.body);
       
       // Get the project first to validate access and derive organizationId
@@ -1770,6 +1842,10 @@ Respond ONLY with a valid JSON object in this exact format:
           return res.status(403).json({ message: "Forbidden: You do not have access to this strategy" });
         }
       }
+
+      if (!(await hasCapability(user, 'manage_barriers', project.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot create barriers" });
+      }
       
       // Derive organizationId from the project (security: prevent cross-tenant barriers)
       const barrierData = {
@@ -1779,6 +1855,7 @@ Respond ONLY with a valid JSON object in this exact format:
       };
       
       const barrier = await storage.createBarrier(barrierData);
+      await emitWebhookEvent(barrier.organizationId, 'barrier.raised', barrier);
       
       // Create activity for barrier creation
       await storage.createActivity({
@@ -1808,11 +1885,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(404).json({ message: "User not found" });
       }
       
-      // View role cannot update barriers
-      if (user.role === 'view') {
-        return res.status(403).json({ message: "Forbidden: View users cannot update barriers" });
-      }
-      
       // Get the existing barrier
       const existingBarrier = await storage.getBarrier(req.params.id);
       if (!existingBarrier) {
@@ -1837,6 +1909,10 @@ Respond ONLY with a valid JSON object in this exact format:
           return res.status(403).json({ message: "Forbidden: You do not have access to this strategy" });
         }
       }
+
+      if (!(await hasCapability(user, 'manage_barriers', project.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot update barriers" });
+      }
       
       // Prevent changing projectId, createdBy, and organizationId (security: prevent ownership/tenant transfer)
       const { projectId: _, createdBy: __, organizationId: ___, ...updateData } = req.body;
@@ -1845,6 +1921,12 @@ Respond ONLY with a valid JSON object in this exact format:
       if (!barrier) {
         return res.status(404).json({ message: "Barrier not found" });
       }
+
+      await storage.recordChangeHistory('barrier', existingBarrier, barrier, userId);
+      const isResolved = (status: string) => status === 'resolved' || status === 'closed';
+      if (isResolved(barrier.status) && !isResolved(existingBarrier.status)) {
+        await emitWebhookEvent(barrier.organizationId, 'barrier.resolved', barrier);
+      }
       
       // Create activity for barrier status changes
       if (req.body.status && existingBarrier.status !== req.body.status) {
@@ -1873,11 +1955,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(404).json({ message: "User not found" });
       }
       
-      // View role cannot delete barriers
-      if (user.role === 'view') {
-        return res.status(403).json({ message: "Forbidden: View users cannot delete barriers" });
-      }
-      
       // Get the existing barrier
       const existingBarrier = await storage.getBarrier(req.params.id);
       if (!existingBarrier) {
@@ -1903,6 +1980,10 @@ Respond ONLY with a valid JSON object in this exact format:
         }
       }
 
+      if (!(await hasCapability(user, 'manage_barriers', project.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot delete barriers" });
+      }
+
       const deleted = await storage.deleteBarrier(req.params.id);
       if (!deleted) {
         return res.status(404).json({ message: "Barrier not found" });
@@ -1999,11 +2080,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(404).json({ message: "User not found" });
       }
       
-      // View role cannot create dependencies
-      if (user.role === 'view') {
-        return res.status(403).json({ message: "Forbidden: View users cannot create dependencies" });
-      }
-      
       const validatedData = insertDependencySchema.parse(req.body);
       
       // Get the source item to derive organizationId
@@ -2072,6 +2148,10 @@ Respond ONLY with a valid JSON object in this exact format:
           return res.status(403).json({ message: "Forbidden: You do not have access to the target item's strategy" });
         }
       }
+
+      if (!(await hasCapability(user, 'manage_dependencies', sourceItem.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot create dependencies" });
+      }
       
       // Create dependency with organizationId derived from source item
       const dependencyData = {
@@ -2128,11 +2208,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(404).json({ message: "User not found" });
       }
       
-      // View role cannot delete dependencies
-      if (user.role === 'view') {
-        return res.status(403).json({ message: "Forbidden: View users cannot delete dependencies" });
-      }
-      
       const dependencyId = req.params.id;
       
       // Determine organizationId for filtering (Super Admins see all, regular users see their org only)
@@ -2181,6 +2256,10 @@ Respond ONLY with a valid JSON object in this exact format:
         if (!sourceStrategyId || !assignedStrategyIds.includes(sourceStrategyId)) {
           return res.status(403).json({ message: "Forbidden: You do not have access to this dependency" });
         }
+
+        if (!(await hasCapability(user, 'manage_dependencies', sourceStrategyId))) {
+          return res.status(403).json({ message: "Forbidden: Your role cannot delete dependencies" });
+        }
       }
       
       const success = await storage.deleteDependency(dependencyId);
@@ -2302,12 +2381,10 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(404).json({ message: "User not found" });
       }
       
-      // View role cannot create actions
-      if (user.role === 'view') {
-        return res.status(403).json({ message: "Forbidden: View users cannot create actions" });
-      }
-      
       const validatedData = insertActionSchema.parse(req.body);
+      if (validatedData.recurrenceFrequency && !validatedData.dueDate) {
+        return res.status(400).json({ message: "A recurring action needs a due date" });
+      }
       
       // Check if user has access to the strategy (administrators see all, others need assignment)
       if (user.role !== 'administrator') {
@@ -2316,6 +2393,10 @@ Respond ONLY with a valid JSON object in this exact format:
           return res.status(403).json({ message: "Forbidden: You do not have access to this strategy" });
         }
       }
+
+      if (!(await hasCapability(user, 'create_action', validatedData.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot create actions" });
+      }
       
       let finalData = { ...validatedData, organizationId: user.organizationId };
       if (validatedData.projectId) {
@@ -2326,6 +2407,7 @@ Respond ONLY with a valid JSON object in this exact format:
       }
 
       const action = await storage.createAction(finalData);
+      await emitLifecycleWebhooks('action', undefined, action);
       
       await storage.createActivity({
         type: "action_created",
@@ -2361,11 +2443,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(404).json({ message: "User not found" });
       }
       
-      // View role cannot update actions
-      if (user.role === 'view') {
-        return res.status(403).json({ message: "Forbidden: View users cannot update actions" });
-      }
-      
       // Get the old action to compare status changes
       const oldAction = await storage.getAction(req.params.id);
       if (!oldAction) {
@@ -2388,12 +2465,32 @@ Respond ONLY with a valid JSON object in this exact format:
           return res.status(403).json({ message: "Forbidden: You do not have access to this strategy" });
         }
       }
+
+      if (!(await hasCapability(user, 'edit_action', oldAction.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot update actions" });
+      }
       
       // Process the update data - support partial updates like the project endpoint
       const updateData = { ...req.body };
       if (updateData.dueDate) {
         updateData.dueDate = new Date(updateData.dueDate);
       }
+      if (updateData.recurrenceUntil) {
+        updateData.recurrenceUntil = new Date(updateData.recurrenceUntil);
+      }
+
+      const recurrenceFrequency = updateData.recurrenceFrequency !== undefined ? updateData.recurrenceFrequency : oldAction.recurrenceFrequency;
+      if (recurrenceFrequency) {
+        const dueDate = updateData.dueDate !== undefined ? updateData.dueDate : oldAction.dueDate;
+        if (!dueDate) {
+          return res.status(400).json({ message: "A recurring action needs a due date" });
+        }
+        // Turning recurrence on starts a new series with this action as its first occurrence
+        if (!oldAction.recurrenceSeriesId) {
+          updateData.recurrenceSeriesId = oldAction.id;
+          updateData.recurrenceIndex = 1;
+        }
+      }
       
       if (updateData.projectId && updateData.projectId !== oldAction.projectId) {
         const newProject = await storage.getProject(updateData.projectId);
@@ -2402,14 +2499,14 @@ Respond ONLY with a valid JSON object in this exact format:
         }
       }
       
-      // Check if due date changed - if so, clear notification tracking and delete stale notifications
+      // Check if due date changed - if so, clear the reminder ledger and delete stale notifications
       // Normalize dates to compare: convert to timestamps or treat null/undefined as equivalent
       const oldDueTime = oldAction.dueDate ? new Date(oldAction.dueDate).getTime() : null;
       const newDueTime = updateData.dueDate ? new Date(updateData.dueDate).getTime() : null;
       const dueDateChanged = oldDueTime !== newDueTime;
       if (dueDateChanged) {
-        // Clear in-memory notification tracking so scheduler can send fresh notifications
-        clearActionNotificationTracking(req.params.id);
+        // Forget reminders sent for the old due date so the scheduler starts over for the new one
+        await storage.deleteReminderLedgerEntries('action', req.params.id);
         
         // Delete existing due-date notifications for this action from the database
         const deletedCount = await storage.deleteDueDateNotificationsForAction(req.params.id);
@@ -2430,6 +2527,9 @@ Respond ONLY with a valid JSON object in this exact format:
       if (!action) {
         return res.status(404).json({ message: "Action not found" });
       }
+
+      await storage.recordChangeHistory('action', oldAction, action, userId);
+      await emitLifecycleWebhooks('action', oldAction, action);
       
       await storage.createActivity({
         type: "action_updated", 
@@ -2458,6 +2558,11 @@ Respond ONLY with a valid JSON object in this exact format:
         
         // Send the notification
         await notifyActionAchieved(action.id, action.title, assignedUserIds);
+
+        // Completing a recurring action brings its next occurrence forward without waiting for the scheduler
+        if (action.recurrenceFrequency) {
+          await materializeNextOccurrence(action);
+        }
       }
 
       // Recalculate progress: action -> project -> strategy
@@ -2482,11 +2587,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(404).json({ message: "User not found" });
       }
       
-      // View role cannot delete actions
-      if (user.role === 'view') {
-        return res.status(403).json({ message: "Forbidden: View users cannot delete actions" });
-      }
-      
       // Get action details before deleting to know which project/strategy to recalculate
       const action = await storage.getAction(req.params.id);
       if (!action) {
@@ -2509,8 +2609,12 @@ Respond ONLY with a valid JSON object in this exact format:
           return res.status(403).json({ message: "Forbidden: You do not have access to this strategy" });
         }
       }
+
+      if (!(await hasCapability(user, 'delete_action', action.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot delete actions" });
+      }
       
-      const deleted = await storage.deleteAction(req.params.id);
+      const deleted = await storage.softDeleteAction(req.params.id, userId);
       if (!deleted) {
         return res.status(404).json({ message: "Action not found" });
       }
@@ -2548,10 +2652,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(404).json({ message: "User not found" });
       }
       
-      if (user.role === 'view') {
-        return res.status(403).json({ message: "Forbidden: View users cannot create documents" });
-      }
-      
       const action = await storage.getAction(req.params.actionId);
       if (!action) {
         return res.status(404).json({ message: "Action not found" });
@@ -2563,6 +2663,10 @@ Respond ONLY with a valid JSON object in this exact format:
           return res.status(403).json({ message: "Forbidden: You do not have access to this strategy" });
         }
       }
+
+      if (!(await hasCapability(user, 'edit_action', action.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot create documents" });
+      }
       
       const validatedData = insertActionDocumentSchema.parse({
         ...req.body,
@@ -2588,10 +2692,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(404).json({ message: "User not found" });
       }
       
-      if (user.role === 'view') {
-        return res.status(403).json({ message: "Forbidden: View users cannot update documents" });
-      }
-      
       const action = await storage.getAction(req.params.actionId);
       if (!action) {
         return res.status(404).json({ message: "Action not found" });
@@ -2603,6 +2703,10 @@ Respond ONLY with a valid JSON object in this exact format:
           return res.status(403).json({ message: "Forbidden: You do not have access to this strategy" });
         }
       }
+
+      if (!(await hasCapability(user, 'edit_action', action.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot update documents" });
+      }
       
       const validatedData = insertActionDocumentSchema.partial().parse(req.body);
       const document = await storage.updateActionDocument(req.params.id, validatedData);
@@ -2628,10 +2732,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(404).json({ message: "User not found" });
       }
       
-      if (user.role === 'view') {
-        return res.status(403).json({ message: "Forbidden: View users cannot delete documents" });
-      }
-      
       const action = await storage.getAction(req.params.actionId);
       if (!action) {
         return res.status(404).json({ message: "Action not found" });
@@ -2643,6 +2743,10 @@ Respond ONLY with a valid JSON object in this exact format:
           return res.status(403).json({ message: "Forbidden: You do not have access to this strategy" });
         }
       }
+
+      if (!(await hasCapability(user, 'edit_action', action.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot delete documents" });
+      }
       
       const deleted = await storage.deleteActionDocument(req.params.id);
       if (!deleted) {
@@ -2686,10 +2790,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(404).json({ message: "User not found" });
       }
       
-      if (user.role === 'view') {
-        return res.status(403).json({ message: "Forbidden: View users cannot create checklist items" });
-      }
-      
       const action = await storage.getAction(req.params.actionId);
       if (!action) {
         return res.status(404).json({ message: "Action not found" });
@@ -2701,6 +2801,10 @@ Respond ONLY with a valid JSON object in this exact format:
           return res.status(403).json({ message: "Forbidden: You do not have access to this strategy" });
         }
       }
+
+      if (!(await hasCapability(user, 'edit_action', action.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot create checklist items" });
+      }
       
       // Validate body without actionId, then merge actionId from URL params
       const validatedBody = insertActionChecklistItemSchema.parse(req.body);
@@ -2727,10 +2831,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(404).json({ message: "User not found" });
       }
       
-      if (user.role === 'view') {
-        return res.status(403).json({ message: "Forbidden: View users cannot update checklist items" });
-      }
-      
       const action = await storage.getAction(req.params.actionId);
       if (!action) {
         return res.status(404).json({ message: "Action not found" });
@@ -2742,6 +2842,10 @@ Respond ONLY with a valid JSON object in this exact format:
           return res.status(403).json({ message: "Forbidden: You do not have access to this strategy" });
         }
       }
+
+      if (!(await hasCapability(user, 'edit_action', action.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot update checklist items" });
+      }
       
       // Convert boolean isCompleted to string before validation (database stores as text 'true'/'false')
       const bodyData = {
@@ -2773,10 +2877,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(404).json({ message: "User not found" });
       }
       
-      if (user.role === 'view') {
-        return res.status(403).json({ message: "Forbidden: View users cannot delete checklist items" });
-      }
-      
       const action = await storage.getAction(req.params.actionId);
       if (!action) {
         return res.status(404).json({ message: "Action not found" });
@@ -2788,6 +2888,10 @@ Respond ONLY with a valid JSON object in this exact format:
           return res.status(403).json({ message: "Forbidden: You do not have access to this strategy" });
         }
       }
+
+      if (!(await hasCapability(user, 'edit_action', action.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot delete checklist items" });
+      }
       
       const deleted = await storage.deleteActionChecklistItem(req.params.id);
       if (!deleted) {
@@ -2800,7 +2904,33 @@ Respond ONLY with a valid JSON object in this exact format:
     }
   });
 
+  // Real-time event stream: entity changes in the user's organization and the user's new notifications
+  app.get("/api/events", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+      if (!user.organizationId) {
+        return res.status(400).json({ message: "User has no organization" });
+      }
+
+      const clientId = typeof req.query.clientId === 'string' ? req.query.clientId.slice(0, 64) : null;
+      openEventStream(res, user.organizationId, userId, clientId);
+    } catch (error) {
+      logger.error("Failed to open event stream", error);
+      res.status(500).json({ message: "Failed to open event stream" });
+    }
+  });
+
   // Notification routes
+  // The inbox: a page of notifications (or of records with notifications, when grouped) plus unread counts
+  // per category for the filter chips. Snoozed notifications only appear under status=snoozed.
   app.get("/api/notifications", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user?.claims?.sub;
@@ -2812,18 +2942,40 @@ Respond ONLY with a valid JSON object in this exact format:
       if (!user) {
         return res.status(401).json({ message: "User not found" });
       }
-      
-      let notifications = await storage.getNotificationsByUser(userId);
-      
-      // Filter by assigned strategies for non-administrators
-      if (user.role !== 'administrator') {
-        const assignedStrategyIds = await storage.getUserAssignedStrategyIds(userId);
-        notifications = notifications.filter((n: any) => 
-          n.strategyId && assignedStrategyIds.includes(n.strategyId)
-        );
+
+      const status = (req.query.status ?? 'all') as NotificationInboxStatus;
+      if (!notificationInboxStatuses.includes(status)) {
+        return res.status(400).json({ message: `Status must be one of: ${notificationInboxStatuses.join(', ')}` });
       }
-      
-      res.json(notifications);
+      const category = typeof req.query.category === 'string' && req.query.category ? req.query.category : undefined;
+      if (category && !NotificationCategories.includes(category)) {
+        return res.status(400).json({ message: "Unknown notification category" });
+      }
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 20, 1), 100);
+      const offset = Math.max(parseInt(req.query.offset as string, 10) || 0, 0);
+
+      // Notifications are addressed to the user, so every one of them is theirs to see
+      const asOf = new Date();
+      const filter: NotificationFilter = { status, types: category ? getNotificationTypesInCategory(category) : undefined, asOf };
+      const [unreadByType, nextSnoozeEndsAt] = await Promise.all([
+        storage.getUnreadNotificationCounts(userId, asOf),
+        storage.getNextSnoozeEnd(userId, asOf),
+      ]);
+      const unreadByCategory: Record<string, number> = {};
+      let unreadCount = 0;
+      for (const [type, count] of Object.entries(unreadByType)) {
+        const group = NotificationTypeLabels[type as NotificationType]?.group;
+        if (group) unreadByCategory[group] = (unreadByCategory[group] ?? 0) + count;
+        unreadCount += count;
+      }
+      const summary = { unreadCount, unreadByCategory, categories: NotificationCategories, nextSnoozeEndsAt };
+
+      if (req.query.groupBy === 'entity') {
+        const { groups, total } = await storage.getNotificationGroups(userId, filter, limit, offset);
+        return res.json({ groups, total, hasMore: offset + groups.length < total, ...summary });
+      }
+      const { items, total } = await storage.getNotificationPage(userId, filter, limit, offset);
+      res.json({ items, total, hasMore: offset + items.length < total, ...summary });
     } catch (error) {
       logger.error("Failed to fetch notifications", error);
       res.status(500).json({ message: "Failed to fetch notifications" });
@@ -2893,6 +3045,38 @@ Respond ONLY with a valid JSON object in this exact format:
     }
   });
 
+  // Mark the listed notifications, or every notification about one record, as read
+  app.patch("/api/notifications/mark-read", isAuthenticated, validateBody(notificationTargetSchema), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const updated = await storage.markNotificationsRead(userId, req.body);
+      res.json({ updated });
+    } catch (error) {
+      logger.error("Failed to mark notifications as read", error);
+      res.status(500).json({ message: "Failed to mark notifications as read" });
+    }
+  });
+
+  app.patch("/api/notifications/snooze", isAuthenticated, validateBody(snoozeNotificationsSchema), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const { until, ...target } = req.body;
+      const updated = await storage.snoozeNotifications(userId, target, until);
+      res.json({ updated });
+    } catch (error) {
+      logger.error("Failed to snooze notifications", error);
+      res.status(500).json({ message: "Failed to snooze notifications" });
+    }
+  });
+
   app.delete("/api/notifications/:id", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user?.claims?.sub;
@@ -2921,6 +3105,48 @@ Respond ONLY with a valid JSON object in this exact format:
     }
   });
 
+  // Notification preference routes: one channel per notification type, per user
+  app.get("/api/notification-preferences", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const saved = await storage.getNotificationPreferences(userId);
+      const types = (Object.keys(NotificationTypeLabels) as NotificationType[]).map(type => ({ type, ...NotificationTypeLabels[type] }));
+      const preferences = Object.fromEntries(types.map(({ type }) => [
+        type,
+        saved.find(p => p.notificationType === type)?.channel ?? DEFAULT_NOTIFICATION_CHANNEL,
+      ]));
+      res.json({ types, preferences, emailConfigured: !!(process.env.SMTP_HOST || process.env.RESEND_API_KEY || process.env.REPLIT_CONNECTORS_HOSTNAME) });
+    } catch (error) {
+      logger.error("Failed to fetch notification preferences", error);
+      res.status(500).json({ message: "Failed to fetch notification preferences" });
+    }
+  });
+
+  app.put("/api/notification-preferences", isAuthenticated, validateBody(updateNotificationPreferencesSchema), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const preferences: Record<string, NotificationChannel> = req.body.preferences;
+      const unknown = Object.keys(preferences).filter(type => !(type in NotificationTypeLabels));
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Unknown notification type: ${unknown.join(", ")}` });
+      }
+
+      await storage.setNotificationPreferences(userId, preferences);
+      res.json({ message: "Notification preferences saved" });
+    } catch (error) {
+      logger.error("Failed to save notification preferences", error);
+      res.status(500).json({ message: "Failed to save notification preferences" });
+    }
+  });
+
   // Template Type routes
   app.get("/api/template-types", isAuthenticated, async (req: any, res) => {
     try {
@@ -3397,11 +3623,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(403).json({ message: "User must belong to an organization" });
       }
 
-      // Administrators and co-leads can assign team tags
-      if (user.role !== 'administrator' && user.role !== 'co_lead') {
-        return res.status(403).json({ message: "Only administrators and co-leads can assign team tags" });
-      }
-
       const project = await storage.getProject(req.params.id);
       if (!project) {
         return res.status(404).json({ message: "Project not found" });
@@ -3411,6 +3632,10 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(403).json({ message: "Cannot update projects from other organizations" });
       }
 
+      if (!(await hasCapability(user, 'edit_project', project.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot assign team tags" });
+      }
+
       const { teamTagIds } = req.body;
       if (!Array.isArray(teamTagIds)) {
         return res.status(400).json({ message: "teamTagIds must be an array" });
@@ -3505,11 +3730,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(403).json({ message: "User must belong to an organization" });
       }
 
-      // Only administrators and co-leads can assign resources
-      if (user.role !== 'administrator' && user.role !== 'co_lead') {
-        return res.status(403).json({ message: "Only administrators and co-leads can assign resources" });
-      }
-
       const project = await storage.getProject(req.params.id);
       if (!project) {
         return res.status(404).json({ message: "Project not found" });
@@ -3519,6 +3739,10 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(403).json({ message: "Cannot modify projects from other organizations" });
       }
 
+      if (!(await hasCapability(user, 'manage_resources', project.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot assign resources" });
+      }
+
       const { assignedUserId, hoursPerWeek } = req.body;
       if (!assignedUserId) {
         return res.status(400).json({ message: "assignedUserId is required" });
@@ -3558,11 +3782,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(403).json({ message: "User must belong to an organization" });
       }
 
-      // Only administrators and co-leads can remove resources
-      if (user.role !== 'administrator' && user.role !== 'co_lead') {
-        return res.status(403).json({ message: "Only administrators and co-leads can remove resources" });
-      }
-
       const project = await storage.getProject(req.params.projectId);
       if (!project) {
         return res.status(404).json({ message: "Project not found" });
@@ -3572,6 +3791,10 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(403).json({ message: "Cannot modify projects from other organizations" });
       }
 
+      if (!(await hasCapability(user, 'manage_resources', project.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot remove resources" });
+      }
+
       await storage.deleteProjectResourceAssignment(req.params.projectId, req.params.userId);
       res.json({ success: true });
     } catch (error) {
@@ -3644,11 +3867,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(403).json({ message: "User must belong to an organization" });
       }
 
-      // Only administrators and co-leads can assign people
-      if (user.role !== 'administrator' && user.role !== 'co_lead') {
-        return res.status(403).json({ message: "Only administrators and co-leads can assign people" });
-      }
-
       const action = await storage.getAction(req.params.id);
       if (!action) {
         return res.status(404).json({ message: "Action not found" });
@@ -3658,6 +3876,10 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(403).json({ message: "Cannot modify actions from other organizations" });
       }
 
+      if (!(await hasCapability(user, 'edit_action', action.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot assign people" });
+      }
+
       const { assignedUserId } = req.body;
       if (!assignedUserId) {
         return res.status(400).json({ message: "assignedUserId is required" });
@@ -3699,11 +3921,6 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(403).json({ message: "User must belong to an organization" });
       }
 
-      // Only administrators and co-leads can remove people
-      if (user.role !== 'administrator' && user.role !== 'co_lead') {
-        return res.status(403).json({ message: "Only administrators and co-leads can remove people" });
-      }
-
       const action = await storage.getAction(req.params.id);
       if (!action) {
         return res.status(404).json({ message: "Action not found" });
@@ -3713,6 +3930,10 @@ Respond ONLY with a valid JSON object in this exact format:
         return res.status(403).json({ message: "Cannot modify actions from other organizations" });
       }
 
+      if (!(await hasCapability(user, 'edit_action', action.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot remove people" });
+      }
+
       await storage.deleteActionPeopleAssignment(req.params.id, req.params.userId);
       res.json({ success: true });
     } catch (error) {
@@ -4240,12 +4461,12 @@ Respond ONLY with a valid JSON object in this exact format:
       const user = await storage.getUser(userId);
       if (!user) return res.status(401).json({ message: "User not found" });
       if (!user.organizationId) return res.status(400).json({ message: "User has no organization" });
-      if (user.role === 'sme' || user.role === 'view') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
 
       const { raciAssignments, ...decisionData } = req.body;
       const parsed = insertDecisionSchema.parse(decisionData);
+      if (!(await hasCapability(user, 'decide_decision', parsed.strategyId))) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
       const decision = await storage.createDecision({
         ...parsed,
         createdBy: userId,
@@ -4258,6 +4479,9 @@ Respond ONLY with a valid JSON object in this exact format:
 
       const finalDecision = await storage.getDecision(decision.id);
       const finalRaci = await storage.getDecisionRaciAssignments(decision.id);
+      if (decision.status === 'decided') {
+        await emitWebhookEvent(decision.organizationId, 'decision.decided', { ...finalDecision, raciAssignments: finalRaci });
+      }
       res.status(201).json({ ...finalDecision, raciAssignments: finalRaci });
     } catch (error) {
       if (error instanceof ZodError) {
@@ -4274,24 +4498,30 @@ Respond ONLY with a valid JSON object in this exact format:
       if (!userId) return res.status(401).json({ message: "User not authenticated" });
       const user = await storage.getUser(userId);
       if (!user) return res.status(401).json({ message: "User not found" });
-      if (user.role === 'sme' || user.role === 'view') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
 
       const existing = await storage.getDecision(req.params.id);
       if (!existing) return res.status(404).json({ message: "Decision not found" });
       if (user.isSuperAdmin !== 'true' && user.organizationId !== existing.organizationId) {
         return res.status(403).json({ message: "Access denied" });
       }
+      if (!(await hasCapability(user, 'decide_decision', existing.strategyId))) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
 
       const { raciAssignments, ...updates } = req.body;
       const decision = await storage.updateDecision(req.params.id, updates);
+      if (decision) {
+        await storage.recordChangeHistory('decision', existing, decision, userId);
+      }
 
       if (raciAssignments && Array.isArray(raciAssignments)) {
         await storage.setDecisionRaciAssignments(req.params.id, raciAssignments);
       }
 
       const finalRaci = await storage.getDecisionRaciAssignments(req.params.id);
+      if (decision && decision.status === 'decided' && existing.status !== 'decided') {
+        await emitWebhookEvent(decision.organizationId, 'decision.decided', { ...decision, raciAssignments: finalRaci });
+      }
       res.json({ ...decision, raciAssignments: finalRaci });
     } catch (error) {
       logger.error("Failed to update decision", error);
@@ -4377,9 +4607,6 @@ Respond ONLY with a valid JSON object in this exact format:
       const user = await storage.getUser(userId);
       if (!user) return res.status(401).json({ message: "User not found" });
       if (!user.organizationId) return res.status(400).json({ message: "User has no organization" });
-      if (user.role !== 'administrator' && user.role !== 'co_lead' && user.isSuperAdmin !== 'true') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
 
       const parsed = insertWorkstreamSchema.parse(req.body);
       const strategy = await storage.getStrategy(parsed.strategyId);
@@ -4387,6 +4614,9 @@ Respond ONLY with a valid JSON object in this exact format:
       if (user.isSuperAdmin !== 'true' && user.organizationId !== strategy.organizationId) {
         return res.status(403).json({ message: "Access denied" });
       }
+      if (user.isSuperAdmin !== 'true' && !(await hasCapability(user, 'manage_workstreams', parsed.strategyId))) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
 
       const workstream = await storage.createWorkstream({
         ...parsed,
@@ -4425,15 +4655,15 @@ Respond ONLY with a valid JSON object in this exact format:
       if (!userId) return res.status(401).json({ message: "User not authenticated" });
       const user = await storage.getUser(userId);
       if (!user) return res.status(401).json({ message: "User not found" });
-      if (user.role !== 'administrator' && user.role !== 'co_lead' && user.isSuperAdmin !== 'true') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
 
       const existing = await storage.getWorkstream(req.params.id);
       if (!existing) return res.status(404).json({ message: "Workstream not found" });
       if (user.isSuperAdmin !== 'true' && user.organizationId !== existing.organizationId) {
         return res.status(403).json({ message: "Access denied" });
       }
+      if (user.isSuperAdmin !== 'true' && !(await hasCapability(user, 'manage_workstreams', existing.strategyId))) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
 
       const workstream = await storage.updateWorkstream(req.params.id, req.body);
 
@@ -4704,9 +4934,6 @@ Respond ONLY with a valid JSON object in this exact format:
       const user = await storage.getUser(userId);
       if (!user) return res.status(401).json({ message: "User not found" });
       if (!user.organizationId) return res.status(400).json({ message: "User has no organization" });
-      if (user.role !== 'administrator' && user.role !== 'co_lead' && user.isSuperAdmin !== 'true') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
 
       const { name, workstreamId, phaseId, ...rest } = req.body;
 
@@ -4715,6 +4942,9 @@ Respond ONLY with a valid JSON object in this exact format:
       if (user.isSuperAdmin !== 'true' && user.organizationId !== workstream.organizationId) {
         return res.status(403).json({ message: "Access denied" });
       }
+      if (user.isSuperAdmin !== 'true' && !(await hasCapability(user, 'manage_workstreams', workstream.strategyId))) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
 
       const strategy = await storage.getStrategy(workstream.strategyId);
       const action = await storage.createAction({
@@ -4752,21 +4982,25 @@ Respond ONLY with a valid JSON object in this exact format:
       if (!userId) return res.status(401).json({ message: "User not authenticated" });
       const user = await storage.getUser(userId);
       if (!user) return res.status(401).json({ message: "User not found" });
-      if (user.role !== 'administrator' && user.role !== 'co_lead' && user.isSuperAdmin !== 'true') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
 
       const existing = await storage.getAction(req.params.id);
       if (!existing || !existing.workstreamId) return res.status(404).json({ message: "Task not found" });
       if (user.isSuperAdmin !== 'true' && user.organizationId !== existing.organizationId) {
         return res.status(403).json({ message: "Access denied" });
       }
+      if (user.isSuperAdmin !== 'true' && !(await hasCapability(user, 'manage_workstreams', existing.strategyId))) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
 
       const { name, ...rest } = req.body;
       const updates: any = { ...rest };
       if (name !== undefined) updates.title = name;
 
       const action = await storage.updateAction(req.params.id, updates);
+      if (action) {
+        await storage.recordChangeHistory('action', existing, action, userId);
+        await emitLifecycleWebhooks('action', existing, action);
+      }
       res.json(action ? { ...action, name: action.title, owner: null } : action);
     } catch (error) {
       logger.error("Failed to update workstream task", error);
@@ -4780,15 +5014,15 @@ Respond ONLY with a valid JSON object in this exact format:
       if (!userId) return res.status(401).json({ message: "User not authenticated" });
       const user = await storage.getUser(userId);
       if (!user) return res.status(401).json({ message: "User not found" });
-      if (user.role !== 'administrator' && user.role !== 'co_lead' && user.isSuperAdmin !== 'true') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
 
       const existing = await storage.getAction(req.params.id);
       if (!existing || !existing.workstreamId) return res.status(404).json({ message: "Task not found" });
       if (user.isSuperAdmin !== 'true' && user.organizationId !== existing.organizationId) {
         return res.status(403).json({ message: "Access denied" });
       }
+      if (user.isSuperAdmin !== 'true' && !(await hasCapability(user, 'manage_workstreams', existing.strategyId))) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
 
       const deleted = await storage.deleteAction(req.params.id);
       if (!deleted) return res.status(500).json({ message: "Failed to delete task" });
@@ -4831,9 +5065,6 @@ Respond ONLY with a valid JSON object in this exact format:
       if (!userId) return res.status(401).json({ message: "User not authenticated" });
       const user = await storage.getUser(userId);
       if (!user) return res.status(401).json({ message: "User not found" });
-      if (user.role !== 'administrator' && user.role !== 'co_lead' && user.isSuperAdmin !== 'true') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
 
       const parsed = insertWorkstreamDependencySchema.parse(req.body);
 
@@ -4842,6 +5073,9 @@ Respond ONLY with a valid JSON object in this exact format:
       if (user.isSuperAdmin !== 'true' && user.organizationId !== predecessorTask.organizationId) {
         return res.status(403).json({ message: "Access denied" });
       }
+      if (user.isSuperAdmin !== 'true' && !(await hasCapability(user, 'manage_workstreams', predecessorTask.strategyId))) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
 
       const dependency = await storage.createWorkstreamDependency(parsed);
       res.status(201).json(dependency);
@@ -4860,7 +5094,7 @@ Respond ONLY with a valid JSON object in this exact format:
       if (!userId) return res.status(401).json({ message: "User not authenticated" });
       const user = await storage.getUser(userId);
       if (!user) return res.status(401).json({ message: "User not found" });
-      if (user.role !== 'administrator' && user.role !== 'co_lead' && user.isSuperAdmin !== 'true') {
+      if (user.isSuperAdmin !== 'true' && !(await hasCapability(user, 'manage_workstreams'))) {
         return res.status(403).json({ message: "Insufficient permissions" });
       }
 
@@ -4906,9 +5140,6 @@ Respond ONLY with a valid JSON object in this exact format:
       if (!userId) return res.status(401).json({ message: "User not authenticated" });
       const user = await storage.getUser(userId);
       if (!user) return res.status(401).json({ message: "User not found" });
-      if (user.role !== 'administrator' && user.role !== 'co_lead' && user.isSuperAdmin !== 'true') {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
 
       const parsed = insertGateCriteriaSchema.parse(req.body);
 
@@ -4918,6 +5149,9 @@ Respond ONLY with a valid JSON object in this exact format:
       if (user.isSuperAdmin !== 'true' && user.organizationId !== task.organizationId) {
         return res.status(403).json({ message: "Access denied" });
       }
+      if (user.isSuperAdmin !== 'true' && !(await hasCapability(user, 'manage_workstreams', task.strategyId))) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
 
       const criteria = await storage.createGateCriteria(parsed);
       res.status(201).json(criteria);
@@ -4936,15 +5170,29 @@ Respond ONLY with a valid JSON object in this exact format:
       if (!userId) return res.status(401).json({ message: "User not authenticated" });
       const user = await storage.getUser(userId);
       if (!user) return res.status(401).json({ message: "User not found" });
-      if (user.role !== 'administrator' && user.role !== 'co_lead' && user.isSuperAdmin !== 'true') {
+
+      const existing = await storage.getGateCriterion(req.params.id);
+      if (!existing) return res.status(404).json({ message: "Gate criteria not found" });
+      const gateTask = await storage.getAction(existing.gateTaskId);
+      if (!gateTask) return res.status(404).json({ message: "Gate task not found" });
+      if (user.isSuperAdmin !== 'true' && user.organizationId !== gateTask.organizationId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (user.isSuperAdmin !== 'true' && !(await hasCapability(user, 'manage_workstreams', gateTask.strategyId))) {
         return res.status(403).json({ message: "Insufficient permissions" });
       }
 
-      const existing = await storage.getGateCriteriaByTask(req.params.id);
       const criteriaItem = (await storage.updateGateCriteria(req.params.id, req.body));
       if (!criteriaItem) return res.status(404).json({ message: "Gate criteria not found" });
 
-      res.json(criteriaItem);
+      if (criteriaItem.isMet === 'true' && existing.isMet !== 'true') {
+        await emitWebhookEvent(gateTask.organizationId, 'gate_criteria.met', {
+          ...criteriaItem,
+          gateTask: { id: gateTask.id, title: gateTask.title, strategyId: gateTask.strategyId, phaseId: gateTask.phaseId },
+        });
+      }
+
+      res.json(criteriaItem);
     } catch (error) {
       logger.error("Failed to update gate criteria", error);
       res.status(500).json({ message: "Failed to update gate criteria" });
@@ -4957,7 +5205,7 @@ Respond ONLY with a valid JSON object in this exact format:
       if (!userId) return res.status(401).json({ message: "User not authenticated" });
       const user = await storage.getUser(userId);
       if (!user) return res.status(401).json({ message: "User not found" });
-      if (user.role !== 'administrator' && user.role !== 'co_lead' && user.isSuperAdmin !== 'true') {
+      if (user.isSuperAdmin !== 'true' && !(await hasCapability(user, 'manage_workstreams'))) {
         return res.status(403).json({ message: "Insufficient permissions" });
       }
 
@@ -5181,172 +5429,2636 @@ Respond ONLY with a valid JSON object in this exact format:
       if (user.isSuperAdmin !== 'true' && user.organizationId !== strategy.organizationId) {
         return res.status(403).json({ message: "Access denied" });
       }
+      if (user.isSuperAdmin !== 'true' && !(await hasCapability(user, 'view_reports', strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot view reports" });
+      }
 
-      const [tasks, workstreams, phases, dependencies] = await Promise.all([
-        storage.getWorkstreamActionsByStrategy(strategyId),
-        storage.getWorkstreamsByStrategy(strategyId),
-        storage.getPhasesByStrategy(strategyId),
-        storage.getWorkstreamDependenciesByStrategy(strategyId),
-      ]);
+      res.json(await calculateWorkstreamStatus(strategyId));
+    } catch (error) {
+      logger.error("Failed to calculate workstream data", error);
+      res.status(500).json({ message: "Failed to calculate workstream data" });
+    }
+  });
 
-      const BUFFER_DAYS = 5;
-      const now = new Date();
-
-      const taskRag: Record<string, { rag: string; task: any }> = {};
-      for (const task of tasks) {
-        let rag = "GREEN";
-        if (task.status === "complete" || task.status === "completed") {
-          rag = "COMPLETE";
-        } else if (task.status === "blocked") {
-          rag = "RED";
-        } else {
-          const plannedEnd = task.plannedEnd ? new Date(task.plannedEnd) : null;
-          if (plannedEnd) {
-            const daysRemaining = Math.ceil((plannedEnd.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-            const pctLeft = 100 - (task.percentComplete || 0);
-            const daysOfWorkRemaining = Math.ceil((pctLeft / 100) * (task.durationDays || 1));
-            if (daysRemaining < daysOfWorkRemaining) {
-              rag = "RED";
-            } else if (daysRemaining < daysOfWorkRemaining + BUFFER_DAYS) {
-              rag = "AMBER";
-            }
-          }
+  // ==================== FRAMEWORK DOCUMENT ROUTES ====================
+
+  // The framework document, if the user may see it; otherwise the error response has been sent
+  const getFrameworkDocumentForUser = async (req: any, res: any): Promise<{ user: User; document: FrameworkDocument } | undefined> => {
+    const userId = req.user?.claims?.sub;
+    if (!userId) {
+      res.status(401).json({ message: "User not authenticated" });
+      return undefined;
+    }
+    const user = await storage.getUser(userId);
+    if (!user) {
+      res.status(401).json({ message: "User not found" });
+      return undefined;
+    }
+    if (user.role === 'sme') {
+      res.status(403).json({ message: "Access denied" });
+      return undefined;
+    }
+    const document = await storage.getFrameworkDocument(req.params.id);
+    if (!document) {
+      res.status(404).json({ message: "Framework document not found" });
+      return undefined;
+    }
+    if (user.isSuperAdmin !== 'true' && user.organizationId !== document.organizationId) {
+      res.status(403).json({ message: "Access denied" });
+      return undefined;
+    }
+    if (document.strategyId && user.role !== 'administrator' && user.isSuperAdmin !== 'true') {
+      const assignedStrategyIds = await storage.getUserAssignedStrategyIds(userId);
+      if (!assignedStrategyIds.includes(document.strategyId)) {
+        res.status(403).json({ message: "Access denied to this strategy" });
+        return undefined;
+      }
+    }
+    return { user, document };
+  };
+
+  app.get("/api/framework-documents", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      if (user.role === 'sme') return res.status(403).json({ message: "Access denied" });
+
+      let documents = user.organizationId
+        ? await storage.getFrameworkDocumentsByOrganization(user.organizationId)
+        : [];
+
+      const { strategyId, projectId, frameworkType } = req.query;
+      if (strategyId) documents = documents.filter(d => d.strategyId === strategyId);
+      if (projectId) documents = documents.filter(d => d.projectId === projectId);
+      if (frameworkType) documents = documents.filter(d => d.frameworkType === frameworkType);
+
+      if (user.role !== 'administrator' && user.isSuperAdmin !== 'true') {
+        const assignedStrategyIds = await storage.getUserAssignedStrategyIds(userId);
+        documents = documents.filter(d => !d.strategyId || assignedStrategyIds.includes(d.strategyId));
+      }
+
+      res.json(documents);
+    } catch (error) {
+      logger.error("Failed to fetch framework documents", error);
+      res.status(500).json({ message: "Failed to fetch framework documents" });
+    }
+  });
+
+  app.get("/api/framework-documents/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const found = await getFrameworkDocumentForUser(req, res);
+      if (!found) return;
+
+      res.json(found.document);
+    } catch (error) {
+      logger.error("Failed to fetch framework document", error);
+      res.status(500).json({ message: "Failed to fetch framework document" });
+    }
+  });
+
+  app.get("/api/framework-documents/:id/versions", isAuthenticated, async (req: any, res) => {
+    try {
+      const found = await getFrameworkDocumentForUser(req, res);
+      if (!found) return;
+
+      const versions = await storage.getFrameworkDocumentVersions(found.document.id);
+      res.json(versions);
+    } catch (error) {
+      logger.error("Failed to fetch framework document versions", error);
+      res.status(500).json({ message: "Failed to fetch framework document versions" });
+    }
+  });
+
+  app.post("/api/framework-documents", isAuthenticated, validateBody(insertFrameworkDocumentSchema), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      if (!user.organizationId) return res.status(400).json({ message: "User has no organization" });
+
+      const validatedData = insertFrameworkDocumentSchema.parse(req.body);
+
+      if (validatedData.strategyId) {
+        const strategy = await storage.getStrategy(validatedData.strategyId);
+        if (!strategy || strategy.organizationId !== user.organizationId) {
+          return res.status(400).json({ message: "Invalid strategy" });
         }
-        taskRag[task.id] = { rag, task };
-      }
-
-      const workstreamGateRag: Record<string, Record<string, string>> = {};
-      for (const ws of workstreams) {
-        workstreamGateRag[ws.id] = {};
-        for (const phase of phases) {
-          const phaseTasks = tasks.filter(t => t.workstreamId === ws.id && t.phaseId === phase.id);
-          if (phaseTasks.length === 0) {
-            workstreamGateRag[ws.id][phase.id] = "NONE";
-          } else {
-            const rags = phaseTasks.map(t => taskRag[t.id]?.rag || "GREEN");
-            if (rags.includes("RED")) {
-              workstreamGateRag[ws.id][phase.id] = "RED";
-            } else if (rags.includes("AMBER")) {
-              workstreamGateRag[ws.id][phase.id] = "AMBER";
-            } else if (rags.every(r => r === "COMPLETE")) {
-              workstreamGateRag[ws.id][phase.id] = "COMPLETE";
-            } else {
-              workstreamGateRag[ws.id][phase.id] = "GREEN";
-            }
-          }
+      }
+      if (validatedData.projectId) {
+        const project = await storage.getProject(validatedData.projectId);
+        if (!project || project.organizationId !== user.organizationId) {
+          return res.status(400).json({ message: "Invalid project" });
         }
+        if (!validatedData.strategyId) validatedData.strategyId = project.strategyId;
+      }
+      if (!(await hasCapability(user, 'edit_framework_documents', validatedData.strategyId))) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const document = await storage.createFrameworkDocument({
+        ...validatedData,
+        organizationId: user.organizationId,
+        createdBy: userId,
+      });
+      res.status(201).json(document);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
+      logger.error("Failed to create framework document", error);
+      res.status(500).json({ message: "Failed to create framework document" });
+    }
+  });
 
-      const programGateRag: Record<string, string> = {};
-      for (const phase of phases) {
-        const wsRags = workstreams.map(ws => workstreamGateRag[ws.id]?.[phase.id] || "GREEN");
+  app.patch("/api/framework-documents/:id", isAuthenticated, validateBody(insertFrameworkDocumentSchema.partial()), async (req: any, res) => {
+    try {
+      const found = await getFrameworkDocumentForUser(req, res);
+      if (!found) return;
+      const { user, document: existing } = found;
+      if (!(await hasCapability(user, 'edit_framework_documents', existing.strategyId))) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
 
-        const gateTasks = tasks.filter(
-          t => t.phaseId === phase.id && t.isMilestone === "true" && t.milestoneType === "program_gate"
-        );
-        const allCriteria: any[] = [];
-        for (const gt of gateTasks) {
-          const criteria = await storage.getGateCriteriaByTask(gt.id);
-          allCriteria.push(...criteria);
+      const { frameworkType, ...updates } = insertFrameworkDocumentSchema.partial().parse(req.body);
+      if (frameworkType && frameworkType !== existing.frameworkType) {
+        return res.status(400).json({ message: "Framework type cannot be changed" });
+      }
+      if (updates.strategyId) {
+        const strategy = await storage.getStrategy(updates.strategyId);
+        if (!strategy || strategy.organizationId !== existing.organizationId) {
+          return res.status(400).json({ message: "Invalid strategy" });
         }
-        const unmetCriteria = allCriteria.filter(c => c.isMet !== "true");
-
-        const activeWsRags = wsRags.filter(r => r !== "NONE");
-        if (activeWsRags.length === 0 && allCriteria.length === 0) {
-          programGateRag[phase.id] = "NONE";
-        } else if (activeWsRags.includes("RED") || unmetCriteria.length > 0) {
-          programGateRag[phase.id] = "RED";
-        } else if (activeWsRags.includes("AMBER")) {
-          programGateRag[phase.id] = "AMBER";
-        } else if (activeWsRags.length > 0 && activeWsRags.every(r => r === "COMPLETE") && allCriteria.length > 0 && unmetCriteria.length === 0) {
-          programGateRag[phase.id] = "COMPLETE";
-        } else if (activeWsRags.length === 0) {
-          programGateRag[phase.id] = "NONE";
-        } else {
-          programGateRag[phase.id] = "GREEN";
+      }
+      if (updates.projectId) {
+        const project = await storage.getProject(updates.projectId);
+        if (!project || project.organizationId !== existing.organizationId) {
+          return res.status(400).json({ message: "Invalid project" });
+        }
+        if (!updates.strategyId) updates.strategyId = project.strategyId;
+      }
+      // Moving the document needs edit rights on the strategy it moves to as well
+      if (updates.strategyId && updates.strategyId !== existing.strategyId
+        && !(await hasCapability(user, 'edit_framework_documents', updates.strategyId))) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const document = await storage.updateFrameworkDocument(req.params.id, updates, user.id);
+      if (!document) return res.status(404).json({ message: "Framework document not found" });
+      res.json(document);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      logger.error("Failed to update framework document", error);
+      res.status(500).json({ message: "Failed to update framework document" });
+    }
+  });
+
+  app.post("/api/framework-documents/:id/versions/:version/restore", isAuthenticated, async (req: any, res) => {
+    try {
+      const found = await getFrameworkDocumentForUser(req, res);
+      if (!found) return;
+      const { user, document: existing } = found;
+      if (!(await hasCapability(user, 'edit_framework_documents', existing.strategyId))) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const versions = await storage.getFrameworkDocumentVersions(existing.id);
+      const target = versions.find(v => v.version === parseInt(req.params.version, 10));
+      if (!target) return res.status(404).json({ message: "Version not found" });
+
+      // Restoring writes the old content as a new version so nothing is lost
+      const document = await storage.updateFrameworkDocument(existing.id, {
+        title: target.title,
+        content: target.content,
+      }, user.id);
+      res.json(document);
+    } catch (error) {
+      logger.error("Failed to restore framework document version", error);
+      res.status(500).json({ message: "Failed to restore framework document version" });
+    }
+  });
+
+  app.delete("/api/framework-documents/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const found = await getFrameworkDocumentForUser(req, res);
+      if (!found) return;
+      const { user, document: existing } = found;
+      if (user.role !== 'administrator' && user.isSuperAdmin !== 'true' && existing.createdBy !== user.id) {
+        return res.status(403).json({ message: "Only administrators or the author can delete framework documents" });
+      }
+
+      const deleted = await storage.deleteFrameworkDocument(req.params.id);
+      if (!deleted) return res.status(404).json({ message: "Framework document not found" });
+      res.json({ message: "Framework document deleted" });
+    } catch (error) {
+      logger.error("Failed to delete framework document", error);
+      res.status(500).json({ message: "Failed to delete framework document" });
+    }
+  });
+
+  // ==================== MEASUREMENT ROUTES ====================
+
+  app.get("/api/measurements", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      if (!user.organizationId) return res.json([]);
+
+      let results = await storage.getMeasurementsByOrganization(user.organizationId);
+      if (req.query.strategyId) {
+        results = results.filter(m => m.strategyId === req.query.strategyId);
+      }
+      if (user.role !== 'administrator' && user.isSuperAdmin !== 'true') {
+        const assignedStrategyIds = await storage.getUserAssignedStrategyIds(userId);
+        results = results.filter(m => assignedStrategyIds.includes(m.strategyId));
+      }
+
+      res.json(results);
+    } catch (error) {
+      logger.error("Failed to fetch measurements", error);
+      res.status(500).json({ message: "Failed to fetch measurements" });
+    }
+  });
+
+  app.get("/api/actions/:actionId/measurements", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+
+      const action = await storage.getAction(req.params.actionId);
+      if (!action) return res.status(404).json({ message: "Action not found" });
+      if (user.isSuperAdmin !== 'true' && user.organizationId !== action.organizationId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (user.role !== 'administrator' && user.isSuperAdmin !== 'true') {
+        const assignedStrategyIds = await storage.getUserAssignedStrategyIds(userId);
+        if (!assignedStrategyIds.includes(action.strategyId)) {
+          return res.status(403).json({ message: "Forbidden: You do not have access to this strategy" });
         }
       }
 
-      const taskMap = new Map(tasks.map(t => [t.id, t]));
-      const successors = new Map<string, string[]>();
-      const predecessors = new Map<string, string[]>();
-      for (const dep of dependencies) {
-        if (!successors.has(dep.predecessorTaskId)) successors.set(dep.predecessorTaskId, []);
-        successors.get(dep.predecessorTaskId)!.push(dep.successorTaskId);
-        if (!predecessors.has(dep.successorTaskId)) predecessors.set(dep.successorTaskId, []);
-        predecessors.get(dep.successorTaskId)!.push(dep.predecessorTaskId);
-      }
-
-      const earlyStart: Record<string, number> = {};
-      const earlyEnd: Record<string, number> = {};
-      const lateStart: Record<string, number> = {};
-      const lateEnd: Record<string, number> = {};
-
-      const topoOrder: string[] = [];
-      const inDegree: Record<string, number> = {};
-      for (const t of tasks) {
-        inDegree[t.id] = (predecessors.get(t.id) || []).length;
-      }
-      const queue: string[] = tasks.filter(t => inDegree[t.id] === 0).map(t => t.id);
-      while (queue.length > 0) {
-        const current = queue.shift()!;
-        topoOrder.push(current);
-        for (const succ of (successors.get(current) || [])) {
-          inDegree[succ]--;
-          if (inDegree[succ] === 0) queue.push(succ);
+      const results = await storage.getMeasurementsByEntity('action', action.id);
+      res.json(results);
+    } catch (error) {
+      logger.error("Failed to fetch action measurements", error);
+      res.status(500).json({ message: "Failed to fetch measurements" });
+    }
+  });
+
+  app.post("/api/actions/:actionId/measurements", isAuthenticated, validateBody(insertMeasurementSchema), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      const action = await storage.getAction(req.params.actionId);
+      if (!action) return res.status(404).json({ message: "Action not found" });
+      if (user.isSuperAdmin !== 'true' && user.organizationId !== action.organizationId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (user.role !== 'administrator') {
+        const assignedStrategyIds = await storage.getUserAssignedStrategyIds(userId);
+        if (!assignedStrategyIds.includes(action.strategyId)) {
+          return res.status(403).json({ message: "Forbidden: You do not have access to this strategy" });
         }
       }
 
-      for (const taskId of topoOrder) {
-        const t = taskMap.get(taskId)!;
-        const preds = predecessors.get(taskId) || [];
-        if (preds.length === 0) {
-          earlyStart[taskId] = 0;
-        } else {
-          earlyStart[taskId] = Math.max(...preds.map(p => earlyEnd[p] || 0));
+      if (!(await hasCapability(user, 'record_measurements', action.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot record measurements" });
+      }
+
+      const validatedData = insertMeasurementSchema.parse(req.body);
+      // Fall back to the action's own target so each reading records the goal in force at the time
+      const actionTarget = action.targetValue ? parseFloat(action.targetValue) : NaN;
+      const measurement = await storage.createMeasurement({
+        ...validatedData,
+        targetValue: validatedData.targetValue ?? (isNaN(actionTarget) ? null : actionTarget),
+        unit: validatedData.unit ?? action.measurementUnit,
+        entityType: 'action',
+        entityId: action.id,
+        strategyId: action.strategyId,
+        organizationId: action.organizationId || user.organizationId!,
+        recordedBy: userId,
+      });
+
+      // Keep the action's headline current value in sync with its most recent reading
+      const history = await storage.getMeasurementsByEntity('action', action.id);
+      if (history[history.length - 1]?.id === measurement.id) {
+        await storage.updateAction(action.id, { currentValue: String(measurement.value) });
+      }
+
+      res.status(201).json(measurement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      logger.error("Failed to record action measurement", error);
+      res.status(500).json({ message: "Failed to record measurement" });
+    }
+  });
+
+  app.get("/api/projects/:projectId/measurements", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) return res.status(404).json({ message: "Project not found" });
+      if (user.isSuperAdmin !== 'true' && user.organizationId !== project.organizationId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (user.role !== 'administrator' && user.isSuperAdmin !== 'true') {
+        const assignedStrategyIds = await storage.getUserAssignedStrategyIds(userId);
+        if (!assignedStrategyIds.includes(project.strategyId)) {
+          return res.status(403).json({ message: "Forbidden: You do not have access to this strategy" });
         }
-        earlyEnd[taskId] = earlyStart[taskId] + (t.durationDays || 1);
       }
 
-      const projectEnd = Math.max(...tasks.map(t => earlyEnd[t.id] || 0), 0);
+      const results = await storage.getMeasurementsByEntity('project', project.id);
+      res.json(results);
+    } catch (error) {
+      logger.error("Failed to fetch project measurements", error);
+      res.status(500).json({ message: "Failed to fetch measurements" });
+    }
+  });
 
-      for (let i = topoOrder.length - 1; i >= 0; i--) {
-        const taskId = topoOrder[i];
-        const t = taskMap.get(taskId)!;
-        const succs = successors.get(taskId) || [];
-        if (succs.length === 0) {
-          lateEnd[taskId] = projectEnd;
-        } else {
-          lateEnd[taskId] = Math.min(...succs.map(s => lateStart[s] ?? projectEnd));
+  app.post("/api/projects/:projectId/measurements", isAuthenticated, validateBody(insertMeasurementSchema), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) return res.status(404).json({ message: "Project not found" });
+      if (user.isSuperAdmin !== 'true' && user.organizationId !== project.organizationId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (user.role !== 'administrator') {
+        const assignedStrategyIds = await storage.getUserAssignedStrategyIds(userId);
+        if (!assignedStrategyIds.includes(project.strategyId)) {
+          return res.status(403).json({ message: "Forbidden: You do not have access to this strategy" });
         }
-        lateStart[taskId] = lateEnd[taskId] - (t.durationDays || 1);
-      }
-
-      const criticalPath: Record<string, { earlyStart: number; earlyEnd: number; lateStart: number; lateEnd: number; totalFloat: number; isCritical: boolean }> = {};
-      for (const taskId of topoOrder) {
-        const float = (lateStart[taskId] ?? 0) - (earlyStart[taskId] ?? 0);
-        criticalPath[taskId] = {
-          earlyStart: earlyStart[taskId] ?? 0,
-          earlyEnd: earlyEnd[taskId] ?? 0,
-          lateStart: lateStart[taskId] ?? 0,
-          lateEnd: lateEnd[taskId] ?? 0,
-          totalFloat: float,
-          isCritical: float === 0,
-        };
       }
 
-      res.json({
-        taskRag: Object.fromEntries(
-          Object.entries(taskRag).map(([id, v]) => [id, v.rag])
-        ),
-        workstreamGateRag,
-        programGateRag,
-        criticalPath,
-        projectDurationDays: projectEnd,
+      if (!(await hasCapability(user, 'record_measurements', project.strategyId))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot record measurements" });
+      }
+
+      const validatedData = insertMeasurementSchema.parse(req.body);
+      const measurement = await storage.createMeasurement({
+        ...validatedData,
+        entityType: 'project',
+        entityId: project.id,
+        strategyId: project.strategyId,
+        organizationId: project.organizationId || user.organizationId!,
+        recordedBy: userId,
       });
+      res.status(201).json(measurement);
     } catch (error) {
-      logger.error("Failed to calculate workstream data", error);
-      res.status(500).json({ message: "Failed to calculate workstream data" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      logger.error("Failed to record project measurement", error);
+      res.status(500).json({ message: "Failed to record measurement" });
+    }
+  });
+
+  app.delete("/api/measurements/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+
+      const measurement = await storage.getMeasurement(req.params.id);
+      if (!measurement) return res.status(404).json({ message: "Measurement not found" });
+      if (user.isSuperAdmin !== 'true' && user.organizationId !== measurement.organizationId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      // Readings are an audit trail; only administrators or the person who recorded one may remove it
+      if (user.role !== 'administrator' && user.isSuperAdmin !== 'true' && measurement.recordedBy !== userId) {
+        return res.status(403).json({ message: "Only administrators or the recorder can delete measurements" });
+      }
+
+      await storage.deleteMeasurement(measurement.id);
+
+      // The action's current value falls back to the reading before this one, or to nothing if it was the last
+      if (measurement.entityType === 'action') {
+        const history = await storage.getMeasurementsByEntity('action', measurement.entityId);
+        const latest = history[history.length - 1];
+        await storage.updateAction(measurement.entityId, { currentValue: latest ? String(latest.value) : null });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      logger.error("Failed to delete measurement", error);
+      res.status(500).json({ message: "Failed to delete measurement" });
+    }
+  });
+
+  // ==================== SCHEDULE BASELINE ROUTES ====================
+
+  app.get("/api/strategies/:strategyId/baselines", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+
+      const strategy = await storage.getStrategy(req.params.strategyId);
+      if (!strategy) return res.status(404).json({ message: "Strategy not found" });
+      if (user.isSuperAdmin !== 'true' && user.organizationId !== strategy.organizationId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const baselines = await storage.getScheduleBaselinesByStrategy(strategy.id);
+      // The snapshot payload can be large; the list only needs the metadata
+      res.json(baselines.map(({ snapshotData, ...baseline }) => baseline));
+    } catch (error) {
+      logger.error("Failed to fetch schedule baselines", error);
+      res.status(500).json({ message: "Failed to fetch schedule baselines" });
+    }
+  });
+
+  app.post("/api/strategies/:strategyId/baselines", isAuthenticated, validateBody(insertScheduleBaselineSchema), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      if (user.role !== 'administrator' && user.isSuperAdmin !== 'true') {
+        return res.status(403).json({ message: "Only administrators can capture baselines" });
+      }
+
+      const strategy = await storage.getStrategy(req.params.strategyId);
+      if (!strategy) return res.status(404).json({ message: "Strategy not found" });
+      if (user.isSuperAdmin !== 'true' && user.organizationId !== strategy.organizationId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const validatedData = insertScheduleBaselineSchema.parse(req.body);
+      const baseline = await storage.createScheduleBaseline(strategy.id, {
+        ...validatedData,
+        organizationId: strategy.organizationId || user.organizationId!,
+        createdBy: userId,
+      });
+      const { snapshotData, ...created } = baseline;
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      logger.error("Failed to create schedule baseline", error);
+      res.status(500).json({ message: "Failed to create schedule baseline" });
+    }
+  });
+
+  app.delete("/api/baselines/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      if (user.role !== 'administrator' && user.isSuperAdmin !== 'true') {
+        return res.status(403).json({ message: "Only administrators can delete baselines" });
+      }
+
+      const baseline = await storage.getScheduleBaseline(req.params.id);
+      if (!baseline) return res.status(404).json({ message: "Baseline not found" });
+      if (user.isSuperAdmin !== 'true' && user.organizationId !== baseline.organizationId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      await storage.deleteScheduleBaseline(baseline.id);
+      res.status(204).send();
+    } catch (error) {
+      logger.error("Failed to delete schedule baseline", error);
+      res.status(500).json({ message: "Failed to delete schedule baseline" });
+    }
+  });
+
+  // Compare a baseline against the strategy's current plan: per-project slip in days and actions added/removed
+  app.get("/api/baselines/:id/variance", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+
+      const baseline = await storage.getScheduleBaseline(req.params.id);
+      if (!baseline) return res.status(404).json({ message: "Baseline not found" });
+      if (user.isSuperAdmin !== 'true' && user.organizationId !== baseline.organizationId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (user.role !== 'administrator' && user.isSuperAdmin !== 'true') {
+        const assignedStrategyIds = await storage.getUserAssignedStrategyIds(userId);
+        if (!assignedStrategyIds.includes(baseline.strategyId)) {
+          return res.status(403).json({ message: "Forbidden: You do not have access to this strategy" });
+        }
+      }
+
+      type BaselineProject = { id: string; title: string; startDate: string | null; dueDate: string | null };
+      type BaselineAction = { id: string; projectId: string | null; title: string; dueDate: string | null; plannedStart: string | null; plannedEnd: string | null };
+      const snapshot = JSON.parse(baseline.snapshotData) as { projects: BaselineProject[]; actions: BaselineAction[] };
+
+      const currentProjects = await storage.getProjectsByStrategy(baseline.strategyId);
+      const currentActions = (await storage.getActionsByStrategy(baseline.strategyId)).filter(a => a.isArchived !== 'true');
+
+      const DAY_MS = 24 * 60 * 60 * 1000;
+      const slipDays = (baselineDate: string | Date | null, currentDate: string | Date | null) => {
+        if (!baselineDate || !currentDate) return null;
+        return Math.round((new Date(currentDate).getTime() - new Date(baselineDate).getTime()) / DAY_MS);
+      };
+      const actionEnd = (a: { plannedEnd: string | Date | null; dueDate: string | Date | null }) => a.plannedEnd || a.dueDate;
+
+      const baselineProjectMap = new Map(snapshot.projects.map(p => [p.id, p]));
+      const currentProjectMap = new Map(currentProjects.map(p => [p.id, p]));
+      const projectIds = Array.from(new Set([...Array.from(baselineProjectMap.keys()), ...Array.from(currentProjectMap.keys())]));
+
+      const projectVariances = projectIds.map(projectId => {
+        const before = baselineProjectMap.get(projectId);
+        const now = currentProjectMap.get(projectId);
+        const baselineActions = snapshot.actions.filter(a => a.projectId === projectId);
+        const nowActions = currentActions.filter(a => a.projectId === projectId);
+        const baselineActionIds = new Set(baselineActions.map(a => a.id));
+        const nowActionIds = new Set(nowActions.map(a => a.id));
+
+        const actionsSlipped = nowActions
+          .filter(a => baselineActionIds.has(a.id))
+          .map(a => {
+            const was = baselineActions.find(b => b.id === a.id)!;
+            return { id: a.id, title: a.title, baselineDate: actionEnd(was), currentDate: actionEnd(a), slipDays: slipDays(actionEnd(was), actionEnd(a)) };
+          })
+          .filter(a => a.slipDays !== null && a.slipDays !== 0);
+
+        return {
+          projectId,
+          title: now?.title ?? before?.title ?? "Unknown project",
+          change: !before ? 'added' : !now ? 'removed' : 'unchanged',
+          baselineStartDate: before?.startDate ?? null,
+          currentStartDate: now?.startDate ?? null,
+          startSlipDays: slipDays(before?.startDate ?? null, now?.startDate ?? null),
+          baselineDueDate: before?.dueDate ?? null,
+          currentDueDate: now?.dueDate ?? null,
+          slipDays: slipDays(before?.dueDate ?? null, now?.dueDate ?? null),
+          actionsAdded: nowActions.filter(a => !baselineActionIds.has(a.id)).map(a => ({ id: a.id, title: a.title })),
+          actionsRemoved: baselineActions.filter(a => !nowActionIds.has(a.id)).map(a => ({ id: a.id, title: a.title })),
+          actionsSlipped,
+        };
+      });
+
+      res.json({
+        baseline: { id: baseline.id, name: baseline.name, description: baseline.description, strategyId: baseline.strategyId, createdAt: baseline.createdAt, createdBy: baseline.createdBy },
+        projects: projectVariances,
+        summary: {
+          projectsAdded: projectVariances.filter(p => p.change === 'added').length,
+          projectsRemoved: projectVariances.filter(p => p.change === 'removed').length,
+          projectsSlipped: projectVariances.filter(p => (p.slipDays ?? 0) > 0).length,
+          maxSlipDays: Math.max(0, ...projectVariances.map(p => p.slipDays ?? 0)),
+          actionsAdded: projectVariances.reduce((sum, p) => sum + p.actionsAdded.length, 0),
+          actionsRemoved: projectVariances.reduce((sum, p) => sum + p.actionsRemoved.length, 0),
+        },
+      });
+    } catch (error) {
+      logger.error("Failed to calculate baseline variance", error);
+      res.status(500).json({ message: "Failed to calculate baseline variance" });
+    }
+  });
+
+  // ==================== SCENARIO SANDBOX ROUTES ====================
+
+  // Scenarios follow their strategy's access rules. Anyone who can see the strategy can review its scenarios;
+  // editing needs the edit_scenarios capability. Returns an error to send, or null when allowed.
+  const checkScenarioAccess = async (user: User, strategy: Strategy | undefined, write: boolean): Promise<{ status: number; message: string } | null> => {
+    if (!strategy) return { status: 404, message: "Strategy not found" };
+    if (user.isSuperAdmin !== 'true' && user.organizationId !== strategy.organizationId) {
+      return { status: 403, message: "Access denied" };
+    }
+    if (user.role === 'administrator' || user.isSuperAdmin === 'true') return null;
+    if (write && !(await hasCapability(user, 'edit_scenarios', strategy.id))) {
+      return { status: 403, message: "Forbidden: Your role cannot edit scenarios" };
+    }
+    const assignedStrategyIds = await storage.getUserAssignedStrategyIds(user.id);
+    if (!assignedStrategyIds.includes(strategy.id)) {
+      return { status: 403, message: "Forbidden: You do not have access to this strategy" };
+    }
+    return null;
+  };
+
+  // The plan payloads are large; lists and edit responses only need the metadata
+  const scenarioSummary = ({ baseData, planData, ...scenario }: StrategyScenario) => scenario;
+
+  // Only workstream tasks take part in the critical path, and dropped work is left out
+  const scenarioCriticalPath = (plan: ScenarioPlan) => {
+    const droppedProjectIds = new Set(plan.projects.filter(p => p.dropped).map(p => p.id));
+    const tasks = plan.actions.filter(a =>
+      a.workstreamId && a.projectId && !a.dropped && !droppedProjectIds.has(a.projectId)
+    );
+    return calculateCriticalPath(tasks, plan.dependencies);
+  };
+
+  // Side-by-side view of the live plan and the sandbox. Conflicts are fields edited in the sandbox
+  // that have also changed in the live plan since the scenario was cloned; promotion would overwrite them.
+  const compareScenario = async (scenario: StrategyScenario) => {
+    const base = JSON.parse(scenario.baseData) as ScenarioPlan;
+    const plan = JSON.parse(scenario.planData) as ScenarioPlan;
+    const live = await storage.getScenarioPlan(scenario.strategyId);
+
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const shiftDays = (from: string | null, to: string | null) => {
+      if (!from || !to) return null;
+      return Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+    };
+
+    const liveCalc = scenarioCriticalPath(live);
+    const sandboxCalc = scenarioCriticalPath(plan);
+    const criticalIds = (calc: typeof liveCalc) =>
+      Object.entries(calc.criticalPath).filter(([, entry]) => entry.isCritical).map(([id]) => id);
+
+    const baseProjects = new Map(base.projects.map(p => [p.id, p]));
+    const baseActions = new Map(base.actions.map(a => [a.id, a]));
+    const liveProjects = new Map(live.projects.map(p => [p.id, p]));
+    const liveActions = new Map(live.actions.map(a => [a.id, a]));
+    const conflicts: { entityType: 'project' | 'action'; id: string; title: string; field: string }[] = [];
+
+    const projectFields = ['startDate', 'dueDate'] as const;
+    const actionFields = ['dueDate', 'plannedStart', 'plannedEnd', 'durationDays'] as const;
+
+    const projects = plan.projects.map(p => {
+      const was = baseProjects.get(p.id);
+      const now = liveProjects.get(p.id);
+      const changedFields = projectFields.filter(f => was && p[f] !== was[f]);
+      if (was && (changedFields.length > 0 || p.dropped)) {
+        if (!now) conflicts.push({ entityType: 'project', id: p.id, title: p.title, field: 'removed' });
+        else for (const f of changedFields) if (now[f] !== was[f]) conflicts.push({ entityType: 'project', id: p.id, title: p.title, field: f });
+      }
+
+      const actions = plan.actions.filter(a => a.projectId === p.id).map(a => {
+        const wasAction = baseActions.get(a.id);
+        const nowAction = liveActions.get(a.id);
+        const changedActionFields = actionFields.filter(f => wasAction && a[f] !== wasAction[f]);
+        if (wasAction && !p.dropped && (changedActionFields.length > 0 || a.dropped)) {
+          if (!nowAction) conflicts.push({ entityType: 'action', id: a.id, title: a.title, field: 'removed' });
+          else for (const f of changedActionFields) if (nowAction[f] !== wasAction[f]) conflicts.push({ entityType: 'action', id: a.id, title: a.title, field: f });
+        }
+        const liveEnd = nowAction ? nowAction.plannedEnd || nowAction.dueDate : null;
+        const scenarioEnd = a.plannedEnd || a.dueDate;
+        return {
+          id: a.id,
+          title: a.title,
+          dropped: a.dropped || p.dropped,
+          changed: changedActionFields.length > 0 || a.dropped,
+          liveEnd,
+          scenarioEnd,
+          shiftDays: shiftDays(liveEnd, scenarioEnd),
+          liveDurationDays: nowAction?.durationDays ?? null,
+          scenarioDurationDays: a.durationDays,
+          liveCritical: liveCalc.criticalPath[a.id]?.isCritical ?? false,
+          scenarioCritical: sandboxCalc.criticalPath[a.id]?.isCritical ?? false,
+        };
+      });
+
+      return {
+        projectId: p.id,
+        title: p.title,
+        dropped: p.dropped,
+        changed: changedFields.length > 0 || p.dropped || actions.some(a => a.changed),
+        liveStartDate: now?.startDate ?? null,
+        scenarioStartDate: p.startDate,
+        startShiftDays: shiftDays(now?.startDate ?? null, p.startDate),
+        liveDueDate: now?.dueDate ?? null,
+        scenarioDueDate: p.dueDate,
+        dueShiftDays: shiftDays(now?.dueDate ?? null, p.dueDate),
+        actions,
+      };
+    });
+
+    return {
+      scenario: scenarioSummary(scenario),
+      live: { projectDurationDays: liveCalc.projectDurationDays, criticalTaskIds: criticalIds(liveCalc) },
+      sandbox: { projectDurationDays: sandboxCalc.projectDurationDays, criticalTaskIds: criticalIds(sandboxCalc) },
+      projects,
+      conflicts,
+      summary: {
+        projectsChanged: projects.filter(p => p.changed && !p.dropped).length,
+        projectsDropped: projects.filter(p => p.dropped).length,
+        actionsChanged: projects.reduce((sum, p) => sum + p.actions.filter(a => a.changed && !a.dropped).length, 0),
+        actionsDropped: projects.reduce((sum, p) => sum + p.actions.filter(a => a.dropped).length, 0),
+        durationDeltaDays: sandboxCalc.projectDurationDays - liveCalc.projectDurationDays,
+      },
+    };
+  };
+
+  app.get("/api/strategies/:strategyId/scenarios", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+
+      const strategy = await storage.getStrategy(req.params.strategyId);
+      const denied = await checkScenarioAccess(user, strategy, false);
+      if (denied) return res.status(denied.status).json({ message: denied.message });
+
+      const scenarios = await storage.getStrategyScenariosByStrategy(strategy!.id);
+      res.json(scenarios.map(scenarioSummary));
+    } catch (error) {
+      logger.error("Failed to fetch scenarios", error);
+      res.status(500).json({ message: "Failed to fetch scenarios" });
+    }
+  });
+
+  app.post("/api/strategies/:strategyId/scenarios", isAuthenticated, validateBody(insertStrategyScenarioSchema), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+
+      const strategy = await storage.getStrategy(req.params.strategyId);
+      const denied = await checkScenarioAccess(user, strategy, true);
+      if (denied) return res.status(denied.status).json({ message: denied.message });
+
+      const validatedData = insertStrategyScenarioSchema.parse(req.body);
+      const scenario = await storage.createStrategyScenario(strategy!.id, {
+        ...validatedData,
+        organizationId: strategy!.organizationId || user.organizationId!,
+        createdBy: userId,
+      });
+      res.status(201).json(scenarioSummary(scenario));
+    } catch (error) {
+      logger.error("Failed to create scenario", error);
+      res.status(500).json({ message: "Failed to create scenario" });
+    }
+  });
+
+  app.get("/api/scenarios/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+
+      const scenario = await storage.getStrategyScenario(req.params.id);
+      if (!scenario) return res.status(404).json({ message: "Scenario not found" });
+      const denied = await checkScenarioAccess(user, await storage.getStrategy(scenario.strategyId), false);
+      if (denied) return res.status(denied.status).json({ message: denied.message });
+
+      res.json({ ...scenarioSummary(scenario), plan: JSON.parse(scenario.planData) as ScenarioPlan });
+    } catch (error) {
+      logger.error("Failed to fetch scenario", error);
+      res.status(500).json({ message: "Failed to fetch scenario" });
+    }
+  });
+
+  app.patch("/api/scenarios/:id", isAuthenticated, validateBody(insertStrategyScenarioSchema.partial()), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+
+      const scenario = await storage.getStrategyScenario(req.params.id);
+      if (!scenario) return res.status(404).json({ message: "Scenario not found" });
+      const denied = await checkScenarioAccess(user, await storage.getStrategy(scenario.strategyId), true);
+      if (denied) return res.status(denied.status).json({ message: denied.message });
+
+      const { name, description } = insertStrategyScenarioSchema.partial().parse(req.body);
+      const updated = await storage.updateStrategyScenario(scenario.id, {
+        ...(name !== undefined && { name }),
+        ...(description !== undefined && { description }),
+      });
+      res.json(scenarioSummary(updated!));
+    } catch (error) {
+      logger.error("Failed to update scenario", error);
+      res.status(500).json({ message: "Failed to update scenario" });
+    }
+  });
+
+  app.patch("/api/scenarios/:id/projects/:projectId", isAuthenticated, validateBody(updateScenarioProjectSchema), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+
+      const scenario = await storage.getStrategyScenario(req.params.id);
+      if (!scenario) return res.status(404).json({ message: "Scenario not found" });
+      const denied = await checkScenarioAccess(user, await storage.getStrategy(scenario.strategyId), true);
+      if (denied) return res.status(denied.status).json({ message: denied.message });
+      if (scenario.status === 'promoted') {
+        return res.status(409).json({ message: "This scenario has already been promoted" });
+      }
+
+      const plan = JSON.parse(scenario.planData) as ScenarioPlan;
+      const project = plan.projects.find(p => p.id === req.params.projectId);
+      if (!project) return res.status(404).json({ message: "Project not found in this scenario" });
+
+      const { startDate, dueDate, shiftDays, dropped } = updateScenarioProjectSchema.parse(req.body);
+      if (shiftDays) {
+        const shift = (value: string | null) =>
+          value ? new Date(new Date(value).getTime() + shiftDays * 24 * 60 * 60 * 1000).toISOString() : null;
+        project.startDate = shift(project.startDate);
+        project.dueDate = shift(project.dueDate);
+        for (const action of plan.actions.filter(a => a.projectId === project.id)) {
+          action.dueDate = shift(action.dueDate);
+          action.plannedStart = shift(action.plannedStart);
+          action.plannedEnd = shift(action.plannedEnd);
+        }
+      }
+      if (startDate) project.startDate = startDate.toISOString();
+      if (dueDate) project.dueDate = dueDate.toISOString();
+      if (project.startDate && project.dueDate && !validateDateRange(new Date(project.startDate), new Date(project.dueDate))) {
+        return res.status(400).json({ message: "Due date must be on or after the start date" });
+      }
+      if (dropped !== undefined) project.dropped = dropped;
+
+      const updated = await storage.updateStrategyScenario(scenario.id, { planData: JSON.stringify(plan) });
+      res.json({ ...scenarioSummary(updated!), plan });
+    } catch (error) {
+      logger.error("Failed to update scenario project", error);
+      res.status(500).json({ message: "Failed to update scenario project" });
+    }
+  });
+
+  app.patch("/api/scenarios/:id/actions/:actionId", isAuthenticated, validateBody(updateScenarioActionSchema), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+
+      const scenario = await storage.getStrategyScenario(req.params.id);
+      if (!scenario) return res.status(404).json({ message: "Scenario not found" });
+      const denied = await checkScenarioAccess(user, await storage.getStrategy(scenario.strategyId), true);
+      if (denied) return res.status(denied.status).json({ message: denied.message });
+      if (scenario.status === 'promoted') {
+        return res.status(409).json({ message: "This scenario has already been promoted" });
+      }
+
+      const plan = JSON.parse(scenario.planData) as ScenarioPlan;
+      const action = plan.actions.find(a => a.id === req.params.actionId);
+      if (!action) return res.status(404).json({ message: "Action not found in this scenario" });
+
+      const { dueDate, plannedStart, plannedEnd, durationDays, dropped } = updateScenarioActionSchema.parse(req.body);
+      if (dueDate !== undefined) action.dueDate = dueDate ? dueDate.toISOString() : null;
+      if (plannedStart !== undefined) action.plannedStart = plannedStart ? plannedStart.toISOString() : null;
+      if (plannedEnd !== undefined) action.plannedEnd = plannedEnd ? plannedEnd.toISOString() : null;
+      if (action.plannedStart && action.plannedEnd && !validateDateRange(new Date(action.plannedStart), new Date(action.plannedEnd))) {
+        return res.status(400).json({ message: "Planned end must be on or after the planned start" });
+      }
+      if (durationDays !== undefined) action.durationDays = durationDays;
+      if (dropped !== undefined) action.dropped = dropped;
+
+      const updated = await storage.updateStrategyScenario(scenario.id, { planData: JSON.stringify(plan) });
+      res.json({ ...scenarioSummary(updated!), plan });
+    } catch (error) {
+      logger.error("Failed to update scenario action", error);
+      res.status(500).json({ message: "Failed to update scenario action" });
+    }
+  });
+
+  app.delete("/api/scenarios/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+
+      const scenario = await storage.getStrategyScenario(req.params.id);
+      if (!scenario) return res.status(404).json({ message: "Scenario not found" });
+      const denied = await checkScenarioAccess(user, await storage.getStrategy(scenario.strategyId), true);
+      if (denied) return res.status(denied.status).json({ message: denied.message });
+
+      await storage.deleteStrategyScenario(scenario.id);
+      res.status(204).send();
+    } catch (error) {
+      logger.error("Failed to delete scenario", error);
+      res.status(500).json({ message: "Failed to delete scenario" });
+    }
+  });
+
+  // Critical path of the sandbox plan, in the same shape as /api/workstream-calculations
+  app.get("/api/scenarios/:id/calculations", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+
+      const scenario = await storage.getStrategyScenario(req.params.id);
+      if (!scenario) return res.status(404).json({ message: "Scenario not found" });
+      const denied = await checkScenarioAccess(user, await storage.getStrategy(scenario.strategyId), false);
+      if (denied) return res.status(denied.status).json({ message: denied.message });
+
+      res.json(scenarioCriticalPath(JSON.parse(scenario.planData) as ScenarioPlan));
+    } catch (error) {
+      logger.error("Failed to calculate scenario critical path", error);
+      res.status(500).json({ message: "Failed to calculate scenario critical path" });
+    }
+  });
+
+  app.get("/api/scenarios/:id/comparison", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+
+      const scenario = await storage.getStrategyScenario(req.params.id);
+      if (!scenario) return res.status(404).json({ message: "Scenario not found" });
+      const denied = await checkScenarioAccess(user, await storage.getStrategy(scenario.strategyId), false);
+      if (denied) return res.status(denied.status).json({ message: denied.message });
+
+      res.json(await compareScenario(scenario));
+    } catch (error) {
+      logger.error("Failed to compare scenario", error);
+      res.status(500).json({ message: "Failed to compare scenario" });
+    }
+  });
+
+  // Apply the sandbox edits to the live strategy. Dropped projects and actions go to the recycle bin.
+  app.post("/api/scenarios/:id/promote", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      if (user.role !== 'administrator' && user.isSuperAdmin !== 'true') {
+        return res.status(403).json({ message: "Only administrators can promote scenarios" });
+      }
+
+      const scenario = await storage.getStrategyScenario(req.params.id);
+      if (!scenario) return res.status(404).json({ message: "Scenario not found" });
+      const denied = await checkScenarioAccess(user, await storage.getStrategy(scenario.strategyId), true);
+      if (denied) return res.status(denied.status).json({ message: denied.message });
+      if (scenario.status === 'promoted') {
+        return res.status(409).json({ message: "This scenario has already been promoted" });
+      }
+
+      const comparison = await compareScenario(scenario);
+      if (comparison.conflicts.length > 0 && req.body?.force !== true) {
+        return res.status(409).json({
+          message: "The live plan has changed since this scenario was created",
+          conflicts: comparison.conflicts,
+        });
+      }
+
+      const changedProjects = comparison.projects.filter(p => p.changed && !p.dropped);
+      const changedActions = changedProjects.flatMap(p => p.actions.filter(a => a.changed && !a.dropped));
+      const before = {
+        projects: await Promise.all(changedProjects.map(p => storage.getProject(p.projectId))),
+        actions: await Promise.all(changedActions.map(a => storage.getAction(a.id))),
+      };
+
+      const result = await storage.promoteStrategyScenario(scenario.id, userId);
+
+      for (const project of before.projects) {
+        if (!project) continue;
+        const after = await storage.getProject(project.id);
+        if (after) {
+          await storage.recordChangeHistory('project', project, after, userId);
+          await emitLifecycleWebhooks('project', project, after);
+        }
+      }
+      for (const action of before.actions) {
+        if (!action) continue;
+        const after = await storage.getAction(action.id);
+        if (after) {
+          await storage.recordChangeHistory('action', action, after, userId);
+          await emitLifecycleWebhooks('action', action, after);
+        }
+      }
+      for (const project of changedProjects) {
+        await storage.recalculateProjectProgress(project.projectId);
+      }
+      await storage.recalculateStrategyProgress(scenario.strategyId);
+
+      await storage.createActivity({
+        type: 'scenario_promoted',
+        description: `Promoted scenario "${scenario.name}"`,
+        userId,
+        strategyId: scenario.strategyId,
+        organizationId: scenario.organizationId,
+      });
+
+      res.json(result);
+    } catch (error) {
+      logger.error("Failed to promote scenario", error);
+      res.status(500).json({ message: "Failed to promote scenario" });
+    }
+  });
+
+  // ==================== CHANGE HISTORY ROUTES ====================
+
+  // Resolves the record behind /api/:entity/:id/... so organization and strategy access
+  // can be checked the same way for history and comments
+  type EntityRecord = { entityType: string; organizationId: string | null; strategyId: string | null; title: string };
+
+  const resolveEntityRecord = async (entity: string, id: string): Promise<EntityRecord | null | undefined> => {
+    switch (entity) {
+      case 'strategies': {
+        const strategy = await storage.getStrategy(id);
+        return strategy && { entityType: 'strategy', organizationId: strategy.organizationId, strategyId: strategy.id, title: strategy.title };
+      }
+      case 'projects': {
+        const project = await storage.getProject(id);
+        return project && { entityType: 'project', organizationId: project.organizationId, strategyId: project.strategyId, title: project.title };
+      }
+      case 'actions': {
+        const action = await storage.getAction(id);
+        return action && { entityType: 'action', organizationId: action.organizationId, strategyId: action.strategyId, title: action.title };
+      }
+      case 'barriers': {
+        const barrier = await storage.getBarrier(id);
+        const project = barrier ? await storage.getProject(barrier.projectId) : undefined;
+        return barrier && {
+          entityType: 'barrier',
+          organizationId: barrier.organizationId ?? project?.organizationId ?? null,
+          strategyId: project?.strategyId ?? null,
+          title: barrier.title,
+        };
+      }
+      case 'decisions': {
+        const decision = await storage.getDecision(id);
+        return decision && { entityType: 'decision', organizationId: decision.organizationId, strategyId: decision.strategyId, title: decision.title };
+      }
+      default:
+        return null;
+    }
+  };
+
+  const checkEntityAccess = async (user: User, record: EntityRecord): Promise<{ status: number; message: string } | null> => {
+    if (user.isSuperAdmin !== 'true' && user.organizationId !== record.organizationId) {
+      return { status: 403, message: "Access denied" };
+    }
+    if (record.strategyId && user.role !== 'administrator' && user.isSuperAdmin !== 'true') {
+      const assignedStrategyIds = await storage.getUserAssignedStrategyIds(user.id);
+      if (!assignedStrategyIds.includes(record.strategyId)) {
+        return { status: 403, message: "Forbidden: You do not have access to this strategy" };
+      }
+    }
+    return null;
+  };
+
+  app.get("/api/:entity/:id/history", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+
+      const record = await resolveEntityRecord(req.params.entity, req.params.id);
+      if (record === null) return res.status(404).json({ message: "History is not available for this entity" });
+      if (!record) return res.status(404).json({ message: "Record not found" });
+      const denied = await checkEntityAccess(user, record);
+      if (denied) return res.status(denied.status).json({ message: denied.message });
+
+      const history = await storage.getChangeHistory(record.entityType, req.params.id);
+      res.json(history.map(entry => ({ ...entry, changes: JSON.parse(entry.changes) })));
+    } catch (error) {
+      logger.error("Failed to fetch change history", error);
+      res.status(500).json({ message: "Failed to fetch change history" });
+    }
+  });
+
+  // ==================== COMMENT ROUTES ====================
+
+  const commentEntities: Record<string, CommentEntityType> = {
+    projects: 'project',
+    actions: 'action',
+    barriers: 'barrier',
+    decisions: 'decision',
+  };
+
+  // Only people in the comment's organization can be mentioned; anything else in the body stays plain text
+  const resolveMentions = async (body: string, organizationId: string | null) => {
+    const orgUserIds = new Set(organizationId ? (await getUsersByOrganization(organizationId)).map(u => u.id) : []);
+    return extractMentionedUserIds(body).filter(id => orgUserIds.has(id));
+  };
+
+  const displayName = (user: User) => `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email || 'Someone';
+
+  const serializeComment = (comment: Comment) => ({ ...comment, mentions: JSON.parse(comment.mentions) as string[] });
+
+  app.get("/api/comments/counts", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      if (!user.organizationId) return res.json({ project: {}, action: {} });
+
+      const [project, action] = await Promise.all([
+        storage.getCommentCounts(user.organizationId, 'project'),
+        storage.getCommentCounts(user.organizationId, 'action'),
+      ]);
+      res.json({ project, action });
+    } catch (error) {
+      logger.error("Failed to fetch comment counts", error);
+      res.status(500).json({ message: "Failed to fetch comment counts" });
+    }
+  });
+
+  app.get("/api/:entity/:id/comments", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+
+      const entityType = commentEntities[req.params.entity];
+      if (!entityType) return res.status(404).json({ message: "Comments are not available for this entity" });
+      const record = await resolveEntityRecord(req.params.entity, req.params.id);
+      if (!record) return res.status(404).json({ message: "Record not found" });
+      const denied = await checkEntityAccess(user, record);
+      if (denied) return res.status(denied.status).json({ message: denied.message });
+
+      const thread = await storage.getComments(entityType, req.params.id);
+      res.json(thread.map(serializeComment));
+    } catch (error) {
+      logger.error("Failed to fetch comments", error);
+      res.status(500).json({ message: "Failed to fetch comments" });
+    }
+  });
+
+  app.post("/api/:entity/:id/comments", isAuthenticated, validateBody(insertCommentSchema), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+
+      const entityType = commentEntities[req.params.entity];
+      if (!entityType) return res.status(404).json({ message: "Comments are not available for this entity" });
+      const record = await resolveEntityRecord(req.params.entity, req.params.id);
+      if (!record) return res.status(404).json({ message: "Record not found" });
+      const denied = await checkEntityAccess(user, record);
+      if (denied) return res.status(denied.status).json({ message: denied.message });
+      if (!record.organizationId) return res.status(400).json({ message: "Record has no organization" });
+
+      if (req.body.parentId) {
+        const parent = await storage.getComment(req.body.parentId);
+        if (!parent || parent.entityType !== entityType || parent.entityId !== req.params.id) {
+          return res.status(400).json({ message: "Reply target not found" });
+        }
+        if (parent.parentId) return res.status(400).json({ message: "Replies cannot be nested" });
+      }
+
+      const mentions = await resolveMentions(req.body.body, record.organizationId);
+      const comment = await storage.createComment({
+        body: req.body.body,
+        parentId: req.body.parentId ?? null,
+        entityType,
+        entityId: req.params.id,
+        authorId: userId,
+        organizationId: record.organizationId,
+        mentions,
+      });
+
+      const mentioned = mentions.filter(id => id !== userId);
+      if (mentioned.length > 0) {
+        await notifyCommentMention(mentioned, displayName(user), entityType, req.params.id, record.title);
+      }
+
+      res.status(201).json(serializeComment(comment));
+    } catch (error) {
+      logger.error("Failed to create comment", error);
+      res.status(500).json({ message: "Failed to create comment" });
+    }
+  });
+
+  app.patch("/api/comments/:id", isAuthenticated, validateBody(updateCommentSchema), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+
+      const existing = await storage.getComment(req.params.id);
+      if (!existing || existing.deletedAt) return res.status(404).json({ message: "Comment not found" });
+      if (existing.authorId !== userId) {
+        return res.status(403).json({ message: "Only the author can edit a comment" });
+      }
+
+      const mentions = await resolveMentions(req.body.body, existing.organizationId);
+      const comment = await storage.updateComment(req.params.id, req.body.body, mentions);
+      if (!comment) return res.status(404).json({ message: "Comment not found" });
+
+      // Only people added by this edit hear about it; the rest were notified when first mentioned
+      const previous = new Set(JSON.parse(existing.mentions) as string[]);
+      const added = mentions.filter(id => !previous.has(id) && id !== userId);
+      if (added.length > 0) {
+        const record = await resolveEntityRecord(`${existing.entityType}s`, existing.entityId);
+        if (record) {
+          await notifyCommentMention(added, displayName(user), existing.entityType, existing.entityId, record.title);
+        }
+      }
+
+      res.json(serializeComment(comment));
+    } catch (error) {
+      logger.error("Failed to update comment", error);
+      res.status(500).json({ message: "Failed to update comment" });
+    }
+  });
+
+  app.delete("/api/comments/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+
+      const existing = await storage.getComment(req.params.id);
+      if (!existing || existing.deletedAt) return res.status(404).json({ message: "Comment not found" });
+      if (existing.authorId !== userId) {
+        return res.status(403).json({ message: "Only the author can delete a comment" });
+      }
+
+      await storage.deleteComment(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      logger.error("Failed to delete comment", error);
+      res.status(500).json({ message: "Failed to delete comment" });
+    }
+  });
+
+  // ==================== FOLLOW ROUTES ====================
+
+  const followEntityPaths: Record<FollowableEntityType, string> = {
+    strategy: 'strategies',
+    project: 'projects',
+    action: 'actions',
+  };
+
+  app.get("/api/follows", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+
+      res.json(await storage.getEntityFollows(userId));
+    } catch (error) {
+      logger.error("Failed to fetch follows", error);
+      res.status(500).json({ message: "Failed to fetch follows" });
+    }
+  });
+
+  app.post("/api/follows", isAuthenticated, validateBody(insertEntityFollowSchema), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+
+      const { entityType, entityId } = req.body as { entityType: FollowableEntityType; entityId: string };
+      const record = await resolveEntityRecord(followEntityPaths[entityType], entityId);
+      if (!record) return res.status(404).json({ message: "Record not found" });
+      const denied = await checkEntityAccess(user, record);
+      if (denied) return res.status(denied.status).json({ message: denied.message });
+      if (!record.organizationId) return res.status(400).json({ message: "Record has no organization" });
+
+      const follow = await storage.followEntity({ userId, organizationId: record.organizationId, entityType, entityId });
+      res.status(201).json(follow);
+    } catch (error) {
+      logger.error("Failed to follow record", error);
+      res.status(500).json({ message: "Failed to follow record" });
+    }
+  });
+
+  app.delete("/api/follows/:entityType/:entityId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+
+      const entityType = req.params.entityType as FollowableEntityType;
+      if (!followableEntityTypes.includes(entityType)) return res.status(404).json({ message: "You are not following this record" });
+      const removed = await storage.unfollowEntity(userId, entityType, req.params.entityId);
+      if (!removed) return res.status(404).json({ message: "You are not following this record" });
+      res.status(204).send();
+    } catch (error) {
+      logger.error("Failed to unfollow record", error);
+      res.status(500).json({ message: "Failed to unfollow record" });
+    }
+  });
+
+  // ==================== STRATEGY DIGEST ROUTES ====================
+
+  // The strategy, if the user may see it; otherwise the error response has been sent
+  const getDigestStrategy = async (req: any, res: any): Promise<{ user: User; strategy: Strategy } | undefined> => {
+    const userId = req.user?.claims?.sub;
+    if (!userId) {
+      res.status(401).json({ message: "User not authenticated" });
+      return undefined;
+    }
+    const user = await storage.getUser(userId);
+    if (!user) {
+      res.status(401).json({ message: "User not found" });
+      return undefined;
+    }
+    const strategy = await storage.getStrategy(req.params.id);
+    if (!strategy) {
+      res.status(404).json({ message: "Strategy not found" });
+      return undefined;
+    }
+    const denied = await checkEntityAccess(user, { entityType: 'strategy', organizationId: strategy.organizationId, strategyId: strategy.id, title: strategy.title });
+    if (denied) {
+      res.status(denied.status).json({ message: denied.message });
+      return undefined;
+    }
+    // Digests are status reports
+    if (!(await hasCapability(user, 'view_reports', strategy.id))) {
+      res.status(403).json({ message: "Forbidden: Your role cannot view reports" });
+      return undefined;
+    }
+    return { user, strategy };
+  };
+
+  // The last seven days so far, not stored or sent
+  app.get("/api/strategies/:id/digest-preview", isAuthenticated, async (req: any, res) => {
+    try {
+      const found = await getDigestStrategy(req, res);
+      if (!found) return;
+
+      const periodEnd = new Date();
+      res.json(await buildStrategyDigest(found.strategy, new Date(periodEnd.getTime() - DIGEST_PERIOD_MS), periodEnd));
+    } catch (error) {
+      logger.error("Failed to build strategy digest", error);
+      res.status(500).json({ message: "Failed to build strategy digest" });
+    }
+  });
+
+  app.get("/api/strategies/:id/digests", isAuthenticated, async (req: any, res) => {
+    try {
+      const found = await getDigestStrategy(req, res);
+      if (!found) return;
+
+      const digests = await storage.getStrategyDigests(found.strategy.id);
+      res.json(digests.map(({ content, ...digest }) => digest));
+    } catch (error) {
+      logger.error("Failed to fetch strategy digests", error);
+      res.status(500).json({ message: "Failed to fetch strategy digests" });
+    }
+  });
+
+  app.get("/api/strategies/:id/digests/:digestId", isAuthenticated, async (req: any, res) => {
+    try {
+      const found = await getDigestStrategy(req, res);
+      if (!found) return;
+
+      const digest = await storage.getStrategyDigest(req.params.digestId);
+      if (!digest || digest.strategyId !== found.strategy.id) return res.status(404).json({ message: "Digest not found" });
+      res.json({ ...digest, content: parseDigestContent(digest) });
+    } catch (error) {
+      logger.error("Failed to fetch strategy digest", error);
+      res.status(500).json({ message: "Failed to fetch strategy digest" });
+    }
+  });
+
+  // Send the last seven days now instead of waiting for Monday
+  app.post("/api/strategies/:id/digests", isAuthenticated, async (req: any, res) => {
+    try {
+      const found = await getDigestStrategy(req, res);
+      if (!found) return;
+      if (!(await hasCapability(found.user, 'send_digests', found.strategy.id))) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot send digests" });
+      }
+
+      const periodEnd = new Date();
+      const digest = await generateStrategyDigest(
+        found.strategy, new Date(periodEnd.getTime() - DIGEST_PERIOD_MS), periodEnd, 'manual', found.user.id,
+      );
+      if (!digest) return res.status(409).json({ message: "A digest was just sent for this strategy" });
+      res.status(201).json({ ...digest, content: parseDigestContent(digest) });
+    } catch (error) {
+      logger.error("Failed to send strategy digest", error);
+      res.status(500).json({ message: "Failed to send strategy digest" });
+    }
+  });
+
+  // ==================== REMINDER SETTINGS ROUTES ====================
+
+  app.get("/api/admin/reminder-settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      if (!user.organizationId) return res.status(400).json({ message: "User has no organization" });
+
+      const org = await getOrganization(user.organizationId);
+      if (!org) return res.status(404).json({ message: "Organization not found" });
+      res.json({
+        dueOffsets: parseReminderOffsets(org.reminderDueOffsets, DEFAULT_REMINDER_DUE_OFFSETS),
+        overdueOffsets: parseReminderOffsets(org.reminderOverdueOffsets, DEFAULT_REMINDER_OVERDUE_OFFSETS),
+      });
+    } catch (error) {
+      logger.error("Failed to fetch reminder settings", error);
+      res.status(500).json({ message: "Failed to fetch reminder settings" });
+    }
+  });
+
+  app.patch("/api/admin/reminder-settings", isAuthenticated, validateBody(reminderOffsetsSchema), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      if (user.role !== 'administrator') {
+        return res.status(403).json({ message: "Only administrators can change reminder settings" });
+      }
+      if (!user.organizationId) return res.status(400).json({ message: "User has no organization" });
+
+      const { dueOffsets, overdueOffsets }: ReminderOffsets = req.body;
+      const sortedDue = Array.from(new Set(dueOffsets)).sort((a, b) => b - a);
+      const sortedOverdue = Array.from(new Set(overdueOffsets)).sort((a, b) => a - b);
+      const org = await updateOrganizationReminderOffsets(user.organizationId, sortedDue, sortedOverdue);
+      if (!org) return res.status(404).json({ message: "Organization not found" });
+      res.json({ dueOffsets: sortedDue, overdueOffsets: sortedOverdue });
+    } catch (error) {
+      logger.error("Failed to update reminder settings", error);
+      res.status(500).json({ message: "Failed to update reminder settings" });
+    }
+  });
+
+  // ==================== PROJECT WAKE-UP SETTINGS ROUTES ====================
+
+  app.get("/api/admin/project-wake-up-settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      if (!user.organizationId) return res.status(400).json({ message: "User has no organization" });
+
+      const org = await getOrganization(user.organizationId);
+      if (!org) return res.status(404).json({ message: "Organization not found" });
+      res.json({ wakeUpAction: org.projectWakeUpAction });
+    } catch (error) {
+      logger.error("Failed to fetch project wake-up settings", error);
+      res.status(500).json({ message: "Failed to fetch project wake-up settings" });
+    }
+  });
+
+  app.patch("/api/admin/project-wake-up-settings", isAuthenticated, validateBody(z.object({
+    wakeUpAction: z.enum(projectWakeUpActions),
+  })), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      if (user.role !== 'administrator') {
+        return res.status(403).json({ message: "Only administrators can change project wake-up settings" });
+      }
+      if (!user.organizationId) return res.status(400).json({ message: "User has no organization" });
+
+      const org = await updateOrganizationProjectWakeUpAction(user.organizationId, req.body.wakeUpAction);
+      if (!org) return res.status(404).json({ message: "Organization not found" });
+      res.json({ wakeUpAction: org.projectWakeUpAction });
+    } catch (error) {
+      logger.error("Failed to update project wake-up settings", error);
+      res.status(500).json({ message: "Failed to update project wake-up settings" });
+    }
+  });
+
+  // ==================== TWO-FACTOR POLICY ROUTES ====================
+
+  // Administrators who would be sent to authenticator enrollment at their next page load
+  const countAdminsWithoutTotp = async (organizationId: string) => {
+    const members = await getUsersByOrganization(organizationId);
+    return members.filter(m => m.role === 'administrator' && !(m.twoFactorEnabled === 'true' && m.twoFactorMethod === 'totp')).length;
+  };
+
+  app.get("/api/admin/two-factor-policy", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      if (user.role !== 'administrator') {
+        return res.status(403).json({ message: "Only administrators can view the two-factor policy" });
+      }
+      if (!user.organizationId) return res.status(400).json({ message: "User has no organization" });
+
+      const org = await getOrganization(user.organizationId);
+      if (!org) return res.status(404).json({ message: "Organization not found" });
+      res.json({
+        requireAdminTotp: org.requireAdminTotp === 'true',
+        adminsWithoutTotp: await countAdminsWithoutTotp(org.id),
+      });
+    } catch (error) {
+      logger.error("Failed to fetch two-factor policy", error);
+      res.status(500).json({ message: "Failed to fetch two-factor policy" });
+    }
+  });
+
+  app.patch("/api/admin/two-factor-policy", isAuthenticated, validateBody(twoFactorPolicySchema), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      if (user.role !== 'administrator') {
+        return res.status(403).json({ message: "Only administrators can change the two-factor policy" });
+      }
+      if (!user.organizationId) return res.status(400).json({ message: "User has no organization" });
+
+      const org = await updateOrganizationRequireAdminTotp(user.organizationId, req.body.requireAdminTotp);
+      if (!org) return res.status(404).json({ message: "Organization not found" });
+      logger.info(`[SECURITY] Authenticator app requirement for administrators ${req.body.requireAdminTotp ? 'enabled' : 'disabled'} for org ${org.id} by ${user.id}`);
+      res.json({
+        requireAdminTotp: org.requireAdminTotp === 'true',
+        adminsWithoutTotp: await countAdminsWithoutTotp(org.id),
+      });
+    } catch (error) {
+      logger.error("Failed to update two-factor policy", error);
+      res.status(500).json({ message: "Failed to update two-factor policy" });
+    }
+  });
+
+  // ==================== WEBHOOK ROUTES ====================
+
+  // The secret is never listed; it is returned once when a subscription is created or its secret rotated
+  const toWebhookResponse = ({ secret, ...subscription }: WebhookSubscription) => ({
+    ...subscription,
+    events: parseWebhookEvents(subscription.events),
+  });
+
+  // Resolves the signed-in administrator and their organization, or sends the error response and returns undefined
+  const getOrganizationAdmin = async (req: any, res: Response, purpose: string) => {
+    const userId = req.user?.claims?.sub;
+    if (!userId) {
+      res.status(401).json({ message: "User not authenticated" });
+      return undefined;
+    }
+    const user = await storage.getUser(userId);
+    if (!user) {
+      res.status(401).json({ message: "User not found" });
+      return undefined;
+    }
+    if (user.role !== 'administrator') {
+      res.status(403).json({ message: `Only administrators can ${purpose}` });
+      return undefined;
+    }
+    if (!user.organizationId) {
+      res.status(400).json({ message: "User has no organization" });
+      return undefined;
+    }
+    return { ...user, organizationId: user.organizationId };
+  };
+
+  // Webhook and chat URLs are fetched by the server; the same check runs again before every request
+  const ensureOutboundUrl = async (url: string, res: any): Promise<boolean> => {
+    try {
+      await assertPublicUrl(url);
+      return true;
+    } catch (error) {
+      if (!(error instanceof OutboundUrlError)) throw error;
+      res.status(400).json({ message: error.message });
+      return false;
+    }
+  };
+
+  app.get("/api/admin/webhooks", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage webhooks');
+      if (!user) return;
+      const subscriptions = await storage.getWebhookSubscriptions(user.organizationId);
+      res.json({ subscriptions: subscriptions.map(toWebhookResponse), events: webhookEvents });
+    } catch (error) {
+      logger.error("Failed to fetch webhooks", error);
+      res.status(500).json({ message: "Failed to fetch webhooks" });
+    }
+  });
+
+  app.post("/api/admin/webhooks", isAuthenticated, validateBody(insertWebhookSubscriptionSchema), async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage webhooks');
+      if (!user) return;
+      const data = insertWebhookSubscriptionSchema.parse(req.body);
+      if (!(await ensureOutboundUrl(data.url, res))) return;
+      const subscription = await storage.createWebhookSubscription({
+        ...data,
+        organizationId: user.organizationId,
+        secret: generateWebhookSecret(),
+        createdBy: user.id,
+      });
+      res.status(201).json({ ...toWebhookResponse(subscription), secret: subscription.secret });
+    } catch (error) {
+      logger.error("Failed to create webhook", error);
+      res.status(500).json({ message: "Failed to create webhook" });
+    }
+  });
+
+  app.patch("/api/admin/webhooks/:id", isAuthenticated, validateBody(updateWebhookSubscriptionSchema), async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage webhooks');
+      if (!user) return;
+      const existing = await storage.getWebhookSubscription(req.params.id);
+      if (!existing || existing.organizationId !== user.organizationId) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      const updates = updateWebhookSubscriptionSchema.parse(req.body);
+      if (updates.url && !(await ensureOutboundUrl(updates.url, res))) return;
+      const subscription = await storage.updateWebhookSubscription(req.params.id, updates);
+      if (!subscription) return res.status(404).json({ message: "Webhook not found" });
+      res.json(toWebhookResponse(subscription));
+    } catch (error) {
+      logger.error("Failed to update webhook", error);
+      res.status(500).json({ message: "Failed to update webhook" });
+    }
+  });
+
+  app.post("/api/admin/webhooks/:id/rotate-secret", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage webhooks');
+      if (!user) return;
+      const existing = await storage.getWebhookSubscription(req.params.id);
+      if (!existing || existing.organizationId !== user.organizationId) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      const subscription = await storage.updateWebhookSubscription(req.params.id, { secret: generateWebhookSecret() });
+      if (!subscription) return res.status(404).json({ message: "Webhook not found" });
+      res.json({ ...toWebhookResponse(subscription), secret: subscription.secret });
+    } catch (error) {
+      logger.error("Failed to rotate webhook secret", error);
+      res.status(500).json({ message: "Failed to rotate webhook secret" });
+    }
+  });
+
+  app.delete("/api/admin/webhooks/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage webhooks');
+      if (!user) return;
+      const existing = await storage.getWebhookSubscription(req.params.id);
+      if (!existing || existing.organizationId !== user.organizationId) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      await storage.deleteWebhookSubscription(req.params.id);
+      res.json({ message: "Webhook deleted" });
+    } catch (error) {
+      logger.error("Failed to delete webhook", error);
+      res.status(500).json({ message: "Failed to delete webhook" });
+    }
+  });
+
+  app.get("/api/admin/webhook-deliveries", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage webhooks');
+      if (!user) return;
+      const subscriptionId = typeof req.query.subscriptionId === 'string' ? req.query.subscriptionId : undefined;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 50, 1), 200);
+      const deliveries = await storage.getWebhookDeliveries(user.organizationId, subscriptionId, limit);
+      res.json(deliveries);
+    } catch (error) {
+      logger.error("Failed to fetch webhook deliveries", error);
+      res.status(500).json({ message: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  app.post("/api/admin/webhook-deliveries/:id/replay", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage webhooks');
+      if (!user) return;
+      const original = await storage.getWebhookDelivery(req.params.id);
+      if (!original || original.organizationId !== user.organizationId) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      const delivery = await replayWebhookDelivery(original);
+      if (!delivery) return res.status(404).json({ message: "Webhook not found" });
+      res.status(201).json(delivery);
+    } catch (error) {
+      logger.error("Failed to replay webhook delivery", error);
+      res.status(500).json({ message: "Failed to replay webhook delivery" });
+    }
+  });
+
+  // ==================== ESCALATION RULE ROUTES ====================
+
+  const toEscalationRuleResponse = (rule: EscalationRule) => ({ ...rule, ...parseEscalationRule(rule) });
+
+  app.get("/api/admin/escalation-rules", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage escalation rules');
+      if (!user) return;
+      const rules = await storage.getEscalationRules(user.organizationId);
+      res.json(rules.map(toEscalationRuleResponse));
+    } catch (error) {
+      logger.error("Failed to fetch escalation rules", error);
+      res.status(500).json({ message: "Failed to fetch escalation rules" });
+    }
+  });
+
+  app.post("/api/admin/escalation-rules", isAuthenticated, validateBody(insertEscalationRuleSchema), async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage escalation rules');
+      if (!user) return;
+      const rule = await storage.createEscalationRule({
+        ...insertEscalationRuleSchema.parse(req.body),
+        organizationId: user.organizationId,
+        createdBy: user.id,
+      });
+      res.status(201).json(toEscalationRuleResponse(rule));
+    } catch (error) {
+      logger.error("Failed to create escalation rule", error);
+      res.status(500).json({ message: "Failed to create escalation rule" });
+    }
+  });
+
+  app.patch("/api/admin/escalation-rules/:id", isAuthenticated, validateBody(updateEscalationRuleSchema), async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage escalation rules');
+      if (!user) return;
+      const existing = await storage.getEscalationRule(req.params.id);
+      if (!existing || existing.organizationId !== user.organizationId) {
+        return res.status(404).json({ message: "Escalation rule not found" });
+      }
+      const updates = updateEscalationRuleSchema.parse(req.body);
+      // Changing the entity type can invalidate the stored conditions, so the merged rule is checked as a whole
+      const merged = insertEscalationRuleSchema.safeParse({ ...parseEscalationRule(existing), isActive: existing.isActive, ...updates });
+      if (!merged.success) {
+        return res.status(400).json({
+          message: "Invalid input data",
+          errors: merged.error.errors.map(e => ({ field: e.path.join('.'), message: e.message })),
+        });
+      }
+      const rule = await storage.updateEscalationRule(req.params.id, updates);
+      if (!rule) return res.status(404).json({ message: "Escalation rule not found" });
+      res.json(toEscalationRuleResponse(rule));
+    } catch (error) {
+      logger.error("Failed to update escalation rule", error);
+      res.status(500).json({ message: "Failed to update escalation rule" });
+    }
+  });
+
+  app.delete("/api/admin/escalation-rules/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage escalation rules');
+      if (!user) return;
+      const existing = await storage.getEscalationRule(req.params.id);
+      if (!existing || existing.organizationId !== user.organizationId) {
+        return res.status(404).json({ message: "Escalation rule not found" });
+      }
+      await storage.deleteEscalationRule(req.params.id);
+      res.json({ message: "Escalation rule deleted" });
+    } catch (error) {
+      logger.error("Failed to delete escalation rule", error);
+      res.status(500).json({ message: "Failed to delete escalation rule" });
+    }
+  });
+
+  // Dry run of a rule as currently edited; pass ruleId to flag the items the saved rule has already acted on
+  app.post("/api/admin/escalation-rules/preview", isAuthenticated, validateBody(insertEscalationRuleSchema.and(z.object({ ruleId: z.string().optional() }))), async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage escalation rules');
+      if (!user) return;
+      const rule = insertEscalationRuleSchema.parse(req.body);
+      const ruleId = typeof req.body.ruleId === 'string' ? req.body.ruleId : undefined;
+      if (ruleId) {
+        const existing = await storage.getEscalationRule(ruleId);
+        if (!existing || existing.organizationId !== user.organizationId) {
+          return res.status(404).json({ message: "Escalation rule not found" });
+        }
+      }
+      const matches = await previewEscalationRule(user.organizationId, rule, ruleId);
+      res.json({ matches });
+    } catch (error) {
+      logger.error("Failed to preview escalation rule", error);
+      res.status(500).json({ message: "Failed to preview escalation rule" });
+    }
+  });
+
+  app.post("/api/admin/escalation-rules/:id/run", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage escalation rules');
+      if (!user) return;
+      const rule = await storage.getEscalationRule(req.params.id);
+      if (!rule || rule.organizationId !== user.organizationId) {
+        return res.status(404).json({ message: "Escalation rule not found" });
+      }
+      const actedOn = await executeEscalationRule(rule);
+      res.json({ actedOn });
+    } catch (error) {
+      logger.error("Failed to run escalation rule", error);
+      res.status(500).json({ message: "Failed to run escalation rule" });
+    }
+  });
+
+  app.get("/api/admin/escalation-rule-executions", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage escalation rules');
+      if (!user) return;
+      const ruleId = typeof req.query.ruleId === 'string' ? req.query.ruleId : undefined;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 50, 1), 200);
+      const executions = await storage.getEscalationRuleExecutions(user.organizationId, ruleId, limit);
+      res.json(executions);
+    } catch (error) {
+      logger.error("Failed to fetch escalation rule executions", error);
+      res.status(500).json({ message: "Failed to fetch escalation rule executions" });
+    }
+  });
+
+  // ==================== CHAT CHANNEL ROUTES ====================
+
+  const toChatChannelResponse = ({ webhookUrl, notificationTypes, ...channel }: ChatChannel) => ({
+    ...channel,
+    webhookUrlHint: maskChatWebhookUrl(webhookUrl),
+    notificationTypes: JSON.parse(notificationTypes) as string[],
+  });
+
+  // A channel can only be routed to a strategy in the admin's own organization
+  const isOwnStrategy = async (strategyId: string | null | undefined, organizationId: string) => {
+    if (!strategyId) return true;
+    const strategy = await storage.getStrategy(strategyId);
+    return strategy?.organizationId === organizationId;
+  };
+
+  app.get("/api/admin/chat-channels", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage chat channels');
+      if (!user) return;
+      const channels = await storage.getChatChannels(user.organizationId);
+      const types = (Object.keys(NotificationTypeLabels) as NotificationType[])
+        .filter(type => !PERSONAL_NOTIFICATION_TYPES.has(type))
+        .map(type => ({ type, ...NotificationTypeLabels[type] }));
+      res.json({ channels: channels.map(toChatChannelResponse), types });
+    } catch (error) {
+      logger.error("Failed to fetch chat channels", error);
+      res.status(500).json({ message: "Failed to fetch chat channels" });
+    }
+  });
+
+  app.post("/api/admin/chat-channels", isAuthenticated, validateBody(insertChatChannelSchema), async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage chat channels');
+      if (!user) return;
+      const data = insertChatChannelSchema.parse(req.body);
+      if (!(await isOwnStrategy(data.strategyId, user.organizationId))) {
+        return res.status(400).json({ message: "Strategy not found" });
+      }
+      if (!(await ensureOutboundUrl(data.webhookUrl, res))) return;
+      const channel = await storage.createChatChannel({ ...data, organizationId: user.organizationId, createdBy: user.id });
+      res.status(201).json(toChatChannelResponse(channel));
+    } catch (error) {
+      logger.error("Failed to create chat channel", error);
+      res.status(500).json({ message: "Failed to create chat channel" });
+    }
+  });
+
+  app.patch("/api/admin/chat-channels/:id", isAuthenticated, validateBody(updateChatChannelSchema), async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage chat channels');
+      if (!user) return;
+      const existing = await storage.getChatChannel(req.params.id);
+      if (!existing || existing.organizationId !== user.organizationId) {
+        return res.status(404).json({ message: "Chat channel not found" });
+      }
+      const updates = updateChatChannelSchema.parse(req.body);
+      if (!(await isOwnStrategy(updates.strategyId, user.organizationId))) {
+        return res.status(400).json({ message: "Strategy not found" });
+      }
+      if (updates.webhookUrl && !(await ensureOutboundUrl(updates.webhookUrl, res))) return;
+      const channel = await storage.updateChatChannel(req.params.id, updates);
+      if (!channel) return res.status(404).json({ message: "Chat channel not found" });
+      res.json(toChatChannelResponse(channel));
+    } catch (error) {
+      logger.error("Failed to update chat channel", error);
+      res.status(500).json({ message: "Failed to update chat channel" });
+    }
+  });
+
+  app.delete("/api/admin/chat-channels/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage chat channels');
+      if (!user) return;
+      const existing = await storage.getChatChannel(req.params.id);
+      if (!existing || existing.organizationId !== user.organizationId) {
+        return res.status(404).json({ message: "Chat channel not found" });
+      }
+      await storage.deleteChatChannel(req.params.id);
+      res.json({ message: "Chat channel deleted" });
+    } catch (error) {
+      logger.error("Failed to delete chat channel", error);
+      res.status(500).json({ message: "Failed to delete chat channel" });
+    }
+  });
+
+  app.post("/api/admin/chat-channels/:id/test", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage chat channels');
+      if (!user) return;
+      const channel = await storage.getChatChannel(req.params.id);
+      if (!channel || channel.organizationId !== user.organizationId) {
+        return res.status(404).json({ message: "Chat channel not found" });
+      }
+      const result = await sendTestChatMessage(channel);
+      if (!result.ok) {
+        return res.status(502).json({ message: `The chat service did not accept the message: ${result.error}` });
+      }
+      res.json({ message: "Test message sent" });
+    } catch (error) {
+      logger.error("Failed to send test chat message", error);
+      res.status(500).json({ message: "Failed to send test chat message" });
+    }
+  });
+
+  // ==================== SSO CONFIGURATION ROUTES ====================
+
+  // The client secret is never sent back; the form shows whether one is stored
+  const toSsoResponse = (configuration: OidcConfiguration) => {
+    const { clientSecret, ...settings } = configuration;
+    return {
+      ...settings,
+      hasClientSecret: !!clientSecret,
+      roleMappings: parseRoleMappings(configuration),
+      teamTagMappings: parseTeamTagMappings(configuration),
+      emailDomains: parseEmailDomains(configuration),
+      enforceSso: configuration.enforceSso === 'true',
+      isEnabled: configuration.isEnabled === 'true',
+    };
+  };
+
+  const describeDiscoveryError = (error: unknown) =>
+    `Could not load the identity provider's configuration: ${error instanceof Error ? error.message : String(error)}`;
+
+  app.get("/api/admin/sso", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage single sign-on');
+      if (!user) return;
+      const configuration = await storage.getOidcConfiguration(user.organizationId);
+      res.json({
+        configuration: configuration ? toSsoResponse(configuration) : null,
+        redirectUri: getSsoRedirectUri(),
+        loginUrl: `/api/auth/sso/${user.organizationId}/login`,
+        roles: ssoRoles,
+      });
+    } catch (error) {
+      logger.error("Failed to fetch SSO configuration", error);
+      res.status(500).json({ message: "Failed to fetch SSO configuration" });
+    }
+  });
+
+  app.put("/api/admin/sso", isAuthenticated, validateBody(upsertOidcConfigurationSchema), async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage single sign-on');
+      if (!user) return;
+      const { clientSecret, roleMappings, teamTagMappings, emailDomains, enforceSso, isEnabled, ...settings } =
+        upsertOidcConfigurationSchema.parse(req.body);
+
+      const existing = await storage.getOidcConfiguration(user.organizationId);
+      const secret = clientSecret ?? existing?.clientSecret;
+      if (!secret) {
+        return res.status(400).json({ message: "Client secret is required" });
+      }
+
+      const orgTagIds = new Set((await storage.getTeamTagsByOrganization(user.organizationId)).map(tag => tag.id));
+      if (teamTagMappings.some(mapping => !orgTagIds.has(mapping.teamTagId))) {
+        return res.status(400).json({ message: "Team tag not found" });
+      }
+
+      // A domain can only send people to one organization's identity provider
+      const claimedElsewhere = (await storage.getEnabledOidcConfigurations())
+        .filter(other => other.organizationId !== user.organizationId)
+        .flatMap(parseEmailDomains);
+      const conflict = emailDomains.find(domain => claimedElsewhere.includes(domain));
+      if (conflict) {
+        return res.status(400).json({ message: `${conflict} is already used by another organization's single sign-on` });
+      }
+
+      if (isEnabled) {
+        try {
+          await discoverOidcProvider({ ...settings, clientSecret: secret, updatedAt: new Date() });
+        } catch (error) {
+          return res.status(400).json({ message: describeDiscoveryError(error) });
+        }
+      }
+
+      const configuration = await storage.upsertOidcConfiguration({
+        ...settings,
+        organizationId: user.organizationId,
+        clientSecret: secret,
+        roleMappings: JSON.stringify(roleMappings),
+        teamTagMappings: JSON.stringify(teamTagMappings),
+        emailDomains: JSON.stringify(Array.from(new Set(emailDomains))),
+        enforceSso: enforceSso ? 'true' : 'false',
+        isEnabled: isEnabled ? 'true' : 'false',
+        createdBy: user.id,
+      });
+      logger.info(`[SECURITY] SSO configuration for org ${user.organizationId} updated by ${user.id} (enabled: ${isEnabled}, enforced: ${enforceSso})`);
+      res.json(toSsoResponse(configuration));
+    } catch (error) {
+      logger.error("Failed to save SSO configuration", error);
+      res.status(500).json({ message: "Failed to save SSO configuration" });
+    }
+  });
+
+  app.post("/api/admin/sso/test", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage single sign-on');
+      if (!user) return;
+      const configuration = await storage.getOidcConfiguration(user.organizationId);
+      if (!configuration) {
+        return res.status(404).json({ message: "Single sign-on is not configured" });
+      }
+      try {
+        const provider = await discoverOidcProvider(configuration);
+        const metadata = provider.serverMetadata();
+        res.json({ message: `Connected to ${metadata.issuer}`, issuer: metadata.issuer });
+      } catch (error) {
+        res.status(502).json({ message: describeDiscoveryError(error) });
+      }
+    } catch (error) {
+      logger.error("Failed to test SSO configuration", error);
+      res.status(500).json({ message: "Failed to test SSO configuration" });
+    }
+  });
+
+  app.delete("/api/admin/sso", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage single sign-on');
+      if (!user) return;
+      const deleted = await storage.deleteOidcConfiguration(user.organizationId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Single sign-on is not configured" });
+      }
+      logger.info(`[SECURITY] SSO configuration for org ${user.organizationId} removed by ${user.id}`);
+      res.json({ message: "Single sign-on removed" });
+    } catch (error) {
+      logger.error("Failed to remove SSO configuration", error);
+      res.status(500).json({ message: "Failed to remove SSO configuration" });
+    }
+  });
+
+  // Whether the signed-in user can link, or has linked, their organization's identity provider
+  app.get("/api/sso-link", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user?.claims?.sub);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      const configuration = user.organizationId ? await storage.getOidcConfiguration(user.organizationId) : undefined;
+      const identities = await storage.getOidcIdentitiesByUser(user.id);
+      res.json({
+        available: configuration?.isEnabled === 'true' && user.isSuperAdmin !== 'true',
+        linked: identities.some(identity => identity.organizationId === user.organizationId),
+      });
+    } catch (error) {
+      logger.error("Failed to fetch SSO link status", error);
+      res.status(500).json({ message: "Failed to fetch SSO link status" });
+    }
+  });
+
+  // Starts sign-in at the IdP on behalf of the signed-in user; the callback links the identity to them
+  app.post("/api/sso-link", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user?.claims?.sub);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      if (user.isSuperAdmin === 'true') {
+        return res.status(403).json({ message: "Super admins cannot use single sign-on" });
+      }
+      const configuration = user.organizationId ? await storage.getOidcConfiguration(user.organizationId) : undefined;
+      if (!configuration || configuration.isEnabled !== 'true') {
+        return res.status(404).json({ message: "Single sign-on is not enabled for your organization" });
+      }
+      const authorizationUrl = await buildSsoAuthorizationUrl(configuration, user.email ?? undefined, user.id);
+      logger.info(`[SECURITY] User ${user.id} started linking single sign-on`);
+      res.json({ url: authorizationUrl.href });
+    } catch (error) {
+      logger.error("Failed to start SSO link", error);
+      res.status(500).json({ message: "Could not reach your identity provider. Please try again later." });
+    }
+  });
+
+  // ==================== API TOKEN ROUTES ====================
+
+  // The hash never leaves the server; the token itself is only in the response that creates it
+  const toApiTokenResponse = (token: ApiToken) => {
+    const { tokenHash, ...rest } = token;
+    return { ...rest, scopes: parseApiTokenScopes(token) };
+  };
+
+  app.get("/api/api-tokens", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user?.organizationId) {
+        return res.status(400).json({ message: "User has no organization" });
+      }
+      const tokens = await storage.getApiTokensByUser(user.id);
+      res.json({ tokens: tokens.map(toApiTokenResponse), scopes: await grantableApiTokenScopes(user, apiTokenScopes) });
+    } catch (error) {
+      logger.error("Failed to fetch API tokens", error);
+      res.status(500).json({ message: "Failed to fetch API tokens" });
+    }
+  });
+
+  app.post("/api/api-tokens", isAuthenticated, validateBody(createApiTokenSchema), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user?.organizationId) {
+        return res.status(400).json({ message: "User has no organization" });
+      }
+      const { name, scopes, expiresAt } = createApiTokenSchema.parse(req.body);
+      const grantable = await grantableApiTokenScopes(user, scopes);
+      const refused = scopes.filter(scope => !grantable.includes(scope));
+      if (refused.length > 0) {
+        return res.status(403).json({ message: `Your role cannot grant ${refused.join(", ")}` });
+      }
+
+      const { token, tokenHash, tokenPrefix } = generateApiToken();
+      const created = await storage.createApiToken({
+        userId: user.id,
+        organizationId: user.organizationId,
+        name,
+        tokenPrefix,
+        tokenHash,
+        scopes: JSON.stringify(scopes),
+        expiresAt,
+      });
+      logger.info(`[SECURITY] API token ${created.id} "${name}" created by ${user.id} with scopes ${scopes.join(", ")}`);
+      res.status(201).json({ ...toApiTokenResponse(created), token });
+    } catch (error) {
+      logger.error("Failed to create API token", error);
+      res.status(500).json({ message: "Failed to create API token" });
+    }
+  });
+
+  // Owners can revoke their own tokens; administrators can revoke any token in the organization
+  app.delete("/api/api-tokens/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const token = await storage.getApiToken(req.params.id);
+      const allowed = !!user && !!token && (token.userId === user.id
+        || (user.role === 'administrator' && token.organizationId === user.organizationId));
+      if (!allowed) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+      if (token.revokedAt) {
+        return res.status(400).json({ message: "API token is already revoked" });
+      }
+      const revoked = await storage.revokeApiToken(token.id, user.id);
+      logger.info(`[SECURITY] API token ${token.id} "${token.name}" revoked by ${user.id}`);
+      res.json(toApiTokenResponse(revoked ?? token));
+    } catch (error) {
+      logger.error("Failed to revoke API token", error);
+      res.status(500).json({ message: "Failed to revoke API token" });
+    }
+  });
+
+  app.get("/api/admin/api-tokens", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'view API tokens');
+      if (!user) return;
+      const [tokens, members] = await Promise.all([
+        storage.getApiTokensByOrganization(user.organizationId),
+        getUsersByOrganization(user.organizationId),
+      ]);
+      const owners = new Map(members.map(member => [member.id, member]));
+      res.json(tokens.map(token => {
+        const owner = owners.get(token.userId);
+        return {
+          ...toApiTokenResponse(token),
+          owner: owner ? { id: owner.id, email: owner.email, firstName: owner.firstName, lastName: owner.lastName } : null,
+        };
+      }));
+    } catch (error) {
+      logger.error("Failed to fetch organization API tokens", error);
+      res.status(500).json({ message: "Failed to fetch organization API tokens" });
+    }
+  });
+
+  // ==================== ROLE & PERMISSION ROUTES ====================
+
+  // What the signed-in user may do, so the client can hide controls the server would refuse
+  app.get("/api/permissions/me", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user?.claims?.sub);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      res.json(await getPermissionSummary(user));
+    } catch (error) {
+      logger.error("Failed to fetch permissions", error);
+      res.status(500).json({ message: "Failed to fetch permissions" });
+    }
+  });
+
+  const toCustomRoleResponse = (role: CustomRole, memberCount: number) => ({
+    ...role,
+    capabilities: parseCustomRoleCapabilities(role),
+    memberCount,
+  });
+
+  const isCustomRoleNameTaken = async (organizationId: string, name: string, exceptId?: string) => {
+    const roles = await storage.getCustomRolesByOrganization(organizationId);
+    return roles.some(role => role.id !== exceptId && role.name.toLowerCase() === name.toLowerCase());
+  };
+
+  app.get("/api/admin/roles", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage roles');
+      if (!user) return;
+      const [roles, orgUsers] = await Promise.all([
+        storage.getCustomRolesByOrganization(user.organizationId),
+        getUsersByOrganization(user.organizationId),
+      ]);
+      res.json({
+        capabilities: permissionCapabilities,
+        builtInRoles: builtInRoles.map(role => ({ role, capabilities: builtInRoleCapabilities[role] })),
+        customRoles: roles.map(role => toCustomRoleResponse(role, orgUsers.filter(u => u.customRoleId === role.id).length)),
+      });
+    } catch (error) {
+      logger.error("Failed to fetch roles", error);
+      res.status(500).json({ message: "Failed to fetch roles" });
+    }
+  });
+
+  // Custom roles always start as a clone of a built-in role
+  app.post("/api/admin/roles", isAuthenticated, validateBody(createCustomRoleSchema), async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage roles');
+      if (!user) return;
+      const { name, description, baseRole, capabilities } = createCustomRoleSchema.parse(req.body);
+      if (await isCustomRoleNameTaken(user.organizationId, name)) {
+        return res.status(409).json({ message: "A role with this name already exists" });
+      }
+
+      const role = await storage.createCustomRole({
+        organizationId: user.organizationId,
+        name,
+        description,
+        baseRole,
+        capabilities: JSON.stringify(capabilities ?? builtInRoleCapabilities[baseRole]),
+        createdBy: user.id,
+      });
+      logger.info(`[SECURITY] Custom role "${role.name}" (${role.id}) created from ${baseRole} in org ${user.organizationId} by ${user.id}`);
+      res.status(201).json(toCustomRoleResponse(role, 0));
+    } catch (error) {
+      logger.error("Failed to create role", error);
+      res.status(500).json({ message: "Failed to create role" });
+    }
+  });
+
+  app.patch("/api/admin/roles/:id", isAuthenticated, validateBody(updateCustomRoleSchema), async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage roles');
+      if (!user) return;
+      const existing = await storage.getCustomRole(req.params.id);
+      if (!existing || existing.organizationId !== user.organizationId) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      const { capabilities, ...updates } = updateCustomRoleSchema.parse(req.body);
+      if (updates.name && await isCustomRoleNameTaken(user.organizationId, updates.name, existing.id)) {
+        return res.status(409).json({ message: "A role with this name already exists" });
+      }
+
+      const role = await storage.updateCustomRole(existing.id, {
+        ...updates,
+        ...(capabilities ? { capabilities: JSON.stringify(capabilities) } : {}),
+      });
+      if (!role) return res.status(404).json({ message: "Role not found" });
+      if (capabilities) {
+        logger.info(`[SECURITY] Capabilities of custom role ${role.id} set to ${capabilities.join(', ') || 'none'} by ${user.id}`);
+      }
+      const orgUsers = await getUsersByOrganization(user.organizationId);
+      res.json(toCustomRoleResponse(role, orgUsers.filter(u => u.customRoleId === role.id).length));
+    } catch (error) {
+      logger.error("Failed to update role", error);
+      res.status(500).json({ message: "Failed to update role" });
+    }
+  });
+
+  // Members fall back to the built-in role the custom role was cloned from
+  app.delete("/api/admin/roles/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await getOrganizationAdmin(req, res, 'manage roles');
+      if (!user) return;
+      const existing = await storage.getCustomRole(req.params.id);
+      if (!existing || existing.organizationId !== user.organizationId) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      await storage.deleteCustomRole(existing.id);
+      logger.info(`[SECURITY] Custom role "${existing.name}" (${existing.id}) deleted by ${user.id}`);
+      res.status(204).send();
+    } catch (error) {
+      logger.error("Failed to delete role", error);
+      res.status(500).json({ message: "Failed to delete role" });
+    }
+  });
+
+  // ==================== RECYCLE BIN ROUTES ====================
+
+  const recycleBinTypes = ['strategy', 'project', 'action'] as const;
+
+  app.get("/api/admin/recycle-bin", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      if (user.role !== 'administrator' && user.isSuperAdmin !== 'true') {
+        return res.status(403).json({ message: "Only administrators can view the recycle bin" });
+      }
+      if (!user.organizationId) return res.status(400).json({ message: "User has no organization" });
+
+      const org = await getOrganization(user.organizationId);
+      const items = await storage.getRecycleBin(user.organizationId);
+      res.json({ items, retentionDays: org?.recycleBinRetentionDays ?? 30 });
+    } catch (error) {
+      logger.error("Failed to fetch recycle bin", error);
+      res.status(500).json({ message: "Failed to fetch recycle bin" });
+    }
+  });
+
+  app.patch("/api/admin/recycle-bin/settings", isAuthenticated, validateBody(z.object({
+    retentionDays: z.coerce.number().int().min(1).max(365),
+  })), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      if (user.role !== 'administrator') {
+        return res.status(403).json({ message: "Only administrators can change recycle bin settings" });
+      }
+
+      const org = await updateOrganizationRecycleBinRetention(user.organizationId!, req.body.retentionDays);
+      if (!org) return res.status(404).json({ message: "Organization not found" });
+      res.json({ retentionDays: org.recycleBinRetentionDays });
+    } catch (error) {
+      logger.error("Failed to update recycle bin settings", error);
+      res.status(500).json({ message: "Failed to update recycle bin settings" });
+    }
+  });
+
+  app.post("/api/admin/recycle-bin/:type/:id/restore", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      if (user.role !== 'administrator' && user.isSuperAdmin !== 'true') {
+        return res.status(403).json({ message: "Only administrators can restore deleted items" });
+      }
+
+      const type = req.params.type;
+      if (!recycleBinTypes.includes(type)) return res.status(404).json({ message: "Unknown item type" });
+      const item = await storage.getRecycleBinItem(type, req.params.id);
+      if (!item) return res.status(404).json({ message: "Item not found in recycle bin" });
+      if (user.isSuperAdmin !== 'true' && user.organizationId !== item.organizationId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // A child cannot come back under a parent that is still in the bin
+      if (item.strategyId && !(await storage.getStrategy(item.strategyId))) {
+        return res.status(409).json({ message: "Restore the parent strategy first" });
+      }
+      if (item.projectId && !(await storage.getProject(item.projectId))) {
+        return res.status(409).json({ message: "Restore the parent project first" });
+      }
+
+      await storage.restoreFromRecycleBin(type, req.params.id);
+
+      if (type === 'action' && item.projectId) {
+        await storage.recalculateProjectProgress(item.projectId);
+      } else if (type === 'project' && item.strategyId) {
+        await storage.recalculateStrategyProgress(item.strategyId);
+      }
+
+      logger.info(`Restored ${type} ${req.params.id} from recycle bin by ${userId}`);
+      res.json({ message: "Item restored" });
+    } catch (error) {
+      logger.error("Failed to restore item", error);
+      res.status(500).json({ message: "Failed to restore item" });
+    }
+  });
+
+  app.delete("/api/admin/recycle-bin/:type/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      if (user.role !== 'administrator' && user.isSuperAdmin !== 'true') {
+        return res.status(403).json({ message: "Only administrators can permanently delete items" });
+      }
+
+      const type = req.params.type;
+      if (!recycleBinTypes.includes(type)) return res.status(404).json({ message: "Unknown item type" });
+      const item = await storage.getRecycleBinItem(type, req.params.id);
+      if (!item) return res.status(404).json({ message: "Item not found in recycle bin" });
+      if (user.isSuperAdmin !== 'true' && user.organizationId !== item.organizationId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      await storage.purgeFromRecycleBin(type, req.params.id);
+      logger.info(`Permanently deleted ${type} ${req.params.id} from recycle bin by ${userId}`);
+      res.status(204).send();
+    } catch (error) {
+      logger.error("Failed to permanently delete item", error);
+      res.status(500).json({ message: "Failed to permanently delete item" });
+    }
+  });
+
+  // ==================== SPREADSHEET IMPORT ROUTES ====================
+
+  app.post("/api/import/parse", isAuthenticated, validateBody(z.object({
+    fileName: z.string().min(1),
+    fileData: z.string().min(1),
+  })), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      // Users without the capability may still import into strategies where their assignment role grants it
+      if (!(await hasCapability(user, 'import_data')) && !(await getStrategyIdsWithCapability(user, 'import_data')).length) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot import data" });
+      }
+
+      let parsed: string[][];
+      try {
+        parsed = parseSpreadsheet(req.body.fileName, Buffer.from(req.body.fileData, "base64"));
+      } catch (parseError) {
+        return res.status(400).json({ message: parseError instanceof Error ? parseError.message : "Could not read the file" });
+      }
+      if (parsed.length < 2) {
+        return res.status(400).json({ message: "The file needs a header row and at least one data row" });
+      }
+      if (parsed.length - 1 > MAX_IMPORT_ROWS) {
+        return res.status(400).json({ message: `Files are limited to ${MAX_IMPORT_ROWS} rows per import` });
+      }
+
+      const [headers, ...rows] = parsed;
+      res.json({ headers: headers.map(h => h.trim()), rows });
+    } catch (error) {
+      logger.error("Failed to parse import file", error);
+      res.status(500).json({ message: "Failed to parse import file" });
+    }
+  });
+
+  app.post("/api/import/:entityType", isAuthenticated, validateBody(z.object({
+    records: z.array(z.record(z.string())).min(1).max(MAX_IMPORT_ROWS),
+    defaultStrategyId: z.string().nullable().optional(),
+    dryRun: z.boolean().default(true),
+  })), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+
+      const entityType = importEntityTypes.find(t => t === req.params.entityType);
+      if (!entityType) return res.status(404).json({ message: "Unknown import type" });
+      // Users without the capability may still import into strategies where their assignment role grants it
+      if (!(await hasCapability(user, 'import_data')) && !(await getStrategyIdsWithCapability(user, 'import_data')).length) {
+        return res.status(403).json({ message: "Forbidden: Your role cannot import data" });
+      }
+      if (entityType === 'strategies' && user.role !== 'administrator') {
+        return res.status(403).json({ message: "Forbidden: Only administrators can import strategies" });
+      }
+      if (!user.organizationId) return res.status(400).json({ message: "User has no organization" });
+
+      const isAdmin = user.role === 'administrator' || user.isSuperAdmin === 'true';
+      const { preview, batch } = buildImport(entityType, req.body.records, {
+        organizationId: user.organizationId,
+        userId,
+        strategies: await storage.getStrategiesByOrganization(user.organizationId),
+        projects: await storage.getProjectsByOrganization(user.organizationId),
+        users: await getUsersByOrganization(user.organizationId),
+        assignedStrategyIds: isAdmin ? null : await getStrategyIdsWithCapability(user, 'import_data'),
+        defaultStrategyId: req.body.defaultStrategyId ?? null,
+      });
+
+      if (req.body.dryRun) {
+        return res.json({ preview });
+      }
+      // Commit is all-or-nothing: any row error blocks the whole import
+      if (preview.errorCount > 0) {
+        return res.status(400).json({ message: "Fix the rows with errors before importing", preview });
+      }
+
+      const result = await storage.importRecords(batch);
+
+      const strategyIds = new Set([...batch.projects.map(p => p.project.strategyId), ...batch.actions.map(a => a.action.strategyId)]);
+      const projectIds = new Set(batch.actions.map(a => a.action.projectId).filter((id): id is string => !!id));
+      for (const projectId of Array.from(projectIds)) await storage.recalculateProjectProgress(projectId);
+      for (const strategyId of Array.from(strategyIds)) await storage.recalculateStrategyProgress(strategyId);
+
+      logger.info(`Imported ${result.strategies} strategies, ${result.projects} projects, ${result.actions} actions for org ${user.organizationId} by ${userId}`);
+      res.status(201).json({ preview, result });
+    } catch (error) {
+      logger.error("Failed to import records", error);
+      res.status(500).json({ message: "Failed to import records" });
+    }
+  });
+
+  // ==================== ORGANIZATION ARCHIVE ROUTES ====================
+
+  app.get("/api/admin/export", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      if (user.role !== 'administrator' && user.isSuperAdmin !== 'true') {
+        return res.status(403).json({ message: "Only administrators can export organization data" });
+      }
+
+      // Super admins may export any organization; everyone else exports their own
+      const organizationId = user.isSuperAdmin === 'true' && req.query.organizationId
+        ? String(req.query.organizationId)
+        : user.organizationId;
+      if (!organizationId) return res.status(400).json({ message: "User has no organization" });
+      const org = await getOrganization(organizationId);
+      if (!org) return res.status(404).json({ message: "Organization not found" });
+
+      const archive = await storage.exportOrganizationArchive(organizationId);
+      const safeName = org.name.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "").toLowerCase() || "organization";
+      logger.info(`Organization ${organizationId} exported by ${userId}`);
+      res.setHeader("Content-Disposition", `attachment; filename="${safeName}-${new Date().toISOString().split("T")[0]}.json"`);
+      res.json(archive);
+    } catch (error) {
+      logger.error("Failed to export organization", error);
+      res.status(500).json({ message: "Failed to export organization" });
+    }
+  });
+
+  const organizationArchiveSchema = z.object({
+    format: z.literal(ORGANIZATION_ARCHIVE_FORMAT),
+    version: z.number().int().min(1).max(ORGANIZATION_ARCHIVE_VERSION, "Archive was created by a newer version of the application"),
+    exportedAt: z.string(),
+    organization: z.object({ name: z.string().min(1) }),
+    users: z.array(z.object({
+      id: z.string(),
+      email: z.string().nullable(),
+      firstName: z.string().nullable(),
+      lastName: z.string().nullable(),
+      role: z.string(),
+      timezone: z.string().nullable(),
+      fte: z.string().nullable(),
+      salary: z.number().nullable(),
+      serviceDeliveryHours: z.string().nullable(),
+      customRoleId: z.string().nullable().optional(),
+    })).default([]),
+    tables: z.record(z.array(z.record(z.unknown()))),
+  });
+
+  app.post("/api/admin/import", isAuthenticated, validateBody(z.object({
+    archive: organizationArchiveSchema,
+    // Super admins can load the archive into a brand-new organization (e.g. a training copy)
+    createOrganization: z.boolean().default(false),
+    organizationName: z.string().trim().min(1).max(200).optional(),
+  })), async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) return res.status(401).json({ message: "User not authenticated" });
+      const user = await storage.getUser(userId);
+      if (!user) return res.status(401).json({ message: "User not found" });
+      if (user.role !== 'administrator' && user.isSuperAdmin !== 'true') {
+        return res.status(403).json({ message: "Only administrators can import organization data" });
+      }
+
+      const { archive, createOrganization: intoNewOrganization, organizationName } = req.body;
+      let organizationId: string;
+      if (intoNewOrganization) {
+        if (user.isSuperAdmin !== 'true') {
+          return res.status(403).json({ message: "Only super admins can create organizations" });
+        }
+        const org = await createOrganization(organizationName || archive.organization.name);
+        organizationId = org.id;
+      } else {
+        // Loading into the current organization is only allowed while it is still empty
+        if (!user.organizationId) return res.status(400).json({ message: "User has no organization" });
+        const existing = await storage.getStrategiesByOrganization(user.organizationId);
+        const deleted = await storage.getRecycleBin(user.organizationId);
+        if (existing.length > 0 || deleted.length > 0) {
+          return res.status(409).json({ message: "This organization already has data. Import into an empty organization instead." });
+        }
+        organizationId = user.organizationId;
+      }
+
+      let result;
+      try {
+        result = await storage.importOrganizationArchive(archive, organizationId);
+      } catch (importError) {
+        // The rows were rolled back; don't leave an empty organization behind either
+        if (intoNewOrganization) await deleteOrganization(organizationId);
+        throw importError;
+      }
+      logger.info(`Organization archive imported into ${organizationId} by ${userId}`);
+      if (result.rowsSkipped > 0) {
+        logger.warn(`[SECURITY] Archive import into ${organizationId} skipped ${result.rowsSkipped} rows referring to data outside the archive`);
+      }
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error("Failed to import organization archive", error);
+      res.status(500).json({ message: "Failed to import organization archive" });
     }
   });
 
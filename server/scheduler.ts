@@ -1,59 +1,106 @@
 import { storage } from './storage';
-import { notifyActionDueSoon, notifyActionOverdue } from './notifications';
+import { notifyDeadlineDueSoon, notifyDeadlineOverdue, notifyProjectWakeUp } from './notifications';
 import { logger } from './logger';
+import { sendNotificationDigestEmail } from './email';
+import { retryDueWebhookDeliveries } from './webhooks';
+import { runEscalationRules } from './escalations';
+import { sendDueChatMessages } from './chat';
+import { runWeeklyStrategyDigests } from './strategyDigest';
+import { publishEntityChange } from './realtime';
+import { getAllOrganizations } from './pgStorage';
+import { DEFAULT_REMINDER_DUE_OFFSETS, DEFAULT_REMINDER_OVERDUE_OFFSETS, parseReminderOffsets, deadlineReminderKinds, type Action, type ProjectWakeUpAction, type RecurrenceFrequency } from '@shared/schema';
 
-const notifiedActions = new Map<string, Set<string>>();
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How long the last overdue reminder can still be caught up after it opens, e.g. after an outage. Due dates
+// further back than that are long settled and their windows are recorded without sending, which keeps the
+// first run after deploying reminders from announcing "overdue by 400 days".
+const FINAL_REMINDER_CATCH_UP_MS = 7 * DAY_MS;
 
-export function clearActionNotificationTracking(actionId: string) {
-  notifiedActions.delete(actionId);
+type ReminderWindow = { key: string; opensAt: Date };
+
+// Every reminder window for a due date, in the order they open: "due_N" opens N days before
+// the due date and "overdue_N" opens N days after it
+export function reminderWindows(dueDate: Date, dueOffsets: number[], overdueOffsets: number[]): ReminderWindow[] {
+  const due = Array.from(new Set(dueOffsets)).map(days => ({ key: `due_${days}`, opensAt: new Date(dueDate.getTime() - days * DAY_MS) }));
+  const overdue = Array.from(new Set(overdueOffsets)).map(days => ({ key: `overdue_${days}`, opensAt: new Date(dueDate.getTime() + days * DAY_MS) }));
+  return [...due, ...overdue].sort((a, b) => a.opensAt.getTime() - b.opensAt.getTime());
+}
+
+/**
+ * The windows that have opened by `now`, and whether the latest of them can still be sent. A window
+ * stays sendable until the next one opens. The last one has no successor: a due window lapses when the
+ * due date passes (or after a day, for one that opens on the due date) and an overdue window after
+ * FINAL_REMINDER_CATCH_UP_MS.
+ */
+export function openedReminderWindows(windows: ReminderWindow[], dueDate: Date, now: Date): { opened: ReminderWindow[]; sendable: boolean } {
+  const opened = windows.filter(w => w.opensAt <= now);
+  const current = opened[opened.length - 1];
+  if (!current || opened.length < windows.length) return { opened, sendable: true };
+  const sendableUntil = current.key.startsWith('due_')
+    ? Math.max(dueDate.getTime(), current.opensAt.getTime() + DAY_MS)
+    : current.opensAt.getTime() + FINAL_REMINDER_CATCH_UP_MS;
+  return { opened, sendable: now.getTime() < sendableUntil };
 }
 
-async function checkDueDateNotifications() {
+// Only the most recently opened window is sent. Windows that opened earlier but were missed
+// (downtime, a due date moved closer) are recorded as skipped, so a catch-up tick sends one
+// reminder with the real number of days rather than a burst of stale ones.
+// Each kind of dated record costs one query for the records in range, plus their owners and ledger entries in chunks.
+export async function checkDueDateNotifications() {
   try {
-    const allStrategies = await storage.getAllStrategies();
-    
-    for (const strategy of allStrategies) {
-      if (strategy.status?.toLowerCase() === 'archived') continue;
-      
-      const projects = await storage.getProjectsByStrategy(strategy.id);
-      for (const project of projects) {
-        const actions = await storage.getActionsByProject(project.id);
-        for (const action of actions) {
-          if (action.status?.toLowerCase() === 'completed' || action.status?.toLowerCase() === 'achieved') continue;
-          if (!action.dueDate) continue;
-
-          const now = new Date();
-          const dueDate = new Date(action.dueDate);
-          const diffMs = dueDate.getTime() - now.getTime();
-          const diffDays = Math.round(diffMs / (1000 * 60 * 60 * 24));
-
-          const actionKey = action.id;
-          if (!notifiedActions.has(actionKey)) {
-            notifiedActions.set(actionKey, new Set());
-          }
-          const notified = notifiedActions.get(actionKey)!;
-
-          const assignments = await storage.getActionPeopleAssignments(action.id);
-          const assignedUserIds = assignments.map(a => a.userId);
-          if (assignedUserIds.length === 0) continue;
-
-          if (diffDays === 14 && !notified.has('due_14')) {
-            await notifyActionDueSoon(action.id, action.title, 14, assignedUserIds);
-            notified.add('due_14');
-          } else if (diffDays === 7 && !notified.has('due_7')) {
-            await notifyActionDueSoon(action.id, action.title, 7, assignedUserIds);
-            notified.add('due_7');
-          } else if (diffDays === 1 && !notified.has('due_1')) {
-            await notifyActionDueSoon(action.id, action.title, 1, assignedUserIds);
-            notified.add('due_1');
-          } else if (diffDays === -1 && !notified.has('overdue_1')) {
-            await notifyActionOverdue(action.id, action.title, 1, assignedUserIds);
-            notified.add('overdue_1');
-          } else if (diffDays === -7 && !notified.has('overdue_7')) {
-            await notifyActionOverdue(action.id, action.title, 7, assignedUserIds);
-            notified.add('overdue_7');
+    const now = new Date();
+    const offsetsByOrg = new Map((await getAllOrganizations()).map(org => [org.id, {
+      due: parseReminderOffsets(org.reminderDueOffsets, DEFAULT_REMINDER_DUE_OFFSETS),
+      overdue: parseReminderOffsets(org.reminderOverdueOffsets, DEFAULT_REMINDER_OVERDUE_OFFSETS),
+    }]));
+    const defaultOffsets = { due: DEFAULT_REMINDER_DUE_OFFSETS, overdue: DEFAULT_REMINDER_OVERDUE_OFFSETS };
+    // Only due dates with a window that can still be sent: the earliest window opens this many days
+    // before the due date under the widest offsets, and the last one can be caught up for a while after it opens
+    const allOffsets = [defaultOffsets, ...Array.from(offsetsByOrg.values())];
+    const maxDueDays = Math.max(0, ...allOffsets.flatMap(o => o.due));
+    const maxOverdueDays = Math.max(0, ...allOffsets.flatMap(o => o.overdue));
+    const dueFrom = new Date(now.getTime() - maxOverdueDays * DAY_MS - FINAL_REMINDER_CATCH_UP_MS);
+    const dueTo = new Date(now.getTime() + maxDueDays * DAY_MS);
+
+    for (const kind of deadlineReminderKinds) {
+      const targets = await storage.getDeadlineReminderTargets(kind, dueFrom, dueTo);
+      if (targets.length === 0) continue;
+      const ledger = await storage.getReminderLedgerEntries(kind, targets.map(t => t.entityId));
+      const recordedByTarget = new Map<string, Set<string>>();
+      for (const entry of ledger) {
+        const key = `${entry.entityId}:${entry.dueDate.getTime()}`;
+        if (!recordedByTarget.has(key)) recordedByTarget.set(key, new Set());
+        recordedByTarget.get(key)!.add(entry.reminderKey);
+      }
+
+      for (const target of targets) {
+        const dueDate = target.dueDate;
+        const offsets = (target.organizationId && offsetsByOrg.get(target.organizationId)) || defaultOffsets;
+        const { opened, sendable } = openedReminderWindows(reminderWindows(dueDate, offsets.due, offsets.overdue), dueDate, now);
+        if (opened.length === 0) continue;
+
+        const recorded = recordedByTarget.get(`${target.entityId}:${dueDate.getTime()}`) ?? new Set<string>();
+        const current = opened[opened.length - 1];
+        if (recorded.has(current.key)) continue;
+
+        const ledgerEntry = { entityType: kind, entityId: target.entityId, dueDate, organizationId: target.organizationId };
+        for (const missed of sendable ? opened.slice(0, -1) : opened) {
+          if (!recorded.has(missed.key)) {
+            await storage.claimReminder({ ...ledgerEntry, reminderKey: missed.key, status: 'skipped' });
           }
         }
+
+        if (!sendable || target.ownerIds.length === 0) continue;
+
+        // Claim before notifying so two overlapping ticks cannot both send it
+        if (!await storage.claimReminder({ ...ledgerEntry, reminderKey: current.key, status: 'sent' })) continue;
+
+        const diffMs = dueDate.getTime() - now.getTime();
+        if (diffMs >= 0) {
+          await notifyDeadlineDueSoon(kind, target.entityId, target.title, Math.ceil(diffMs / DAY_MS), target.ownerIds);
+        } else {
+          await notifyDeadlineOverdue(kind, target.entityId, target.title, Math.max(1, Math.floor(-diffMs / DAY_MS)), target.ownerIds);
+        }
       }
     }
   } catch (error) {
@@ -66,3 +113,257 @@ export function startDueDateScheduler(intervalMinutes: number = 60) {
   checkDueDateNotifications();
   setInterval(checkDueDateNotifications, intervalMinutes * 60 * 1000);
 }
+
+async function purgeExpiredRecycleBinItems() {
+  try {
+    const organizations = await getAllOrganizations();
+    for (const org of organizations) {
+      const cutoff = new Date(Date.now() - (org.recycleBinRetentionDays ?? 30) * 24 * 60 * 60 * 1000);
+      const purged = await storage.purgeExpiredRecycleBin(org.id, cutoff);
+      if (purged > 0) {
+        logger.info(`Purged ${purged} expired recycle bin item(s) for org ${org.id}`);
+      }
+    }
+  } catch (error) {
+    logger.error('Error purging expired recycle bin items', error);
+  }
+}
+
+export function startRecycleBinPurgeScheduler(intervalMinutes: number = 60 * 24) {
+  logger.info(`Starting recycle bin purge scheduler (interval: ${intervalMinutes} minutes)`);
+  purgeExpiredRecycleBinItems();
+  setInterval(purgeExpiredRecycleBinItems, intervalMinutes * 60 * 1000);
+}
+
+// Archived projects whose wake-up date has arrived are either restored or flagged to administrators for review,
+// depending on the organization. The claim in the reminder ledger makes each wake-up date fire only once.
+async function wakeUpArchivedProjects() {
+  try {
+    const dueProjects = await storage.getProjectsDueForWakeUp(new Date());
+    if (dueProjects.length === 0) return;
+
+    const wakeUpActionByOrg = new Map((await getAllOrganizations()).map(org => [org.id, org.projectWakeUpAction as ProjectWakeUpAction]));
+    const adminsByOrg = new Map<string, string[]>();
+
+    for (const project of dueProjects) {
+      if (!project.organizationId || !project.wakeUpDate) continue;
+      const claimed = await storage.claimReminder({
+        entityType: 'project_wake_up', entityId: project.id, reminderKey: 'wake_up',
+        dueDate: project.wakeUpDate, organizationId: project.organizationId, status: 'sent',
+      });
+      if (!claimed) continue;
+
+      if (!adminsByOrg.has(project.organizationId)) {
+        const orgUsers = await storage.getUsersByOrganization(project.organizationId);
+        adminsByOrg.set(project.organizationId, orgUsers.filter(u => u.role === 'administrator').map(u => u.id));
+      }
+      const adminIds = adminsByOrg.get(project.organizationId)!;
+
+      if (wakeUpActionByOrg.get(project.organizationId) === 'unarchive') {
+        const restored = await storage.unarchiveProject(project.id, project.archivedBy || project.createdBy);
+        if (!restored) continue;
+        await storage.recalculateStrategyProgress(restored.strategyId);
+        logger.info(`Reactivated archived project "${project.title}" on its wake-up date`);
+        publishEntityChange(project.organizationId, { resource: 'projects' });
+        await notifyProjectWakeUp(project.id, project.title, adminIds, true);
+      } else {
+        await notifyProjectWakeUp(project.id, project.title, adminIds, false);
+      }
+    }
+  } catch (error) {
+    logger.error('Error waking up archived projects', error);
+  }
+}
+
+export function startProjectWakeUpScheduler(intervalMinutes: number = 60) {
+  logger.info(`Starting archived project wake-up scheduler (interval: ${intervalMinutes} minutes)`);
+  wakeUpArchivedProjects();
+  setInterval(wakeUpArchivedProjects, intervalMinutes * 60 * 1000);
+}
+
+// Step a date forward by whole recurrence periods. Month-based rules keep the series' day of month,
+// falling back to the last day of shorter months (Jan 31 -> Feb 28 -> Mar 31).
+function addRecurrencePeriods(from: Date, frequency: RecurrenceFrequency, periods: number, dayOfMonth: number): Date {
+  if (frequency === 'daily') return new Date(from.getTime() + periods * DAY_MS);
+  if (frequency === 'weekly') return new Date(from.getTime() + periods * 7 * DAY_MS);
+  const next = new Date(from);
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + periods * (frequency === 'quarterly' ? 3 : 1));
+  const daysInMonth = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+  next.setUTCDate(Math.min(dayOfMonth, daysInMonth));
+  return next;
+}
+
+/**
+ * Create the occurrence that follows `action` in its series, if the rule allows one.
+ * Periods that were missed entirely (e.g. while the server was down) are skipped rather than
+ * back-filled, so the new occurrence is never already overdue. Returns the new action, or
+ * undefined when the series has ended or the next occurrence already exists.
+ */
+export async function materializeNextOccurrence(action: Action): Promise<Action | undefined> {
+  const frequency = action.recurrenceFrequency as RecurrenceFrequency | null;
+  if (!frequency || !action.dueDate || !action.recurrenceSeriesId) return undefined;
+
+  const first = action.recurrenceSeriesId === action.id ? action : await storage.getAction(action.recurrenceSeriesId);
+  const dayOfMonth = (first?.dueDate ?? action.dueDate).getUTCDate();
+  const startOfToday = new Date(new Date().setUTCHours(0, 0, 0, 0));
+
+  let index = action.recurrenceIndex ?? 1;
+  let dueDate = action.dueDate;
+  do {
+    index++;
+    dueDate = addRecurrencePeriods(dueDate, frequency, 1, dayOfMonth);
+  } while (dueDate < startOfToday);
+
+  if (action.recurrenceCount && index > action.recurrenceCount) return undefined;
+  if (action.recurrenceUntil && dueDate > action.recurrenceUntil) return undefined;
+
+  const next = await storage.createNextOccurrence(action, dueDate, index);
+  if (next) {
+    logger.info(`Created occurrence ${index} of recurring action "${action.title}"`);
+    publishEntityChange(next.organizationId, { resource: 'actions' });
+    if (next.projectId) {
+      await storage.recalculateProjectProgress(next.projectId);
+      await storage.recalculateStrategyProgress(next.strategyId);
+    }
+  }
+  return next;
+}
+
+async function generateRecurringActions() {
+  try {
+    const now = new Date();
+    const latest = await storage.getLatestRecurringActions();
+    for (const action of latest) {
+      const isDone = action.status === 'achieved' || action.status?.toLowerCase() === 'completed';
+      // The next occurrence's window opens once the current one falls due
+      const isDue = !!action.dueDate && action.dueDate <= now;
+      if (isDone || isDue) {
+        await materializeNextOccurrence(action);
+      }
+    }
+  } catch (error) {
+    logger.error('Error generating recurring actions', error);
+  }
+}
+
+export function startRecurringActionScheduler(intervalMinutes: number = 60) {
+  logger.info(`Starting recurring action scheduler (interval: ${intervalMinutes} minutes)`);
+  generateRecurringActions();
+  setInterval(generateRecurringActions, intervalMinutes * 60 * 1000);
+}
+
+// Digests go out once a day, at or after this hour in each user's own timezone
+const DIGEST_HOUR = 8;
+
+function localDateAndHour(date: Date, timeZone: string | null): { day: string; hour: number } {
+  const format = (zone: string) => {
+    const parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone: zone, year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', hourCycle: 'h23',
+    }).formatToParts(date);
+    const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+    return { day: `${part('year')}-${part('month')}-${part('day')}`, hour: parseInt(part('hour'), 10) };
+  };
+  try {
+    return format(timeZone || 'UTC');
+  } catch {
+    return format('UTC');
+  }
+}
+
+async function sendNotificationDigests() {
+  try {
+    const now = new Date();
+    const pending = await storage.getPendingDigestNotifications();
+    const byUser = new Map<string, typeof pending>();
+    for (const notification of pending) {
+      if (!byUser.has(notification.userId)) byUser.set(notification.userId, []);
+      byUser.get(notification.userId)!.push(notification);
+    }
+
+    for (const [userId, items] of Array.from(byUser.entries())) {
+      const user = await storage.getUser(userId);
+      if (!user?.email || user.role === 'sme') {
+        // Nobody to send to; mark the items so they don't pile up
+        await storage.markNotificationsDigested(items.map(n => n.id), now);
+        continue;
+      }
+
+      const today = localDateAndHour(now, user.timezone);
+      if (today.hour < DIGEST_HOUR) continue;
+      const lastSentAt = await storage.getLastDigestSentAt(userId);
+      if (lastSentAt && localDateAndHour(lastSentAt, user.timezone).day === today.day) continue;
+
+      const sent = await sendNotificationDigestEmail(user.email, items, user.firstName);
+      if (sent) {
+        await storage.markNotificationsDigested(items.map(n => n.id), now);
+        logger.info(`Sent digest of ${items.length} notifications to user ${userId}`);
+      }
+    }
+  } catch (error) {
+    logger.error('Error sending notification digests', error);
+  }
+}
+
+export function startNotificationDigestScheduler(intervalMinutes: number = 60) {
+  logger.info(`Starting notification digest scheduler (interval: ${intervalMinutes} minutes)`);
+  sendNotificationDigests();
+  setInterval(sendNotificationDigests, intervalMinutes * 60 * 1000);
+}
+
+async function retryWebhookDeliveries() {
+  try {
+    await retryDueWebhookDeliveries();
+  } catch (error) {
+    logger.error('Error retrying webhook deliveries', error);
+  }
+}
+
+export function startWebhookRetryScheduler(intervalMinutes: number = 1) {
+  logger.info(`Starting webhook retry scheduler (interval: ${intervalMinutes} minutes)`);
+  retryWebhookDeliveries();
+  setInterval(retryWebhookDeliveries, intervalMinutes * 60 * 1000);
+}
+
+async function checkEscalationRules() {
+  try {
+    await runEscalationRules();
+  } catch (error) {
+    logger.error('Error checking escalation rules', error);
+  }
+}
+
+export function startEscalationRuleScheduler(intervalMinutes: number = 60) {
+  logger.info(`Starting escalation rule scheduler (interval: ${intervalMinutes} minutes)`);
+  checkEscalationRules();
+  setInterval(checkEscalationRules, intervalMinutes * 60 * 1000);
+}
+
+async function sendHeldChatMessages() {
+  try {
+    await sendDueChatMessages();
+  } catch (error) {
+    logger.error('Error sending held chat messages', error);
+  }
+}
+
+export function startChatMessageScheduler(intervalMinutes: number = 1) {
+  logger.info(`Starting chat message scheduler (interval: ${intervalMinutes} minutes)`);
+  sendHeldChatMessages();
+  setInterval(sendHeldChatMessages, intervalMinutes * 60 * 1000);
+}
+
+async function sendWeeklyStrategyDigests() {
+  try {
+    await runWeeklyStrategyDigests();
+  } catch (error) {
+    logger.error('Error sending weekly strategy digests', error);
+  }
+}
+
+// Each tick sends any digest still missing for last week, so a restart over the weekend loses nothing
+export function startStrategyDigestScheduler(intervalMinutes: number = 60) {
+  logger.info(`Starting strategy digest scheduler (interval: ${intervalMinutes} minutes)`);
+  sendWeeklyStrategyDigests();
+  setInterval(sendWeeklyStrategyDigests, intervalMinutes * 60 * 1000);
+}
@@ -0,0 +1,434 @@
+import { inflateRawSync } from "zlib";
+import {
+  insertStrategySchema,
+  insertProjectSchema,
+  insertActionSchema,
+  importFields,
+  type ImportEntityType,
+  type ImportRowResult,
+  type ImportPreview,
+  type ImportBatch,
+  type Strategy,
+  type Project,
+  type User,
+} from "@shared/schema";
+
+export const MAX_IMPORT_ROWS = 2000;
+// Far more than any import template has; cell references past it are refused rather than padded out
+const MAX_IMPORT_COLUMNS = 200;
+
+// ==================== FILE PARSING ====================
+
+/**
+ * Parse an uploaded CSV or XLSX file into rows of cell text. The first row is the header row.
+ * Only the first worksheet of a workbook is read.
+ */
+export function parseSpreadsheet(fileName: string, content: Buffer): string[][] {
+  const lower = fileName.toLowerCase();
+  let rows: string[][];
+  if (lower.endsWith(".xlsx")) {
+    rows = parseXlsx(content);
+  } else if (lower.endsWith(".csv") || lower.endsWith(".txt")) {
+    rows = parseCsv(content.toString("utf8"));
+  } else {
+    throw new Error("Unsupported file type. Upload a .csv or .xlsx file.");
+  }
+  // Drop trailing blank rows that spreadsheet tools like to leave behind
+  return rows.filter(row => row.some(cell => cell.trim() !== ""));
+}
+
+function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best, ",");
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// A workbook part never needs more than this once inflated; anything bigger is refused rather than
+// letting a small, highly compressed upload expand without bound
+const MAX_XLSX_PART_BYTES = 20 * 1024 * 1024;
+
+type ZipEntry = { method: number; data: Buffer };
+
+// Minimal zip reader: XLSX files are zip archives of XML parts, stored or deflated. Entries are only
+// located here; readZipEntry inflates the few parts the import actually reads.
+function readZipEntries(buffer: Buffer): Map<string, ZipEntry> {
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error("The file is not a valid .xlsx workbook.");
+
+  const entries = new Map<string, ZipEntry>();
+  try {
+    const count = buffer.readUInt16LE(eocd + 10);
+    let offset = buffer.readUInt32LE(eocd + 16);
+    for (let n = 0; n < count; n++) {
+      if (buffer.readUInt32LE(offset) !== 0x02014b50) break;
+      const method = buffer.readUInt16LE(offset + 10);
+      const compressedSize = buffer.readUInt32LE(offset + 20);
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const extraLength = buffer.readUInt16LE(offset + 30);
+      const commentLength = buffer.readUInt16LE(offset + 32);
+      const localOffset = buffer.readUInt32LE(offset + 42);
+      const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+      const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+      entries.set(name, { method, data: buffer.subarray(dataStart, dataStart + compressedSize) });
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+  } catch {
+    throw new Error("The file is not a valid .xlsx workbook.");
+  }
+  return entries;
+}
+
+function readZipEntry(entry: ZipEntry): Buffer {
+  if (entry.method !== 8) {
+    if (entry.data.length > MAX_XLSX_PART_BYTES) throw new Error("The workbook is too large to import.");
+    return entry.data;
+  }
+  try {
+    return inflateRawSync(entry.data, { maxOutputLength: MAX_XLSX_PART_BYTES });
+  } catch (error) {
+    if (error instanceof RangeError) throw new Error("The workbook is too large to import.");
+    throw new Error("The file is not a valid .xlsx workbook.");
+  }
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+// Concatenate every <t> run, which covers both plain and rich-text strings
+function textRuns(xml: string): string {
+  return Array.from(xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)).map(m => decodeXml(m[1])).join("");
+}
+
+function columnIndex(ref: string): number {
+  const letters = ref.replace(/\d+$/, "").toUpperCase();
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+function parseXlsx(buffer: Buffer): string[][] {
+  const entries = readZipEntries(buffer);
+  const read = (name: string) => {
+    const entry = entries.get(name);
+    return entry ? readZipEntry(entry).toString("utf8") : undefined;
+  };
+
+  // Resolve the first sheet through the workbook relationships, falling back to the conventional path
+  let sheetPath = "xl/worksheets/sheet1.xml";
+  const workbook = read("xl/workbook.xml");
+  const rels = read("xl/_rels/workbook.xml.rels");
+  const firstSheetRel = workbook?.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  if (firstSheetRel && rels) {
+    const target = rels.match(new RegExp(`<Relationship\\b[^>]*Id="${firstSheetRel}"[^>]*Target="([^"]+)"`))?.[1]
+      ?? rels.match(new RegExp(`<Relationship\\b[^>]*Target="([^"]+)"[^>]*Id="${firstSheetRel}"`))?.[1];
+    if (target) sheetPath = target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+  }
+  const sheet = read(sheetPath);
+  if (!sheet) throw new Error("The workbook does not contain any worksheets.");
+
+  const sharedStringsXml = read("xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsXml
+    ? Array.from(sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g)).map(m => textRuns(m[1]))
+    : [];
+
+  // Rows are taken in document order rather than placed by their r attribute: blank rows are dropped
+  // anyway, and a forged row number would otherwise make us allocate every row before it. Reading stops
+  // one row past the limit so the caller can still report the file as too long.
+  const rows: string[][] = [];
+  for (const rowMatch of Array.from(sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g))) {
+    if (rows.length > MAX_IMPORT_ROWS + 1) break;
+    const cells: string[] = [];
+    for (const cellMatch of Array.from((rowMatch[2] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+      const attrs = cellMatch[1];
+      const body = cellMatch[2] ?? "";
+      const ref = attrs.match(/\br="([A-Z]+\d+)"/i)?.[1];
+      const type = attrs.match(/\bt="([^"]+)"/)?.[1];
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      let value = "";
+      if (type === "s" && raw !== undefined) value = sharedStrings[parseInt(raw, 10)] ?? "";
+      else if (type === "inlineStr") value = textRuns(body);
+      else if (type === "b") value = raw === "1" ? "TRUE" : "FALSE";
+      else if (raw !== undefined) value = decodeXml(raw);
+      const column = ref ? columnIndex(ref) : cells.length;
+      if (column >= MAX_IMPORT_COLUMNS) throw new Error(`Worksheets are limited to ${MAX_IMPORT_COLUMNS} columns.`);
+      cells[column] = value;
+    }
+    const row = Array.from(cells, cell => cell ?? "");
+    if (row.some(cell => cell.trim() !== "")) rows.push(row);
+  }
+  return rows;
+}
+
+// ==================== ROW VALIDATION ====================
+
+export interface ImportContext {
+  organizationId: string | null;
+  userId: string;
+  strategies: Strategy[];
+  projects: Project[];
+  users: User[];
+  // null means the user may import into any strategy of the organization
+  assignedStrategyIds: string[] | null;
+  defaultStrategyId: string | null;
+}
+
+const projectStatuses: Record<string, string> = {
+  "nys": "NYS", "not yet started": "NYS", "not started": "NYS",
+  "ot": "OT", "on track": "OT",
+  "oh": "OH", "on hold": "OH",
+  "b": "B", "behind": "B",
+  "c": "C", "completed": "C", "complete": "C",
+};
+
+const actionStatuses: Record<string, string> = {
+  "not_started": "not_started", "not started": "not_started",
+  "in_progress": "in_progress", "in progress": "in_progress",
+  "at_risk": "at_risk", "at risk": "at_risk",
+  "achieved": "achieved", "done": "achieved", "completed": "achieved",
+};
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Spreadsheet dates arrive as ISO strings, US-style m/d/yyyy, or Excel serial day numbers
+ * (XLSX stores dates as numbers and leaves the formatting to the cell style).
+ */
+function parseImportDate(value: string): Date | null | "invalid" {
+  const text = value.trim();
+  if (!text) return null;
+  if (/^\d{4,5}(\.\d+)?$/.test(text)) {
+    const serial = parseFloat(text);
+    return new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 86400000));
+  }
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) return new Date(Date.UTC(parseInt(us[3], 10), parseInt(us[1], 10) - 1, parseInt(us[2], 10)));
+  const parsed = new Date(text);
+  return isNaN(parsed.getTime()) ? "invalid" : parsed;
+}
+
+/**
+ * Validate mapped spreadsheet rows and build the batch that will be written on commit.
+ * Every problem is reported against its spreadsheet row (header is row 1) so the wizard can show
+ * them all at once; rows with errors are left out of the batch.
+ */
+export function buildImport(
+  entityType: ImportEntityType,
+  records: Record<string, string>[],
+  ctx: ImportContext,
+): { preview: ImportPreview; batch: ImportBatch } {
+  const labels = new Map(importFields[entityType].map(f => [f.key, f.label]));
+  const usersByEmail = new Map(ctx.users.filter(u => u.email).map(u => [normalize(u.email!), u]));
+  const strategiesByTitle = new Map(ctx.strategies.map(s => [normalize(s.title), s]));
+  const batch: ImportBatch = { organizationId: ctx.organizationId, createdBy: ctx.userId, strategies: [], projects: [], actions: [] };
+  const rows: ImportRowResult[] = [];
+  const seenTitles = new Set<string>();
+
+  records.forEach((record, index) => {
+    const get = (key: string) => (record[key] ?? "").trim();
+    const errors: string[] = [];
+    const result: ImportRowResult = { row: index + 2, title: get("title"), strategy: null, project: null, errors };
+
+    for (const field of importFields[entityType]) {
+      if (field.required && !get(field.key)) errors.push(`${field.label} is required`);
+    }
+
+    const date = (key: string) => {
+      const parsed = parseImportDate(get(key));
+      if (parsed === "invalid") {
+        errors.push(`${labels.get(key)}: "${get(key)}" is not a valid date`);
+        return null;
+      }
+      return parsed;
+    };
+
+    const resolveUsers = (key: string) => {
+      const ids: string[] = [];
+      for (const email of get(key).split(/[;,]/).map(normalize).filter(Boolean)) {
+        const user = usersByEmail.get(email);
+        if (user) ids.push(user.id);
+        else errors.push(`${labels.get(key)}: no user with email ${email}`);
+      }
+      return ids;
+    };
+
+    const resolveStrategy = () => {
+      const title = get("strategy");
+      const strategy = title
+        ? strategiesByTitle.get(normalize(title))
+        : ctx.strategies.find(s => s.id === ctx.defaultStrategyId);
+      if (!strategy) {
+        errors.push(title ? `Strategy "${title}" was not found` : "Strategy is required (map a column or choose a default)");
+        return undefined;
+      }
+      if (ctx.assignedStrategyIds && !ctx.assignedStrategyIds.includes(strategy.id)) {
+        errors.push(`You do not have access to strategy "${strategy.title}"`);
+        return undefined;
+      }
+      result.strategy = strategy.title;
+      return strategy;
+    };
+
+    const collectSchemaErrors = (issues: { path: (string | number)[]; message: string }[]) => {
+      for (const issue of issues) {
+        const key = String(issue.path[0] ?? "");
+        // Missing required fields were already reported above in plain words
+        if (importFields[entityType].some(f => f.key === key && f.required && !get(key))) continue;
+        errors.push(`${labels.get(key) ?? key}: ${issue.message}`);
+      }
+    };
+
+    if (entityType === "strategies") {
+      const titleKey = normalize(get("title"));
+      if (titleKey && (strategiesByTitle.has(titleKey) || seenTitles.has(titleKey))) {
+        errors.push("A strategy with this title already exists");
+      }
+      seenTitles.add(titleKey);
+      const startDate = date("startDate");
+      const targetDate = date("targetDate");
+      if (startDate && targetDate && startDate > targetDate) errors.push("Start Date must be before or equal to Target Date");
+      const colorCode = get("colorCode");
+      if (colorCode && !/^#([0-9A-F]{3}){1,2}$/i.test(colorCode)) errors.push("Color must be a hex color (e.g., #FF5733)");
+
+      const parsed = insertStrategySchema.safeParse({
+        title: get("title"),
+        description: get("description"),
+        goal: get("goal") || null,
+        metrics: get("metrics"),
+        startDate,
+        targetDate,
+        ...(colorCode && { colorCode }),
+        organizationId: ctx.organizationId,
+        createdBy: ctx.userId,
+      });
+      if (!parsed.success) collectSchemaErrors(parsed.error.errors);
+      if (errors.length === 0 && parsed.success) batch.strategies.push(parsed.data);
+    } else if (entityType === "projects") {
+      const strategy = resolveStrategy();
+      const titleKey = `${strategy?.id}:${normalize(get("title"))}`;
+      if (strategy && get("title")) {
+        const exists = ctx.projects.some(p => p.strategyId === strategy.id && normalize(p.title) === normalize(get("title")));
+        if (exists || seenTitles.has(titleKey)) errors.push(`A project with this title already exists in "${strategy.title}"`);
+        seenTitles.add(titleKey);
+      }
+      const startDate = date("startDate");
+      const dueDate = date("dueDate");
+      if (startDate && dueDate && startDate > dueDate) errors.push("Start Date must be before or equal to Due Date");
+      const status = get("status");
+      if (status && !projectStatuses[normalize(status)]) errors.push(`Status: "${status}" is not a recognized project status`);
+      const leaderIds = resolveUsers("accountableLeaders");
+
+      const parsed = insertProjectSchema.safeParse({
+        title: get("title"),
+        description: get("description"),
+        strategyId: strategy?.id ?? "",
+        startDate: startDate ?? undefined,
+        dueDate: dueDate ?? undefined,
+        status: projectStatuses[normalize(status)] ?? "NYS",
+        kpi: get("kpi") || null,
+        kpiTracking: get("kpiTracking") || null,
+        accountableLeaders: JSON.stringify(leaderIds),
+        documentFolderUrl: get("documentFolderUrl"),
+        communicationUrl: get("communicationUrl"),
+        organizationId: ctx.organizationId,
+        createdBy: ctx.userId,
+      });
+      if (!parsed.success) collectSchemaErrors(parsed.error.errors);
+      if (errors.length === 0 && parsed.success) batch.projects.push({ project: parsed.data, leaderIds });
+    } else {
+      const strategy = resolveStrategy();
+      let projectId: string | null = null;
+      const projectTitle = get("project");
+      if (strategy && projectTitle) {
+        const project = ctx.projects.find(p => p.strategyId === strategy.id && normalize(p.title) === normalize(projectTitle));
+        if (project) {
+          projectId = project.id;
+          result.project = project.title;
+        } else {
+          errors.push(`Project "${projectTitle}" was not found in "${strategy.title}"`);
+        }
+      }
+      const dueDate = date("dueDate");
+      const status = get("status");
+      if (status && !actionStatuses[normalize(status)]) errors.push(`Status: "${status}" is not a recognized action status`);
+      const assigneeIds = resolveUsers("assignees");
+
+      const parsed = insertActionSchema.safeParse({
+        title: get("title"),
+        description: get("description"),
+        strategyId: strategy?.id ?? "",
+        projectId,
+        status: actionStatuses[normalize(status)] ?? "not_started",
+        dueDate: dueDate ?? undefined,
+        targetValue: get("targetValue") || null,
+        measurementUnit: get("measurementUnit") || null,
+        notes: get("notes") || null,
+        documentFolderUrl: get("documentFolderUrl"),
+        organizationId: ctx.organizationId,
+        createdBy: ctx.userId,
+      });
+      if (!parsed.success) collectSchemaErrors(parsed.error.errors);
+      if (errors.length === 0 && parsed.success) batch.actions.push({ action: parsed.data, assigneeIds });
+    }
+
+    rows.push(result);
+  });
+
+  const errorCount = rows.filter(r => r.errors.length > 0).length;
+  return {
+    preview: { entityType, rows, validCount: rows.length - errorCount, errorCount },
+    batch,
+  };
+}
@@ -1,4 +1,4 @@
-import { type User, type UpsertUser, type InsertUser, type Strategy, type InsertStrategy, type Project, type InsertProject, type Activity, type InsertActivity, type Action, type InsertAction, type Notification, type InsertNotification, type ActionDocument, type InsertActionDocument, type ActionChecklistItem, type InsertActionChecklistItem, type CreateActionChecklistItem, type UserStrategyAssignment, type InsertUserStrategyAssignment, type Barrier, type InsertBarrier, type Dependency, type InsertDependency, type TemplateType, type InsertTemplateType, type ExecutiveGoal, type InsertExecutiveGoal, type StrategyExecutiveGoal, type TeamTag, type InsertTeamTag, type ProjectTeamTag, type UserTeamTag, type ProjectResourceAssignment, type InsertProjectResourceAssignment, type ActionPeopleAssignment, type InsertActionPeopleAssignment, type PtoEntry, type InsertPtoEntry, type Holiday, type InsertHoliday, type ProjectSnapshot, type InsertProjectSnapshot, type Decision, type InsertDecision, type DecisionRaci, type InsertDecisionRaci, type Workstream, type InsertWorkstream, type Phase, type InsertPhase, type WorkstreamDependency, type InsertWorkstreamDependency, type GateCriteria, type InsertGateCriteria } from "@shared/schema";
+import { type User, type UpsertUser, type InsertUser, type Strategy, type InsertStrategy, type Project, type InsertProject, type Activity, type InsertActivity, type Action, type InsertAction, type Notification, type InsertNotification, type ActionDocument, type InsertActionDocument, type ActionChecklistItem, type InsertActionChecklistItem, type CreateActionChecklistItem, type UserStrategyAssignment, type InsertUserStrategyAssignment, type Barrier, type InsertBarrier, type Dependency, type InsertDependency, type TemplateType, type InsertTemplateType, type ExecutiveGoal, type InsertExecutiveGoal, type StrategyExecutiveGoal, type TeamTag, type InsertTeamTag, type ProjectTeamTag, type UserTeamTag, type ProjectResourceAssignment, type InsertProjectResourceAssignment, type ActionPeopleAssignment, type InsertActionPeopleAssignment, type PtoEntry, type InsertPtoEntry, type Holiday, type InsertHoliday, type ProjectSnapshot, type InsertProjectSnapshot, type Decision, type InsertDecision, type DecisionRaci, type InsertDecisionRaci, type Workstream, type InsertWorkstream, type Phase, type InsertPhase, type WorkstreamDependency, type InsertWorkstreamDependency, type GateCriteria, type InsertGateCriteria, type FrameworkDocument, type InsertFrameworkDocument, type FrameworkDocumentVersion, type Measurement, type InsertMeasurement, type ScheduleBaseline, type InsertScheduleBaseline, type ChangeHistoryEntry, type RecycleBinEntityType, type RecycleBinItem, type ImportBatch, type ImportResult, type OrganizationArchive, type ArchiveImportResult, type StrategyScenario, type InsertStrategyScenario, type ScenarioPlan, type ScenarioPromotionResult, type Comment, type InsertComment, type CommentEntityType, type NotificationPreference, type NotificationChannel, type ReminderLedgerEntry, type InsertReminderLedgerEntry, type DeadlineReminderKind, type DeadlineReminderTarget, type WebhookSubscription, type InsertWebhookSubscription, type WebhookDelivery, type InsertWebhookDelivery, type EscalationRule, type InsertEscalationRule, type EscalationRuleExecution, type InsertEscalationRuleExecution, type EscalationRuleEntityType, type EscalationCandidate, type ChatChannel, type InsertChatChannel, type ChatMessage, type InsertChatMessage, type NotificationFilter, type NotificationGroup, type NotificationTarget, type EntityFollow, type InsertEntityFollow, type EntityScope, type FollowableEntityType, type StrategyDigest, type InsertStrategyDigest, type StatusTransition, type OidcConfiguration, type InsertOidcConfiguration, type OidcIdentity, type InsertOidcIdentity, type OidcLoginState, type InsertOidcLoginState, type ApiToken, type InsertApiToken, type StrategyRole, type CustomRole, type InsertCustomRole } from "@shared/schema";
 
 export interface IStorage {
   // User methods
@@ -62,6 +62,28 @@ export interface IStorage {
   deleteNotification(id: string): Promise<boolean>;
   deleteDueDateNotificationsForAction(actionId: string): Promise<number>;
 
+  // Notification inbox methods (snoozed notifications are left out unless the filter asks for them)
+  getNotificationPage(userId: string, filter: NotificationFilter, limit: number, offset: number): Promise<{ items: Notification[]; total: number }>;
+  getNotificationGroups(userId: string, filter: NotificationFilter, limit: number, offset: number): Promise<{ groups: NotificationGroup[]; total: number }>;
+  getUnreadNotificationCounts(userId: string, asOf: Date): Promise<Record<string, number>>;
+  getNextSnoozeEnd(userId: string, asOf: Date): Promise<Date | null>;
+  markNotificationsRead(userId: string, target: NotificationTarget): Promise<number>;
+  snoozeNotifications(userId: string, target: NotificationTarget, until: Date | null): Promise<number>;
+
+  // Notification preference and digest methods (types without a saved preference stay in-app only)
+  getNotificationPreferences(userId: string): Promise<NotificationPreference[]>;
+  setNotificationPreferences(userId: string, preferences: Record<string, NotificationChannel>): Promise<void>;
+  getPendingDigestNotifications(): Promise<Notification[]>;
+  getLastDigestSentAt(userId: string): Promise<Date | null>;
+  markNotificationsDigested(ids: string[], sentAt: Date): Promise<void>;
+
+  // Reminder ledger methods (claiming a reminder fails if another tick already recorded it)
+  getReminderLedgerEntries(entityType: string, entityIds: string[]): Promise<ReminderLedgerEntry[]>;
+  claimReminder(entry: InsertReminderLedgerEntry): Promise<boolean>;
+  deleteReminderLedgerEntries(entityType: string, entityId: string): Promise<number>;
+  // Open records of one kind due within [dueFrom, dueTo] across all organizations, with their owners loaded in batches
+  getDeadlineReminderTargets(kind: DeadlineReminderKind, dueFrom: Date, dueTo: Date): Promise<DeadlineReminderTarget[]>;
+
   // Action Document methods
   getActionDocuments(actionId: string): Promise<ActionDocument[]>;
   createActionDocument(document: InsertActionDocument): Promise<ActionDocument>;
@@ -78,7 +100,9 @@ export interface IStorage {
   // User Strategy Assignment methods
   getUserStrategyAssignments(userId: string): Promise<UserStrategyAssignment[]>;
   getStrategyAssignments(strategyId: string): Promise<UserStrategyAssignment[]>;
-  assignStrategy(userId: string, strategyId: string, assignedBy: string): Promise<UserStrategyAssignment>;
+  getStrategyAssignment(userId: string, strategyId: string): Promise<UserStrategyAssignment | undefined>;
+  assignStrategy(userId: string, strategyId: string, assignedBy: string, role?: StrategyRole | null): Promise<UserStrategyAssignment>;
+  updateStrategyAssignmentRole(userId: string, strategyId: string, role: StrategyRole | null): Promise<UserStrategyAssignment | undefined>;
   unassignStrategy(userId: string, strategyId: string): Promise<boolean>;
   getUserAssignedStrategyIds(userId: string): Promise<string[]>;
 
@@ -168,6 +192,7 @@ export interface IStorage {
 
   // Project Archive methods
   getArchivedProjectsByOrganization(organizationId: string): Promise<Project[]>;
+  getProjectsDueForWakeUp(asOf: Date): Promise<Project[]>;
   archiveProject(projectId: string, archivedBy: string, reason?: string, wakeUpDate?: Date): Promise<Project | undefined>;
   unarchiveProject(projectId: string, restoredBy: string): Promise<Project | undefined>;
   copyProject(projectId: string, newTitle: string, createdBy: string, asTemplate?: boolean): Promise<Project | undefined>;
@@ -206,9 +231,150 @@ export interface IStorage {
 
   // Gate Criteria methods
   getGateCriteriaByTask(gateTaskId: string): Promise<GateCriteria[]>;
+  getGateCriterion(id: string): Promise<GateCriteria | undefined>;
   createGateCriteria(criteria: InsertGateCriteria): Promise<GateCriteria>;
   updateGateCriteria(id: string, updates: Partial<GateCriteria>): Promise<GateCriteria | undefined>;
   deleteGateCriteria(id: string): Promise<boolean>;
+
+  // Framework Document methods (saved SWOT, PESTLE, OGSM, etc.)
+  getFrameworkDocumentsByOrganization(organizationId: string): Promise<FrameworkDocument[]>;
+  getFrameworkDocument(id: string): Promise<FrameworkDocument | undefined>;
+  createFrameworkDocument(document: InsertFrameworkDocument & { organizationId: string; createdBy: string }): Promise<FrameworkDocument>;
+  updateFrameworkDocument(id: string, updates: Partial<InsertFrameworkDocument>, updatedBy: string): Promise<FrameworkDocument | undefined>;
+  deleteFrameworkDocument(id: string): Promise<boolean>;
+  getFrameworkDocumentVersions(documentId: string): Promise<FrameworkDocumentVersion[]>;
+
+  // Measurement methods (time-series readings for action targets and project KPIs)
+  getMeasurementsByEntity(entityType: string, entityId: string): Promise<Measurement[]>;
+  getMeasurementsByOrganization(organizationId: string): Promise<Measurement[]>;
+  getMeasurement(id: string): Promise<Measurement | undefined>;
+  createMeasurement(measurement: InsertMeasurement & { entityType: string; entityId: string; strategyId: string; organizationId: string; recordedBy: string }): Promise<Measurement>;
+  deleteMeasurement(id: string): Promise<boolean>;
+
+  // Schedule Baseline methods (named snapshots of a strategy's plan for variance reporting)
+  getScheduleBaselinesByStrategy(strategyId: string): Promise<ScheduleBaseline[]>;
+  getScheduleBaseline(id: string): Promise<ScheduleBaseline | undefined>;
+  createScheduleBaseline(strategyId: string, baseline: InsertScheduleBaseline & { organizationId: string; createdBy: string }): Promise<ScheduleBaseline>;
+  deleteScheduleBaseline(id: string): Promise<boolean>;
+
+  // Change History methods (field-level audit trail written by PATCH handlers)
+  recordChangeHistory(entityType: string, before: Record<string, any>, after: Record<string, any>, changedBy: string): Promise<ChangeHistoryEntry | undefined>;
+  getChangeHistory(entityType: string, entityId: string): Promise<ChangeHistoryEntry[]>;
+
+  // Recycle Bin methods (soft delete cascades to children; purge hard-deletes for good)
+  softDeleteStrategy(id: string, deletedBy: string): Promise<boolean>;
+  softDeleteProject(id: string, deletedBy: string): Promise<boolean>;
+  softDeleteAction(id: string, deletedBy: string): Promise<boolean>;
+  getRecycleBin(organizationId: string): Promise<RecycleBinItem[]>;
+  getRecycleBinItem(type: RecycleBinEntityType, id: string): Promise<RecycleBinItem | undefined>;
+  restoreFromRecycleBin(type: RecycleBinEntityType, id: string): Promise<boolean>;
+  purgeFromRecycleBin(type: RecycleBinEntityType, id: string): Promise<boolean>;
+  purgeExpiredRecycleBin(organizationId: string, deletedBefore: Date): Promise<number>;
+
+  // Recurring action methods (the latest occurrence of each series spawns the next one)
+  getLatestRecurringActions(): Promise<Action[]>;
+  createNextOccurrence(source: Action, dueDate: Date, recurrenceIndex: number): Promise<Action | undefined>;
+
+  // Bulk import (all rows are written in a single transaction, or none are)
+  importRecords(batch: ImportBatch): Promise<ImportResult>;
+
+  // Organization archive methods (portable per-org backup; import remaps every id)
+  exportOrganizationArchive(organizationId: string): Promise<OrganizationArchive>;
+  importOrganizationArchive(archive: OrganizationArchive, organizationId: string): Promise<ArchiveImportResult>;
+
+  // Scenario sandbox methods (what-if copies of a strategy's plan; promotion writes changes back to live rows)
+  getScenarioPlan(strategyId: string): Promise<ScenarioPlan>;
+  getStrategyScenariosByStrategy(strategyId: string): Promise<StrategyScenario[]>;
+  getStrategyScenario(id: string): Promise<StrategyScenario | undefined>;
+  createStrategyScenario(strategyId: string, scenario: InsertStrategyScenario & { organizationId: string; createdBy: string }): Promise<StrategyScenario>;
+  updateStrategyScenario(id: string, updates: Partial<Pick<StrategyScenario, 'name' | 'description' | 'planData'>>): Promise<StrategyScenario | undefined>;
+  deleteStrategyScenario(id: string): Promise<boolean>;
+  promoteStrategyScenario(id: string, promotedBy: string): Promise<ScenarioPromotionResult>;
+
+  // Comment methods (threads on projects, actions, barriers and decisions; deleting a comment with replies leaves a placeholder)
+  getComments(entityType: CommentEntityType, entityId: string): Promise<Comment[]>;
+  getComment(id: string): Promise<Comment | undefined>;
+  createComment(comment: InsertComment & { entityType: CommentEntityType; entityId: string; authorId: string; organizationId: string; mentions: string[] }): Promise<Comment>;
+  updateComment(id: string, body: string, mentions: string[]): Promise<Comment | undefined>;
+  deleteComment(id: string): Promise<boolean>;
+  getCommentCounts(organizationId: string, entityType: CommentEntityType): Promise<Record<string, number>>;
+
+  // Webhook methods (deliveries double as the retry queue and the delivery log; deleting a subscription removes its log)
+  getWebhookSubscriptions(organizationId: string): Promise<WebhookSubscription[]>;
+  getWebhookSubscription(id: string): Promise<WebhookSubscription | undefined>;
+  createWebhookSubscription(subscription: InsertWebhookSubscription & { organizationId: string; secret: string; createdBy: string }): Promise<WebhookSubscription>;
+  updateWebhookSubscription(id: string, updates: Partial<InsertWebhookSubscription> & { secret?: string }): Promise<WebhookSubscription | undefined>;
+  deleteWebhookSubscription(id: string): Promise<boolean>;
+  getWebhookDeliveries(organizationId: string, subscriptionId?: string, limit?: number): Promise<WebhookDelivery[]>;
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: string, updates: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined>;
+  claimDueWebhookDeliveries(asOf: Date, leaseUntil: Date, limit: number): Promise<WebhookDelivery[]>;
+
+  // Escalation rule methods (conditions and actions are stored as JSON; deleting a rule removes its log)
+  getEscalationRules(organizationId: string): Promise<EscalationRule[]>;
+  getActiveEscalationRules(): Promise<EscalationRule[]>;
+  getEscalationRule(id: string): Promise<EscalationRule | undefined>;
+  createEscalationRule(rule: InsertEscalationRule & { organizationId: string; createdBy: string }): Promise<EscalationRule>;
+  updateEscalationRule(id: string, updates: Partial<InsertEscalationRule>): Promise<EscalationRule | undefined>;
+  deleteEscalationRule(id: string): Promise<boolean>;
+  getEscalationRuleExecutions(organizationId: string, ruleId?: string, limit?: number): Promise<EscalationRuleExecution[]>;
+  createEscalationRuleExecution(execution: InsertEscalationRuleExecution): Promise<EscalationRuleExecution>;
+  getEscalatedEntityIds(ruleId: string): Promise<string[]>;
+  getEscalationCandidates(organizationId: string, entityType: EscalationRuleEntityType, asOf: Date): Promise<EscalationCandidate[]>;
+
+  // Chat channel methods (messages double as the quiet-hours hold queue; deleting a channel drops its queue)
+  getChatChannels(organizationId: string): Promise<ChatChannel[]>;
+  getChatChannel(id: string): Promise<ChatChannel | undefined>;
+  createChatChannel(channel: InsertChatChannel & { organizationId: string; createdBy: string }): Promise<ChatChannel>;
+  updateChatChannel(id: string, updates: Partial<InsertChatChannel>): Promise<ChatChannel | undefined>;
+  deleteChatChannel(id: string): Promise<boolean>;
+  createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
+  updateChatMessage(id: string, updates: Partial<ChatMessage>): Promise<ChatMessage | undefined>;
+  claimDueChatMessages(asOf: Date, leaseUntil: Date, limit: number): Promise<ChatMessage[]>;
+
+  // Follow methods (following a strategy or project also covers the records under it)
+  getEntityScope(entityType: string, entityId: string): Promise<EntityScope | undefined>;
+  getEntityFollows(userId: string): Promise<EntityFollow[]>;
+  followEntity(follow: InsertEntityFollow): Promise<EntityFollow>;
+  unfollowEntity(userId: string, entityType: FollowableEntityType, entityId: string): Promise<boolean>;
+  getFollowerIds(organizationId: string, targets: { entityType: FollowableEntityType; entityId: string }[]): Promise<string[]>;
+
+  // Strategy digest methods (a scheduled digest is created once per strategy and period)
+  getStrategyDigests(strategyId: string, limit?: number): Promise<StrategyDigest[]>;
+  getStrategyDigest(id: string): Promise<StrategyDigest | undefined>;
+  getLatestStrategyDigest(strategyId: string, before: Date): Promise<StrategyDigest | undefined>;
+  createStrategyDigest(digest: InsertStrategyDigest): Promise<StrategyDigest | undefined>;
+  updateStrategyDigest(id: string, updates: Partial<InsertStrategyDigest>): Promise<StrategyDigest | undefined>;
+  getStatusTransitions(entityType: string, entityIds: string[], from: Date, to: Date): Promise<StatusTransition[]>;
+
+  // Single sign-on methods (one identity provider per organization; a login state can be consumed once)
+  getOidcConfiguration(organizationId: string): Promise<OidcConfiguration | undefined>;
+  getEnabledOidcConfigurations(): Promise<OidcConfiguration[]>;
+  upsertOidcConfiguration(configuration: InsertOidcConfiguration): Promise<OidcConfiguration>;
+  deleteOidcConfiguration(organizationId: string): Promise<boolean>;
+  getOidcIdentity(issuer: string, subject: string): Promise<OidcIdentity | undefined>;
+  getOidcIdentitiesByUser(userId: string): Promise<OidcIdentity[]>;
+  createOidcIdentity(identity: InsertOidcIdentity): Promise<OidcIdentity>;
+  touchOidcIdentity(id: string): Promise<void>;
+  createOidcLoginState(loginState: InsertOidcLoginState): Promise<OidcLoginState>;
+  consumeOidcLoginState(state: string): Promise<OidcLoginState | undefined>;
+
+  // API token methods (tokens are looked up by hash; revoked tokens are kept for the audit trail)
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  getApiToken(id: string): Promise<ApiToken | undefined>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getApiTokensByUser(userId: string): Promise<ApiToken[]>;
+  getApiTokensByOrganization(organizationId: string): Promise<ApiToken[]>;
+  revokeApiToken(id: string, revokedBy: string): Promise<ApiToken | undefined>;
+  recordApiTokenUse(id: string, ip: string | null): Promise<void>;
+
+  // Custom role methods (deleting a role moves its members back to the role it was cloned from)
+  getCustomRolesByOrganization(organizationId: string): Promise<CustomRole[]>;
+  getCustomRole(id: string): Promise<CustomRole | undefined>;
+  createCustomRole(role: InsertCustomRole): Promise<CustomRole>;
+  updateCustomRole(id: string, updates: Partial<Pick<CustomRole, 'name' | 'description' | 'capabilities'>>): Promise<CustomRole | undefined>;
+  deleteCustomRole(id: string): Promise<boolean>;
 }
 
 // Use SQLite storage
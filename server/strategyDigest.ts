@@ -0,0 +1,209 @@
+import { storage } from './storage';
+import { logger } from './logger';
+import { sendStrategyDigestEmail } from './email';
+import { calculateWorkstreamStatus } from './workstreamStatus';
+import { getAllOrganizations } from './pgStorage';
+import type { Strategy, StrategyDigest, StrategyDigestContent, StrategyDigestTrigger } from '@shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const DIGEST_PERIOD_MS = 7 * DAY_MS;
+const UPCOMING_GATE_DAYS = 14;
+
+const COMPLETED_ACTION_STATUSES = ['completed', 'achieved'];
+const RESOLVED_BARRIER_STATUSES = ['resolved', 'closed'];
+
+// Scheduled digests cover Monday to Monday, midnight UTC; this is the Monday that ends the last full week
+export function digestWeekEnding(asOf: Date): Date {
+  const monday = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth(), asOf.getUTCDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return monday;
+}
+
+const inPeriod = (date: Date | null | undefined, start: Date, end: Date) =>
+  !!date && date.getTime() >= start.getTime() && date.getTime() < end.getTime();
+
+export function parseDigestContent(digest: StrategyDigest): StrategyDigestContent {
+  return JSON.parse(digest.content) as StrategyDigestContent;
+}
+
+/**
+ * What happened in the strategy between `periodStart` and `periodEnd`. Progress and workstream RAG are
+ * compared with the strategy's last digest that ended by `periodStart`.
+ */
+export async function buildStrategyDigest(strategy: Strategy, periodStart: Date, periodEnd: Date): Promise<StrategyDigestContent> {
+  const [previousDigest, allProjects, allActions, workstreams, phases, workstreamStatus, decisions] = await Promise.all([
+    storage.getLatestStrategyDigest(strategy.id, periodStart),
+    storage.getProjectsByStrategy(strategy.id),
+    storage.getActionsByStrategy(strategy.id),
+    storage.getWorkstreamsByStrategy(strategy.id),
+    storage.getPhasesByStrategy(strategy.id),
+    calculateWorkstreamStatus(strategy.id),
+    strategy.organizationId ? storage.getDecisionsByOrganization(strategy.organizationId) : Promise.resolve([]),
+  ]);
+  const previous = previousDigest ? parseDigestContent(previousDigest) : null;
+
+  const projects = allProjects.filter(p => !p.deletedAt && p.isArchived !== 'true');
+  const actions = allActions.filter(a => !a.deletedAt && a.isArchived !== 'true');
+  const projectTitles = new Map(allProjects.map(p => [p.id, p.title]));
+  const projectTitle = (projectId: string | null) => (projectId && projectTitles.get(projectId)) || null;
+
+  // Actions: completions come from change history, or the achieved date for actions marked achieved
+  const actionTransitions = await storage.getStatusTransitions('action', actions.map(a => a.id), periodStart, periodEnd);
+  const completedAt = new Map<string, Date>();
+  for (const transition of actionTransitions) {
+    if (COMPLETED_ACTION_STATUSES.includes(transition.to.toLowerCase())) completedAt.set(transition.entityId, transition.changedAt);
+  }
+  const actionsCompleted = actions
+    .filter(a => COMPLETED_ACTION_STATUSES.includes(a.status.toLowerCase()))
+    .map(a => ({ action: a, at: completedAt.get(a.id) ?? (inPeriod(a.achievedDate, periodStart, periodEnd) ? a.achievedDate : null) }))
+    .filter((entry): entry is { action: typeof entry.action; at: Date } => !!entry.at)
+    .map(({ action, at }) => ({ id: action.id, title: action.title, projectTitle: projectTitle(action.projectId), completedAt: at.toISOString() }));
+
+  const newlyOverdue = actions
+    .filter(a => !COMPLETED_ACTION_STATUSES.includes(a.status.toLowerCase()) && inPeriod(a.dueDate, periodStart, periodEnd))
+    .map(a => ({ id: a.id, title: a.title, projectTitle: projectTitle(a.projectId), dueDate: a.dueDate!.toISOString() }));
+
+  // Barriers
+  const barriers = (await Promise.all(projects.map(p => storage.getBarriersByProject(p.id)))).flat();
+  const barrierTransitions = await storage.getStatusTransitions('barrier', barriers.map(b => b.id), periodStart, periodEnd);
+  const resolvedAt = new Map<string, Date>();
+  for (const transition of barrierTransitions) {
+    if (RESOLVED_BARRIER_STATUSES.includes(transition.to.toLowerCase())) resolvedAt.set(transition.entityId, transition.changedAt);
+  }
+  const barriersRaised = barriers
+    .filter(b => inPeriod(b.identifiedDate ?? b.createdAt, periodStart, periodEnd))
+    .map(b => ({ id: b.id, title: b.title, projectTitle: projectTitle(b.projectId), severity: b.severity, raisedAt: (b.identifiedDate ?? b.createdAt)!.toISOString() }));
+  const barriersResolved = barriers
+    .filter(b => RESOLVED_BARRIER_STATUSES.includes(b.status.toLowerCase()))
+    .map(b => ({ barrier: b, at: resolvedAt.get(b.id) ?? (inPeriod(b.resolutionDate, periodStart, periodEnd) ? b.resolutionDate : null) }))
+    .filter((entry): entry is { barrier: typeof entry.barrier; at: Date } => !!entry.at)
+    .map(({ barrier, at }) => ({ id: barrier.id, title: barrier.title, projectTitle: projectTitle(barrier.projectId), resolvedAt: at.toISOString() }));
+
+  // Decisions: decided in the period, by decision date or by the status change
+  const strategyDecisions = decisions.filter(d => d.strategyId === strategy.id && d.status === 'decided');
+  const decisionTransitions = await storage.getStatusTransitions('decision', strategyDecisions.map(d => d.id), periodStart, periodEnd);
+  const decidedAt = new Map<string, Date>();
+  for (const transition of decisionTransitions) {
+    if (transition.to === 'decided') decidedAt.set(transition.entityId, transition.changedAt);
+  }
+  const decisionsMade = strategyDecisions
+    .map(d => ({ decision: d, at: inPeriod(d.decisionDate, periodStart, periodEnd) ? d.decisionDate : decidedAt.get(d.id) ?? null }))
+    .filter((entry): entry is { decision: typeof entry.decision; at: Date } => !!entry.at)
+    .map(({ decision, at }) => ({ id: decision.id, title: decision.title, outcome: decision.outcome, decidedAt: at.toISOString() }));
+
+  // Workstream RAG: every gate whose status differs from the previous digest
+  const { workstreamGateRag, programGateRag } = workstreamStatus;
+  const phaseNames = new Map(phases.map(p => [p.id, p.name]));
+  const ragChanges: StrategyDigestContent['ragChanges'] = [];
+  if (previous) {
+    for (const workstream of workstreams) {
+      for (const phase of phases) {
+        const to = workstreamGateRag[workstream.id]?.[phase.id];
+        const from = previous.workstreamGateRag[workstream.id]?.[phase.id] ?? null;
+        if (!to || to === from || (to === 'NONE' && from === null)) continue;
+        ragChanges.push({ workstreamId: workstream.id, workstreamName: workstream.name, phaseId: phase.id, phaseName: phase.name, from, to });
+      }
+    }
+  }
+
+  const gateHorizon = new Date(periodEnd.getTime() + UPCOMING_GATE_DAYS * DAY_MS);
+  const upcomingGates = actions
+    .filter(a => a.isMilestone === 'true' && !!a.milestoneType && !COMPLETED_ACTION_STATUSES.includes(a.status.toLowerCase()))
+    .filter(a => inPeriod(a.plannedEnd, periodEnd, gateHorizon))
+    .sort((a, b) => a.plannedEnd!.getTime() - b.plannedEnd!.getTime())
+    .map(a => ({
+      id: a.id,
+      title: a.title,
+      phaseName: (a.phaseId && phaseNames.get(a.phaseId)) || null,
+      plannedEnd: a.plannedEnd!.toISOString(),
+      rag: (a.phaseId && (a.milestoneType === 'program_gate'
+        ? programGateRag[a.phaseId]
+        : a.workstreamId && workstreamGateRag[a.workstreamId]?.[a.phaseId])) || 'NONE',
+    }));
+
+  const previousProgress = new Map(previous?.projects.map(p => [p.id, p.progress]) ?? []);
+  return {
+    strategy: { id: strategy.id, title: strategy.title, status: strategy.status, colorCode: strategy.colorCode },
+    periodStart: periodStart.toISOString(),
+    periodEnd: periodEnd.toISOString(),
+    previousDigestAt: previousDigest ? previousDigest.periodEnd.toISOString() : null,
+    progress: {
+      current: strategy.progress,
+      previous: previous?.progress.current ?? null,
+      delta: previous ? strategy.progress - previous.progress.current : null,
+    },
+    projects: projects.map(p => {
+      const before = previousProgress.get(p.id) ?? null;
+      return { id: p.id, title: p.title, status: p.status, progress: p.progress, previous: before, delta: before === null ? null : p.progress - before };
+    }),
+    actionsCompleted,
+    newlyOverdue,
+    barriersRaised,
+    barriersResolved,
+    decisionsMade,
+    workstreamGateRag,
+    ragChanges,
+    upcomingGates,
+  };
+}
+
+// Email the digest to everyone assigned to the strategy; returns how many emails went out
+export async function emailStrategyDigest(digest: StrategyDigest): Promise<number> {
+  const content = parseDigestContent(digest);
+  const assignments = await storage.getStrategyAssignments(digest.strategyId);
+  let sent = 0;
+  for (const { userId } of assignments) {
+    const user = await storage.getUser(userId);
+    if (!user?.email || user.role === 'sme') continue;
+    if (await sendStrategyDigestEmail(user.email, content, user.firstName)) sent++;
+  }
+  await storage.updateStrategyDigest(digest.id, { emailedAt: new Date(), recipientCount: sent });
+  return sent;
+}
+
+/**
+ * Build, store and email a digest. Returns undefined when the strategy already has a digest for
+ * the period, so overlapping scheduler ticks send it once.
+ */
+export async function generateStrategyDigest(
+  strategy: Strategy,
+  periodStart: Date,
+  periodEnd: Date,
+  trigger: StrategyDigestTrigger,
+  createdBy: string | null = null,
+): Promise<StrategyDigest | undefined> {
+  if (!strategy.organizationId) return undefined;
+  const content = await buildStrategyDigest(strategy, periodStart, periodEnd);
+  const digest = await storage.createStrategyDigest({
+    strategyId: strategy.id,
+    organizationId: strategy.organizationId,
+    periodStart,
+    periodEnd,
+    progress: content.progress.current,
+    content: JSON.stringify(content),
+    trigger,
+    createdBy,
+  });
+  if (!digest) return undefined;
+  const recipientCount = await emailStrategyDigest(digest);
+  return { ...digest, emailedAt: new Date(), recipientCount };
+}
+
+// The Monday digest for every active strategy that does not have one for last week yet
+export async function runWeeklyStrategyDigests(asOf: Date = new Date()): Promise<void> {
+  const periodEnd = digestWeekEnding(asOf);
+  const periodStart = new Date(periodEnd.getTime() - DIGEST_PERIOD_MS);
+  for (const organization of await getAllOrganizations()) {
+    const strategies = await storage.getStrategiesByOrganization(organization.id);
+    for (const strategy of strategies) {
+      if (strategy.deletedAt || strategy.status.toLowerCase() !== 'active') continue;
+      if (strategy.createdAt && strategy.createdAt.getTime() >= periodEnd.getTime()) continue;
+      try {
+        const digest = await generateStrategyDigest(strategy, periodStart, periodEnd, 'scheduled');
+        if (digest) logger.info(`Weekly digest for strategy "${strategy.title}" sent to ${digest.recipientCount} people`);
+      } catch (error) {
+        logger.error(`Failed to generate weekly digest for strategy ${strategy.id}`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,10 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Each test file runs in its own process and gets its own database file. This module must be
+// imported before anything that opens the database, which reads DB_PATH once on load.
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'leaderos-test-'));
+process.env.DB_PATH = path.join(dir, 'test.db');
+process.env.NODE_ENV = 'test';
+process.on('exit', () => fs.rmSync(dir, { recursive: true, force: true }));
@@ -0,0 +1,125 @@
+import './env';
+import express from 'express';
+import cookieParser from 'cookie-parser';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { runMigrations } from '../migrate';
+import { storage } from '../storage';
+import { createOrganization } from '../pgStorage';
+import { generateToken, validateCsrf } from '../jwtAuth';
+import { registerRoutes } from '../routes';
+import { insertActionSchema, insertProjectSchema, insertStrategySchema, type Action, type InsertUser, type Organization, type Project, type Strategy, type User } from '@shared/schema';
+
+runMigrations();
+
+let sequence = 0;
+const next = () => ++sequence;
+
+export async function createTestOrganization(): Promise<Organization> {
+  return createOrganization(`Organization ${next()}`);
+}
+
+export async function createTestUser(organizationId: string, overrides: Partial<InsertUser> = {}): Promise<User> {
+  const n = next();
+  return storage.createUser({
+    email: `user${n}@example.test`,
+    firstName: 'Test',
+    lastName: `User ${n}`,
+    role: 'co_lead',
+    organizationId,
+    ...overrides,
+  });
+}
+
+export async function createTestStrategy(owner: User): Promise<Strategy> {
+  return storage.createStrategy(insertStrategySchema.parse({
+    title: `Strategy ${next()}`,
+    description: 'Test strategy',
+    metrics: 'Test metrics',
+    createdBy: owner.id,
+    organizationId: owner.organizationId,
+  }));
+}
+
+export async function createTestProject(owner: User, strategy: Strategy): Promise<Project> {
+  return storage.createProject(insertProjectSchema.parse({
+    title: `Project ${next()}`,
+    description: 'Test project',
+    strategyId: strategy.id,
+    accountableLeaders: '[]',
+    startDate: new Date('2026-01-01'),
+    dueDate: new Date('2026-12-31'),
+    createdBy: owner.id,
+    organizationId: owner.organizationId,
+  }));
+}
+
+export async function createTestAction(owner: User, project: Project): Promise<Action> {
+  return storage.createAction(insertActionSchema.parse({
+    title: `Action ${next()}`,
+    description: 'Test action',
+    strategyId: project.strategyId,
+    projectId: project.id,
+    createdBy: owner.id,
+    organizationId: owner.organizationId,
+  }));
+}
+
+export interface TestResponse {
+  status: number;
+  body: any;
+}
+
+export interface TestServer {
+  // Sends the request signed in as `user` (a session cookie with a matching CSRF token), or with no credentials
+  request(user: User | null, method: string, path: string, body?: unknown): Promise<TestResponse>;
+  // Sends the request with a personal access token instead of a session
+  requestWithToken(token: string, method: string, path: string, body?: unknown): Promise<TestResponse>;
+  close(): Promise<void>;
+}
+
+async function send(url: string, method: string, headers: Record<string, string>, body: unknown): Promise<TestResponse> {
+  const response = await fetch(url, {
+    method,
+    headers: body === undefined ? headers : { ...headers, 'content-type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await response.text();
+  let parsed: unknown = text;
+  try {
+    parsed = text ? JSON.parse(text) : undefined;
+  } catch {
+    // Not JSON; keep the text
+  }
+  return { status: response.status, body: parsed };
+}
+
+// The API as the production server mounts it, listening on a free local port
+export async function startTestServer(): Promise<TestServer> {
+  const app = express();
+  app.use(cookieParser());
+  app.use('/api', validateCsrf);
+  app.use(express.json({ limit: '50mb' }));
+  const server: Server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    request(user, method, path, body) {
+      const headers: Record<string, string> = {};
+      if (user) {
+        const csrf = `csrf-${user.id}`;
+        headers.cookie = `auth_token=${generateToken({ userId: user.id, email: user.email ?? '' })}; csrf_token=${csrf}`;
+        headers['x-csrf-token'] = csrf;
+      }
+      return send(`${baseUrl}${path}`, method, headers, body);
+    },
+    requestWithToken(token, method, path, body) {
+      return send(`${baseUrl}${path}`, method, { authorization: `Bearer ${token}` }, body);
+    },
+    close() {
+      server.closeAllConnections();
+      return new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+    },
+  };
+}
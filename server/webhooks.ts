@@ -0,0 +1,163 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { storage } from './storage';
+import { logger } from './logger';
+import { postToOutboundUrl } from './outboundUrl';
+import { type WebhookDelivery, type WebhookEvent, type WebhookSubscription } from '@shared/schema';
+
+// Attempt 1 is immediate; later attempts wait 1, 2, 4, 8 and 16 minutes before the delivery is marked failed
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+const WEBHOOK_RETRY_BASE_MS = 60 * 1000;
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+// An attempt in flight holds its delivery this long; if the server stops mid-attempt it is retried afterwards
+export const WEBHOOK_ATTEMPT_LEASE_MS = 5 * 60 * 1000;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+// Receivers recompute HMAC-SHA256 over "<timestamp>.<raw body>" with the shared secret and compare it
+// to the X-LeaderOS-Signature header; the timestamp lets them reject stale replays of a captured request
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export function webhookRetryDelayMs(attempts: number): number {
+  return WEBHOOK_RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1);
+}
+
+export function parseWebhookEvents(value: string): WebhookEvent[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+async function attemptDelivery(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<WebhookDelivery | undefined> {
+  const attempts = delivery.attempts + 1;
+  const timestamp = Math.floor(Date.now() / 1000);
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  // Only the status is logged: the response body could be anything the URL's host chose to return
+  try {
+    const response = await postToOutboundUrl(subscription.url, {
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'LeaderOS-Webhooks/1.0',
+        'X-LeaderOS-Event': delivery.event,
+        'X-LeaderOS-Delivery': delivery.id,
+        'X-LeaderOS-Timestamp': String(timestamp),
+        'X-LeaderOS-Signature': `sha256=${signWebhookPayload(subscription.secret, timestamp, delivery.payload)}`,
+      },
+      body: delivery.payload,
+      timeoutMs: WEBHOOK_TIMEOUT_MS,
+    });
+    responseStatus = response.status;
+    if (response.status >= 300 && response.status < 400) {
+      error = `Receiver redirected with HTTP ${response.status}; redirects are not followed`;
+    } else if (!response.ok) {
+      error = `Receiver responded with HTTP ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const succeeded = error === null;
+  const givingUp = !succeeded && attempts >= WEBHOOK_MAX_ATTEMPTS;
+  if (givingUp) {
+    logger.warn(`Webhook delivery ${delivery.id} to ${subscription.url} failed after ${attempts} attempts: ${error}`);
+  }
+
+  return storage.updateWebhookDelivery(delivery.id, {
+    status: succeeded ? 'succeeded' : givingUp ? 'failed' : 'pending',
+    attempts,
+    lastAttemptAt: new Date(),
+    nextAttemptAt: succeeded || givingUp ? null : new Date(Date.now() + webhookRetryDelayMs(attempts)),
+    responseStatus,
+    error,
+  });
+}
+
+/**
+ * Queue a delivery of `event` to every active subscription in the organization that listens for it,
+ * and make the first attempt straight away. Never throws: webhooks must not break the request that
+ * triggered them, and failed attempts are picked up by the retry scheduler.
+ */
+export async function emitWebhookEvent(organizationId: string | null | undefined, event: WebhookEvent, data: unknown): Promise<void> {
+  if (!organizationId) return;
+  try {
+    const subscriptions = (await storage.getWebhookSubscriptions(organizationId))
+      .filter(s => s.isActive === 'true' && parseWebhookEvents(s.events).includes(event));
+    if (subscriptions.length === 0) return;
+
+    // The event id is shared by every subscription's copy (and by replays) so receivers can de-duplicate
+    const payload = JSON.stringify({ id: randomUUID(), event, occurredAt: new Date().toISOString(), organizationId, data });
+    for (const subscription of subscriptions) {
+      const delivery = await storage.createWebhookDelivery({
+        subscriptionId: subscription.id,
+        organizationId,
+        event,
+        payload,
+        status: 'pending',
+        nextAttemptAt: new Date(Date.now() + WEBHOOK_ATTEMPT_LEASE_MS),
+      });
+      attemptDelivery(delivery, subscription).catch(err => logger.error('Webhook delivery failed', err));
+    }
+  } catch (error) {
+    logger.error(`Failed to queue webhook event ${event}`, error);
+  }
+}
+
+type LifecycleEntity = { organizationId: string | null; status: string };
+type LifecycleEntityType = 'strategy' | 'project' | 'action';
+
+const isCompletedStatus: Record<LifecycleEntityType, (status: string) => boolean> = {
+  strategy: (status) => status.toLowerCase() === 'completed',
+  project: (status) => status === 'C',
+  action: (status) => status === 'achieved' || status.toLowerCase() === 'completed',
+};
+
+// created / updated / status_changed / completed for strategies, projects and actions
+export async function emitLifecycleWebhooks(entityType: LifecycleEntityType, before: LifecycleEntity | undefined, after: LifecycleEntity): Promise<void> {
+  if (!before) {
+    await emitWebhookEvent(after.organizationId, `${entityType}.created`, after);
+    return;
+  }
+  await emitWebhookEvent(after.organizationId, `${entityType}.updated`, after);
+  if (before.status !== after.status) {
+    await emitWebhookEvent(after.organizationId, `${entityType}.status_changed`, { ...after, previousStatus: before.status });
+    if (isCompletedStatus[entityType](after.status) && !isCompletedStatus[entityType](before.status)) {
+      await emitWebhookEvent(after.organizationId, `${entityType}.completed`, after);
+    }
+  }
+}
+
+// Send an earlier delivery's payload again as a new delivery, signed with the subscription's current secret
+export async function replayWebhookDelivery(original: WebhookDelivery): Promise<WebhookDelivery | undefined> {
+  const subscription = await storage.getWebhookSubscription(original.subscriptionId);
+  if (!subscription) return undefined;
+  const delivery = await storage.createWebhookDelivery({
+    subscriptionId: original.subscriptionId,
+    organizationId: original.organizationId,
+    event: original.event,
+    payload: original.payload,
+    status: 'pending',
+    nextAttemptAt: new Date(Date.now() + WEBHOOK_ATTEMPT_LEASE_MS),
+    replayOf: original.id,
+  });
+  return attemptDelivery(delivery, subscription);
+}
+
+export async function retryDueWebhookDeliveries(): Promise<void> {
+  const due = await storage.claimDueWebhookDeliveries(new Date(), new Date(Date.now() + WEBHOOK_ATTEMPT_LEASE_MS), 50);
+  for (const delivery of due) {
+    const subscription = await storage.getWebhookSubscription(delivery.subscriptionId);
+    if (!subscription || subscription.isActive !== 'true') {
+      await storage.updateWebhookDelivery(delivery.id, { status: 'failed', nextAttemptAt: null, error: 'Subscription was removed or disabled' });
+      continue;
+    }
+    await attemptDelivery(delivery, subscription);
+  }
+}
@@ -0,0 +1,115 @@
+import { storage } from './storage';
+import { calculateCriticalPath, type CriticalPathEntry } from './criticalPath';
+
+export type WorkstreamStatus = {
+  taskRag: Record<string, string>;
+  // RAG per workstream per phase (its gate), then per phase across the whole program
+  workstreamGateRag: Record<string, Record<string, string>>;
+  programGateRag: Record<string, string>;
+  criticalPath: Record<string, CriticalPathEntry>;
+  projectDurationDays: number;
+};
+
+/**
+ * RAG status of every workstream task, workstream gate and program gate in the strategy, plus its
+ * critical path. A task is RED when the work left no longer fits before its planned end and AMBER
+ * when it fits with less than BUFFER_DAYS to spare.
+ */
+export async function calculateWorkstreamStatus(strategyId: string): Promise<WorkstreamStatus> {
+  const [tasks, workstreams, phases, dependencies] = await Promise.all([
+    storage.getWorkstreamActionsByStrategy(strategyId),
+    storage.getWorkstreamsByStrategy(strategyId),
+    storage.getPhasesByStrategy(strategyId),
+    storage.getWorkstreamDependenciesByStrategy(strategyId),
+  ]);
+
+  const BUFFER_DAYS = 5;
+  const now = new Date();
+
+  const taskRag: Record<string, { rag: string; task: any }> = {};
+  for (const task of tasks) {
+    let rag = "GREEN";
+    if (task.status === "complete" || task.status === "completed") {
+      rag = "COMPLETE";
+    } else if (task.status === "blocked") {
+      rag = "RED";
+    } else {
+      const plannedEnd = task.plannedEnd ? new Date(task.plannedEnd) : null;
+      if (plannedEnd) {
+        const daysRemaining = Math.ceil((plannedEnd.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+        const pctLeft = 100 - (task.percentComplete || 0);
+        const daysOfWorkRemaining = Math.ceil((pctLeft / 100) * (task.durationDays || 1));
+        if (daysRemaining < daysOfWorkRemaining) {
+          rag = "RED";
+        } else if (daysRemaining < daysOfWorkRemaining + BUFFER_DAYS) {
+          rag = "AMBER";
+        }
+      }
+    }
+    taskRag[task.id] = { rag, task };
+  }
+
+  const workstreamGateRag: Record<string, Record<string, string>> = {};
+  for (const ws of workstreams) {
+    workstreamGateRag[ws.id] = {};
+    for (const phase of phases) {
+      const phaseTasks = tasks.filter(t => t.workstreamId === ws.id && t.phaseId === phase.id);
+      if (phaseTasks.length === 0) {
+        workstreamGateRag[ws.id][phase.id] = "NONE";
+      } else {
+        const rags = phaseTasks.map(t => taskRag[t.id]?.rag || "GREEN");
+        if (rags.includes("RED")) {
+          workstreamGateRag[ws.id][phase.id] = "RED";
+        } else if (rags.includes("AMBER")) {
+          workstreamGateRag[ws.id][phase.id] = "AMBER";
+        } else if (rags.every(r => r === "COMPLETE")) {
+          workstreamGateRag[ws.id][phase.id] = "COMPLETE";
+        } else {
+          workstreamGateRag[ws.id][phase.id] = "GREEN";
+        }
+      }
+    }
+  }
+
+  const programGateRag: Record<string, string> = {};
+  for (const phase of phases) {
+    const wsRags = workstreams.map(ws => workstreamGateRag[ws.id]?.[phase.id] || "GREEN");
+
+    const gateTasks = tasks.filter(
+      t => t.phaseId === phase.id && t.isMilestone === "true" && t.milestoneType === "program_gate"
+    );
+    const allCriteria: any[] = [];
+    for (const gt of gateTasks) {
+      const criteria = await storage.getGateCriteriaByTask(gt.id);
+      allCriteria.push(...criteria);
+    }
+    const unmetCriteria = allCriteria.filter(c => c.isMet !== "true");
+
+    const activeWsRags = wsRags.filter(r => r !== "NONE");
+    if (activeWsRags.length === 0 && allCriteria.length === 0) {
+      programGateRag[phase.id] = "NONE";
+    } else if (activeWsRags.includes("RED") || unmetCriteria.length > 0) {
+      programGateRag[phase.id] = "RED";
+    } else if (activeWsRags.includes("AMBER")) {
+      programGateRag[phase.id] = "AMBER";
+    } else if (activeWsRags.length > 0 && activeWsRags.every(r => r === "COMPLETE") && allCriteria.length > 0 && unmetCriteria.length === 0) {
+      programGateRag[phase.id] = "COMPLETE";
+    } else if (activeWsRags.length === 0) {
+      programGateRag[phase.id] = "NONE";
+    } else {
+      programGateRag[phase.id] = "GREEN";
+    }
+  }
+
+  const { criticalPath, projectDurationDays } = calculateCriticalPath(tasks, dependencies);
+
+  return {
+    taskRag: Object.fromEntries(
+      Object.entries(taskRag).map(([id, v]) => [id, v.rag])
+    ),
+    workstreamGateRag,
+    programGateRag,
+    criticalPath,
+    projectDurationDays,
+  };
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { sqliteTable, text, integer, unique, index } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real, unique, index } from "drizzle-orm/sqlite-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 const randomUUID = (): string => {
@@ -17,6 +17,11 @@ export const organizations = sqliteTable("organizations", {
   id: text("id").primaryKey().$defaultFn(() => randomUUID()),
   name: text("name").notNull(),
   registrationToken: text("registration_token").notNull().unique(),
+  recycleBinRetentionDays: integer("recycle_bin_retention_days").notNull().default(30),
+  reminderDueOffsets: text("reminder_due_offsets").notNull().default('[14,7,1]'),
+  reminderOverdueOffsets: text("reminder_overdue_offsets").notNull().default('[1,7]'),
+  projectWakeUpAction: text("project_wake_up_action").notNull().default('notify'),
+  requireAdminTotp: text("require_admin_totp").notNull().default('false'),
   createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
   updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
 });
@@ -30,6 +35,30 @@ export const insertOrganizationSchema = createInsertSchema(organizations).omit({
 export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
 export type Organization = typeof organizations.$inferSelect;
 
+// Due-date reminders: days before the due date and days after it, stored on the organization as JSON arrays
+export const DEFAULT_REMINDER_DUE_OFFSETS = [14, 7, 1];
+export const DEFAULT_REMINDER_OVERDUE_OFFSETS = [1, 7];
+
+export const reminderOffsetsSchema = z.object({
+  dueOffsets: z.array(z.number().int().min(0).max(365)).max(10),
+  overdueOffsets: z.array(z.number().int().min(1).max(365)).max(10),
+});
+
+export type ReminderOffsets = z.infer<typeof reminderOffsetsSchema>;
+
+// What happens when an archived project reaches its wake-up date: notify administrators, or reactivate it outright
+export const projectWakeUpActions = ['notify', 'unarchive'] as const;
+export type ProjectWakeUpAction = typeof projectWakeUpActions[number];
+
+export function parseReminderOffsets(value: string | null | undefined, fallback: number[]): number[] {
+  try {
+    const parsed = JSON.parse(value ?? '');
+    return Array.isArray(parsed) ? parsed.filter((n): n is number => Number.isInteger(n) && n >= 0) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
 export const sessions = sqliteTable(
   "sessions",
   {
@@ -48,6 +77,8 @@ export const users = sqliteTable("users", {
   lastName: text("last_name"),
   profileImageUrl: text("profile_image_url"),
   role: text("role").notNull().default('co_lead'),
+  // Custom role whose capabilities replace the built-in ones; role then holds the role it was cloned from
+  customRoleId: text("custom_role_id"),
   timezone: text("timezone").default('America/Chicago'),
   organizationId: text("organization_id"),
   isSuperAdmin: text("is_super_admin").notNull().default('false'),
@@ -55,6 +86,7 @@ export const users = sqliteTable("users", {
   salary: integer("salary"),
   serviceDeliveryHours: text("service_delivery_hours").default('0'),
   twoFactorEnabled: text("two_factor_enabled").notNull().default('false'),
+  twoFactorMethod: text("two_factor_method").notNull().default('email'),
   mustChangePassword: text("must_change_password").notNull().default('false'),
   createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
   updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
@@ -98,10 +130,50 @@ export const insertTwoFactorCodeSchema = createInsertSchema(twoFactorCodes).omit
 export type InsertTwoFactorCode = z.infer<typeof insertTwoFactorCodeSchema>;
 export type TwoFactorCode = typeof twoFactorCodes.$inferSelect;
 
+// How the second factor is delivered: a code emailed at sign-in, or an authenticator app
+export const twoFactorMethods = ['email', 'totp'] as const;
+export type TwoFactorMethod = typeof twoFactorMethods[number];
+
+// Authenticator-app secret, kept out of the users table so it is never serialised with the user.
+// confirmedAt stays null until the first code from the app is verified.
+export const totpCredentials = sqliteTable("totp_credentials", {
+  userId: text("user_id").primaryKey(),
+  secret: text("secret").notNull(),
+  confirmedAt: integer("confirmed_at", { mode: "timestamp" }),
+  lastUsedStep: integer("last_used_step"),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
+export type TotpCredential = typeof totpCredentials.$inferSelect;
+
+export const twoFactorRecoveryCodes = sqliteTable("two_factor_recovery_codes", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  userId: text("user_id").notNull(),
+  codeHash: text("code_hash").notNull(),
+  usedAt: integer("used_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+}, (table) => ({
+  userIdx: index("IDX_two_factor_recovery_codes_user").on(table.userId),
+}));
+
+export type TwoFactorRecoveryCode = typeof twoFactorRecoveryCodes.$inferSelect;
+
+export const twoFactorPolicySchema = z.object({
+  requireAdminTotp: z.boolean(),
+});
+
+export type TwoFactorPolicy = z.infer<typeof twoFactorPolicySchema>;
+
+// Roles a user can hold on a single strategy; administrators and SMEs are organization-wide
+export const strategyRoles = ['co_lead', 'view'] as const;
+export type StrategyRole = typeof strategyRoles[number];
+
 export const userStrategyAssignments = sqliteTable("user_strategy_assignments", {
   id: text("id").primaryKey().$defaultFn(() => randomUUID()),
   userId: text("user_id").notNull(),
   strategyId: text("strategy_id").notNull(),
+  // Overrides the user's global role on this strategy; null uses the global role
+  role: text("role").$type<StrategyRole>(),
   assignedBy: text("assigned_by").notNull(),
   assignedAt: integer("assigned_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
 }, (table) => ({
@@ -177,6 +249,9 @@ export const strategies = sqliteTable("strategies", {
   executiveGoalId: text("executive_goal_id"),
   createdBy: text("created_by").notNull(),
   createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  // Millisecond precision: children share their parent's exact deletedAt so a restore can find them
+  deletedAt: integer("deleted_at", { mode: "timestamp_ms" }),
+  deletedBy: text("deleted_by"),
 });
 
 export const projects = sqliteTable("projects", {
@@ -206,7 +281,11 @@ export const projects = sqliteTable("projects", {
   organizationId: text("organization_id"),
   createdBy: text("created_by").notNull(),
   createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
-});
+  deletedAt: integer("deleted_at", { mode: "timestamp_ms" }),
+  deletedBy: text("deleted_by"),
+}, (table) => ({
+  dueDateIdx: index("IDX_projects_due_date").on(table.dueDate),
+}));
 
 export const projectSnapshots = sqliteTable("project_snapshots", {
   id: text("id").primaryKey().$defaultFn(() => randomUUID()),
@@ -235,7 +314,9 @@ export const barriers = sqliteTable("barriers", {
   createdBy: text("created_by").notNull(),
   createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
   updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
-});
+}, (table) => ({
+  targetResolutionDateIdx: index("IDX_barriers_target_resolution_date").on(table.targetResolutionDate),
+}));
 
 export const activities = sqliteTable("activities", {
   id: text("id").primaryKey().$defaultFn(() => randomUUID()),
@@ -283,7 +364,21 @@ export const actions = sqliteTable("actions", {
   lateStart: integer("late_start", { mode: "timestamp" }),
   lateEnd: integer("late_end", { mode: "timestamp" }),
   totalFloat: integer("total_float"),
-});
+  deletedAt: integer("deleted_at", { mode: "timestamp_ms" }),
+  deletedBy: text("deleted_by"),
+  // Recurrence rule; every occurrence carries the rule and points at the first occurrence of its series
+  recurrenceFrequency: text("recurrence_frequency"),
+  recurrenceUntil: integer("recurrence_until", { mode: "timestamp" }),
+  recurrenceCount: integer("recurrence_count"),
+  recurrenceSeriesId: text("recurrence_series_id"),
+  recurrenceIndex: integer("recurrence_index"),
+}, (table) => ({
+  dueDateIdx: index("IDX_actions_due_date").on(table.dueDate),
+  milestoneIdx: index("IDX_actions_milestone").on(table.isMilestone, table.plannedEnd),
+}));
+
+export const recurrenceFrequencies = ['daily', 'weekly', 'monthly', 'quarterly'] as const;
+export type RecurrenceFrequency = typeof recurrenceFrequencies[number];
 
 export const actionDocuments = sqliteTable("action_documents", {
   id: text("id").primaryKey().$defaultFn(() => randomUUID()),
@@ -313,9 +408,34 @@ export const notifications = sqliteTable("notifications", {
   relatedEntityType: text("related_entity_type"),
   isRead: text("is_read").notNull().default('false'),
   organizationId: text("organization_id"),
+  emailDigest: text("email_digest").notNull().default('false'),
+  digestSentAt: integer("digest_sent_at", { mode: "timestamp" }),
+  // Hidden from the inbox until this time, then shown again as unread
+  snoozedUntil: integer("snoozed_until", { mode: "timestamp" }),
   createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
 });
 
+// How each notification type reaches a user. Every channel except "off" also shows the notification in the bell;
+// "email" sends it right away and "digest" collects it into one email per day.
+export const notificationChannels = ['in_app', 'email', 'digest', 'off'] as const;
+export type NotificationChannel = typeof notificationChannels[number];
+
+export const notificationPreferences = sqliteTable("notification_preferences", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  userId: text("user_id").notNull(),
+  notificationType: text("notification_type").notNull(),
+  channel: text("channel").notNull().$type<NotificationChannel>(),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+}, (table) => ({
+  uniqueUserType: unique().on(table.userId, table.notificationType),
+}));
+
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+
+export const updateNotificationPreferencesSchema = z.object({
+  preferences: z.record(z.string(), z.enum(notificationChannels)),
+});
+
 export const upsertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
   updatedAt: true,
@@ -330,6 +450,8 @@ export const insertUserSchema = createInsertSchema(users).omit({
 export const insertStrategySchema = createInsertSchema(strategies).omit({
   id: true,
   createdAt: true,
+  deletedAt: true,
+  deletedBy: true,
 }).extend({
   startDate: z.coerce.date().optional().nullable(),
   targetDate: z.coerce.date().optional().nullable(),
@@ -350,6 +472,8 @@ export const insertProjectSchema = createInsertSchema(projects).omit({
   id: true,
   createdAt: true,
   progress: true,
+  deletedAt: true,
+  deletedBy: true,
 }).extend({
   startDate: z.coerce.date(),
   dueDate: z.coerce.date(),
@@ -374,12 +498,16 @@ export const insertActivitySchema = createInsertSchema(activities).omit({
 export const insertActionSchema = createInsertSchema(actions).omit({
   id: true,
   createdAt: true,
+  deletedAt: true,
+  deletedBy: true,
   isCritical: true,
   earlyStart: true,
   earlyEnd: true,
   lateStart: true,
   lateEnd: true,
   totalFloat: true,
+  recurrenceSeriesId: true,
+  recurrenceIndex: true,
 }).extend({
   dueDate: z.coerce.date().optional(),
   documentFolderUrl: z.string().url("Invalid document folder URL format").nullable().optional().or(z.literal('')).transform(val => val || null),
@@ -394,6 +522,9 @@ export const insertActionSchema = createInsertSchema(actions).omit({
   durationDays: z.number().int().default(1),
   percentComplete: z.number().int().min(0).max(100).default(0),
   sortOrder: z.number().int().default(0),
+  recurrenceFrequency: z.enum(recurrenceFrequencies).nullable().optional(),
+  recurrenceUntil: z.coerce.date().nullable().optional(),
+  recurrenceCount: z.number().int().min(2, "A repeating action needs at least 2 occurrences").max(1000).nullable().optional(),
 });
 
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
@@ -653,7 +784,9 @@ export const decisions = sqliteTable("decisions", {
   createdBy: text("created_by").notNull(),
   createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
   updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
-});
+}, (table) => ({
+  dueDateIdx: index("IDX_decisions_due_date").on(table.dueDate),
+}));
 
 export const insertDecisionSchema = createInsertSchema(decisions).omit({
   id: true,
@@ -726,7 +859,9 @@ export const phases = sqliteTable("phases", {
   plannedEnd: integer("planned_end", { mode: "timestamp" }),
   createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
   updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
-});
+}, (table) => ({
+  plannedEndIdx: index("IDX_phases_planned_end").on(table.plannedEnd),
+}));
 
 export const insertPhaseSchema = createInsertSchema(phases).omit({
   id: true,
@@ -783,3 +918,1090 @@ export const insertGateCriteriaSchema = createInsertSchema(gateCriteria).omit({
 
 export type InsertGateCriteria = z.infer<typeof insertGateCriteriaSchema>;
 export type GateCriteria = typeof gateCriteria.$inferSelect;
+
+export const frameworkDocuments = sqliteTable("framework_documents", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  organizationId: text("organization_id").notNull(),
+  frameworkType: text("framework_type").notNull(),
+  title: text("title").notNull(),
+  content: text("content").notNull().default("{}"),
+  version: integer("version").notNull().default(1),
+  strategyId: text("strategy_id"),
+  projectId: text("project_id"),
+  createdBy: text("created_by").notNull(),
+  updatedBy: text("updated_by"),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
+export const frameworkTypes = [
+  "swot",
+  "pestle",
+  "porters_five_forces",
+  "ogsm",
+  "strategy_on_a_page",
+  "first_principles",
+  "eisenhower_matrix",
+  "smart_goals",
+] as const;
+
+export const insertFrameworkDocumentSchema = createInsertSchema(frameworkDocuments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  createdBy: true,
+  updatedBy: true,
+  organizationId: true,
+  version: true,
+}).extend({
+  frameworkType: z.enum(frameworkTypes),
+  title: z.string().min(1, "Title is required").max(255),
+  content: z.string().max(500000),
+  strategyId: z.string().nullable().optional().transform(val => val === "" ? null : val),
+  projectId: z.string().nullable().optional().transform(val => val === "" ? null : val),
+});
+
+export type InsertFrameworkDocument = z.infer<typeof insertFrameworkDocumentSchema>;
+export type FrameworkDocument = typeof frameworkDocuments.$inferSelect;
+
+export const frameworkDocumentVersions = sqliteTable("framework_document_versions", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  documentId: text("document_id").notNull(),
+  version: integer("version").notNull(),
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  createdBy: text("created_by").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+}, (table) => ({
+  uniqueDocumentVersion: unique().on(table.documentId, table.version),
+}));
+
+export type FrameworkDocumentVersion = typeof frameworkDocumentVersions.$inferSelect;
+
+// Dated readings for action targets and project KPIs. Each reading is kept so
+// progress toward a metric can be charted and audited over time.
+export const measurementEntityTypes = ["action", "project"] as const;
+
+export const measurements = sqliteTable("measurements", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  entityType: text("entity_type").notNull(),
+  entityId: text("entity_id").notNull(),
+  strategyId: text("strategy_id").notNull(),
+  value: real("value").notNull(),
+  targetValue: real("target_value"),
+  unit: text("unit"),
+  note: text("note"),
+  measuredAt: integer("measured_at", { mode: "timestamp" }).notNull(),
+  organizationId: text("organization_id").notNull(),
+  recordedBy: text("recorded_by").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+}, (table) => ({
+  entityIdx: index("IDX_measurements_entity").on(table.entityType, table.entityId),
+}));
+
+export const insertMeasurementSchema = createInsertSchema(measurements).omit({
+  id: true,
+  createdAt: true,
+  entityType: true,
+  entityId: true,
+  strategyId: true,
+  organizationId: true,
+  recordedBy: true,
+}).extend({
+  value: z.coerce.number({ invalid_type_error: "Value must be a number" }),
+  targetValue: z.coerce.number().nullable().optional(),
+  unit: z.string().max(50).nullable().optional(),
+  note: z.string().max(1000).nullable().optional(),
+  measuredAt: z.coerce.date(),
+});
+
+export type InsertMeasurement = z.infer<typeof insertMeasurementSchema>;
+export type Measurement = typeof measurements.$inferSelect;
+
+// Named, point-in-time copies of a strategy's project and action dates (e.g. "FY26 approved plan")
+// used to report schedule slip and scope change against the current plan
+export const scheduleBaselines = sqliteTable("schedule_baselines", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  strategyId: text("strategy_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  snapshotData: text("snapshot_data").notNull(),
+  organizationId: text("organization_id").notNull(),
+  createdBy: text("created_by").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
+export const insertScheduleBaselineSchema = createInsertSchema(scheduleBaselines).omit({
+  id: true,
+  createdAt: true,
+  createdBy: true,
+  organizationId: true,
+  strategyId: true,
+  snapshotData: true,
+}).extend({
+  name: z.string().min(1, "Name is required").max(255),
+  description: z.string().max(2000).nullable().optional(),
+});
+
+export type InsertScheduleBaseline = z.infer<typeof insertScheduleBaselineSchema>;
+export type ScheduleBaseline = typeof scheduleBaselines.$inferSelect;
+
+// Field-level audit trail: one row per update, holding the before/after value of each changed field
+export const changeHistory = sqliteTable("change_history", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  entityType: text("entity_type").notNull(),
+  entityId: text("entity_id").notNull(),
+  changes: text("changes").notNull(),
+  changedBy: text("changed_by").notNull(),
+  organizationId: text("organization_id"),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+}, (table) => ({
+  entityIdx: index("IDX_change_history_entity").on(table.entityType, table.entityId),
+}));
+
+export type FieldChange = { field: string; from: unknown; to: unknown };
+export type ChangeHistoryEntry = typeof changeHistory.$inferSelect;
+
+// Soft-deleted strategies, projects and actions awaiting restore or purge.
+// Children deleted together with their parent are folded into the parent's entry.
+export type RecycleBinEntityType = 'strategy' | 'project' | 'action';
+export type RecycleBinItem = {
+  type: RecycleBinEntityType;
+  id: string;
+  title: string;
+  strategyId: string | null;
+  projectId: string | null;
+  organizationId: string | null;
+  deletedAt: Date;
+  deletedBy: string | null;
+  childProjects: number;
+  childActions: number;
+};
+
+// Spreadsheet import: columns are mapped onto these fields, validated row by row, then committed together.
+// People columns (leaders, assignees) hold email addresses separated by commas or semicolons.
+export const importEntityTypes = ['strategies', 'projects', 'actions'] as const;
+export type ImportEntityType = typeof importEntityTypes[number];
+export type ImportField = { key: string; label: string; required?: boolean };
+
+export const importFields: Record<ImportEntityType, ImportField[]> = {
+  strategies: [
+    { key: 'title', label: 'Title', required: true },
+    { key: 'description', label: 'Description' },
+    { key: 'goal', label: 'Goal' },
+    { key: 'metrics', label: 'Metrics' },
+    { key: 'startDate', label: 'Start Date' },
+    { key: 'targetDate', label: 'Target Date' },
+    { key: 'colorCode', label: 'Color' },
+  ],
+  projects: [
+    { key: 'title', label: 'Title', required: true },
+    { key: 'description', label: 'Description' },
+    { key: 'strategy', label: 'Strategy (title)' },
+    { key: 'startDate', label: 'Start Date', required: true },
+    { key: 'dueDate', label: 'Due Date', required: true },
+    { key: 'status', label: 'Status' },
+    { key: 'kpi', label: 'KPI' },
+    { key: 'kpiTracking', label: 'KPI Tracking' },
+    { key: 'accountableLeaders', label: 'Leaders (emails)' },
+    { key: 'documentFolderUrl', label: 'Document Folder URL' },
+    { key: 'communicationUrl', label: 'Communication URL' },
+  ],
+  actions: [
+    { key: 'title', label: 'Title', required: true },
+    { key: 'description', label: 'Description' },
+    { key: 'strategy', label: 'Strategy (title)' },
+    { key: 'project', label: 'Project (title)' },
+    { key: 'status', label: 'Status' },
+    { key: 'dueDate', label: 'Due Date' },
+    { key: 'targetValue', label: 'Target Value' },
+    { key: 'measurementUnit', label: 'Unit' },
+    { key: 'notes', label: 'Notes' },
+    { key: 'assignees', label: 'Assignees (emails)' },
+    { key: 'documentFolderUrl', label: 'Document Folder URL' },
+  ],
+};
+
+export type ImportRowResult = {
+  row: number;
+  title: string;
+  strategy: string | null;
+  project: string | null;
+  errors: string[];
+};
+
+export type ImportPreview = {
+  entityType: ImportEntityType;
+  rows: ImportRowResult[];
+  validCount: number;
+  errorCount: number;
+};
+
+export type ImportBatch = {
+  organizationId: string | null;
+  createdBy: string;
+  strategies: InsertStrategy[];
+  projects: Array<{ project: InsertProject; leaderIds: string[] }>;
+  actions: Array<{ action: InsertAction; assigneeIds: string[] }>;
+};
+
+export type ImportResult = {
+  strategies: number;
+  projects: number;
+  actions: number;
+};
+
+// Portable per-organization archive produced by GET /api/admin/export. Rows keep their original ids;
+// import assigns fresh ids and rewrites every reference. Users carry profile fields only, never credentials.
+export const ORGANIZATION_ARCHIVE_FORMAT = 'leaderos-organization-archive';
+export const ORGANIZATION_ARCHIVE_VERSION = 1;
+
+export type ArchivedUser = Pick<User, 'id' | 'email' | 'firstName' | 'lastName' | 'role' | 'customRoleId' | 'timezone' | 'fte' | 'salary' | 'serviceDeliveryHours'>;
+
+export type OrganizationArchive = {
+  format: typeof ORGANIZATION_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  organization: { name: string };
+  users: ArchivedUser[];
+  tables: Record<string, Record<string, unknown>[]>;
+};
+
+export type ArchiveImportResult = {
+  organizationId: string;
+  counts: Record<string, number>;
+  usersCreated: number;
+  usersMatched: number;
+  // Rows left out because they referred to data the archive does not contain
+  rowsSkipped: number;
+};
+
+// What-if copies of a strategy's plan. The plan is cloned into JSON so sandbox edits never touch live rows;
+// baseData keeps the plan as it was cloned, so promotion applies only what was changed in the sandbox.
+export const strategyScenarios = sqliteTable("strategy_scenarios", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  strategyId: text("strategy_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  status: text("status").notNull().default('draft'),
+  baseData: text("base_data").notNull(),
+  planData: text("plan_data").notNull(),
+  organizationId: text("organization_id").notNull(),
+  createdBy: text("created_by").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  promotedAt: integer("promoted_at", { mode: "timestamp" }),
+  promotedBy: text("promoted_by"),
+});
+
+export const insertStrategyScenarioSchema = createInsertSchema(strategyScenarios).omit({
+  id: true,
+  strategyId: true,
+  status: true,
+  baseData: true,
+  planData: true,
+  organizationId: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+  promotedAt: true,
+  promotedBy: true,
+}).extend({
+  name: z.string().min(1, "Name is required").max(255),
+  description: z.string().max(2000).nullable().optional(),
+});
+
+export type InsertStrategyScenario = z.infer<typeof insertStrategyScenarioSchema>;
+export type StrategyScenario = typeof strategyScenarios.$inferSelect;
+
+// Dates in a scenario plan are ISO strings
+export type ScenarioProject = {
+  id: string;
+  title: string;
+  status: string;
+  startDate: string | null;
+  dueDate: string | null;
+  dropped: boolean;
+};
+
+export type ScenarioAction = {
+  id: string;
+  projectId: string | null;
+  title: string;
+  status: string;
+  workstreamId: string | null;
+  phaseId: string | null;
+  dueDate: string | null;
+  plannedStart: string | null;
+  plannedEnd: string | null;
+  durationDays: number;
+  dropped: boolean;
+};
+
+export type ScenarioPlan = {
+  projects: ScenarioProject[];
+  actions: ScenarioAction[];
+  workstreams: { id: string; name: string }[];
+  dependencies: { id: string; predecessorTaskId: string; successorTaskId: string; type: string; lagDays: number }[];
+};
+
+// Sandbox edits. shiftDays moves a project and all of its actions together.
+export const updateScenarioProjectSchema = z.object({
+  startDate: z.coerce.date().optional(),
+  dueDate: z.coerce.date().optional(),
+  shiftDays: z.number().int().min(-3650).max(3650).optional(),
+  dropped: z.boolean().optional(),
+});
+
+export const updateScenarioActionSchema = z.object({
+  dueDate: z.coerce.date().nullable().optional(),
+  plannedStart: z.coerce.date().nullable().optional(),
+  plannedEnd: z.coerce.date().nullable().optional(),
+  durationDays: z.number().int().min(1).max(3650).optional(),
+  dropped: z.boolean().optional(),
+});
+
+export type UpdateScenarioProject = z.infer<typeof updateScenarioProjectSchema>;
+export type UpdateScenarioAction = z.infer<typeof updateScenarioActionSchema>;
+
+export type ScenarioPromotionResult = {
+  projectsUpdated: number;
+  actionsUpdated: number;
+  projectsDropped: number;
+  actionsDropped: number;
+};
+
+// Discussion threads on projects, actions, barriers and decisions. Replies point at a
+// top-level comment through parentId; threads are one level deep.
+// Mentions are written into the body as @[Display Name](userId) tokens.
+export const commentEntityTypes = ['project', 'action', 'barrier', 'decision'] as const;
+export type CommentEntityType = typeof commentEntityTypes[number];
+
+export const comments = sqliteTable("comments", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  entityType: text("entity_type").notNull().$type<CommentEntityType>(),
+  entityId: text("entity_id").notNull(),
+  parentId: text("parent_id"),
+  body: text("body").notNull(),
+  mentions: text("mentions").notNull().default("[]"),
+  authorId: text("author_id").notNull(),
+  organizationId: text("organization_id").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  editedAt: integer("edited_at", { mode: "timestamp" }),
+  // A deleted comment that still has replies stays as an empty placeholder so the replies keep their thread
+  deletedAt: integer("deleted_at", { mode: "timestamp" }),
+}, (table) => ({
+  entityIdx: index("IDX_comments_entity").on(table.entityType, table.entityId),
+}));
+
+export const insertCommentSchema = z.object({
+  body: z.string().trim().min(1, "Comment cannot be empty").max(10000),
+  parentId: z.string().nullable().optional(),
+});
+
+export const updateCommentSchema = insertCommentSchema.pick({ body: true });
+
+export type InsertComment = z.infer<typeof insertCommentSchema>;
+export type Comment = typeof comments.$inferSelect;
+
+export const MENTION_PATTERN = /@\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+export function extractMentionedUserIds(body: string): string[] {
+  const ids = Array.from(body.matchAll(MENTION_PATTERN), match => match[2]);
+  return Array.from(new Set(ids));
+}
+
+// Reminder ledger: one row per reminder window per due date, so reminders survive restarts and are
+// never sent twice. Windows that were superseded before they could be sent are recorded as skipped.
+export const reminderLedger = sqliteTable("reminder_ledger", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  entityType: text("entity_type").notNull(),
+  entityId: text("entity_id").notNull(),
+  reminderKey: text("reminder_key").notNull(),
+  dueDate: integer("due_date", { mode: "timestamp" }).notNull(),
+  status: text("status").notNull().$type<'sent' | 'skipped'>(),
+  organizationId: text("organization_id"),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+}, (table) => ({
+  uniqueReminder: unique().on(table.entityType, table.entityId, table.reminderKey, table.dueDate),
+}));
+
+export type ReminderLedgerEntry = typeof reminderLedger.$inferSelect;
+export type InsertReminderLedgerEntry = typeof reminderLedger.$inferInsert;
+
+// Every kind of dated record the reminder scheduler watches; also the ledger's entityType
+export const deadlineReminderKinds = ['action', 'gate', 'project', 'barrier', 'decision', 'phase'] as const;
+export type DeadlineReminderKind = typeof deadlineReminderKinds[number];
+
+// An open, dated record together with the users its reminders go to
+export type DeadlineReminderTarget = {
+  entityId: string;
+  title: string;
+  dueDate: Date;
+  organizationId: string | null;
+  ownerIds: string[];
+};
+
+// Outbound webhooks: organization-level subscriptions to entity lifecycle events
+export const webhookEvents = [
+  'strategy.created', 'strategy.updated', 'strategy.status_changed', 'strategy.completed',
+  'project.created', 'project.updated', 'project.status_changed', 'project.completed',
+  'action.created', 'action.updated', 'action.status_changed', 'action.completed',
+  'barrier.raised', 'barrier.resolved',
+  'decision.decided',
+  'gate_criteria.met',
+] as const;
+export type WebhookEvent = typeof webhookEvents[number];
+
+export const webhookSubscriptions = sqliteTable("webhook_subscriptions", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  organizationId: text("organization_id").notNull(),
+  name: text("name").notNull(),
+  url: text("url").notNull(),
+  // Shared secret for the HMAC-SHA256 signature; only shown to the admin when created or rotated
+  secret: text("secret").notNull(),
+  events: text("events").notNull().default("[]"),
+  isActive: text("is_active").notNull().default("true"),
+  createdBy: text("created_by").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
+export const insertWebhookSubscriptionSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  url: z.string().trim().url("Enter a valid URL").refine(url => /^https?:\/\//i.test(url), "URL must use http or https"),
+  events: z.array(z.enum(webhookEvents)).min(1, "Choose at least one event"),
+  isActive: z.enum(["true", "false"]).default("true"),
+});
+
+export const updateWebhookSubscriptionSchema = insertWebhookSubscriptionSchema.partial();
+
+export type InsertWebhookSubscription = z.infer<typeof insertWebhookSubscriptionSchema>;
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+
+export const webhookDeliveryStatuses = ['pending', 'succeeded', 'failed'] as const;
+export type WebhookDeliveryStatus = typeof webhookDeliveryStatuses[number];
+
+// One row per attempt series: retried in place with exponential backoff until it succeeds or gives up.
+// A replay is a new row pointing at the delivery it repeats.
+export const webhookDeliveries = sqliteTable("webhook_deliveries", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  subscriptionId: text("subscription_id").notNull(),
+  organizationId: text("organization_id").notNull(),
+  event: text("event").notNull(),
+  payload: text("payload").notNull(),
+  status: text("status").notNull().default("pending").$type<WebhookDeliveryStatus>(),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: integer("next_attempt_at", { mode: "timestamp" }),
+  lastAttemptAt: integer("last_attempt_at", { mode: "timestamp" }),
+  responseStatus: integer("response_status"),
+  error: text("error"),
+  replayOf: text("replay_of"),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+}, (table) => ({
+  subscriptionIdx: index("IDX_webhook_deliveries_subscription").on(table.subscriptionId, table.createdAt),
+  dueIdx: index("IDX_webhook_deliveries_due").on(table.status, table.nextAttemptAt),
+}));
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+
+// Escalation rules: admin-defined conditions over live barriers, decisions, projects and actions.
+// The scheduler acts on each matching item once per rule and records what it did.
+export const escalationRuleEntityTypes = ['barrier', 'decision', 'project', 'action'] as const;
+export type EscalationRuleEntityType = typeof escalationRuleEntityTypes[number];
+
+export const escalationConditionOperators = ['eq', 'neq', 'gte', 'lte'] as const;
+export type EscalationConditionOperator = typeof escalationConditionOperators[number];
+
+export const barrierSeverities = ['low', 'medium', 'high'] as const;
+export const decisionEscalationLevels = ['work_stream_lead', 'work_stream', 'steering_committee', 'executive_committee'] as const;
+
+export type EscalationRuleField =
+  | { key: string; label: string; kind: 'number' }
+  | { key: string; label: string; kind: 'enum'; options: readonly string[] };
+
+// Day counts are whole days; an item without the underlying date never matches a numeric condition on it
+export const escalationRuleFields: Record<EscalationRuleEntityType, EscalationRuleField[]> = {
+  barrier: [
+    { key: 'severity', label: 'Severity', kind: 'enum', options: barrierSeverities },
+    { key: 'status', label: 'Status', kind: 'enum', options: ['active', 'mitigated', 'resolved', 'closed'] },
+    { key: 'daysOpen', label: 'Days since identified', kind: 'number' },
+    { key: 'daysPastTargetResolution', label: 'Days past target resolution', kind: 'number' },
+    { key: 'daysSinceStatusChange', label: 'Days since status changed', kind: 'number' },
+  ],
+  decision: [
+    { key: 'status', label: 'Status', kind: 'enum', options: ['proposed', 'under_review', 'decided', 'superseded'] },
+    { key: 'escalationLevel', label: 'Escalation level', kind: 'enum', options: decisionEscalationLevels },
+    { key: 'category', label: 'Category', kind: 'enum', options: ['strategic', 'technical', 'process', 'resource', 'budget', 'scope'] },
+    { key: 'daysOpen', label: 'Days since raised', kind: 'number' },
+    { key: 'daysPastDue', label: 'Days past due date', kind: 'number' },
+  ],
+  project: [
+    { key: 'status', label: 'Status', kind: 'enum', options: ['NYS', 'OT', 'OH', 'B', 'C'] },
+    { key: 'progress', label: 'Progress (%)', kind: 'number' },
+    { key: 'daysSinceStatusChange', label: 'Days since status changed', kind: 'number' },
+    { key: 'daysPastDue', label: 'Days past due date', kind: 'number' },
+  ],
+  action: [
+    { key: 'status', label: 'Status', kind: 'enum', options: ['not_started', 'in_progress', 'at_risk', 'achieved'] },
+    { key: 'daysSinceStatusChange', label: 'Days since status changed', kind: 'number' },
+    { key: 'daysPastDue', label: 'Days past due date', kind: 'number' },
+  ],
+};
+
+export const escalationRecipients = ['owners', 'accountable_leaders', 'administrators'] as const;
+export type EscalationRecipient = typeof escalationRecipients[number];
+
+export const escalationConditionSchema = z.object({
+  field: z.string().min(1),
+  operator: z.enum(escalationConditionOperators),
+  value: z.union([z.string().min(1), z.number()]),
+});
+
+export const escalationActionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("notify"),
+    recipients: z.array(z.enum(escalationRecipients)).min(1, "Choose who to notify"),
+    message: z.string().trim().max(500).optional(),
+  }),
+  z.object({ type: z.literal("set_escalation_level"), level: z.enum(decisionEscalationLevels) }),
+  z.object({ type: z.literal("set_severity"), severity: z.enum(barrierSeverities) }),
+]);
+
+export type EscalationCondition = z.infer<typeof escalationConditionSchema>;
+export type EscalationAction = z.infer<typeof escalationActionSchema>;
+
+const escalationRuleBodySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  entityType: z.enum(escalationRuleEntityTypes),
+  conditions: z.array(escalationConditionSchema).min(1, "Add at least one condition").max(10),
+  actions: z.array(escalationActionSchema).min(1, "Add at least one action").max(5),
+  isActive: z.enum(["true", "false"]).default("true"),
+});
+
+// Fields, operators and actions must make sense for the rule's entity type
+function checkEscalationRule(rule: Partial<z.infer<typeof escalationRuleBodySchema>>, ctx: z.RefinementCtx) {
+  if (!rule.entityType) return;
+  const fields = escalationRuleFields[rule.entityType];
+  rule.conditions?.forEach((condition, index) => {
+    const field = fields.find(f => f.key === condition.field);
+    if (!field) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["conditions", index, "field"], message: `Unknown ${rule.entityType} field "${condition.field}"` });
+    } else if (field.kind === 'number' && typeof condition.value !== 'number') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["conditions", index, "value"], message: `${field.label} needs a number` });
+    } else if (field.kind === 'enum' && !field.options.includes(String(condition.value))) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["conditions", index, "value"], message: `${field.label} must be one of: ${field.options.join(", ")}` });
+    } else if (field.kind === 'enum' && (condition.operator === 'gte' || condition.operator === 'lte')) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["conditions", index, "operator"], message: `${field.label} can only be compared with "is" or "is not"` });
+    }
+  });
+  rule.actions?.forEach((action, index) => {
+    if (action.type === 'set_escalation_level' && rule.entityType !== 'decision') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["actions", index], message: "Only decisions have an escalation level" });
+    }
+    if (action.type === 'set_severity' && rule.entityType !== 'barrier') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["actions", index], message: "Only barriers have a severity" });
+    }
+  });
+}
+
+export const insertEscalationRuleSchema = escalationRuleBodySchema.superRefine(checkEscalationRule);
+// Updates are checked again against the whole rule once merged with the stored one
+export const updateEscalationRuleSchema = escalationRuleBodySchema.partial();
+
+export type InsertEscalationRule = z.infer<typeof insertEscalationRuleSchema>;
+
+export const escalationRules = sqliteTable("escalation_rules", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  organizationId: text("organization_id").notNull(),
+  name: text("name").notNull(),
+  entityType: text("entity_type").notNull().$type<EscalationRuleEntityType>(),
+  conditions: text("conditions").notNull().default("[]"),
+  actions: text("actions").notNull().default("[]"),
+  isActive: text("is_active").notNull().default("true"),
+  createdBy: text("created_by").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
+export type EscalationRule = typeof escalationRules.$inferSelect;
+
+export const escalationRuleExecutions = sqliteTable("escalation_rule_executions", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  ruleId: text("rule_id").notNull(),
+  organizationId: text("organization_id").notNull(),
+  entityType: text("entity_type").notNull(),
+  entityId: text("entity_id").notNull(),
+  entityTitle: text("entity_title").notNull(),
+  status: text("status").notNull().$type<'succeeded' | 'failed'>(),
+  // Human-readable account of what the rule did, e.g. "Notified 3 people; escalation level set to steering_committee"
+  summary: text("summary").notNull(),
+  error: text("error"),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+}, (table) => ({
+  ruleEntityIdx: index("IDX_escalation_rule_executions_rule_entity").on(table.ruleId, table.entityId),
+  organizationIdx: index("IDX_escalation_rule_executions_org").on(table.organizationId, table.createdAt),
+}));
+
+export type EscalationRuleExecution = typeof escalationRuleExecutions.$inferSelect;
+export type InsertEscalationRuleExecution = typeof escalationRuleExecutions.$inferInsert;
+
+// A live item considered by the escalation rules, with the values its conditions are checked against
+export type EscalationCandidate = {
+  entityId: string;
+  title: string;
+  organizationId: string;
+  facts: Record<string, string | number | null>;
+  ownerIds: string[];
+  accountableLeaderIds: string[];
+};
+
+// Chat channels: incoming-webhook URLs in Slack, Microsoft Teams or Google Chat that receive notification events.
+// A channel either covers the whole organization or one strategy.
+export const chatProviders = ['slack', 'teams', 'google_chat'] as const;
+export type ChatProvider = typeof chatProviders[number];
+
+export const chatChannels = sqliteTable("chat_channels", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  organizationId: text("organization_id").notNull(),
+  name: text("name").notNull(),
+  provider: text("provider").notNull().$type<ChatProvider>(),
+  // Incoming-webhook URLs carry their own credentials, so they are never sent back to the browser in full
+  webhookUrl: text("webhook_url").notNull(),
+  strategyId: text("strategy_id"),
+  // JSON array of notification types; empty means every type
+  notificationTypes: text("notification_types").notNull().default("[]"),
+  // "HH:MM" in the channel's time zone; messages raised in between are held until quiet hours end
+  quietHoursStart: text("quiet_hours_start"),
+  quietHoursEnd: text("quiet_hours_end"),
+  timezone: text("timezone").notNull().default("UTC"),
+  isActive: text("is_active").notNull().default("true"),
+  createdBy: text("created_by").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
+const quietHourSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM").nullable().optional();
+
+const chatChannelBodySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  provider: z.enum(chatProviders),
+  webhookUrl: z.string().trim().url("Enter a valid URL").refine(url => /^https?:\/\//i.test(url), "URL must use http or https"),
+  strategyId: z.string().nullable().optional(),
+  notificationTypes: z.array(z.string()).default([]),
+  quietHoursStart: quietHourSchema,
+  quietHoursEnd: quietHourSchema,
+  timezone: z.string().refine(tz => {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: tz });
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Unknown time zone").default("UTC"),
+  isActive: z.enum(["true", "false"]).default("true"),
+});
+
+const bothQuietHoursOrNeither = (channel: { quietHoursStart?: string | null; quietHoursEnd?: string | null }) =>
+  !channel.quietHoursStart === !channel.quietHoursEnd;
+
+export const insertChatChannelSchema = chatChannelBodySchema.refine(bothQuietHoursOrNeither, {
+  message: "Set both the start and end of quiet hours, or neither",
+  path: ["quietHoursEnd"],
+});
+
+// The stored webhook URL is kept when an update leaves it out
+export const updateChatChannelSchema = chatChannelBodySchema.partial().refine(
+  channel => channel.quietHoursStart === undefined && channel.quietHoursEnd === undefined || bothQuietHoursOrNeither(channel),
+  { message: "Set both the start and end of quiet hours, or neither", path: ["quietHoursEnd"] },
+);
+
+export type InsertChatChannel = z.infer<typeof insertChatChannelSchema>;
+export type ChatChannel = typeof chatChannels.$inferSelect;
+
+export const chatMessageStatuses = ['pending', 'sent', 'failed'] as const;
+export type ChatMessageStatus = typeof chatMessageStatuses[number];
+
+// Outgoing chat posts. Messages held by quiet hours or a failed post wait here until sendAfter.
+export const chatMessages = sqliteTable("chat_messages", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  channelId: text("channel_id").notNull(),
+  organizationId: text("organization_id").notNull(),
+  notificationType: text("notification_type").notNull(),
+  payload: text("payload").notNull(),
+  status: text("status").notNull().default("pending").$type<ChatMessageStatus>(),
+  attempts: integer("attempts").notNull().default(0),
+  sendAfter: integer("send_after", { mode: "timestamp" }),
+  sentAt: integer("sent_at", { mode: "timestamp" }),
+  error: text("error"),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+}, (table) => ({
+  dueIdx: index("IDX_chat_messages_due").on(table.status, table.sendAfter),
+}));
+
+export type ChatMessage = typeof chatMessages.$inferSelect;
+export type InsertChatMessage = typeof chatMessages.$inferInsert;
+
+// ==================== NOTIFICATION INBOX ====================
+
+export const notificationInboxStatuses = ['all', 'unread', 'snoozed'] as const;
+export type NotificationInboxStatus = typeof notificationInboxStatuses[number];
+
+export type NotificationFilter = {
+  status: NotificationInboxStatus;
+  types?: string[];
+  asOf: Date;
+};
+
+// Notifications about the same record, newest first; notifications without a record form a group of one
+export type NotificationGroup = {
+  key: string;
+  relatedEntityType: string | null;
+  relatedEntityId: string | null;
+  count: number;
+  unreadCount: number;
+  latestAt: Date | null;
+  notifications: Notification[];
+};
+
+// Bulk inbox changes apply either to the listed notifications or to every notification about one record
+const notificationTargetBodySchema = z.object({
+  ids: z.array(z.string()).min(1).max(500).optional(),
+  relatedEntityType: z.string().optional(),
+  relatedEntityId: z.string().optional(),
+});
+
+const hasNotificationTarget = (target: z.infer<typeof notificationTargetBodySchema>) =>
+  !!target.ids || (!!target.relatedEntityType && !!target.relatedEntityId);
+
+export const notificationTargetSchema = notificationTargetBodySchema.refine(hasNotificationTarget, {
+  message: "Choose notifications or a record",
+  path: ["ids"],
+});
+
+// A null `until` ends the snooze straight away
+export const snoozeNotificationsSchema = notificationTargetBodySchema.extend({
+  until: z.coerce.date().nullable(),
+}).refine(hasNotificationTarget, {
+  message: "Choose notifications or a record",
+  path: ["ids"],
+}).refine(target => target.until === null || target.until.getTime() > Date.now(), {
+  message: "Snooze until a time in the future",
+  path: ["until"],
+});
+
+export type NotificationTarget = z.infer<typeof notificationTargetBodySchema>;
+
+export const followableEntityTypes = ['strategy', 'project', 'action'] as const;
+export type FollowableEntityType = typeof followableEntityTypes[number];
+
+// People who get a record's notifications (and those of the projects and actions under it) without being assigned
+export const entityFollows = sqliteTable("entity_follows", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  userId: text("user_id").notNull(),
+  organizationId: text("organization_id").notNull(),
+  entityType: text("entity_type").notNull().$type<FollowableEntityType>(),
+  entityId: text("entity_id").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+}, (table) => ({
+  uniqueUserEntity: unique().on(table.userId, table.entityType, table.entityId),
+  entityIdx: index("IDX_entity_follows_entity").on(table.entityType, table.entityId),
+}));
+
+export const insertEntityFollowSchema = z.object({
+  entityType: z.enum(followableEntityTypes),
+  entityId: z.string().min(1),
+});
+
+export type EntityFollow = typeof entityFollows.$inferSelect;
+export type InsertEntityFollow = typeof entityFollows.$inferInsert;
+
+// Where a record sits: its organization and the strategy and project above it
+export type EntityScope = {
+  organizationId: string;
+  strategyId: string | null;
+  projectId: string | null;
+};
+
+// ==================== STRATEGY DIGESTS ====================
+
+export const strategyDigestTriggers = ['scheduled', 'manual'] as const;
+export type StrategyDigestTrigger = typeof strategyDigestTriggers[number];
+
+// What one weekly digest reports. Dates are ISO strings because the content is stored as JSON.
+export type StrategyDigestContent = {
+  strategy: { id: string; title: string; status: string; colorCode: string };
+  periodStart: string;
+  periodEnd: string;
+  // `previous` values come from the strategy's last digest; they are null when there is none
+  previousDigestAt: string | null;
+  progress: { current: number; previous: number | null; delta: number | null };
+  projects: { id: string; title: string; status: string; progress: number; previous: number | null; delta: number | null }[];
+  actionsCompleted: { id: string; title: string; projectTitle: string | null; completedAt: string }[];
+  newlyOverdue: { id: string; title: string; projectTitle: string | null; dueDate: string }[];
+  barriersRaised: { id: string; title: string; projectTitle: string | null; severity: string; raisedAt: string }[];
+  barriersResolved: { id: string; title: string; projectTitle: string | null; resolvedAt: string }[];
+  decisionsMade: { id: string; title: string; outcome: string | null; decidedAt: string }[];
+  workstreamGateRag: Record<string, Record<string, string>>;
+  ragChanges: { workstreamId: string; workstreamName: string; phaseId: string; phaseName: string; from: string | null; to: string }[];
+  upcomingGates: { id: string; title: string; phaseName: string | null; plannedEnd: string; rag: string }[];
+};
+
+// Every digest that was generated, so next week's can report what changed since this one
+export const strategyDigests = sqliteTable("strategy_digests", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  strategyId: text("strategy_id").notNull(),
+  organizationId: text("organization_id").notNull(),
+  periodStart: integer("period_start", { mode: "timestamp" }).notNull(),
+  periodEnd: integer("period_end", { mode: "timestamp" }).notNull(),
+  progress: integer("progress").notNull().default(0),
+  content: text("content").notNull(),
+  trigger: text("trigger").notNull().default("scheduled").$type<StrategyDigestTrigger>(),
+  createdBy: text("created_by"),
+  emailedAt: integer("emailed_at", { mode: "timestamp" }),
+  recipientCount: integer("recipient_count").notNull().default(0),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+}, (table) => ({
+  uniqueStrategyPeriod: unique().on(table.strategyId, table.periodEnd),
+}));
+
+export type StrategyDigest = typeof strategyDigests.$inferSelect;
+export type InsertStrategyDigest = typeof strategyDigests.$inferInsert;
+
+// One status change recorded in change history
+export type StatusTransition = { entityId: string; to: string; changedAt: Date };
+
+// Single sign-on: each organization can have one OpenID Connect identity provider. People who sign in
+// through it are created on first login, and their role and team tags follow their IdP groups.
+export const ssoRoles = ['administrator', 'co_lead', 'view', 'sme'] as const;
+export type SsoRole = typeof ssoRoles[number];
+
+const ssoGroupSchema = z.string().trim().min(1, "Group is required").max(200);
+
+export const oidcRoleMappingSchema = z.object({
+  group: ssoGroupSchema,
+  role: z.enum(ssoRoles),
+});
+
+export const oidcTeamTagMappingSchema = z.object({
+  group: ssoGroupSchema,
+  teamTagId: z.string().min(1, "Team tag is required"),
+});
+
+export type OidcRoleMapping = z.infer<typeof oidcRoleMappingSchema>;
+export type OidcTeamTagMapping = z.infer<typeof oidcTeamTagMappingSchema>;
+
+export const oidcConfigurations = sqliteTable("oidc_configurations", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  organizationId: text("organization_id").notNull().unique(),
+  issuerUrl: text("issuer_url").notNull(),
+  clientId: text("client_id").notNull(),
+  // Never sent back to the browser
+  clientSecret: text("client_secret").notNull(),
+  scopes: text("scopes").notNull().default("openid email profile"),
+  emailClaim: text("email_claim").notNull().default("email"),
+  firstNameClaim: text("first_name_claim").notNull().default("given_name"),
+  lastNameClaim: text("last_name_claim").notNull().default("family_name"),
+  groupsClaim: text("groups_claim").notNull().default("groups"),
+  // JSON arrays of OidcRoleMapping and OidcTeamTagMapping
+  roleMappings: text("role_mappings").notNull().default("[]"),
+  teamTagMappings: text("team_tag_mappings").notNull().default("[]"),
+  // Role for a new user whose groups match no role mapping; null turns them away
+  defaultRole: text("default_role").$type<SsoRole>(),
+  // JSON array of email domains that "Sign in with SSO" sends to this provider
+  emailDomains: text("email_domains").notNull().default("[]"),
+  // Members must use the IdP; administrators keep password sign-in so a broken IdP cannot lock everyone out
+  enforceSso: text("enforce_sso").notNull().default("false"),
+  isEnabled: text("is_enabled").notNull().default("false"),
+  createdBy: text("created_by").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
+const claimNameSchema = z.string().trim().min(1).max(100);
+
+export const upsertOidcConfigurationSchema = z.object({
+  issuerUrl: z.string().trim().url("Enter a valid URL").refine(url => /^https?:\/\//i.test(url), "URL must use http or https"),
+  clientId: z.string().trim().min(1, "Client ID is required").max(500),
+  // Leave out to keep the stored secret
+  clientSecret: z.string().trim().min(1).max(2000).optional(),
+  scopes: z.string().trim().max(500).default("openid email profile")
+    .refine(scopes => scopes.split(/\s+/).includes("openid"), "Scopes must include openid"),
+  emailClaim: claimNameSchema.default("email"),
+  firstNameClaim: claimNameSchema.default("given_name"),
+  lastNameClaim: claimNameSchema.default("family_name"),
+  groupsClaim: claimNameSchema.default("groups"),
+  roleMappings: z.array(oidcRoleMappingSchema).max(100).default([]),
+  teamTagMappings: z.array(oidcTeamTagMappingSchema).max(200).default([]),
+  defaultRole: z.enum(ssoRoles).nullable().default("co_lead"),
+  emailDomains: z.array(
+    z.string().trim().toLowerCase().regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, "Enter a domain like example.com"),
+  ).max(50).default([]),
+  enforceSso: z.boolean().default(false),
+  isEnabled: z.boolean().default(false),
+});
+
+export type UpsertOidcConfiguration = z.infer<typeof upsertOidcConfigurationSchema>;
+export type OidcConfiguration = typeof oidcConfigurations.$inferSelect;
+export type InsertOidcConfiguration = typeof oidcConfigurations.$inferInsert;
+
+// Links a user to the IdP account they sign in with; the subject claim is stable even if the email changes
+export const oidcIdentities = sqliteTable("oidc_identities", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  userId: text("user_id").notNull(),
+  organizationId: text("organization_id").notNull(),
+  issuer: text("issuer").notNull(),
+  subject: text("subject").notNull(),
+  lastLoginAt: integer("last_login_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+}, (table) => ({
+  uniqueIssuerSubject: unique().on(table.issuer, table.subject),
+  userIdx: index("IDX_oidc_identities_user").on(table.userId),
+}));
+
+export type OidcIdentity = typeof oidcIdentities.$inferSelect;
+export type InsertOidcIdentity = typeof oidcIdentities.$inferInsert;
+
+// Authorization requests waiting for the IdP to redirect back; the state parameter is the key
+export const oidcLoginStates = sqliteTable("oidc_login_states", {
+  state: text("state").primaryKey(),
+  organizationId: text("organization_id").notNull(),
+  codeVerifier: text("code_verifier").notNull(),
+  nonce: text("nonce").notNull(),
+  // Set when a signed-in user is linking their account, rather than signing in
+  linkUserId: text("link_user_id"),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+});
+
+export type OidcLoginState = typeof oidcLoginStates.$inferSelect;
+export type InsertOidcLoginState = typeof oidcLoginStates.$inferInsert;
+
+// Personal access tokens for scripts and integrations. Each scope covers a group of REST endpoints;
+// read scopes allow GET requests and write scopes allow changes.
+export const apiTokenScopes = [
+  'read:strategies',
+  'write:strategies',
+  'read:projects',
+  'write:projects',
+  'read:actions',
+  'write:actions',
+  'read:users',
+  'admin:users',
+  'admin:organization',
+] as const;
+export type ApiTokenScope = typeof apiTokenScopes[number];
+
+// Only administrators can grant these, and tokens lose them if their owner stops being one
+export const adminApiTokenScopes: ApiTokenScope[] = ['admin:users', 'admin:organization'];
+
+export const apiTokens = sqliteTable("api_tokens", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  userId: text("user_id").notNull(),
+  organizationId: text("organization_id").notNull(),
+  name: text("name").notNull(),
+  // Start of the token, shown in lists so people can tell their tokens apart
+  tokenPrefix: text("token_prefix").notNull(),
+  // SHA-256 of the token; the token itself is only shown once, when it is created
+  tokenHash: text("token_hash").notNull().unique(),
+  // JSON array of ApiTokenScope
+  scopes: text("scopes").notNull(),
+  expiresAt: integer("expires_at", { mode: "timestamp" }),
+  lastUsedAt: integer("last_used_at", { mode: "timestamp" }),
+  lastUsedIp: text("last_used_ip"),
+  revokedAt: integer("revoked_at", { mode: "timestamp" }),
+  revokedBy: text("revoked_by"),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+}, (table) => ({
+  userIdx: index("IDX_api_tokens_user").on(table.userId),
+  organizationIdx: index("IDX_api_tokens_organization").on(table.organizationId),
+}));
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z.array(z.enum(apiTokenScopes)).min(1, "Choose at least one scope")
+    .transform(scopes => Array.from(new Set(scopes))),
+  // null or left out means the token never expires
+  expiresAt: z.coerce.date().nullable().default(null)
+    .refine(date => !date || date.getTime() > Date.now(), "Expiry date must be in the future"),
+});
+
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = typeof apiTokens.$inferInsert;
+
+// Things a role can allow. Routes check these through server/permissions.ts instead of comparing role names.
+export const permissionCapabilities = [
+  'create_project',
+  'edit_project',
+  'delete_project',
+  'create_action',
+  'edit_action',
+  'delete_action',
+  'manage_barriers',
+  'manage_dependencies',
+  'manage_resources',
+  'record_measurements',
+  'decide_decision',
+  'edit_framework_documents',
+  'manage_workstreams',
+  'edit_scenarios',
+  'send_digests',
+  'import_data',
+  'view_reports',
+] as const;
+export type PermissionCapability = typeof permissionCapabilities[number];
+
+export const builtInRoles = ['administrator', 'co_lead', 'view', 'sme'] as const;
+export type BuiltInRole = typeof builtInRoles[number];
+
+// Administrators always hold every capability and SMEs cannot sign in, so only these can be cloned
+export const cloneableRoles = ['co_lead', 'view'] as const;
+export type CloneableRole = typeof cloneableRoles[number];
+
+export const builtInRoleCapabilities: Record<BuiltInRole, readonly PermissionCapability[]> = {
+  administrator: permissionCapabilities,
+  co_lead: permissionCapabilities,
+  view: ['view_reports'],
+  sme: [],
+};
+
+export const customRoles = sqliteTable("custom_roles", {
+  id: text("id").primaryKey().$defaultFn(() => randomUUID()),
+  organizationId: text("organization_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  // Built-in role this one was cloned from; members get it as their users.role
+  baseRole: text("base_role").$type<CloneableRole>().notNull(),
+  // JSON array of PermissionCapability
+  capabilities: text("capabilities").notNull(),
+  createdBy: text("created_by").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).$defaultFn(() => new Date()),
+}, (table) => ({
+  organizationIdx: index("IDX_custom_roles_organization").on(table.organizationId),
+}));
+
+const customRoleCapabilitiesSchema = z.array(z.enum(permissionCapabilities))
+  .transform(capabilities => Array.from(new Set(capabilities)));
+
+export const createCustomRoleSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(60),
+  description: z.string().trim().max(300).nullable().default(null),
+  baseRole: z.enum(cloneableRoles),
+  // Defaults to the capabilities of the role being cloned
+  capabilities: customRoleCapabilitiesSchema.optional(),
+});
+
+export const updateCustomRoleSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(60).optional(),
+  description: z.string().trim().max(300).nullable().optional(),
+  capabilities: customRoleCapabilitiesSchema.optional(),
+});
+
+export type CreateCustomRole = z.infer<typeof createCustomRoleSchema>;
+export type UpdateCustomRole = z.infer<typeof updateCustomRoleSchema>;
+export type CustomRole = typeof customRoles.$inferSelect;
+export type InsertCustomRole = typeof customRoles.$inferInsert;